@@ -83,7 +83,7 @@ async function comprehensiveTest() {
             const mediaData = {
               originalName: `test-media-${i + 1}.jpg`,
               filename: `test_media_${i + 1}_${Date.now()}.jpg`,
-              cloudinaryId: `test_media_${i + 1}_${Date.now()}`,
+              storageKey: `test_media_${i + 1}_${Date.now()}`,
               url: `https://res.cloudinary.com/demo/image/upload/test_media_${i + 1}_${Date.now()}.jpg`,
               secureUrl: `https://res.cloudinary.com/demo/image/upload/test_media_${i + 1}_${Date.now()}.jpg`,
               publicId: `test_media_${i + 1}_${Date.now()}`,
@@ -1,14 +1,24 @@
 const cloudinary = require('cloudinary').v2;
 const winston = require('winston');
 const { Readable } = require('stream');
+const {
+  FILE_SIZE_LIMITS,
+  ALLOWED_FORMATS,
+  MIME_TYPE_MAPPINGS,
+  generateUserFolder,
+  validateFileForUpload,
+  isValidFileType,
+  getResourceTypeFromMime
+} = require('./storage/mediaFiles');
 
 /**
  * Enhanced Cloudinary configuration with Media model integration
  * Supports user-specific folders, comprehensive file validation, metadata extraction,
- * and seamless integration with the Media model structure
+ * and seamless integration with the Media model structure. Used through the
+ * cloudinary storage provider (config/storage) when STORAGE_PROVIDER=cloudinary
  */
 
-// Configure Cloudinary with environment validation
+// Configure Cloudinary; credentials are checked when the provider is selected
 cloudinary.config({
   cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
   api_key: process.env.CLOUDINARY_API_KEY,
@@ -31,9 +41,6 @@ const validateEnvironmentConfig = () => {
   });
 };
 
-// Initialize environment validation
-validateEnvironmentConfig();
-
 /**
  * Verify Cloudinary connection
  */
@@ -54,90 +61,6 @@ const verifyCloudinaryConnection = async () => {
   }
 };
 
-// File size limits (in bytes)
-const FILE_SIZE_LIMITS = {
-  image: 10 * 1024 * 1024, // 10MB for images
-  video: 50 * 1024 * 1024  // 50MB for videos
-};
-
-// Allowed file formats
-const ALLOWED_FORMATS = {
-  image: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'svg'],
-  video: ['mp4', 'avi', 'mov', 'wmv', 'flv', 'webm', 'mkv']
-};
-
-// MIME type mappings
-const MIME_TYPE_MAPPINGS = {
-  'image/jpeg': 'image',
-  'image/jpg': 'image',
-  'image/png': 'image',
-  'image/gif': 'image',
-  'image/webp': 'image',
-  'image/bmp': 'image',
-  'image/svg+xml': 'image',
-  'video/mp4': 'video',
-  'video/avi': 'video',
-  'video/quicktime': 'video',
-  'video/x-msvideo': 'video',
-  'video/webm': 'video',
-  'video/x-flv': 'video',
-  'video/x-matroska': 'video'
-};
-
-/**
- * Generate user-specific folder path
- * @param {string} userId - User ID
- * @param {string} type - Media type (image/video)
- * @returns {string} Folder path
- */
-const generateUserFolder = (userId, type) => {
-  const baseFolder = process.env.CLOUDINARY_BASE_FOLDER || 'advertisements';
-  return `${baseFolder}/${userId}/${type}s`;
-};
-
-/**
- * Validate file before upload
- * @param {Buffer} buffer - File buffer
- * @param {string} mimetype - File MIME type
- * @param {string} originalName - Original filename
- * @returns {Object} Validation result
- */
-const validateFileForUpload = (buffer, mimetype, originalName) => {
-  // Check if MIME type is supported
-  const mediaType = MIME_TYPE_MAPPINGS[mimetype];
-  if (!mediaType) {
-    return {
-      isValid: false,
-      error: `Unsupported file type: ${mimetype}. Allowed types: ${Object.keys(MIME_TYPE_MAPPINGS).join(', ')}`
-    };
-  }
-
-  // Check file size
-  const fileSize = buffer.length;
-  const sizeLimit = FILE_SIZE_LIMITS[mediaType];
-  if (fileSize > sizeLimit) {
-    const limitMB = Math.round(sizeLimit / (1024 * 1024));
-    return {
-      isValid: false,
-      error: `File size (${Math.round(fileSize / (1024 * 1024))}MB) exceeds ${limitMB}MB limit for ${mediaType} files`
-    };
-  }
-
-  // Check filename
-  if (!originalName || originalName.trim().length === 0) {
-    return {
-      isValid: false,
-      error: 'Original filename is required'
-    };
-  }
-
-  return {
-    isValid: true,
-    mediaType,
-    fileSize
-  };
-};
-
 /**
  * Upload image to Cloudinary with enhanced options and Media model integration
  * @param {Buffer} buffer - File buffer
@@ -407,74 +330,6 @@ const uploadFile = async (buffer, mimetype, originalName, options = {}) => {
   }
 };
 
-/**
- * Validate file type - Enhanced version using MIME_TYPE_MAPPINGS
- * @param {string} mimetype - File mimetype
- * @returns {boolean} Is valid file type
- */
-const isValidFileType = (mimetype) => {
-  return Object.keys(MIME_TYPE_MAPPINGS).includes(mimetype);
-};
-
-/**
- * Get resource type from MIME type
- * @param {string} mimetype - File MIME type
- * @returns {string|null} Resource type (image/video) or null if invalid
- */
-const getResourceTypeFromMime = (mimetype) => {
-  return MIME_TYPE_MAPPINGS[mimetype] || null;
-};
-
-/**
- * Create Media model data from Cloudinary result
- * @param {Object} cloudinaryResult - Cloudinary upload result
- * @param {string} originalName - Original filename
- * @param {string} userId - User ID
- * @param {Object} additionalData - Additional data for Media model
- * @returns {Object} Media model compatible data
- */
-const createMediaModelData = (cloudinaryResult, originalName, userId, additionalData = {}) => {
-  const mediaType = cloudinaryResult.type || getResourceTypeFromMime(additionalData.mimetype);
-  
-  const baseData = {
-    originalName,
-    filename: cloudinaryResult.cloudinaryId, // Will be updated by pre-save hook if needed
-    cloudinaryId: cloudinaryResult.cloudinaryId,
-    url: cloudinaryResult.url,
-    secureUrl: cloudinaryResult.secureUrl,
-    type: mediaType,
-    format: cloudinaryResult.format,
-    width: cloudinaryResult.width,
-    height: cloudinaryResult.height,
-    fileSize: cloudinaryResult.fileSize,
-    owner: userId,
-    cloudinaryMetadata: cloudinaryResult.cloudinaryMetadata || {}
-  };
-
-  // Add type-specific duration fields
-  if (mediaType === 'image') {
-    baseData.duration = additionalData.duration || 10; // Default 10 seconds for images
-  } else if (mediaType === 'video') {
-    // For videos, use the duration from Cloudinary (video file metadata)
-    baseData.videoDuration = cloudinaryResult.videoDuration || cloudinaryResult.duration || 30;
-  }
-
-  // Add optional fields
-  if (additionalData.tags) {
-    baseData.tags = additionalData.tags;
-  }
-  
-  if (additionalData.description) {
-    baseData.description = additionalData.description;
-  }
-
-  if (additionalData.quality) {
-    baseData.quality = additionalData.quality;
-  }
-
-  return baseData;
-};
-
 /**
  * Generate thumbnail for video with enhanced options
  * @param {string} publicId - Video public ID
@@ -524,50 +379,6 @@ const generateVideoThumbnail = async (publicId, options = {}) => {
   }
 };
 
-/**
- * Upload file and create Media model entry in a single operation
- * @param {Buffer} buffer - File buffer
- * @param {string} mimetype - File MIME type
- * @param {string} originalName - Original filename
- * @param {string} userId - User ID
- * @param {Object} mediaData - Additional Media model data
- * @returns {Promise<Object>} Media model compatible data ready for database
- */
-const uploadFileForMediaModel = async (buffer, mimetype, originalName, userId, mediaData = {}) => {
-  try {
-    // Upload to Cloudinary
-    const cloudinaryResult = await uploadFile(buffer, mimetype, originalName, { 
-      userId,
-      ...mediaData.uploadOptions 
-    });
-
-    // Create Media model data
-    const mediaModelData = createMediaModelData(
-      cloudinaryResult, 
-      originalName, 
-      userId,
-      { mimetype, ...mediaData }
-    );
-
-    winston.info('File uploaded and Media model data created:', {
-      service: 'cloudinary',
-      cloudinaryId: cloudinaryResult.cloudinaryId,
-      userId,
-      originalName
-    });
-
-    return mediaModelData;
-  } catch (error) {
-    winston.error('Upload for Media model failed:', {
-      service: 'cloudinary',
-      userId,
-      originalName,
-      error: error.message
-    });
-    throw error;
-  }
-};
-
 /**
  * Get multiple file details from Cloudinary
  * @param {Array} publicIds - Array of Cloudinary public IDs
@@ -892,7 +703,6 @@ module.exports = {
   uploadFile,
   uploadImage,
   uploadVideo,
-  uploadFileForMediaModel,
   
   // File management
   deleteFile,
@@ -914,9 +724,6 @@ module.exports = {
   getUserStorageStats,
   cleanupOrphanedFiles,
   
-  // Media model integration
-  createMediaModelData,
-  
   // Constants for external use
   FILE_SIZE_LIMITS,
   ALLOWED_FORMATS,
@@ -0,0 +1,73 @@
+/**
+ * Role and permission definitions for organization members
+ * Permissions name a resource and an action. Each role grants a default set;
+ * organizations can change the sets of every role but owner and admin, which
+ * always hold every permission so an organization cannot lock itself out
+ */
+
+const PERMISSIONS = {
+  'media:view': 'View media',
+  'media:upload': 'Upload media',
+  'media:edit': 'Edit and delete media',
+  'playlist:view': 'View playlists',
+  'playlist:edit': 'Create, edit and delete playlists',
+  'playlist:publish': 'Assign playlists to screens',
+  'playlist:approve': 'Approve or reject playlists submitted for review',
+  'screen:view': 'View screens and their status',
+  'screen:manage': 'Add, pair, edit and group screens',
+  'screen:control': 'Send commands to screens',
+  'emergency:send': 'Send and clear emergency broadcasts',
+  'dataSource:manage': 'Manage data sources',
+  'members:manage': 'Invite members and change their roles',
+  'billing:manage': 'Manage billing'
+};
+
+const ALL_PERMISSIONS = Object.keys(PERMISSIONS);
+
+// Roles whose permissions cannot be changed
+const FIXED_ROLES = ['owner', 'admin'];
+
+const DEFAULT_ROLE_PERMISSIONS = {
+  owner: ALL_PERMISSIONS,
+  admin: ALL_PERMISSIONS,
+  // Everyday work on content and screens, as before roles were configurable.
+  // Reviewing is left to approvers so members do not sign off their own work
+  member: ALL_PERMISSIONS.filter(permission =>
+    !['members:manage', 'billing:manage', 'playlist:approve'].includes(permission)
+  ),
+  content_editor: ['media:view', 'media:upload', 'media:edit', 'playlist:view', 'playlist:edit', 'screen:view'],
+  approver: ['media:view', 'playlist:view', 'playlist:approve', 'playlist:publish', 'screen:view'],
+  screen_operator: [
+    'media:view',
+    'playlist:view',
+    'playlist:publish',
+    'screen:view',
+    'screen:manage',
+    'screen:control',
+    'emergency:send'
+  ],
+  viewer: ['media:view', 'playlist:view', 'screen:view'],
+  billing: ['screen:view', 'billing:manage']
+};
+
+const ROLES = Object.keys(DEFAULT_ROLE_PERMISSIONS);
+
+const ROLE_LABELS = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  content_editor: 'Content editor',
+  approver: 'Approver',
+  screen_operator: 'Screen operator',
+  viewer: 'Viewer',
+  billing: 'Billing'
+};
+
+module.exports = {
+  PERMISSIONS,
+  ALL_PERMISSIONS,
+  FIXED_ROLES,
+  DEFAULT_ROLE_PERMISSIONS,
+  ROLES,
+  ROLE_LABELS
+};
@@ -0,0 +1,77 @@
+const {
+  validateEnvironmentConfig,
+  verifyCloudinaryConnection,
+  uploadFile,
+  deleteFile,
+  getOptimizedUrl,
+  generateVideoThumbnail,
+  getUserStorageStats
+} = require('../cloudinary');
+
+/**
+ * Cloudinary storage provider
+ * Keeps Cloudinary's image analysis, automatic format conversion and video
+ * thumbnails. The storage key is the Cloudinary public ID
+ */
+
+const name = 'cloudinary';
+
+/**
+ * Upload a validated file
+ * @param {Buffer} buffer - File contents
+ * @param {Object} file - { mimetype, originalName, userId, mediaType, context }
+ * @returns {Promise<Object>} Upload result
+ */
+const upload = async (buffer, { mimetype, originalName, userId, context }) => {
+  const result = await uploadFile(buffer, mimetype, originalName, { userId, context });
+
+  return {
+    storageKey: result.cloudinaryId,
+    storageProvider: name,
+    url: result.url,
+    secureUrl: result.secureUrl,
+    type: result.type,
+    format: result.format,
+    fileSize: result.fileSize,
+    width: result.width,
+    height: result.height,
+    videoDuration: result.videoDuration,
+    cloudinaryMetadata: result.cloudinaryMetadata
+  };
+};
+
+/**
+ * Delete a stored file
+ * @param {string} storageKey - Cloudinary public ID
+ * @param {string} mediaType - image or video
+ */
+const remove = (storageKey, mediaType) => deleteFile(storageKey, mediaType);
+
+/**
+ * Signed, time-limited download URL that forces an attachment
+ * @param {string} storageKey - Cloudinary public ID
+ * @param {Object} options - { mediaType, expiresIn (seconds) }
+ * @returns {Promise<{ url: string, expiresAt: Date }>}
+ */
+const getDownloadUrl = async (storageKey, { mediaType, expiresIn }) => {
+  const expiresAt = new Date(Date.now() + expiresIn * 1000);
+
+  const url = getOptimizedUrl(storageKey, {
+    flags: 'attachment',
+    sign_url: true,
+    expires_at: Math.floor(expiresAt.getTime() / 1000)
+  }, mediaType);
+
+  return { url, expiresAt };
+};
+
+module.exports = {
+  name,
+  validateConfig: validateEnvironmentConfig,
+  verifyConnection: verifyCloudinaryConnection,
+  upload,
+  remove,
+  getDownloadUrl,
+  getVideoThumbnail: generateVideoThumbnail,
+  getUsage: getUserStorageStats
+};
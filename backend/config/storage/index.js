@@ -0,0 +1,153 @@
+const winston = require('winston');
+const {
+  validateFileForUpload,
+  createMediaModelData
+} = require('./mediaFiles');
+
+/**
+ * Pluggable media storage
+ * Every provider implements the same interface:
+ * - name: provider identifier stored on each Media document
+ * - validateConfig(): throws when required settings are missing
+ * - verifyConnection(): resolves true when the backend is reachable
+ * - upload(buffer, { mimetype, originalName, userId, mediaType, context }): stores a file
+ * - remove(storageKey, mediaType): deletes a stored file
+ * - getDownloadUrl(storageKey, { mediaType, filename, expiresIn }): { url, expiresAt }
+ * Optional capabilities: getVideoThumbnail(storageKey, options), getUsage(userId)
+ *
+ * STORAGE_PROVIDER picks the provider for new uploads (local, s3 or cloudinary).
+ * It defaults to cloudinary when Cloudinary credentials are set, otherwise local.
+ * Existing media keep using the provider they were uploaded to
+ */
+
+// Loaded on first use so unused providers never read their configuration
+const PROVIDERS = {
+  local: () => require('./localStorage'),
+  s3: () => require('./s3Storage'),
+  cloudinary: () => require('./cloudinaryStorage')
+};
+
+const configured = new Set();
+
+/**
+ * Name of the provider new uploads go to
+ * @returns {string}
+ */
+const getStorageProviderName = () =>
+  (process.env.STORAGE_PROVIDER || (process.env.CLOUDINARY_CLOUD_NAME ? 'cloudinary' : 'local')).toLowerCase();
+
+/**
+ * Get a storage provider, validating its configuration on first use
+ * @param {string} name - Provider name, defaults to the configured provider
+ * @returns {Object} Storage provider
+ */
+const getStorageProvider = (name = getStorageProviderName()) => {
+  const load = PROVIDERS[name];
+  if (!load) {
+    throw new Error(`Unknown storage provider "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+
+  const provider = load();
+  if (!configured.has(name)) {
+    provider.validateConfig();
+    configured.add(name);
+  }
+  return provider;
+};
+
+/**
+ * Validate and check the configured provider at startup
+ * @returns {Promise<boolean>} Whether the provider is reachable
+ */
+const initializeStorage = async () => {
+  const provider = getStorageProvider();
+  const connected = await provider.verifyConnection();
+
+  winston.info('Media storage initialized', {
+    service: 'storage',
+    provider: provider.name,
+    connected
+  });
+
+  return connected;
+};
+
+/**
+ * Validate a file, store it with the configured provider and build Media model data
+ * @param {Buffer} buffer - File buffer
+ * @param {string} mimetype - File MIME type
+ * @param {string} originalName - Original filename
+ * @param {string} userId - User ID
+ * @param {Object} mediaData - Additional Media model data
+ * @returns {Promise<Object>} Media model compatible data ready for database
+ */
+const uploadFileForMediaModel = async (buffer, mimetype, originalName, userId, mediaData = {}) => {
+  const validation = validateFileForUpload(buffer, mimetype, originalName);
+  if (!validation.isValid) {
+    throw new Error(validation.error);
+  }
+
+  const provider = getStorageProvider();
+
+  try {
+    const uploadResult = await provider.upload(buffer, {
+      mimetype,
+      originalName,
+      userId,
+      mediaType: validation.mediaType,
+      context: {
+        original_filename: originalName,
+        upload_timestamp: new Date().toISOString()
+      }
+    });
+
+    winston.info('File stored and Media model data created:', {
+      service: 'storage',
+      provider: provider.name,
+      storageKey: uploadResult.storageKey,
+      userId,
+      originalName
+    });
+
+    return createMediaModelData(uploadResult, originalName, userId, { mimetype, ...mediaData });
+  } catch (error) {
+    winston.error('Upload for Media model failed:', {
+      service: 'storage',
+      provider: provider.name,
+      userId,
+      originalName,
+      error: error.message
+    });
+    throw error;
+  }
+};
+
+/**
+ * Delete a media item's file from the provider it was stored with
+ * @param {Object} media - Media document
+ * @returns {Promise<Object>} Deletion result
+ */
+const deleteStoredFile = (media) =>
+  getStorageProvider(media.storageProvider).remove(media.storageKey, media.type);
+
+/**
+ * Download URL for a media item's file
+ * @param {Object} media - Media document
+ * @param {number} expiresIn - Seconds the URL stays valid, where the provider supports expiry
+ * @returns {Promise<{ url: string, expiresAt: Date|null }>}
+ */
+const getMediaDownloadUrl = (media, expiresIn = 3600) =>
+  getStorageProvider(media.storageProvider).getDownloadUrl(media.storageKey, {
+    mediaType: media.type,
+    filename: media.originalName,
+    expiresIn
+  });
+
+module.exports = {
+  getStorageProviderName,
+  getStorageProvider,
+  initializeStorage,
+  uploadFileForMediaModel,
+  deleteStoredFile,
+  getMediaDownloadUrl
+};
@@ -0,0 +1,199 @@
+const fs = require('fs/promises');
+const path = require('path');
+const express = require('express');
+const winston = require('winston');
+const { generateStorageKey, generateUserFolder, getFormatFromMime, readImageDimensions } = require('./mediaFiles');
+
+/**
+ * Local disk storage provider
+ * Writes uploads under LOCAL_STORAGE_PATH and serves them from this server at
+ * LOCAL_STORAGE_URL_PATH. Suited to development and single-server installs
+ * that cannot reach a cloud service
+ */
+
+const name = 'local';
+
+const getRoot = () => path.resolve(process.env.LOCAL_STORAGE_PATH || path.join(__dirname, '..', '..', 'uploads'));
+
+const getUrlPath = () => (process.env.LOCAL_STORAGE_URL_PATH || '/uploads').replace(/\/+$/, '');
+
+const getBaseUrl = () => (process.env.PUBLIC_SERVER_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/+$/, '');
+
+/**
+ * Absolute path of a stored file; keys can never point outside the storage root
+ */
+const resolveKeyPath = (storageKey) => {
+  const root = getRoot();
+  const filePath = path.resolve(root, ...storageKey.split('/'));
+
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${storageKey}`);
+  }
+  return filePath;
+};
+
+const getPublicUrl = (storageKey) =>
+  `${getBaseUrl()}${getUrlPath()}/${storageKey.split('/').map(encodeURIComponent).join('/')}`;
+
+/**
+ * Local storage needs no credentials; report where files are kept
+ */
+const validateConfig = () => {
+  winston.info('Local media storage configured', {
+    service: 'storage',
+    root: getRoot(),
+    url: `${getBaseUrl()}${getUrlPath()}`
+  });
+};
+
+/**
+ * Create the storage root if needed and check it is writable
+ */
+const verifyConnection = async () => {
+  try {
+    await fs.mkdir(getRoot(), { recursive: true });
+    await fs.access(getRoot(), fs.constants.W_OK);
+    return true;
+  } catch (error) {
+    winston.error('Local media storage is not writable:', {
+      service: 'storage',
+      root: getRoot(),
+      error: error.message
+    });
+    return false;
+  }
+};
+
+/**
+ * Write a validated file to disk
+ * @param {Buffer} buffer - File contents
+ * @param {Object} file - { mimetype, originalName, userId, mediaType }
+ * @returns {Promise<Object>} Upload result
+ */
+const upload = async (buffer, { mimetype, originalName, userId, mediaType }) => {
+  const format = getFormatFromMime(mimetype);
+  const storageKey = generateStorageKey(userId, mediaType, originalName, format);
+  const filePath = resolveKeyPath(storageKey);
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, buffer, { flag: 'wx' });
+
+  const dimensions = mediaType === 'image' ? readImageDimensions(buffer) : null;
+  const url = getPublicUrl(storageKey);
+
+  winston.info('File stored on local disk:', {
+    service: 'storage',
+    storageKey,
+    size: buffer.length,
+    userId
+  });
+
+  return {
+    storageKey,
+    storageProvider: name,
+    url,
+    secureUrl: url,
+    type: mediaType,
+    format,
+    fileSize: buffer.length,
+    width: dimensions?.width,
+    height: dimensions?.height
+  };
+};
+
+/**
+ * Delete a stored file. A file that is already gone counts as deleted
+ * @param {string} storageKey - Path of the file under the storage root
+ */
+const remove = async (storageKey) => {
+  try {
+    await fs.unlink(resolveKeyPath(storageKey));
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      throw new Error(`Failed to delete file ${storageKey}: ${error.message}`);
+    }
+  }
+
+  return { storageKey, success: true };
+};
+
+/**
+ * Download URL for a stored file. Local files are served publicly, so the
+ * URL does not expire; the download flag makes the server send it as an attachment
+ * @param {string} storageKey - Path of the file under the storage root
+ * @returns {Promise<{ url: string, expiresAt: null }>}
+ */
+const getDownloadUrl = async (storageKey) => ({
+  url: `${getPublicUrl(storageKey)}?download=1`,
+  expiresAt: null
+});
+
+/**
+ * Count and size a user's stored files by media type
+ * @param {string} userId - User ID
+ * @returns {Promise<Object>} Storage usage statistics
+ */
+const getUsage = async (userId) => {
+  const sumFolder = async (folder) => {
+    const totals = { count: 0, bytes: 0 };
+    let entries = [];
+
+    try {
+      entries = await fs.readdir(resolveKeyPath(folder), { withFileTypes: true });
+    } catch (error) {
+      if (error.code === 'ENOENT') return totals;
+      throw error;
+    }
+
+    for (const entry of entries.filter(item => item.isFile())) {
+      const stat = await fs.stat(resolveKeyPath(`${folder}/${entry.name}`));
+      totals.count++;
+      totals.bytes += stat.size;
+    }
+    return totals;
+  };
+
+  const [images, videos] = await Promise.all([
+    sumFolder(generateUserFolder(userId, 'image')),
+    sumFolder(generateUserFolder(userId, 'video'))
+  ]);
+
+  return {
+    userId,
+    images,
+    videos,
+    total: {
+      count: images.count + videos.count,
+      bytes: images.bytes + videos.bytes
+    }
+  };
+};
+
+/**
+ * Express middleware serving stored files. Dashboards and players load media
+ * from other origins, so files are marked as shareable across origins
+ * @returns {Function} Static file middleware
+ */
+const serveFiles = () => express.static(getRoot(), {
+  fallthrough: false,
+  index: false,
+  maxAge: '7d',
+  setHeaders: (res, filePath) => {
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    if (res.req.query.download) {
+      res.attachment(path.basename(filePath));
+    }
+  }
+});
+
+module.exports = {
+  name,
+  getUrlPath,
+  validateConfig,
+  verifyConnection,
+  upload,
+  remove,
+  getDownloadUrl,
+  getUsage,
+  serveFiles
+};
@@ -0,0 +1,284 @@
+const crypto = require('crypto');
+const path = require('path');
+
+/**
+ * Media file rules shared by every storage provider
+ * File type and size validation, storage key layout, image dimension sniffing
+ * and the mapping from an upload result to Media model data
+ */
+
+// File size limits (in bytes)
+const FILE_SIZE_LIMITS = {
+  image: 10 * 1024 * 1024, // 10MB for images
+  video: 50 * 1024 * 1024  // 50MB for videos
+};
+
+// Allowed file formats
+const ALLOWED_FORMATS = {
+  image: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'svg'],
+  video: ['mp4', 'avi', 'mov', 'wmv', 'flv', 'webm', 'mkv']
+};
+
+// MIME type mappings
+const MIME_TYPE_MAPPINGS = {
+  'image/jpeg': 'image',
+  'image/jpg': 'image',
+  'image/png': 'image',
+  'image/gif': 'image',
+  'image/webp': 'image',
+  'image/bmp': 'image',
+  'image/svg+xml': 'image',
+  'video/mp4': 'video',
+  'video/avi': 'video',
+  'video/quicktime': 'video',
+  'video/x-msvideo': 'video',
+  'video/webm': 'video',
+  'video/x-flv': 'video',
+  'video/x-matroska': 'video'
+};
+
+// File format stored on the Media model for each MIME type
+const MIME_TYPE_FORMATS = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/avi': 'avi',
+  'video/quicktime': 'mov',
+  'video/x-msvideo': 'avi',
+  'video/webm': 'webm',
+  'video/x-flv': 'flv',
+  'video/x-matroska': 'mkv'
+};
+
+/**
+ * Generate user-specific folder path
+ * @param {string} userId - User ID
+ * @param {string} type - Media type (image/video)
+ * @returns {string} Folder path
+ */
+const generateUserFolder = (userId, type) => {
+  const baseFolder = process.env.STORAGE_BASE_FOLDER || process.env.CLOUDINARY_BASE_FOLDER || 'advertisements';
+  return `${baseFolder}/${userId}/${type}s`;
+};
+
+/**
+ * Generate a unique storage key for a new file, e.g.
+ * advertisements/<userId>/images/1694123456789_a1b2c3d4_summer-sale.jpg
+ * @param {string} userId - User ID
+ * @param {string} mediaType - Media type (image/video)
+ * @param {string} originalName - Original filename
+ * @param {string} format - File extension to use
+ * @returns {string} Storage key
+ */
+const generateStorageKey = (userId, mediaType, originalName, format) => {
+  const baseName = path.parse(originalName).name
+    .toLowerCase()
+    .replace(/[^a-z0-9-_]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'file';
+  const unique = `${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+
+  return `${generateUserFolder(userId, mediaType)}/${unique}_${baseName}.${format}`;
+};
+
+/**
+ * Validate file before upload
+ * @param {Buffer} buffer - File buffer
+ * @param {string} mimetype - File MIME type
+ * @param {string} originalName - Original filename
+ * @returns {Object} Validation result
+ */
+const validateFileForUpload = (buffer, mimetype, originalName) => {
+  // Check if MIME type is supported
+  const mediaType = MIME_TYPE_MAPPINGS[mimetype];
+  if (!mediaType) {
+    return {
+      isValid: false,
+      error: `Unsupported file type: ${mimetype}. Allowed types: ${Object.keys(MIME_TYPE_MAPPINGS).join(', ')}`
+    };
+  }
+
+  // Check file size
+  const fileSize = buffer.length;
+  const sizeLimit = FILE_SIZE_LIMITS[mediaType];
+  if (fileSize > sizeLimit) {
+    const limitMB = Math.round(sizeLimit / (1024 * 1024));
+    return {
+      isValid: false,
+      error: `File size (${Math.round(fileSize / (1024 * 1024))}MB) exceeds ${limitMB}MB limit for ${mediaType} files`
+    };
+  }
+
+  // Check filename
+  if (!originalName || originalName.trim().length === 0) {
+    return {
+      isValid: false,
+      error: 'Original filename is required'
+    };
+  }
+
+  return {
+    isValid: true,
+    mediaType,
+    fileSize
+  };
+};
+
+/**
+ * Validate file type - Enhanced version using MIME_TYPE_MAPPINGS
+ * @param {string} mimetype - File mimetype
+ * @returns {boolean} Is valid file type
+ */
+const isValidFileType = (mimetype) => {
+  return Object.keys(MIME_TYPE_MAPPINGS).includes(mimetype);
+};
+
+/**
+ * Get resource type from MIME type
+ * @param {string} mimetype - File MIME type
+ * @returns {string|null} Resource type (image/video) or null if invalid
+ */
+const getResourceTypeFromMime = (mimetype) => {
+  return MIME_TYPE_MAPPINGS[mimetype] || null;
+};
+
+/**
+ * Get the stored file format for a MIME type
+ * @param {string} mimetype - File MIME type
+ * @returns {string|null} Format such as jpg or mp4
+ */
+const getFormatFromMime = (mimetype) => {
+  return MIME_TYPE_FORMATS[mimetype] || null;
+};
+
+/**
+ * Read pixel dimensions from an image header, for storage providers that do
+ * not analyse uploads themselves. Supports PNG, GIF, BMP, JPEG and WebP
+ * @param {Buffer} buffer - Image file contents
+ * @returns {{ width: number, height: number } | null} Dimensions, or null if unknown
+ */
+const readImageDimensions = (buffer) => {
+  try {
+    // PNG: IHDR chunk follows the 8-byte signature
+    if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+      return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+
+    // GIF: logical screen size after the 6-byte header
+    if (buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'GIF') {
+      return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+
+    // BMP: BITMAPINFOHEADER, height is negative for top-down bitmaps
+    if (buffer.length >= 26 && buffer.toString('ascii', 0, 2) === 'BM') {
+      return { width: buffer.readInt32LE(18), height: Math.abs(buffer.readInt32LE(22)) };
+    }
+
+    // JPEG: walk the segments until a start-of-frame marker
+    if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+      let offset = 2;
+      while (offset + 9 < buffer.length) {
+        if (buffer[offset] !== 0xff) return null;
+        const marker = buffer[offset + 1];
+        const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+        if (isStartOfFrame) {
+          return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+      }
+      return null;
+    }
+
+    // WebP: RIFF container with a VP8, VP8L or VP8X first chunk
+    if (buffer.length >= 30 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+      const chunk = buffer.toString('ascii', 12, 16);
+      if (chunk === 'VP8 ') {
+        return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+      }
+      if (chunk === 'VP8L') {
+        const bits = buffer.readUInt32LE(21);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      if (chunk === 'VP8X') {
+        return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+      }
+    }
+  } catch {
+    // Truncated or malformed header
+  }
+
+  return null;
+};
+
+/**
+ * Create Media model data from a storage provider upload result
+ * @param {Object} uploadResult - Provider upload result
+ * @param {string} originalName - Original filename
+ * @param {string} userId - User ID
+ * @param {Object} additionalData - Additional data for Media model
+ * @returns {Object} Media model compatible data
+ */
+const createMediaModelData = (uploadResult, originalName, userId, additionalData = {}) => {
+  const mediaType = uploadResult.type || getResourceTypeFromMime(additionalData.mimetype);
+
+  const baseData = {
+    originalName,
+    filename: uploadResult.storageKey, // Will be updated by pre-save hook if needed
+    storageKey: uploadResult.storageKey,
+    storageProvider: uploadResult.storageProvider,
+    url: uploadResult.url,
+    secureUrl: uploadResult.secureUrl,
+    type: mediaType,
+    format: uploadResult.format,
+    width: uploadResult.width,
+    height: uploadResult.height,
+    fileSize: uploadResult.fileSize,
+    owner: userId
+  };
+
+  if (uploadResult.cloudinaryMetadata) {
+    baseData.cloudinaryMetadata = uploadResult.cloudinaryMetadata;
+  }
+
+  // Add type-specific duration fields
+  if (mediaType === 'image') {
+    baseData.duration = additionalData.duration || 10; // Default 10 seconds for images
+  } else if (mediaType === 'video') {
+    // Use the duration from the provider's video analysis when it has one
+    baseData.videoDuration = uploadResult.videoDuration || uploadResult.duration || 30;
+  }
+
+  // Add optional fields
+  if (additionalData.tags) {
+    baseData.tags = additionalData.tags;
+  }
+
+  if (additionalData.description) {
+    baseData.description = additionalData.description;
+  }
+
+  if (additionalData.quality) {
+    baseData.quality = additionalData.quality;
+  }
+
+  return baseData;
+};
+
+module.exports = {
+  FILE_SIZE_LIMITS,
+  ALLOWED_FORMATS,
+  MIME_TYPE_MAPPINGS,
+  generateUserFolder,
+  generateStorageKey,
+  validateFileForUpload,
+  isValidFileType,
+  getResourceTypeFromMime,
+  getFormatFromMime,
+  readImageDimensions,
+  createMediaModelData
+};
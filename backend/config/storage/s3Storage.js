@@ -0,0 +1,290 @@
+const crypto = require('crypto');
+const winston = require('winston');
+const { generateStorageKey, getFormatFromMime, readImageDimensions } = require('./mediaFiles');
+
+/**
+ * S3-compatible storage provider
+ * Works with AWS S3 and self-hosted object stores such as MinIO. Requests are
+ * signed with AWS Signature Version 4 using Node's crypto and fetch, so no SDK
+ * is needed. Objects must be publicly readable (bucket policy, S3_OBJECT_ACL
+ * or a CDN in front via S3_PUBLIC_URL) for players to load them
+ */
+
+const name = 's3';
+
+const getConfig = () => {
+  const region = process.env.S3_REGION || 'us-east-1';
+  const endpoint = (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, '');
+
+  return {
+    bucket: process.env.S3_BUCKET,
+    region,
+    endpoint,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    // MinIO and most self-hosted stores only support path-style addressing
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : !!process.env.S3_ENDPOINT,
+    objectAcl: process.env.S3_OBJECT_ACL,
+    publicUrl: process.env.S3_PUBLIC_URL ? process.env.S3_PUBLIC_URL.replace(/\/+$/, '') : null
+  };
+};
+
+// S3 expects RFC 3986 encoding, which also escapes !'()*
+const encodeRfc3986 = (value) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (storageKey) => storageKey.split('/').map(encodeRfc3986).join('/');
+
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+
+/**
+ * URL addressing an object (or the bucket itself when no key is given)
+ */
+const getObjectUrl = (config, storageKey = '') => {
+  const endpoint = new URL(config.endpoint);
+  const key = encodeKey(storageKey);
+
+  if (config.forcePathStyle) {
+    return new URL(`${endpoint.origin}/${config.bucket}${key ? `/${key}` : ''}`);
+  }
+  return new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}/${key}`);
+};
+
+/**
+ * Signature Version 4 for a request
+ * @param {Object} config - Provider configuration
+ * @param {Object} request - { method, url, headers, payloadHash, amzDate }
+ * @returns {{ signature: string, credential: string, signedHeaders: string, canonicalQuery: string }}
+ */
+const signRequest = (config, { method, url, headers, payloadHash, amzDate }) => {
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  const headerNames = Object.keys(headers).map(header => header.toLowerCase()).sort();
+  const lowerHeaders = Object.fromEntries(
+    Object.entries(headers).map(([header, value]) => [header.toLowerCase(), String(value).trim()])
+  );
+  const canonicalHeaders = headerNames.map(header => `${header}:${lowerHeaders[header]}\n`).join('');
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region)
+  );
+
+  return {
+    signature: crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex'),
+    credential: `${config.accessKeyId}/${scope}`,
+    signedHeaders,
+    canonicalQuery
+  };
+};
+
+const getAmzDate = () => new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+/**
+ * Send a signed request to the object store
+ * @param {string} method - HTTP method
+ * @param {string} storageKey - Object key, empty for the bucket
+ * @param {Object} options - { body, headers }
+ * @returns {Promise<Response>}
+ */
+const sendRequest = async (method, storageKey, { body, headers = {} } = {}) => {
+  const config = getConfig();
+  const url = getObjectUrl(config, storageKey);
+  const amzDate = getAmzDate();
+  const payloadHash = sha256(body || '');
+
+  const requestHeaders = {
+    ...headers,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate
+  };
+
+  const { signature, credential, signedHeaders } = signRequest(config, {
+    method,
+    url,
+    headers: { ...requestHeaders, host: url.host },
+    payloadHash,
+    amzDate
+  });
+
+  const response = await fetch(url, {
+    method,
+    body,
+    headers: {
+      ...requestHeaders,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+    }
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    const code = text.match(/<Code>([^<]+)<\/Code>/)?.[1] || response.statusText;
+    const error = new Error(`S3 ${method} failed (${response.status}): ${code}`);
+    error.status = response.status;
+    throw error;
+  }
+
+  return response;
+};
+
+/**
+ * Check the bucket and credentials are configured
+ */
+const validateConfig = () => {
+  const config = getConfig();
+  const missing = [
+    ['S3_BUCKET', config.bucket],
+    ['S3_ACCESS_KEY_ID', config.accessKeyId],
+    ['S3_SECRET_ACCESS_KEY', config.secretAccessKey]
+  ].filter(([, value]) => !value).map(([key]) => key);
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required S3 environment variables: ${missing.join(', ')}`);
+  }
+
+  winston.info('S3 media storage configured', {
+    service: 'storage',
+    endpoint: config.endpoint,
+    bucket: config.bucket,
+    pathStyle: config.forcePathStyle
+  });
+};
+
+/**
+ * Check the bucket is reachable with the configured credentials
+ */
+const verifyConnection = async () => {
+  try {
+    await sendRequest('HEAD', '');
+    return true;
+  } catch (error) {
+    winston.error('S3 bucket check failed:', {
+      service: 'storage',
+      bucket: getConfig().bucket,
+      error: error.message
+    });
+    return false;
+  }
+};
+
+/**
+ * Upload a validated file as an object
+ * @param {Buffer} buffer - File contents
+ * @param {Object} file - { mimetype, originalName, userId, mediaType }
+ * @returns {Promise<Object>} Upload result
+ */
+const upload = async (buffer, { mimetype, originalName, userId, mediaType }) => {
+  const config = getConfig();
+  const format = getFormatFromMime(mimetype);
+  const storageKey = generateStorageKey(userId, mediaType, originalName, format);
+
+  const headers = {
+    'content-type': mimetype,
+    'cache-control': 'public, max-age=604800'
+  };
+  if (config.objectAcl) {
+    headers['x-amz-acl'] = config.objectAcl;
+  }
+
+  await sendRequest('PUT', storageKey, { body: buffer, headers });
+
+  const url = config.publicUrl
+    ? `${config.publicUrl}/${encodeKey(storageKey)}`
+    : getObjectUrl(config, storageKey).toString();
+  const dimensions = mediaType === 'image' ? readImageDimensions(buffer) : null;
+
+  winston.info('File uploaded to S3:', {
+    service: 'storage',
+    bucket: config.bucket,
+    storageKey,
+    size: buffer.length,
+    userId
+  });
+
+  return {
+    storageKey,
+    storageProvider: name,
+    url,
+    secureUrl: url,
+    type: mediaType,
+    format,
+    fileSize: buffer.length,
+    width: dimensions?.width,
+    height: dimensions?.height
+  };
+};
+
+/**
+ * Delete an object. S3 treats deleting a missing key as success
+ * @param {string} storageKey - Object key
+ */
+const remove = async (storageKey) => {
+  await sendRequest('DELETE', storageKey);
+  return { storageKey, success: true };
+};
+
+/**
+ * Presigned, time-limited download URL that forces an attachment
+ * @param {string} storageKey - Object key
+ * @param {Object} options - { filename, expiresIn (seconds) }
+ * @returns {Promise<{ url: string, expiresAt: Date }>}
+ */
+const getDownloadUrl = async (storageKey, { filename, expiresIn }) => {
+  const config = getConfig();
+  const url = getObjectUrl(config, storageKey);
+  const amzDate = getAmzDate();
+  const scope = `${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`;
+
+  url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+  url.searchParams.set('X-Amz-Credential', `${config.accessKeyId}/${scope}`);
+  url.searchParams.set('X-Amz-Date', amzDate);
+  url.searchParams.set('X-Amz-Expires', String(expiresIn));
+  url.searchParams.set('X-Amz-SignedHeaders', 'host');
+  url.searchParams.set('response-content-disposition', `attachment; filename="${(filename || 'download').replace(/"/g, '')}"`);
+
+  const { signature, canonicalQuery } = signRequest(config, {
+    method: 'GET',
+    url,
+    headers: { host: url.host },
+    payloadHash: 'UNSIGNED-PAYLOAD',
+    amzDate
+  });
+
+  // Reuse the signed encoding; URLSearchParams would encode spaces as '+'
+  return {
+    url: `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`,
+    expiresAt: new Date(Date.now() + expiresIn * 1000)
+  };
+};
+
+module.exports = {
+  name,
+  validateConfig,
+  verifyConnection,
+  upload,
+  remove,
+  getDownloadUrl
+};
@@ -3,12 +3,32 @@ const { generateTokenPair, verifyRefreshToken, generateSecureToken, hashToken }
 const { validationResult } = require('express-validator');
 const logger = require('../config/logger');
 const crypto = require('crypto');
+const { sendVerificationEmail, sendPasswordResetEmail } = require('../utils/emailService');
 
 /**
  * Authentication Controllers
  * Handles user registration, login, logout, password reset, and account verification
  */
 
+/**
+ * Send an account email in the background; a delivery failure is logged rather
+ * than failing the request, since the user can ask for the email again. Not
+ * waiting for the mail server also keeps responses for known and unknown
+ * addresses equally fast.
+ */
+const deliverAccountEmail = (send, user, token) => {
+  Promise.resolve()
+    .then(() => send(user, token))
+    .catch((error) => {
+      logger.error('Account email delivery failed:', {
+        service: 'auth',
+        email: send.name,
+        userId: user._id,
+        error: error.message
+      });
+    });
+};
+
 /**
  * Register a new user
  * @route POST /api/auth/register
@@ -65,8 +85,7 @@ const register = async (req, res) => {
     // Log successful registration
     logger.auth('User registered', user._id, user.email, req.ip, req.get('User-Agent'));
 
-    // In production, you would send verification email here
-    // await emailService.sendVerificationEmail(user.email, verificationToken);
+    deliverAccountEmail(sendVerificationEmail, user, verificationToken);
 
     res.status(201).json({
       success: true,
@@ -534,6 +553,51 @@ const verifyEmail = async (req, res) => {
   }
 };
 
+/**
+ * Send a new email verification link
+ * @route POST /api/auth/resend-verification
+ * @access Private
+ */
+const resendVerification = async (req, res) => {
+  try {
+    // Check if user is already verified
+    if (req.user.isVerified) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is already verified',
+        code: 'ALREADY_VERIFIED'
+      });
+    }
+
+    // Generate new verification token
+    const verificationToken = req.user.generateEmailVerificationToken();
+    await req.user.save();
+
+    deliverAccountEmail(sendVerificationEmail, req.user, verificationToken);
+
+    logger.auth('Verification email resent', req.user._id, req.user.email, req.ip, req.get('User-Agent'));
+
+    res.status(200).json({
+      success: true,
+      message: 'Verification email sent successfully',
+      ...(process.env.NODE_ENV === 'development' && { verificationToken })
+    });
+
+  } catch (error) {
+    logger.error('Resend verification error:', {
+      service: 'auth',
+      error: error.message,
+      userId: req.user._id
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to resend verification email',
+      code: 'RESEND_VERIFICATION_ERROR'
+    });
+  }
+};
+
 /**
  * Request password reset
  * @route POST /api/auth/forgot-password
@@ -574,8 +638,7 @@ const forgotPassword = async (req, res) => {
     const resetToken = user.generatePasswordResetToken();
     await user.save();
 
-    // In production, send email here
-    // await emailService.sendPasswordResetEmail(user.email, resetToken);
+    deliverAccountEmail(sendPasswordResetEmail, user, resetToken);
 
     // Log password reset request
     logger.auth('Password reset requested', user._id, user.email, req.ip, req.get('User-Agent'));
@@ -672,6 +735,7 @@ module.exports = {
   getProfile,
   updateProfile,
   verifyEmail,
+  resendVerification,
   forgotPassword,
   resetPassword
 };
\ No newline at end of file
@@ -0,0 +1,446 @@
+const Joi = require('joi');
+const cron = require('node-cron');
+const winston = require('winston');
+const mongoose = require('mongoose');
+const DataSource = require('../models/dataSourceModel');
+const { getDataSourceTypes, buildRequestUrl, assertPublicFeedHost, getSourceSnapshot } = require('../utils/dataSourceRegistry');
+const { scheduleDataSource, unscheduleDataSource, pollSourceNow } = require('../jobs/dataSourcePoller');
+
+/**
+ * Data Source Controller
+ * Manages the external JSON feeds (weather, stock levels, queue lengths)
+ * whose values playlist item conditions can compare
+ */
+
+// Placeholders are filled with a sample location before the URL is checked
+const SAMPLE_LOCATION = { name: 'sample', coordinates: { latitude: 0, longitude: 0 } };
+
+const feedUrl = Joi.string().max(2000).trim().custom((value, helpers) => {
+  try {
+    const { protocol } = new URL(buildRequestUrl(value, SAMPLE_LOCATION));
+    if (protocol === 'http:' || protocol === 'https:') return value;
+  } catch {
+    // Falls through to the error below
+  }
+  return helpers.message('"url" must be an http or https URL');
+});
+
+// Feeds are polled at most this often
+const MIN_POLL_INTERVAL_MINUTES = 5;
+
+/**
+ * Shortest gap in minutes between the minutes a cron minute field matches,
+ * e.g. 15 for every quarter hour. The gap into the next hour counts too
+ */
+const getShortestPollInterval = (minuteField) => {
+  const minutes = new Set();
+  for (const part of minuteField.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    const [start, end] = range === '*' ? [0, 59] : range.split('-').map(Number);
+    const last = end ?? (stepText === undefined ? start : 59);
+    if (!Number.isInteger(step) || step < 1 || !Number.isInteger(start) || !Number.isInteger(last)) continue;
+
+    for (let minute = start; minute <= last; minute += step) minutes.add(minute);
+  }
+
+  const sorted = [...minutes].sort((a, b) => a - b);
+  if (sorted.length < 2) return 60;
+
+  return Math.min(
+    60 - sorted[sorted.length - 1] + sorted[0],
+    ...sorted.slice(1).map((minute, index) => minute - sorted[index])
+  );
+};
+
+// Five fields (minute hour day month weekday); node-cron's optional seconds field is refused
+const cronSchedule = Joi.string().trim().custom((value, helpers) => {
+  if (!cron.validate(value)) {
+    return helpers.message('"schedule" must be a valid cron expression');
+  }
+
+  const fields = value.split(/\s+/);
+  if (fields.length !== 5) {
+    return helpers.message('"schedule" must have five fields: minute, hour, day of month, month and day of week');
+  }
+  if (getShortestPollInterval(fields[0]) < MIN_POLL_INTERVAL_MINUTES) {
+    return helpers.message(`"schedule" must not poll more often than every ${MIN_POLL_INTERVAL_MINUTES} minutes`);
+  }
+  return value;
+});
+
+const fieldSchema = Joi.object({
+  key: Joi.string().max(30).pattern(/^[A-Za-z0-9_-]+$/).required(),
+  path: Joi.string().max(200).trim().required()
+});
+
+const headersSchema = Joi.object().pattern(Joi.string().max(100), Joi.string().max(1000)).max(20);
+
+// Types are checked when the request arrives, so fetchers registered at startup are accepted
+const sourceType = () => Joi.string().valid(...getDataSourceTypes());
+
+const createDataSourceSchema = () => Joi.object({
+  name: Joi.string().min(1).max(100).required().trim(),
+  key: Joi.string().max(30).pattern(/^[a-z][a-z0-9_-]*$/).lowercase().required(),
+  type: sourceType().default('http-json'),
+  url: feedUrl.required(),
+  headers: headersSchema.optional(),
+  schedule: cronSchedule.default('*/15 * * * *'),
+  fields: Joi.array().items(fieldSchema).min(1).max(20).unique('key').required()
+});
+
+const updateDataSourceSchema = () => Joi.object({
+  name: Joi.string().min(1).max(100).optional().trim(),
+  key: Joi.string().max(30).pattern(/^[a-z][a-z0-9_-]*$/).lowercase().optional(),
+  type: sourceType().optional(),
+  url: feedUrl.optional(),
+  headers: headersSchema.optional(),
+  schedule: cronSchedule.optional(),
+  fields: Joi.array().items(fieldSchema).min(1).max(20).unique('key').optional()
+}).min(1);
+
+/**
+ * Find an active data source in the requesting user's organization
+ */
+const findOwnedSource = (req, id) => DataSource.findOne({
+  _id: id,
+  organization: req.workspace.organization,
+  isActive: true
+});
+
+/**
+ * Why an http-json feed URL is refused, or null when its host is allowed.
+ * Hosts that do not resolve yet are accepted and fail when polled
+ */
+const checkFeedHost = async (type, url) => {
+  if (type !== 'http-json') return null;
+
+  try {
+    await assertPublicFeedHost(buildRequestUrl(url, SAMPLE_LOCATION));
+    return null;
+  } catch (error) {
+    return error.code === 'FEED_HOST_NOT_ALLOWED' ? error.message : null;
+  }
+};
+
+const feedHostResponse = (res, message) => res.status(400).json({
+  success: false,
+  message: 'Validation error',
+  errors: [message]
+});
+
+/**
+ * A data source with the values cached for each location
+ */
+const withValues = (source) => ({
+  ...source.toJSON(),
+  values: getSourceSnapshot(source._id)
+});
+
+const duplicateKeyResponse = (res) => res.status(409).json({
+  success: false,
+  message: 'A data source with this key already exists'
+});
+
+/**
+ * Get the user's data sources with their latest values
+ * @route GET /api/data-sources
+ * @access Private
+ */
+const getDataSources = async (req, res) => {
+  try {
+    const sources = await DataSource.findActive(req.workspace.organization);
+
+    res.json({
+      success: true,
+      message: 'Data sources retrieved successfully',
+      data: {
+        sources: sources.map(withValues),
+        types: getDataSourceTypes()
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve data sources:', {
+      service: 'data-source',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve data sources',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Create a data source and start polling it
+ * @route POST /api/data-sources
+ * @access Private
+ */
+const createDataSource = async (req, res) => {
+  try {
+    const { error, value } = createDataSourceSchema().validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const hostError = await checkFeedHost(value.type, value.url);
+    if (hostError) {
+      return feedHostResponse(res, hostError);
+    }
+
+    if (await DataSource.exists({ organization: req.workspace.organization, key: value.key, isActive: true })) {
+      return duplicateKeyResponse(res);
+    }
+
+    const source = await DataSource.create({
+      ...value,
+      owner: req.user.id,
+      organization: req.workspace.organization
+    });
+
+    scheduleDataSource(source);
+
+    winston.info('Data source created:', {
+      service: 'data-source',
+      sourceId: source._id,
+      key: source.key,
+      userId: req.user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Data source created successfully',
+      data: {
+        source: withValues(source)
+      }
+    });
+
+  } catch (error) {
+    if (error.code === 11000) {
+      return duplicateKeyResponse(res);
+    }
+
+    winston.error('Failed to create data source:', {
+      service: 'data-source',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create data source',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Update a data source; it is rescheduled and polled again
+ * @route PUT /api/data-sources/:id
+ * @access Private
+ */
+const updateDataSource = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid data source ID'
+      });
+    }
+
+    const { error, value } = updateDataSourceSchema().validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const source = await findOwnedSource(req, id);
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        message: 'Data source not found or access denied'
+      });
+    }
+
+    if (value.url || value.type) {
+      const hostError = await checkFeedHost(value.type || source.type, value.url || source.url);
+      if (hostError) {
+        return feedHostResponse(res, hostError);
+      }
+    }
+
+    if (value.key && value.key !== source.key &&
+      await DataSource.exists({ organization: req.workspace.organization, key: value.key, isActive: true })) {
+      return duplicateKeyResponse(res);
+    }
+
+    source.set(value);
+    await source.save();
+
+    // Rescheduling drops values fetched with the old URL or fields
+    scheduleDataSource(source);
+
+    winston.info('Data source updated:', {
+      service: 'data-source',
+      sourceId: source._id,
+      userId: req.user.id,
+      updates: Object.keys(value)
+    });
+
+    res.json({
+      success: true,
+      message: 'Data source updated successfully',
+      data: {
+        source: withValues(source)
+      }
+    });
+
+  } catch (error) {
+    if (error.code === 11000) {
+      return duplicateKeyResponse(res);
+    }
+
+    winston.error('Failed to update data source:', {
+      service: 'data-source',
+      sourceId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update data source',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Delete a data source and stop polling it
+ * @route DELETE /api/data-sources/:id
+ * @access Private
+ */
+const deleteDataSource = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid data source ID'
+      });
+    }
+
+    const source = await findOwnedSource(req, id);
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        message: 'Data source not found or access denied'
+      });
+    }
+
+    source.isActive = false;
+    await source.save();
+    unscheduleDataSource(source._id);
+
+    winston.info('Data source deleted:', {
+      service: 'data-source',
+      sourceId: id,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Data source deleted successfully',
+      data: { id, name: source.name }
+    });
+
+  } catch (error) {
+    winston.error('Failed to delete data source:', {
+      service: 'data-source',
+      sourceId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete data source',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Poll a data source now, e.g. to check a new feed's field paths
+ * @route POST /api/data-sources/:id/poll
+ * @access Private
+ */
+const pollDataSourceNow = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid data source ID'
+      });
+    }
+
+    const source = await findOwnedSource(req, id);
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        message: 'Data source not found or access denied'
+      });
+    }
+
+    const result = await pollSourceNow(source);
+    const refreshed = await findOwnedSource(req, id);
+
+    res.json({
+      success: true,
+      message: result.errors.length > 0 ? 'Data source polled with errors' : 'Data source polled successfully',
+      data: {
+        source: withValues(refreshed || source),
+        fetched: result.fetched,
+        errors: result.errors
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to poll data source:', {
+      service: 'data-source',
+      sourceId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to poll data source',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+module.exports = {
+  getDataSources,
+  createDataSource,
+  updateDataSource,
+  deleteDataSource,
+  pollDataSourceNow
+};
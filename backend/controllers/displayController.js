@@ -0,0 +1,376 @@
+const crypto = require('crypto');
+const Joi = require('joi');
+const Playlist = require('../models/playlistModel');
+const Organization = require('../models/organizationModel');
+const EmergencyBroadcast = require('../models/emergencyBroadcastModel');
+const DataSource = require('../models/dataSourceModel');
+const { getScreenDataValues } = require('../utils/dataSourceRegistry');
+const { organizationRoom } = require('../utils/organizationUtils');
+const winston = require('winston');
+const mongoose = require('mongoose');
+
+/**
+ * Display Controller
+ * Serves the configuration and content a paired display device needs to play.
+ * Requests are authenticated with the screen access key (see verifyScreenKey)
+ */
+
+// Fallback for items whose media has no duration of its own
+const DEFAULT_ITEM_DURATION = 10;
+
+const MEDIA_POPULATE_FIELDS = 'originalName url secureUrl type duration videoDuration width height format fileSize checksum';
+
+// Validation schema for cache status reports from the player
+const cacheStatusSchema = Joi.object({
+  manifestHash: Joi.string().max(128).allow(null).optional(),
+  playlistId: Joi.string().allow(null).optional(),
+  status: Joi.string().valid('synced', 'syncing', 'partial', 'error').required(),
+  totalAssets: Joi.number().integer().min(0).required(),
+  cachedAssets: Joi.number().integer().min(0).required(),
+  cachedBytes: Joi.number().integer().min(0).default(0),
+  error: Joi.string().max(500).allow('', null).optional()
+});
+
+// Deleted media leaves the item unpopulated, so published snapshots that still list it skip it
+const MEDIA_POPULATE = {
+  path: 'items.mediaId',
+  model: 'Media',
+  match: { isActive: true },
+  select: MEDIA_POPULATE_FIELDS
+};
+
+/**
+ * Find the playlist a screen should be showing right now, resolved from
+ * playlist schedules and queue priorities in the screen's timezone. Where the
+ * organization requires approval, edits still awaiting it are left out and
+ * the screen keeps the last published version
+ */
+const resolveScreenPlaylist = async (screen) => {
+  const resolution = await screen.getScheduledPlaylist();
+  if (!resolution) return null;
+
+  const playlist = await Playlist.findOne({ _id: resolution.playlist._id, isActive: true })
+    .populate(MEDIA_POPULATE);
+  if (!playlist) return null;
+
+  const organization = await Organization.findById(playlist.organization).select('requireApproval');
+  if (!organization?.requireApproval || playlist.approval?.status === 'published') return playlist;
+
+  // Nothing approved to fall back on leaves the screen without a playlist
+  const published = await playlist.getPublishedContent();
+  return published ? published.populate(MEDIA_POPULATE) : null;
+};
+
+/**
+ * Shape a playlist for playback, dropping items whose media no longer exists
+ * and resolving each item's effective duration from the playlist settings
+ */
+const formatPlaylistForDisplay = (playlist) => ({
+  id: playlist._id,
+  name: playlist.name,
+  version: playlist.version,
+  lastModified: playlist.lastModified,
+  settings: playlist.settings,
+  items: playlist.items
+    .filter(item => item.mediaId && item.mediaId.type)
+    .sort((a, b) => a.order - b.order)
+    .map(item => {
+      const media = item.mediaId;
+
+      return {
+        id: item._id,
+        order: item.order,
+        duration: playlist.getItemDuration(item) || DEFAULT_ITEM_DURATION,
+        transitions: item.transitions,
+        conditions: item.conditions,
+        media: {
+          id: media._id,
+          name: media.originalName,
+          type: media.type,
+          url: media.secureUrl || media.url,
+          format: media.format,
+          width: media.width,
+          height: media.height
+        }
+      };
+    })
+});
+
+/**
+ * List every distinct media asset a playlist needs, with the size and hash
+ * the player uses to decide what to download and to verify what it cached.
+ * The manifest hash changes whenever any asset or the playlist version does
+ */
+const buildPlaylistManifest = (playlist) => {
+  const assets = new Map();
+
+  playlist.items
+    .filter(item => item.mediaId && item.mediaId.type)
+    .forEach(item => {
+      const media = item.mediaId;
+      const key = media._id.toString();
+      if (assets.has(key)) return;
+
+      assets.set(key, {
+        mediaId: media._id,
+        type: media.type,
+        url: media.secureUrl || media.url,
+        size: media.fileSize,
+        hash: media.checksum || null
+      });
+    });
+
+  const assetList = [...assets.values()];
+  const manifestHash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify({
+      playlistId: playlist._id,
+      version: playlist.version,
+      assets: assetList.map(asset => [asset.url, asset.size, asset.hash]).sort()
+    }))
+    .digest('hex');
+
+  return {
+    playlistId: playlist._id,
+    version: playlist.version,
+    manifestHash,
+    generatedAt: new Date(),
+    totalBytes: assetList.reduce((total, asset) => total + (asset.size || 0), 0),
+    assets: assetList
+  };
+};
+
+/**
+ * Get the authenticated screen's display configuration
+ * @route GET /api/display/session
+ * @access Screen (access key)
+ */
+const getDisplaySession = async (req, res) => {
+  try {
+    const screen = req.screen;
+
+    // Included so a player starting mid-emergency shows the alert before its socket connects
+    const emergency = await EmergencyBroadcast.findCurrentForScreen(screen);
+
+    res.json({
+      success: true,
+      message: 'Display session retrieved successfully',
+      data: {
+        id: screen._id,
+        screenId: screen.screenId,
+        name: screen.name,
+        location: screen.location,
+        display: screen.display,
+        settings: screen.settings,
+        // Matched by custom item conditions on the player
+        tags: screen.tags,
+        attributes: screen.attributes || {},
+        heartbeatInterval: screen.heartbeatInterval,
+        currentPlaylist: screen.currentPlaylist || null,
+        emergency: emergency ? emergency.toDisplayEvent() : null
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve display session:', {
+      service: 'display',
+      screenId: req.screen?._id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve display session',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get the playlist the authenticated screen should play
+ * @route GET /api/display/playlist
+ * @access Screen (access key)
+ */
+const getDisplayPlaylist = async (req, res) => {
+  try {
+    const screen = req.screen;
+    const playlist = await resolveScreenPlaylist(screen);
+
+    winston.info('Display playlist resolved:', {
+      service: 'display',
+      screenId: screen._id,
+      playlistId: playlist?._id || null
+    });
+
+    res.json({
+      success: true,
+      message: playlist ? 'Display playlist retrieved successfully' : 'No playlist assigned to this screen',
+      data: {
+        playlist: playlist ? formatPlaylistForDisplay(playlist) : null
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve display playlist:', {
+      service: 'display',
+      screenId: req.screen?._id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve display playlist',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get the offline cache manifest for the playlist the authenticated screen should play
+ * @route GET /api/display/manifest
+ * @access Screen (access key)
+ */
+const getDisplayManifest = async (req, res) => {
+  try {
+    const screen = req.screen;
+    const playlist = await resolveScreenPlaylist(screen);
+
+    res.json({
+      success: true,
+      message: playlist ? 'Display manifest retrieved successfully' : 'No playlist assigned to this screen',
+      data: {
+        manifest: playlist ? buildPlaylistManifest(playlist) : null
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to build display manifest:', {
+      service: 'display',
+      screenId: req.screen?._id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve display manifest',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get the latest data feed values for the authenticated screen's location,
+ * keyed "<source key>.<field>" for data and weather item conditions
+ * @route GET /api/display/data
+ * @access Screen (access key)
+ */
+const getDisplayData = async (req, res) => {
+  try {
+    const screen = req.screen;
+    const sources = await DataSource.findActive(screen.organization);
+    const { values, updatedAt } = getScreenDataValues(sources, screen);
+
+    res.json({
+      success: true,
+      message: 'Display data retrieved successfully',
+      data: {
+        values,
+        updatedAt
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve display data:', {
+      service: 'display',
+      screenId: req.screen?._id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve display data',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Record the player's offline cache state and forward it to the dashboard
+ * @route POST /api/display/cache-status
+ * @access Screen (access key)
+ */
+const reportCacheStatus = async (req, res) => {
+  try {
+    const { error, value } = cacheStatusSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const screen = req.screen;
+    const previousStatus = screen.cache?.status;
+
+    screen.cache = {
+      manifestHash: value.manifestHash || undefined,
+      playlist: mongoose.Types.ObjectId.isValid(value.playlistId) ? value.playlistId : undefined,
+      status: value.status,
+      totalAssets: value.totalAssets,
+      cachedAssets: Math.min(value.cachedAssets, value.totalAssets),
+      cachedBytes: value.cachedBytes,
+      lastSyncAt: value.status === 'synced' ? new Date() : screen.cache?.lastSyncAt,
+      lastError: value.error || undefined
+    };
+    await screen.save();
+
+    const io = req.app.get('io');
+    if (io) {
+      io.to(organizationRoom(screen.organization)).emit('screen:cache:updated', {
+        id: screen._id,
+        screenId: screen.screenId,
+        cache: screen.cache,
+        timestamp: new Date()
+      });
+    }
+
+    if (previousStatus !== value.status) {
+      winston.info('Screen cache status changed:', {
+        service: 'display',
+        screenId: screen._id,
+        from: previousStatus || null,
+        to: value.status,
+        cachedAssets: value.cachedAssets,
+        totalAssets: value.totalAssets
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Cache status recorded',
+      data: { cache: screen.cache }
+    });
+
+  } catch (error) {
+    winston.error('Failed to record cache status:', {
+      service: 'display',
+      screenId: req.screen?._id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to record cache status',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+module.exports = {
+  getDisplaySession,
+  getDisplayPlaylist,
+  getDisplayManifest,
+  getDisplayData,
+  reportCacheStatus
+};
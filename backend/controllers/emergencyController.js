@@ -0,0 +1,384 @@
+const Joi = require('joi');
+const EmergencyBroadcast = require('../models/emergencyBroadcastModel');
+const Screen = require('../models/screenModel');
+const ScreenGroup = require('../models/screenGroupModel');
+const Media = require('../models/mediaModel');
+const winston = require('winston');
+const mongoose = require('mongoose');
+const { refreshEmergencyTargets } = require('../sockets/screenNamespace');
+const { organizationRoom } = require('../utils/organizationUtils');
+
+/**
+ * Emergency Controller
+ * Issues, lists and clears emergency broadcasts. Every emergency is stored
+ * with who issued and cleared it, so the dashboard can show active emergencies
+ * across sessions and screens that reconnect mid-emergency pick the alert back up
+ */
+
+// Validation schemas
+const hexColor = Joi.string().pattern(/^#[0-9a-fA-F]{6}$/);
+
+const createEmergencySchema = Joi.object({
+  action: Joi.string().valid('stop', 'message').default('message'),
+  message: Joi.string().max(500).trim().when('action', {
+    is: 'message',
+    then: Joi.required(),
+    otherwise: Joi.optional().allow('')
+  }),
+  severity: Joi.string().valid('info', 'warning', 'critical').default('critical'),
+  template: Joi.object({
+    title: Joi.string().max(100).allow('').optional().trim(),
+    backgroundColor: hexColor.optional(),
+    textColor: hexColor.optional(),
+    mediaId: Joi.string().optional()
+  }).default({}),
+  targetType: Joi.string().valid('all', 'screens', 'groups').default('all'),
+  screenIds: Joi.array().items(Joi.string()).when('targetType', {
+    is: 'screens',
+    then: Joi.array().min(1).required(),
+    otherwise: Joi.forbidden()
+  }),
+  groupIds: Joi.array().items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/)).when('targetType', {
+    is: 'groups',
+    then: Joi.array().min(1).required(),
+    otherwise: Joi.forbidden()
+  }),
+  startsAt: Joi.date().iso().optional(),
+  expiresAt: Joi.date().iso().greater(Joi.ref('startsAt', { adjust: value => value || new Date() })).optional()
+});
+
+const emergencyQuerySchema = Joi.object({
+  status: Joi.string().valid('active', 'cleared', 'expired').optional(),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const clearEmergencySchema = Joi.object({
+  reason: Joi.string().max(500).allow('').optional().trim()
+});
+
+const USER_POPULATE_FIELDS = 'name email';
+const GROUP_POPULATE_FIELDS = 'name color';
+
+/**
+ * Tell the organization's dashboards that an emergency was issued, cleared or expired
+ */
+const notifyDashboards = (io, emergency, action) => {
+  if (!io) return;
+
+  io.to(organizationRoom(emergency.organization)).emit('emergency:updated', {
+    action,
+    emergency,
+    timestamp: new Date().toISOString()
+  });
+};
+
+/**
+ * Issue an emergency broadcast
+ * @route POST /api/emergencies
+ * @access Private
+ */
+const createEmergency = async (req, res) => {
+  try {
+    const { error, value } = createEmergencySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { template, screenIds, groupIds, ...emergencyData } = value;
+
+    // Targeted screens and alert media must belong to the issuing user's organization
+    if (screenIds) {
+      const invalidIds = screenIds.filter(id => !mongoose.Types.ObjectId.isValid(id));
+      if (invalidIds.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid screen IDs',
+          errors: invalidIds
+        });
+      }
+
+      const ownedCount = await Screen.countDocuments({ _id: { $in: screenIds }, organization: req.workspace.organization });
+      if (ownedCount !== new Set(screenIds).size) {
+        return res.status(404).json({
+          success: false,
+          message: 'One or more screens not found or access denied'
+        });
+      }
+    }
+
+    if (groupIds) {
+      const ownedCount = await ScreenGroup.countDocuments({ _id: { $in: groupIds }, organization: req.workspace.organization, isActive: true });
+      if (ownedCount !== new Set(groupIds).size) {
+        return res.status(404).json({
+          success: false,
+          message: 'One or more screen groups not found or access denied'
+        });
+      }
+    }
+
+    if (template.mediaId) {
+      const media = mongoose.Types.ObjectId.isValid(template.mediaId) &&
+        await Media.findOne({ _id: template.mediaId, organization: req.workspace.organization });
+
+      if (!media) {
+        return res.status(404).json({
+          success: false,
+          message: 'Media not found or access denied'
+        });
+      }
+    }
+
+    const emergency = new EmergencyBroadcast({
+      ...emergencyData,
+      owner: req.user.id,
+      organization: req.workspace.organization,
+      template: {
+        title: template.title,
+        backgroundColor: template.backgroundColor,
+        textColor: template.textColor,
+        media: template.mediaId
+      },
+      screens: screenIds || [],
+      groups: groupIds || [],
+      issuedBy: req.user.id,
+      auditLog: [{ action: 'issued', user: req.user.id }]
+    });
+
+    // Emergencies starting now go out immediately; scheduled ones are announced by the scheduler
+    let screensNotified = 0;
+    if (emergency.isLive) {
+      emergency.announcedAt = new Date();
+    }
+    await emergency.save();
+
+    if (emergency.announcedAt) {
+      screensNotified = await refreshEmergencyTargets(req.app.get('screenIo'), emergency);
+    }
+
+    await emergency.populate([
+      { path: 'issuedBy', select: USER_POPULATE_FIELDS },
+      { path: 'groups', select: GROUP_POPULATE_FIELDS }
+    ]);
+    notifyDashboards(req.app.get('io'), emergency, 'issued');
+
+    winston.warn('Emergency broadcast issued:', {
+      service: 'emergency',
+      emergencyId: emergency._id,
+      userId: req.user.id,
+      action: emergency.action,
+      severity: emergency.severity,
+      targetType: emergency.targetType,
+      screensNotified
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Emergency broadcast issued successfully',
+      data: {
+        emergency,
+        screensNotified
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to issue emergency broadcast:', {
+      service: 'emergency',
+      userId: req.user?.id,
+      error: error.message,
+      stack: error.stack
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to issue emergency broadcast',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get emergency broadcast history
+ * @route GET /api/emergencies
+ * @access Private
+ */
+const getEmergencies = async (req, res) => {
+  try {
+    const { error, value } = emergencyQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid query parameters',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const query = { organization: req.workspace.organization };
+    if (value.status) {
+      query.status = value.status;
+    }
+
+    const emergencies = await EmergencyBroadcast.find(query)
+      .sort({ createdAt: -1 })
+      .limit(value.limit)
+      .populate('issuedBy', USER_POPULATE_FIELDS)
+      .populate('clearedBy', USER_POPULATE_FIELDS)
+      .populate('groups', GROUP_POPULATE_FIELDS);
+
+    res.json({
+      success: true,
+      message: 'Emergency broadcasts retrieved successfully',
+      data: {
+        emergencies
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve emergency broadcasts:', {
+      service: 'emergency',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve emergency broadcasts',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get emergencies that are active or scheduled to start
+ * @route GET /api/emergencies/active
+ * @access Private
+ */
+const getActiveEmergencies = async (req, res) => {
+  try {
+    const now = new Date();
+
+    const emergencies = await EmergencyBroadcast.find({
+      organization: req.workspace.organization,
+      status: 'active',
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }]
+    })
+      .sort({ startsAt: -1 })
+      .populate('issuedBy', USER_POPULATE_FIELDS)
+      .populate('groups', GROUP_POPULATE_FIELDS);
+
+    res.json({
+      success: true,
+      message: 'Active emergency broadcasts retrieved successfully',
+      data: {
+        emergencies
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve active emergency broadcasts:', {
+      service: 'emergency',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve active emergency broadcasts',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Clear an active emergency broadcast
+ * @route POST /api/emergencies/:id/clear
+ * @access Private
+ */
+const clearEmergency = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid emergency ID'
+      });
+    }
+
+    const { error, value } = clearEmergencySchema.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const emergency = await EmergencyBroadcast.findOne({ _id: id, organization: req.workspace.organization });
+    if (!emergency) {
+      return res.status(404).json({
+        success: false,
+        message: 'Emergency broadcast not found or access denied'
+      });
+    }
+
+    if (emergency.status !== 'active') {
+      return res.status(400).json({
+        success: false,
+        message: `Emergency broadcast is already ${emergency.status}`
+      });
+    }
+
+    await emergency.clear(req.user.id, value.reason || undefined);
+
+    // Screens fall back to the next applicable emergency, or resume playback
+    const screensNotified = await refreshEmergencyTargets(req.app.get('screenIo'), emergency);
+
+    await emergency.populate([
+      { path: 'issuedBy', select: USER_POPULATE_FIELDS },
+      { path: 'clearedBy', select: USER_POPULATE_FIELDS },
+      { path: 'groups', select: GROUP_POPULATE_FIELDS }
+    ]);
+    notifyDashboards(req.app.get('io'), emergency, 'cleared');
+
+    winston.warn('Emergency broadcast cleared:', {
+      service: 'emergency',
+      emergencyId: emergency._id,
+      userId: req.user.id,
+      screensNotified
+    });
+
+    res.json({
+      success: true,
+      message: 'Emergency broadcast cleared successfully',
+      data: {
+        emergency,
+        screensNotified
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to clear emergency broadcast:', {
+      service: 'emergency',
+      userId: req.user?.id,
+      emergencyId: req.params.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to clear emergency broadcast',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+module.exports = {
+  createEmergency,
+  getEmergencies,
+  getActiveEmergencies,
+  clearEmergency
+};
@@ -1,16 +1,17 @@
+const crypto = require('crypto');
 const multer = require('multer');
 const Joi = require('joi');
-const { 
-  uploadFileForMediaModel, 
-  deleteFile, 
-  getFileDetails, 
-  generateVideoThumbnail,
-  isValidFileType,
-  getOptimizedUrl,
-  getUserStorageStats,
-  FILE_SIZE_LIMITS
-} = require('../config/cloudinary');
+const {
+  getStorageProvider,
+  uploadFileForMediaModel,
+  deleteStoredFile,
+  getMediaDownloadUrl
+} = require('../config/storage');
+const { isValidFileType, FILE_SIZE_LIMITS } = require('../config/storage/mediaFiles');
 const Media = require('../models/mediaModel');
+const Playlist = require('../models/playlistModel');
+const PlaylistRevision = require('../models/playlistRevisionModel');
+const Screen = require('../models/screenModel');
 const winston = require('winston');
 const mongoose = require('mongoose');
 
@@ -19,7 +20,7 @@ const mongoose = require('mongoose');
  * Integrates with Media model for complete file lifecycle management
  */
 
-// Configure multer for memory storage (we'll stream to Cloudinary)
+// Configure multer for memory storage (files are handed to the storage provider)
 const storage = multer.memoryStorage();
 
 // File filter function
@@ -55,6 +56,16 @@ const updateMediaSchema = Joi.object({
   description: Joi.string().max(500).optional()
 });
 
+// What happens to playlists that use media being deleted
+const deleteMediaSchema = Joi.object({
+  strategy: Joi.string().valid('block', 'remove', 'replace').default('block'),
+  replacementId: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).when('strategy', {
+    is: 'replace',
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  })
+});
+
 const mediaQuerySchema = Joi.object({
   page: Joi.number().min(1).default(1),
   limit: Joi.number().min(1).max(100).default(20),
@@ -65,6 +76,85 @@ const mediaQuerySchema = Joi.object({
   tags: Joi.string().optional()
 });
 
+/**
+ * Playlists of an organization containing a media item, and the screens those
+ * playlists are assigned to, queued on or currently playing. Public media can
+ * also be in other organizations' playlists; those are only counted
+ * @param {ObjectId|string} mediaId - Media document ID
+ * @param {ObjectId|string} organizationId - Organization whose usage is listed
+ * @returns {Promise<{ playlists: Array, screens: Array, otherPlaylistCount: number }>} Playlist and screen documents
+ */
+const findMediaUsage = async (mediaId, organizationId) => {
+  // Whole documents: deletion saves them, and saving needs the version,
+  // settings and approval state the save hook maintains
+  const [playlists, otherPlaylistCount] = await Promise.all([
+    Playlist.find({ 'items.mediaId': mediaId, organization: organizationId }),
+    Playlist.countDocuments({ 'items.mediaId': mediaId, organization: { $ne: organizationId } })
+  ]);
+
+  if (playlists.length === 0) {
+    return { playlists, screens: [], otherPlaylistCount };
+  }
+
+  const playlistIds = playlists.map(playlist => playlist._id);
+  const screens = await Screen.find({
+    organization: organizationId,
+    isActive: true,
+    $or: [
+      { _id: { $in: playlists.flatMap(playlist => playlist.assignedScreens) } },
+      { currentPlaylist: { $in: playlistIds } },
+      { 'playlistQueue.playlist': { $in: playlistIds } }
+    ]
+  }).select('name location.name status currentPlaylist');
+
+  return { playlists, screens, otherPlaylistCount };
+};
+
+/**
+ * Impact list sent to clients before and when deletion is blocked
+ */
+const formatMediaUsage = (mediaId, { playlists, screens, otherPlaylistCount }) => {
+  const playlistIds = new Set(playlists.map(playlist => playlist._id.toString()));
+
+  return {
+    mediaId: mediaId.toString(),
+    inUse: playlists.length > 0 || otherPlaylistCount > 0,
+    otherWorkspacePlaylists: otherPlaylistCount,
+    playlists: playlists.map(playlist => ({
+      id: playlist._id.toString(),
+      name: playlist.name,
+      isActive: playlist.isActive,
+      occurrences: playlist.items.filter(item => item.mediaId.toString() === mediaId.toString()).length
+    })),
+    screens: screens.map(screen => ({
+      id: screen._id.toString(),
+      name: screen.name,
+      location: screen.location?.name || null,
+      status: screen.status,
+      playingNow: !!screen.currentPlaylist && playlistIds.has(screen.currentPlaylist.toString())
+    }))
+  };
+};
+
+/**
+ * Tell the players of screens assigned to changed playlists to reload them
+ */
+const notifyPlaylistScreens = (req, playlists, action) => {
+  const screenIo = req.app.get('screenIo');
+  if (!screenIo) return;
+
+  const timestamp = new Date().toISOString();
+  playlists.forEach(playlist => {
+    playlist.assignedScreens.forEach(screenId => {
+      screenIo.to(`screen:${screenId}`).emit('playlist-update', {
+        playlistId: playlist._id.toString(),
+        action,
+        timestamp
+      });
+    });
+  });
+};
+
 /**
  * Upload single media file with metadata handling
  * @route POST /api/media/upload
@@ -114,11 +204,11 @@ const uploadMedia = async (req, res) => {
     if (isImage) {
       mediaData.duration = duration || 10; // Default 10 seconds for images
     } else if (isVideo) {
-      // For videos, duration will come from Cloudinary metadata
+      // For videos, duration comes from the storage provider's analysis where available
       // We don't set it here as it will be extracted from the video file
     }
 
-    // Upload to Cloudinary and prepare for Media model
+    // Store the file and prepare for Media model
     const uploadResult = await uploadFileForMediaModel(
       buffer, 
       mimetype, 
@@ -136,13 +226,24 @@ const uploadMedia = async (req, res) => {
       userId: req.user.id
     });
     
-    const media = new Media(uploadResult);
-    await media.save();
+    const media = new Media({
+      ...uploadResult,
+      organization: req.workspace.organization,
+      checksum: crypto.createHash('sha256').update(buffer).digest('hex')
+    });
+
+    try {
+      await media.save();
+    } catch (saveError) {
+      saveError.storedFile = uploadResult;
+      throw saveError;
+    }
 
     winston.info('Media uploaded and saved successfully:', {
       service: 'media',
       mediaId: media._id,
-      cloudinaryId: media.cloudinaryId,
+      storageKey: media.storageKey,
+      storageProvider: media.storageProvider,
       userId: req.user.id
     });
 
@@ -160,18 +261,18 @@ const uploadMedia = async (req, res) => {
       stack: error.stack
     });
 
-    // Clean up Cloudinary upload if database save failed
-    if (error.cloudinaryId) {
+    // Clean up the stored file if database save failed
+    if (error.storedFile) {
       try {
-        await deleteFile(error.cloudinaryId, error.type || 'image');
-        winston.info('Cleaned up Cloudinary file after database error', {
+        await deleteStoredFile(error.storedFile);
+        winston.info('Cleaned up stored file after database error', {
           service: 'media',
-          cloudinaryId: error.cloudinaryId
+          storageKey: error.storedFile.storageKey
         });
       } catch (cleanupError) {
-        winston.error('Failed to cleanup Cloudinary file:', {
+        winston.error('Failed to cleanup stored file:', {
           service: 'media',
-          cloudinaryId: error.cloudinaryId,
+          storageKey: error.storedFile.storageKey,
           error: cleanupError.message
         });
       }
@@ -206,7 +307,7 @@ const getMedia = async (req, res) => {
     const skip = (page - 1) * limit;
 
     // Build query
-    const query = { owner: req.user.id, isActive: true };
+    const query = { organization: req.workspace.organization, isActive: true };
     
     // Add filters
     if (type) {
@@ -245,7 +346,7 @@ const getMedia = async (req, res) => {
         .limit(limit)
         .populate('owner', 'name email'),
       Media.countDocuments(query),
-      Media.getUserMediaStats(req.user.id)
+      Media.getUserMediaStats(req.workspace.organization)
     ]);
 
     winston.info('Media retrieved successfully:', {
@@ -324,7 +425,7 @@ const updateMedia = async (req, res) => {
     const { duration, tags, description } = value;
 
     // Find media and verify ownership
-    const media = await Media.findOne({ _id: id, owner: req.user.id, isActive: true });
+    const media = await Media.findOne({ _id: id, organization: req.workspace.organization, isActive: true });
     if (!media) {
       return res.status(404).json({
         success: false,
@@ -391,7 +492,57 @@ const updateMedia = async (req, res) => {
 };
 
 /**
- * Delete media
+ * Get the playlists and screens that use a media item
+ * @route GET /api/media/:id/usage
+ * @access Private
+ */
+const getMediaUsage = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid media ID'
+      });
+    }
+
+    const media = await Media.findOne({ _id: id, organization: req.workspace.organization, isActive: true });
+    if (!media) {
+      return res.status(404).json({
+        success: false,
+        message: 'Media not found or access denied'
+      });
+    }
+
+    const usage = await findMediaUsage(media._id, req.workspace.organization);
+
+    res.json({
+      success: true,
+      message: 'Media usage retrieved successfully',
+      data: formatMediaUsage(media._id, usage)
+    });
+
+  } catch (error) {
+    winston.error('Failed to get media usage:', {
+      service: 'media',
+      mediaId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve media usage',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Delete media. Playlists using it are handled by strategy: block (refuse with
+ * 409 and the impact list), remove (drop the items) or replace (point the
+ * items at replacementId)
  * @route DELETE /api/media/:id
  * @access Private
  */
@@ -406,8 +557,19 @@ const deleteMedia = async (req, res) => {
       });
     }
 
+    const { error, value } = deleteMediaSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { strategy, replacementId } = value;
+
     // Find media and verify ownership
-    const media = await Media.findOne({ _id: id, owner: req.user.id, isActive: true });
+    const media = await Media.findOne({ _id: id, organization: req.workspace.organization, isActive: true });
     if (!media) {
       return res.status(404).json({
         success: false,
@@ -415,17 +577,104 @@ const deleteMedia = async (req, res) => {
       });
     }
 
+    let replacement = null;
+    if (strategy === 'replace') {
+      if (replacementId === id) {
+        return res.status(400).json({
+          success: false,
+          message: 'Media cannot be replaced with itself'
+        });
+      }
+
+      replacement = await Media.findOne({ _id: replacementId, organization: req.workspace.organization, isActive: true });
+      if (!replacement) {
+        return res.status(404).json({
+          success: false,
+          message: 'Replacement media not found or access denied'
+        });
+      }
+    }
+
+    const usage = await findMediaUsage(media._id, req.workspace.organization);
+
+    // Other organizations' playlists are theirs to change, so they always block
+    if (usage.otherPlaylistCount > 0) {
+      return res.status(409).json({
+        success: false,
+        message: `Media is used by ${usage.otherPlaylistCount} playlist${usage.otherPlaylistCount === 1 ? '' : 's'} in other workspaces and cannot be deleted`,
+        data: formatMediaUsage(media._id, usage)
+      });
+    }
+
+    if (usage.playlists.length > 0 && strategy === 'block') {
+      return res.status(409).json({
+        success: false,
+        message: `Media is used by ${usage.playlists.length} playlist${usage.playlists.length === 1 ? '' : 's'}. Remove it from them or choose a replacement to delete it`,
+        data: formatMediaUsage(media._id, usage)
+      });
+    }
+
+    // Update playlists before touching storage, so a failure leaves the media intact
+    for (const playlist of usage.playlists) {
+      const previous = PlaylistRevision.capture(playlist);
+      if (strategy === 'remove') {
+        playlist.items = playlist.items.filter(item => !item.mediaId.equals(media._id));
+        playlist.items.forEach((item, index) => {
+          item.order = index;
+        });
+      } else {
+        playlist.items.forEach(item => {
+          if (item.mediaId.equals(media._id)) {
+            item.mediaId = replacement._id;
+          }
+        });
+      }
+      await playlist.save();
+
+      // Removing or replacing media always changes the items, so no revision means recording failed
+      const revision = await PlaylistRevision.record(playlist, req.user.id, { previous });
+      if (!revision) {
+        winston.warn('Playlist change from media deletion is missing from its history:', {
+          service: 'media',
+          mediaId: id,
+          playlistId: playlist._id.toString(),
+          version: playlist.version
+        });
+      }
+    }
+
+    if (usage.playlists.length > 0) {
+      notifyPlaylistScreens(req, usage.playlists, strategy === 'remove' ? 'item-removed' : 'updated');
+
+      winston.info('Playlists updated for media deletion:', {
+        service: 'media',
+        mediaId: id,
+        strategy,
+        replacementId,
+        playlistIds: usage.playlists.map(playlist => playlist._id.toString()),
+        userId: req.user.id
+      });
+    }
+
+    const result = {
+      id,
+      storageKey: media.storageKey,
+      strategy,
+      playlistsUpdated: usage.playlists.length
+    };
+
     winston.info('Deleting media:', {
       service: 'media',
       mediaId: id,
-      cloudinaryId: media.cloudinaryId,
+      storageKey: media.storageKey,
+      storageProvider: media.storageProvider,
       type: media.type,
       userId: req.user.id
     });
 
     try {
-      // Delete from Cloudinary first
-      await deleteFile(media.cloudinaryId, media.type);
+      // Delete from storage first
+      await deleteStoredFile(media);
       
       // Delete from database
       await Media.findByIdAndUpdate(id, { isActive: false });
@@ -433,22 +682,23 @@ const deleteMedia = async (req, res) => {
       winston.info('Media deleted successfully:', {
         service: 'media',
         mediaId: id,
-        cloudinaryId: media.cloudinaryId,
+        storageKey: media.storageKey,
         userId: req.user.id
       });
 
       res.json({
         success: true,
         message: 'Media deleted successfully',
-        data: { id, cloudinaryId: media.cloudinaryId }
+        data: result
       });
 
     } catch (deleteError) {
-      // If Cloudinary deletion fails, log but still mark as inactive
-      winston.error('Cloudinary deletion failed, marking as inactive:', {
+      // If storage deletion fails, log but still mark as inactive
+      winston.error('Storage deletion failed, marking as inactive:', {
         service: 'media',
         mediaId: id,
-        cloudinaryId: media.cloudinaryId,
+        storageKey: media.storageKey,
+        storageProvider: media.storageProvider,
         error: deleteError.message
       });
 
@@ -457,8 +707,8 @@ const deleteMedia = async (req, res) => {
       res.json({
         success: true,
         message: 'Media marked as deleted (cleanup may be needed)',
-        data: { id, cloudinaryId: media.cloudinaryId },
-        warning: 'Cloud storage cleanup may be required'
+        data: result,
+        warning: 'Storage cleanup may be required'
       });
     }
 
@@ -495,7 +745,7 @@ const generateDownloadUrl = async (req, res) => {
     }
 
     // Find media and verify ownership
-    const media = await Media.findOne({ _id: id, owner: req.user.id, isActive: true });
+    const media = await Media.findOne({ _id: id, organization: req.workspace.organization, isActive: true });
     if (!media) {
       return res.status(404).json({
         success: false,
@@ -503,12 +753,8 @@ const generateDownloadUrl = async (req, res) => {
       });
     }
 
-    // Generate time-limited download URL (1 hour expiry)
-    const downloadUrl = getOptimizedUrl(media.cloudinaryId, {
-      flags: 'attachment',
-      sign_url: true,
-      expires_at: Math.floor(Date.now() / 1000) + 3600 // 1 hour from now
-    }, media.type);
+    // Generate download URL (1 hour expiry where the provider supports it)
+    const { url: downloadUrl, expiresAt } = await getMediaDownloadUrl(media, 3600);
 
     // Increment usage counter
     await media.incrementUsage();
@@ -516,7 +762,7 @@ const generateDownloadUrl = async (req, res) => {
     winston.info('Download URL generated:', {
       service: 'media',
       mediaId: id,
-      cloudinaryId: media.cloudinaryId,
+      storageKey: media.storageKey,
       userId: req.user.id
     });
 
@@ -525,7 +771,7 @@ const generateDownloadUrl = async (req, res) => {
       message: 'Download URL generated successfully',
       data: {
         downloadUrl,
-        expiresAt: new Date(Date.now() + 3600000).toISOString(),
+        expiresAt: expiresAt ? expiresAt.toISOString() : null,
         filename: media.originalName,
         fileSize: media.fileSize,
         type: media.type
@@ -555,12 +801,15 @@ const generateDownloadUrl = async (req, res) => {
  */
 const getMediaStats = async (req, res) => {
   try {
+    const provider = getStorageProvider();
+
     // Get database statistics
     const [stats, recentMedia, popularMedia, storageStats] = await Promise.all([
-      Media.getUserMediaStats(req.user.id),
-      Media.findRecentMedia(req.user.id, 5),
-      Media.findPopularMedia(req.user.id, 5),
-      getUserStorageStats(req.user.id).catch(() => null) // Don't fail if Cloudinary stats unavailable
+      Media.getUserMediaStats(req.workspace.organization),
+      Media.findRecentMedia(req.workspace.organization, 5),
+      Media.findPopularMedia(req.workspace.organization, 5),
+      // Not every provider reports usage; don't fail if stats are unavailable
+      provider.getUsage ? provider.getUsage(req.user.id).catch(() => null) : null
     ]);
 
     const responseData = {
@@ -568,6 +817,7 @@ const getMediaStats = async (req, res) => {
       recent: recentMedia,
       popular: popularMedia,
       storage: storageStats,
+      storageProvider: provider.name,
       limits: {
         maxFileSize: {
           image: FILE_SIZE_LIMITS.image,
@@ -623,7 +873,7 @@ const createVideoThumbnail = async (req, res) => {
     }
 
     // Find media and verify ownership
-    const media = await Media.findOne({ _id: id, owner: req.user.id, isActive: true, type: 'video' });
+    const media = await Media.findOne({ _id: id, organization: req.workspace.organization, isActive: true, type: 'video' });
     if (!media) {
       return res.status(404).json({
         success: false,
@@ -631,17 +881,25 @@ const createVideoThumbnail = async (req, res) => {
       });
     }
 
+    const provider = getStorageProvider(media.storageProvider);
+    if (!provider.getVideoThumbnail) {
+      return res.status(501).json({
+        success: false,
+        message: `Thumbnail generation is not supported by the ${provider.name} storage provider`
+      });
+    }
+
     winston.info('Generating video thumbnail:', {
       service: 'media',
       mediaId: id,
-      cloudinaryId: media.cloudinaryId,
+      storageKey: media.storageKey,
       width,
       height,
       start_offset,
       userId: req.user.id
     });
 
-    const thumbnail = await generateVideoThumbnail(media.cloudinaryId, {
+    const thumbnail = await provider.getVideoThumbnail(media.storageKey, {
       width: width ? parseInt(width) : 400,
       height: height ? parseInt(height) : 300,
       start_offset: start_offset || '0'
@@ -656,7 +914,7 @@ const createVideoThumbnail = async (req, res) => {
         originalVideo: {
           id: media._id,
           originalName: media.originalName,
-          cloudinaryId: media.cloudinaryId
+          storageKey: media.storageKey
         }
       }
     });
@@ -720,6 +978,7 @@ module.exports = {
   uploadMedia,
   getMedia,
   updateMedia,
+  getMediaUsage,
   deleteMedia,
   generateDownloadUrl,
   getMediaStats,
@@ -0,0 +1,945 @@
+const Joi = require('joi');
+const winston = require('winston');
+const mongoose = require('mongoose');
+const Organization = require('../models/organizationModel');
+const Playlist = require('../models/playlistModel');
+const User = require('../models/User');
+const { sendInvitationEmail } = require('../utils/emailService');
+const { resolveDefaultOrganization, organizationRoom, getWorkspace } = require('../utils/organizationUtils');
+const { ALL_PERMISSIONS, FIXED_ROLES, ROLES } = require('../config/permissions');
+
+/**
+ * Organization Controller
+ * Workspaces, their members and email invitations. Roles with the
+ * members:manage permission invite and manage members; only owners and admins
+ * grant the admin role or configure what roles may do, and only owners can
+ * grant, change or remove the owner role
+ */
+
+// Validation schemas
+const organizationSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required().trim()
+});
+
+const updateOrganizationSchema = Joi.object({
+  name: Joi.string().min(1).max(100).trim(),
+  requireApproval: Joi.boolean()
+}).or('name', 'requireApproval');
+
+const inviteSchema = Joi.object({
+  email: Joi.string().email().required().trim().lowercase(),
+  role: Joi.string().valid(...ROLES.filter(role => role !== 'owner')).default('member')
+});
+
+const memberRoleSchema = Joi.object({
+  role: Joi.string().valid(...Organization.MEMBER_ROLES).required()
+});
+
+const rolePermissionsSchema = Joi.object({
+  permissions: Joi.array().items(Joi.string().valid(...ALL_PERMISSIONS)).unique().required()
+});
+
+const isValidId = (id) => mongoose.Types.ObjectId.isValid(id);
+
+/**
+ * Summary of an organization from the point of view of one member
+ */
+const formatOrganization = (organization, userId) => ({
+  id: organization._id,
+  name: organization.name,
+  isPersonal: organization.isPersonal,
+  role: organization.getMemberRole(userId),
+  permissions: organization.getPermissions(userId),
+  requireApproval: !!organization.requireApproval,
+  memberCount: organization.memberCount,
+  createdAt: organization.createdAt
+});
+
+/**
+ * Members, what each role may do and, for those who manage members, pending invitations
+ */
+const formatOrganizationDetail = (organization, userId) => ({
+  ...formatOrganization(organization, userId),
+  members: organization.members.map(member => ({
+    user: member.user,
+    role: member.role,
+    joinedAt: member.joinedAt
+  })),
+  roles: ROLES.map(role => ({
+    role,
+    permissions: organization.getRolePermissions(role),
+    configurable: !FIXED_ROLES.includes(role)
+  })),
+  invitations: organization.can(userId, 'members:manage')
+    ? organization.getPendingInvitations().map(invitation => ({
+      id: invitation._id,
+      email: invitation.email,
+      role: invitation.role,
+      invitedBy: invitation.invitedBy,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt
+    }))
+    : []
+});
+
+/**
+ * Find an organization the user belongs to, with members populated
+ */
+const findMemberOrganization = (req, id) => Organization.findMembership(id, req.user._id)
+  .populate('members.user', 'name email')
+  .populate('invitations.invitedBy', 'name email');
+
+/**
+ * Sockets check events against the role and permissions resolved when they
+ * connected, so resolve them again for the organization's open sockets in a
+ * room. Members who lost access are disconnected; dashboards are told to load
+ * the new permissions
+ */
+const notifyPermissionsChanged = async (req, room, organizationId) => {
+  const io = req.app.get('io');
+  if (!io) return;
+
+  const removed = [];
+  try {
+    const sockets = await io.in(room).fetchSockets();
+    for (const socket of sockets) {
+      if (String(socket.workspace?.organization) !== String(organizationId)) continue;
+
+      const workspace = await getWorkspace(organizationId, socket.userId);
+      if (!workspace) {
+        removed.push(socket);
+        continue;
+      }
+      socket.workspace = workspace;
+
+      // Playlist rooms were joined with the old role's access
+      const playlistIds = Object.keys(socket.data.playlistPermissions || {});
+      const playlists = playlistIds.length > 0 ? await Playlist.find({ _id: { $in: playlistIds } }) : [];
+      playlistIds.forEach(playlistId => {
+        const playlist = playlists.find(candidate => candidate._id.toString() === playlistId);
+        const permission = playlist ? playlist.getPermission(socket.userId, workspace) : null;
+        socket.data.playlistPermissions[playlistId] = permission;
+        if (!permission) socket.leave(`playlist:${playlistId}`);
+      });
+    }
+  } catch (error) {
+    winston.warn('Failed to update member sockets:', {
+      service: 'organization',
+      organizationId,
+      room,
+      error: error.message
+    });
+  }
+
+  io.to(room).emit('organization:permissions:changed', {
+    organizationId,
+    timestamp: new Date().toISOString()
+  });
+  removed.forEach(socket => socket.disconnect(true));
+};
+
+const notFoundResponse = (res) => res.status(404).json({
+  success: false,
+  message: 'Organization not found or access denied'
+});
+
+const forbiddenResponse = (res, message) => res.status(403).json({
+  success: false,
+  message,
+  code: 'INSUFFICIENT_PERMISSIONS'
+});
+
+/**
+ * Get the organizations the user belongs to
+ * @route GET /api/organizations
+ * @access Private
+ */
+const getOrganizations = async (req, res) => {
+  try {
+    // New accounts get their personal workspace on first load
+    await resolveDefaultOrganization(req.user);
+    const organizations = await Organization.findForUser(req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Organizations retrieved successfully',
+      data: {
+        organizations: organizations.map(organization => formatOrganization(organization, req.user._id)),
+        defaultOrganization: req.user.defaultOrganization || null
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve organizations:', {
+      service: 'organization',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve organizations',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Create an organization with the user as its owner
+ * @route POST /api/organizations
+ * @access Private
+ */
+const createOrganization = async (req, res) => {
+  try {
+    const { error, value } = organizationSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const organization = await Organization.create({
+      name: value.name,
+      createdBy: req.user._id,
+      members: [{ user: req.user._id, role: 'owner' }]
+    });
+
+    winston.info('Organization created:', {
+      service: 'organization',
+      organizationId: organization._id,
+      userId: req.user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Organization created successfully',
+      data: {
+        organization: formatOrganization(organization, req.user._id)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to create organization:', {
+      service: 'organization',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create organization',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get an organization with its members
+ * @route GET /api/organizations/:id
+ * @access Private (members)
+ */
+const getOrganization = async (req, res) => {
+  try {
+    const organization = isValidId(req.params.id) && await findMemberOrganization(req, req.params.id);
+    if (!organization) {
+      return notFoundResponse(res);
+    }
+
+    res.json({
+      success: true,
+      message: 'Organization retrieved successfully',
+      data: {
+        organization: formatOrganizationDetail(organization, req.user._id)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve organization:', {
+      service: 'organization',
+      organizationId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve organization',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Rename an organization or turn playlist approval on or off
+ * @route PUT /api/organizations/:id
+ * @access Private (owners and admins)
+ */
+const updateOrganization = async (req, res) => {
+  try {
+    const { error, value } = updateOrganizationSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const organization = isValidId(req.params.id) && await findMemberOrganization(req, req.params.id);
+    if (!organization) {
+      return notFoundResponse(res);
+    }
+
+    if (!organization.hasRole(req.user._id, 'admin')) {
+      return forbiddenResponse(res, 'Only owners and admins can change the organization');
+    }
+
+    const approvalChanged = value.requireApproval !== undefined &&
+      value.requireApproval !== !!organization.requireApproval;
+
+    if (value.name !== undefined) organization.name = value.name;
+    if (value.requireApproval !== undefined) organization.requireApproval = value.requireApproval;
+    await organization.save();
+
+    if (approvalChanged) {
+      // What screens play now stays on them; only later edits wait for approval
+      const published = value.requireApproval ? await Playlist.publishLiveContent(organization._id) : 0;
+
+      // Members' sessions carry the setting, so have them pick it up
+      await notifyPermissionsChanged(req, organizationRoom(organization._id), organization._id);
+
+      winston.info('Organization playlist approval changed:', {
+        service: 'organization',
+        organizationId: organization._id,
+        requireApproval: organization.requireApproval,
+        publishedPlaylists: published,
+        userId: req.user.id
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Organization updated successfully',
+      data: {
+        organization: formatOrganizationDetail(organization, req.user._id)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to update organization:', {
+      service: 'organization',
+      organizationId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update organization',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Make an organization the one the user works in by default
+ * @route PUT /api/organizations/:id/default
+ * @access Private (members)
+ */
+const setDefaultOrganization = async (req, res) => {
+  try {
+    const organization = isValidId(req.params.id) && await Organization.findMembership(req.params.id, req.user._id);
+    if (!organization) {
+      return notFoundResponse(res);
+    }
+
+    await User.updateOne({ _id: req.user._id }, { $set: { defaultOrganization: organization._id } });
+
+    res.json({
+      success: true,
+      message: 'Default organization updated successfully',
+      data: {
+        defaultOrganization: organization._id
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to set default organization:', {
+      service: 'organization',
+      organizationId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to set default organization',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Invite an email address to an organization
+ * @route POST /api/organizations/:id/invitations
+ * @access Private (members:manage; owners and admins to invite admins)
+ */
+const inviteMember = async (req, res) => {
+  try {
+    const { error, value } = inviteSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const organization = isValidId(req.params.id) && await findMemberOrganization(req, req.params.id);
+    if (!organization) {
+      return notFoundResponse(res);
+    }
+
+    if (!organization.can(req.user._id, 'members:manage')) {
+      return forbiddenResponse(res, 'Your role does not allow inviting members');
+    }
+
+    if (value.role === 'admin' && !organization.hasRole(req.user._id, 'admin')) {
+      return forbiddenResponse(res, 'Only owners and admins can invite admins');
+    }
+
+    if (organization.members.some(member => member.user.email === value.email)) {
+      return res.status(409).json({
+        success: false,
+        message: 'This person is already a member'
+      });
+    }
+
+    const invitation = organization.invite(value.email, value.role, req.user._id);
+    await organization.save();
+
+    // The invitation stands even if the email cannot be delivered
+    try {
+      await sendInvitationEmail(value.email, organization, req.user);
+    } catch (emailError) {
+      winston.error('Failed to send invitation email:', {
+        service: 'organization',
+        organizationId: organization._id,
+        email: value.email,
+        error: emailError.message
+      });
+    }
+
+    winston.info('Organization invitation created:', {
+      service: 'organization',
+      organizationId: organization._id,
+      invitationId: invitation._id,
+      role: value.role,
+      userId: req.user.id
+    });
+
+    await organization.populate('invitations.invitedBy', 'name email');
+
+    res.status(201).json({
+      success: true,
+      message: 'Invitation sent successfully',
+      data: {
+        organization: formatOrganizationDetail(organization, req.user._id)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to invite member:', {
+      service: 'organization',
+      organizationId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to invite member',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Withdraw a pending invitation
+ * @route DELETE /api/organizations/:id/invitations/:invitationId
+ * @access Private (members:manage)
+ */
+const revokeInvitation = async (req, res) => {
+  try {
+    const organization = isValidId(req.params.id) && await findMemberOrganization(req, req.params.id);
+    if (!organization) {
+      return notFoundResponse(res);
+    }
+
+    if (!organization.can(req.user._id, 'members:manage')) {
+      return forbiddenResponse(res, 'Your role does not allow withdrawing invitations');
+    }
+
+    const invitation = organization.invitations.id(req.params.invitationId);
+    if (!invitation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invitation not found'
+      });
+    }
+
+    invitation.deleteOne();
+    await organization.save();
+
+    res.json({
+      success: true,
+      message: 'Invitation withdrawn successfully',
+      data: {
+        organization: formatOrganizationDetail(organization, req.user._id)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to withdraw invitation:', {
+      service: 'organization',
+      organizationId: req.params.id,
+      invitationId: req.params.invitationId,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to withdraw invitation',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Change a member's role
+ * @route PUT /api/organizations/:id/members/:userId
+ * @access Private (members:manage; owners and admins for the admin role, owners for the owner role)
+ */
+const updateMemberRole = async (req, res) => {
+  try {
+    const { error, value } = memberRoleSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const organization = isValidId(req.params.id) && await findMemberOrganization(req, req.params.id);
+    if (!organization) {
+      return notFoundResponse(res);
+    }
+
+    const currentRole = organization.getMemberRole(req.params.userId);
+    if (!currentRole) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    if (!organization.can(req.user._id, 'members:manage')) {
+      return forbiddenResponse(res, 'Your role does not allow changing member roles');
+    }
+
+    if ((currentRole === 'admin' || value.role === 'admin') && !organization.hasRole(req.user._id, 'admin')) {
+      return forbiddenResponse(res, 'Only owners and admins can grant or change the admin role');
+    }
+
+    if ((currentRole === 'owner' || value.role === 'owner') && !organization.hasRole(req.user._id, 'owner')) {
+      return forbiddenResponse(res, 'Only owners can grant or change the owner role');
+    }
+
+    if (currentRole === 'owner' && value.role !== 'owner' && organization.countOwners() === 1) {
+      return res.status(409).json({
+        success: false,
+        message: 'An organization needs at least one owner'
+      });
+    }
+
+    organization.addMember(req.params.userId, value.role);
+    await organization.save();
+    await notifyPermissionsChanged(req, `user:${req.params.userId}`, organization._id);
+
+    winston.info('Organization member role changed:', {
+      service: 'organization',
+      organizationId: organization._id,
+      memberId: req.params.userId,
+      previousRole: currentRole,
+      role: value.role,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Member role updated successfully',
+      data: {
+        organization: formatOrganizationDetail(organization, req.user._id)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to update member role:', {
+      service: 'organization',
+      organizationId: req.params.id,
+      memberId: req.params.userId,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update member role',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Change what a role may do in an organization. Owner and admin always hold
+ * every permission
+ * @route PUT /api/organizations/:id/roles/:role
+ * @access Private (owners and admins)
+ */
+const updateRolePermissions = async (req, res) => {
+  try {
+    const { error, value } = rolePermissionsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const organization = isValidId(req.params.id) && await findMemberOrganization(req, req.params.id);
+    if (!organization) {
+      return notFoundResponse(res);
+    }
+
+    if (!organization.hasRole(req.user._id, 'admin')) {
+      return forbiddenResponse(res, 'Only owners and admins can change what roles may do');
+    }
+
+    if (!ROLES.includes(req.params.role) || FIXED_ROLES.includes(req.params.role)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: [`The ${req.params.role} role cannot be configured`]
+      });
+    }
+
+    organization.setRolePermissions(req.params.role, value.permissions);
+    await organization.save();
+    await notifyPermissionsChanged(req, organizationRoom(organization._id), organization._id);
+
+    winston.info('Organization role permissions changed:', {
+      service: 'organization',
+      organizationId: organization._id,
+      role: req.params.role,
+      permissions: value.permissions,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Role permissions updated successfully',
+      data: {
+        organization: formatOrganizationDetail(organization, req.user._id)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to update role permissions:', {
+      service: 'organization',
+      organizationId: req.params.id,
+      role: req.params.role,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update role permissions',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Remove a member, or leave when removing yourself. Content they created
+ * stays with the organization
+ * @route DELETE /api/organizations/:id/members/:userId
+ * @access Private (members:manage, or the member themselves)
+ */
+const removeMember = async (req, res) => {
+  try {
+    const organization = isValidId(req.params.id) && await findMemberOrganization(req, req.params.id);
+    if (!organization) {
+      return notFoundResponse(res);
+    }
+
+    const memberRole = organization.getMemberRole(req.params.userId);
+    if (!memberRole) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    const isLeaving = req.params.userId === req.user.id;
+
+    if (!isLeaving && !organization.can(req.user._id, 'members:manage')) {
+      return forbiddenResponse(res, 'Your role does not allow removing members');
+    }
+
+    if (!isLeaving && memberRole === 'admin' && !organization.hasRole(req.user._id, 'admin')) {
+      return forbiddenResponse(res, 'Only owners and admins can remove an admin');
+    }
+
+    if (!isLeaving && memberRole === 'owner' && !organization.hasRole(req.user._id, 'owner')) {
+      return forbiddenResponse(res, 'Only owners can remove an owner');
+    }
+
+    if (memberRole === 'owner' && organization.countOwners() === 1) {
+      return res.status(409).json({
+        success: false,
+        message: 'An organization needs at least one owner. Make someone else an owner first'
+      });
+    }
+
+    organization.removeMember(req.params.userId);
+    await organization.save();
+    await notifyPermissionsChanged(req, `user:${req.params.userId}`, organization._id);
+
+    // Whoever left falls back to another organization next time they sign in
+    await User.updateOne(
+      { _id: req.params.userId, defaultOrganization: organization._id },
+      { $unset: { defaultOrganization: 1 } }
+    );
+
+    winston.info(isLeaving ? 'Member left organization:' : 'Organization member removed:', {
+      service: 'organization',
+      organizationId: organization._id,
+      memberId: req.params.userId,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: isLeaving ? 'You left the organization' : 'Member removed successfully',
+      data: {
+        organization: isLeaving ? null : formatOrganizationDetail(organization, req.user._id)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to remove member:', {
+      service: 'organization',
+      organizationId: req.params.id,
+      memberId: req.params.userId,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove member',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get the pending invitations for the user's email address
+ * @route GET /api/organizations/invitations
+ * @access Private
+ */
+const getMyInvitations = async (req, res) => {
+  try {
+    const organizations = await Organization.findInvitationsFor(req.user.email)
+      .populate('invitations.invitedBy', 'name email');
+
+    const invitations = organizations.flatMap(organization => organization.getPendingInvitations()
+      .filter(invitation => invitation.email === req.user.email)
+      .map(invitation => ({
+        id: invitation._id,
+        organization: { id: organization._id, name: organization.name },
+        role: invitation.role,
+        invitedBy: invitation.invitedBy,
+        expiresAt: invitation.expiresAt
+      })));
+
+    res.json({
+      success: true,
+      message: 'Invitations retrieved successfully',
+      data: {
+        invitations
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve invitations:', {
+      service: 'organization',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve invitations',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Find a pending invitation addressed to the user
+ * @returns {Promise<Object|null>} { organization, invitation }
+ */
+const findInvitation = async (req) => {
+  if (!isValidId(req.params.invitationId)) return null;
+
+  const organization = await Organization.findOne({
+    isActive: true,
+    invitations: {
+      $elemMatch: {
+        _id: req.params.invitationId,
+        email: req.user.email,
+        expiresAt: { $gt: new Date() }
+      }
+    }
+  });
+
+  return organization
+    ? { organization, invitation: organization.invitations.id(req.params.invitationId) }
+    : null;
+};
+
+/**
+ * Accept an invitation and join the organization
+ * @route POST /api/organizations/invitations/:invitationId/accept
+ * @access Private (verified accounts with the invited email)
+ */
+const acceptInvitation = async (req, res) => {
+  try {
+    // Anyone can register with any address, so only a verified one proves it was invited
+    if (!req.user.isVerified) {
+      return res.status(403).json({
+        success: false,
+        message: 'Verify your email address to accept invitations',
+        code: 'EMAIL_NOT_VERIFIED'
+      });
+    }
+
+    const found = await findInvitation(req);
+    if (!found) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invitation not found or expired'
+      });
+    }
+
+    const { organization, invitation } = found;
+
+    // Accepting never lowers the role of someone who is already a member
+    if (!organization.getMemberRole(req.user._id)) {
+      organization.addMember(req.user._id, invitation.role);
+    }
+    invitation.deleteOne();
+    await organization.save();
+
+    winston.info('Organization invitation accepted:', {
+      service: 'organization',
+      organizationId: organization._id,
+      role: invitation.role,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: `You joined ${organization.name}`,
+      data: {
+        organization: formatOrganization(organization, req.user._id)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to accept invitation:', {
+      service: 'organization',
+      invitationId: req.params.invitationId,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to accept invitation',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Decline an invitation
+ * @route DELETE /api/organizations/invitations/:invitationId
+ * @access Private (the invited email)
+ */
+const declineInvitation = async (req, res) => {
+  try {
+    const found = await findInvitation(req);
+    if (!found) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invitation not found or expired'
+      });
+    }
+
+    found.invitation.deleteOne();
+    await found.organization.save();
+
+    res.json({
+      success: true,
+      message: 'Invitation declined'
+    });
+
+  } catch (error) {
+    winston.error('Failed to decline invitation:', {
+      service: 'organization',
+      invitationId: req.params.invitationId,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to decline invitation',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+module.exports = {
+  getOrganizations,
+  createOrganization,
+  getOrganization,
+  updateOrganization,
+  setDefaultOrganization,
+  inviteMember,
+  revokeInvitation,
+  updateMemberRole,
+  updateRolePermissions,
+  removeMember,
+  getMyInvitations,
+  acceptInvitation,
+  declineInvitation
+};
@@ -1,9 +1,16 @@
 const Joi = require('joi');
 const Playlist = require('../models/playlistModel');
+const PlaylistRevision = require('../models/playlistRevisionModel');
 const Media = require('../models/mediaModel');
 const Screen = require('../models/screenModel');
+const ScreenGroup = require('../models/screenGroupModel');
+const User = require('../models/User');
 const winston = require('winston');
 const mongoose = require('mongoose');
+const { diffSnapshots, summarizeDiff } = require('../utils/playlistDiff');
+const playlistPresence = require('../sockets/playlistPresence');
+const { getWorkspace, organizationRoom } = require('../utils/organizationUtils');
+const { FIXED_ROLES } = require('../config/permissions');
 
 /**
  * Comprehensive Playlist Controller
@@ -12,6 +19,26 @@ const mongoose = require('mongoose');
  */
 
 // Validation schemas
+const transitionTypes = ['none', 'fade', 'slide-left', 'slide-right', 'slide-up', 'slide-down', 'zoom-in', 'zoom-out'];
+const hexColor = Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).messages({
+  'string.pattern.base': '{{#label}} must be a hex color like #000000'
+});
+
+// Settings beyond playback order; omitted ones keep their current value
+const playlistSettingsFields = {
+  priority: Joi.number().integer().min(1).max(10).optional(),
+  defaultItemDuration: Joi.number().min(1).max(7200).allow(null).optional(),
+  allowDurationOverride: Joi.boolean().optional(),
+  defaultTransition: Joi.object({
+    type: Joi.string().valid(...transitionTypes).default('none'),
+    duration: Joi.number().min(0.1).max(5).default(0.5),
+    easing: Joi.string().valid('ease-in', 'ease-out', 'ease-in-out', 'linear').default('ease-in-out')
+  }).optional(),
+  backgroundColor: hexColor.optional(),
+  textColor: hexColor.optional(),
+  showMetadata: Joi.boolean().optional()
+};
+
 const createPlaylistSchema = Joi.object({
   name: Joi.string().min(2).max(100).required().trim(),
   description: Joi.string().max(500).optional().trim(),
@@ -22,7 +49,8 @@ const createPlaylistSchema = Joi.object({
     shuffle: Joi.boolean().default(false),
     loop: Joi.boolean().default(true),
     autoAdvance: Joi.boolean().default(true),
-    pauseBetweenItems: Joi.number().min(0).max(30).default(0)
+    pauseBetweenItems: Joi.number().min(0).max(30).default(0),
+    ...playlistSettingsFields
   }).optional(),
   schedule: Joi.object({
     startDate: Joi.date().optional(),
@@ -37,7 +65,34 @@ const createPlaylistSchema = Joi.object({
   }).optional()
 });
 
+const conditionSchema = Joi.object({
+  type: Joi.string().valid('time-range', 'date-range', 'day-of-week', 'weather', 'custom', 'data').required(),
+  operator: Joi.string().valid('equals', 'not-equals', 'greater-than', 'less-than', 'between', 'in', 'not-in').required(),
+  key: Joi.string().max(50).trim().when('type', { is: Joi.valid('custom', 'data'), then: Joi.required(), otherwise: Joi.optional() }),
+  value: Joi.string().max(100).required()
+});
+
+const transitionSchema = Joi.object({
+  type: Joi.string().valid(...transitionTypes).default('none'),
+  duration: Joi.number().min(0.1).max(5).default(0.5)
+});
+
+// Version the client's edit is based on; writes against an older version get 409
+const playlistVersionSchema = Joi.number().integer().min(1).optional();
+
+// Full item list for PUT /api/playlists/:id, in play order. Items with an id
+// keep their metadata, items without one are added
+const playlistItemUpdateSchema = Joi.object({
+  id: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).optional(),
+  mediaId: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).required(),
+  duration: Joi.number().min(1).max(7200).allow(null).optional(),
+  transitions: transitionSchema.optional(),
+  conditions: Joi.array().items(conditionSchema).optional(),
+  notes: Joi.string().max(200).allow('').optional()
+});
+
 const updatePlaylistSchema = Joi.object({
+  version: playlistVersionSchema,
   name: Joi.string().min(2).max(100).optional().trim(),
   description: Joi.string().max(500).optional().trim(),
   isActive: Joi.boolean().optional(),
@@ -47,7 +102,8 @@ const updatePlaylistSchema = Joi.object({
     shuffle: Joi.boolean().optional(),
     loop: Joi.boolean().optional(),
     autoAdvance: Joi.boolean().optional(),
-    pauseBetweenItems: Joi.number().min(0).max(30).optional()
+    pauseBetweenItems: Joi.number().min(0).max(30).optional(),
+    ...playlistSettingsFields
   }).optional(),
   schedule: Joi.object({
     startDate: Joi.date().optional(),
@@ -59,30 +115,26 @@ const updatePlaylistSchema = Joi.object({
     daysOfWeek: Joi.array().items(Joi.number().min(0).max(6)).optional(),
     isRecurring: Joi.boolean().optional(),
     timezone: Joi.string().optional()
-  }).optional()
+  }).optional(),
+  items: Joi.array().items(playlistItemUpdateSchema).optional()
 });
 
 const addMediaItemSchema = Joi.object({
   mediaId: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).required(),
   order: Joi.number().min(0).optional(),
   duration: Joi.number().min(1).max(7200).optional(),
-  transitions: Joi.object({
-    type: Joi.string().valid('none', 'fade', 'slide-left', 'slide-right', 'slide-up', 'slide-down', 'zoom-in', 'zoom-out').default('none'),
-    duration: Joi.number().min(0.1).max(5).default(0.5)
-  }).optional(),
-  conditions: Joi.array().items(Joi.object({
-    type: Joi.string().valid('time-range', 'date-range', 'day-of-week', 'weather', 'custom').required(),
-    operator: Joi.string().valid('equals', 'not-equals', 'greater-than', 'less-than', 'between', 'in', 'not-in').required(),
-    value: Joi.string().max(100).required()
-  })).optional(),
+  transitions: transitionSchema.optional(),
+  conditions: Joi.array().items(conditionSchema).optional(),
   notes: Joi.string().max(200).optional()
 });
 
 const reorderItemsSchema = Joi.object({
+  version: playlistVersionSchema,
   itemOrder: Joi.array().items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/)).min(1).required()
 });
 
 const reorderItemsUpdateSchema = Joi.object({
+  version: playlistVersionSchema,
   items: Joi.array().items(Joi.object({
     id: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).required(),
     order: Joi.number().min(0).required()
@@ -90,9 +142,12 @@ const reorderItemsUpdateSchema = Joi.object({
 });
 
 const assignScreensSchema = Joi.object({
-  screenIds: Joi.array().items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/)).min(1).required(),
+  screenIds: Joi.array().items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/)).default([]),
+  groupIds: Joi.array().items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/)).default([]),
   action: Joi.string().valid('assign', 'unassign').default('assign')
-});
+}).custom((value, helpers) => (
+  value.screenIds.length + value.groupIds.length > 0 ? value : helpers.message('At least one screen or group is required')
+));
 
 const playlistQuerySchema = Joi.object({
   page: Joi.number().min(1).default(1),
@@ -105,6 +160,122 @@ const playlistQuerySchema = Joi.object({
   order: Joi.string().valid('asc', 'desc').default('desc')
 });
 
+const revisionQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const compareRevisionsSchema = Joi.object({
+  from: Joi.number().integer().min(1).required(),
+  // Defaults to the latest revision
+  to: Joi.number().integer().min(1).optional()
+});
+
+const restoreRevisionSchema = Joi.object({
+  version: playlistVersionSchema
+});
+
+const collaboratorPermissionSchema = Joi.string().valid('view', 'edit', 'admin');
+
+const addCollaboratorSchema = Joi.object({
+  email: Joi.string().email().lowercase().trim().required(),
+  permission: collaboratorPermissionSchema.default('view')
+});
+
+const updateCollaboratorSchema = Joi.object({
+  permission: collaboratorPermissionSchema.required()
+});
+
+const approvalCommentSchema = Joi.string().max(1000).trim();
+
+const approvalActionSchema = Joi.object({
+  comment: approvalCommentSchema.allow('').optional()
+});
+
+// Rejections say what needs to change
+const rejectApprovalSchema = Joi.object({
+  comment: approvalCommentSchema.required()
+});
+
+const addApprovalCommentSchema = Joi.object({
+  comment: approvalCommentSchema.required()
+});
+
+const approvalQueueSchema = Joi.object({
+  status: Joi.string().valid(...Playlist.APPROVAL_STATUSES).default('submitted'),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+/**
+ * Tell the players of every screen assigned to a playlist that it changed
+ */
+const notifyAssignedScreens = (req, playlist, action) => {
+  const screenIo = req.app.get('screenIo');
+  if (!screenIo) return;
+
+  const timestamp = new Date().toISOString();
+  playlist.assignedScreens.forEach(screen => {
+    // assignedScreens may already be populated
+    const screenId = (screen._id || screen).toString();
+    screenIo.to(`screen:${screenId}`).emit('playlist-update', {
+      playlistId: playlist._id.toString(),
+      action,
+      timestamp
+    });
+  });
+};
+
+/**
+ * Refuse to put a playlist on screens before its content has been approved
+ * and published, in organizations that require approval
+ */
+const sendApprovalRequired = (res) => res.status(409).json({
+  success: false,
+  code: 'APPROVAL_REQUIRED',
+  message: 'Playlist must be approved and published before it can be assigned to screens'
+});
+
+/**
+ * Whether a write is based on an older version than the stored playlist.
+ * Clients that send no version skip the check
+ */
+const isStaleVersion = (playlist, version) => version !== undefined && version !== playlist.version;
+
+/**
+ * Refuse a stale write with 409 and the current playlist, so the client can
+ * merge its changes into it and retry against the new version
+ */
+const sendVersionConflict = async (req, res, playlistId, version) => {
+  const current = await Playlist.findById(playlistId)
+    .populate('owner', 'name email')
+    .populate({
+      path: 'items.mediaId',
+      model: 'Media',
+      select: 'originalName url secureUrl type duration videoDuration fileSize format'
+    })
+    .populate('assignedScreens', 'name location status lastSeen')
+    .populate('collaborators.user', 'name email');
+
+  winston.info('Rejected stale playlist write:', {
+    service: 'playlist',
+    playlistId,
+    userId: req.user.id,
+    requestedVersion: version,
+    currentVersion: current?.version
+  });
+
+  return res.status(409).json({
+    success: false,
+    code: 'VERSION_CONFLICT',
+    message: 'Playlist was changed by someone else since you loaded it',
+    data: {
+      currentVersion: current?.version,
+      playlist: current
+    }
+  });
+};
+
 /**
  * Create new playlist
  * @route POST /api/playlists
@@ -124,7 +295,8 @@ const createPlaylist = async (req, res) => {
 
     const playlistData = {
       ...value,
-      owner: req.user.id
+      owner: req.user.id,
+      organization: req.workspace.organization
     };
 
     winston.info('Creating new playlist:', {
@@ -133,9 +305,9 @@ const createPlaylist = async (req, res) => {
       playlistName: playlistData.name
     });
 
-    // Check for duplicate playlist names for this user
+    // Check for duplicate playlist names in this organization
     const existingPlaylist = await Playlist.findOne({
-      owner: req.user.id,
+      organization: req.workspace.organization,
       name: playlistData.name,
       isActive: true
     });
@@ -149,6 +321,7 @@ const createPlaylist = async (req, res) => {
 
     const playlist = new Playlist(playlistData);
     await playlist.save();
+    await PlaylistRevision.record(playlist, req.user.id);
 
     winston.info('Playlist created successfully:', {
       service: 'playlist',
@@ -202,7 +375,7 @@ const getPlaylists = async (req, res) => {
     // Build query
     const query = {
       $or: [
-        { owner: req.user.id },
+        { organization: req.workspace.organization },
         { 'collaborators.user': req.user.id }
       ],
       isActive: true
@@ -254,7 +427,7 @@ const getPlaylists = async (req, res) => {
         .populate('assignedScreens', 'name location status')
         .populate('collaborators.user', 'name email'),
       Playlist.countDocuments(query),
-      Playlist.getUserPlaylistStats(req.user.id)
+      Playlist.getUserPlaylistStats(req.workspace.organization)
     ]);
 
     winston.info('Playlists retrieved successfully:', {
@@ -350,11 +523,7 @@ const getPlaylistById = async (req, res) => {
     // Find playlist and verify access
     const playlist = await Playlist.findOne({
       _id: id,
-      $or: [
-        { owner: req.user.id },
-        { 'collaborators.user': req.user.id },
-        { isPublic: true }
-      ],
+      ...Playlist.accessFilter(req.user.id, 'view', req.workspace),
       isActive: true
     })
     .populate('owner', 'name email')
@@ -475,10 +644,7 @@ const updatePlaylist = async (req, res) => {
 
     const playlist = await Playlist.findOne({
       _id: id,
-      $or: [
-        { owner: req.user.id },
-        { 'collaborators.user': req.user.id, 'collaborators.permission': { $in: ['edit', 'admin'] } }
-      ],
+      ...Playlist.accessFilter(req.user.id, 'edit', req.workspace),
       isActive: true
     });
 
@@ -494,6 +660,14 @@ const updatePlaylist = async (req, res) => {
       });
     }
 
+    const { version, items, ...updates } = value;
+
+    if (isStaleVersion(playlist, version)) {
+      return sendVersionConflict(req, res, id, version);
+    }
+
+    const previous = PlaylistRevision.capture(playlist);
+
     winston.debug('Playlist found:', {
       service: 'playlist',
       playlistId: id,
@@ -510,18 +684,18 @@ const updatePlaylist = async (req, res) => {
     });
 
     // Check for duplicate name if name is being changed
-    if (value.name && value.name !== playlist.name) {
+    if (updates.name && updates.name !== playlist.name) {
       winston.debug('Checking for duplicate playlist name:', {
         service: 'playlist',
         playlistId: id,
         userId: req.user.id,
         oldName: playlist.name,
-        newName: value.name
+        newName: updates.name
       });
 
       const existingPlaylist = await Playlist.findOne({
-        owner: playlist.owner,
-        name: value.name,
+        organization: playlist.organization,
+        name: updates.name,
         isActive: true,
         _id: { $ne: id }
       });
@@ -531,7 +705,7 @@ const updatePlaylist = async (req, res) => {
           service: 'playlist',
           playlistId: id,
           userId: req.user.id,
-          duplicateName: value.name,
+          duplicateName: updates.name,
           existingPlaylistId: existingPlaylist._id
         });
         return res.status(409).json({
@@ -569,12 +743,43 @@ const updatePlaylist = async (req, res) => {
       updates: value
     });
 
+    // Media added through the item list must be accessible, as in addMediaToPlaylist
+    if (items) {
+      const currentMediaIds = new Set(playlist.items.map(item => item.mediaId.toString()));
+      const newMediaIds = [...new Set(items.map(item => item.mediaId))].filter(mediaId => !currentMediaIds.has(mediaId));
+
+      if (newMediaIds.length > 0) {
+        const accessibleCount = await Media.countDocuments({
+          _id: { $in: newMediaIds },
+          $or: [
+            { organization: req.workspace.organization },
+            { isPublic: true }
+          ],
+          isActive: true
+        });
+
+        if (accessibleCount !== newMediaIds.length) {
+          return res.status(404).json({
+            success: false,
+            message: 'Media not found or access denied'
+          });
+        }
+      }
+    }
+
     // Apply updates one by one with logging
     const updatedFields = [];
-    for (const [key, val] of Object.entries(value)) {
+    for (const [key, val] of Object.entries(updates)) {
       if (val !== undefined && val !== null) {
         const oldValue = playlist[key];
-        playlist[key] = val;
+        if (key === 'settings') {
+          // Settings are merged, so a partial update (e.g. an undo step) keeps the rest
+          Object.entries(val).forEach(([setting, settingValue]) => {
+            playlist.settings[setting] = settingValue;
+          });
+        } else {
+          playlist[key] = val;
+        }
         updatedFields.push({ field: key, oldValue, newValue: val });
         winston.debug(`Updated field '${key}':`, {
           service: 'playlist',
@@ -587,6 +792,12 @@ const updatePlaylist = async (req, res) => {
       }
     }
 
+    if (items) {
+      const oldItemCount = playlist.items.length;
+      playlist.replaceItems(items, req.user.id);
+      updatedFields.push({ field: 'items', oldValue: oldItemCount, newValue: items.length });
+    }
+
     // Update lastModified timestamp
     playlist.lastModified = new Date();
     winston.debug('Set lastModified timestamp:', {
@@ -617,6 +828,8 @@ const updatePlaylist = async (req, res) => {
     });
 
     try {
+      // Only save over the version that was checked, in case another write landed meanwhile
+      playlist.$where = { version: playlist.version };
       const savedPlaylist = await playlist.save();
       
       winston.info('Playlist saved successfully to database:', {
@@ -630,6 +843,10 @@ const updatePlaylist = async (req, res) => {
       });
 
     } catch (saveError) {
+      if (saveError instanceof mongoose.Error.DocumentNotFoundError) {
+        return sendVersionConflict(req, res, id, version);
+      }
+
       winston.error('Database save failed:', {
         service: 'playlist',
         playlistId: id,
@@ -645,6 +862,9 @@ const updatePlaylist = async (req, res) => {
       throw saveError;
     }
 
+    await PlaylistRevision.record(playlist, req.user.id, { previous });
+    notifyAssignedScreens(req, playlist, 'updated');
+
     winston.debug('Verifying save by re-fetching playlist:', {
       service: 'playlist',
       playlistId: id,
@@ -671,7 +891,7 @@ const updatePlaylist = async (req, res) => {
       service: 'playlist',
       playlistId: id,
       userId: req.user.id,
-      updates: Object.keys(value),
+      updates: updatedFields.map(f => f.field),
       totalTime: Date.now() - startTime
     });
 
@@ -684,6 +904,11 @@ const updatePlaylist = async (req, res) => {
 
     await playlist.populate('owner', 'name email');
     await playlist.populate('assignedScreens', 'name location status');
+    await playlist.populate({
+      path: 'items.mediaId',
+      model: 'Media',
+      select: 'originalName url secureUrl type duration videoDuration fileSize format'
+    });
 
     const responseData = {
       success: true,
@@ -762,10 +987,11 @@ const deletePlaylist = async (req, res) => {
       });
     }
 
-    // Find playlist and verify ownership
+    // Roles below organization admin delete only the playlists they created
     const playlist = await Playlist.findOne({
       _id: id,
-      owner: req.user.id,
+      organization: req.workspace.organization,
+      ...(Playlist.workspaceGrant(req.workspace) !== 'admin' && { owner: req.user.id }),
       isActive: true
     });
 
@@ -789,6 +1015,8 @@ const deletePlaylist = async (req, res) => {
       lastModified: new Date()
     });
 
+    notifyAssignedScreens(req, playlist, 'deleted');
+
     winston.info('Playlist deleted successfully:', {
       service: 'playlist',
       playlistId: id,
@@ -837,11 +1065,7 @@ const duplicatePlaylist = async (req, res) => {
     // Find original playlist and verify access
     const originalPlaylist = await Playlist.findOne({
       _id: id,
-      $or: [
-        { owner: req.user.id },
-        { 'collaborators.user': req.user.id },
-        { isPublic: true }
-      ],
+      ...Playlist.accessFilter(req.user.id, 'view', req.workspace),
       isActive: true
     }).populate('items.mediaId');
 
@@ -854,11 +1078,12 @@ const duplicatePlaylist = async (req, res) => {
 
     // Create duplicate
     const duplicatedPlaylist = originalPlaylist.duplicate(name, req.user.id);
+    duplicatedPlaylist.organization = req.workspace.organization;
     
     // Check for duplicate name
     const duplicateName = duplicatedPlaylist.name;
     const existingPlaylist = await Playlist.findOne({
-      owner: req.user.id,
+      organization: req.workspace.organization,
       name: duplicateName,
       isActive: true
     });
@@ -871,6 +1096,9 @@ const duplicatePlaylist = async (req, res) => {
     }
 
     await duplicatedPlaylist.save();
+    await PlaylistRevision.record(duplicatedPlaylist, req.user.id, {
+      summary: `Duplicated from "${originalPlaylist.name}"`
+    });
 
     winston.info('Playlist duplicated successfully:', {
       service: 'playlist',
@@ -932,10 +1160,7 @@ const addMediaToPlaylist = async (req, res) => {
     // Find playlist and verify edit permission
     const playlist = await Playlist.findOne({
       _id: id,
-      $or: [
-        { owner: req.user.id },
-        { 'collaborators.user': req.user.id, 'collaborators.permission': { $in: ['edit', 'admin'] } }
-      ],
+      ...Playlist.accessFilter(req.user.id, 'edit', req.workspace),
       isActive: true
     });
 
@@ -950,7 +1175,7 @@ const addMediaToPlaylist = async (req, res) => {
     const media = await Media.findOne({
       _id: mediaId,
       $or: [
-        { owner: req.user.id },
+        { organization: req.workspace.organization },
         { isPublic: true }
       ],
       isActive: true
@@ -976,6 +1201,7 @@ const addMediaToPlaylist = async (req, res) => {
     }
 
     // Add media to playlist
+    const previous = PlaylistRevision.capture(playlist);
     const newItem = playlist.addMediaItem(mediaId, {
       order,
       duration,
@@ -988,6 +1214,8 @@ const addMediaToPlaylist = async (req, res) => {
     newItem.metadata.addedBy = req.user.id;
 
     await playlist.save();
+    await PlaylistRevision.record(playlist, req.user.id, { previous });
+    notifyAssignedScreens(req, playlist, 'item-added');
 
     winston.info('Media added to playlist:', {
       service: 'playlist',
@@ -1049,10 +1277,7 @@ const removeMediaFromPlaylist = async (req, res) => {
     // Find playlist and verify edit permission
     const playlist = await Playlist.findOne({
       _id: id,
-      $or: [
-        { owner: req.user.id },
-        { 'collaborators.user': req.user.id, 'collaborators.permission': { $in: ['edit', 'admin'] } }
-      ],
+      ...Playlist.accessFilter(req.user.id, 'edit', req.workspace),
       isActive: true
     });
 
@@ -1079,6 +1304,7 @@ const removeMediaFromPlaylist = async (req, res) => {
 
     // Remove item from playlist
     winston.debug('Attempting to remove item:', { service: 'playlist', itemId, itemIdType: typeof itemId });
+    const previous = PlaylistRevision.capture(playlist);
     const removedItem = playlist.removeMediaItem(itemId);
     
     // Debug: Log playlist state after removal
@@ -1097,6 +1323,8 @@ const removeMediaFromPlaylist = async (req, res) => {
     
     await playlist.save();
     winston.debug('Playlist saved successfully after removal');
+    await PlaylistRevision.record(playlist, req.user.id, { previous });
+    notifyAssignedScreens(req, playlist, 'item-removed');
 
     winston.info('Media removed from playlist:', {
       service: 'playlist',
@@ -1167,15 +1395,12 @@ const reorderPlaylistItems = async (req, res) => {
       });
     }
 
-    const { itemOrder } = value;
+    const { itemOrder, version } = value;
 
     // Find playlist and verify edit permission
     const playlist = await Playlist.findOne({
       _id: id,
-      $or: [
-        { owner: req.user.id },
-        { 'collaborators.user': req.user.id, 'collaborators.permission': { $in: ['edit', 'admin'] } }
-      ],
+      ...Playlist.accessFilter(req.user.id, 'edit', req.workspace),
       isActive: true
     });
 
@@ -1186,6 +1411,10 @@ const reorderPlaylistItems = async (req, res) => {
       });
     }
 
+    if (isStaleVersion(playlist, version)) {
+      return sendVersionConflict(req, res, id, version);
+    }
+
     // Validate that all items in the order array exist in the playlist
     if (itemOrder.length !== playlist.items.length) {
       return res.status(400).json({
@@ -1195,8 +1424,19 @@ const reorderPlaylistItems = async (req, res) => {
     }
 
     // Reorder items
+    const previous = PlaylistRevision.capture(playlist);
     playlist.reorderItems(itemOrder);
-    await playlist.save();
+    playlist.$where = { version: playlist.version };
+    try {
+      await playlist.save();
+    } catch (saveError) {
+      if (saveError instanceof mongoose.Error.DocumentNotFoundError) {
+        return sendVersionConflict(req, res, id, version);
+      }
+      throw saveError;
+    }
+    await PlaylistRevision.record(playlist, req.user.id, { previous });
+    notifyAssignedScreens(req, playlist, 'reordered');
 
     winston.info('Playlist items reordered:', {
       service: 'playlist',
@@ -1212,7 +1452,8 @@ const reorderPlaylistItems = async (req, res) => {
         playlist: {
           id: playlist._id,
           name: playlist.name,
-          totalItems: playlist.totalItems
+          totalItems: playlist.totalItems,
+          version: playlist.version
         },
         newOrder: playlist.items.map(item => ({
           id: item._id,
@@ -1289,7 +1530,7 @@ const reorderPlaylistItemsUpdate = async (req, res) => {
       });
     }
 
-    const { items } = value;
+    const { items, version } = value;
 
     winston.debug('Validation passed, processing items:', {
       service: 'playlist',
@@ -1302,10 +1543,7 @@ const reorderPlaylistItemsUpdate = async (req, res) => {
     // Find playlist and verify edit permission
     const playlist = await Playlist.findOne({
       _id: id,
-      $or: [
-        { owner: req.user.id },
-        { 'collaborators.user': req.user.id, 'collaborators.permission': { $in: ['edit', 'admin'] } }
-      ],
+      ...Playlist.accessFilter(req.user.id, 'edit', req.workspace),
       isActive: true
     });
 
@@ -1321,6 +1559,12 @@ const reorderPlaylistItemsUpdate = async (req, res) => {
       });
     }
 
+    if (isStaleVersion(playlist, version)) {
+      return sendVersionConflict(req, res, id, version);
+    }
+
+    const previous = PlaylistRevision.capture(playlist);
+
     winston.debug('Playlist found, current items:', {
       service: 'playlist',
       playlistId: id,
@@ -1455,6 +1699,7 @@ const reorderPlaylistItemsUpdate = async (req, res) => {
 
     // Save the playlist with comprehensive error handling
     try {
+      playlist.$where = { version: playlist.version };
       await playlist.save();
       
       // Recalculate totals after save (this happens in pre-save hook but let's log it)
@@ -1470,6 +1715,10 @@ const reorderPlaylistItemsUpdate = async (req, res) => {
       });
 
     } catch (saveError) {
+      if (saveError instanceof mongoose.Error.DocumentNotFoundError) {
+        return sendVersionConflict(req, res, id, version);
+      }
+
       winston.error('Database save failed during reorder:', {
         service: 'playlist',
         playlistId: id,
@@ -1486,6 +1735,9 @@ const reorderPlaylistItemsUpdate = async (req, res) => {
       throw saveError;
     }
 
+    await PlaylistRevision.record(playlist, req.user.id, { previous });
+    notifyAssignedScreens(req, playlist, 'reordered');
+
     // Populate media data for response
     await playlist.populate({
       path: 'items.mediaId',
@@ -1594,15 +1846,12 @@ const assignPlaylistToScreens = async (req, res) => {
       });
     }
 
-    const { screenIds, action } = value;
+    const { groupIds, action } = value;
 
-    // Find playlist and verify ownership or admin permission
+    // The organization's playlists, or ones shared with the user as admin
     const playlist = await Playlist.findOne({
       _id: id,
-      $or: [
-        { owner: req.user.id },
-        { 'collaborators.user': req.user.id, 'collaborators.permission': 'admin' }
-      ],
+      ...Playlist.publishFilter(req.user.id, req.workspace),
       isActive: true
     });
 
@@ -1613,9 +1862,20 @@ const assignPlaylistToScreens = async (req, res) => {
       });
     }
 
-    // Note: We would need a Screen model to verify screen ownership
-    // For now, we'll assume the screens exist and user has access
-    
+    if (action === 'assign' && !playlist.canGoLive(req.workspace)) {
+      return sendApprovalRequired(res);
+    }
+
+    // Groups expand to the screens currently in them, subgroups included
+    const { screenIds, missingGroupIds } = await ScreenGroup.resolveTargets(req.workspace.organization, value);
+    if (missingGroupIds.length > 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'One or more screen groups not found or access denied',
+        errors: missingGroupIds
+      });
+    }
+
     if (action === 'assign') {
       // Add screens to playlist (avoid duplicates)
       const currentScreenIds = playlist.assignedScreens.map(id => id.toString());
@@ -1631,10 +1891,31 @@ const assignPlaylistToScreens = async (req, res) => {
     playlist.lastModified = new Date();
     await playlist.save();
 
+    // Keep the screen side of the relationship in sync and tell their players
+    const screens = await Screen.find({ _id: { $in: screenIds }, organization: req.workspace.organization, isActive: true });
+    const screenIo = req.app.get('screenIo');
+
+    for (const screen of screens) {
+      if (action === 'assign') {
+        await screen.assignPlaylist(playlist._id, playlist.settings?.priority);
+      } else {
+        await screen.removePlaylist(playlist._id);
+      }
+
+      if (screenIo) {
+        screenIo.to(`screen:${screen._id}`).emit('playlist:assignment:changed', {
+          playlistId: playlist._id.toString(),
+          action: `${action}ed`,
+          timestamp: new Date().toISOString()
+        });
+      }
+    }
+
     winston.info(`Playlist ${action}ed to screens:`, {
       service: 'playlist',
       playlistId: id,
       screenIds,
+      groupIds,
       action,
       userId: req.user.id
     });
@@ -1649,7 +1930,8 @@ const assignPlaylistToScreens = async (req, res) => {
           assignedScreens: playlist.assignedScreens
         },
         action,
-        screenIds
+        screenIds,
+        groupIds
       }
     });
 
@@ -1688,11 +1970,7 @@ const getPlaylistAssignments = async (req, res) => {
     // Find playlist and verify access
     const playlist = await Playlist.findOne({
       _id: id,
-      $or: [
-        { owner: req.user.id },
-        { 'collaborators.user': req.user.id },
-        { isPublic: true }
-      ],
+      ...Playlist.accessFilter(req.user.id, 'view', req.workspace),
       isActive: true
     }).populate('assignedScreens', 'name location status lastSeen');
 
@@ -1760,11 +2038,7 @@ const getPlaylistStats = async (req, res) => {
     // Find playlist and verify access
     const playlist = await Playlist.findOne({
       _id: id,
-      $or: [
-        { owner: req.user.id },
-        { 'collaborators.user': req.user.id },
-        { isPublic: true }
-      ],
+      ...Playlist.accessFilter(req.user.id, 'view', req.workspace),
       isActive: true
     });
 
@@ -1821,18 +2095,1324 @@ const getPlaylistStats = async (req, res) => {
   }
 };
 
-module.exports = {
-  createPlaylist,
-  getPlaylists,
-  getPlaylistById,
-  updatePlaylist,
-  deletePlaylist,
-  duplicatePlaylist,
-  addMediaToPlaylist,
-  removeMediaFromPlaylist,
-  reorderPlaylistItems,
-  reorderPlaylistItemsUpdate,
-  assignPlaylistToScreens,
-  getPlaylistAssignments,
-  getPlaylistStats
-};
\ No newline at end of file
+// Media fields shown next to items in revision snapshots and diffs
+const REVISION_MEDIA_FIELDS = 'originalName url secureUrl type duration videoDuration format';
+
+/**
+ * Find a playlist the user may view, for reading its history
+ */
+const findViewablePlaylist = (req) => Playlist.findOne({
+  _id: req.params.id,
+  ...Playlist.accessFilter(req.user.id, 'view', req.workspace),
+  isActive: true
+});
+
+/**
+ * List revision metadata, without snapshots
+ */
+const formatRevision = (revision) => ({
+  id: revision._id,
+  version: revision.version,
+  author: revision.author,
+  summary: revision.summary,
+  restoredFrom: revision.restoredFrom,
+  createdAt: revision.createdAt
+});
+
+/**
+ * Get a playlist's revision history, newest first
+ * @route GET /api/playlists/:id/revisions
+ * @access Private
+ */
+const getPlaylistRevisions = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid playlist ID'
+      });
+    }
+
+    const { error, value } = revisionQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const playlist = await findViewablePlaylist(req);
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or access denied'
+      });
+    }
+
+    const { page, limit } = value;
+    const [revisions, total] = await Promise.all([
+      PlaylistRevision.find({ playlist: id })
+        .select('-snapshot')
+        .sort({ version: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('author', 'name email'),
+      PlaylistRevision.countDocuments({ playlist: id })
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Playlist revisions retrieved successfully',
+      data: {
+        currentVersion: playlist.version,
+        revisions: revisions.map(formatRevision),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to get playlist revisions:', {
+      service: 'playlist',
+      playlistId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get playlist revisions',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get one revision with its full snapshot
+ * @route GET /api/playlists/:id/revisions/:version
+ * @access Private
+ */
+const getPlaylistRevision = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const version = Number(req.params.version);
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !Number.isInteger(version)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid playlist ID or version'
+      });
+    }
+
+    const playlist = await findViewablePlaylist(req);
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or access denied'
+      });
+    }
+
+    const revision = await PlaylistRevision.findOne({ playlist: id, version })
+      .populate('author', 'name email')
+      .populate('snapshot.items.mediaId', REVISION_MEDIA_FIELDS);
+
+    if (!revision) {
+      return res.status(404).json({
+        success: false,
+        message: 'Revision not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Playlist revision retrieved successfully',
+      data: {
+        ...formatRevision(revision),
+        snapshot: revision.snapshot
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to get playlist revision:', {
+      service: 'playlist',
+      playlistId: req.params.id,
+      version: req.params.version,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get playlist revision',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Compare two revisions of a playlist
+ * @route GET /api/playlists/:id/revisions/compare
+ * @access Private
+ */
+const comparePlaylistRevisions = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid playlist ID'
+      });
+    }
+
+    const { error, value } = compareRevisionsSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const playlist = await findViewablePlaylist(req);
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or access denied'
+      });
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([
+      PlaylistRevision.findOne({ playlist: id, version: value.from }).populate('author', 'name email'),
+      value.to
+        ? PlaylistRevision.findOne({ playlist: id, version: value.to }).populate('author', 'name email')
+        : PlaylistRevision.findOne({ playlist: id }).sort({ version: -1 }).populate('author', 'name email')
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      return res.status(404).json({
+        success: false,
+        message: 'Revision not found'
+      });
+    }
+
+    const fromSnapshot = fromRevision.toObject().snapshot;
+    const toSnapshot = toRevision.toObject().snapshot;
+    const diff = diffSnapshots(fromSnapshot, toSnapshot);
+
+    // Names for every media item the diff mentions, including deleted media
+    const mediaIds = [...new Set([...fromSnapshot.items, ...toSnapshot.items].map(item => item.mediaId.toString()))];
+    const media = await Media.find({ _id: { $in: mediaIds } }).select(REVISION_MEDIA_FIELDS);
+
+    res.json({
+      success: true,
+      message: 'Playlist revisions compared successfully',
+      data: {
+        from: formatRevision(fromRevision),
+        to: formatRevision(toRevision),
+        summary: summarizeDiff(diff),
+        diff,
+        media: Object.fromEntries(media.map(item => [item._id.toString(), item]))
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to compare playlist revisions:', {
+      service: 'playlist',
+      playlistId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to compare playlist revisions',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Restore a revision's content. The restored content is saved as a new
+ * revision, so the restore itself can be undone from the history
+ * @route POST /api/playlists/:id/revisions/:version/restore
+ * @access Private
+ */
+const restorePlaylistRevision = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const restoreVersion = Number(req.params.version);
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !Number.isInteger(restoreVersion)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid playlist ID or version'
+      });
+    }
+
+    const { error, value } = restoreRevisionSchema.validate(req.body || {});
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const playlist = await Playlist.findOne({
+      _id: id,
+      ...Playlist.accessFilter(req.user.id, 'edit', req.workspace),
+      isActive: true
+    });
+
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or insufficient permissions'
+      });
+    }
+
+    if (isStaleVersion(playlist, value.version)) {
+      return sendVersionConflict(req, res, id, value.version);
+    }
+
+    const revision = await PlaylistRevision.findOne({ playlist: id, version: restoreVersion });
+    if (!revision) {
+      return res.status(404).json({
+        success: false,
+        message: 'Revision not found'
+      });
+    }
+
+    const snapshot = revision.toObject().snapshot;
+
+    if (snapshot.name !== playlist.name) {
+      const existingPlaylist = await Playlist.findOne({
+        organization: playlist.organization,
+        name: snapshot.name,
+        isActive: true,
+        _id: { $ne: id }
+      });
+
+      if (existingPlaylist) {
+        return res.status(409).json({
+          success: false,
+          message: `Another playlist is now called "${snapshot.name}". Rename it before restoring this version`
+        });
+      }
+    }
+
+    // Media deleted since the revision was saved cannot come back
+    const availableMedia = await Media.find({
+      _id: { $in: snapshot.items.map(item => item.mediaId) },
+      isActive: true
+    }).select('_id');
+    const availableIds = new Set(availableMedia.map(media => media._id.toString()));
+    const restoredItems = snapshot.items.filter(item => availableIds.has(item.mediaId.toString()));
+
+    const previous = PlaylistRevision.capture(playlist);
+
+    playlist.name = snapshot.name;
+    playlist.description = snapshot.description;
+    playlist.isPublic = snapshot.isPublic;
+    playlist.tags = snapshot.tags;
+    // Revisions saved before a setting existed leave it as it is
+    Object.entries(snapshot.settings || {}).forEach(([key, setting]) => {
+      if (setting !== undefined) {
+        playlist.settings[key] = setting;
+      }
+    });
+    playlist.schedule = snapshot.schedule;
+    playlist.replaceItems(restoredItems.map(item => ({
+      id: item.itemId,
+      mediaId: item.mediaId,
+      duration: item.duration,
+      transitions: item.transitions,
+      conditions: item.conditions,
+      notes: item.notes
+    })), req.user.id);
+    playlist.lastModified = new Date();
+
+    playlist.$where = { version: playlist.version };
+    try {
+      await playlist.save();
+    } catch (saveError) {
+      if (saveError instanceof mongoose.Error.DocumentNotFoundError) {
+        return sendVersionConflict(req, res, id, value.version);
+      }
+      throw saveError;
+    }
+
+    await PlaylistRevision.record(playlist, req.user.id, { previous, restoredFrom: restoreVersion });
+    notifyAssignedScreens(req, playlist, 'updated');
+
+    const skippedItems = snapshot.items.length - restoredItems.length;
+
+    winston.info('Playlist revision restored:', {
+      service: 'playlist',
+      playlistId: id,
+      userId: req.user.id,
+      restoredFrom: restoreVersion,
+      newVersion: playlist.version,
+      skippedItems
+    });
+
+    await playlist.populate('owner', 'name email');
+    await playlist.populate('assignedScreens', 'name location status');
+    await playlist.populate({
+      path: 'items.mediaId',
+      model: 'Media',
+      select: 'originalName url secureUrl type duration videoDuration fileSize format'
+    });
+
+    res.json({
+      success: true,
+      message: skippedItems > 0
+        ? `Restored version ${restoreVersion}; ${skippedItems} item${skippedItems === 1 ? '' : 's'} with deleted media left out`
+        : `Restored version ${restoreVersion}`,
+      data: playlist,
+      skippedItems
+    });
+
+  } catch (error) {
+    winston.error('Failed to restore playlist revision:', {
+      service: 'playlist',
+      playlistId: req.params.id,
+      version: req.params.version,
+      userId: req.user?.id,
+      error: error.message,
+      stack: error.stack
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to restore playlist revision',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// ============================
+// Collaborators
+// ============================
+
+/**
+ * Owner and collaborators of a playlist, with the caller's own permission
+ */
+const formatSharing = (playlist, userId, workspace) => ({
+  owner: playlist.owner,
+  collaborators: playlist.collaborators.map(collaborator => ({
+    user: collaborator.user,
+    permission: collaborator.permission,
+    addedAt: collaborator.addedAt
+  })),
+  permission: playlist.getPermission(userId, workspace)
+});
+
+/**
+ * Reload a playlist with its owner and collaborators populated
+ */
+const findSharing = (id) => Playlist.findById(id)
+  .populate('owner', 'name email')
+  .populate('collaborators.user', 'name email');
+
+/**
+ * Bring a collaborator's open sockets in line with their new permission on a
+ * playlist: drop them from its room when they lost access, and tell their
+ * dashboards so the editor can switch to or from read-only
+ */
+const syncCollaboratorSockets = async (req, playlist, userId) => {
+  const io = req.app.get('io');
+  if (!io) return;
+
+  const playlistId = playlist._id.toString();
+  const permission = playlist.getPermission(userId, await getWorkspace(playlist.organization, userId));
+
+  try {
+    const sockets = await io.in(`user:${userId}`).fetchSockets();
+    let presenceChanged = false;
+    sockets.forEach(socket => {
+      if (socket.data.playlistPermissions) {
+        socket.data.playlistPermissions[playlistId] = permission;
+      }
+      if (!permission) {
+        socket.leave(`playlist:${playlistId}`);
+        presenceChanged = playlistPresence.leavePresence(playlistId, socket.id) || presenceChanged;
+      } else if (!Playlist.permits(permission, 'edit')) {
+        // Viewers cannot hold item locks
+        presenceChanged = playlistPresence.releaseSocketLocks(playlistId, socket.id) || presenceChanged;
+      }
+    });
+
+    if (presenceChanged) {
+      io.to(`playlist:${playlistId}`).emit('playlist:presence', playlistPresence.getPresenceSnapshot(playlistId));
+    }
+  } catch (error) {
+    winston.warn('Failed to update collaborator sockets:', {
+      service: 'playlist',
+      playlistId,
+      collaboratorId: userId,
+      error: error.message
+    });
+  }
+
+  io.to(`user:${userId}`).emit('playlist:permission:changed', {
+    playlistId,
+    permission,
+    changedBy: req.user.id,
+    timestamp: new Date().toISOString()
+  });
+};
+
+/**
+ * Get a playlist's owner and collaborators
+ * @route GET /api/playlists/:id/collaborators
+ * @access Private (owner, collaborator, or public)
+ */
+const getPlaylistCollaborators = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid playlist ID'
+      });
+    }
+
+    const playlist = await findViewablePlaylist(req)
+      .populate('owner', 'name email')
+      .populate('collaborators.user', 'name email');
+
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or access denied'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Collaborators retrieved successfully',
+      data: formatSharing(playlist, req.user.id, req.workspace)
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve playlist collaborators:', {
+      service: 'playlist',
+      playlistId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve collaborators',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Share a playlist with a user by email
+ * @route POST /api/playlists/:id/collaborators
+ * @access Private (owner or admin collaborator)
+ */
+const addPlaylistCollaborator = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid playlist ID'
+      });
+    }
+
+    const { error, value } = addCollaboratorSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { email, permission } = value;
+
+    const playlist = await Playlist.findOne({
+      _id: id,
+      ...Playlist.accessFilter(req.user.id, 'admin', req.workspace),
+      isActive: true
+    });
+
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or insufficient permissions'
+      });
+    }
+
+    if (permission === 'admin' && playlist.getPermission(req.user.id, req.workspace) !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the playlist owner can grant admin permission'
+      });
+    }
+
+    const user = await User.findOne({ email, isActive: true });
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'No user found with that email'
+      });
+    }
+
+    const userId = user._id.toString();
+    if (playlist.owner.toString() === userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'The playlist owner already has full access'
+      });
+    }
+
+    // Sharing is not a content change, so it is written directly and leaves
+    // the playlist version alone; open editors are not sent into a conflict
+    const updated = await Playlist.findOneAndUpdate(
+      { _id: id, 'collaborators.user': { $ne: user._id } },
+      { $push: { collaborators: { user: user._id, permission, addedAt: new Date() } } },
+      { new: true }
+    );
+
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        message: 'This user is already a collaborator'
+      });
+    }
+
+    await syncCollaboratorSockets(req, updated, userId);
+
+    winston.info('Playlist collaborator added:', {
+      service: 'playlist',
+      playlistId: id,
+      collaboratorId: userId,
+      permission,
+      userId: req.user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Playlist shared with ${user.email}`,
+      data: formatSharing(await findSharing(id), req.user.id, req.workspace)
+    });
+
+  } catch (error) {
+    winston.error('Failed to add playlist collaborator:', {
+      service: 'playlist',
+      playlistId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add collaborator',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Change a collaborator's permission
+ * @route PUT /api/playlists/:id/collaborators/:userId
+ * @access Private (owner or admin collaborator)
+ */
+const updatePlaylistCollaborator = async (req, res) => {
+  try {
+    const { id, userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid playlist or user ID'
+      });
+    }
+
+    const { error, value } = updateCollaboratorSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const playlist = await Playlist.findOne({
+      _id: id,
+      ...Playlist.accessFilter(req.user.id, 'admin', req.workspace),
+      isActive: true
+    });
+
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or insufficient permissions'
+      });
+    }
+
+    const current = playlist.collaborators.find(collaborator => collaborator.user.toString() === userId);
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        message: 'Collaborator not found'
+      });
+    }
+
+    // Admin collaborators manage view and edit access; only the owner manages admins
+    if ((value.permission === 'admin' || current.permission === 'admin') &&
+        playlist.getPermission(req.user.id, req.workspace) !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the playlist owner can change admin permission'
+      });
+    }
+
+    const updated = await Playlist.findOneAndUpdate(
+      { _id: id, 'collaborators.user': userId },
+      { $set: { 'collaborators.$.permission': value.permission } },
+      { new: true }
+    );
+
+    await syncCollaboratorSockets(req, updated, userId);
+
+    winston.info('Playlist collaborator permission changed:', {
+      service: 'playlist',
+      playlistId: id,
+      collaboratorId: userId,
+      from: current.permission,
+      to: value.permission,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Collaborator permission updated',
+      data: formatSharing(await findSharing(id), req.user.id, req.workspace)
+    });
+
+  } catch (error) {
+    winston.error('Failed to update playlist collaborator:', {
+      service: 'playlist',
+      playlistId: req.params.id,
+      collaboratorId: req.params.userId,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update collaborator',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Stop sharing a playlist with a collaborator. Collaborators may also remove
+ * themselves to leave a playlist
+ * @route DELETE /api/playlists/:id/collaborators/:userId
+ * @access Private (owner, admin collaborator, or the collaborator themselves)
+ */
+const removePlaylistCollaborator = async (req, res) => {
+  try {
+    const { id, userId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid playlist or user ID'
+      });
+    }
+
+    const isLeaving = userId === req.user.id;
+    const playlist = await Playlist.findOne({
+      _id: id,
+      ...Playlist.accessFilter(req.user.id, isLeaving ? 'view' : 'admin', req.workspace),
+      isActive: true
+    });
+
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or insufficient permissions'
+      });
+    }
+
+    const current = playlist.collaborators.find(collaborator => collaborator.user.toString() === userId);
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        message: 'Collaborator not found'
+      });
+    }
+
+    if (!isLeaving && current.permission === 'admin' && playlist.getPermission(req.user.id, req.workspace) !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the playlist owner can remove an admin'
+      });
+    }
+
+    const updated = await Playlist.findByIdAndUpdate(
+      id,
+      { $pull: { collaborators: { user: userId } } },
+      { new: true }
+    );
+
+    await syncCollaboratorSockets(req, updated, userId);
+
+    winston.info('Playlist collaborator removed:', {
+      service: 'playlist',
+      playlistId: id,
+      collaboratorId: userId,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: isLeaving ? 'You left the playlist' : 'Collaborator removed',
+      data: formatSharing(await findSharing(id), req.user.id, req.workspace)
+    });
+
+  } catch (error) {
+    winston.error('Failed to remove playlist collaborator:', {
+      service: 'playlist',
+      playlistId: req.params.id,
+      collaboratorId: req.params.userId,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove collaborator',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+// ============================
+// Approval
+// ============================
+
+const APPROVAL_USER_FIELDS = 'name email';
+
+/**
+ * Populate the people named in a playlist's approval state
+ */
+const populateApproval = (query) => query
+  .populate('approval.submittedBy', APPROVAL_USER_FIELDS)
+  .populate('approval.reviewedBy', APPROVAL_USER_FIELDS)
+  .populate('approval.publishedBy', APPROVAL_USER_FIELDS)
+  .populate('approval.comments.author', APPROVAL_USER_FIELDS);
+
+/**
+ * A playlist's approval state and review thread, oldest comment first
+ */
+const formatApproval = (playlist) => {
+  const approval = playlist.approval || {};
+
+  return {
+    playlistId: playlist._id,
+    name: playlist.name,
+    version: playlist.version,
+    status: approval.status || 'draft',
+    submittedVersion: approval.submittedVersion ?? null,
+    submittedBy: approval.submittedBy || null,
+    submittedAt: approval.submittedAt || null,
+    reviewedBy: approval.reviewedBy || null,
+    reviewedAt: approval.reviewedAt || null,
+    approvedVersion: approval.approvedVersion ?? null,
+    publishedVersion: approval.publishedVersion ?? null,
+    publishedBy: approval.publishedBy || null,
+    publishedAt: approval.publishedAt || null,
+    comments: (approval.comments || []).map(comment => ({
+      id: comment._id,
+      author: comment.author,
+      action: comment.action,
+      body: comment.body || '',
+      version: comment.version,
+      createdAt: comment.createdAt
+    }))
+  };
+};
+
+/**
+ * Tell the organization's dashboards a playlist moved through review, so
+ * review queues and editors refresh
+ */
+const notifyApprovalChanged = (req, playlist, action) => {
+  const io = req.app.get('io');
+  if (!io) return;
+
+  io.to(organizationRoom(playlist.organization)).emit('playlist:approval:changed', {
+    playlistId: playlist._id.toString(),
+    name: playlist.name,
+    status: playlist.approval.status,
+    action,
+    userId: req.user.id,
+    timestamp: new Date().toISOString()
+  });
+};
+
+// How each review step moves a playlist, and what it records
+const APPROVAL_TRANSITIONS = {
+  submit: {
+    from: ['draft'],
+    to: 'submitted',
+    done: 'submitted for approval',
+    // Only editors submit; reviewers and publishers act on the organization's playlists
+    filter: (req) => Playlist.accessFilter(req.user.id, 'edit', req.workspace),
+    apply: (playlist, userId, now) => ({
+      'approval.submittedVersion': playlist.version,
+      'approval.submittedBy': userId,
+      'approval.submittedAt': now
+    })
+  },
+  approve: {
+    from: ['submitted'],
+    to: 'approved',
+    done: 'approved',
+    filter: (req) => ({ organization: req.workspace.organization }),
+    apply: (playlist, userId, now) => ({
+      'approval.approvedVersion': playlist.approval.submittedVersion,
+      'approval.reviewedBy': userId,
+      'approval.reviewedAt': now
+    })
+  },
+  reject: {
+    from: ['submitted'],
+    to: 'draft',
+    done: 'returned to draft',
+    filter: (req) => ({ organization: req.workspace.organization }),
+    apply: (playlist, userId, now) => ({
+      'approval.reviewedBy': userId,
+      'approval.reviewedAt': now
+    })
+  },
+  publish: {
+    from: ['approved'],
+    to: 'published',
+    done: 'published',
+    filter: (req) => Playlist.publishFilter(req.user.id, req.workspace),
+    apply: (playlist, userId, now) => ({
+      'approval.publishedVersion': playlist.approval.approvedVersion,
+      'approval.publishedBy': userId,
+      'approval.publishedAt': now
+    })
+  }
+};
+
+/**
+ * Build the handler for one review step. The step applies only if the
+ * playlist is still in the state it was loaded in, so an edit or another
+ * reviewer acting at the same time gets 409 instead of being overwritten.
+ * Review steps do not change content, so they leave the version alone
+ * @param {string} action - Key of APPROVAL_TRANSITIONS
+ */
+const changeApprovalStatus = (action) => async (req, res) => {
+  const transition = APPROVAL_TRANSITIONS[action];
+
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid playlist ID'
+      });
+    }
+
+    const { error, value } = (action === 'reject' ? rejectApprovalSchema : approvalActionSchema).validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    if (!req.workspace.requireApproval) {
+      return res.status(400).json({
+        success: false,
+        message: 'This organization does not require approval for playlists'
+      });
+    }
+
+    const playlist = await Playlist.findOne({
+      _id: id,
+      ...transition.filter(req),
+      isActive: true
+    });
+
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or insufficient permissions'
+      });
+    }
+
+    const status = playlist.approval?.status || 'draft';
+    if (!transition.from.includes(status)) {
+      return res.status(409).json({
+        success: false,
+        code: 'INVALID_APPROVAL_STATUS',
+        message: `A ${status} playlist cannot be ${transition.done}`,
+        data: { status }
+      });
+    }
+
+    // Four eyes: someone else signs off, unless an owner or admin approves
+    if (action === 'approve' &&
+        playlist.approval.submittedBy?.toString() === req.user.id.toString() &&
+        !FIXED_ROLES.includes(req.workspace.role)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Someone else must approve a playlist you submitted'
+      });
+    }
+
+    // Make sure the submitted content can be played back later, even for
+    // playlists last saved before revision history existed
+    if (action === 'submit') {
+      await PlaylistRevision.record(playlist, req.user.id, { summary: 'Submitted for approval' });
+    }
+
+    const now = new Date();
+    const updated = await populateApproval(Playlist.findOneAndUpdate(
+      { _id: playlist._id, version: playlist.version, 'approval.status': status },
+      {
+        $set: {
+          'approval.status': transition.to,
+          ...transition.apply(playlist, req.user.id, now)
+        },
+        $push: {
+          'approval.comments': {
+            author: req.user.id,
+            action,
+            body: value.comment || '',
+            version: playlist.version,
+            createdAt: now
+          }
+        }
+      },
+      { new: true, runValidators: true }
+    ));
+
+    if (!updated) {
+      return res.status(409).json({
+        success: false,
+        code: 'APPROVAL_CONFLICT',
+        message: 'Playlist was changed while you were reviewing it. Reload it and try again'
+      });
+    }
+
+    // Screens already showing the playlist move to the newly published content
+    if (action === 'publish') {
+      notifyAssignedScreens(req, updated, 'updated');
+    }
+    notifyApprovalChanged(req, updated, action);
+
+    winston.info('Playlist approval changed:', {
+      service: 'playlist',
+      playlistId: id,
+      userId: req.user.id,
+      action,
+      from: status,
+      to: transition.to,
+      version: updated.version
+    });
+
+    res.json({
+      success: true,
+      message: `Playlist ${transition.done}`,
+      data: {
+        approval: formatApproval(updated)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to change playlist approval:', {
+      service: 'playlist',
+      playlistId: req.params.id,
+      userId: req.user?.id,
+      action,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update playlist approval',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Submit a playlist's current content for approval
+ * @route POST /api/playlists/:id/approval/submit
+ * @access Private (playlist:edit and edit access to the playlist)
+ */
+const submitPlaylistForApproval = changeApprovalStatus('submit');
+
+/**
+ * Approve a submitted playlist
+ * @route POST /api/playlists/:id/approval/approve
+ * @access Private (playlist:approve; not the submitter unless owner or admin)
+ */
+const approvePlaylist = changeApprovalStatus('approve');
+
+/**
+ * Return a submitted playlist to draft with the changes it needs
+ * @route POST /api/playlists/:id/approval/reject
+ * @access Private (playlist:approve)
+ */
+const rejectPlaylist = changeApprovalStatus('reject');
+
+/**
+ * Put a playlist's approved content on its screens
+ * @route POST /api/playlists/:id/approval/publish
+ * @access Private (playlist:publish)
+ */
+const publishPlaylist = changeApprovalStatus('publish');
+
+/**
+ * Get a playlist's approval state and review comments
+ * @route GET /api/playlists/:id/approval
+ * @access Private
+ */
+const getPlaylistApproval = async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid playlist ID'
+      });
+    }
+
+    const playlist = await populateApproval(findViewablePlaylist(req));
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or access denied'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Playlist approval retrieved successfully',
+      data: {
+        approval: formatApproval(playlist)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to get playlist approval:', {
+      service: 'playlist',
+      playlistId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get playlist approval',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Comment on a playlist's review without changing its status
+ * @route POST /api/playlists/:id/approval/comments
+ * @access Private
+ */
+const addPlaylistApprovalComment = async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid playlist ID'
+      });
+    }
+
+    const { error, value } = addApprovalCommentSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const playlist = await findViewablePlaylist(req);
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or access denied'
+      });
+    }
+
+    // Pushed directly so commenting does not count as an edit
+    const updated = await populateApproval(Playlist.findByIdAndUpdate(
+      playlist._id,
+      {
+        $push: {
+          'approval.comments': {
+            author: req.user.id,
+            action: 'comment',
+            body: value.comment,
+            version: playlist.version,
+            createdAt: new Date()
+          }
+        }
+      },
+      { new: true, runValidators: true }
+    ));
+
+    notifyApprovalChanged(req, updated, 'comment');
+
+    res.status(201).json({
+      success: true,
+      message: 'Comment added successfully',
+      data: {
+        approval: formatApproval(updated)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to add playlist approval comment:', {
+      service: 'playlist',
+      playlistId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add comment',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get the organization's playlists at one approval status, submitted ones
+ * by default, longest waiting first
+ * @route GET /api/playlists/approvals
+ * @access Private (playlist:approve)
+ * @query status, page, limit
+ */
+const getApprovalQueue = async (req, res) => {
+  try {
+    const { error, value } = approvalQueueSchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { status, page, limit } = value;
+    const query = {
+      organization: req.workspace.organization,
+      isActive: true,
+      'approval.status': status
+    };
+
+    const [playlists, total] = await Promise.all([
+      populateApproval(Playlist.find(query))
+        .select('name description owner totalItems totalDuration version approval assignedScreens')
+        .populate('owner', 'name email')
+        .sort({ 'approval.submittedAt': 1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Playlist.countDocuments(query)
+    ]);
+
+    res.json({
+      success: true,
+      message: 'Approval queue retrieved successfully',
+      data: {
+        playlists: playlists.map(playlist => ({
+          ...formatApproval(playlist),
+          description: playlist.description,
+          owner: playlist.owner,
+          totalItems: playlist.totalItems,
+          totalDuration: playlist.totalDuration,
+          assignedScreenCount: playlist.assignedScreens.length
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to get approval queue:', {
+      service: 'playlist',
+      organizationId: req.workspace?.organization,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get approval queue',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+module.exports = {
+  createPlaylist,
+  getPlaylists,
+  getPlaylistById,
+  updatePlaylist,
+  deletePlaylist,
+  duplicatePlaylist,
+  addMediaToPlaylist,
+  removeMediaFromPlaylist,
+  reorderPlaylistItems,
+  reorderPlaylistItemsUpdate,
+  assignPlaylistToScreens,
+  getPlaylistAssignments,
+  getPlaylistStats,
+  getPlaylistRevisions,
+  getPlaylistRevision,
+  comparePlaylistRevisions,
+  restorePlaylistRevision,
+  getPlaylistCollaborators,
+  addPlaylistCollaborator,
+  updatePlaylistCollaborator,
+  removePlaylistCollaborator,
+  submitPlaylistForApproval,
+  approvePlaylist,
+  rejectPlaylist,
+  publishPlaylist,
+  getPlaylistApproval,
+  addPlaylistApprovalComment,
+  getApprovalQueue
+};
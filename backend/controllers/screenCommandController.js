@@ -0,0 +1,373 @@
+const Joi = require('joi');
+const Screen = require('../models/screenModel');
+const ScreenCommand = require('../models/screenCommandModel');
+const ScreenGroup = require('../models/screenGroupModel');
+const winston = require('winston');
+const mongoose = require('mongoose');
+const { emitCommandUpdate, isScreenConnected } = require('../sockets/screenNamespace');
+
+/**
+ * Screen Command Controller
+ * Sends remote commands (restart, reload, screenshot, volume, brightness) to
+ * displays over the screen socket and tracks each one until the device
+ * acknowledges it, reports a failure or times out
+ */
+
+// Validation schemas
+const commandFields = {
+  type: Joi.string().valid('restart', 'reload', 'screenshot', 'set-volume', 'set-brightness').required(),
+  params: Joi.object({
+    value: Joi.number().integer().min(0).max(100).required()
+  }).when('type', {
+    is: Joi.valid('set-volume', 'set-brightness'),
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  })
+};
+
+const sendCommandSchema = Joi.object(commandFields);
+
+const bulkCommandSchema = Joi.object({
+  ...commandFields,
+  screenIds: Joi.array().items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/)).default([]),
+  groupIds: Joi.array().items(Joi.string().pattern(/^[0-9a-fA-F]{24}$/)).default([])
+}).custom((value, helpers) => (
+  value.screenIds.length + value.groupIds.length > 0 ? value : helpers.message('At least one screen or group is required')
+));
+
+const commandQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(50).default(20)
+});
+
+// Settings commands persist to the screen so the value survives a player restart
+const PERSISTED_SETTINGS = {
+  'set-volume': 'settings.volume',
+  'set-brightness': 'display.brightness'
+};
+
+/**
+ * Find an active screen in the requesting user's organization
+ */
+const findOwnedScreen = (req) => Screen.findOne({
+  _id: req.params.id,
+  organization: req.workspace.organization,
+  isActive: true
+});
+
+/**
+ * Create a command for a screen and deliver it if the screen is connected.
+ * Volume and brightness are saved to the screen either way
+ * @returns {Promise<Object>} The ScreenCommand document
+ */
+const issueCommand = async (req, screen, { type, params }) => {
+  const settingPath = PERSISTED_SETTINGS[type];
+  if (settingPath) {
+    screen.set(settingPath, params.value);
+    await screen.save();
+  }
+
+  const now = new Date();
+  const command = new ScreenCommand({
+    screen: screen._id,
+    owner: screen.owner,
+    organization: screen.organization,
+    issuedBy: req.user.id,
+    type,
+    params,
+    timeoutAt: new Date(now.getTime() + ScreenCommand.getTimeout(type))
+  });
+
+  const screenIo = req.app.get('screenIo');
+  if (screenIo && isScreenConnected(screenIo, screen._id)) {
+    command.sentAt = now;
+    await command.save();
+    screenIo.to(`screen:${screen._id}`).emit('command', command.toDeviceCommand());
+  } else {
+    // Settings are already saved and will be applied when the player next loads its session
+    command.status = 'failed';
+    command.error = 'Screen is not connected';
+    command.respondedAt = now;
+    await command.save();
+  }
+
+  await command.populate('issuedBy', 'name email');
+
+  // Keep other dashboards in sync, including the new setting value
+  const io = req.app.get('io');
+  if (io) {
+    emitCommandUpdate(io, command);
+  }
+
+  return command;
+};
+
+/**
+ * Send a remote command to a screen
+ * @route POST /api/screens/:id/commands
+ * @access Private
+ */
+const sendScreenCommand = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid screen ID'
+      });
+    }
+
+    const { error, value } = sendCommandSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const screen = await findOwnedScreen(req);
+    if (!screen) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen not found or access denied'
+      });
+    }
+
+    const command = await issueCommand(req, screen, value);
+    const settingPath = PERSISTED_SETTINGS[value.type];
+
+    winston.info('Screen command issued:', {
+      service: 'screen',
+      screenId: screen._id,
+      commandId: command._id,
+      type: command.type,
+      status: command.status,
+      userId: req.user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: command.status === 'pending'
+        ? 'Command sent to screen'
+        : settingPath
+          ? 'Setting saved; it will be applied when the screen reconnects'
+          : 'Screen is not connected',
+      data: {
+        command,
+        screen: settingPath ? screen : undefined
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to send screen command:', {
+      service: 'screen',
+      screenId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send screen command',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Send the same remote command to many screens, listed directly or through groups
+ * @route POST /api/screens/commands
+ * @access Private
+ */
+const sendBulkScreenCommand = async (req, res) => {
+  try {
+    const { error, value } = bulkCommandSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { screenIds, missingGroupIds } = await ScreenGroup.resolveTargets(req.workspace.organization, value);
+    if (missingGroupIds.length > 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'One or more screen groups not found or access denied',
+        errors: missingGroupIds
+      });
+    }
+
+    const screens = await Screen.find({ _id: { $in: screenIds }, organization: req.workspace.organization, isActive: true });
+    if (screens.length !== screenIds.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'One or more screens not found or access denied'
+      });
+    }
+
+    const commands = [];
+    for (const screen of screens) {
+      commands.push(await issueCommand(req, screen, value));
+    }
+
+    const sent = commands.filter(command => command.status === 'pending').length;
+
+    winston.info('Bulk screen command issued:', {
+      service: 'screen',
+      type: value.type,
+      groupIds: value.groupIds,
+      screenCount: screens.length,
+      sent,
+      userId: req.user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Command sent to ${sent} of ${screens.length} screens`,
+      data: {
+        commands,
+        summary: {
+          total: screens.length,
+          sent,
+          notConnected: screens.length - sent
+        }
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to send bulk screen command:', {
+      service: 'screen',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send bulk screen command',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get recent commands sent to a screen
+ * @route GET /api/screens/:id/commands
+ * @access Private
+ */
+const getScreenCommands = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid screen ID'
+      });
+    }
+
+    const { error, value } = commandQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid query parameters',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const screen = await findOwnedScreen(req);
+    if (!screen) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen not found or access denied'
+      });
+    }
+
+    const commands = await ScreenCommand.findRecentForScreen(screen._id, value.limit);
+
+    res.json({
+      success: true,
+      message: 'Screen commands retrieved successfully',
+      data: {
+        commands
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve screen commands:', {
+      service: 'screen',
+      screenId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve screen commands',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get a single command, including its result
+ * @route GET /api/screens/:id/commands/:commandId
+ * @access Private
+ */
+const getScreenCommand = async (req, res) => {
+  try {
+    const { id, commandId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(commandId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid screen or command ID'
+      });
+    }
+
+    const command = await ScreenCommand.findOne({
+      _id: commandId,
+      screen: id,
+      organization: req.workspace.organization
+    }).populate('issuedBy', 'name email');
+
+    if (!command) {
+      return res.status(404).json({
+        success: false,
+        message: 'Command not found or access denied'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Screen command retrieved successfully',
+      data: {
+        command
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve screen command:', {
+      service: 'screen',
+      screenId: req.params.id,
+      commandId: req.params.commandId,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve screen command',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+module.exports = {
+  sendScreenCommand,
+  sendBulkScreenCommand,
+  getScreenCommands,
+  getScreenCommand
+};
@@ -0,0 +1,1085 @@
+const Joi = require('joi');
+const Screen = require('../models/screenModel');
+const Playlist = require('../models/playlistModel');
+const ScreenGroup = require('../models/screenGroupModel');
+const winston = require('winston');
+const mongoose = require('mongoose');
+const { getZonedTime, getScreenTimezone } = require('../utils/scheduleUtils');
+const { organizationRoom } = require('../utils/organizationUtils');
+
+/**
+ * Screen Controller
+ * Manages digital signage display registration, configuration,
+ * filtering, statistics and playlist assignment
+ */
+
+// Validation schemas
+const locationSchema = Joi.object({
+  name: Joi.string().max(200).required().trim(),
+  address: Joi.string().max(300).allow('').optional().trim(),
+  coordinates: Joi.object({
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required()
+  }).optional(),
+  timezone: Joi.string().default('UTC')
+});
+
+const displaySchema = Joi.object({
+  resolution: Joi.object({
+    width: Joi.number().min(640).required(),
+    height: Joi.number().min(480).required()
+  }).required(),
+  diagonal: Joi.number().min(10).max(200).optional(),
+  orientation: Joi.string().valid('landscape', 'portrait').default('landscape'),
+  brightness: Joi.number().min(0).max(100).default(100)
+});
+
+const settingsSchema = Joi.object({
+  autoRestart: Joi.boolean().optional(),
+  maintenanceWindow: Joi.object({
+    start: Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(),
+    end: Joi.string().pattern(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/).optional(),
+    timezone: Joi.string().optional()
+  }).optional(),
+  volume: Joi.number().min(0).max(100).optional(),
+  autoUpdate: Joi.boolean().optional()
+});
+
+const createScreenSchema = Joi.object({
+  screenId: Joi.string().min(6).max(20).pattern(/^[A-Za-z0-9\-_]+$/).optional().trim(),
+  name: Joi.string().min(2).max(100).required().trim(),
+  description: Joi.string().max(500).allow('').optional().trim(),
+  location: locationSchema.required(),
+  display: displaySchema.required(),
+  device: Joi.object({
+    type: Joi.string().valid('raspberry-pi', 'android', 'windows', 'linux', 'smart-tv', 'other').default('other'),
+    model: Joi.string().max(100).optional().trim(),
+    os: Joi.string().max(50).optional().trim(),
+    version: Joi.string().max(20).optional().trim()
+  }).optional(),
+  heartbeatInterval: Joi.number().min(10).max(300).optional(),
+  settings: settingsSchema.optional(),
+  attributes: Joi.object().pattern(Joi.string().max(50).pattern(/^[A-Za-z0-9_-]+$/), Joi.string().max(100).allow('')).max(20).optional(),
+  tags: Joi.array().items(Joi.string().max(30).trim()).max(10).optional()
+});
+
+const updateScreenSchema = Joi.object({
+  name: Joi.string().min(2).max(100).optional().trim(),
+  description: Joi.string().max(500).allow('').optional().trim(),
+  location: Joi.object({
+    name: Joi.string().max(200).optional().trim(),
+    address: Joi.string().max(300).allow('').optional().trim(),
+    coordinates: Joi.object({
+      latitude: Joi.number().min(-90).max(90).required(),
+      longitude: Joi.number().min(-180).max(180).required()
+    }).optional(),
+    timezone: Joi.string().optional()
+  }).optional(),
+  display: Joi.object({
+    resolution: Joi.object({
+      width: Joi.number().min(640).required(),
+      height: Joi.number().min(480).required()
+    }).optional(),
+    diagonal: Joi.number().min(10).max(200).optional(),
+    orientation: Joi.string().valid('landscape', 'portrait').optional(),
+    brightness: Joi.number().min(0).max(100).optional()
+  }).optional(),
+  status: Joi.string().valid('online', 'offline', 'connecting', 'error', 'maintenance').optional(),
+  heartbeatInterval: Joi.number().min(10).max(300).optional(),
+  settings: settingsSchema.optional(),
+  notifications: Joi.object({
+    offline: Joi.boolean().optional(),
+    errors: Joi.boolean().optional(),
+    maintenance: Joi.boolean().optional(),
+    performance: Joi.boolean().optional()
+  }).optional(),
+  attributes: Joi.object().pattern(Joi.string().max(50).pattern(/^[A-Za-z0-9_-]+$/), Joi.string().max(100).allow('')).max(20).optional(),
+  tags: Joi.array().items(Joi.string().max(30).trim()).max(10).optional()
+});
+
+const assignPlaylistSchema = Joi.object({
+  playlistId: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).required(),
+  // Defaults to the playlist's own priority setting
+  priority: Joi.number().min(1).max(10).optional()
+});
+
+const pairScreenSchema = Joi.object({
+  code: Joi.string().trim().length(6).alphanum().required(),
+  device: Joi.object({
+    type: Joi.string().valid('raspberry-pi', 'android', 'windows', 'linux', 'smart-tv', 'other').optional(),
+    model: Joi.string().max(100).optional().trim(),
+    os: Joi.string().max(50).optional().trim(),
+    version: Joi.string().max(20).optional().trim(),
+    userAgent: Joi.string().max(500).optional().trim()
+  }).optional()
+});
+
+const screenQuerySchema = Joi.object({
+  page: Joi.number().min(1).default(1),
+  limit: Joi.number().min(1).max(100).default(20),
+  search: Joi.string().max(100).optional(),
+  status: Joi.string().valid('online', 'offline', 'connecting', 'error', 'maintenance').optional(),
+  tags: Joi.string().optional(),
+  group: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).optional(),
+  location: Joi.string().max(200).optional(),
+  sort: Joi.string().valid('name', 'created', 'lastSeen', 'status').default('name'),
+  order: Joi.string().valid('asc', 'desc').default('asc')
+});
+
+const scheduleQuerySchema = Joi.object({
+  at: Joi.date().iso().optional(),
+  group: Joi.string().pattern(/^[0-9a-fA-F]{24}$/).optional()
+});
+
+// Fields populated on every screen response
+const PLAYLIST_POPULATE_FIELDS = 'name totalItems totalDuration isActive';
+
+/**
+ * Resolve the public API origin devices should talk to
+ */
+const getServerUrl = (req) => process.env.PUBLIC_SERVER_URL || `${req.protocol}://${req.get('host')}`;
+
+/**
+ * Emit a Socket.IO event to a screen's player room, if Socket.IO is available
+ */
+const notifyScreen = (req, screenId, event, payload) => {
+  const screenIo = req.app.get('screenIo');
+  if (screenIo) {
+    screenIo.to(`screen:${screenId}`).emit(event, {
+      ...payload,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+/**
+ * Drop a screen's player connections after its access key changes, so a
+ * device holding the old key stops receiving commands and content at once
+ */
+const disconnectScreenSockets = (req, screenId) => {
+  const screenIo = req.app.get('screenIo');
+  if (screenIo) {
+    screenIo.in(`screen:${screenId}`).disconnectSockets(true);
+  }
+};
+
+/**
+ * Merge a partial nested update into an existing subdocument so that
+ * omitted keys keep their stored values
+ */
+const applyNestedUpdate = (screen, field, updates) => {
+  const current = screen[field] && typeof screen[field].toObject === 'function'
+    ? screen[field].toObject()
+    : (screen[field] || {});
+
+  screen[field] = { ...current, ...updates };
+};
+
+/**
+ * Register new screen
+ * @route POST /api/screens
+ * @access Private
+ */
+const createScreen = async (req, res) => {
+  try {
+    // Validate request body
+    const { error, value } = createScreenSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const screenData = {
+      ...value,
+      owner: req.user.id,
+      organization: req.workspace.organization
+    };
+
+    winston.info('Registering new screen:', {
+      service: 'screen',
+      userId: req.user.id,
+      screenName: screenData.name
+    });
+
+    // Screen IDs are globally unique, so check before attempting the insert
+    if (screenData.screenId) {
+      const existingScreen = await Screen.findOne({ screenId: screenData.screenId.toUpperCase() });
+
+      if (existingScreen) {
+        return res.status(409).json({
+          success: false,
+          message: 'Screen with this ID already exists'
+        });
+      }
+    }
+
+    const screen = new Screen(screenData);
+    await screen.save();
+
+    winston.info('Screen registered successfully:', {
+      service: 'screen',
+      screenId: screen._id,
+      deviceId: screen.screenId,
+      userId: req.user.id
+    });
+
+    // The access key is only ever returned on creation and regeneration
+    res.status(201).json({
+      success: true,
+      message: 'Screen registered successfully',
+      data: {
+        screen,
+        accessKey: screen.accessKey
+      }
+    });
+
+  } catch (error) {
+    winston.error('Screen registration failed:', {
+      service: 'screen',
+      userId: req.user?.id,
+      error: error.message,
+      stack: error.stack
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to register screen',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get all screens with filtering and pagination
+ * @route GET /api/screens
+ * @access Private
+ */
+const getScreens = async (req, res) => {
+  try {
+    // Validate query parameters
+    const { error, value } = screenQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid query parameters',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { page, limit, search, status, tags, group, location, sort, order } = value;
+    const skip = (page - 1) * limit;
+
+    const filters = {
+      status,
+      search,
+      location,
+      tags: tags ? tags.split(',').map(tag => tag.trim().toLowerCase()) : undefined,
+      // A group filter matches its subgroups' screens too
+      ids: group ? await ScreenGroup.resolveScreenIds(req.workspace.organization, [group]) : undefined
+    };
+
+    // Build sort object
+    const sortField = {
+      name: 'name',
+      created: 'createdAt',
+      lastSeen: 'lastSeen',
+      status: 'status'
+    }[sort];
+
+    const sortOrder = order === 'asc' ? 1 : -1;
+    const sortObj = { [sortField]: sortOrder };
+
+    // Execute queries in parallel
+    const [screens, totalCount, stats] = await Promise.all([
+      Screen.findUserScreens(req.workspace.organization, filters)
+        .sort(sortObj)
+        .skip(skip)
+        .limit(limit)
+        .populate('currentPlaylist', PLAYLIST_POPULATE_FIELDS),
+      Screen.findUserScreens(req.workspace.organization, filters).countDocuments(),
+      Screen.getUserScreenStats(req.workspace.organization)
+    ]);
+
+    winston.info('Screens retrieved successfully:', {
+      service: 'screen',
+      userId: req.user.id,
+      count: screens.length,
+      totalCount,
+      filters: { search, status, tags, group, location }
+    });
+
+    res.json({
+      success: true,
+      message: 'Screens retrieved successfully',
+      data: {
+        screens,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages: Math.ceil(totalCount / limit),
+          hasNext: page < Math.ceil(totalCount / limit),
+          hasPrev: page > 1
+        },
+        statistics: stats,
+        filters: {
+          search,
+          status,
+          tags,
+          group,
+          location,
+          sort,
+          order
+        }
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve screens:', {
+      service: 'screen',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve screens',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get screen statistics for the current user
+ * @route GET /api/screens/stats
+ * @access Private
+ */
+const getScreenStats = async (req, res) => {
+  try {
+    const [stats, statusBreakdown] = await Promise.all([
+      Screen.getUserScreenStats(req.workspace.organization),
+      Screen.aggregate([
+        { $match: { organization: new mongoose.Types.ObjectId(req.workspace.organization), isActive: true } },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const byStatus = statusBreakdown.reduce((acc, entry) => {
+      acc[entry._id] = entry.count;
+      return acc;
+    }, {});
+
+    res.json({
+      success: true,
+      message: 'Screen statistics retrieved successfully',
+      data: {
+        ...stats,
+        byStatus
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve screen statistics:', {
+      service: 'screen',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve screen statistics',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get the playlist each screen plays at a point in time, resolved from
+ * playlist schedules and queue priorities in each screen's timezone
+ * @route GET /api/screens/schedule
+ * @access Private
+ */
+const getScheduleSnapshot = async (req, res) => {
+  try {
+    const { error, value } = scheduleQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const at = value.at || new Date();
+    const query = { organization: req.workspace.organization, isActive: true };
+
+    if (value.group) {
+      query._id = { $in: await ScreenGroup.resolveScreenIds(req.workspace.organization, [value.group]) };
+    }
+
+    const screens = await Screen.find(query)
+      .select('name screenId organization location status currentPlaylist playlistQueue')
+      .sort({ name: 1 });
+    const resolutions = await Screen.resolveScheduledPlaylists(screens, at);
+
+    const schedule = screens.map(screen => {
+      const resolution = resolutions.get(screen._id.toString());
+      const { timezone, localTime } = getZonedTime(at, getScreenTimezone(screen));
+
+      return {
+        id: screen._id,
+        screenId: screen.screenId,
+        name: screen.name,
+        location: screen.location?.name,
+        status: screen.status,
+        timezone,
+        localTime,
+        playlist: resolution
+          ? { id: resolution.playlist._id, name: resolution.playlist.name }
+          : null,
+        priority: resolution?.priority ?? null,
+        source: resolution?.source ?? null
+      };
+    });
+
+    res.json({
+      success: true,
+      message: 'Schedule resolved successfully',
+      data: {
+        at,
+        group: value.group || null,
+        screens: schedule
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to resolve screen schedule:', {
+      service: 'screen',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to resolve screen schedule',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get screen by ID
+ * @route GET /api/screens/:id
+ * @access Private
+ */
+const getScreenById = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid screen ID'
+      });
+    }
+
+    const screen = await Screen.findOne({
+      _id: id,
+      organization: req.workspace.organization,
+      isActive: true
+    })
+    .populate('currentPlaylist', PLAYLIST_POPULATE_FIELDS)
+    .populate('playlistQueue.playlist', PLAYLIST_POPULATE_FIELDS);
+
+    if (!screen) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen not found or access denied'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Screen retrieved successfully',
+      data: screen
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve screen:', {
+      service: 'screen',
+      screenId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve screen',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Update screen configuration
+ * @route PUT /api/screens/:id
+ * @access Private
+ */
+const updateScreen = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid screen ID'
+      });
+    }
+
+    // Validate request body
+    const { error, value } = updateScreenSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const screen = await Screen.findOne({
+      _id: id,
+      organization: req.workspace.organization,
+      isActive: true
+    });
+
+    if (!screen) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen not found or access denied'
+      });
+    }
+
+    const { location, display, settings, notifications, ...topLevel } = value;
+
+    Object.assign(screen, topLevel);
+    if (location) applyNestedUpdate(screen, 'location', location);
+    if (display) applyNestedUpdate(screen, 'display', display);
+    if (settings) applyNestedUpdate(screen, 'settings', settings);
+    if (notifications) applyNestedUpdate(screen, 'notifications', notifications);
+
+    await screen.save();
+    await screen.populate('currentPlaylist', PLAYLIST_POPULATE_FIELDS);
+
+    winston.info('Screen updated successfully:', {
+      service: 'screen',
+      screenId: id,
+      userId: req.user.id,
+      updatedFields: Object.keys(value)
+    });
+
+    res.json({
+      success: true,
+      message: 'Screen updated successfully',
+      data: screen
+    });
+
+  } catch (error) {
+    winston.error('Screen update failed:', {
+      service: 'screen',
+      screenId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update screen',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Delete screen
+ * @route DELETE /api/screens/:id
+ * @access Private
+ */
+const deleteScreen = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid screen ID'
+      });
+    }
+
+    const screen = await Screen.findOne({
+      _id: id,
+      organization: req.workspace.organization,
+      isActive: true
+    });
+
+    if (!screen) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen not found or access denied'
+      });
+    }
+
+    // Soft delete and detach from any playlists and groups that list it
+    await Promise.all([
+      Screen.findByIdAndUpdate(id, { isActive: false, status: 'offline' }),
+      Playlist.updateMany(
+        { assignedScreens: screen._id },
+        { $pull: { assignedScreens: screen._id } }
+      ),
+      ScreenGroup.updateMany(
+        { screens: screen._id },
+        { $pull: { screens: screen._id } }
+      )
+    ]);
+
+    winston.info('Screen deleted successfully:', {
+      service: 'screen',
+      screenId: id,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Screen deleted successfully',
+      data: { id, name: screen.name }
+    });
+
+  } catch (error) {
+    winston.error('Screen deletion failed:', {
+      service: 'screen',
+      screenId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete screen',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Regenerate screen access key
+ * @route POST /api/screens/:id/access-key
+ * @access Private
+ */
+const regenerateAccessKey = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid screen ID'
+      });
+    }
+
+    const screen = await Screen.findOne({
+      _id: id,
+      organization: req.workspace.organization,
+      isActive: true
+    }).select('+accessKey');
+
+    if (!screen) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen not found or access denied'
+      });
+    }
+
+    const accessKey = screen.generateNewAccessKey();
+    await screen.save();
+    disconnectScreenSockets(req, screen._id);
+
+    winston.info('Screen access key regenerated:', {
+      service: 'screen',
+      screenId: id,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Access key regenerated successfully',
+      data: {
+        id: screen._id,
+        screenId: screen.screenId,
+        accessKey
+      }
+    });
+
+  } catch (error) {
+    winston.error('Access key regeneration failed:', {
+      service: 'screen',
+      screenId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to regenerate access key',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Issue a short-lived pairing code for a screen
+ * @route POST /api/screens/:id/pairing-code
+ * @access Private
+ */
+const createPairingCode = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid screen ID'
+      });
+    }
+
+    const screen = await Screen.findOne({
+      _id: id,
+      organization: req.workspace.organization,
+      isActive: true
+    });
+
+    if (!screen) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen not found or access denied'
+      });
+    }
+
+    const { code, expiresAt } = screen.generatePairingCode();
+    await screen.save();
+
+    const serverUrl = getServerUrl(req);
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const pairingUrl = `${frontendUrl}/player?code=${code}&server=${encodeURIComponent(serverUrl)}`;
+
+    winston.info('Screen pairing code issued:', {
+      service: 'screen',
+      screenId: id,
+      expiresAt,
+      userId: req.user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Pairing code generated successfully',
+      data: {
+        code,
+        expiresAt,
+        serverUrl,
+        pairingUrl
+      }
+    });
+
+  } catch (error) {
+    winston.error('Pairing code generation failed:', {
+      service: 'screen',
+      screenId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate pairing code',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Pair a device with a screen using its pairing code
+ * @route POST /api/screens/pair
+ * @access Public (pairing code acts as the credential)
+ */
+const pairScreen = async (req, res) => {
+  try {
+    // Validate request body
+    const { error, value } = pairScreenSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const screen = await Screen.findByPairingCode(value.code);
+
+    if (!screen) {
+      winston.warn('Screen pairing attempted with invalid or expired code:', {
+        service: 'screen',
+        ip: req.ip
+      });
+
+      return res.status(404).json({
+        success: false,
+        message: 'Pairing code is invalid or has expired'
+      });
+    }
+
+    const accessKey = screen.completePairing({
+      ...value.device,
+      userAgent: value.device?.userAgent || req.get('User-Agent')
+    });
+    await screen.save();
+    disconnectScreenSockets(req, screen._id);
+
+    winston.info('Screen paired successfully:', {
+      service: 'screen',
+      screenId: screen._id,
+      deviceId: screen.screenId,
+      ip: req.ip
+    });
+
+    // Let the organization's dashboards know the device is now bound
+    const io = req.app.get('io');
+    if (io) {
+      io.to(organizationRoom(screen.organization)).emit('screen:paired', {
+        id: screen._id.toString(),
+        screenId: screen.screenId,
+        name: screen.name,
+        device: screen.device,
+        pairedAt: screen.pairing.pairedAt.toISOString(),
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Screen paired successfully',
+      data: {
+        id: screen._id,
+        screenId: screen.screenId,
+        name: screen.name,
+        accessKey,
+        serverUrl: getServerUrl(req),
+        heartbeatInterval: screen.heartbeatInterval
+      }
+    });
+
+  } catch (error) {
+    winston.error('Screen pairing failed:', {
+      service: 'screen',
+      ip: req.ip,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to pair screen',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Assign playlist to screen
+ * @route POST /api/screens/:id/playlist
+ * @access Private
+ */
+const assignPlaylist = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid screen ID'
+      });
+    }
+
+    // Validate request body
+    const { error, value } = assignPlaylistSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const { playlistId, priority } = value;
+
+    const [screen, playlist] = await Promise.all([
+      Screen.findOne({ _id: id, organization: req.workspace.organization, isActive: true }),
+      Playlist.findOne({
+        _id: playlistId,
+        ...Playlist.publishFilter(req.user.id, req.workspace),
+        isActive: true
+      })
+    ]);
+
+    if (!screen) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen not found or access denied'
+      });
+    }
+
+    if (!playlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Playlist not found or insufficient permissions'
+      });
+    }
+
+    if (!playlist.canGoLive(req.workspace)) {
+      return res.status(409).json({
+        success: false,
+        code: 'APPROVAL_REQUIRED',
+        message: 'Playlist must be approved and published before it can be assigned to screens'
+      });
+    }
+
+    await screen.assignPlaylist(playlist._id, priority ?? playlist.settings?.priority);
+
+    // Keep the playlist side of the relationship in sync
+    await Playlist.updateOne(
+      { _id: playlist._id },
+      { $addToSet: { assignedScreens: screen._id }, lastModified: new Date() }
+    );
+
+    await screen.populate('currentPlaylist', PLAYLIST_POPULATE_FIELDS);
+
+    notifyScreen(req, screen._id, 'playlist:assignment:changed', {
+      playlistId: playlist._id.toString(),
+      action: 'assigned'
+    });
+
+    winston.info('Playlist assigned to screen:', {
+      service: 'screen',
+      screenId: id,
+      playlistId,
+      priority,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Playlist assigned to screen successfully',
+      data: screen
+    });
+
+  } catch (error) {
+    winston.error('Failed to assign playlist to screen:', {
+      service: 'screen',
+      screenId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to assign playlist to screen',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Remove playlist from screen
+ * @route DELETE /api/screens/:id/playlist/:playlistId
+ * @access Private
+ */
+const removePlaylist = async (req, res) => {
+  try {
+    const { id, playlistId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(playlistId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid screen or playlist ID'
+      });
+    }
+
+    const screen = await Screen.findOne({
+      _id: id,
+      organization: req.workspace.organization,
+      isActive: true
+    });
+
+    if (!screen) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen not found or access denied'
+      });
+    }
+
+    // Update the playlist side first so the screen doesn't re-resolve to it
+    await Playlist.updateOne(
+      { _id: playlistId },
+      { $pull: { assignedScreens: screen._id }, lastModified: new Date() }
+    );
+    await screen.removePlaylist(playlistId);
+
+    await screen.populate('currentPlaylist', PLAYLIST_POPULATE_FIELDS);
+
+    notifyScreen(req, screen._id, 'playlist:assignment:changed', {
+      playlistId,
+      action: 'unassigned'
+    });
+
+    winston.info('Playlist removed from screen:', {
+      service: 'screen',
+      screenId: id,
+      playlistId,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Playlist removed from screen successfully',
+      data: screen
+    });
+
+  } catch (error) {
+    winston.error('Failed to remove playlist from screen:', {
+      service: 'screen',
+      screenId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove playlist from screen',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+module.exports = {
+  createScreen,
+  getScreens,
+  getScreenStats,
+  getScheduleSnapshot,
+  getScreenById,
+  updateScreen,
+  deleteScreen,
+  regenerateAccessKey,
+  createPairingCode,
+  pairScreen,
+  assignPlaylist,
+  removePlaylist
+};
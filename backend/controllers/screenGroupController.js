@@ -0,0 +1,388 @@
+const Joi = require('joi');
+const ScreenGroup = require('../models/screenGroupModel');
+const Screen = require('../models/screenModel');
+const winston = require('winston');
+const mongoose = require('mongoose');
+
+/**
+ * Screen Group Controller
+ * Manages nested screen groups with static and tag-based membership, used to
+ * target many screens at once from playlist assignment, commands and emergencies
+ */
+
+const objectId = Joi.string().pattern(/^[0-9a-fA-F]{24}$/);
+
+// Validation schemas
+const createGroupSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required().trim(),
+  description: Joi.string().max(500).allow('').optional().trim(),
+  color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).optional(),
+  parent: objectId.allow(null).optional(),
+  screens: Joi.array().items(objectId).max(1000).default([]),
+  tags: Joi.array().items(Joi.string().max(30).trim().lowercase()).max(10).default([]),
+  tagMatch: Joi.string().valid('any', 'all').default('any')
+});
+
+const updateGroupSchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional().trim(),
+  description: Joi.string().max(500).allow('').optional().trim(),
+  color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).optional(),
+  parent: objectId.allow(null).optional(),
+  screens: Joi.array().items(objectId).max(1000).optional(),
+  tags: Joi.array().items(Joi.string().max(30).trim().lowercase()).max(10).optional(),
+  tagMatch: Joi.string().valid('any', 'all').optional()
+}).min(1);
+
+// Fields returned for group member screens
+const MEMBER_SCREEN_FIELDS = 'name screenId location status tags lastSeen';
+
+/**
+ * Find an active group in the requesting user's organization
+ */
+const findOwnedGroup = (req, id) => ScreenGroup.findOne({
+  _id: id,
+  organization: req.workspace.organization,
+  isActive: true
+});
+
+/**
+ * Check that a parent group and statically listed screens belong to the organization
+ * @returns {Promise<string|null>} Error message, or null when valid
+ */
+const validateReferences = async (req, { parent, screens }) => {
+  if (parent && !(await findOwnedGroup(req, parent))) {
+    return 'Parent group not found or access denied';
+  }
+
+  if (screens && screens.length > 0) {
+    const uniqueIds = [...new Set(screens)];
+    const ownedCount = await Screen.countDocuments({ _id: { $in: uniqueIds }, organization: req.workspace.organization, isActive: true });
+    if (ownedCount !== uniqueIds.length) {
+      return 'One or more screens not found or access denied';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Add each group's member count, descendants included
+ */
+const withScreenCounts = async (organizationId, groups) => {
+  const screens = await Screen.find({ organization: organizationId, isActive: true }).select('_id organization tags');
+  const membership = await ScreenGroup.getMembershipMap(organizationId, screens);
+
+  const counts = new Map();
+  for (const groupIds of membership.values()) {
+    groupIds.forEach(groupId => counts.set(groupId, (counts.get(groupId) || 0) + 1));
+  }
+
+  return groups.map(group => ({
+    ...group.toJSON(),
+    screenCount: counts.get(group._id.toString()) || 0
+  }));
+};
+
+/**
+ * Get the user's screen groups
+ * @route GET /api/screen-groups
+ * @access Private
+ */
+const getScreenGroups = async (req, res) => {
+  try {
+    const groups = await ScreenGroup.findUserGroups(req.workspace.organization);
+
+    res.json({
+      success: true,
+      message: 'Screen groups retrieved successfully',
+      data: {
+        groups: await withScreenCounts(req.workspace.organization, groups)
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve screen groups:', {
+      service: 'screen-group',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve screen groups',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Create a screen group
+ * @route POST /api/screen-groups
+ * @access Private
+ */
+const createScreenGroup = async (req, res) => {
+  try {
+    const { error, value } = createGroupSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const referenceError = await validateReferences(req, value);
+    if (referenceError) {
+      return res.status(404).json({
+        success: false,
+        message: referenceError
+      });
+    }
+
+    const group = await ScreenGroup.create({
+      ...value,
+      screens: [...new Set(value.screens)],
+      owner: req.user.id,
+      organization: req.workspace.organization
+    });
+
+    winston.info('Screen group created:', {
+      service: 'screen-group',
+      groupId: group._id,
+      parent: group.parent,
+      userId: req.user.id
+    });
+
+    const [groupWithCount] = await withScreenCounts(req.workspace.organization, [group]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Screen group created successfully',
+      data: {
+        group: groupWithCount
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to create screen group:', {
+      service: 'screen-group',
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create screen group',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Update a screen group
+ * @route PUT /api/screen-groups/:id
+ * @access Private
+ */
+const updateScreenGroup = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid group ID'
+      });
+    }
+
+    const { error, value } = updateGroupSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.details.map(detail => detail.message)
+      });
+    }
+
+    const group = await findOwnedGroup(req, id);
+    if (!group) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen group not found or access denied'
+      });
+    }
+
+    const referenceError = await validateReferences(req, value);
+    if (referenceError) {
+      return res.status(404).json({
+        success: false,
+        message: referenceError
+      });
+    }
+
+    if (value.parent && await ScreenGroup.wouldCreateCycle(req.workspace.organization, group._id, value.parent)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A group cannot be moved inside itself or one of its subgroups'
+      });
+    }
+
+    group.set({
+      ...value,
+      screens: value.screens ? [...new Set(value.screens)] : group.screens
+    });
+    await group.save();
+
+    winston.info('Screen group updated:', {
+      service: 'screen-group',
+      groupId: group._id,
+      userId: req.user.id,
+      updates: Object.keys(value)
+    });
+
+    const [groupWithCount] = await withScreenCounts(req.workspace.organization, [group]);
+
+    res.json({
+      success: true,
+      message: 'Screen group updated successfully',
+      data: {
+        group: groupWithCount
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to update screen group:', {
+      service: 'screen-group',
+      groupId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update screen group',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Delete a screen group. Its subgroups move up to its parent
+ * @route DELETE /api/screen-groups/:id
+ * @access Private
+ */
+const deleteScreenGroup = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid group ID'
+      });
+    }
+
+    const group = await findOwnedGroup(req, id);
+    if (!group) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen group not found or access denied'
+      });
+    }
+
+    await Promise.all([
+      ScreenGroup.findByIdAndUpdate(id, { isActive: false }),
+      ScreenGroup.updateMany(
+        { organization: req.workspace.organization, parent: group._id },
+        { parent: group.parent }
+      )
+    ]);
+
+    winston.info('Screen group deleted:', {
+      service: 'screen-group',
+      groupId: id,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      message: 'Screen group deleted successfully',
+      data: { id, name: group.name }
+    });
+
+  } catch (error) {
+    winston.error('Failed to delete screen group:', {
+      service: 'screen-group',
+      groupId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete screen group',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+/**
+ * Get the screens in a group, subgroups included
+ * @route GET /api/screen-groups/:id/screens
+ * @access Private
+ */
+const getScreenGroupScreens = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid group ID'
+      });
+    }
+
+    const group = await findOwnedGroup(req, id);
+    if (!group) {
+      return res.status(404).json({
+        success: false,
+        message: 'Screen group not found or access denied'
+      });
+    }
+
+    const screenIds = await ScreenGroup.resolveScreenIds(req.workspace.organization, [group._id]);
+    const screens = await Screen.find({ _id: { $in: screenIds } })
+      .select(MEMBER_SCREEN_FIELDS)
+      .sort({ name: 1 });
+
+    res.json({
+      success: true,
+      message: 'Group screens retrieved successfully',
+      data: {
+        group,
+        screens
+      }
+    });
+
+  } catch (error) {
+    winston.error('Failed to retrieve group screens:', {
+      service: 'screen-group',
+      groupId: req.params.id,
+      userId: req.user?.id,
+      error: error.message
+    });
+
+    res.status(500).json({
+      success: false,
+      message: 'Failed to retrieve group screens',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+};
+
+module.exports = {
+  getScreenGroups,
+  createScreenGroup,
+  updateScreenGroup,
+  deleteScreenGroup,
+  getScreenGroupScreens
+};
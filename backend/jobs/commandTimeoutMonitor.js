@@ -0,0 +1,101 @@
+const cron = require('node-cron');
+const ScreenCommand = require('../models/screenCommandModel');
+const logger = require('../config/logger');
+const { emitCommandUpdate } = require('../sockets/screenNamespace');
+
+/**
+ * Command Timeout Monitor
+ * Marks remote commands as timed out when the device has not answered
+ * by their deadline, so the dashboard never waits on a command forever
+ */
+
+// Run every 10 seconds (node-cron supports a leading seconds field)
+const CHECK_SCHEDULE = '*/10 * * * * *';
+
+let task = null;
+
+/**
+ * Time out pending commands past their deadline
+ * @param {Object} io - Socket.IO server
+ * @returns {Promise<number>} Number of commands timed out
+ */
+const timeOutStaleCommands = async (io) => {
+  const now = new Date();
+
+  const staleCommands = await ScreenCommand.find({
+    status: 'pending',
+    timeoutAt: { $lte: now }
+  }).select('-result');
+
+  let timedOut = 0;
+
+  for (const command of staleCommands) {
+    // Only flip commands still pending, in case the result landed meanwhile
+    const result = await ScreenCommand.updateOne(
+      { _id: command._id, status: 'pending' },
+      { $set: { status: 'timeout', respondedAt: now, error: 'Screen did not respond in time' } }
+    );
+
+    if (result.modifiedCount === 0) continue;
+
+    command.status = 'timeout';
+    command.respondedAt = now;
+    command.error = 'Screen did not respond in time';
+    emitCommandUpdate(io, command);
+    timedOut += 1;
+
+    logger.info('Screen command timed out:', {
+      service: 'command-monitor',
+      commandId: command._id,
+      screenId: command.screen,
+      type: command.type
+    });
+  }
+
+  return timedOut;
+};
+
+/**
+ * Start the command timeout monitor
+ * @param {Object} io - Socket.IO server used to notify dashboards
+ */
+const startCommandTimeoutMonitor = (io) => {
+  if (task) return task;
+
+  task = cron.schedule(CHECK_SCHEDULE, async () => {
+    try {
+      await timeOutStaleCommands(io);
+    } catch (error) {
+      logger.error('Command timeout check failed:', {
+        service: 'command-monitor',
+        error: error.message
+      });
+    }
+  }, {
+    name: 'command-timeout-monitor',
+    noOverlap: true
+  });
+
+  logger.info('Command timeout monitor started', {
+    service: 'command-monitor',
+    schedule: CHECK_SCHEDULE
+  });
+
+  return task;
+};
+
+/**
+ * Stop the command timeout monitor (used during shutdown)
+ */
+const stopCommandTimeoutMonitor = () => {
+  if (task) {
+    task.stop();
+    task = null;
+  }
+};
+
+module.exports = {
+  startCommandTimeoutMonitor,
+  stopCommandTimeoutMonitor,
+  timeOutStaleCommands
+};
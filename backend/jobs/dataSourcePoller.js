@@ -0,0 +1,126 @@
+const cron = require('node-cron');
+const DataSource = require('../models/dataSourceModel');
+const Screen = require('../models/screenModel');
+const logger = require('../config/logger');
+const { pollDataSource, clearDataSource } = require('../utils/dataSourceRegistry');
+
+/**
+ * Data Source Poller
+ * Polls every active data source on its own cron schedule, for each location
+ * its organization's screens are at, and records when it last succeeded or failed.
+ * Sources are rescheduled as they are created, changed or deleted
+ */
+
+// sourceId -> cron task
+const tasks = new Map();
+
+let started = false;
+
+/**
+ * Poll one data source now for its organization's screen locations
+ * @param {Object} source - Data source document
+ * @returns {Promise<{ fetched: number, errors: Array }>}
+ */
+const pollSourceNow = async (source) => {
+  const screens = await Screen.find({ organization: source.organization, isActive: true }).select('location');
+  const result = await pollDataSource(source, screens.map(screen => screen.location));
+
+  const lastError = result.errors.length > 0
+    ? `${result.errors.length} location(s) failed: ${result.errors[0].error}`
+    : null;
+
+  await DataSource.updateOne({ _id: source._id }, { lastPolledAt: new Date(), lastError });
+
+  if (result.errors.length > 0) {
+    logger.warn('Data source poll failed for some locations:', {
+      service: 'data-source-poller',
+      sourceId: source._id,
+      key: source.key,
+      fetched: result.fetched,
+      errors: result.errors
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Stop polling a data source and forget its cached values
+ * @param {string} sourceId - Data source _id
+ */
+const unscheduleDataSource = (sourceId) => {
+  const id = sourceId.toString();
+  tasks.get(id)?.stop();
+  tasks.delete(id);
+  clearDataSource(id);
+};
+
+/**
+ * (Re)schedule a data source and poll it straight away, so screens get
+ * values without waiting for the first tick
+ * @param {Object} source - Data source document
+ */
+const scheduleDataSource = (source) => {
+  unscheduleDataSource(source._id);
+  if (!started || !source.isActive) return;
+
+  const id = source._id.toString();
+  const run = async () => {
+    try {
+      // Reload so a schedule tick sees the latest URL, headers and fields
+      const latest = await DataSource.findOne({ _id: id, isActive: true });
+      if (latest) await pollSourceNow(latest);
+    } catch (error) {
+      logger.error('Data source poll failed:', {
+        service: 'data-source-poller',
+        sourceId: id,
+        error: error.message
+      });
+    }
+  };
+
+  tasks.set(id, cron.schedule(source.schedule, run, {
+    name: `data-source-${id}`,
+    noOverlap: true
+  }));
+  run();
+};
+
+/**
+ * Start polling every active data source
+ */
+const startDataSourcePoller = async () => {
+  if (started) return;
+  started = true;
+
+  try {
+    const sources = await DataSource.findActive();
+    sources.forEach(scheduleDataSource);
+
+    logger.info('Data source poller started', {
+      service: 'data-source-poller',
+      sources: sources.length
+    });
+  } catch (error) {
+    logger.error('Failed to start data source poller:', {
+      service: 'data-source-poller',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Stop every data source task (used during shutdown)
+ */
+const stopDataSourcePoller = () => {
+  Array.from(tasks.keys()).forEach(unscheduleDataSource);
+  started = false;
+};
+
+module.exports = {
+  startDataSourcePoller,
+  stopDataSourcePoller,
+  scheduleDataSource,
+  unscheduleDataSource,
+  pollSourceNow
+};
@@ -0,0 +1,126 @@
+const cron = require('node-cron');
+const EmergencyBroadcast = require('../models/emergencyBroadcastModel');
+const logger = require('../config/logger');
+const { refreshEmergencyTargets } = require('../sockets/screenNamespace');
+const { organizationRoom } = require('../utils/organizationUtils');
+
+/**
+ * Emergency Scheduler
+ * Announces emergencies scheduled for a later start once their start time
+ * arrives and expires emergencies past their expiry, pushing the resulting
+ * state to the affected screens and the organization's dashboards
+ */
+
+// Run every 15 seconds (node-cron supports a leading seconds field)
+const CHECK_SCHEDULE = '*/15 * * * * *';
+
+let task = null;
+
+const notifyDashboards = (io, emergency, action) => {
+  io.to(organizationRoom(emergency.organization)).emit('emergency:updated', {
+    action,
+    emergency,
+    timestamp: new Date().toISOString()
+  });
+};
+
+/**
+ * Announce scheduled emergencies that have started and expire those that have ended
+ * @param {Object} io - Socket.IO server, for dashboard notifications
+ * @param {Object} screenIo - Screen namespace, for pushing alerts to players
+ * @returns {Promise<{ activated: number, expired: number }>}
+ */
+const processEmergencySchedule = async (io, screenIo) => {
+  const now = new Date();
+
+  // Expire first so a screen never briefly shows an alert that has already ended
+  const expiring = await EmergencyBroadcast.find({
+    status: 'active',
+    expiresAt: { $lte: now }
+  });
+
+  for (const emergency of expiring) {
+    await emergency.expire();
+
+    if (emergency.announcedAt) {
+      await refreshEmergencyTargets(screenIo, emergency);
+    }
+    notifyDashboards(io, emergency, 'expired');
+
+    logger.info('Emergency broadcast expired:', {
+      service: 'emergency-scheduler',
+      emergencyId: emergency._id,
+      organization: emergency.organization
+    });
+  }
+
+  const starting = await EmergencyBroadcast.find({
+    status: 'active',
+    announcedAt: null,
+    startsAt: { $lte: now }
+  });
+
+  for (const emergency of starting) {
+    emergency.announcedAt = now;
+    emergency.auditLog.push({ action: 'activated' });
+    await emergency.save();
+
+    const screensNotified = await refreshEmergencyTargets(screenIo, emergency);
+    notifyDashboards(io, emergency, 'activated');
+
+    logger.warn('Scheduled emergency broadcast activated:', {
+      service: 'emergency-scheduler',
+      emergencyId: emergency._id,
+      organization: emergency.organization,
+      screensNotified
+    });
+  }
+
+  return { activated: starting.length, expired: expiring.length };
+};
+
+/**
+ * Start the emergency scheduler
+ * @param {Object} io - Socket.IO server
+ * @param {Object} screenIo - Screen namespace
+ */
+const startEmergencyScheduler = (io, screenIo) => {
+  if (task) return task;
+
+  task = cron.schedule(CHECK_SCHEDULE, async () => {
+    try {
+      await processEmergencySchedule(io, screenIo);
+    } catch (error) {
+      logger.error('Emergency schedule check failed:', {
+        service: 'emergency-scheduler',
+        error: error.message
+      });
+    }
+  }, {
+    name: 'emergency-scheduler',
+    noOverlap: true
+  });
+
+  logger.info('Emergency scheduler started', {
+    service: 'emergency-scheduler',
+    schedule: CHECK_SCHEDULE
+  });
+
+  return task;
+};
+
+/**
+ * Stop the emergency scheduler (used during shutdown)
+ */
+const stopEmergencyScheduler = () => {
+  if (task) {
+    task.stop();
+    task = null;
+  }
+};
+
+module.exports = {
+  startEmergencyScheduler,
+  stopEmergencyScheduler,
+  processEmergencySchedule
+};
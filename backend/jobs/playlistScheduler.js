@@ -0,0 +1,115 @@
+const cron = require('node-cron');
+const Screen = require('../models/screenModel');
+const logger = require('../config/logger');
+const { organizationRoom } = require('../utils/organizationUtils');
+
+/**
+ * Playlist Scheduler
+ * Re-resolves which playlist every screen should play and pushes changes to
+ * the screen and its organization's dashboards. Schedules have minute resolution,
+ * so checking at the top of each minute catches every boundary
+ */
+
+// Run at second 0 of every minute (node-cron supports a leading seconds field)
+const CHECK_SCHEDULE = '0 * * * * *';
+
+let task = null;
+
+/**
+ * Apply the scheduled playlist to every screen whose current playlist differs
+ * @param {Object} io - Socket.IO server, for dashboard notifications
+ * @param {Object} screenIo - Screen namespace, for telling players to reload
+ * @param {Date} at - Instant to resolve, defaults to now
+ * @returns {Promise<{ checked: number, changed: number }>}
+ */
+const processPlaylistSchedule = async (io, screenIo, at = new Date()) => {
+  const screens = await Screen.find({ isActive: true })
+    .select('owner organization name location currentPlaylist playlistQueue activity');
+  const resolutions = await Screen.resolveScheduledPlaylists(screens, at);
+
+  let changed = 0;
+
+  for (const screen of screens) {
+    const resolution = resolutions.get(screen._id.toString());
+    const playlistId = resolution ? resolution.playlist._id.toString() : null;
+    const currentId = screen.currentPlaylist ? screen.currentPlaylist.toString() : null;
+
+    if (playlistId === currentId) continue;
+
+    screen.currentPlaylist = playlistId;
+    await screen.save();
+    changed++;
+
+    const timestamp = at.toISOString();
+
+    screenIo.to(`screen:${screen._id}`).emit('playlist:assignment:changed', {
+      playlistId,
+      action: 'scheduled',
+      timestamp
+    });
+
+    io.to(organizationRoom(screen.organization)).emit('screen:playlist:changed', {
+      screenId: screen._id.toString(),
+      playlistId,
+      changedBy: 'schedule',
+      timestamp
+    });
+
+    logger.info('Scheduled playlist changed:', {
+      service: 'playlist-scheduler',
+      screenId: screen._id,
+      previousPlaylistId: currentId,
+      playlistId,
+      priority: resolution?.priority,
+      source: resolution?.source
+    });
+  }
+
+  return { checked: screens.length, changed };
+};
+
+/**
+ * Start the playlist scheduler
+ * @param {Object} io - Socket.IO server
+ * @param {Object} screenIo - Screen namespace
+ */
+const startPlaylistScheduler = (io, screenIo) => {
+  if (task) return task;
+
+  task = cron.schedule(CHECK_SCHEDULE, async () => {
+    try {
+      await processPlaylistSchedule(io, screenIo);
+    } catch (error) {
+      logger.error('Playlist schedule check failed:', {
+        service: 'playlist-scheduler',
+        error: error.message
+      });
+    }
+  }, {
+    name: 'playlist-scheduler',
+    noOverlap: true
+  });
+
+  logger.info('Playlist scheduler started', {
+    service: 'playlist-scheduler',
+    schedule: CHECK_SCHEDULE
+  });
+
+  return task;
+};
+
+/**
+ * Stop the playlist scheduler (used during shutdown)
+ */
+const stopPlaylistScheduler = () => {
+  if (task) {
+    task.stop();
+    task = null;
+  }
+};
+
+module.exports = {
+  startPlaylistScheduler,
+  stopPlaylistScheduler,
+  processPlaylistSchedule
+};
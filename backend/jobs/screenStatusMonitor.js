@@ -0,0 +1,112 @@
+const cron = require('node-cron');
+const Screen = require('../models/screenModel');
+const logger = require('../config/logger');
+const { emitStatusChange } = require('../sockets/screenNamespace');
+
+/**
+ * Screen Status Monitor
+ * Marks screens offline once they have missed several heartbeats, since a
+ * device that loses power or network never gets to say goodbye, and tells
+ * the organization's dashboards about the change
+ */
+
+// Run every 30 seconds (node-cron supports a leading seconds field)
+const CHECK_SCHEDULE = '*/30 * * * * *';
+
+// Heartbeats a screen may miss before it is considered offline
+const MISSED_HEARTBEATS = 3;
+
+let task = null;
+
+/**
+ * Find screens that claim to be online but have not sent a heartbeat
+ * within MISSED_HEARTBEATS of their own interval, and mark them offline
+ * @param {Object} io - Socket.IO server
+ * @returns {Promise<number>} Number of screens marked offline
+ */
+const markStaleScreensOffline = async (io) => {
+  const now = new Date();
+
+  const staleScreens = await Screen.find({
+    isActive: true,
+    status: { $in: ['online', 'connecting'] },
+    $expr: {
+      $lt: [
+        '$lastSeen',
+        { $subtract: [now, { $multiply: ['$heartbeatInterval', MISSED_HEARTBEATS * 1000] }] }
+      ]
+    }
+  }).select('_id owner organization status lastSeen heartbeatInterval');
+
+  let marked = 0;
+
+  for (const screen of staleScreens) {
+    // Only flip screens that are still stale, in case a heartbeat landed meanwhile
+    const result = await Screen.updateOne(
+      { _id: screen._id, status: screen.status, lastSeen: screen.lastSeen },
+      { $set: { status: 'offline' } }
+    );
+
+    if (result.modifiedCount === 0) continue;
+
+    const previousStatus = screen.status;
+    screen.status = 'offline';
+    emitStatusChange(io, screen, previousStatus);
+    marked += 1;
+
+    logger.info('Screen marked offline after missed heartbeats:', {
+      service: 'screen-monitor',
+      screenId: screen._id,
+      previousStatus,
+      lastSeen: screen.lastSeen
+    });
+  }
+
+  return marked;
+};
+
+/**
+ * Start the heartbeat monitor
+ * @param {Object} io - Socket.IO server used to notify dashboards
+ */
+const startScreenStatusMonitor = (io) => {
+  if (task) return task;
+
+  task = cron.schedule(CHECK_SCHEDULE, async () => {
+    try {
+      await markStaleScreensOffline(io);
+    } catch (error) {
+      logger.error('Screen status check failed:', {
+        service: 'screen-monitor',
+        error: error.message
+      });
+    }
+  }, {
+    name: 'screen-status-monitor',
+    noOverlap: true
+  });
+
+  logger.info('Screen status monitor started', {
+    service: 'screen-monitor',
+    schedule: CHECK_SCHEDULE,
+    missedHeartbeats: MISSED_HEARTBEATS
+  });
+
+  return task;
+};
+
+/**
+ * Stop the heartbeat monitor (used during shutdown)
+ */
+const stopScreenStatusMonitor = () => {
+  if (task) {
+    task.stop();
+    task = null;
+  }
+};
+
+module.exports = {
+  startScreenStatusMonitor,
+  stopScreenStatusMonitor,
+  markStaleScreensOffline
+};
@@ -1,5 +1,8 @@
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const Screen = require('../models/screenModel');
+const Organization = require('../models/organizationModel');
+const { resolveDefaultOrganization, toWorkspace } = require('../utils/organizationUtils');
 const { verifyAccessToken, extractTokenFromHeader } = require('../utils/tokenUtils');
 const logger = require('../config/logger');
 
@@ -301,6 +304,160 @@ const optionalAuth = async (req, res, next) => {
   }
 };
 
+/**
+ * Middleware to resolve the organization a request works in
+ * Uses the X-Organization-Id header when present, otherwise the user's
+ * default organization, and attaches { organization, role, permissions,
+ * requireApproval } to req.workspace
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Next middleware function
+ */
+const resolveWorkspace = async (req, res, next) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required.',
+        code: 'AUTH_REQUIRED'
+      });
+    }
+
+    const requestedId = req.get('X-Organization-Id');
+    let organization;
+
+    if (requestedId) {
+      organization = await Organization.findMembership(requestedId, req.user._id);
+
+      if (!organization) {
+        logger.security('Workspace access denied', req.ip, {
+          userId: req.user._id,
+          organizationId: requestedId,
+          url: req.originalUrl
+        });
+
+        return res.status(403).json({
+          success: false,
+          message: 'Organization not found or access denied.',
+          code: 'ORGANIZATION_ACCESS_DENIED'
+        });
+      }
+    } else {
+      organization = await resolveDefaultOrganization(req.user);
+    }
+
+    req.workspace = toWorkspace(organization, req.user._id);
+
+    next();
+  } catch (error) {
+    logger.error('Workspace resolution error:', {
+      service: 'auth',
+      error: error.message,
+      userId: req.user?._id
+    });
+
+    return res.status(500).json({
+      success: false,
+      message: 'Workspace check failed.',
+      code: 'WORKSPACE_CHECK_ERROR'
+    });
+  }
+};
+
+/**
+ * Middleware to check the user's role in the workspace grants a permission
+ * Must run after resolveWorkspace
+ * @param {string} permission - Required permission, e.g. 'media:upload'
+ * @returns {Function} Middleware function
+ */
+const requirePermission = (permission) => {
+  return (req, res, next) => {
+    if (!req.workspace) {
+      return res.status(500).json({
+        success: false,
+        message: 'Workspace not resolved.',
+        code: 'WORKSPACE_CHECK_ERROR'
+      });
+    }
+
+    if (!req.workspace.permissions.includes(permission)) {
+      logger.security('Authorization failed - missing permission', req.ip, {
+        userId: req.user._id,
+        organizationId: req.workspace.organization,
+        role: req.workspace.role,
+        permission,
+        url: req.originalUrl
+      });
+
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied. Your role does not allow this.',
+        code: 'INSUFFICIENT_PERMISSIONS',
+        required: permission,
+        current: req.workspace.role
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Middleware to authenticate a display device by its screen access key
+ * Expects the key in the X-Screen-Key header and attaches the screen to req.screen
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Next middleware function
+ */
+const verifyScreenKey = async (req, res, next) => {
+  try {
+    const accessKey = req.get('X-Screen-Key');
+
+    if (!accessKey) {
+      logger.security('Screen request without access key', req.ip, {
+        userAgent: req.get('User-Agent'),
+        url: req.originalUrl
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: 'Access denied. No screen access key provided.',
+        code: 'NO_SCREEN_KEY'
+      });
+    }
+
+    const screen = await Screen.findByAccessKey(accessKey);
+
+    if (!screen) {
+      logger.security('Screen request with invalid access key', req.ip, {
+        userAgent: req.get('User-Agent'),
+        url: req.originalUrl
+      });
+
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid screen access key.',
+        code: 'INVALID_SCREEN_KEY'
+      });
+    }
+
+    req.screen = screen;
+    next();
+  } catch (error) {
+    logger.error('Screen key verification error:', {
+      service: 'auth',
+      error: error.message,
+      ip: req.ip
+    });
+
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error during screen authentication.',
+      code: 'AUTH_ERROR'
+    });
+  }
+};
+
 /**
  * Middleware to check API rate limits per user
  * @param {number} maxRequests - Maximum requests per day
@@ -351,5 +508,8 @@ module.exports = {
   requireAdmin,
   requireVerified,
   optionalAuth,
+  resolveWorkspace,
+  requirePermission,
+  verifyScreenKey,
   checkApiLimit
 };
\ No newline at end of file
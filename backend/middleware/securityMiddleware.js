@@ -52,6 +52,7 @@ const corsOptions = {
     'Accept',
     'Authorization',
     'X-API-Key',
+    'X-Screen-Key',
     'X-Forwarded-For',
     'X-Real-IP'
   ],
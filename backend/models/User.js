@@ -46,6 +46,12 @@ const userSchema = new mongoose.Schema({
     default: 'user'
   },
 
+  // Workspace used when a request does not pick one
+  defaultOrganization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
+
   // Account verification
   isVerified: {
     type: Boolean,
@@ -0,0 +1,114 @@
+const mongoose = require('mongoose');
+
+/**
+ * Data source model
+ * An external JSON feed (weather, stock levels, queue lengths) polled on a
+ * cron schedule. Each field picks one value out of the response by path, and
+ * playlist item conditions compare it as `<key>.<field>`, e.g. weather.condition.
+ * A URL containing {lat}, {lon} or {location} is fetched once per screen
+ * location; any other URL is fetched once for all of the organization's screens
+ */
+
+const dataSourceSchema = new mongoose.Schema({
+  owner: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Data source owner is required'],
+    index: true
+  },
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+    index: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Data source name is required'],
+    trim: true,
+    maxlength: [100, 'Data source name cannot exceed 100 characters']
+  },
+
+  // Prefix conditions use to reference this source's values
+  key: {
+    type: String,
+    required: [true, 'Data source key is required'],
+    trim: true,
+    lowercase: true,
+    match: [/^[a-z][a-z0-9_-]*$/, 'Key must start with a letter and contain only letters, numbers, - and _'],
+    maxlength: [30, 'Key cannot exceed 30 characters']
+  },
+
+  // Fetcher registered in the data source registry
+  type: {
+    type: String,
+    default: 'http-json'
+  },
+  url: {
+    type: String,
+    required: [true, 'Feed URL is required'],
+    trim: true,
+    maxlength: [2000, 'Feed URL cannot exceed 2000 characters']
+  },
+  headers: {
+    type: Map,
+    of: String,
+    default: undefined
+  },
+
+  // node-cron expression; a leading seconds field is allowed
+  schedule: {
+    type: String,
+    trim: true,
+    default: '*/15 * * * *'
+  },
+
+  fields: [{
+    _id: false,
+    key: {
+      type: String,
+      required: [true, 'Field key is required'],
+      trim: true,
+      match: [/^[A-Za-z0-9_-]+$/, 'Field key can only contain letters, numbers, - and _'],
+      maxlength: [30, 'Field key cannot exceed 30 characters']
+    },
+    // Dot path into the response, e.g. current.temperature_2m or items[0].count
+    path: {
+      type: String,
+      required: [true, 'Field path is required'],
+      trim: true,
+      maxlength: [200, 'Field path cannot exceed 200 characters']
+    }
+  }],
+
+  lastPolledAt: Date,
+  lastError: {
+    type: String,
+    default: null
+  },
+
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true, flattenMaps: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes
+dataSourceSchema.index(
+  { organization: 1, key: 1 },
+  { unique: true, partialFilterExpression: { isActive: true } }
+);
+
+// Static methods
+
+/**
+ * Active data sources of an organization, or of every organization when none is given
+ */
+dataSourceSchema.statics.findActive = function(organizationId) {
+  return this.find({ isActive: true, ...(organizationId ? { organization: organizationId } : {}) }).sort({ name: 1 });
+};
+
+module.exports = mongoose.model('DataSource', dataSourceSchema);
@@ -0,0 +1,271 @@
+const mongoose = require('mongoose');
+
+/**
+ * Emergency broadcast model
+ * An emergency is a stored, audited takeover of some or all of a user's screens:
+ * either a full stop (black screen) or a templated full-screen alert.
+ * Screens show the highest-severity active emergency that targets them
+ */
+
+const SEVERITY_RANK = {
+  info: 1,
+  warning: 2,
+  critical: 3
+};
+
+// Audit trail entry
+const auditEntrySchema = new mongoose.Schema({
+  action: {
+    type: String,
+    enum: ['issued', 'cleared', 'expired', 'activated'],
+    required: true
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  at: {
+    type: Date,
+    default: Date.now
+  },
+  details: {
+    type: String,
+    maxlength: [500, 'Audit details cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+const emergencyBroadcastSchema = new mongoose.Schema({
+  owner: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Emergency owner is required'],
+    index: true
+  },
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+    index: true
+  },
+
+  // What screens do: stop playback (black screen) or show the alert template
+  action: {
+    type: String,
+    enum: {
+      values: ['stop', 'message'],
+      message: 'Action must be stop or message'
+    },
+    default: 'message'
+  },
+
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Message cannot exceed 500 characters'],
+    required: function() {
+      return this.action === 'message';
+    }
+  },
+
+  severity: {
+    type: String,
+    enum: {
+      values: Object.keys(SEVERITY_RANK),
+      message: 'Severity must be info, warning or critical'
+    },
+    default: 'critical'
+  },
+
+  // Alert presentation
+  template: {
+    title: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Title cannot exceed 100 characters']
+    },
+    backgroundColor: {
+      type: String,
+      match: [/^#[0-9a-fA-F]{6}$/, 'Background color must be a hex color'],
+      default: '#b91c1c'
+    },
+    textColor: {
+      type: String,
+      match: [/^#[0-9a-fA-F]{6}$/, 'Text color must be a hex color'],
+      default: '#ffffff'
+    },
+    media: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Media'
+    }
+  },
+
+  // Targeting: every screen, specific screens, or screen groups (subgroups included)
+  targetType: {
+    type: String,
+    enum: {
+      values: ['all', 'screens', 'groups'],
+      message: 'Target type must be all, screens or groups'
+    },
+    default: 'all'
+  },
+  screens: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Screen'
+  }],
+  groups: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ScreenGroup'
+  }],
+
+  startsAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    validate: {
+      validator: function(expiresAt) {
+        return !expiresAt || !this.startsAt || expiresAt > this.startsAt;
+      },
+      message: 'Expiry must be after the start time'
+    }
+  },
+
+  status: {
+    type: String,
+    enum: ['active', 'cleared', 'expired'],
+    default: 'active',
+    index: true
+  },
+
+  // Set once screens have been told, so scheduled emergencies are announced exactly once
+  announcedAt: Date,
+
+  issuedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Issuing user is required']
+  },
+  clearedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  clearedAt: Date,
+
+  auditLog: [auditEntrySchema]
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes
+emergencyBroadcastSchema.index({ organization: 1, status: 1, startsAt: -1 });
+emergencyBroadcastSchema.index({ status: 1, expiresAt: 1 });
+
+// Virtual properties
+emergencyBroadcastSchema.virtual('isLive').get(function() {
+  const now = new Date();
+  return this.status === 'active' &&
+    this.startsAt <= now &&
+    (!this.expiresAt || this.expiresAt > now);
+});
+
+// Instance methods
+
+/**
+ * Whether this emergency applies to a screen
+ * @param {Object} screen - Screen document
+ * @param {Array<string>} screenGroupIds - Groups the screen belongs to, ancestors included
+ */
+emergencyBroadcastSchema.methods.targetsScreen = function(screen, screenGroupIds = []) {
+  if (String(this.organization) !== String(screen.organization)) return false;
+
+  switch (this.targetType) {
+    case 'all':
+      return true;
+    case 'screens':
+      return this.screens.some(id => (id._id || id).toString() === screen._id.toString());
+    case 'groups':
+      return this.groups.some(id => screenGroupIds.includes((id._id || id).toString()));
+    default:
+      return false;
+  }
+};
+
+emergencyBroadcastSchema.methods.clear = async function(userId, details) {
+  this.status = 'cleared';
+  this.clearedBy = userId;
+  this.clearedAt = new Date();
+  this.auditLog.push({ action: 'cleared', user: userId, details });
+
+  await this.save();
+};
+
+emergencyBroadcastSchema.methods.expire = async function() {
+  this.status = 'expired';
+  this.auditLog.push({ action: 'expired' });
+
+  await this.save();
+};
+
+/**
+ * Payload sent to players over the screen socket
+ */
+emergencyBroadcastSchema.methods.toDisplayEvent = function() {
+  const media = this.template?.media;
+
+  return {
+    action: this.action,
+    broadcastId: this._id.toString(),
+    message: this.message,
+    severity: this.severity,
+    template: {
+      title: this.template?.title,
+      backgroundColor: this.template?.backgroundColor,
+      textColor: this.template?.textColor,
+      media: media && media.type
+        ? { type: media.type, url: media.secureUrl || media.url }
+        : undefined
+    },
+    startsAt: this.startsAt,
+    expiresAt: this.expiresAt,
+    timestamp: new Date().toISOString()
+  };
+};
+
+// Static methods
+
+/**
+ * Live emergencies of an organization, newest first
+ */
+emergencyBroadcastSchema.statics.findLiveForOrganization = function(organizationId) {
+  const now = new Date();
+
+  return this.find({
+    organization: organizationId,
+    status: 'active',
+    startsAt: { $lte: now },
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }]
+  }).sort({ startsAt: -1 });
+};
+
+/**
+ * The emergency a screen should be showing right now, if any:
+ * the highest severity live emergency targeting it, newest first on ties
+ */
+emergencyBroadcastSchema.statics.findCurrentForScreen = async function(screen) {
+  const live = await this.findLiveForOrganization(screen.organization)
+    .populate('template.media', 'type url secureUrl');
+
+  const screenGroupIds = live.some(emergency => emergency.targetType === 'groups')
+    ? await mongoose.model('ScreenGroup').findGroupIdsForScreen(screen)
+    : [];
+
+  return live
+    .filter(emergency => emergency.targetsScreen(screen, screenGroupIds))
+    .sort((a, b) =>
+      (SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]) || (b.startsAt - a.startsAt)
+    )[0] || null;
+};
+
+module.exports = mongoose.model('EmergencyBroadcast', emergencyBroadcastSchema);
@@ -23,14 +23,24 @@ const mediaSchema = new mongoose.Schema({
     maxlength: [255, 'Filename cannot exceed 255 characters']
   },
 
-  // Cloudinary integration data
-  cloudinaryId: {
+  // Storage location: the provider the file was uploaded to and its key there
+  // (Cloudinary public ID, object key or path under the local storage root)
+  storageKey: {
     type: String,
-    required: [true, 'Cloudinary ID is required'],
+    required: [true, 'Storage key is required'],
     unique: true,
     trim: true
   },
 
+  storageProvider: {
+    type: String,
+    enum: {
+      values: ['cloudinary', 'local', 's3'],
+      message: 'Storage provider must be cloudinary, local or s3'
+    },
+    default: 'cloudinary'
+  },
+
   url: {
     type: String,
     required: [true, 'Media URL is required'],
@@ -41,13 +51,15 @@ const mediaSchema = new mongoose.Schema({
     ]
   },
 
+  // HTTPS where the provider offers it; local disk and self-hosted object
+  // stores may only be reachable over plain HTTP
   secureUrl: {
     type: String,
     required: [true, 'Secure URL is required'],
     trim: true,
     match: [
-      /^https:\/\/.+/,
-      'Please provide a valid HTTPS URL'
+      /^https?:\/\/.+/,
+      'Please provide a valid URL'
     ]
   },
 
@@ -82,15 +94,15 @@ const mediaSchema = new mongoose.Schema({
     }
   },
 
+  // Dimensions are unknown when the storage provider can't analyse the file
+  // (videos and SVGs outside Cloudinary)
   width: {
     type: Number,
-    required: [true, 'Media width is required'],
     min: [1, 'Width must be greater than 0']
   },
 
   height: {
     type: Number,
-    required: [true, 'Media height is required'],
     min: [1, 'Height must be greater than 0']
   },
 
@@ -101,6 +113,13 @@ const mediaSchema = new mongoose.Schema({
     max: [52428800, 'File size cannot exceed 50MB'] // 50MB in bytes
   },
 
+  // SHA-256 of the uploaded file, used by players to verify cached copies
+  checksum: {
+    type: String,
+    lowercase: true,
+    match: [/^[a-f0-9]{64}$/, 'Checksum must be a SHA-256 hex digest']
+  },
+
   // Playback properties
   duration: {
     type: Number,
@@ -150,6 +169,11 @@ const mediaSchema = new mongoose.Schema({
     required: [true, 'Media owner is required'],
     index: true
   },
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+    index: true
+  },
 
   tags: [{
     type: String,
@@ -227,12 +251,14 @@ mediaSchema.index({ tags: 1 });
 mediaSchema.index({ isActive: 1 });
 mediaSchema.index({ createdAt: -1 });
 mediaSchema.index({ filename: 1 }, { unique: true });
-mediaSchema.index({ cloudinaryId: 1 }, { unique: true });
+mediaSchema.index({ storageKey: 1 }, { unique: true });
 mediaSchema.index({ usageCount: -1 });
 
 // Compound indexes for common queries
 mediaSchema.index({ owner: 1, isActive: 1, type: 1 });
 mediaSchema.index({ owner: 1, createdAt: -1 });
+mediaSchema.index({ organization: 1, isActive: 1, type: 1 });
+mediaSchema.index({ organization: 1, createdAt: -1 });
 
 // Virtual properties
 mediaSchema.virtual('aspectRatio').get(function() {
@@ -328,9 +354,9 @@ mediaSchema.methods.updateTags = function(newTags) {
   return this;
 };
 
-// Static methods for querying user media
-mediaSchema.statics.findUserMedia = function(userId, filters = {}) {
-  const query = { owner: userId, isActive: true };
+// Static methods for querying an organization's media
+mediaSchema.statics.findUserMedia = function(organizationId, filters = {}) {
+  const query = { organization: organizationId, isActive: true };
   
   // Apply filters
   if (filters.type) {
@@ -352,9 +378,9 @@ mediaSchema.statics.findUserMedia = function(userId, filters = {}) {
   return this.find(query);
 };
 
-mediaSchema.statics.getUserMediaStats = async function(userId) {
+mediaSchema.statics.getUserMediaStats = async function(organizationId) {
   const stats = await this.aggregate([
-    { $match: { owner: new mongoose.Types.ObjectId(userId), isActive: true } },
+    { $match: { organization: new mongoose.Types.ObjectId(organizationId), isActive: true } },
     {
       $group: {
         _id: null,
@@ -382,9 +408,9 @@ mediaSchema.statics.getUserMediaStats = async function(userId) {
   };
 };
 
-mediaSchema.statics.findRecentMedia = function(userId, limit = 10) {
+mediaSchema.statics.findRecentMedia = function(organizationId, limit = 10) {
   return this.find({ 
-    owner: userId, 
+    organization: organizationId, 
     isActive: true 
   })
   .sort({ createdAt: -1 })
@@ -392,9 +418,9 @@ mediaSchema.statics.findRecentMedia = function(userId, limit = 10) {
   .populate('owner', 'name email');
 };
 
-mediaSchema.statics.findPopularMedia = function(userId, limit = 10) {
+mediaSchema.statics.findPopularMedia = function(organizationId, limit = 10) {
   return this.find({ 
-    owner: userId, 
+    organization: organizationId, 
     isActive: true 
   })
   .sort({ usageCount: -1, createdAt: -1 })
@@ -402,16 +428,44 @@ mediaSchema.statics.findPopularMedia = function(userId, limit = 10) {
   .populate('owner', 'name email');
 };
 
-mediaSchema.statics.findByCloudinaryId = function(cloudinaryId) {
-  return this.findOne({ cloudinaryId, isActive: true });
+mediaSchema.statics.findByStorageKey = function(storageKey) {
+  return this.findOne({ storageKey, isActive: true });
+};
+
+/**
+ * Move media saved before pluggable storage from cloudinaryId to storageKey.
+ * Safe to run on every startup; it only touches documents not yet migrated
+ * @returns {Promise<number>} Number of documents migrated
+ */
+mediaSchema.statics.migrateLegacyStorageKeys = async function() {
+  const result = await this.collection.updateMany(
+    { storageKey: { $exists: false }, cloudinaryId: { $exists: true } },
+    [
+      { $set: { storageKey: '$cloudinaryId', storageProvider: 'cloudinary' } },
+      { $unset: 'cloudinaryId' }
+    ]
+  );
+
+  // The old unique index would reject every new document without a cloudinaryId
+  const indexes = await this.collection.indexes().catch(() => []);
+  if (indexes.some(index => index.name === 'cloudinaryId_1')) {
+    await this.collection.dropIndex('cloudinaryId_1');
+  }
+
+  // The storageKey index can't be built while legacy documents lack the field
+  if (result.modifiedCount > 0) {
+    await this.createIndexes();
+  }
+
+  return result.modifiedCount;
 };
 
-mediaSchema.statics.findDuplicates = function(userId) {
+mediaSchema.statics.findDuplicates = function(organizationId) {
   return this.aggregate([
-    { $match: { owner: new mongoose.Types.ObjectId(userId), isActive: true } },
+    { $match: { organization: new mongoose.Types.ObjectId(organizationId), isActive: true } },
     {
       $group: {
-        _id: '$cloudinaryId',
+        _id: '$storageKey',
         count: { $sum: 1 },
         files: { $push: '$$ROOT' }
       }
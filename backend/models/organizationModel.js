@@ -0,0 +1,268 @@
+const mongoose = require('mongoose');
+const {
+  ALL_PERMISSIONS,
+  FIXED_ROLES,
+  DEFAULT_ROLE_PERMISSIONS,
+  ROLES
+} = require('../config/permissions');
+
+/**
+ * Organization model
+ * A workspace shared by its members. Screens, media, playlists and the
+ * resources built on them belong to an organization; the user who created a
+ * document stays recorded as its owner. Every user gets a personal
+ * organization, and can be invited into others by email. What a member may
+ * do follows from their role's permissions (see config/permissions)
+ */
+
+const MEMBER_ROLES = ROLES;
+
+// Owners manage everyone, admins everyone but owners; other roles rank equally
+const ROLE_RANK = { owner: 2, admin: 1 };
+const rankOf = (role) => ROLE_RANK[role] || 0;
+
+// Invitations are accepted from the dashboard within this window
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const memberSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Member user is required']
+  },
+  role: {
+    type: String,
+    enum: {
+      values: MEMBER_ROLES,
+      message: 'Unknown member role'
+    },
+    default: 'member'
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const invitationSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: [true, 'Invitation email is required'],
+    trim: true,
+    lowercase: true,
+    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
+  },
+  role: {
+    type: String,
+    enum: {
+      values: MEMBER_ROLES.filter(role => role !== 'owner'),
+      message: 'Invited role must not be owner'
+    },
+    default: 'member'
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  expiresAt: {
+    type: Date,
+    default: () => new Date(Date.now() + INVITATION_TTL_MS)
+  }
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+const organizationSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Organization name is required'],
+    trim: true,
+    maxlength: [100, 'Organization name cannot exceed 100 characters']
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Organization creator is required']
+  },
+
+  // Created automatically for a user; cannot be left by its owner
+  isPersonal: {
+    type: Boolean,
+    default: false
+  },
+
+  members: [memberSchema],
+  invitations: [invitationSchema],
+
+  // Permissions of configurable roles, where they differ from the defaults
+  rolePermissions: {
+    type: Map,
+    of: [String],
+    default: {}
+  },
+
+  // Playlists go through review before they reach screens (see playlistModel approval)
+  requireApproval: {
+    type: Boolean,
+    default: false
+  },
+
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes
+organizationSchema.index({ 'members.user': 1 });
+organizationSchema.index({ 'invitations.email': 1 });
+
+// Virtuals
+organizationSchema.virtual('memberCount').get(function() {
+  return this.members ? this.members.length : 0;
+});
+
+// Instance methods
+
+/**
+ * A user's role in this organization, or null when not a member
+ */
+organizationSchema.methods.getMemberRole = function(userId) {
+  if (!userId) return null;
+
+  const id = userId.toString();
+  const member = this.members.find(m => (m.user._id || m.user).toString() === id);
+  return member ? member.role : null;
+};
+
+/**
+ * Whether a user's role is at least the given one
+ */
+organizationSchema.methods.hasRole = function(userId, minimumRole) {
+  const role = this.getMemberRole(userId);
+  return role !== null && rankOf(role) >= rankOf(minimumRole);
+};
+
+/**
+ * Permissions a role grants in this organization
+ */
+organizationSchema.methods.getRolePermissions = function(role) {
+  if (FIXED_ROLES.includes(role)) return ALL_PERMISSIONS;
+  return this.rolePermissions?.get(role) || DEFAULT_ROLE_PERMISSIONS[role] || [];
+};
+
+/**
+ * Change what a configurable role may do; unknown permissions are dropped
+ */
+organizationSchema.methods.setRolePermissions = function(role, permissions) {
+  if (FIXED_ROLES.includes(role) || !MEMBER_ROLES.includes(role)) {
+    throw new Error(`The ${role} role cannot be configured`);
+  }
+
+  this.rolePermissions.set(role, ALL_PERMISSIONS.filter(permission => permissions.includes(permission)));
+};
+
+/**
+ * Permissions a user holds in this organization; none when not a member
+ */
+organizationSchema.methods.getPermissions = function(userId) {
+  const role = this.getMemberRole(userId);
+  return role ? this.getRolePermissions(role) : [];
+};
+
+/**
+ * Whether a user holds a permission in this organization
+ */
+organizationSchema.methods.can = function(userId, permission) {
+  return this.getPermissions(userId).includes(permission);
+};
+
+/**
+ * Invitations that can still be accepted
+ */
+organizationSchema.methods.getPendingInvitations = function() {
+  const now = Date.now();
+  return this.invitations.filter(invitation => invitation.expiresAt.getTime() > now);
+};
+
+/**
+ * Invite an email address, replacing any earlier invitation for it
+ */
+organizationSchema.methods.invite = function(email, role, invitedBy) {
+  const normalized = email.trim().toLowerCase();
+  this.invitations = this.invitations.filter(invitation => invitation.email !== normalized);
+  this.invitations.push({ email: normalized, role, invitedBy });
+  return this.invitations[this.invitations.length - 1];
+};
+
+/**
+ * Add a user, or update their role when already a member
+ */
+organizationSchema.methods.addMember = function(userId, role = 'member') {
+  const id = userId.toString();
+  const member = this.members.find(m => (m.user._id || m.user).toString() === id);
+
+  if (member) {
+    member.role = role;
+  } else {
+    this.members.push({ user: userId, role });
+  }
+};
+
+/**
+ * Remove a user; returns false when they were not a member
+ */
+organizationSchema.methods.removeMember = function(userId) {
+  const id = userId.toString();
+  const before = this.members.length;
+  this.members = this.members.filter(m => (m.user._id || m.user).toString() !== id);
+  return this.members.length < before;
+};
+
+/**
+ * Number of members with the owner role
+ */
+organizationSchema.methods.countOwners = function() {
+  return this.members.filter(m => m.role === 'owner').length;
+};
+
+// Static methods
+
+/**
+ * Active organizations a user belongs to
+ */
+organizationSchema.statics.findForUser = function(userId) {
+  return this.find({ 'members.user': userId, isActive: true }).sort({ isPersonal: -1, name: 1 });
+};
+
+/**
+ * An active organization, only when the user is a member
+ */
+organizationSchema.statics.findMembership = function(organizationId, userId) {
+  if (!mongoose.Types.ObjectId.isValid(organizationId)) {
+    return Promise.resolve(null);
+  }
+
+  return this.findOne({ _id: organizationId, 'members.user': userId, isActive: true });
+};
+
+/**
+ * Organizations with a pending invitation for an email address
+ */
+organizationSchema.statics.findInvitationsFor = function(email) {
+  return this.find({
+    isActive: true,
+    invitations: {
+      $elemMatch: {
+        email: email.toLowerCase(),
+        expiresAt: { $gt: new Date() }
+      }
+    }
+  });
+};
+
+organizationSchema.statics.MEMBER_ROLES = MEMBER_ROLES;
+
+module.exports = mongoose.model('Organization', organizationSchema);
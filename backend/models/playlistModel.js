@@ -1,4 +1,6 @@
 const mongoose = require('mongoose');
+const { isScheduleActiveAt } = require('../utils/scheduleUtils');
+const { FIXED_ROLES } = require('../config/permissions');
 
 /**
  * Playlist model for managing digital signage content playlists
@@ -57,7 +59,7 @@ const playlistItemSchema = new mongoose.Schema({
     type: {
       type: String,
       enum: {
-        values: ['time-range', 'date-range', 'day-of-week', 'weather', 'custom'],
+        values: ['time-range', 'date-range', 'day-of-week', 'weather', 'custom', 'data'],
         message: 'Invalid condition type'
       }
     },
@@ -68,6 +70,13 @@ const playlistItemSchema = new mongoose.Schema({
         message: 'Invalid condition operator'
       }
     },
+    // Screen attribute a custom condition compares (e.g. region), or the
+    // data feed value a data condition compares (e.g. queue.length)
+    key: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Condition key cannot exceed 50 characters']
+    },
     value: {
       type: String,
       required: [true, 'Condition value is required'],
@@ -97,6 +106,41 @@ const playlistItemSchema = new mongoose.Schema({
   timestamps: false
 });
 
+// Approval lifecycle of a playlist's content. Edits move it back to draft;
+// submitted content is approved or rejected by a reviewer, and approved
+// content reaches screens once published. Versions name the playlist version
+// whose content each step applies to
+const APPROVAL_STATUSES = ['draft', 'submitted', 'approved', 'published'];
+const APPROVAL_ACTIONS = ['comment', 'submit', 'approve', 'reject', 'publish'];
+
+// Saving any of these changes what screens would play
+const CONTENT_PATHS = ['name', 'description', 'isPublic', 'tags', 'settings', 'schedule', 'items'];
+
+const approvalCommentSchema = new mongoose.Schema({
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Comment author is required']
+  },
+  action: {
+    type: String,
+    enum: {
+      values: APPROVAL_ACTIONS,
+      message: 'Invalid approval action'
+    },
+    default: 'comment'
+  },
+  body: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Comment cannot exceed 1000 characters']
+  },
+  version: Number
+}, {
+  _id: true,
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
 // Main Playlist schema
 const playlistSchema = new mongoose.Schema({
   name: {
@@ -137,6 +181,11 @@ const playlistSchema = new mongoose.Schema({
     required: [true, 'Playlist owner is required'],
     index: true
   },
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+    index: true
+  },
 
   // Collaborative editing permissions
   collaborators: [{
@@ -180,6 +229,38 @@ const playlistSchema = new mongoose.Schema({
     ref: 'Screen'
   }],
 
+  // Review before content goes live, in organizations that require it
+  approval: {
+    status: {
+      type: String,
+      enum: {
+        values: APPROVAL_STATUSES,
+        message: 'Invalid approval status'
+      },
+      default: 'draft'
+    },
+    submittedVersion: Number,
+    submittedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    submittedAt: Date,
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reviewedAt: Date,
+    approvedVersion: Number,
+    // Screens play this version while newer edits are pending
+    publishedVersion: Number,
+    publishedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    publishedAt: Date,
+    comments: [approvalCommentSchema]
+  },
+
   // Scheduling configuration
   schedule: {
     startDate: {
@@ -302,6 +383,65 @@ const playlistSchema = new mongoose.Schema({
       default: 0,
       min: [0, 'Pause between items cannot be negative'],
       max: [30, 'Pause between items cannot exceed 30 seconds']
+    },
+    // Queue priority when the playlist is assigned without an explicit one
+    priority: {
+      type: Number,
+      default: 1,
+      min: [1, 'Priority must be at least 1'],
+      max: [10, 'Priority cannot exceed 10']
+    },
+    // How long images play when the item sets no duration; null keeps the media's own
+    defaultItemDuration: {
+      type: Number,
+      default: null,
+      min: [1, 'Default item duration must be at least 1 second'],
+      max: [7200, 'Default item duration cannot exceed 2 hours']
+    },
+    // When false, item duration overrides are ignored
+    allowDurationOverride: {
+      type: Boolean,
+      default: true
+    },
+    // Used by items whose own transition is 'none'
+    defaultTransition: {
+      type: {
+        type: String,
+        enum: {
+          values: ['none', 'fade', 'slide-left', 'slide-right', 'slide-up', 'slide-down', 'zoom-in', 'zoom-out'],
+          message: 'Invalid transition type'
+        },
+        default: 'none'
+      },
+      duration: {
+        type: Number,
+        min: [0.1, 'Transition duration must be at least 0.1 seconds'],
+        max: [5, 'Transition duration cannot exceed 5 seconds'],
+        default: 0.5
+      },
+      easing: {
+        type: String,
+        enum: {
+          values: ['ease-in', 'ease-out', 'ease-in-out', 'linear'],
+          message: 'Invalid transition easing'
+        },
+        default: 'ease-in-out'
+      }
+    },
+    backgroundColor: {
+      type: String,
+      default: '#000000',
+      match: [/^#[0-9a-fA-F]{6}$/, 'Background color must be a hex color like #000000']
+    },
+    textColor: {
+      type: String,
+      default: '#ffffff',
+      match: [/^#[0-9a-fA-F]{6}$/, 'Text color must be a hex color like #ffffff']
+    },
+    // Show the item name and position over the content on screens
+    showMetadata: {
+      type: Boolean,
+      default: false
     }
   },
 
@@ -340,6 +480,7 @@ const playlistSchema = new mongoose.Schema({
 playlistSchema.index({ owner: 1 });
 playlistSchema.index({ isActive: 1 });
 playlistSchema.index({ owner: 1, isActive: 1 });
+playlistSchema.index({ organization: 1, isActive: 1 });
 playlistSchema.index({ assignedScreens: 1 });
 playlistSchema.index({ tags: 1 });
 playlistSchema.index({ createdAt: -1 });
@@ -349,6 +490,7 @@ playlistSchema.index({ name: 'text', description: 'text', tags: 'text' });
 // Compound indexes for common queries
 playlistSchema.index({ owner: 1, isActive: 1, createdAt: -1 });
 playlistSchema.index({ assignedScreens: 1, isActive: 1 });
+playlistSchema.index({ organization: 1, 'approval.status': 1 });
 playlistSchema.index({ 'schedule.startDate': 1, 'schedule.endDate': 1 });
 
 // Virtual properties
@@ -366,31 +508,7 @@ playlistSchema.virtual('isScheduled').get(function() {
 });
 
 playlistSchema.virtual('isCurrentlyActive').get(function() {
-  if (!this.isActive) return false;
-  
-  const now = new Date();
-  const schedule = this.schedule;
-  
-  // Check date range
-  if (schedule.startDate && now < schedule.startDate) return false;
-  if (schedule.endDate && now > schedule.endDate) return false;
-  
-  // Check day of week
-  if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
-    const currentDay = now.getDay();
-    if (!schedule.daysOfWeek.includes(currentDay)) return false;
-  }
-  
-  // Check time slots
-  if (schedule.timeSlots && schedule.timeSlots.length > 0) {
-    const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-    const isInTimeSlot = schedule.timeSlots.some(slot => {
-      return currentTime >= slot.startTime && currentTime <= slot.endTime;
-    });
-    if (!isInTimeSlot) return false;
-  }
-  
-  return true;
+  return this.isScheduledAt(new Date(), this.schedule?.timezone);
 });
 
 // Pre-save hooks for data validation and calculations
@@ -423,6 +541,11 @@ playlistSchema.pre('save', async function(next) {
       });
     }
 
+    // Edits need a fresh review; whatever was published keeps playing meanwhile
+    if (!this.isNew && this.approval?.status !== 'draft' && CONTENT_PATHS.some(path => this.isModified(path))) {
+      this.approval.status = 'draft';
+    }
+
     // Calculate total duration and item count
     if (this.isModified('items')) {
       winston.debug('Items modified, calculating totals:', {
@@ -538,6 +661,31 @@ playlistSchema.pre('save', async function(next) {
 });
 
 // Instance methods
+
+/**
+ * How long an item plays, in seconds, under the playlist's duration settings.
+ * An item's own duration wins unless overrides are disabled; otherwise images
+ * use the playlist's default duration, then their own, and videos their length
+ * @param {Object} item - Playlist item, with mediaId populated for the media fallback
+ * @returns {number|null} Duration, or null when nothing sets one
+ */
+playlistSchema.methods.getItemDuration = function(item) {
+  const settings = this.settings || {};
+
+  if (item.duration && settings.allowDurationOverride !== false) {
+    return item.duration;
+  }
+
+  const media = item.mediaId && item.mediaId.type ? item.mediaId : null;
+  if (!media) {
+    return settings.defaultItemDuration || null;
+  }
+
+  return media.type === 'image'
+    ? settings.defaultItemDuration || media.duration || null
+    : media.videoDuration || settings.defaultItemDuration || null;
+};
+
 playlistSchema.methods.calculateTotals = async function() {
   const winston = require('winston');
   
@@ -601,28 +749,16 @@ playlistSchema.methods.calculateTotals = async function() {
         continue;
       }
       
-      // Use custom duration if specified, otherwise use media default
-      let itemDuration = item.duration;
-      if (!itemDuration && item.mediaId) {
-        const media = item.mediaId;
-        if (media && typeof media === 'object') {
-          itemDuration = media.type === 'image' ? media.duration : media.videoDuration;
-          winston.debug(`Using media default duration:`, {
-            service: 'playlist-model',
-            playlistId: this._id,
-            itemId: item._id,
-            mediaType: media.type,
-            duration: itemDuration
-          });
-        } else {
-          winston.warn(`Media data not populated properly:`, {
-            service: 'playlist-model',
-            playlistId: this._id,
-            itemId: item._id,
-            mediaId: item.mediaId,
-            mediaType: typeof item.mediaId
-          });
-        }
+      // Item duration, playlist default or media default, per the playlist settings
+      const itemDuration = this.getItemDuration(item);
+      if (!itemDuration && !item.mediaId.type) {
+        winston.warn(`Media data not populated properly:`, {
+          service: 'playlist-model',
+          playlistId: this._id,
+          itemId: item._id,
+          mediaId: item.mediaId,
+          mediaType: typeof item.mediaId
+        });
       }
       
       const finalItemDuration = itemDuration || 0;
@@ -748,11 +884,41 @@ playlistSchema.methods.reorderItems = function(newOrder) {
   this.items = reorderedItems;
 };
 
+/**
+ * Replace the item list, e.g. with a merged copy from the editor. Items are
+ * ordered as given; items with a known id keep their metadata, the rest are added
+ */
+playlistSchema.methods.replaceItems = function(items, addedBy) {
+  const existingItems = new Map(this.items.map(item => [item._id.toString(), item]));
+
+  this.items = items.map((item, index) => {
+    const existing = item.id && existingItems.has(item.id) ? existingItems.get(item.id).toObject() : null;
+    const metadata = existing
+      ? { ...existing.metadata }
+      : { addedAt: new Date(), addedBy: addedBy || this.owner, notes: '' };
+
+    if (item.notes !== undefined) {
+      metadata.notes = item.notes;
+    }
+
+    return {
+      ...(existing ? { _id: existing._id } : {}),
+      mediaId: item.mediaId,
+      order: index,
+      duration: item.duration ?? undefined,
+      transitions: item.transitions || existing?.transitions || { type: 'none', duration: 0.5 },
+      conditions: item.conditions || existing?.conditions || [],
+      metadata
+    };
+  });
+};
+
 playlistSchema.methods.duplicate = function(newName, newOwner) {
   const duplicatedPlaylist = {
     name: newName || `${this.name} (Copy)`,
     description: this.description,
     owner: newOwner || this.owner,
+    organization: this.organization,
     items: this.items.map(item => ({
       mediaId: item.mediaId,
       order: item.order,
@@ -796,6 +962,15 @@ playlistSchema.methods.recordPlayback = function(screenId, duration, completionR
   }
 };
 
+/**
+ * Whether the playlist may play at an instant, reading its schedule in the
+ * given timezone (a screen's local timezone when resolving what it plays)
+ */
+playlistSchema.methods.isScheduledAt = function(date, timezone) {
+  if (!this.isActive) return false;
+  return isScheduleActiveAt(this.schedule, date, timezone || this.schedule?.timezone);
+};
+
 playlistSchema.methods.getScheduleStatus = function() {
   const now = new Date();
   const schedule = this.schedule;
@@ -822,11 +997,64 @@ playlistSchema.methods.getScheduleStatus = function() {
   return { status: 'inactive', message: 'Not currently in scheduled time window' };
 };
 
+/**
+ * Permission members of a playlist's organization hold: admin for the
+ * organization's owners and admins, otherwise what their role's permissions allow
+ * @param {Object} [workspace] - { organization, role, permissions }
+ * @returns {string|null} 'admin', 'edit', 'view' or null
+ */
+const workspaceGrant = (workspace) => {
+  if (!workspace) return null;
+  if (FIXED_ROLES.includes(workspace.role)) return 'admin';
+
+  const permissions = workspace.permissions || [];
+  if (permissions.includes('playlist:edit')) return 'edit';
+  if (permissions.includes('playlist:view')) return 'view';
+  return null;
+};
+
+const PERMISSION_RANK = ['view', 'edit', 'admin'];
+
+/**
+ * A user's permission on this playlist: 'owner', the higher of their
+ * organization and collaborator permissions, 'view' for a public playlist,
+ * or null without access
+ * @param {string} userId - User ID
+ * @param {Object} [workspace] - { organization, role, permissions } the user is working in
+ * @returns {string|null}
+ */
+playlistSchema.methods.getPermission = function(userId, workspace) {
+  const id = userId.toString();
+  const toId = (value) => (value?._id || value)?.toString();
+
+  if (toId(this.owner) === id) {
+    return 'owner';
+  }
+
+  const granted = [];
+
+  if (workspace && toId(this.organization) === toId(workspace.organization)) {
+    granted.push(workspaceGrant(workspace));
+  }
+
+  const collaborator = (this.collaborators || []).find(entry => toId(entry.user) === id);
+  if (collaborator) {
+    granted.push(collaborator.permission);
+  }
+
+  if (this.isPublic) {
+    granted.push('view');
+  }
+
+  const ranked = granted.filter(Boolean).sort((a, b) => PERMISSION_RANK.indexOf(b) - PERMISSION_RANK.indexOf(a));
+  return ranked[0] || null;
+};
+
 // Static methods for querying playlists
-playlistSchema.statics.findUserPlaylists = function(userId, filters = {}) {
+playlistSchema.statics.findUserPlaylists = function(userId, organizationId, filters = {}) {
   const query = { 
     $or: [
-      { owner: userId },
+      { organization: organizationId },
       { 'collaborators.user': userId }
     ],
     isActive: true 
@@ -848,6 +1076,156 @@ playlistSchema.statics.findUserPlaylists = function(userId, filters = {}) {
   return this.find(query);
 };
 
+// Collaborator permissions that include each level; owners have every level
+const PERMISSION_LEVELS = {
+  view: ['view', 'edit', 'admin'],
+  edit: ['edit', 'admin'],
+  admin: ['admin']
+};
+
+/**
+ * Query condition for playlists a user holds at least the given permission on,
+ * matching getPermission. Anyone may view a public playlist
+ * @param {string} userId - User ID
+ * @param {string} permission - 'view', 'edit' or 'admin'
+ * @param {Object} [workspace] - { organization, role, permissions } the user is working in;
+ *   without one only the user's own playlists count
+ * @returns {Object} $or condition to spread into a playlist query
+ */
+playlistSchema.statics.accessFilter = function(userId, permission = 'view', workspace) {
+  let ownCondition = { owner: userId };
+
+  if (workspace) {
+    const roleGrant = workspaceGrant(workspace);
+    ownCondition = PERMISSION_LEVELS[permission].includes(roleGrant)
+      ? { organization: workspace.organization }
+      : { organization: workspace.organization, owner: userId };
+  }
+
+  const conditions = [
+    ownCondition,
+    // $elemMatch so the user and the permission come from the same collaborator entry
+    { collaborators: { $elemMatch: { user: userId, permission: { $in: PERMISSION_LEVELS[permission] } } } }
+  ];
+
+  if (permission === 'view') {
+    conditions.push({ isPublic: true });
+  }
+
+  return { $or: conditions };
+};
+
+/**
+ * Query condition for playlists a user may put on the workspace's screens:
+ * the organization's own when their role can publish, and ones shared with
+ * them as admin
+ * @param {string} userId - User ID
+ * @param {Object} workspace - { organization, role, permissions } the user is working in
+ * @returns {Object} $or condition to spread into a playlist query
+ */
+playlistSchema.statics.publishFilter = function(userId, workspace) {
+  const conditions = [
+    { collaborators: { $elemMatch: { user: userId, permission: 'admin' } } }
+  ];
+
+  if (workspace.permissions.includes('playlist:publish')) {
+    conditions.unshift({ organization: workspace.organization });
+  }
+
+  return { $or: conditions };
+};
+
+playlistSchema.statics.workspaceGrant = workspaceGrant;
+
+/**
+ * Whether the playlist may be put on screens in a workspace: always, unless
+ * the organization requires approval and no version has been published yet
+ * @param {Object} workspace - { requireApproval }
+ * @returns {boolean}
+ */
+playlistSchema.methods.canGoLive = function(workspace) {
+  return !workspace?.requireApproval || this.approval?.publishedVersion != null;
+};
+
+/**
+ * The playlist as it was last published, for screens to keep playing while
+ * newer edits await approval. The content of a version is its latest revision
+ * at or before it, since saves that change no content record none
+ * @returns {Promise<Object|null>} Unsaved playlist document, or null when
+ *   nothing newer than the published version is pending
+ */
+playlistSchema.methods.getPublishedContent = async function() {
+  const { status, publishedVersion } = this.approval || {};
+  if (publishedVersion == null || status === 'published') return null;
+
+  const revision = await mongoose.model('PlaylistRevision')
+    .findOne({ playlist: this._id, version: { $lte: publishedVersion } })
+    .sort({ version: -1 });
+  if (!revision) return null;
+
+  const { snapshot } = revision.toObject();
+  const current = this.toObject({ depopulate: true, virtuals: false });
+
+  return this.constructor.hydrate({
+    ...current,
+    name: snapshot.name,
+    version: publishedVersion,
+    // Revisions saved before a setting existed leave it as it is
+    settings: {
+      ...current.settings,
+      ...Object.fromEntries(Object.entries(snapshot.settings || {}).filter(([, setting]) => setting !== undefined))
+    },
+    schedule: snapshot.schedule,
+    items: snapshot.items.map(item => ({
+      _id: item.itemId,
+      mediaId: item.mediaId,
+      order: item.order,
+      duration: item.duration,
+      transitions: item.transitions,
+      conditions: item.conditions,
+      metadata: { notes: item.notes }
+    }))
+  });
+};
+
+/**
+ * Treat what an organization's assigned playlists play now as published, so
+ * turning approval on holds back later edits instead of taking screens dark
+ * @param {string|Object} organizationId - Organization id
+ * @returns {Promise<number>} Number of playlists marked published
+ */
+playlistSchema.statics.publishLiveContent = async function(organizationId) {
+  const result = await this.updateMany(
+    {
+      organization: organizationId,
+      isActive: true,
+      'assignedScreens.0': { $exists: true },
+      'approval.publishedVersion': null
+    },
+    [{
+      $set: {
+        'approval.status': 'published',
+        'approval.approvedVersion': '$version',
+        'approval.publishedVersion': '$version',
+        'approval.publishedAt': '$$NOW'
+      }
+    }]
+  );
+  return result.modifiedCount;
+};
+
+playlistSchema.statics.APPROVAL_STATUSES = APPROVAL_STATUSES;
+
+/**
+ * Whether a permission returned by getPermission covers the required level
+ * @param {string|null} granted - 'owner', 'admin', 'edit', 'view' or null
+ * @param {string} required - 'view', 'edit' or 'admin'
+ * @returns {boolean}
+ */
+playlistSchema.statics.permits = function(granted, required) {
+  return granted === 'owner' || (!!granted && PERMISSION_LEVELS[required].includes(granted));
+};
+
 playlistSchema.statics.findActiveForScreen = function(screenId) {
   const now = new Date();
   
@@ -861,14 +1239,11 @@ playlistSchema.statics.findActiveForScreen = function(screenId) {
   }).populate('items.mediaId', 'url secureUrl type duration videoDuration');
 };
 
-playlistSchema.statics.getUserPlaylistStats = async function(userId) {
+playlistSchema.statics.getUserPlaylistStats = async function(organizationId) {
   const stats = await this.aggregate([
     { 
       $match: { 
-        $or: [
-          { owner: new mongoose.Types.ObjectId(userId) },
-          { 'collaborators.user': new mongoose.Types.ObjectId(userId) }
-        ],
+        organization: new mongoose.Types.ObjectId(organizationId),
         isActive: true 
       } 
     },
@@ -0,0 +1,135 @@
+const mongoose = require('mongoose');
+const winston = require('winston');
+const { snapshotPlaylist, diffSnapshots, summarizeDiff } = require('../utils/playlistDiff');
+
+/**
+ * Playlist revision model
+ * A snapshot of a playlist's content (details, items, settings and schedule)
+ * taken each time a save changes it, with who saved it and a summary of what
+ * changed. Restoring an old revision saves its content as a new revision, so
+ * history only ever grows
+ */
+
+const revisionItemSchema = new mongoose.Schema({
+  itemId: {
+    type: String,
+    required: true
+  },
+  mediaId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Media',
+    required: true
+  },
+  order: Number,
+  duration: Number,
+  transitions: mongoose.Schema.Types.Mixed,
+  conditions: mongoose.Schema.Types.Mixed,
+  notes: String
+}, { _id: false });
+
+const playlistRevisionSchema = new mongoose.Schema({
+  playlist: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Playlist',
+    required: [true, 'Playlist is required']
+  },
+  // Playlist version this snapshot was saved as
+  version: {
+    type: Number,
+    required: [true, 'Version is required'],
+    min: [1, 'Version must be at least 1']
+  },
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Revision author is required']
+  },
+  summary: {
+    type: String,
+    maxlength: [500, 'Summary cannot exceed 500 characters']
+  },
+  // Version whose content this revision brought back, when it was a restore
+  restoredFrom: Number,
+
+  snapshot: {
+    name: String,
+    description: String,
+    isPublic: Boolean,
+    tags: [String],
+    settings: mongoose.Schema.Types.Mixed,
+    schedule: mongoose.Schema.Types.Mixed,
+    items: [revisionItemSchema]
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+playlistRevisionSchema.index({ playlist: 1, version: -1 }, { unique: true });
+
+/**
+ * Capture a playlist's content before changing it, so the first save after
+ * history was introduced can still show what it changed
+ * @param {Object} playlist - Playlist document
+ * @returns {{ version: number, snapshot: Object }}
+ */
+playlistRevisionSchema.statics.capture = function(playlist) {
+  return { version: playlist.version, snapshot: snapshotPlaylist(playlist) };
+};
+
+/**
+ * Record a saved playlist as a new revision. History is best effort: a failure
+ * is logged and never fails the save it describes
+ * @param {Object} playlist - Playlist document, after saving
+ * @param {string} authorId - User who saved it
+ * @param {Object} options - { previous: result of capture(), restoredFrom, summary }
+ * @returns {Promise<Object|null>} The revision, or null when nothing was recorded
+ */
+playlistRevisionSchema.statics.record = async function(playlist, authorId, options = {}) {
+  const { previous, restoredFrom } = options;
+
+  try {
+    const snapshot = snapshotPlaylist(playlist);
+    let last = await this.findOne({ playlist: playlist._id }).sort({ version: -1 });
+
+    // Playlists saved before history existed get their earlier state as the first revision
+    if (!last && previous && previous.version < playlist.version) {
+      last = await this.create({
+        playlist: playlist._id,
+        version: previous.version,
+        author: playlist.owner,
+        summary: 'Earliest recorded version',
+        snapshot: previous.snapshot
+      });
+    }
+
+    const diff = diffSnapshots(last?.toObject().snapshot, snapshot);
+
+    // Saves that only touch assignments or analytics are not revisions
+    if (last && !diff.hasChanges && !restoredFrom) {
+      return null;
+    }
+
+    const summary = restoredFrom
+      ? `Restored version ${restoredFrom}`
+      : options.summary || (last ? summarizeDiff(diff) : 'Created playlist');
+
+    return await this.create({
+      playlist: playlist._id,
+      version: playlist.version,
+      author: authorId,
+      summary,
+      restoredFrom,
+      snapshot
+    });
+  } catch (error) {
+    winston.error('Failed to record playlist revision:', {
+      service: 'playlist-revision',
+      playlistId: playlist._id,
+      version: playlist.version,
+      error: error.message
+    });
+    return null;
+  }
+};
+
+module.exports = mongoose.model('PlaylistRevision', playlistRevisionSchema);
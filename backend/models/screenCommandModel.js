@@ -0,0 +1,125 @@
+const mongoose = require('mongoose');
+
+/**
+ * Screen command model
+ * A remote command sent to a display over the screen socket. Each command is
+ * tracked from pending until the device acknowledges it, reports a failure, or
+ * does not answer in time, and keeps any result the device sends back
+ * (for example a screenshot)
+ */
+
+const COMMAND_TYPES = ['restart', 'reload', 'screenshot', 'set-volume', 'set-brightness'];
+
+// How long a device has to answer each command type
+const COMMAND_TIMEOUTS = {
+  restart: 30 * 1000,
+  reload: 30 * 1000,
+  screenshot: 60 * 1000,
+  'set-volume': 15 * 1000,
+  'set-brightness': 15 * 1000
+};
+
+// Command history, screenshots included, is only kept for a week
+const COMMAND_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+const screenCommandSchema = new mongoose.Schema({
+  screen: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Screen',
+    required: [true, 'Screen is required'],
+    index: true
+  },
+  owner: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Command owner is required']
+  },
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+    index: true
+  },
+  issuedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Issuing user is required']
+  },
+
+  type: {
+    type: String,
+    enum: {
+      values: COMMAND_TYPES,
+      message: 'Unknown command type'
+    },
+    required: [true, 'Command type is required']
+  },
+  params: {
+    value: {
+      type: Number,
+      min: [0, 'Value cannot be below 0'],
+      max: [100, 'Value cannot exceed 100']
+    }
+  },
+
+  status: {
+    type: String,
+    enum: ['pending', 'acked', 'failed', 'timeout'],
+    default: 'pending',
+    index: true
+  },
+
+  // Whatever the device reported back, e.g. { image } for screenshots
+  result: mongoose.Schema.Types.Mixed,
+  error: {
+    type: String,
+    maxlength: [500, 'Error cannot exceed 500 characters']
+  },
+
+  sentAt: Date,
+  respondedAt: Date,
+  timeoutAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes
+screenCommandSchema.index({ screen: 1, createdAt: -1 });
+screenCommandSchema.index({ status: 1, timeoutAt: 1 });
+screenCommandSchema.index({ createdAt: 1 }, { expireAfterSeconds: COMMAND_RETENTION_SECONDS });
+
+// Instance methods
+
+/**
+ * Payload sent to the player over the screen socket
+ */
+screenCommandSchema.methods.toDeviceCommand = function() {
+  return {
+    commandId: this._id.toString(),
+    type: this.type,
+    params: this.params?.value !== undefined ? { value: this.params.value } : {},
+    issuedAt: this.createdAt
+  };
+};
+
+// Static methods
+
+screenCommandSchema.statics.getTimeout = function(type) {
+  return COMMAND_TIMEOUTS[type] || 30 * 1000;
+};
+
+/**
+ * Most recent commands for a screen, newest first
+ */
+screenCommandSchema.statics.findRecentForScreen = function(screenId, limit = 20) {
+  return this.find({ screen: screenId })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .populate('issuedBy', 'name email');
+};
+
+module.exports = mongoose.model('ScreenCommand', screenCommandSchema);
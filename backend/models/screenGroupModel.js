@@ -0,0 +1,246 @@
+const mongoose = require('mongoose');
+
+/**
+ * Screen group model
+ * Groups organise an organization's screens for bulk targeting, and can be nested
+ * (region → store → zone). A screen belongs to a group when it is listed
+ * explicitly or carries the group's tags; a group also covers every screen
+ * in its descendant groups
+ */
+
+// Guards against runaway parent chains when walking the hierarchy
+const MAX_DEPTH = 10;
+
+const screenGroupSchema = new mongoose.Schema({
+  owner: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Group owner is required'],
+    index: true
+  },
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+    index: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Group name is required'],
+    trim: true,
+    maxlength: [100, 'Group name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  color: {
+    type: String,
+    match: [/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color like #1e40af']
+  },
+
+  // Parent group, null for top-level groups
+  parent: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ScreenGroup',
+    default: null
+  },
+
+  // Static membership
+  screens: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Screen'
+  }],
+
+  // Dynamic membership: screens carrying any (or all) of these tags
+  tags: [{
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: [30, 'Tag cannot exceed 30 characters']
+  }],
+  tagMatch: {
+    type: String,
+    enum: {
+      values: ['any', 'all'],
+      message: 'Tag match must be any or all'
+    },
+    default: 'any'
+  },
+
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Indexes
+screenGroupSchema.index({ owner: 1, parent: 1, name: 1 });
+screenGroupSchema.index({ organization: 1, parent: 1, name: 1 });
+screenGroupSchema.index({ screens: 1 });
+
+// Instance methods
+
+/**
+ * Whether a screen is a direct member, listed explicitly or by tag
+ */
+screenGroupSchema.methods.matchesScreen = function(screen) {
+  const screenId = screen._id.toString();
+  if (this.screens.some(id => (id._id || id).toString() === screenId)) {
+    return true;
+  }
+
+  if (this.tags.length === 0) return false;
+
+  const screenTags = screen.tags || [];
+  return this.tagMatch === 'all'
+    ? this.tags.every(tag => screenTags.includes(tag))
+    : this.tags.some(tag => screenTags.includes(tag));
+};
+
+/**
+ * Query conditions matching this group's direct members
+ */
+screenGroupSchema.methods.toScreenConditions = function() {
+  const conditions = [];
+
+  if (this.screens.length > 0) {
+    conditions.push({ _id: { $in: this.screens } });
+  }
+  if (this.tags.length > 0) {
+    conditions.push({ tags: { [this.tagMatch === 'all' ? '$all' : '$in']: this.tags } });
+  }
+
+  return conditions;
+};
+
+// Static methods
+
+/**
+ * Active groups of an organization
+ */
+screenGroupSchema.statics.findUserGroups = function(organizationId) {
+  return this.find({ organization: organizationId, isActive: true }).sort({ name: 1 });
+};
+
+/**
+ * The given groups plus all of their descendants
+ * @param {Array} groups - All of an organization's groups
+ * @param {Array} groupIds - Groups to expand
+ */
+screenGroupSchema.statics.expandGroups = function(groups, groupIds) {
+  const selected = new Set(groupIds.map(id => id.toString()));
+  let frontier = [...selected];
+
+  for (let depth = 0; depth < MAX_DEPTH && frontier.length > 0; depth++) {
+    const children = groups
+      .filter(group => group.parent && frontier.includes(group.parent.toString()))
+      .map(group => group._id.toString())
+      .filter(id => !selected.has(id));
+
+    children.forEach(id => selected.add(id));
+    frontier = children;
+  }
+
+  return groups.filter(group => selected.has(group._id.toString()));
+};
+
+/**
+ * Resolve groups (and their descendants) to the ids of the organization's active screens in them
+ * @param {string} organizationId - Organization of the groups and screens
+ * @param {Array} groupIds - Groups to resolve
+ * @returns {Promise<Array<string>>} Screen ids
+ */
+screenGroupSchema.statics.resolveScreenIds = async function(organizationId, groupIds) {
+  if (!groupIds || groupIds.length === 0) return [];
+
+  const groups = await this.findUserGroups(organizationId);
+  const conditions = this.expandGroups(groups, groupIds)
+    .flatMap(group => group.toScreenConditions());
+
+  if (conditions.length === 0) return [];
+
+  const Screen = mongoose.model('Screen');
+  const screens = await Screen.find({ organization: organizationId, isActive: true, $or: conditions }).select('_id');
+
+  return screens.map(screen => screen._id.toString());
+};
+
+/**
+ * Combine an explicit screen list with groups into one list of screen ids,
+ * as accepted anywhere screens are targeted
+ * @param {string} organizationId - Organization of the groups and screens
+ * @param {Object} targets - { screenIds, groupIds }
+ * @returns {Promise<Object>} { screenIds, missingGroupIds }
+ */
+screenGroupSchema.statics.resolveTargets = async function(organizationId, { screenIds = [], groupIds = [] }) {
+  const found = groupIds.length > 0
+    ? await this.find({ _id: { $in: groupIds }, organization: organizationId, isActive: true }).select('_id')
+    : [];
+  const foundIds = found.map(group => group._id.toString());
+  const missingGroupIds = groupIds.filter(id => !foundIds.includes(id.toString()));
+
+  const groupScreenIds = await this.resolveScreenIds(organizationId, foundIds);
+
+  return {
+    screenIds: [...new Set([...screenIds.map(id => id.toString()), ...groupScreenIds])],
+    missingGroupIds
+  };
+};
+
+/**
+ * For each screen, the groups it belongs to, including the ancestors of
+ * every group it is a direct member of
+ * @param {string} organizationId - Organization of the groups and screens
+ * @param {Array} screens - Screen documents with _id and tags
+ * @returns {Promise<Map<string, Array<string>>>} Screen id → group ids
+ */
+screenGroupSchema.statics.getMembershipMap = async function(organizationId, screens) {
+  const groups = await this.findUserGroups(organizationId);
+  const parents = new Map(groups.map(group => [group._id.toString(), group.parent?.toString() || null]));
+  const membership = new Map();
+
+  for (const screen of screens) {
+    const groupIds = new Set();
+
+    for (const group of groups) {
+      if (!group.matchesScreen(screen)) continue;
+
+      let groupId = group._id.toString();
+      for (let depth = 0; groupId && !groupIds.has(groupId) && depth <= MAX_DEPTH; depth++) {
+        groupIds.add(groupId);
+        groupId = parents.get(groupId);
+      }
+    }
+
+    membership.set(screen._id.toString(), [...groupIds]);
+  }
+
+  return membership;
+};
+
+/**
+ * Groups a single screen belongs to, ancestors included
+ */
+screenGroupSchema.statics.findGroupIdsForScreen = async function(screen) {
+  const membership = await this.getMembershipMap(screen.organization, [screen]);
+  return membership.get(screen._id.toString()) || [];
+};
+
+/**
+ * Whether making parentId the parent of groupId would create a cycle
+ */
+screenGroupSchema.statics.wouldCreateCycle = async function(organizationId, groupId, parentId) {
+  if (!parentId) return false;
+  if (groupId.toString() === parentId.toString()) return true;
+
+  const groups = await this.findUserGroups(organizationId);
+  return this.expandGroups(groups, [groupId])
+    .some(group => group._id.toString() === parentId.toString());
+};
+
+module.exports = mongoose.model('ScreenGroup', screenGroupSchema);
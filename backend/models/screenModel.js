@@ -1,5 +1,11 @@
 const mongoose = require('mongoose');
 const crypto = require('crypto');
+const { pickScheduledPlaylist } = require('../utils/scheduleUtils');
+
+// Pairing codes are short-lived and typed by hand, so keep them short and unambiguous
+const PAIRING_CODE_LENGTH = 6;
+const PAIRING_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const PAIRING_CODE_TTL_MINUTES = 10;
 
 /**
  * Screen model for digital signage display management
@@ -43,6 +49,11 @@ const screenSchema = new mongoose.Schema({
     required: [true, 'Screen owner is required'],
     index: true
   },
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+    index: true
+  },
 
   // Location and physical properties
   location: {
@@ -137,7 +148,17 @@ const screenSchema = new mongoose.Schema({
       type: String,
       enum: ['wifi', 'ethernet', 'cellular', 'unknown'],
       default: 'unknown'
-    }
+    },
+    // Link quality as measured by the player
+    latency: {
+      type: Number,
+      min: [0, 'Latency cannot be negative']
+    },
+    downlink: {
+      type: Number,
+      min: [0, 'Downlink cannot be negative']
+    },
+    lastMeasured: Date
   },
 
   // Status and monitoring
@@ -313,6 +334,60 @@ const screenSchema = new mongoose.Schema({
     select: false // Don't include in queries by default
   },
 
+  // Device pairing
+  pairing: {
+    code: {
+      type: String,
+      uppercase: true,
+      trim: true,
+      select: false
+    },
+    expiresAt: Date,
+    pairedAt: Date
+  },
+
+  // Offline media cache on the device, as last reported by the player
+  cache: {
+    manifestHash: String,
+    playlist: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Playlist'
+    },
+    status: {
+      type: String,
+      enum: ['synced', 'syncing', 'partial', 'error']
+    },
+    totalAssets: {
+      type: Number,
+      min: 0
+    },
+    cachedAssets: {
+      type: Number,
+      min: 0
+    },
+    cachedBytes: {
+      type: Number,
+      min: 0
+    },
+    lastSyncAt: Date,
+    lastError: {
+      type: String,
+      maxlength: [500, 'Cache error cannot exceed 500 characters']
+    }
+  },
+
+  // Free-form key/value facts about the screen (e.g. region: north), matched by
+  // custom playlist item conditions on the player
+  attributes: {
+    type: Map,
+    of: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Attribute value cannot exceed 100 characters']
+    },
+    default: undefined
+  },
+
   // Tags for organization
   tags: [{
     type: String,
@@ -362,10 +437,12 @@ screenSchema.index({ accessKey: 1 }, { unique: true });
 screenSchema.index({ lastSeen: -1 });
 screenSchema.index({ createdAt: -1 });
 screenSchema.index({ tags: 1 });
+screenSchema.index({ 'pairing.code': 1 }, { sparse: true });
 screenSchema.index({ 'location.name': 'text', name: 'text', description: 'text' });
 
 // Compound indexes for common queries
 screenSchema.index({ owner: 1, isActive: 1, status: 1 });
+screenSchema.index({ organization: 1, isActive: 1, status: 1 });
 screenSchema.index({ currentPlaylist: 1, status: 1 });
 
 // Virtual properties
@@ -412,8 +489,8 @@ screenSchema.virtual('isHealthy').get(function() {
   return cpuOk && memoryOk && storageOk && temperatureOk;
 });
 
-// Pre-save hooks
-screenSchema.pre('save', function(next) {
+// Pre-validate hooks (generated fields must exist before required checks run)
+screenSchema.pre('validate', function(next) {
   // Generate access key if not provided
   if (this.isNew && !this.accessKey) {
     this.accessKey = crypto.randomBytes(32).toString('hex');
@@ -426,6 +503,11 @@ screenSchema.pre('save', function(next) {
     this.screenId = `SCR-${timestamp}-${randomPart}`;
   }
 
+  next();
+});
+
+// Pre-save hooks
+screenSchema.pre('save', function(next) {
   // Update activity tracking
   if (this.isModified('currentPlaylist')) {
     this.activity.playlistChanges += 1;
@@ -491,10 +573,8 @@ screenSchema.methods.assignPlaylist = async function(playlistId, priority = 1) {
   // Sort by priority (higher number = higher priority)
   this.playlistQueue.sort((a, b) => b.priority - a.priority);
   
-  // Set as current playlist if it's the highest priority
-  if (this.playlistQueue.length > 0 && this.playlistQueue[0].priority >= priority) {
-    this.currentPlaylist = playlistId;
-  }
+  // Play whichever queued playlist the schedule and priorities pick now
+  await this.refreshScheduledPlaylist();
   
   await this.save();
 };
@@ -505,23 +585,24 @@ screenSchema.methods.removePlaylist = async function(playlistId) {
     item => item.playlist.toString() !== playlistId.toString()
   );
   
-  // Clear current playlist if it matches
-  if (this.currentPlaylist && this.currentPlaylist.toString() === playlistId.toString()) {
-    this.currentPlaylist = this.playlistQueue.length > 0 ? this.playlistQueue[0].playlist : null;
-  }
+  // Fall back to the next playlist the schedule and priorities pick
+  await this.refreshScheduledPlaylist();
   
   await this.save();
 };
 
 screenSchema.methods.heartbeat = async function() {
-  this.lastSeen = new Date();
-  
-  // Update uptime if screen is online
-  if (this.status === 'online') {
-    const timeSinceLastSeen = Date.now() - this.lastSeen.getTime();
-    this.activity.totalUptime += Math.floor(timeSinceLastSeen / 1000);
+  const now = new Date();
+
+  // Update uptime if screen is online, counting at most a couple of missed
+  // intervals so time spent offline isn't credited
+  if (this.status === 'online' && this.lastSeen) {
+    const maxGap = this.heartbeatInterval * 2 * 1000;
+    const timeSinceLastSeen = Math.min(now - this.lastSeen, maxGap);
+    this.activity.totalUptime += Math.max(0, Math.floor(timeSinceLastSeen / 1000));
   }
-  
+
+  this.lastSeen = now;
   await this.save();
 };
 
@@ -530,10 +611,66 @@ screenSchema.methods.generateNewAccessKey = function() {
   return this.accessKey;
 };
 
+screenSchema.methods.generatePairingCode = function(ttlMinutes = PAIRING_CODE_TTL_MINUTES) {
+  // Unambiguous alphabet so codes can be read off a screen and typed by hand
+  const bytes = crypto.randomBytes(PAIRING_CODE_LENGTH);
+  let code = '';
+  for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
+    code += PAIRING_CODE_ALPHABET[bytes[i] % PAIRING_CODE_ALPHABET.length];
+  }
+
+  this.pairing = {
+    ...(this.pairing || {}),
+    code,
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000)
+  };
+
+  return this.pairing;
+};
+
+screenSchema.methods.completePairing = function(deviceInfo = {}) {
+  this.pairing = {
+    code: undefined,
+    expiresAt: undefined,
+    pairedAt: new Date()
+  };
+
+  if (Object.keys(deviceInfo).length > 0) {
+    this.device = {
+      ...(this.device ? this.device.toObject() : {}),
+      ...deviceInfo
+    };
+  }
+
+  this.status = 'connecting';
+  this.lastSeen = new Date();
+
+  // Issue fresh credentials so any previously paired device is locked out
+  return this.generateNewAccessKey();
+};
+
+/**
+ * The playlist this screen should play at an instant, by schedule and priority
+ * @param {Date} at - Instant to evaluate, defaults to now
+ */
+screenSchema.methods.getScheduledPlaylist = async function(at = new Date()) {
+  const resolutions = await this.constructor.resolveScheduledPlaylists([this], at);
+  return resolutions.get(this._id.toString());
+};
+
+/**
+ * Point currentPlaylist at the playlist scheduled now (does not save)
+ */
+screenSchema.methods.refreshScheduledPlaylist = async function() {
+  const resolution = await this.getScheduledPlaylist();
+  this.currentPlaylist = resolution ? resolution.playlist._id : null;
+  return resolution;
+};
+
 // Static methods
-screenSchema.statics.findUserScreens = function(userId, filters = {}) {
+screenSchema.statics.findUserScreens = function(organizationId, filters = {}) {
   const query = { 
-    owner: userId, 
+    organization: organizationId, 
     isActive: true 
   };
   
@@ -553,26 +690,30 @@ screenSchema.statics.findUserScreens = function(userId, filters = {}) {
   if (filters.location) {
     query['location.name'] = { $regex: filters.location, $options: 'i' };
   }
+
+  if (filters.ids) {
+    query._id = { $in: filters.ids };
+  }
   
   return this.find(query);
 };
 
-screenSchema.statics.findOnlineScreens = function(userId) {
+screenSchema.statics.findOnlineScreens = function(organizationId) {
   const heartbeatTimeout = new Date(Date.now() - 2 * 60 * 1000); // 2 minutes
   
   return this.find({
-    owner: userId,
+    organization: organizationId,
     isActive: true,
     status: 'online',
     lastSeen: { $gte: heartbeatTimeout }
   });
 };
 
-screenSchema.statics.findOfflineScreens = function(userId) {
+screenSchema.statics.findOfflineScreens = function(organizationId) {
   const heartbeatTimeout = new Date(Date.now() - 2 * 60 * 1000); // 2 minutes
   
   return this.find({
-    owner: userId,
+    organization: organizationId,
     isActive: true,
     $or: [
       { status: { $ne: 'online' } },
@@ -581,9 +722,9 @@ screenSchema.statics.findOfflineScreens = function(userId) {
   });
 };
 
-screenSchema.statics.getUserScreenStats = async function(userId) {
+screenSchema.statics.getUserScreenStats = async function(organizationId) {
   const stats = await this.aggregate([
-    { $match: { owner: new mongoose.Types.ObjectId(userId), isActive: true } },
+    { $match: { organization: new mongoose.Types.ObjectId(organizationId), isActive: true } },
     {
       $group: {
         _id: null,
@@ -613,16 +754,61 @@ screenSchema.statics.getUserScreenStats = async function(userId) {
   };
 };
 
+/**
+ * Resolve the scheduled playlist for many screens at once, loading every
+ * queued or assigned playlist in a single query. A screen only plays
+ * playlists of its own organization
+ * @param {Array} screens - Screen documents, with organization
+ * @param {Date} at - Instant to evaluate
+ * @returns {Promise<Map<string, Object|null>>} Screen id → scheduled playlist resolution
+ */
+screenSchema.statics.resolveScheduledPlaylists = async function(screens, at = new Date()) {
+  const Playlist = mongoose.model('Playlist');
+  const screenIds = screens.map(screen => screen._id);
+  const queuedIds = screens.flatMap(screen =>
+    (screen.playlistQueue || []).map(entry => entry.playlist).filter(Boolean)
+  );
+  const organizationIds = [...new Set(screens.map(screen => String(screen.organization)))];
+
+  const playlists = screens.length > 0
+    ? await Playlist.find({
+        isActive: true,
+        organization: { $in: organizationIds },
+        $or: [{ _id: { $in: queuedIds } }, { assignedScreens: { $in: screenIds } }]
+      }).select('name isActive schedule settings.priority assignedScreens lastModified owner organization')
+    : [];
+
+  const resolutions = new Map();
+  for (const screen of screens) {
+    const organizationPlaylists = playlists.filter(playlist => String(playlist.organization) === String(screen.organization));
+    resolutions.set(screen._id.toString(), pickScheduledPlaylist(screen, organizationPlaylists, at));
+  }
+
+  return resolutions;
+};
+
 screenSchema.statics.findByAccessKey = function(accessKey) {
   return this.findOne({ accessKey, isActive: true }).select('+accessKey');
 };
 
+screenSchema.statics.findByPairingCode = function(code) {
+  return this.findOne({
+    'pairing.code': String(code).trim().toUpperCase(),
+    'pairing.expiresAt': { $gt: new Date() },
+    isActive: true
+  }).select('+accessKey +pairing.code');
+};
+
 // Remove sensitive fields when converting to JSON
 screenSchema.methods.toJSON = function() {
-  const screenObject = this.toObject();
+  // Maps (attributes) become plain objects so they survive JSON.stringify
+  const screenObject = this.toObject({ flattenMaps: true });
   
   // Remove sensitive fields
   delete screenObject.accessKey;
+  if (screenObject.pairing) {
+    delete screenObject.pairing.code;
+  }
   
   // Add virtual properties
   screenObject.isOnline = this.isOnline;
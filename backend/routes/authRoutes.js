@@ -8,6 +8,7 @@ const {
   getProfile,
   updateProfile,
   verifyEmail,
+  resendVerification,
   forgotPassword,
   resetPassword
 } = require('../controllers/authController');
@@ -230,46 +231,7 @@ router.get('/validate-token',
  */
 router.post('/resend-verification',
   requireAuth,
-  async (req, res) => {
-    try {
-      // Check if user is already verified
-      if (req.user.isVerified) {
-        return res.status(400).json({
-          success: false,
-          message: 'Email is already verified',
-          code: 'ALREADY_VERIFIED'
-        });
-      }
-
-      // Generate new verification token
-      const verificationToken = req.user.generateEmailVerificationToken();
-      await req.user.save();
-
-      // In production, send verification email here
-      // await emailService.sendVerificationEmail(req.user.email, verificationToken);
-
-      logger.auth('Verification email resent', req.user._id, req.user.email, req.ip, req.get('User-Agent'));
-
-      res.status(200).json({
-        success: true,
-        message: 'Verification email sent successfully',
-        ...(process.env.NODE_ENV === 'development' && { verificationToken })
-      });
-
-    } catch (error) {
-      logger.error('Resend verification error:', {
-        service: 'auth',
-        error: error.message,
-        userId: req.user._id
-      });
-
-      res.status(500).json({
-        success: false,
-        message: 'Failed to resend verification email',
-        code: 'RESEND_VERIFICATION_ERROR'
-      });
-    }
-  }
+  resendVerification
 );
 
 /**
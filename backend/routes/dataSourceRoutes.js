@@ -0,0 +1,59 @@
+const express = require('express');
+const { verifyJWT, requireAuth, resolveWorkspace, requirePermission } = require('../middleware/authMiddleware');
+const {
+  getDataSources,
+  createDataSource,
+  updateDataSource,
+  deleteDataSource,
+  pollDataSourceNow
+} = require('../controllers/dataSourceController');
+
+const router = express.Router();
+
+/**
+ * Data Source Routes
+ * All routes require authentication
+ */
+
+router.use(verifyJWT);
+router.use(requireAuth);
+router.use(resolveWorkspace);
+
+/**
+ * @route   GET /api/data-sources
+ * @desc    Get the user's data sources with their latest values per location
+ * @access  Private
+ */
+router.get('/', requirePermission('playlist:view'), getDataSources);
+
+/**
+ * @route   POST /api/data-sources
+ * @desc    Create a data source and start polling it
+ * @access  Private
+ * @body    { name, key, type, url, headers, schedule, fields: [{ key, path }] }
+ */
+router.post('/', requirePermission('dataSource:manage'), createDataSource);
+
+/**
+ * @route   POST /api/data-sources/:id/poll
+ * @desc    Poll a data source now
+ * @access  Private
+ */
+router.post('/:id/poll', requirePermission('dataSource:manage'), pollDataSourceNow);
+
+/**
+ * @route   PUT /api/data-sources/:id
+ * @desc    Update a data source; it is rescheduled and polled again
+ * @access  Private
+ * @body    { name, key, type, url, headers, schedule, fields }
+ */
+router.put('/:id', requirePermission('dataSource:manage'), updateDataSource);
+
+/**
+ * @route   DELETE /api/data-sources/:id
+ * @desc    Delete a data source and stop polling it
+ * @access  Private
+ */
+router.delete('/:id', requirePermission('dataSource:manage'), deleteDataSource);
+
+module.exports = router;
@@ -0,0 +1,57 @@
+const express = require('express');
+const { verifyScreenKey } = require('../middleware/authMiddleware');
+const {
+  getDisplaySession,
+  getDisplayPlaylist,
+  getDisplayManifest,
+  getDisplayData,
+  reportCacheStatus
+} = require('../controllers/displayController');
+
+const router = express.Router();
+
+/**
+ * Display Routes
+ * Used by paired display devices (the web player), not dashboard users.
+ * All routes require a screen access key in the X-Screen-Key header
+ */
+
+router.use(verifyScreenKey);
+
+/**
+ * @route   GET /api/display/session
+ * @desc    Get the screen's display configuration
+ * @access  Screen (access key)
+ */
+router.get('/session', getDisplaySession);
+
+/**
+ * @route   GET /api/display/playlist
+ * @desc    Get the playlist this screen should play, with media resolved
+ * @access  Screen (access key)
+ */
+router.get('/playlist', getDisplayPlaylist);
+
+/**
+ * @route   GET /api/display/manifest
+ * @desc    List the media assets the player should cache offline, with sizes and hashes
+ * @access  Screen (access key)
+ */
+router.get('/manifest', getDisplayManifest);
+
+/**
+ * @route   GET /api/display/data
+ * @desc    Get the latest data feed values for the screen's location
+ * @access  Screen (access key)
+ */
+router.get('/data', getDisplayData);
+
+/**
+ * @route   POST /api/display/cache-status
+ * @desc    Report the player's offline cache state
+ * @access  Screen (access key)
+ * @body    { manifestHash, playlistId, status, totalAssets, cachedAssets, cachedBytes, error }
+ */
+router.post('/cache-status', reportCacheStatus);
+
+module.exports = router;
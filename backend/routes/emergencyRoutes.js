@@ -0,0 +1,52 @@
+const express = require('express');
+const { verifyJWT, requireAuth, resolveWorkspace, requirePermission } = require('../middleware/authMiddleware');
+const {
+  createEmergency,
+  getEmergencies,
+  getActiveEmergencies,
+  clearEmergency
+} = require('../controllers/emergencyController');
+
+const router = express.Router();
+
+/**
+ * Emergency Broadcast Routes
+ * All routes require authentication
+ */
+
+router.use(verifyJWT);
+router.use(requireAuth);
+router.use(resolveWorkspace);
+
+/**
+ * @route   GET /api/emergencies/active
+ * @desc    Get emergencies that are live or scheduled to start
+ * @access  Private
+ */
+router.get('/active', requirePermission('screen:view'), getActiveEmergencies);
+
+/**
+ * @route   GET /api/emergencies
+ * @desc    Get emergency broadcast history, newest first
+ * @access  Private
+ * @query   status, limit
+ */
+router.get('/', requirePermission('screen:view'), getEmergencies);
+
+/**
+ * @route   POST /api/emergencies
+ * @desc    Issue an emergency stop or alert to all screens, specific screens or screen groups
+ * @access  Private
+ * @body    { action, message, severity, template: { title, backgroundColor, textColor, mediaId }, targetType, screenIds, groupIds, startsAt, expiresAt }
+ */
+router.post('/', requirePermission('emergency:send'), createEmergency);
+
+/**
+ * @route   POST /api/emergencies/:id/clear
+ * @desc    Clear an active emergency; screens resume playback or show the next applicable alert
+ * @access  Private
+ * @body    { reason }
+ */
+router.post('/:id/clear', requirePermission('emergency:send'), clearEmergency);
+
+module.exports = router;
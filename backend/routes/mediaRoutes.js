@@ -1,11 +1,12 @@
 const express = require('express');
 const rateLimit = require('express-rate-limit');
-const { verifyJWT, requireAuth } = require('../middleware/authMiddleware');
+const { verifyJWT, requireAuth, resolveWorkspace, requirePermission } = require('../middleware/authMiddleware');
 const {
   upload,
   uploadMedia,
   getMedia,
   updateMedia,
+  getMediaUsage,
   deleteMedia,
   generateDownloadUrl,
   getMediaStats,
@@ -38,6 +39,7 @@ const uploadRateLimit = rateLimit({
  */
 router.use(verifyJWT);
 router.use(requireAuth);
+router.use(resolveWorkspace);
 
 /**
  * @route   POST /api/media/upload
@@ -49,6 +51,7 @@ router.use(requireAuth);
  * @body    {string} [description] - File description (max 500 chars)
  */
 router.post('/upload', 
+  requirePermission('media:upload'),
   uploadRateLimit,
   upload.single('file'),
   uploadMedia,
@@ -67,14 +70,14 @@ router.post('/upload',
  * @query   {string} [order=desc] - Sort order (asc/desc)
  * @query   {string} [tags] - Filter by comma-separated tags
  */
-router.get('/', getMedia);
+router.get('/', requirePermission('media:view'), getMedia);
 
 /**
  * @route   GET /api/media/stats
  * @desc    Get user media statistics and analytics
  * @access  Private
  */
-router.get('/stats', getMediaStats);
+router.get('/stats', requirePermission('media:view'), getMediaStats);
 
 /**
  * @route   PUT /api/media/:id
@@ -85,34 +88,44 @@ router.get('/stats', getMediaStats);
  * @body    {string} [tags] - Comma-separated tags
  * @body    {string} [description] - File description (max 500 chars)
  */
-router.put('/:id', updateMedia);
+router.put('/:id', requirePermission('media:edit'), updateMedia);
+
+/**
+ * @route   GET /api/media/:id/usage
+ * @desc    List playlists using the media and the screens they play on
+ * @access  Private
+ * @param   {string} id - Media document ID
+ */
+router.get('/:id/usage', requirePermission('media:view'), getMediaUsage);
 
 /**
  * @route   DELETE /api/media/:id
- * @desc    Delete media file (from both database and Cloudinary)
+ * @desc    Delete media file (from both database and media storage)
  * @access  Private
  * @param   {string} id - Media document ID
+ * @query   {string} [strategy=block] - Playlists using the media: block (409 with usage), remove or replace
+ * @query   {string} [replacementId] - Media that replaces it in playlists (strategy=replace)
  */
-router.delete('/:id', deleteMedia);
+router.delete('/:id', requirePermission('media:edit'), deleteMedia);
 
 /**
  * @route   GET /api/media/:id/download
- * @desc    Generate secure time-limited download URL
+ * @desc    Generate download URL (time-limited where the storage provider supports it)
  * @access  Private
  * @param   {string} id - Media document ID
  */
-router.get('/:id/download', generateDownloadUrl);
+router.get('/:id/download', requirePermission('media:view'), generateDownloadUrl);
 
 /**
  * @route   POST /api/media/:id/thumbnail
- * @desc    Generate thumbnail for video
+ * @desc    Generate thumbnail for video (Cloudinary storage only; 501 otherwise)
  * @access  Private
  * @param   {string} id - Video media document ID
  * @body    {number} [width=400] - Thumbnail width
  * @body    {number} [height=300] - Thumbnail height
  * @body    {string} [start_offset=0] - Time offset for thumbnail generation
  */
-router.post('/:id/thumbnail', createVideoThumbnail);
+router.post('/:id/thumbnail', requirePermission('media:edit'), createVideoThumbnail);
 
 /**
  * @route   GET /api/media/health/check
@@ -0,0 +1,125 @@
+const express = require('express');
+const { verifyJWT, requireAuth } = require('../middleware/authMiddleware');
+const {
+  getOrganizations,
+  createOrganization,
+  getOrganization,
+  updateOrganization,
+  setDefaultOrganization,
+  inviteMember,
+  revokeInvitation,
+  updateMemberRole,
+  updateRolePermissions,
+  removeMember,
+  getMyInvitations,
+  acceptInvitation,
+  declineInvitation
+} = require('../controllers/organizationController');
+
+const router = express.Router();
+
+/**
+ * Organization Routes
+ * All routes require authentication
+ */
+
+router.use(verifyJWT);
+router.use(requireAuth);
+
+/**
+ * @route   GET /api/organizations
+ * @desc    Get the organizations the user belongs to, with their role in each
+ * @access  Private
+ */
+router.get('/', getOrganizations);
+
+/**
+ * @route   POST /api/organizations
+ * @desc    Create an organization owned by the user
+ * @access  Private
+ * @body    { name }
+ */
+router.post('/', createOrganization);
+
+/**
+ * @route   GET /api/organizations/invitations
+ * @desc    Get pending invitations for the user's email address
+ * @access  Private
+ */
+router.get('/invitations', getMyInvitations);
+
+/**
+ * @route   POST /api/organizations/invitations/:invitationId/accept
+ * @desc    Accept an invitation; requires a verified email address
+ * @access  Private
+ */
+router.post('/invitations/:invitationId/accept', acceptInvitation);
+
+/**
+ * @route   DELETE /api/organizations/invitations/:invitationId
+ * @desc    Decline an invitation
+ * @access  Private
+ */
+router.delete('/invitations/:invitationId', declineInvitation);
+
+/**
+ * @route   GET /api/organizations/:id
+ * @desc    Get an organization with its members, and pending invitations for owners and admins
+ * @access  Private (members)
+ */
+router.get('/:id', getOrganization);
+
+/**
+ * @route   PUT /api/organizations/:id
+ * @desc    Rename an organization, or require approval before playlists reach screens
+ * @access  Private (owners and admins)
+ * @body    { name, requireApproval }
+ */
+router.put('/:id', updateOrganization);
+
+/**
+ * @route   PUT /api/organizations/:id/default
+ * @desc    Use an organization when a request does not pick one
+ * @access  Private (members)
+ */
+router.put('/:id/default', setDefaultOrganization);
+
+/**
+ * @route   POST /api/organizations/:id/invitations
+ * @desc    Invite an email address as a member or admin
+ * @access  Private (members:manage; owners and admins to invite admins)
+ * @body    { email, role }
+ */
+router.post('/:id/invitations', inviteMember);
+
+/**
+ * @route   DELETE /api/organizations/:id/invitations/:invitationId
+ * @desc    Withdraw a pending invitation
+ * @access  Private (members:manage)
+ */
+router.delete('/:id/invitations/:invitationId', revokeInvitation);
+
+/**
+ * @route   PUT /api/organizations/:id/members/:userId
+ * @desc    Change a member's role
+ * @access  Private (members:manage; owners and admins for the admin role, owners for the owner role)
+ * @body    { role }
+ */
+router.put('/:id/members/:userId', updateMemberRole);
+
+/**
+ * @route   PUT /api/organizations/:id/roles/:role
+ * @desc    Change what a role may do; owner and admin always hold every permission
+ * @access  Private (owners and admins)
+ * @body    { permissions }
+ */
+router.put('/:id/roles/:role', updateRolePermissions);
+
+/**
+ * @route   DELETE /api/organizations/:id/members/:userId
+ * @desc    Remove a member, or leave the organization when it is the user
+ * @access  Private (members:manage, or the member themselves)
+ */
+router.delete('/:id/members/:userId', removeMember);
+
+module.exports = router;
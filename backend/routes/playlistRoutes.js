@@ -1,5 +1,5 @@
 const express = require('express');
-const { verifyJWT, requireAuth } = require('../middleware/authMiddleware');
+const { verifyJWT, requireAuth, resolveWorkspace, requirePermission } = require('../middleware/authMiddleware');
 const {
   createPlaylist,
   getPlaylists,
@@ -13,7 +13,22 @@ const {
   reorderPlaylistItemsUpdate,
   assignPlaylistToScreens,
   getPlaylistAssignments,
-  getPlaylistStats
+  getPlaylistStats,
+  getPlaylistRevisions,
+  getPlaylistRevision,
+  comparePlaylistRevisions,
+  restorePlaylistRevision,
+  getPlaylistCollaborators,
+  addPlaylistCollaborator,
+  updatePlaylistCollaborator,
+  removePlaylistCollaborator,
+  submitPlaylistForApproval,
+  approvePlaylist,
+  rejectPlaylist,
+  publishPlaylist,
+  getPlaylistApproval,
+  addPlaylistApprovalComment,
+  getApprovalQueue
 } = require('../controllers/playlistController');
 
 const router = express.Router();
@@ -27,6 +42,7 @@ const router = express.Router();
 // Apply authentication middleware to all routes
 router.use(verifyJWT);
 router.use(requireAuth);
+router.use(resolveWorkspace);
 
 /**
  * @route   GET /api/playlists
@@ -34,7 +50,7 @@ router.use(requireAuth);
  * @access  Private
  * @query   page, limit, search, tags, assignedToScreen, isPublic, sort, order
  */
-router.get('/', getPlaylists);
+router.get('/', requirePermission('playlist:view'), getPlaylists);
 
 /**
  * @route   POST /api/playlists
@@ -42,29 +58,39 @@ router.get('/', getPlaylists);
  * @access  Private
  * @body    name, description, isPublic, tags, settings, schedule
  */
-router.post('/', createPlaylist);
+router.post('/', requirePermission('playlist:edit'), createPlaylist);
+
+/**
+ * @route   GET /api/playlists/approvals
+ * @desc    Review queue: the organization's playlists at one approval status,
+ *          submitted ones by default, longest waiting first
+ * @access  Private (roles that approve)
+ * @query   status, page, limit
+ */
+router.get('/approvals', requirePermission('playlist:approve'), getApprovalQueue);
 
 /**
  * @route   GET /api/playlists/:id
  * @desc    Get specific playlist by ID with full details
  * @access  Private (owner, collaborator, or public)
  */
-router.get('/:id', getPlaylistById);
+router.get('/:id', requirePermission('playlist:view'), getPlaylistById);
 
 /**
  * @route   PUT /api/playlists/:id
- * @desc    Update playlist metadata
+ * @desc    Update playlist metadata and optionally replace the item list.
+ *          A stale version is refused with 409 VERSION_CONFLICT and the current playlist
  * @access  Private (owner or editor/admin collaborator)
- * @body    name, description, isPublic, tags, settings, schedule
+ * @body    version, name, description, isPublic, tags, settings, schedule, items
  */
-router.put('/:id', updatePlaylist);
+router.put('/:id', requirePermission('playlist:edit'), updatePlaylist);
 
 /**
  * @route   DELETE /api/playlists/:id
  * @desc    Delete playlist (soft delete)
  * @access  Private (owner only)
  */
-router.delete('/:id', deletePlaylist);
+router.delete('/:id', requirePermission('playlist:edit'), deletePlaylist);
 
 /**
  * @route   POST /api/playlists/:id/duplicate
@@ -72,7 +98,7 @@ router.delete('/:id', deletePlaylist);
  * @access  Private (owner, collaborator, or public)
  * @body    name (optional custom name for duplicate)
  */
-router.post('/:id/duplicate', duplicatePlaylist);
+router.post('/:id/duplicate', requirePermission('playlist:edit'), duplicatePlaylist);
 
 // ============================================================================
 // PLAYLIST ITEM MANAGEMENT ROUTES
@@ -84,30 +110,30 @@ router.post('/:id/duplicate', duplicatePlaylist);
  * @access  Private (owner or editor/admin collaborator)
  * @body    mediaId, order, duration, transitions, conditions, notes
  */
-router.post('/:id/items', addMediaToPlaylist);
+router.post('/:id/items', requirePermission('playlist:edit'), addMediaToPlaylist);
 
 /**
  * @route   DELETE /api/playlists/:id/items/:itemId
  * @desc    Remove media item from playlist
  * @access  Private (owner or editor/admin collaborator)
  */
-router.delete('/:id/items/:itemId', removeMediaFromPlaylist);
+router.delete('/:id/items/:itemId', requirePermission('playlist:edit'), removeMediaFromPlaylist);
 
 /**
  * @route   PUT /api/playlists/:id/items/reorder
  * @desc    Reorder playlist items
  * @access  Private (owner or editor/admin collaborator)
- * @body    itemOrder (array of item IDs in new order)
+ * @body    version, itemOrder (array of item IDs in new order)
  */
-router.put('/:id/items/reorder', reorderPlaylistItems);
+router.put('/:id/items/reorder', requirePermission('playlist:edit'), reorderPlaylistItems);
 
 /**
  * @route   PUT /api/playlists/:id/reorder
  * @desc    Reorder specific playlist items with granular control
  * @access  Private (owner or editor/admin collaborator)
- * @body    items (array of {id, order} objects for specific item updates)
+ * @body    version, items (array of {id, order} objects for specific item updates)
  */
-router.put('/:id/reorder', reorderPlaylistItemsUpdate);
+router.put('/:id/reorder', requirePermission('playlist:edit'), reorderPlaylistItemsUpdate);
 
 // ============================================================================
 // SCREEN ASSIGNMENT ROUTES
@@ -115,25 +141,25 @@ router.put('/:id/reorder', reorderPlaylistItemsUpdate);
 
 /**
  * @route   POST /api/playlists/:id/assign
- * @desc    Assign or unassign playlist to screens
- * @access  Private (owner or admin collaborator)
- * @body    screenIds (array), action ('assign' or 'unassign')
+ * @desc    Assign or unassign playlist to screens and screen groups
+ * @access  Private (roles that publish; the organization's playlists or admin collaborator)
+ * @body    screenIds (array), groupIds (array), action ('assign' or 'unassign')
  */
-router.post('/:id/assign', assignPlaylistToScreens);
+router.post('/:id/assign', requirePermission('playlist:publish'), assignPlaylistToScreens);
 
 /**
  * @route   GET /api/playlists/:id/assignments
  * @desc    Get playlist screen assignments
  * @access  Private (owner, collaborator, or public)
  */
-router.get('/:id/assignments', getPlaylistAssignments);
+router.get('/:id/assignments', requirePermission('playlist:view'), getPlaylistAssignments);
 
 /**
  * @route   DELETE /api/playlists/:id/assign/:screenId
  * @desc    Remove playlist from specific screen
- * @access  Private (owner or admin collaborator)
+ * @access  Private (roles that publish; the organization's playlists or admin collaborator)
  */
-router.delete('/:id/assign/:screenId', (req, res, next) => {
+router.delete('/:id/assign/:screenId', requirePermission('playlist:publish'), (req, res, next) => {
   // Transform single screen unassignment to use the main assign function
   req.body = {
     screenIds: [req.params.screenId],
@@ -142,6 +168,128 @@ router.delete('/:id/assign/:screenId', (req, res, next) => {
   assignPlaylistToScreens(req, res, next);
 });
 
+// ============================================================================
+// REVISION HISTORY ROUTES
+// ============================================================================
+
+/**
+ * @route   GET /api/playlists/:id/revisions
+ * @desc    Get the playlist's saved revisions, newest first, without snapshots
+ * @access  Private (owner, collaborator, or public)
+ * @query   page, limit
+ */
+router.get('/:id/revisions', requirePermission('playlist:view'), getPlaylistRevisions);
+
+/**
+ * @route   GET /api/playlists/:id/revisions/compare
+ * @desc    Diff of details, items, settings and schedule between two revisions
+ * @access  Private (owner, collaborator, or public)
+ * @query   from (version), to (version, defaults to the latest revision)
+ */
+router.get('/:id/revisions/compare', requirePermission('playlist:view'), comparePlaylistRevisions);
+
+/**
+ * @route   GET /api/playlists/:id/revisions/:version
+ * @desc    Get one revision with its full snapshot
+ * @access  Private (owner, collaborator, or public)
+ */
+router.get('/:id/revisions/:version', requirePermission('playlist:view'), getPlaylistRevision);
+
+/**
+ * @route   POST /api/playlists/:id/revisions/:version/restore
+ * @desc    Restore a revision's content, saved as a new revision.
+ *          Items whose media has since been deleted are left out
+ * @access  Private (owner or editor/admin collaborator)
+ * @body    version (current playlist version, optional)
+ */
+router.post('/:id/revisions/:version/restore', requirePermission('playlist:edit'), restorePlaylistRevision);
+
+// ============================================================================
+// COLLABORATOR ROUTES
+// ============================================================================
+
+/**
+ * @route   GET /api/playlists/:id/collaborators
+ * @desc    Get the playlist owner, collaborators, and the caller's permission
+ * @access  Private (owner, collaborator, or public)
+ */
+router.get('/:id/collaborators', requirePermission('playlist:view'), getPlaylistCollaborators);
+
+/**
+ * @route   POST /api/playlists/:id/collaborators
+ * @desc    Share the playlist with a user by email
+ * @access  Private (owner or admin collaborator; only the owner grants admin)
+ * @body    email, permission (view, edit or admin; defaults to view)
+ */
+router.post('/:id/collaborators', addPlaylistCollaborator);
+
+/**
+ * @route   PUT /api/playlists/:id/collaborators/:userId
+ * @desc    Change a collaborator's permission
+ * @access  Private (owner or admin collaborator; only the owner changes admins)
+ * @body    permission
+ */
+router.put('/:id/collaborators/:userId', updatePlaylistCollaborator);
+
+/**
+ * @route   DELETE /api/playlists/:id/collaborators/:userId
+ * @desc    Remove a collaborator, or leave the playlist when it is the caller
+ * @access  Private (owner, admin collaborator, or the collaborator themselves)
+ */
+router.delete('/:id/collaborators/:userId', removePlaylistCollaborator);
+
+// ============================================================================
+// APPROVAL ROUTES
+// ============================================================================
+
+/**
+ * @route   GET /api/playlists/:id/approval
+ * @desc    Get the playlist's approval status and review comments
+ * @access  Private (owner, collaborator, or public)
+ */
+router.get('/:id/approval', requirePermission('playlist:view'), getPlaylistApproval);
+
+/**
+ * @route   POST /api/playlists/:id/approval/comments
+ * @desc    Comment on the playlist's review
+ * @access  Private (owner, collaborator, or public)
+ * @body    comment
+ */
+router.post('/:id/approval/comments', requirePermission('playlist:view'), addPlaylistApprovalComment);
+
+/**
+ * @route   POST /api/playlists/:id/approval/submit
+ * @desc    Submit a draft for approval
+ * @access  Private (owner or editor/admin collaborator)
+ * @body    comment (optional)
+ */
+router.post('/:id/approval/submit', requirePermission('playlist:edit'), submitPlaylistForApproval);
+
+/**
+ * @route   POST /api/playlists/:id/approval/approve
+ * @desc    Approve a submitted playlist. Submitters cannot approve their own
+ *          work unless they are an owner or admin
+ * @access  Private (roles that approve)
+ * @body    comment (optional)
+ */
+router.post('/:id/approval/approve', requirePermission('playlist:approve'), approvePlaylist);
+
+/**
+ * @route   POST /api/playlists/:id/approval/reject
+ * @desc    Return a submitted playlist to draft
+ * @access  Private (roles that approve)
+ * @body    comment
+ */
+router.post('/:id/approval/reject', requirePermission('playlist:approve'), rejectPlaylist);
+
+/**
+ * @route   POST /api/playlists/:id/approval/publish
+ * @desc    Put the approved content on the playlist's screens
+ * @access  Private (roles that publish; the organization's playlists or admin collaborator)
+ * @body    comment (optional)
+ */
+router.post('/:id/approval/publish', requirePermission('playlist:publish'), publishPlaylist);
+
 // ============================================================================
 // ANALYTICS AND STATISTICS ROUTES
 // ============================================================================
@@ -151,14 +299,14 @@ router.delete('/:id/assign/:screenId', (req, res, next) => {
  * @desc    Get comprehensive playlist statistics and analytics
  * @access  Private (owner, collaborator, or public)
  */
-router.get('/:id/stats', getPlaylistStats);
+router.get('/:id/stats', requirePermission('playlist:view'), getPlaylistStats);
 
 /**
  * @route   GET /api/playlists/:id/analytics
  * @desc    Alias for stats endpoint (for backward compatibility)
  * @access  Private (owner, collaborator, or public)
  */
-router.get('/:id/analytics', getPlaylistStats);
+router.get('/:id/analytics', requirePermission('playlist:view'), getPlaylistStats);
 
 // ============================================================================
 // BULK OPERATIONS ROUTES
@@ -170,7 +318,7 @@ router.get('/:id/analytics', getPlaylistStats);
  * @access  Private (owner only for each playlist)
  * @body    playlistIds (array of playlist IDs)
  */
-router.post('/bulk/delete', async (req, res) => {
+router.post('/bulk/delete', requirePermission('playlist:edit'), async (req, res) => {
   try {
     const { playlistIds } = req.body;
     
@@ -195,10 +343,11 @@ router.post('/bulk/delete', async (req, res) => {
       });
     }
 
-    // Find playlists owned by user
+    // Roles below organization admin delete only the playlists they created
     const playlists = await Playlist.find({
       _id: { $in: playlistIds },
-      owner: req.user.id,
+      organization: req.workspace.organization,
+      ...(Playlist.workspaceGrant(req.workspace) !== 'admin' && { owner: req.user.id }),
       isActive: true
     });
 
@@ -212,8 +361,7 @@ router.post('/bulk/delete', async (req, res) => {
     // Soft delete playlists
     const deleteResult = await Playlist.updateMany(
       {
-        _id: { $in: playlists.map(p => p._id) },
-        owner: req.user.id
+        _id: { $in: playlists.map(p => p._id) }
       },
       {
         isActive: false,
@@ -258,18 +406,18 @@ router.post('/bulk/delete', async (req, res) => {
 /**
  * @route   POST /api/playlists/bulk/assign
  * @desc    Assign multiple playlists to screens
- * @access  Private (owner or admin collaborator for each playlist)
- * @body    playlistIds (array), screenIds (array), action ('assign' or 'unassign')
+ * @access  Private (roles that publish; the organization's playlists or admin collaborator for each playlist)
+ * @body    playlistIds (array), screenIds and/or groupIds (arrays), action ('assign' or 'unassign')
  */
-router.post('/bulk/assign', async (req, res) => {
+router.post('/bulk/assign', requirePermission('playlist:publish'), async (req, res) => {
   try {
-    const { playlistIds, screenIds, action = 'assign' } = req.body;
+    const { playlistIds, screenIds = [], groupIds = [], action = 'assign' } = req.body;
     
-    if (!Array.isArray(playlistIds) || !Array.isArray(screenIds) || 
-        playlistIds.length === 0 || screenIds.length === 0) {
+    if (!Array.isArray(playlistIds) || !Array.isArray(screenIds) || !Array.isArray(groupIds) ||
+        playlistIds.length === 0 || screenIds.length + groupIds.length === 0) {
       return res.status(400).json({
         success: false,
-        message: 'playlistIds and screenIds arrays are required'
+        message: 'playlistIds and screenIds or groupIds arrays are required'
       });
     }
 
@@ -282,28 +430,53 @@ router.post('/bulk/assign', async (req, res) => {
 
     const mongoose = require('mongoose');
     const Playlist = require('../models/playlistModel');
+    const Screen = require('../models/screenModel');
+    const ScreenGroup = require('../models/screenGroupModel');
     const winston = require('winston');
     
     // Validate all IDs
     const invalidPlaylistIds = playlistIds.filter(id => !mongoose.Types.ObjectId.isValid(id));
     const invalidScreenIds = screenIds.filter(id => !mongoose.Types.ObjectId.isValid(id));
+    const invalidGroupIds = groupIds.filter(id => !mongoose.Types.ObjectId.isValid(id));
     
-    if (invalidPlaylistIds.length > 0 || invalidScreenIds.length > 0) {
+    if (invalidPlaylistIds.length > 0 || invalidScreenIds.length > 0 || invalidGroupIds.length > 0) {
       return res.status(400).json({
         success: false,
         message: 'Invalid IDs provided',
         invalidPlaylistIds,
-        invalidScreenIds
+        invalidScreenIds,
+        invalidGroupIds
+      });
+    }
+
+    // Groups expand to the screens currently in them; every screen must belong to the organization
+    const targets = await ScreenGroup.resolveTargets(req.workspace.organization, { screenIds, groupIds });
+    if (targets.missingGroupIds.length > 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'One or more screen groups not found or access denied',
+        errors: targets.missingGroupIds
       });
     }
 
-    // Find playlists user has admin access to
+    const screens = await Screen.find({
+      _id: { $in: targets.screenIds },
+      organization: req.workspace.organization,
+      isActive: true
+    });
+    if (screens.length !== targets.screenIds.length) {
+      return res.status(404).json({
+        success: false,
+        message: 'One or more screens not found or access denied'
+      });
+    }
+
+    const targetScreenIds = screens.map(screen => screen._id.toString());
+
+    // Find playlists the user may put on screens
     const playlists = await Playlist.find({
       _id: { $in: playlistIds },
-      $or: [
-        { owner: req.user.id },
-        { 'collaborators.user': req.user.id, 'collaborators.permission': 'admin' }
-      ],
+      ...Playlist.publishFilter(req.user.id, req.workspace),
       isActive: true
     });
 
@@ -318,11 +491,21 @@ router.post('/bulk/assign', async (req, res) => {
     const results = [];
 
     for (const playlist of playlists) {
+      if (action === 'assign' && !playlist.canGoLive(req.workspace)) {
+        results.push({
+          playlistId: playlist._id,
+          playlistName: playlist.name,
+          success: false,
+          error: 'Playlist must be approved and published before it can be assigned to screens'
+        });
+        continue;
+      }
+
       try {
         if (action === 'assign') {
           // Add screens to playlist (avoid duplicates)
           const currentScreenIds = playlist.assignedScreens.map(id => id.toString());
-          const newScreenIds = screenIds.filter(screenId => !currentScreenIds.includes(screenId));
+          const newScreenIds = targetScreenIds.filter(screenId => !currentScreenIds.includes(screenId));
           
           if (newScreenIds.length > 0) {
             playlist.assignedScreens.push(...newScreenIds);
@@ -334,7 +517,7 @@ router.post('/bulk/assign', async (req, res) => {
           // Remove screens from playlist
           const originalLength = playlist.assignedScreens.length;
           playlist.assignedScreens = playlist.assignedScreens.filter(
-            screenId => !screenIds.includes(screenId.toString())
+            screenId => !targetScreenIds.includes(screenId.toString())
           );
           
           if (playlist.assignedScreens.length !== originalLength) {
@@ -344,6 +527,24 @@ router.post('/bulk/assign', async (req, res) => {
           }
         }
 
+        // Keep the screen side of the relationship in sync and tell their players
+        const screenIo = req.app.get('screenIo');
+        for (const screen of screens) {
+          if (action === 'assign') {
+            await screen.assignPlaylist(playlist._id, playlist.settings?.priority);
+          } else {
+            await screen.removePlaylist(playlist._id);
+          }
+
+          if (screenIo) {
+            screenIo.to(`screen:${screen._id}`).emit('playlist:assignment:changed', {
+              playlistId: playlist._id.toString(),
+              action: `${action}ed`,
+              timestamp: new Date().toISOString()
+            });
+          }
+        }
+
         results.push({
           playlistId: playlist._id,
           playlistName: playlist.name,
@@ -365,7 +566,8 @@ router.post('/bulk/assign', async (req, res) => {
       userId: req.user.id,
       action,
       playlistIds,
-      screenIds,
+      screenIds: targetScreenIds,
+      groupIds,
       updatedCount: updateCount
     });
 
@@ -406,7 +608,7 @@ router.post('/bulk/assign', async (req, res) => {
  * @access  Private
  * @query   q, tags, owner, dateRange, duration, items, status
  */
-router.get('/search/advanced', async (req, res) => {
+router.get('/search/advanced', requirePermission('playlist:view'), async (req, res) => {
   try {
     const {
       q: searchQuery,
@@ -432,7 +634,7 @@ router.get('/search/advanced', async (req, res) => {
     // Match stage
     const matchCriteria = {
       $or: [
-        { owner: req.user.id },
+        { organization: req.workspace.organization },
         { 'collaborators.user': req.user.id },
         { isPublic: true }
       ]
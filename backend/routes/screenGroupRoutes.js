@@ -0,0 +1,59 @@
+const express = require('express');
+const { verifyJWT, requireAuth, resolveWorkspace, requirePermission } = require('../middleware/authMiddleware');
+const {
+  getScreenGroups,
+  createScreenGroup,
+  updateScreenGroup,
+  deleteScreenGroup,
+  getScreenGroupScreens
+} = require('../controllers/screenGroupController');
+
+const router = express.Router();
+
+/**
+ * Screen Group Routes
+ * All routes require authentication
+ */
+
+router.use(verifyJWT);
+router.use(requireAuth);
+router.use(resolveWorkspace);
+
+/**
+ * @route   GET /api/screen-groups
+ * @desc    Get the user's screen groups with member counts
+ * @access  Private
+ */
+router.get('/', requirePermission('screen:view'), getScreenGroups);
+
+/**
+ * @route   POST /api/screen-groups
+ * @desc    Create a screen group
+ * @access  Private
+ * @body    { name, description, color, parent, screens, tags, tagMatch }
+ */
+router.post('/', requirePermission('screen:manage'), createScreenGroup);
+
+/**
+ * @route   GET /api/screen-groups/:id/screens
+ * @desc    Get the screens in a group, subgroups included
+ * @access  Private
+ */
+router.get('/:id/screens', requirePermission('screen:view'), getScreenGroupScreens);
+
+/**
+ * @route   PUT /api/screen-groups/:id
+ * @desc    Update a screen group's details, parent or membership
+ * @access  Private
+ * @body    { name, description, color, parent, screens, tags, tagMatch }
+ */
+router.put('/:id', requirePermission('screen:manage'), updateScreenGroup);
+
+/**
+ * @route   DELETE /api/screen-groups/:id
+ * @desc    Delete a screen group; its subgroups move up to its parent
+ * @access  Private
+ */
+router.delete('/:id', requirePermission('screen:manage'), deleteScreenGroup);
+
+module.exports = router;
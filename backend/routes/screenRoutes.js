@@ -0,0 +1,190 @@
+const express = require('express');
+const rateLimit = require('express-rate-limit');
+const { verifyJWT, requireAuth, resolveWorkspace, requirePermission } = require('../middleware/authMiddleware');
+const {
+  createScreen,
+  getScreens,
+  getScreenStats,
+  getScheduleSnapshot,
+  getScreenById,
+  updateScreen,
+  deleteScreen,
+  regenerateAccessKey,
+  createPairingCode,
+  pairScreen,
+  assignPlaylist,
+  removePlaylist
+} = require('../controllers/screenController');
+const {
+  sendScreenCommand,
+  sendBulkScreenCommand,
+  getScreenCommands,
+  getScreenCommand
+} = require('../controllers/screenCommandController');
+
+const router = express.Router();
+
+/**
+ * Screen Routes
+ * All routes except device pairing require authentication
+ * RESTful API for display screen management
+ */
+
+// Pairing codes are short, so throttle guessing from a single address
+const pairingLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // 10 attempts per window
+  message: {
+    success: false,
+    message: 'Too many pairing attempts. Please try again later.',
+    code: 'RATE_LIMIT_EXCEEDED'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  // Only failed attempts count against the limit
+  skipSuccessfulRequests: true
+});
+
+// ============================================================================
+// DEVICE PAIRING (PUBLIC)
+// ============================================================================
+
+/**
+ * @route   POST /api/screens/pair
+ * @desc    Pair an unpaired device with a screen using its pairing code
+ * @access  Public (pairing code acts as the credential)
+ * @body    code, device
+ */
+router.post('/pair', pairingLimiter, pairScreen);
+
+// Apply authentication middleware to all remaining routes
+router.use(verifyJWT);
+router.use(requireAuth);
+router.use(resolveWorkspace);
+
+/**
+ * @route   GET /api/screens
+ * @desc    Get all screens with filtering and pagination
+ * @access  Private
+ * @query   page, limit, search, status, tags, location, sort, order
+ */
+router.get('/', requirePermission('screen:view'), getScreens);
+
+/**
+ * @route   POST /api/screens
+ * @desc    Register new screen
+ * @access  Private
+ * @body    screenId, name, description, location, display, device, heartbeatInterval, settings, tags
+ */
+router.post('/', requirePermission('screen:manage'), createScreen);
+
+/**
+ * @route   GET /api/screens/stats
+ * @desc    Get screen statistics for the current user
+ * @access  Private
+ */
+router.get('/stats', requirePermission('screen:view'), getScreenStats);
+
+/**
+ * @route   GET /api/screens/schedule
+ * @desc    Get the playlist each screen plays at a point in time
+ * @access  Private
+ * @query   at (ISO date, defaults to now), group
+ */
+router.get('/schedule', requirePermission('screen:view'), getScheduleSnapshot);
+
+/**
+ * @route   GET /api/screens/:id
+ * @desc    Get specific screen by ID
+ * @access  Private (owner only)
+ */
+router.get('/:id', requirePermission('screen:view'), getScreenById);
+
+/**
+ * @route   PUT /api/screens/:id
+ * @desc    Update screen configuration
+ * @access  Private (owner only)
+ * @body    name, description, location, display, status, heartbeatInterval, settings, notifications, tags
+ */
+router.put('/:id', requirePermission('screen:manage'), updateScreen);
+
+/**
+ * @route   DELETE /api/screens/:id
+ * @desc    Delete screen (soft delete)
+ * @access  Private (owner only)
+ */
+router.delete('/:id', requirePermission('screen:manage'), deleteScreen);
+
+// ============================================================================
+// SCREEN CREDENTIALS
+// ============================================================================
+
+/**
+ * @route   POST /api/screens/:id/access-key
+ * @desc    Regenerate the screen access key
+ * @access  Private (owner only)
+ */
+router.post('/:id/access-key', requirePermission('screen:manage'), regenerateAccessKey);
+
+/**
+ * @route   POST /api/screens/:id/pairing-code
+ * @desc    Issue a short-lived pairing code for a device to claim this screen
+ * @access  Private (owner only)
+ */
+router.post('/:id/pairing-code', requirePermission('screen:manage'), createPairingCode);
+
+// ============================================================================
+// PLAYLIST ASSIGNMENT
+// ============================================================================
+
+/**
+ * @route   POST /api/screens/:id/playlist
+ * @desc    Assign playlist to screen
+ * @access  Private (owner only)
+ * @body    playlistId, priority
+ */
+router.post('/:id/playlist', requirePermission('playlist:publish'), assignPlaylist);
+
+/**
+ * @route   DELETE /api/screens/:id/playlist/:playlistId
+ * @desc    Remove playlist from screen
+ * @access  Private (owner only)
+ */
+router.delete('/:id/playlist/:playlistId', requirePermission('playlist:publish'), removePlaylist);
+
+// ============================================================================
+// REMOTE COMMANDS
+// ============================================================================
+
+/**
+ * @route   POST /api/screens/commands
+ * @desc    Send the same remote command to many screens, listed directly or through screen groups
+ * @access  Private (owner only)
+ * @body    type, params, screenIds, groupIds
+ */
+router.post('/commands', requirePermission('screen:control'), sendBulkScreenCommand);
+
+/**
+ * @route   POST /api/screens/:id/commands
+ * @desc    Send a remote command (restart, reload, screenshot, set-volume, set-brightness)
+ * @access  Private (owner only)
+ * @body    type, params: { value } for set-volume and set-brightness
+ */
+router.post('/:id/commands', requirePermission('screen:control'), sendScreenCommand);
+
+/**
+ * @route   GET /api/screens/:id/commands
+ * @desc    Get recent commands sent to the screen with their status and results
+ * @access  Private (owner only)
+ * @query   limit
+ */
+router.get('/:id/commands', requirePermission('screen:view'), getScreenCommands);
+
+/**
+ * @route   GET /api/screens/:id/commands/:commandId
+ * @desc    Get a single command with its result
+ * @access  Private (owner only)
+ */
+router.get('/:id/commands/:commandId', requirePermission('screen:view'), getScreenCommand);
+
+module.exports = router;
@@ -9,7 +9,7 @@
  * - Comprehensive security middleware
  * - JWT authentication system
  * - Error handling and logging
- * - Cloudinary media storage integration
+ * - Pluggable media storage (local disk, S3-compatible or Cloudinary)
  */
 
 require('dotenv').config();
@@ -20,11 +20,22 @@ const http = require('http');
 const socketIo = require('socket.io');
 const cookieParser = require('cookie-parser');
 const path = require('path');
+const mongoose = require('mongoose');
 
 // Database and configuration
 const { connectDatabase } = require('./config/database');
-const { verifyCloudinaryConnection } = require('./config/cloudinary');
+const { initializeStorage } = require('./config/storage');
+const { serveFiles: serveLocalFiles, getUrlPath: getLocalFilesPath } = require('./config/storage/localStorage');
 const logger = require('./config/logger');
+const { verifyAccessToken } = require('./utils/tokenUtils');
+
+// Models
+const User = require('./models/User');
+const Organization = require('./models/organizationModel');
+const Playlist = require('./models/playlistModel');
+const Screen = require('./models/screenModel');
+const ScreenGroup = require('./models/screenGroupModel');
+const Media = require('./models/mediaModel');
 
 // Middleware
 const {
@@ -52,6 +63,22 @@ const {
 const authRoutes = require('./routes/authRoutes');
 const mediaRoutes = require('./routes/mediaRoutes');
 const playlistRoutes = require('./routes/playlistRoutes');
+const screenRoutes = require('./routes/screenRoutes');
+const screenGroupRoutes = require('./routes/screenGroupRoutes');
+const displayRoutes = require('./routes/displayRoutes');
+const emergencyRoutes = require('./routes/emergencyRoutes');
+const dataSourceRoutes = require('./routes/dataSourceRoutes');
+const organizationRoutes = require('./routes/organizationRoutes');
+
+// Real-time and background jobs
+const { registerScreenNamespace, getPlaybackSnapshot } = require('./sockets/screenNamespace');
+const playlistPresence = require('./sockets/playlistPresence');
+const { organizationRoom, toWorkspace, getWorkspace, resolveDefaultOrganization, migrateToOrganizations } = require('./utils/organizationUtils');
+const { startScreenStatusMonitor, stopScreenStatusMonitor } = require('./jobs/screenStatusMonitor');
+const { startEmergencyScheduler, stopEmergencyScheduler } = require('./jobs/emergencyScheduler');
+const { startCommandTimeoutMonitor, stopCommandTimeoutMonitor } = require('./jobs/commandTimeoutMonitor');
+const { startPlaylistScheduler, stopPlaylistScheduler } = require('./jobs/playlistScheduler');
+const { startDataSourcePoller, stopDataSourcePoller } = require('./jobs/dataSourcePoller');
 
 // Initialize Express app
 const app = express();
@@ -71,6 +98,13 @@ const io = socketIo(server, {
   pingInterval: 25000
 });
 
+// Display devices connect to their own namespace with a screen access key
+const screenIo = registerScreenNamespace(io);
+
+// Expose Socket.IO to controllers via req.app.get('io') / req.app.get('screenIo')
+app.set('io', io);
+app.set('screenIo', screenIo);
+
 // Global process error handlers
 process.on('unhandledRejection', handleUnhandledRejection);
 process.on('uncaughtException', handleUncaughtException);
@@ -96,6 +130,11 @@ app.use(securityHeaders);
 app.use(userAgentValidator);
 app.use(contentTypeValidator);
 
+// Files kept by the local storage provider (including ones uploaded before a
+// switch to another provider), served before rate limiting so screens
+// loading a playlist aren't throttled
+app.use(getLocalFilesPath(), serveLocalFiles());
+
 // Request logging
 app.use(requestLogger);
 
@@ -142,8 +181,6 @@ app.get('/health', (req, res) => {
 // Detailed health check
 app.get('/health/detailed', async (req, res) => {
   try {
-    const mongoose = require('mongoose');
-    
     const healthStatus = {
       status: 'healthy',
       timestamp: new Date().toISOString(),
@@ -191,6 +228,12 @@ app.get('/health/detailed', async (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/media', mediaRoutes);
 app.use('/api/playlists', playlistRoutes);
+app.use('/api/screens', screenRoutes);
+app.use('/api/screen-groups', screenGroupRoutes);
+app.use('/api/display', displayRoutes);
+app.use('/api/emergencies', emergencyRoutes);
+app.use('/api/data-sources', dataSourceRoutes);
+app.use('/api/organizations', organizationRoutes);
 
 // API root endpoint
 app.get('/api', (req, res) => {
@@ -203,9 +246,12 @@ app.get('/api', (req, res) => {
       auth: '/api/auth',
       users: '/api/users',
       screens: '/api/screens',
+      screenGroups: '/api/screen-groups',
       media: '/api/media',
       playlists: '/api/playlists',
-      display: '/api/display'
+      display: '/api/display',
+      emergencies: '/api/emergencies',
+      dataSources: '/api/data-sources'
     },
     timestamp: new Date().toISOString()
   });
@@ -224,10 +270,6 @@ io.use(async (socket, next) => {
       return next(new Error('Authentication token required'));
     }
 
-    // Verify token using our auth utilities
-    const { verifyAccessToken } = require('./utils/tokenUtils');
-    const User = require('./models/User');
-    
     // Handle both Bearer token and raw token formats
     const cleanToken = token.startsWith('Bearer ') ? token.replace('Bearer ', '') : token;
     const decoded = verifyAccessToken(cleanToken);
@@ -237,9 +279,21 @@ io.use(async (socket, next) => {
       return next(new Error('Invalid user'));
     }
 
+    // Dashboards pick their workspace like REST requests do with X-Organization-Id
+    const { organizationId } = socket.handshake.auth;
+    const workspace = organizationId
+      ? await getWorkspace(organizationId, user._id)
+      : await resolveDefaultOrganization(user).then(organization => toWorkspace(organization, user._id));
+
+    if (!workspace) {
+      return next(new Error('Organization access denied'));
+    }
+
     socket.userId = user._id.toString();
     socket.userRole = user.role;
     socket.userEmail = user.email;
+    socket.userName = user.name;
+    socket.workspace = workspace;
     
     logger.info('Socket.IO user connected:', {
       service: 'socket',
@@ -277,101 +331,129 @@ io.on('connection', (socket) => {
   // Join role-specific room
   socket.join(`role:${socket.userRole}`);
 
-  // Handle screen registration (for display clients)
-  socket.on('register-screen', async (data) => {
-    try {
-      const { screenId, location, resolution } = data;
-      
-      // Join screen-specific room
-      socket.join(`screen:${screenId}`);
-      
-      // Emit screen online status to all users
-      io.to('role:admin').emit('screen-status', {
-        screenId,
-        status: 'online',
-        timestamp: new Date().toISOString(),
-        location,
-        resolution
-      });
+  // Join the room shared by every dashboard of the organization
+  socket.join(organizationRoom(socket.workspace.organization));
 
-      logger.info('Screen registered:', {
-        service: 'socket',
-        screenId,
-        socketId: socket.id,
-        location,
-        resolution
-      });
+  // ============================
+  // Playlist Collaboration Events
+  // ============================
 
-      socket.emit('registration-confirmed', {
-        success: true,
-        screenId,
-        timestamp: new Date().toISOString()
-      });
+  // Permission on each joined playlist, updated when the playlist's sharing changes
+  socket.data.playlistPermissions = {};
 
-    } catch (error) {
-      logger.error('Screen registration error:', {
-        service: 'socket',
-        error: error.message,
-        socketId: socket.id,
-        data
-      });
-
-      socket.emit('registration-error', {
-        success: false,
-        message: 'Screen registration failed',
-        error: error.message
-      });
+  /**
+   * Refuse an event the user's role does not permit, as requirePermission
+   * does for REST routes. Returns true when refused
+   */
+  const rejectWithoutPermission = (permission, event) => {
+    if (socket.workspace.permissions.includes(permission)) {
+      return false;
     }
-  });
 
-  // Handle screen status updates
-  socket.on('screen-status', (data) => {
-    const { screenId, status, message } = data;
-    
-    // Broadcast status to all users
-    io.to('role:admin').to('role:user').emit('screen-status', {
-      screenId,
-      status,
-      message,
-      timestamp: new Date().toISOString()
+    socket.emit('permission:denied', {
+      event,
+      permission,
+      message: 'Your role does not allow this'
     });
-
-    logger.info('Screen status update:', {
+    logger.warn('Socket event refused - missing permission:', {
       service: 'socket',
-      screenId,
-      status,
-      message,
-      socketId: socket.id
+      event,
+      permission,
+      userId: socket.userId,
+      role: socket.workspace.role
     });
-  });
-
-  // ============================
-  // Playlist Collaboration Events
-  // ============================
+    return true;
+  };
+
+  /**
+   * Refuse a change to a playlist this socket may not edit. Returns true when refused
+   */
+  const rejectPlaylistEdit = (playlistId) => {
+    if (socket.workspace.permissions.includes('playlist:edit') &&
+        Playlist.permits(socket.data.playlistPermissions[playlistId], 'edit')) {
+      return false;
+    }
 
-  // Handle playlist room management
-  socket.on('join:playlist', ({ playlistId }) => {
-    socket.join(`playlist:${playlistId}`);
-    socket.emit('joined:playlist', { playlistId, userId: socket.userId });
-    
-    // Notify other users in the playlist room
-    socket.to(`playlist:${playlistId}`).emit('user:joined:playlist', {
-      userId: socket.userId,
-      userEmail: socket.userEmail,
+    socket.emit('playlist:access:denied', {
       playlistId,
-      timestamp: new Date().toISOString()
+      message: 'You do not have permission to edit this playlist'
     });
-
-    logger.info('User joined playlist room:', {
+    logger.warn('Playlist change refused:', {
       service: 'socket',
       playlistId,
       userId: socket.userId,
-      socketId: socket.id
+      permission: socket.data.playlistPermissions[playlistId] || null
     });
+    return true;
+  };
+
+  /**
+   * Send everyone in a playlist room who is there, what they are working on and which items are locked
+   */
+  const broadcastPresence = (playlistId) => {
+    io.to(`playlist:${playlistId}`).emit('playlist:presence', playlistPresence.getPresenceSnapshot(playlistId));
+  };
+
+  // Handle playlist room management
+  socket.on('join:playlist', async ({ playlistId } = {}) => {
+    try {
+      const playlist = mongoose.Types.ObjectId.isValid(playlistId)
+        ? await Playlist.findOne({
+          _id: playlistId,
+          ...Playlist.accessFilter(socket.userId, 'view', socket.workspace),
+          isActive: true
+        })
+        : null;
+
+      if (!playlist) {
+        socket.emit('playlist:access:denied', {
+          playlistId,
+          message: 'Playlist not found or access denied'
+        });
+        return;
+      }
+
+      const permission = playlist.getPermission(socket.userId, socket.workspace);
+      socket.data.playlistPermissions[playlistId] = permission;
+
+      socket.join(`playlist:${playlistId}`);
+      socket.emit('joined:playlist', { playlistId, userId: socket.userId, permission });
+
+      playlistPresence.joinPresence(playlistId, socket);
+      broadcastPresence(playlistId);
+
+      // Notify other users in the playlist room
+      socket.to(`playlist:${playlistId}`).emit('user:joined:playlist', {
+        userId: socket.userId,
+        userEmail: socket.userEmail,
+        playlistId,
+        timestamp: new Date().toISOString()
+      });
+
+      logger.info('User joined playlist room:', {
+        service: 'socket',
+        playlistId,
+        userId: socket.userId,
+        permission,
+        socketId: socket.id
+      });
+    } catch (error) {
+      logger.error('Failed to join playlist room:', {
+        service: 'socket',
+        playlistId,
+        userId: socket.userId,
+        error: error.message
+      });
+    }
   });
 
   socket.on('leave:playlist', ({ playlistId }) => {
     socket.leave(`playlist:${playlistId}`);
+    delete socket.data.playlistPermissions[playlistId];
+
+    if (playlistPresence.leavePresence(playlistId, socket.id)) {
+      broadcastPresence(playlistId);
+    }
     
     // Notify other users in the playlist room
     socket.to(`playlist:${playlistId}`).emit('user:left:playlist', {
@@ -389,9 +471,58 @@ io.on('connection', (socket) => {
     });
   });
 
+  // Show others which item this user is editing or dragging; a null item clears it
+  socket.on('playlist:presence:activity', ({ playlistId, itemId = null, activity = null } = {}) => {
+    if (!socket.rooms.has(`playlist:${playlistId}`)) return;
+    if (itemId && rejectPlaylistEdit(playlistId)) return;
+
+    if (playlistPresence.setActivity(playlistId, socket.id, itemId, activity)) {
+      broadcastPresence(playlistId);
+    }
+  });
+
+  // Soft-lock an item while its settings are open, so others keep off it
+  socket.on('playlist:item:lock', ({ playlistId, itemId } = {}, ack = () => {}) => {
+    if (!socket.rooms.has(`playlist:${playlistId}`) || !itemId) {
+      ack({ success: false, message: 'Join the playlist before locking its items' });
+      return;
+    }
+    if (rejectPlaylistEdit(playlistId)) {
+      ack({ success: false, message: 'You do not have permission to edit this playlist' });
+      return;
+    }
+
+    const { success, lock } = playlistPresence.acquireLock(playlistId, socket, itemId);
+    if (!success) {
+      ack({
+        success: false,
+        lock,
+        message: `${lock?.userName || lock?.userEmail || 'Someone'} is editing this item`
+      });
+      return;
+    }
+
+    ack({ success: true, lock });
+    broadcastPresence(playlistId);
+
+    logger.info('Playlist item locked:', {
+      service: 'socket',
+      playlistId,
+      itemId,
+      userId: socket.userId
+    });
+  });
+
+  socket.on('playlist:item:unlock', ({ playlistId, itemId } = {}) => {
+    if (playlistPresence.releaseLock(playlistId, socket.id, itemId)) {
+      broadcastPresence(playlistId);
+    }
+  });
+
   // Handle playlist update events
   socket.on('playlist:update', (data) => {
     const { playlistId, data: updateData, timestamp } = data;
+    if (rejectPlaylistEdit(playlistId)) return;
     
     // Broadcast to all users in the playlist room except the sender
     socket.to(`playlist:${playlistId}`).emit('playlist:updated', {
@@ -414,6 +545,7 @@ io.on('connection', (socket) => {
   // Handle playlist item addition
   socket.on('playlist:item:add', (data) => {
     const { playlistId, item, position, timestamp } = data;
+    if (rejectPlaylistEdit(playlistId)) return;
     
     socket.to(`playlist:${playlistId}`).emit('playlist:item:added', {
       playlistId,
@@ -436,6 +568,7 @@ io.on('connection', (socket) => {
   // Handle playlist item removal
   socket.on('playlist:item:remove', (data) => {
     const { playlistId, itemId, timestamp } = data;
+    if (rejectPlaylistEdit(playlistId)) return;
     
     socket.to(`playlist:${playlistId}`).emit('playlist:item:removed', {
       playlistId,
@@ -456,6 +589,7 @@ io.on('connection', (socket) => {
   // Handle playlist item reordering
   socket.on('playlist:item:reorder', (data) => {
     const { playlistId, items, timestamp } = data;
+    if (rejectPlaylistEdit(playlistId)) return;
     
     socket.to(`playlist:${playlistId}`).emit('playlist:item:reordered', {
       playlistId,
@@ -474,9 +608,55 @@ io.on('connection', (socket) => {
   });
 
   // Handle playlist screen assignment
-  socket.on('playlist:assign', (data) => {
-    const { playlistId, screenIds, timestamp } = data;
-    
+  socket.on('playlist:assign', async (data) => {
+    const { playlistId, groupIds = [], timestamp } = data;
+
+    // Assignment changes what screens play, so it needs the publish permission like the REST route
+    if (rejectWithoutPermission('playlist:publish', 'playlist:assign')) return;
+
+    const playlist = await Playlist.findOne({
+      _id: playlistId,
+      ...Playlist.publishFilter(socket.userId, socket.workspace),
+      isActive: true
+    }).select('approval').catch(() => null);
+    if (!playlist) {
+      socket.emit('playlist:access:denied', {
+        playlistId,
+        message: 'You do not have permission to assign this playlist'
+      });
+      return;
+    }
+
+    // Approval may have been turned on since this socket connected, so read it now
+    const organization = await Organization.findById(socket.workspace.organization)
+      .select('requireApproval')
+      .catch(() => null);
+    if (!organization || !playlist.canGoLive({ requireApproval: organization.requireApproval })) {
+      socket.emit('playlist:access:denied', {
+        playlistId,
+        message: 'Playlist must be approved and published before it can be assigned to screens'
+      });
+      return;
+    }
+
+    // Groups expand to the organization's screens currently in them
+    let screenIds;
+    try {
+      ({ screenIds } = await ScreenGroup.resolveTargets(socket.workspace.organization, {
+        screenIds: data.screenIds || [],
+        groupIds
+      }));
+    } catch (error) {
+      logger.error('Failed to resolve playlist assignment targets:', {
+        service: 'socket',
+        playlistId,
+        groupIds,
+        userId: socket.userId,
+        error: error.message
+      });
+      return;
+    }
+
     // Notify playlist room users
     socket.to(`playlist:${playlistId}`).emit('playlist:assigned', {
       playlistId,
@@ -488,15 +668,15 @@ io.on('connection', (socket) => {
 
     // Notify affected screens
     screenIds.forEach(screenId => {
-      io.to(`screen:${screenId}`).emit('playlist:assignment:changed', {
+      screenIo.to(`screen:${screenId}`).emit('playlist:assignment:changed', {
         playlistId,
         action: 'assigned',
         timestamp
       });
     });
 
-    // Notify all dashboard users
-    io.to('role:admin').to('role:user').emit('playlist:assigned', {
+    // Notify the organization's dashboards
+    io.to(organizationRoom(socket.workspace.organization)).emit('playlist:assigned', {
       playlistId,
       screenIds,
       assignedBy: socket.userId,
@@ -508,14 +688,49 @@ io.on('connection', (socket) => {
       service: 'socket',
       playlistId,
       screenIds,
+      groupIds,
       assignedBy: socket.userId
     });
   });
 
   // Handle playlist screen unassignment
-  socket.on('playlist:unassign', (data) => {
-    const { playlistId, screenIds, timestamp } = data;
-    
+  socket.on('playlist:unassign', async (data) => {
+    const { playlistId, groupIds = [], timestamp } = data;
+
+    // Assignment changes what screens play, so it needs the publish permission like the REST route
+    if (rejectWithoutPermission('playlist:publish', 'playlist:unassign')) return;
+
+    const canAssign = await Playlist.exists({
+      _id: playlistId,
+      ...Playlist.publishFilter(socket.userId, socket.workspace),
+      isActive: true
+    }).catch(() => null);
+    if (!canAssign) {
+      socket.emit('playlist:access:denied', {
+        playlistId,
+        message: 'You do not have permission to assign this playlist'
+      });
+      return;
+    }
+
+    // Groups expand to the organization's screens currently in them
+    let screenIds;
+    try {
+      ({ screenIds } = await ScreenGroup.resolveTargets(socket.workspace.organization, {
+        screenIds: data.screenIds || [],
+        groupIds
+      }));
+    } catch (error) {
+      logger.error('Failed to resolve playlist unassignment targets:', {
+        service: 'socket',
+        playlistId,
+        groupIds,
+        userId: socket.userId,
+        error: error.message
+      });
+      return;
+    }
+
     // Notify playlist room users
     socket.to(`playlist:${playlistId}`).emit('playlist:unassigned', {
       playlistId,
@@ -527,15 +742,15 @@ io.on('connection', (socket) => {
 
     // Notify affected screens
     screenIds.forEach(screenId => {
-      io.to(`screen:${screenId}`).emit('playlist:assignment:changed', {
+      screenIo.to(`screen:${screenId}`).emit('playlist:assignment:changed', {
         playlistId,
         action: 'unassigned',
         timestamp
       });
     });
 
-    // Notify all dashboard users
-    io.to('role:admin').to('role:user').emit('playlist:unassigned', {
+    // Notify the organization's dashboards
+    io.to(organizationRoom(socket.workspace.organization)).emit('playlist:unassigned', {
       playlistId,
       screenIds,
       unassignedBy: socket.userId,
@@ -547,6 +762,7 @@ io.on('connection', (socket) => {
       service: 'socket',
       playlistId,
       screenIds,
+      groupIds,
       unassignedBy: socket.userId
     });
   });
@@ -557,10 +773,12 @@ io.on('connection', (socket) => {
 
   // Handle media upload notification
   socket.on('media:upload', (data) => {
+    if (rejectWithoutPermission('media:upload', 'media:upload')) return;
+
     const { media, timestamp } = data;
     
-    // Notify all users except the uploader
-    socket.to(`user:${socket.userId}`).emit('media:uploaded', {
+    // Notify the organization's other dashboards
+    socket.to(organizationRoom(socket.workspace.organization)).emit('media:uploaded', {
       mediaId: media.id,
       media,
       uploadedBy: socket.userId,
@@ -579,10 +797,12 @@ io.on('connection', (socket) => {
 
   // Handle media deletion notification
   socket.on('media:delete', (data) => {
+    if (rejectWithoutPermission('media:edit', 'media:delete')) return;
+
     const { mediaId, timestamp } = data;
     
-    // Notify all users except the deleter
-    socket.to('role:admin').to('role:user').emit('media:deleted', {
+    // Notify the organization's other dashboards
+    socket.to(organizationRoom(socket.workspace.organization)).emit('media:deleted', {
       mediaId,
       deletedBy: socket.userId,
       deletedByEmail: socket.userEmail,
@@ -599,10 +819,12 @@ io.on('connection', (socket) => {
 
   // Handle media update notification
   socket.on('media:update', (data) => {
+    if (rejectWithoutPermission('media:edit', 'media:update')) return;
+
     const { mediaId, data: updateData, timestamp } = data;
     
-    // Notify all users except the updater
-    socket.to('role:admin').to('role:user').emit('media:updated', {
+    // Notify the organization's other dashboards
+    socket.to(organizationRoom(socket.workspace.organization)).emit('media:updated', {
       mediaId,
       media: updateData,
       updatedBy: socket.userId,
@@ -619,11 +841,18 @@ io.on('connection', (socket) => {
   });
 
   // Handle playlist updates for screens
-  socket.on('playlist-update', (data) => {
+  socket.on('playlist-update', async (data) => {
     const { screenId, playlistId, action } = data;
-    
+    if (rejectWithoutPermission('screen:control', 'playlist-update')) return;
+
+    // Only the organization's own screens
+    const screen = mongoose.Types.ObjectId.isValid(screenId)
+      ? await Screen.exists({ _id: screenId, organization: socket.workspace.organization }).catch(() => null)
+      : null;
+    if (!screen) return;
+
     // Send playlist update to specific screen
-    io.to(`screen:${screenId}`).emit('playlist-update', {
+    screenIo.to(`screen:${screenId}`).emit('playlist-update', {
       playlistId,
       action,
       timestamp: new Date().toISOString()
@@ -638,71 +867,34 @@ io.on('connection', (socket) => {
     });
   });
 
-  // Handle emergency controls
-  socket.on('emergency-control', (data) => {
-    const { screenId, action, message } = data;
-    
-    // Only allow admin users to send emergency controls
-    if (socket.userRole !== 'admin') {
-      socket.emit('error', {
-        message: 'Insufficient permissions for emergency control'
+  // Send the latest playback state of the organization's screens, for dashboards opened mid-item
+  socket.on('screens:playback:sync', async (ack) => {
+    if (typeof ack !== 'function') return;
+
+    try {
+      const screens = await Screen.find({ organization: socket.workspace.organization, isActive: true }).select('_id');
+      ack({ success: true, playback: getPlaybackSnapshot(screens.map(screen => screen._id.toString())) });
+    } catch (error) {
+      logger.error('Playback sync failed:', {
+        service: 'socket',
+        userId: socket.userId,
+        error: error.message
       });
-      return;
+      ack({ success: false, playback: [] });
     }
-
-    // Send emergency control to specific screen or all screens
-    const target = screenId ? `screen:${screenId}` : 'role:screen';
-    io.to(target).emit('emergency-control', {
-      action,
-      message,
-      timestamp: new Date().toISOString()
-    });
-
-    logger.warn('Emergency control issued:', {
-      service: 'socket',
-      screenId: screenId || 'all',
-      action,
-      message,
-      adminId: socket.userId
-    });
-  });
-
-  // Handle screen heartbeat
-  socket.on('heartbeat', (data) => {
-    const { screenId } = data;
-    
-    socket.emit('heartbeat-ack', {
-      timestamp: new Date().toISOString()
-    });
-
-    // Update screen last seen timestamp
-    io.to('role:admin').emit('screen-heartbeat', {
-      screenId,
-      timestamp: new Date().toISOString()
-    });
   });
 
   // Handle disconnection
   socket.on('disconnect', (reason) => {
+    // Locks and activity die with the socket that held them
+    playlistPresence.removeSocket(socket.id).forEach(broadcastPresence);
+
     logger.info('Socket.IO client disconnected:', {
       service: 'socket',
       socketId: socket.id,
       userId: socket.userId,
       reason
     });
-
-    // If this was a screen connection, notify users
-    socket.rooms.forEach(room => {
-      if (room.startsWith('screen:')) {
-        const screenId = room.replace('screen:', '');
-        io.to('role:admin').emit('screen-status', {
-          screenId,
-          status: 'offline',
-          timestamp: new Date().toISOString(),
-          reason
-        });
-      }
-    });
   });
 
   // Handle errors
@@ -737,8 +929,35 @@ async function startServer() {
     // Connect to database
     await connectDatabase();
     
-    // Verify Cloudinary connection
-    await verifyCloudinaryConnection();
+    // Move documents from before organizations into their owners' personal workspaces
+    const migratedUsers = await migrateToOrganizations();
+    if (migratedUsers > 0) {
+      logger.info('Migrated users to organizations', { service: 'organizations', count: migratedUsers });
+    }
+
+    // Move media from before pluggable storage onto neutral storage keys
+    const migratedMedia = await Media.migrateLegacyStorageKeys();
+    if (migratedMedia > 0) {
+      logger.info('Migrated media to storage keys', { service: 'storage', count: migratedMedia });
+    }
+
+    // Check the configured media storage provider
+    await initializeStorage();
+
+    // Mark screens offline when they stop sending heartbeats
+    startScreenStatusMonitor(io);
+
+    // Announce scheduled emergencies and expire finished ones
+    startEmergencyScheduler(io, screenIo);
+
+    // Time out remote commands that screens never answer
+    startCommandTimeoutMonitor(io);
+
+    // Switch screens between playlists at schedule boundaries
+    startPlaylistScheduler(io, screenIo);
+
+    // Poll external data feeds used by playlist item conditions
+    startDataSourcePoller();
     
     // Start server
     server.listen(PORT, () => {
@@ -781,12 +1000,17 @@ async function gracefulShutdown(signal) {
     service: 'server'
   });
 
+  stopScreenStatusMonitor();
+  stopEmergencyScheduler();
+  stopCommandTimeoutMonitor();
+  stopPlaylistScheduler();
+  stopDataSourcePoller();
+
   // Close server
   server.close(() => {
     logger.info('HTTP server closed', { service: 'server' });
     
     // Close database connection
-    const mongoose = require('mongoose');
     mongoose.connection.close(() => {
       logger.info('Database connection closed', { service: 'server' });
       process.exit(0);
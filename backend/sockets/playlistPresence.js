@@ -0,0 +1,208 @@
+/**
+ * Playlist Presence
+ * Who is in each playlist room, which item each of them is editing or
+ * dragging, and soft locks on items whose settings are being edited.
+ * Locks are advisory: they tell other editors to keep off an item while its
+ * duration or transition is open, and are released when the holder closes
+ * the item, leaves the playlist or disconnects. Kept in memory only, so a
+ * server restart clears every lock along with the sockets holding them
+ */
+
+// What a user can be doing to an item
+const PRESENCE_ACTIVITIES = ['editing', 'dragging'];
+
+// playlistId -> Map(socketId -> { userId, userEmail, userName, joinedAt, itemId, activity })
+const playlistPresence = new Map();
+
+// playlistId -> Map(itemId -> { itemId, socketId, userId, userEmail, userName, acquiredAt })
+const playlistLocks = new Map();
+
+const getMembers = (playlistId) => {
+  if (!playlistPresence.has(playlistId)) {
+    playlistPresence.set(playlistId, new Map());
+  }
+  return playlistPresence.get(playlistId);
+};
+
+const getLocks = (playlistId) => {
+  if (!playlistLocks.has(playlistId)) {
+    playlistLocks.set(playlistId, new Map());
+  }
+  return playlistLocks.get(playlistId);
+};
+
+/**
+ * Drop a playlist's maps once nobody is left in them
+ */
+const prune = (playlistId) => {
+  if (playlistPresence.get(playlistId)?.size === 0) playlistPresence.delete(playlistId);
+  if (playlistLocks.get(playlistId)?.size === 0) playlistLocks.delete(playlistId);
+};
+
+/**
+ * Everyone in a playlist room and the locks they hold. A user with several
+ * tabs open is listed once per socket so each tab's activity shows
+ * @param {string} playlistId - Playlist _id string
+ * @returns {Object} { playlistId, users, locks }
+ */
+const getPresenceSnapshot = (playlistId) => ({
+  playlistId,
+  users: Array.from(playlistPresence.get(playlistId)?.entries() || [])
+    .map(([socketId, member]) => ({ socketId, ...member })),
+  locks: Array.from(playlistLocks.get(playlistId)?.values() || [])
+});
+
+/**
+ * Add a socket to a playlist's presence
+ * @param {string} playlistId - Playlist _id string
+ * @param {Object} socket - Authenticated dashboard socket
+ */
+const joinPresence = (playlistId, socket) => {
+  getMembers(playlistId).set(socket.id, {
+    userId: socket.userId,
+    userEmail: socket.userEmail,
+    userName: socket.userName,
+    joinedAt: new Date().toISOString(),
+    itemId: null,
+    activity: null
+  });
+};
+
+/**
+ * Release every lock a socket holds on a playlist
+ * @returns {boolean} Whether any lock was released
+ */
+const releaseSocketLocks = (playlistId, socketId) => {
+  const locks = playlistLocks.get(playlistId);
+  if (!locks) return false;
+
+  let released = false;
+  locks.forEach((lock, itemId) => {
+    if (lock.socketId === socketId) {
+      locks.delete(itemId);
+      released = true;
+    }
+  });
+
+  const member = playlistPresence.get(playlistId)?.get(socketId);
+  if (released && member?.activity === 'editing') {
+    member.itemId = null;
+    member.activity = null;
+  }
+
+  prune(playlistId);
+  return released;
+};
+
+/**
+ * Remove a socket from a playlist's presence, releasing its locks
+ * @returns {boolean} Whether the socket was present
+ */
+const leavePresence = (playlistId, socketId) => {
+  const members = playlistPresence.get(playlistId);
+  const wasPresent = !!members?.delete(socketId);
+
+  const released = releaseSocketLocks(playlistId, socketId);
+  prune(playlistId);
+  return wasPresent || released;
+};
+
+/**
+ * Remove a disconnected socket from every playlist it was in
+ * @param {string} socketId - Socket id
+ * @returns {Array<string>} Playlists whose presence changed
+ */
+const removeSocket = (socketId) => {
+  const playlistIds = new Set([...playlistPresence.keys(), ...playlistLocks.keys()]);
+  return Array.from(playlistIds).filter(playlistId => leavePresence(playlistId, socketId));
+};
+
+/**
+ * Record which item a socket is editing or dragging; a null item clears it.
+ * A socket holding a lock keeps showing as editing its locked item
+ * @returns {boolean} Whether the activity was recorded
+ */
+const setActivity = (playlistId, socketId, itemId, activity) => {
+  const member = playlistPresence.get(playlistId)?.get(socketId);
+  if (!member) return false;
+
+  if (itemId && !PRESENCE_ACTIVITIES.includes(activity)) return false;
+
+  const heldLock = Array.from(playlistLocks.get(playlistId)?.values() || [])
+    .find(lock => lock.socketId === socketId);
+
+  if (!itemId && heldLock) {
+    member.itemId = heldLock.itemId;
+    member.activity = 'editing';
+  } else {
+    member.itemId = itemId || null;
+    member.activity = itemId ? activity : null;
+  }
+  return true;
+};
+
+/**
+ * Lock an item for a socket. A socket holds at most one lock per playlist,
+ * so locking another item releases the previous one
+ * @returns {Object} { success, lock } or { success: false, lock } with the current holder
+ */
+const acquireLock = (playlistId, socket, itemId) => {
+  const member = playlistPresence.get(playlistId)?.get(socket.id);
+  if (!member) {
+    return { success: false, lock: null };
+  }
+
+  const locks = getLocks(playlistId);
+  const existing = locks.get(itemId);
+  if (existing && existing.socketId !== socket.id) {
+    return { success: false, lock: existing };
+  }
+
+  releaseSocketLocks(playlistId, socket.id);
+
+  const lock = {
+    itemId,
+    socketId: socket.id,
+    userId: socket.userId,
+    userEmail: socket.userEmail,
+    userName: socket.userName,
+    acquiredAt: existing?.acquiredAt || new Date().toISOString()
+  };
+  getLocks(playlistId).set(itemId, lock);
+
+  member.itemId = itemId;
+  member.activity = 'editing';
+
+  return { success: true, lock };
+};
+
+/**
+ * Release a socket's lock on an item; locks held by others are left alone
+ * @returns {boolean} Whether a lock was released
+ */
+const releaseLock = (playlistId, socketId, itemId) => {
+  const locks = playlistLocks.get(playlistId);
+  if (locks?.get(itemId)?.socketId !== socketId) return false;
+
+  locks.delete(itemId);
+  prune(playlistId);
+
+  const member = playlistPresence.get(playlistId)?.get(socketId);
+  if (member && member.itemId === itemId) {
+    member.itemId = null;
+    member.activity = null;
+  }
+  return true;
+};
+
+module.exports = {
+  PRESENCE_ACTIVITIES,
+  getPresenceSnapshot,
+  joinPresence,
+  leavePresence,
+  removeSocket,
+  setActivity,
+  acquireLock,
+  releaseLock,
+  releaseSocketLocks
+};
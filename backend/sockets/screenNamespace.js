@@ -0,0 +1,453 @@
+const Screen = require('../models/screenModel');
+const EmergencyBroadcast = require('../models/emergencyBroadcastModel');
+const ScreenGroup = require('../models/screenGroupModel');
+const ScreenCommand = require('../models/screenCommandModel');
+const mongoose = require('mongoose');
+const logger = require('../config/logger');
+const { organizationRoom } = require('../utils/organizationUtils');
+
+/**
+ * Screen Socket Namespace
+ * Display devices (the web player) connect here with their screen access key
+ * rather than a user JWT. Each screen joins its own room so REST controllers
+ * and dashboard users can push playlist changes and emergency controls to it,
+ * and every heartbeat is persisted so lastSeen, status and performance stay current.
+ * Playback progress is relayed to dashboards and kept in memory only, and
+ * remote command results are recorded against the command that asked for them
+ */
+
+const SCREEN_NAMESPACE = '/screens';
+
+// Statuses a heartbeat is allowed to lift to online; maintenance and error are set deliberately
+const RECOVERABLE_STATUSES = ['offline', 'connecting'];
+
+// Statuses a device may report about itself
+const DEVICE_REPORTED_STATUSES = ['online', 'error'];
+
+const PERFORMANCE_LIMITS = {
+  cpuUsage: [0, 100],
+  memoryUsage: [0, 100],
+  storageUsage: [0, 100],
+  temperature: [-50, 100]
+};
+
+const CONNECTION_TYPES = ['wifi', 'ethernet', 'cellular'];
+
+// Screenshots arrive as JPEG data URLs; anything larger is rejected
+const MAX_SCREENSHOT_LENGTH = 900 * 1024;
+
+// Latest playback state per screen, so dashboards opened mid-item can catch up
+const latestPlayback = new Map();
+
+/**
+ * Keep only known, in-range numeric metrics from a device-reported payload
+ */
+const sanitizeMetrics = (metrics) => {
+  if (!metrics || typeof metrics !== 'object') return null;
+
+  const sanitized = {};
+  Object.entries(PERFORMANCE_LIMITS).forEach(([key, [min, max]]) => {
+    const value = Number(metrics[key]);
+    if (metrics[key] !== undefined && metrics[key] !== null && Number.isFinite(value)) {
+      sanitized[key] = Math.min(max, Math.max(min, value));
+    }
+  });
+
+  return Object.keys(sanitized).length > 0 ? sanitized : null;
+};
+
+/**
+ * Keep only the link measurements the player is able to report
+ */
+const sanitizeNetwork = (network) => {
+  if (!network || typeof network !== 'object') return null;
+
+  const latency = Number(network.latency);
+  const downlink = Number(network.downlink);
+  const sanitized = {};
+
+  if (network.latency !== undefined && Number.isFinite(latency) && latency >= 0) {
+    sanitized.latency = Math.round(latency);
+  }
+  if (network.downlink !== undefined && Number.isFinite(downlink) && downlink >= 0) {
+    sanitized.downlink = downlink;
+  }
+  if (CONNECTION_TYPES.includes(network.connectionType)) {
+    sanitized.connectionType = network.connectionType;
+  }
+
+  return Object.keys(sanitized).length > 0 ? sanitized : null;
+};
+
+/**
+ * Validate a playback progress report from the player
+ */
+const sanitizePlayback = (data) => {
+  if (!data || typeof data !== 'object' || typeof data.itemId !== 'string') return null;
+
+  const duration = Number(data.duration);
+  const elapsed = Number(data.elapsed);
+
+  return {
+    playlistId: typeof data.playlistId === 'string' ? data.playlistId : null,
+    itemId: data.itemId,
+    mediaId: typeof data.mediaId === 'string' ? data.mediaId : null,
+    mediaName: typeof data.mediaName === 'string' ? data.mediaName.slice(0, 200) : '',
+    mediaType: data.mediaType === 'video' ? 'video' : 'image',
+    index: Number.isInteger(data.index) ? data.index : 0,
+    total: Number.isInteger(data.total) ? data.total : 0,
+    duration: Number.isFinite(duration) && duration > 0 ? duration : 0,
+    elapsed: Number.isFinite(elapsed) && elapsed > 0 ? elapsed : 0,
+    paused: data.paused === true
+  };
+};
+
+/**
+ * Keep only the result fields each command type can produce
+ */
+const sanitizeCommandResult = (type, result) => {
+  if (!result || typeof result !== 'object') return undefined;
+
+  if (type === 'screenshot') {
+    const { image, width, height } = result;
+    if (typeof image !== 'string' || !image.startsWith('data:image/') || image.length > MAX_SCREENSHOT_LENGTH) {
+      return undefined;
+    }
+    return {
+      image,
+      width: Number.isFinite(width) ? width : undefined,
+      height: Number.isFinite(height) ? height : undefined
+    };
+  }
+
+  if (type === 'set-volume' || type === 'set-brightness') {
+    const value = Number(result.value);
+    return Number.isFinite(value) ? { value } : undefined;
+  }
+
+  return undefined;
+};
+
+/**
+ * Latest known playback state for the given screens
+ * @param {Array<string>} screenIds - Screen _id strings
+ * @returns {Array<Object>} Playback states, for screens that have reported one
+ */
+const getPlaybackSnapshot = (screenIds) =>
+  screenIds
+    .map(screenId => latestPlayback.get(screenId.toString()))
+    .filter(Boolean);
+
+/**
+ * Send a screen the emergency it should currently show, or clear its overlay
+ * when none applies. Used on connect and whenever an emergency starts or ends
+ * @param {Object} screenIo - Screen namespace
+ * @param {Object} screen - Screen document
+ */
+const sendCurrentEmergency = async (screenIo, screen) => {
+  const emergency = await EmergencyBroadcast.findCurrentForScreen(screen);
+
+  screenIo.to(`screen:${screen._id}`).emit(
+    'emergency-control',
+    emergency
+      ? emergency.toDisplayEvent()
+      : { action: 'clear', timestamp: new Date().toISOString() }
+  );
+};
+
+/**
+ * Re-send emergency state to every active screen an emergency targets
+ * @param {Object} screenIo - Screen namespace
+ * @param {Object} emergency - EmergencyBroadcast document
+ */
+const refreshEmergencyTargets = async (screenIo, emergency) => {
+  const screens = await Screen.find({ organization: emergency.organization, isActive: true })
+    .select('_id organization tags');
+
+  const membership = emergency.targetType === 'groups'
+    ? await ScreenGroup.getMembershipMap(emergency.organization, screens)
+    : new Map();
+
+  const targets = screens.filter(screen =>
+    emergency.targetsScreen(screen, membership.get(screen._id.toString()))
+  );
+  await Promise.all(targets.map(screen => sendCurrentEmergency(screenIo, screen)));
+
+  return targets.length;
+};
+
+/**
+ * Whether a player is currently connected for a screen
+ * @param {Object} screenIo - Screen namespace
+ * @param {string} screenId - Screen _id
+ */
+const isScreenConnected = (screenIo, screenId) =>
+  (screenIo.adapter.rooms.get(`screen:${screenId}`)?.size || 0) > 0;
+
+/**
+ * Tell the organization's dashboards that a remote command changed state
+ * @param {Object} io - Socket.IO server
+ * @param {Object} command - ScreenCommand document
+ */
+const emitCommandUpdate = (io, command) => {
+  io.to(organizationRoom(command.organization)).emit('screen:command:updated', {
+    command,
+    timestamp: new Date().toISOString()
+  });
+};
+
+/**
+ * Tell the screen organization's dashboards that a screen changed status
+ */
+const emitStatusChange = (io, screen, previousStatus, message) => {
+  io.to(organizationRoom(screen.organization)).emit('screen:status:changed', {
+    screenId: screen._id.toString(),
+    status: screen.status,
+    previousStatus,
+    message,
+    lastSeen: screen.lastSeen,
+    timestamp: new Date().toISOString()
+  });
+};
+
+/**
+ * Mark a screen online if a connection or heartbeat shows it is alive again
+ */
+const markOnline = async (io, screen) => {
+  if (!RECOVERABLE_STATUSES.includes(screen.status)) return;
+
+  const previousStatus = screen.status;
+  await screen.updateStatus('online');
+  emitStatusChange(io, screen, previousStatus);
+
+  logger.info('Screen came online:', {
+    service: 'socket',
+    screenId: screen._id,
+    previousStatus
+  });
+};
+
+/**
+ * Set up the screen namespace on the Socket.IO server
+ * @param {Object} io - Socket.IO server; dashboard notifications go to its default namespace
+ * @returns {Object} The screen namespace, for emitting to screen rooms
+ */
+const registerScreenNamespace = (io) => {
+  const screens = io.of(SCREEN_NAMESPACE);
+
+  // Authenticate with the screen access key issued at pairing
+  screens.use(async (socket, next) => {
+    const accessKey = socket.handshake.auth.accessKey || socket.handshake.headers['x-screen-key'];
+
+    try {
+      if (!accessKey) {
+        return next(new Error('Screen access key required'));
+      }
+
+      const screen = await Screen.findByAccessKey(accessKey);
+      if (!screen) {
+        return next(new Error('Invalid screen access key'));
+      }
+
+      socket.screenId = screen._id.toString();
+      socket.screenOrganizationId = String(screen.organization);
+
+      next();
+    } catch (error) {
+      logger.warn('Screen socket authentication failed:', {
+        service: 'socket',
+        error: error.message,
+        socketId: socket.id,
+        accessKeyPresent: !!accessKey
+      });
+
+      next(new Error('Authentication failed'));
+    }
+  });
+
+  screens.on('connection', async (socket) => {
+    const { screenId, screenOrganizationId } = socket;
+
+    logger.info('Screen socket connected:', {
+      service: 'socket',
+      screenId,
+      socketId: socket.id
+    });
+
+    socket.join(`screen:${screenId}`);
+    socket.join(organizationRoom(screenOrganizationId));
+
+    socket.emit('registration-confirmed', {
+      success: true,
+      screenId,
+      timestamp: new Date().toISOString()
+    });
+
+    socket.on('heartbeat', async (data = {}) => {
+      try {
+        const screen = await Screen.findById(screenId);
+        if (!screen || !screen.isActive) {
+          socket.disconnect(true);
+          return;
+        }
+
+        const network = sanitizeNetwork(data.network);
+        if (network) {
+          Object.assign(screen.network, network, { lastMeasured: new Date() });
+        }
+
+        await screen.heartbeat();
+
+        const metrics = sanitizeMetrics(data.metrics);
+        if (metrics) {
+          await screen.updatePerformance(metrics);
+        }
+
+        await markOnline(io, screen);
+
+        socket.emit('heartbeat-ack', {
+          timestamp: new Date().toISOString()
+        });
+
+        io.to(organizationRoom(screenOrganizationId)).emit('screen:heartbeat', {
+          screenId,
+          lastSeen: screen.lastSeen,
+          performance: metrics ? screen.performance : undefined,
+          network: network ? screen.network : undefined,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        logger.error('Failed to record screen heartbeat:', {
+          service: 'socket',
+          screenId,
+          error: error.message
+        });
+      }
+    });
+
+    // Players report each item as it starts, pauses or resumes
+    socket.on('playback:progress', (data) => {
+      const playback = sanitizePlayback(data);
+      if (!playback) return;
+
+      const state = {
+        screenId,
+        ...playback,
+        timestamp: new Date().toISOString()
+      };
+
+      latestPlayback.set(screenId, state);
+      io.to(organizationRoom(screenOrganizationId)).emit('screen:playback:progress', state);
+    });
+
+    // Devices answer each remote command once, with a result or an error
+    socket.on('command:result', async (data = {}) => {
+      const { commandId } = data;
+      if (typeof commandId !== 'string' || !mongoose.Types.ObjectId.isValid(commandId)) return;
+
+      try {
+        const command = await ScreenCommand.findOne({ _id: commandId, screen: screenId, status: 'pending' });
+        if (!command) return;
+
+        command.status = data.success === true ? 'acked' : 'failed';
+        command.respondedAt = new Date();
+        command.result = sanitizeCommandResult(command.type, data.result);
+        if (command.status === 'failed') {
+          command.error = typeof data.error === 'string' ? data.error.slice(0, 500) : 'Command failed on device';
+        }
+        await command.save();
+
+        emitCommandUpdate(io, command);
+
+        logger.info('Screen command answered:', {
+          service: 'socket',
+          screenId,
+          commandId,
+          type: command.type,
+          status: command.status
+        });
+      } catch (error) {
+        logger.error('Failed to record screen command result:', {
+          service: 'socket',
+          screenId,
+          commandId,
+          error: error.message
+        });
+      }
+    });
+
+    // Devices report playback failures (and recovery) between heartbeats
+    socket.on('screen-status', async (data = {}) => {
+      const { status, message } = data;
+      if (!DEVICE_REPORTED_STATUSES.includes(status)) return;
+
+      try {
+        const screen = await Screen.findById(screenId);
+        if (!screen || screen.status === 'maintenance' || screen.status === status) return;
+
+        const previousStatus = screen.status;
+        await screen.updateStatus(status, typeof message === 'string' ? message.slice(0, 500) : undefined);
+        emitStatusChange(io, screen, previousStatus, message);
+
+        logger.info('Screen reported status:', {
+          service: 'socket',
+          screenId,
+          status,
+          previousStatus,
+          message
+        });
+      } catch (error) {
+        logger.error('Failed to record screen status:', {
+          service: 'socket',
+          screenId,
+          error: error.message
+        });
+      }
+    });
+
+    socket.on('disconnect', (reason) => {
+      // Status is left to the heartbeat monitor so brief Wi-Fi drops don't flap the dashboard,
+      // but playback state is only meaningful while a player is connected
+      if (!screens.adapter.rooms.get(`screen:${screenId}`)?.size) {
+        latestPlayback.delete(screenId);
+      }
+
+      logger.info('Screen socket disconnected:', {
+        service: 'socket',
+        screenId,
+        socketId: socket.id,
+        reason
+      });
+    });
+
+    // Handlers are registered first so an early heartbeat isn't dropped while this runs
+    try {
+      const screen = await Screen.findById(screenId);
+      if (screen) {
+        await markOnline(io, screen);
+
+        // A screen reconnecting mid-emergency must pick the alert back up
+        await sendCurrentEmergency(screens, screen);
+      }
+    } catch (error) {
+      logger.error('Failed to update screen status on connect:', {
+        service: 'socket',
+        screenId,
+        error: error.message
+      });
+    }
+  });
+
+  return screens;
+};
+
+module.exports = {
+  SCREEN_NAMESPACE,
+  registerScreenNamespace,
+  emitStatusChange,
+  emitCommandUpdate,
+  isScreenConnected,
+  getPlaybackSnapshot,
+  sendCurrentEmergency,
+  refreshEmergencyTargets
+};
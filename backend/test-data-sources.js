@@ -0,0 +1,168 @@
+/**
+ * Data Source Registry Test Script
+ * Drives the data source registry against a local mock feed server, so no
+ * database or external feed is needed
+ *
+ * Usage: node test-data-sources.js
+ */
+
+const http = require('http');
+
+// The mock feed runs on loopback, which feeds may only reach when allowed
+process.env.DATA_SOURCE_ALLOWED_HOSTS = '127.0.0.1';
+
+const {
+  registerDataSourceType,
+  getDataSourceTypes,
+  getLocationKey,
+  getValueAtPath,
+  pollDataSource,
+  getScreenDataValues,
+  getSourceSnapshot,
+  clearDataSource
+} = require('./utils/dataSourceRegistry');
+
+let passed = 0;
+let failed = 0;
+
+const logTest = (testName, status, message) => {
+  const statusIcon = status === 'PASS' ? '✅' : '❌';
+  console.log(`${statusIcon} ${testName}: ${message}`);
+  if (status === 'PASS') passed++;
+  else failed++;
+};
+
+const check = (testName, condition, message) => {
+  logTest(testName, condition ? 'PASS' : 'FAIL', message);
+};
+
+/**
+ * Mock feed server: weather by coordinates, a shared queue feed, a feed
+ * that redirects to a private address and a feed that always fails
+ */
+let queueLength = 4;
+const requests = [];
+
+const startMockFeedServer = () => new Promise(resolve => {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    requests.push({ path: url.pathname, search: url.search, apiKey: req.headers['x-api-key'] });
+
+    const send = (status, body) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/weather') {
+      const latitude = Number(url.searchParams.get('lat'));
+      return send(200, {
+        current: { temperature: latitude > 50 ? 12.5 : 24, weather: [{ main: latitude > 50 ? 'Rain' : 'Clear' }] }
+      });
+    }
+    if (url.pathname === '/queue') {
+      return send(200, { queue: { length: queueLength, open: true } });
+    }
+    if (url.pathname === '/redirect') {
+      res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data' });
+      return res.end();
+    }
+    send(503, { message: 'Feed unavailable' });
+  });
+
+  server.listen(0, '127.0.0.1', () => resolve(server));
+});
+
+const london = { name: 'London Store', coordinates: { latitude: 51.5072, longitude: -0.1276 } };
+const londonAnnex = { name: 'London Annex', coordinates: { latitude: 51.5068, longitude: -0.1281 } };
+const madrid = { name: 'Madrid Store', coordinates: { latitude: 40.4168, longitude: -3.7038 } };
+const noCoordinates = { name: 'Warehouse' };
+
+async function run() {
+  const server = await startMockFeedServer();
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  try {
+    // Path helpers
+    check('Value paths', getValueAtPath({ a: { b: [{ c: 3 }] } }, 'a.b[0].c') === 3, 'Reads nested objects and arrays');
+    check('Missing paths', getValueAtPath({ a: null }, 'a.b.c') === undefined, 'Missing values are undefined');
+    check('Location keys', getLocationKey(london) === getLocationKey(londonAnnex), 'Nearby screens share a location key');
+
+    // Location-based feed
+    const weather = {
+      _id: 'weather-source',
+      key: 'weather',
+      type: 'http-json',
+      url: `${baseUrl}/weather?lat={lat}&lon={lon}`,
+      headers: new Map([['X-Api-Key', 'secret']]),
+      fields: [
+        { key: 'condition', path: 'current.weather[0].main' },
+        { key: 'temperature', path: 'current.temperature' },
+        { key: 'missing', path: 'current.humidity' }
+      ]
+    };
+
+    const weatherResult = await pollDataSource(weather, [london, londonAnnex, madrid, noCoordinates]);
+    check('Weather poll', weatherResult.fetched === 2 && weatherResult.errors.length === 0, `Fetched ${weatherResult.fetched} locations`);
+    check('Request headers', requests.every(request => request.apiKey === 'secret'), 'Configured headers are sent');
+
+    const londonValues = getScreenDataValues([weather], { location: londonAnnex }).values;
+    check('Values per location', londonValues['weather.condition'] === 'Rain' && londonValues['weather.temperature'] === 12.5, JSON.stringify(londonValues));
+    check('Missing fields', !('weather.missing' in londonValues), 'Fields absent from the response are left out');
+
+    const madridValues = getScreenDataValues([weather], { location: madrid }).values;
+    check('Other locations', madridValues['weather.condition'] === 'Clear', JSON.stringify(madridValues));
+    check('Screens without coordinates', Object.keys(getScreenDataValues([weather], { location: noCoordinates }).values).length === 0, 'No values without coordinates');
+
+    // Shared feed
+    const queue = {
+      _id: 'queue-source',
+      key: 'queue',
+      url: `${baseUrl}/queue`,
+      fields: [{ key: 'length', path: 'queue.length' }, { key: 'open', path: 'queue.open' }]
+    };
+
+    const requestsBefore = requests.length;
+    await pollDataSource(queue, [london, madrid]);
+    check('Shared feed', requests.length === requestsBefore + 1, 'Location-independent feeds are fetched once');
+
+    queueLength = 9;
+    await pollDataSource(queue, [london]);
+    const combined = getScreenDataValues([weather, queue], { location: london });
+    check('Refreshed values', combined.values['queue.length'] === 9 && combined.values['queue.open'] === 'true', JSON.stringify(combined.values));
+    check('Updated timestamp', combined.updatedAt instanceof Date, 'Latest fetch time is reported');
+
+    // Failing feed keeps previous values
+    const failing = { ...queue, url: `${baseUrl}/broken` };
+    const failingResult = await pollDataSource(failing, [london]);
+    check('Failed poll', failingResult.errors.length === 1 && /503/.test(failingResult.errors[0].error), failingResult.errors[0]?.error || 'No error');
+    check('Stale values kept', getScreenDataValues([queue], { location: london }).values['queue.length'] === 9, 'Previous values survive a failed poll');
+
+    // Private network addresses
+    const metadata = { ...queue, _id: 'metadata-source', url: 'http://169.254.169.254/latest/meta-data' };
+    const metadataResult = await pollDataSource(metadata, []);
+    check('Private hosts', /private network/.test(metadataResult.errors[0]?.error), metadataResult.errors[0]?.error || 'Fetched');
+
+    const redirected = { ...queue, _id: 'redirect-source', url: `${baseUrl}/redirect` };
+    const redirectResult = await pollDataSource(redirected, []);
+    check('Private redirects', /private network/.test(redirectResult.errors[0]?.error), redirectResult.errors[0]?.error || 'Fetched');
+
+    // Pluggable fetchers
+    registerDataSourceType('static', async ({ source }) => ({ level: source.url.length }));
+    check('Registered types', getDataSourceTypes().includes('static'), getDataSourceTypes().join(', '));
+    const custom = { _id: 'static-source', key: 'stock', type: 'static', url: 'memory://12345', fields: [{ key: 'level', path: 'level' }] };
+    await pollDataSource(custom, []);
+    check('Custom fetcher', getScreenDataValues([custom], { location: london }).values['stock.level'] === 14, 'Values come from the registered fetcher');
+
+    clearDataSource('queue-source');
+    check('Clearing a source', getSourceSnapshot('queue-source').length === 0, 'Cached values are dropped');
+  } catch (error) {
+    logTest('Data source registry', 'FAIL', error.message);
+  } finally {
+    server.close();
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run();
@@ -0,0 +1,139 @@
+/**
+ * Account Email Test Script
+ * Sends the verification, password reset and invitation emails through a local SMTP
+ * sink, so no mail server or database is needed
+ *
+ * Usage: node test-email.js
+ */
+
+const net = require('net');
+const {
+  setEmailTransport,
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  sendInvitationEmail
+} = require('./utils/emailService');
+
+let passed = 0;
+let failed = 0;
+
+const logTest = (testName, status, message) => {
+  const statusIcon = status === 'PASS' ? '✅' : '❌';
+  console.log(`${statusIcon} ${testName}: ${message}`);
+  if (status === 'PASS') passed++;
+  else failed++;
+};
+
+const check = (testName, condition, message) => {
+  logTest(testName, condition ? 'PASS' : 'FAIL', message);
+};
+
+/**
+ * Minimal SMTP sink: accepts every message and keeps it in memory
+ */
+const messages = [];
+
+const startSmtpSink = () => new Promise(resolve => {
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let current = { recipients: [], data: '' };
+
+    socket.write('220 localhost SMTP sink\r\n');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+
+      let index;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            messages.push(current);
+            current = { recipients: [], data: '' };
+            socket.write('250 OK: queued\r\n');
+          } else {
+            current.data += `${line.startsWith('..') ? line.slice(1) : line}\n`;
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === 'EHLO' || command === 'HELO') socket.write('250 localhost\r\n');
+        else if (command === 'MAIL') socket.write('250 OK\r\n');
+        else if (command === 'RCPT') {
+          current.recipients.push(line.replace(/^RCPT TO:\s*<?([^>]*)>?.*$/i, '$1'));
+          socket.write('250 OK\r\n');
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') socket.end('221 Bye\r\n');
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+
+  server.listen(0, '127.0.0.1', () => resolve(server));
+});
+
+// Quoted-printable bodies wrap long lines with soft breaks
+const decodeBody = (data) => data.replace(/=\n/g, '').replace(/=3D/g, '=');
+
+async function run() {
+  const server = await startSmtpSink();
+  process.env.FRONTEND_URL = 'https://dashboard.example.com/';
+
+  setEmailTransport({
+    host: '127.0.0.1',
+    port: server.address().port,
+    secure: false,
+    ignoreTLS: true
+  });
+
+  const user = { name: 'Ada <Admin>', email: 'ada@example.com' };
+
+  try {
+    await sendVerificationEmail(user, 'a'.repeat(64));
+    const verification = messages[0];
+    check('Verification delivered', verification && verification.recipients[0] === user.email, `Recipients: ${verification?.recipients}`);
+
+    const verificationBody = decodeBody(verification?.data || '');
+    check('Verification subject', /Subject: Verify your email address/.test(verificationBody), 'Subject is set');
+    check('Verification link', verificationBody.includes(`https://dashboard.example.com/verify-email?token=${'a'.repeat(64)}`), 'Links to the dashboard verify page');
+    check('HTML escaping', verificationBody.includes('Ada &lt;Admin&gt;'), 'Names are escaped in the HTML part');
+
+    await sendPasswordResetEmail(user, 'b'.repeat(64));
+    const resetBody = decodeBody(messages[1]?.data || '');
+    check('Reset delivered', messages.length === 2, `${messages.length} messages captured`);
+    check('Reset link', resetBody.includes(`https://dashboard.example.com/reset-password?token=${'b'.repeat(64)}`), 'Links to the dashboard reset page');
+
+    await sendInvitationEmail('grace@example.com', { name: 'Acme & Co' }, user);
+    const invitation = messages[2];
+    const invitationBody = decodeBody(invitation?.data || '');
+    check('Invitation delivered', invitation && invitation.recipients[0] === 'grace@example.com', `Recipients: ${invitation?.recipients}`);
+    check('Invitation link', invitationBody.includes('https://dashboard.example.com/dashboard"') && invitationBody.includes('Acme &amp; Co'), 'Links to the dashboard and escapes the organization name');
+
+    // A transport that cannot deliver rejects, so callers can log the failure
+    setEmailTransport({ host: '127.0.0.1', port: 1, secure: false, ignoreTLS: true, connectionTimeout: 2000 });
+    let deliveryError = null;
+    try {
+      await sendPasswordResetEmail(user, 'c'.repeat(64));
+    } catch (error) {
+      deliveryError = error;
+    }
+    check('Delivery failures', deliveryError !== null, deliveryError?.message || 'No error raised');
+  } catch (error) {
+    logTest('Account emails', 'FAIL', error.message);
+  } finally {
+    setEmailTransport(null);
+    server.close();
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run();
@@ -67,7 +67,7 @@ async function testMediaUpload() {
       0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0, 144, 119, 83, 222, 0,
       0, 0, 12, 73, 68, 65, 84, 8, 153, 99, 248, 15, 0, 0, 1, 0, 1,
       0, 21, 221, 205, 219, 0, 0, 0, 0, 73, 69, 78, 68, 174, 66, 96, 130
-    ]); const form = new FormData(); form.append('file', testImageData, { filename: 'test-image.png', contentType: 'image/png' }); form.append('duration', '15'); form.append('tags', 'test,advertisement,sample'); form.append('description', 'Test image for comprehensive media API testing'); const response = await axios.post(`${API_BASE}/media/upload`, form, { headers: { ...form.getHeaders(), 'Authorization': `Bearer ${authToken}` } }); testMediaId = response.data.data._id; console.log('✅ Media uploaded successfully'); console.log(`📋 Media ID: ${testMediaId}`); console.log(`📋 Cloudinary ID: ${response.data.data.cloudinaryId}`); console.log(`📋 File Size: ${response.data.data.fileSize} bytes`); console.log(`📋 Duration: ${response.data.data.duration} seconds`); console.log(`📋 Tags: ${response.data.data.tags.join(', ')}`); return true;
+    ]); const form = new FormData(); form.append('file', testImageData, { filename: 'test-image.png', contentType: 'image/png' }); form.append('duration', '15'); form.append('tags', 'test,advertisement,sample'); form.append('description', 'Test image for comprehensive media API testing'); const response = await axios.post(`${API_BASE}/media/upload`, form, { headers: { ...form.getHeaders(), 'Authorization': `Bearer ${authToken}` } }); testMediaId = response.data.data._id; console.log('✅ Media uploaded successfully'); console.log(`📋 Media ID: ${testMediaId}`); console.log(`📋 Storage Key: ${response.data.data.storageKey}`); console.log(`📋 File Size: ${response.data.data.fileSize} bytes`); console.log(`📋 Duration: ${response.data.data.duration} seconds`); console.log(`📋 Tags: ${response.data.data.tags.join(', ')}`); return true;
   } catch (error) { console.error('❌ Media upload failed:', error.response?.data?.message || error.message); if (error.response?.data?.errors) { console.error('📋 Validation errors:', error.response.data.errors); } return false; }
 } /*** Test Get Media with Filters*/
 async function testGetMedia() {
@@ -171,7 +171,7 @@ async function testDeleteMedia() {
     const response = await axios.delete(`${API_BASE}/media/${testMediaId}`, { headers: { 'Authorization': `Bearer ${authToken}` } });
     console.log('✅ Media deleted successfully');
     console.log(`📋 Deleted media ID: ${response.data.data.id}`);
-    console.log(`📋 Cloudinary ID: ${response.data.data.cloudinaryId}`);
+    console.log(`📋 Storage Key: ${response.data.data.storageKey}`);
     return true;
   } catch (error) {
     console.error('❌ Delete media failed:', error.response?.data?.message || error.message);
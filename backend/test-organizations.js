@@ -0,0 +1,168 @@
+/**
+ * Organization Test Script
+ * Checks membership rules, role permissions, how organization roles combine
+ * with playlist collaborator permissions and when playlists may go live, on
+ * unsaved documents so no database is needed
+ *
+ * Usage: node test-organizations.js
+ */
+
+const mongoose = require('mongoose');
+const Organization = require('./models/organizationModel');
+const Playlist = require('./models/playlistModel');
+const { requirePermission } = require('./middleware/authMiddleware');
+const { ALL_PERMISSIONS } = require('./config/permissions');
+
+let passed = 0;
+let failed = 0;
+
+const logTest = (testName, status, message) => {
+  const statusIcon = status === 'PASS' ? '✅' : '❌';
+  console.log(`${statusIcon} ${testName}: ${message}`);
+  if (status === 'PASS') passed++;
+  else failed++;
+};
+
+const check = (testName, condition, message) => {
+  logTest(testName, condition ? 'PASS' : 'FAIL', message);
+};
+
+const newId = () => new mongoose.Types.ObjectId();
+
+function run() {
+  const owner = newId();
+  const admin = newId();
+  const member = newId();
+  const outsider = newId();
+
+  try {
+    // Membership
+    const organization = new Organization({
+      name: 'Acme Retail',
+      createdBy: owner,
+      members: [{ user: owner, role: 'owner' }]
+    });
+    organization.addMember(admin, 'admin');
+    organization.addMember(member);
+
+    check('Member roles', organization.getMemberRole(admin) === 'admin' && organization.getMemberRole(member) === 'member', 'Roles are recorded per member');
+    check('Non-members', organization.getMemberRole(outsider) === null, 'Outsiders have no role');
+    check('Role ranking', organization.hasRole(owner, 'admin') && !organization.hasRole(member, 'admin'), 'Owners include admin rights, members do not');
+
+    organization.addMember(member, 'admin');
+    check('Role changes', organization.memberCount === 3 && organization.getMemberRole(member) === 'admin', 'Adding an existing member updates their role');
+    organization.addMember(member, 'member');
+
+    check('Owner count', organization.countOwners() === 1, `${organization.countOwners()} owner`);
+    check('Removing members', organization.removeMember(admin) && !organization.removeMember(admin), 'Removing twice reports the second time as a no-op');
+    organization.addMember(admin, 'admin');
+
+    // Invitations
+    organization.invite('New.Person@Example.com', 'member', owner);
+    organization.invite('new.person@example.com', 'admin', owner);
+    const pending = organization.getPendingInvitations();
+    check('Invitation emails', pending.length === 1 && pending[0].email === 'new.person@example.com', 'Emails are normalized and re-inviting replaces the earlier invitation');
+    check('Invitation role', pending[0].role === 'admin', 'The latest invitation role wins');
+
+    pending[0].expiresAt = new Date(Date.now() - 1000);
+    check('Expired invitations', organization.getPendingInvitations().length === 0, 'Expired invitations are not pending');
+
+    const validation = new Organization({ name: 'Bad', createdBy: owner, members: [{ user: owner, role: 'superuser' }] }).validateSync();
+    check('Role validation', !!validation?.errors['members.0.role'], 'Unknown roles are rejected');
+
+    // Playlist permissions within and outside the organization
+    const workspaceOf = (userId) => ({
+      organization: organization._id,
+      role: organization.getMemberRole(userId),
+      permissions: organization.getPermissions(userId),
+      requireApproval: organization.requireApproval
+    });
+    const playlist = new Playlist({
+      name: 'Lobby loop',
+      owner,
+      organization: organization._id,
+      collaborators: [{ user: outsider, permission: 'view' }]
+    });
+
+    check('Creator permission', playlist.getPermission(owner, workspaceOf(owner)) === 'owner', 'The creator keeps owner permission');
+    check('Admin permission', playlist.getPermission(admin, workspaceOf(admin)) === 'admin', 'Organization admins administer every playlist');
+    check('Member permission', playlist.getPermission(member, workspaceOf(member)) === 'edit', 'Members edit the organization\'s playlists');
+    check('Other workspace', playlist.getPermission(member, { organization: newId(), role: 'owner' }) === null, 'Roles in another organization grant nothing');
+    check('Collaborators', playlist.getPermission(outsider, { organization: newId(), role: 'owner' }) === 'view', 'Collaborators from other organizations keep their permission');
+
+    playlist.collaborators.push({ user: member, permission: 'admin' });
+    check('Highest permission', playlist.getPermission(member, workspaceOf(member)) === 'admin', 'The higher of organization and collaborator permission applies');
+
+    const memberAdminFilter = Playlist.accessFilter(member, 'admin', workspaceOf(member));
+    check('Member admin filter', memberAdminFilter.$or[0].owner === member, 'Members only administer playlists they created');
+
+    const adminEditFilter = Playlist.accessFilter(admin, 'edit', workspaceOf(admin));
+    check('Admin edit filter', adminEditFilter.$or[0].organization === organization._id && !adminEditFilter.$or[0].owner, 'Admins edit everything in the organization');
+
+    const legacyFilter = Playlist.accessFilter(owner, 'view');
+    check('Filter without workspace', legacyFilter.$or[0].owner === owner && legacyFilter.$or.length === 3, 'Only own, shared and public playlists match');
+
+    // Role permissions
+    const editor = newId();
+    const approver = newId();
+    const viewer = newId();
+    organization.addMember(editor, 'content_editor');
+    organization.addMember(approver, 'approver');
+    organization.addMember(viewer, 'viewer');
+
+    check('Fixed roles', organization.getPermissions(admin).length === ALL_PERMISSIONS.length, 'Admins hold every permission');
+    check('Editor permissions', organization.can(editor, 'media:upload') && !organization.can(editor, 'playlist:publish'), 'Content editors upload but do not publish');
+    check('Approver permissions', organization.can(approver, 'playlist:publish') && !organization.can(approver, 'playlist:edit'), 'Approvers publish but do not edit');
+    check('Viewer permissions', !organization.can(viewer, 'media:upload') && organization.can(viewer, 'screen:view'), 'Viewers only view');
+    check('Role rank', !organization.hasRole(editor, 'admin') && organization.hasRole(admin, 'admin'), 'Configurable roles rank below admin');
+
+    check('Editor playlist grant', playlist.getPermission(editor, workspaceOf(editor)) === 'edit', 'Content editors edit the organization\'s playlists');
+    check('Viewer playlist grant', playlist.getPermission(viewer, workspaceOf(viewer)) === 'view', 'Viewers view them');
+
+    const approverPublish = Playlist.publishFilter(approver, workspaceOf(approver));
+    const editorPublish = Playlist.publishFilter(editor, workspaceOf(editor));
+    check('Publish filter', approverPublish.$or[0].organization === organization._id && editorPublish.$or.length === 1, 'Only roles that publish put the organization\'s playlists on screens');
+
+    check('Approver review', organization.can(approver, 'playlist:approve') && !organization.can(member, 'playlist:approve'), 'Approvers review playlists, members do not');
+
+    // Approval workflow
+    check('Approval default', playlist.approval.status === 'draft' && playlist.approval.publishedVersion == null, 'New playlists start as unpublished drafts');
+    check('Approval off', playlist.canGoLive(workspaceOf(member)), 'Without required approval any playlist may go live');
+    organization.requireApproval = true;
+    check('Approval required', !playlist.canGoLive(workspaceOf(member)), 'Playlists never published cannot go live once approval is required');
+    playlist.approval.publishedVersion = 1;
+    check('Published revision', playlist.canGoLive(workspaceOf(member)), 'A published revision keeps the playlist on screens while it is edited');
+    organization.requireApproval = false;
+
+    organization.setRolePermissions('viewer', ['media:view', 'media:upload', 'not:real']);
+    check('Configured roles', organization.can(viewer, 'media:upload') && !organization.can(viewer, 'screen:view'), 'Organizations change what a role may do');
+    check('Unknown permissions', !organization.getPermissions(viewer).includes('not:real'), 'Unknown permissions are dropped');
+
+    let fixedError = null;
+    try {
+      organization.setRolePermissions('admin', []);
+    } catch (error) {
+      fixedError = error;
+    }
+    check('Fixed role changes', !!fixedError, 'Admin permissions cannot be changed');
+
+    // Permission middleware
+    const runMiddleware = (permissions) => {
+      let nextCalled = false;
+      let status = null;
+      const req = { user: { _id: viewer }, workspace: { organization: organization._id, role: 'viewer', permissions }, ip: '127.0.0.1', originalUrl: '/test' };
+      const res = { status(code) { status = code; return this; }, json() { return this; } };
+      requirePermission('emergency:send')(req, res, () => { nextCalled = true; });
+      return { nextCalled, status };
+    };
+    check('Permission allowed', runMiddleware(['emergency:send']).nextCalled, 'Requests with the permission continue');
+    check('Permission denied', runMiddleware(['screen:view']).status === 403, 'Requests without it get 403');
+  } catch (error) {
+    logTest('Organizations', 'FAIL', error.message);
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+run();
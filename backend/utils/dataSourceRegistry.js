@@ -0,0 +1,305 @@
+/**
+ * Data Source Registry
+ * Fetchers for external data feeds, keyed by source type, and the latest
+ * values each source returned for each screen location. New feed types plug
+ * in with registerDataSourceType; 'http-json' is built in. Values are cached
+ * in memory, so after a restart screens see no feed values until the first
+ * poll, and conditions on them are not enforced in the meantime
+ */
+
+const dns = require('dns').promises;
+const net = require('net');
+
+// Requests slower than this count as failed polls
+const FETCH_TIMEOUT_MS = 10 * 1000;
+
+// Redirects followed per request, each checked like the feed URL itself
+const MAX_REDIRECTS = 3;
+
+// Loopback, private, shared and link-local ranges (the latter hold cloud metadata endpoints)
+const PRIVATE_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]
+].forEach(([address, prefix]) => PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10]
+].forEach(([address, prefix]) => PRIVATE_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+// Cache key for sources whose URL does not depend on the screen's location
+const GLOBAL_LOCATION = 'global';
+
+// Coordinates are rounded to about 1 km, so screens in the same building share a fetch
+const COORDINATE_PRECISION = 2;
+
+const LOCATION_PLACEHOLDER = /\{(lat|lon|location)\}/;
+const COORDINATE_PLACEHOLDER = /\{(lat|lon)\}/;
+
+// type -> async ({ url, headers, source, location }) => parsed response
+const fetchers = new Map();
+
+// sourceId -> Map(locationKey -> { values, fetchedAt })
+const cache = new Map();
+
+/**
+ * Register a fetcher for a data source type
+ * @param {string} type - Type name stored on data sources, e.g. 'http-json'
+ * @param {Function} fetcher - async ({ url, headers, source, location }) => response object
+ */
+const registerDataSourceType = (type, fetcher) => {
+  fetchers.set(type, fetcher);
+};
+
+/**
+ * Registered data source type names
+ */
+const getDataSourceTypes = () => Array.from(fetchers.keys());
+
+/**
+ * Whether a source is fetched separately for each screen location
+ */
+const isLocationBased = (source) => LOCATION_PLACEHOLDER.test(source.url || '');
+
+const hasCoordinates = (location) => {
+  const coordinates = location?.coordinates;
+  return !!coordinates && Number.isFinite(coordinates.latitude) && Number.isFinite(coordinates.longitude);
+};
+
+/**
+ * Cache key for a screen location, e.g. "51.51,-0.13". Screens without
+ * coordinates share one key per location name
+ * @param {Object} location - Screen location
+ */
+const getLocationKey = (location) => {
+  const coordinates = location?.coordinates;
+  if (hasCoordinates(location)) {
+    return `${coordinates.latitude.toFixed(COORDINATE_PRECISION)},${coordinates.longitude.toFixed(COORDINATE_PRECISION)}`;
+  }
+  return location?.name ? `name:${location.name.trim().toLowerCase()}` : GLOBAL_LOCATION;
+};
+
+/**
+ * Fill {lat}, {lon} and {location} in a feed URL
+ */
+const buildRequestUrl = (url, location) => url
+  .replace(/\{lat\}/g, encodeURIComponent(location?.coordinates?.latitude ?? ''))
+  .replace(/\{lon\}/g, encodeURIComponent(location?.coordinates?.longitude ?? ''))
+  .replace(/\{location\}/g, encodeURIComponent(location?.name ?? ''));
+
+/**
+ * Read a value by dot path, with [n] for array indexes, e.g. current.weather[0].main
+ * @returns {*} The value, or undefined when the path does not exist
+ */
+const getValueAtPath = (object, path) => path
+  .replace(/\[(\d+)\]/g, '.$1')
+  .split('.')
+  .filter(Boolean)
+  .reduce((value, part) => (value === null || value === undefined ? undefined : value[part]), object);
+
+/**
+ * Pick a source's fields out of a feed response. Only strings, numbers and
+ * booleans are kept; fields missing from the response are left out
+ * @returns {Object} Field key -> value
+ */
+const extractValues = (source, response) => (source.fields || []).reduce((values, field) => {
+  const value = getValueAtPath(response, field.path);
+  if (['string', 'number', 'boolean'].includes(typeof value)) {
+    values[field.key] = typeof value === 'boolean' ? String(value) : value;
+  }
+  return values;
+}, {});
+
+const isPrivateAddress = (address) => {
+  // IPv4-mapped IPv6 addresses, e.g. ::ffff:127.0.0.1
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped[1], 'ipv4');
+  return PRIVATE_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+};
+
+/**
+ * Hosts allowed to resolve to private addresses, from the comma-separated
+ * DATA_SOURCE_ALLOWED_HOSTS, e.g. a feed on the local network
+ */
+const getAllowedHosts = () => (process.env.DATA_SOURCE_ALLOWED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+/**
+ * Refuse a feed URL whose host resolves to a loopback, private or link-local
+ * address, so feeds cannot reach the server's own network
+ * @param {string} url - Feed URL with placeholders filled
+ * @throws {Error} With code FEED_HOST_NOT_ALLOWED, or the DNS error when the host does not resolve
+ */
+const assertPublicFeedHost = async (url) => {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (getAllowedHosts().includes(hostname)) return;
+
+  const addresses = net.isIP(hostname)
+    ? [{ address: hostname }]
+    : await dns.lookup(hostname, { all: true });
+
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    const error = new Error(`Feed host ${hostname} is on a private network`);
+    error.code = 'FEED_HOST_NOT_ALLOWED';
+    throw error;
+  }
+};
+
+/**
+ * Built-in fetcher: GET a URL and parse the JSON body. Redirects are
+ * followed by hand so each target's host is checked too
+ */
+const fetchHttpJson = async ({ url, headers }) => {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let target = url;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicFeedHost(target);
+
+    const response = await fetch(target, {
+      headers: { Accept: 'application/json', ...headers },
+      redirect: 'manual',
+      signal
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error('Feed redirected too many times');
+      }
+      target = new URL(location, target).toString();
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Feed responded with HTTP ${response.status}`);
+    }
+
+    return response.json();
+  }
+};
+
+registerDataSourceType('http-json', fetchHttpJson);
+
+const toPlainHeaders = (headers) => {
+  if (!headers) return {};
+  return headers instanceof Map ? Object.fromEntries(headers) : { ...headers };
+};
+
+/**
+ * Fetch a source for each distinct location and cache the values. A failed
+ * location keeps its previous values
+ * @param {Object} source - Data source document or plain object with _id
+ * @param {Array<Object>} locations - Screen locations to fetch for
+ * @returns {Promise<{ fetched: number, errors: Array<{ locationKey: string, error: string }> }>}
+ */
+const pollDataSource = async (source, locations = []) => {
+  const fetcher = fetchers.get(source.type || 'http-json');
+  if (!fetcher) {
+    throw new Error(`Unknown data source type: ${source.type}`);
+  }
+
+  const sourceId = source._id.toString();
+  if (!cache.has(sourceId)) cache.set(sourceId, new Map());
+  const sourceCache = cache.get(sourceId);
+
+  // One request per location key; location-independent feeds are fetched once
+  const targets = new Map();
+  if (isLocationBased(source)) {
+    const needsCoordinates = COORDINATE_PLACEHOLDER.test(source.url);
+    locations.forEach(location => {
+      if (needsCoordinates && !hasCoordinates(location)) return;
+      const locationKey = getLocationKey(location);
+      if (locationKey !== GLOBAL_LOCATION && !targets.has(locationKey)) targets.set(locationKey, location);
+    });
+  } else {
+    targets.set(GLOBAL_LOCATION, null);
+  }
+
+  const headers = toPlainHeaders(source.headers);
+  const errors = [];
+  let fetched = 0;
+
+  await Promise.all(Array.from(targets.entries()).map(async ([locationKey, location]) => {
+    try {
+      const response = await fetcher({
+        url: buildRequestUrl(source.url, location),
+        headers,
+        source,
+        location
+      });
+      sourceCache.set(locationKey, {
+        values: extractValues(source, response),
+        fetchedAt: new Date()
+      });
+      fetched++;
+    } catch (error) {
+      errors.push({ locationKey, error: error.message });
+    }
+  }));
+
+  return { fetched, errors };
+};
+
+/**
+ * Cached values of one source for a location
+ * @returns {Object|null} { values, fetchedAt }, or null before the first successful poll
+ */
+const getCachedValues = (source, location) => {
+  const sourceCache = cache.get(source._id.toString());
+  if (!sourceCache) return null;
+
+  const locationKey = isLocationBased(source) ? getLocationKey(location) : GLOBAL_LOCATION;
+  return sourceCache.get(locationKey) || null;
+};
+
+/**
+ * Every cached value a screen's conditions can use, keyed "<source key>.<field>"
+ * @param {Array<Object>} sources - The screen organization's active data sources
+ * @param {Object} screen - Screen with location
+ * @returns {{ values: Object, updatedAt: Date|null }}
+ */
+const getScreenDataValues = (sources, screen) => sources.reduce((result, source) => {
+  const cached = getCachedValues(source, screen.location);
+  if (!cached) return result;
+
+  Object.entries(cached.values).forEach(([field, value]) => {
+    result.values[`${source.key}.${field}`] = value;
+  });
+  if (!result.updatedAt || cached.fetchedAt > result.updatedAt) {
+    result.updatedAt = cached.fetchedAt;
+  }
+  return result;
+}, { values: {}, updatedAt: null });
+
+/**
+ * Cached values of a source for every location it was fetched for
+ * @returns {Array<{ locationKey: string, values: Object, fetchedAt: Date }>}
+ */
+const getSourceSnapshot = (sourceId) => Array.from(cache.get(sourceId.toString())?.entries() || [])
+  .map(([locationKey, entry]) => ({ locationKey, ...entry }));
+
+/**
+ * Forget a source's cached values, e.g. after it was deleted or its fields changed
+ */
+const clearDataSource = (sourceId) => {
+  cache.delete(sourceId.toString());
+};
+
+module.exports = {
+  GLOBAL_LOCATION,
+  registerDataSourceType,
+  getDataSourceTypes,
+  isLocationBased,
+  getLocationKey,
+  buildRequestUrl,
+  assertPublicFeedHost,
+  getValueAtPath,
+  extractValues,
+  pollDataSource,
+  getCachedValues,
+  getScreenDataValues,
+  getSourceSnapshot,
+  clearDataSource
+};
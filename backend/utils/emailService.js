@@ -0,0 +1,149 @@
+const nodemailer = require('nodemailer');
+const logger = require('../config/logger');
+
+/**
+ * Email Service
+ * Sends account emails (verification, password reset, organization
+ * invitations) through nodemailer.
+ * The transport is pluggable: SMTP from the EMAIL_* settings, a JSON
+ * transport that only logs when no SMTP host is configured, or any transport
+ * passed to setEmailTransport (e.g. one pointed at a local SMTP sink in tests)
+ */
+
+let transport = null;
+
+/**
+ * Build the transport described by the environment
+ * @returns {Object} Nodemailer transporter
+ */
+const createTransportFromEnv = () => {
+  if (!process.env.EMAIL_HOST) {
+    // Nothing to deliver to: messages are rendered and logged only
+    return nodemailer.createTransport({ jsonTransport: true });
+  }
+
+  return nodemailer.createTransport({
+    host: process.env.EMAIL_HOST,
+    port: parseInt(process.env.EMAIL_PORT) || 587,
+    secure: process.env.EMAIL_SECURE === 'true',
+    ...(process.env.EMAIL_USER && {
+      auth: {
+        user: process.env.EMAIL_USER,
+        pass: process.env.EMAIL_PASS
+      }
+    })
+  });
+};
+
+/**
+ * Use a different transport, or the environment's again when null
+ * @param {Object|null} nextTransport - Nodemailer transporter or transport options
+ */
+const setEmailTransport = (nextTransport) => {
+  transport = nextTransport && typeof nextTransport.sendMail !== 'function'
+    ? nodemailer.createTransport(nextTransport)
+    : nextTransport;
+};
+
+const getTransport = () => {
+  if (!transport) transport = createTransportFromEnv();
+  return transport;
+};
+
+/**
+ * Link to a dashboard page, e.g. /reset-password?token=...
+ */
+const frontendLink = (path, token) => {
+  const frontendUrl = (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  return token === undefined
+    ? `${frontendUrl}${path}`
+    : `${frontendUrl}${path}?token=${encodeURIComponent(token)}`;
+};
+
+const escapeHtml = (value = '') => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Send an email
+ * @param {Object} message - { to, subject, text, html }
+ * @returns {Promise<Object>} Nodemailer send info
+ */
+const sendEmail = async ({ to, subject, text, html }) => {
+  const info = await getTransport().sendMail({
+    from: process.env.EMAIL_FROM || process.env.EMAIL_USER || 'Signage Platform <no-reply@localhost>',
+    to,
+    subject,
+    text,
+    html
+  });
+
+  logger.info('Email sent:', {
+    service: 'email',
+    to,
+    subject,
+    messageId: info.messageId
+  });
+
+  return info;
+};
+
+/**
+ * Send the link that verifies a user's email address
+ * @param {Object} user - User with name and email
+ * @param {string} token - Unhashed verification token
+ */
+const sendVerificationEmail = (user, token) => {
+  const link = frontendLink('/verify-email', token);
+
+  return sendEmail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.name},\n\nConfirm your email address by opening this link within 24 hours:\n${link}\n\nIf you did not create an account, you can ignore this email.`,
+    html: `<p>Hi ${escapeHtml(user.name)},</p><p>Confirm your email address by opening this link within 24 hours:</p><p><a href="${link}">Verify email address</a></p><p>If you did not create an account, you can ignore this email.</p>`
+  });
+};
+
+/**
+ * Send the link that lets a user choose a new password
+ * @param {Object} user - User with name and email
+ * @param {string} token - Unhashed reset token
+ */
+const sendPasswordResetEmail = (user, token) => {
+  const link = frontendLink('/reset-password', token);
+
+  return sendEmail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.name},\n\nChoose a new password by opening this link within 10 minutes:\n${link}\n\nIf you did not ask to reset your password, you can ignore this email.`,
+    html: `<p>Hi ${escapeHtml(user.name)},</p><p>Choose a new password by opening this link within 10 minutes:</p><p><a href="${link}">Reset password</a></p><p>If you did not ask to reset your password, you can ignore this email.</p>`
+  });
+};
+
+/**
+ * Tell someone they were invited to an organization. Invitations are
+ * accepted from the dashboard by the account with the invited address
+ * @param {string} email - Invited address
+ * @param {Object} organization - Organization with name
+ * @param {Object} inviter - User with name
+ */
+const sendInvitationEmail = (email, organization, inviter) => {
+  const link = frontendLink('/dashboard');
+
+  return sendEmail({
+    to: email,
+    subject: `You've been invited to ${organization.name}`,
+    text: `${inviter.name} invited you to the ${organization.name} workspace.\n\nSign in, or create an account with this email address, to accept the invitation within 7 days:\n${link}\n\nIf you weren't expecting this invitation, you can ignore this email.`,
+    html: `<p>${escapeHtml(inviter.name)} invited you to the <strong>${escapeHtml(organization.name)}</strong> workspace.</p><p>Sign in, or create an account with this email address, to accept the invitation within 7 days:</p><p><a href="${link}">Open the dashboard</a></p><p>If you weren't expecting this invitation, you can ignore this email.</p>`
+  });
+};
+
+module.exports = {
+  setEmailTransport,
+  sendEmail,
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  sendInvitationEmail
+};
@@ -0,0 +1,185 @@
+const mongoose = require('mongoose');
+const Organization = require('../models/organizationModel');
+const User = require('../models/User');
+const logger = require('../config/logger');
+
+/**
+ * Organization Utilities
+ * Personal workspaces, the move from per-user ownership to organizations,
+ * and the socket rooms dashboards of an organization share
+ */
+
+// Models whose documents belong to an organization
+const SCOPED_MODELS = [
+  'Media',
+  'Playlist',
+  'Screen',
+  'ScreenGroup',
+  'EmergencyBroadcast',
+  'DataSource',
+  'ScreenCommand'
+];
+
+/**
+ * Socket room every dashboard of an organization joins
+ * @param {string|Object} organizationId - Organization id
+ * @returns {string} Room name
+ */
+const organizationRoom = (organizationId) => `organization:${organizationId}`;
+
+/**
+ * A user's workspace in an organization
+ * @param {Object} organization - Organization document the user belongs to
+ * @param {string|Object} userId - User id
+ * @returns {Object} { organization, role, permissions, requireApproval }
+ */
+const toWorkspace = (organization, userId) => ({
+  organization: organization._id,
+  role: organization.getMemberRole(userId),
+  permissions: organization.getPermissions(userId),
+  requireApproval: !!organization.requireApproval
+});
+
+/**
+ * A user's workspace in an organization, or null when not a member
+ * @param {string|Object} organizationId - Organization id
+ * @param {string|Object} userId - User id
+ * @returns {Promise<Object|null>} { organization, role, permissions, requireApproval }
+ */
+const getWorkspace = async (organizationId, userId) => {
+  if (!organizationId) return null;
+
+  const organization = await Organization.findMembership(organizationId, userId);
+  return organization ? toWorkspace(organization, userId) : null;
+};
+
+/**
+ * Move a user's documents that predate organizations into one
+ * @param {string|Object} userId - Previous owner
+ * @param {string|Object} organizationId - Organization taking them over
+ * @returns {Promise<number>} Number of documents moved
+ */
+const claimUnscopedDocuments = async (userId, organizationId) => {
+  let claimed = 0;
+
+  for (const modelName of SCOPED_MODELS) {
+    const result = await mongoose.model(modelName).updateMany(
+      { owner: userId, organization: { $exists: false } },
+      { $set: { organization: organizationId } }
+    );
+    claimed += result.modifiedCount;
+  }
+
+  return claimed;
+};
+
+/**
+ * A user's personal organization, created the first time it is needed.
+ * Documents the user owned before organizations existed move into it
+ * @param {Object} user - User document
+ * @returns {Promise<Object>} Organization document
+ */
+const ensurePersonalOrganization = async (user) => {
+  let organization = await Organization.findOne({
+    createdBy: user._id,
+    isPersonal: true,
+    isActive: true
+  });
+
+  if (!organization) {
+    organization = await Organization.create({
+      name: `${user.name}'s workspace`,
+      createdBy: user._id,
+      isPersonal: true,
+      members: [{ user: user._id, role: 'owner' }]
+    });
+
+    logger.info('Personal organization created', {
+      service: 'organizations',
+      organizationId: organization._id,
+      userId: user._id
+    });
+  }
+
+  const claimed = await claimUnscopedDocuments(user._id, organization._id);
+  if (claimed > 0) {
+    logger.info('Moved documents into personal organization', {
+      service: 'organizations',
+      organizationId: organization._id,
+      userId: user._id,
+      count: claimed
+    });
+  }
+
+  if (!user.defaultOrganization) {
+    await User.updateOne({ _id: user._id }, { $set: { defaultOrganization: organization._id } });
+    user.defaultOrganization = organization._id;
+  }
+
+  return organization;
+};
+
+/**
+ * The organization a user works in when they have not picked one:
+ * their default, then any they belong to, then a new personal one
+ * @param {Object} user - User document
+ * @returns {Promise<Object>} Organization document
+ */
+const resolveDefaultOrganization = async (user) => {
+  if (user.defaultOrganization) {
+    const organization = await Organization.findMembership(user.defaultOrganization, user._id);
+    if (organization) return organization;
+  }
+
+  const [first] = await Organization.findForUser(user._id).limit(1);
+  if (first) {
+    await User.updateOne({ _id: user._id }, { $set: { defaultOrganization: first._id } });
+    user.defaultOrganization = first._id;
+    return first;
+  }
+
+  return ensurePersonalOrganization(user);
+};
+
+/**
+ * Give every user whose documents predate organizations a personal one.
+ * Safe to run on every startup; it only touches documents not yet migrated
+ * @returns {Promise<number>} Number of users migrated
+ */
+const migrateToOrganizations = async () => {
+  const ownerIds = new Set();
+
+  for (const modelName of SCOPED_MODELS) {
+    const owners = await mongoose.model(modelName).distinct('owner', { organization: { $exists: false } });
+    owners.forEach(id => ownerIds.add(id.toString()));
+  }
+
+  let migrated = 0;
+  for (const ownerId of ownerIds) {
+    const user = await User.findById(ownerId);
+    if (!user) continue;
+
+    await ensurePersonalOrganization(user);
+    migrated++;
+  }
+
+  // Data source keys are unique per organization now, not per owner
+  const DataSource = mongoose.model('DataSource');
+  const indexes = await DataSource.collection.indexes().catch(() => []);
+  if (indexes.some(index => index.name === 'owner_1_key_1')) {
+    await DataSource.collection.dropIndex('owner_1_key_1');
+  }
+
+  return migrated;
+};
+
+module.exports = {
+  SCOPED_MODELS,
+  organizationRoom,
+  toWorkspace,
+  getWorkspace,
+  claimUnscopedDocuments,
+  ensurePersonalOrganization,
+  resolveDefaultOrganization,
+  migrateToOrganizations
+};
@@ -0,0 +1,231 @@
+/**
+ * Playlist diff utilities
+ * Take plain snapshots of the editable parts of a playlist and compare two of
+ * them field by field: playlist details, settings, schedule, and items
+ * (added, removed, moved, or with a changed duration, transition or conditions)
+ */
+
+const DETAIL_FIELDS = [
+  ['name', 'Name'],
+  ['description', 'Description'],
+  ['isPublic', 'Public'],
+  ['tags', 'Tags']
+];
+
+const SETTING_FIELDS = [
+  ['shuffle', 'Shuffle'],
+  ['loop', 'Loop'],
+  ['autoAdvance', 'Auto advance'],
+  ['pauseBetweenItems', 'Pause between items'],
+  ['priority', 'Priority'],
+  ['defaultItemDuration', 'Default item duration'],
+  ['allowDurationOverride', 'Allow duration override'],
+  ['defaultTransition', 'Default transition'],
+  ['backgroundColor', 'Background color'],
+  ['textColor', 'Text color'],
+  ['showMetadata', 'Show metadata']
+];
+
+const SCHEDULE_FIELDS = [
+  ['startDate', 'Start date'],
+  ['endDate', 'End date'],
+  ['timeSlots', 'Time slots'],
+  ['daysOfWeek', 'Days of week'],
+  ['isRecurring', 'Recurring'],
+  ['timezone', 'Timezone']
+];
+
+const ITEM_FIELDS = [
+  ['mediaId', 'Media'],
+  ['duration', 'Duration'],
+  ['transitions', 'Transition'],
+  ['conditions', 'Conditions'],
+  ['notes', 'Notes']
+];
+
+const toPlain = (value) => (value && typeof value.toObject === 'function' ? value.toObject() : value);
+
+const toId = (value) => (value ? (value._id || value).toString() : null);
+
+const isSame = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Plain copy of the parts of a playlist a revision keeps
+ * @param {Object} playlist - Playlist document
+ * @returns {Object} Snapshot
+ */
+const snapshotPlaylist = (playlist) => {
+  const settings = toPlain(playlist.settings) || {};
+  const schedule = toPlain(playlist.schedule) || {};
+
+  return {
+    name: playlist.name,
+    description: playlist.description || '',
+    isPublic: !!playlist.isPublic,
+    tags: [...(playlist.tags || [])],
+    settings: Object.fromEntries(SETTING_FIELDS.map(([key]) => [key, settings[key]])),
+    schedule: {
+      startDate: schedule.startDate || null,
+      endDate: schedule.endDate || null,
+      timeSlots: (schedule.timeSlots || []).map(({ startTime, endTime }) => ({ startTime, endTime })),
+      daysOfWeek: [...(schedule.daysOfWeek || [])],
+      isRecurring: !!schedule.isRecurring,
+      timezone: schedule.timezone || 'UTC'
+    },
+    items: [...playlist.items]
+      .sort((a, b) => a.order - b.order)
+      .map((item, index) => ({
+        itemId: item._id.toString(),
+        mediaId: toId(item.mediaId),
+        order: index,
+        duration: item.duration ?? null,
+        transitions: {
+          type: item.transitions?.type || 'none',
+          duration: item.transitions?.duration ?? 0.5
+        },
+        conditions: (item.conditions || []).map(({ type, operator, key, value }) => ({ type, operator, key, value })),
+        notes: item.metadata?.notes || ''
+      }))
+  };
+};
+
+const diffFields = (fields, from = {}, to = {}, prefix = '') =>
+  fields
+    .filter(([key]) => !isSame(from[key], to[key]))
+    .map(([key, label]) => ({
+      path: `${prefix}${key}`,
+      label,
+      from: from[key] ?? null,
+      to: to[key] ?? null
+    }));
+
+/**
+ * IDs in the longest subsequence two lists of the same IDs share
+ * @returns {Set<string>}
+ */
+const longestCommonSubsequence = (a, b) => {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const common = new Set();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+};
+
+/**
+ * Compare the item lists of two snapshots. Items are matched by item ID, so
+ * the same media added twice is tracked as two items
+ */
+const diffItems = (fromItems = [], toItems = []) => {
+  const fromById = new Map(fromItems.map(item => [item.itemId, item]));
+  const toById = new Map(toItems.map(item => [item.itemId, item]));
+
+  const added = toItems
+    .filter(item => !fromById.has(item.itemId))
+    .map(item => ({ itemId: item.itemId, mediaId: item.mediaId, position: item.order }));
+  const removed = fromItems
+    .filter(item => !toById.has(item.itemId))
+    .map(item => ({ itemId: item.itemId, mediaId: item.mediaId, position: item.order }));
+
+  // Items outside the longest run both lists keep in order are the ones that moved,
+  // so dragging one item to the top reports that item rather than everything it passed
+  const fromShared = fromItems.filter(item => toById.has(item.itemId)).map(item => item.itemId);
+  const toShared = toItems.filter(item => fromById.has(item.itemId)).map(item => item.itemId);
+  const stayed = longestCommonSubsequence(fromShared, toShared);
+  const moved = toShared
+    .filter(itemId => !stayed.has(itemId))
+    .map(itemId => ({
+      itemId,
+      mediaId: toById.get(itemId).mediaId,
+      from: fromById.get(itemId).order,
+      to: toById.get(itemId).order
+    }));
+
+  const changed = toItems
+    .filter(item => fromById.has(item.itemId))
+    .flatMap(item => diffFields(ITEM_FIELDS, fromById.get(item.itemId), item).map(change => ({
+      itemId: item.itemId,
+      mediaId: item.mediaId,
+      field: change.path,
+      label: change.label,
+      from: change.from,
+      to: change.to
+    })));
+
+  return { added, removed, moved, changed };
+};
+
+/**
+ * Everything that differs between two snapshots
+ * @param {Object} from - Older snapshot
+ * @param {Object} to - Newer snapshot
+ * @returns {Object} { details, settings, schedule, items: { added, removed, moved, changed }, hasChanges }
+ */
+const diffSnapshots = (from = {}, to = {}) => {
+  const diff = {
+    details: diffFields(DETAIL_FIELDS, from, to),
+    settings: diffFields(SETTING_FIELDS, from.settings, to.settings, 'settings.'),
+    schedule: diffFields(SCHEDULE_FIELDS, from.schedule, to.schedule, 'schedule.'),
+    items: diffItems(from.items, to.items)
+  };
+
+  diff.hasChanges = diff.details.length > 0 ||
+    diff.settings.length > 0 ||
+    diff.schedule.length > 0 ||
+    Object.values(diff.items).some(list => list.length > 0);
+
+  return diff;
+};
+
+const plural = (count, word) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * One-line description of a diff, e.g. "Renamed, 2 items added, settings changed"
+ * @param {Object} diff - Result of diffSnapshots
+ * @returns {string}
+ */
+const summarizeDiff = (diff) => {
+  const parts = [];
+  const { added, removed, moved, changed } = diff.items;
+
+  diff.details.forEach(change => {
+    parts.push(change.path === 'name' ? 'Renamed' : `${change.label.toLowerCase()} changed`);
+  });
+  if (added.length > 0) parts.push(`${plural(added.length, 'item')} added`);
+  if (removed.length > 0) parts.push(`${plural(removed.length, 'item')} removed`);
+  if (moved.length > 0) parts.push('items reordered');
+
+  const changedFields = [...new Set(changed.map(change => change.label.toLowerCase()))];
+  if (changedFields.length > 0) parts.push(`item ${changedFields.join(', ')} changed`);
+  if (diff.settings.length > 0) parts.push('settings changed');
+  if (diff.schedule.length > 0) parts.push('schedule changed');
+
+  if (parts.length === 0) return 'No content changes';
+
+  const summary = parts.join(', ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+};
+
+module.exports = {
+  snapshotPlaylist,
+  diffSnapshots,
+  summarizeDiff
+};
@@ -0,0 +1,203 @@
+/**
+ * Schedule utilities
+ * Evaluate playlist schedules and screen playlist queues at a point in time,
+ * in the screen's local timezone. Schedule times are wall-clock times at the
+ * screen, so the same playlist starts at 09:00 local time in every region
+ */
+
+// Priority given to playlists assigned to a screen without a queue entry
+const DEFAULT_PRIORITY = 1;
+
+const WEEKDAYS = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// Intl formatters are expensive to build, so keep one per timezone
+const formatters = new Map();
+
+const getFormatter = (timezone) => {
+  if (!formatters.has(timezone)) {
+    formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }));
+  }
+  return formatters.get(timezone);
+};
+
+/**
+ * Whether a string is an IANA timezone this runtime knows
+ */
+const isValidTimezone = (timezone) => {
+  if (!timezone || typeof timezone !== 'string') return false;
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock date and time of an instant in a timezone. Unknown timezones fall back to UTC
+ * @param {Date} date - Instant to convert
+ * @param {string} timezone - IANA timezone, e.g. Europe/London
+ * @returns {{ timezone: string, dateKey: string, weekday: number, minutes: number, localTime: string }}
+ */
+const getZonedTime = (date, timezone) => {
+  const zone = isValidTimezone(timezone) ? timezone : 'UTC';
+  const parts = Object.fromEntries(
+    getFormatter(zone).formatToParts(date).map(part => [part.type, part.value])
+  );
+  const dateKey = `${parts.year}-${parts.month}-${parts.day}`;
+
+  return {
+    timezone: zone,
+    dateKey,
+    weekday: WEEKDAYS[parts.weekday],
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    localTime: `${dateKey} ${parts.hour}:${parts.minute}`
+  };
+};
+
+/**
+ * Minutes since midnight for an HH:MM string
+ */
+const parseTimeToMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Calendar day (YYYY-MM-DD) of a stored schedule date. Dates are picked as
+ * whole days and stored as UTC midnight, so the UTC date is the intended day
+ */
+const toDateKey = (date) => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Whether a playlist schedule allows playback at an instant. Start and end
+ * dates are inclusive calendar days in the given timezone; days of the week
+ * and time slots repeat within them. Slot end times are exclusive, so
+ * back-to-back slots hand over cleanly on the minute
+ * @param {Object} schedule - Playlist schedule
+ * @param {Date} date - Instant to evaluate
+ * @param {string} timezone - Timezone the schedule is read in
+ */
+const isScheduleActiveAt = (schedule, date, timezone) => {
+  if (!schedule) return true;
+
+  const { dateKey, weekday, minutes } = getZonedTime(date, timezone);
+
+  if (schedule.startDate && dateKey < toDateKey(schedule.startDate)) return false;
+  if (schedule.endDate && dateKey > toDateKey(schedule.endDate)) return false;
+
+  if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0 && !schedule.daysOfWeek.includes(weekday)) {
+    return false;
+  }
+
+  if (schedule.timeSlots && schedule.timeSlots.length > 0) {
+    return schedule.timeSlots.some(slot =>
+      minutes >= parseTimeToMinutes(slot.startTime) && minutes < parseTimeToMinutes(slot.endTime)
+    );
+  }
+
+  return true;
+};
+
+/**
+ * Whether a schedule restricts when its playlist plays at all
+ */
+const hasScheduleRestrictions = (schedule) => !!(schedule && (
+  schedule.startDate ||
+  schedule.endDate ||
+  (schedule.daysOfWeek && schedule.daysOfWeek.length > 0) ||
+  (schedule.timeSlots && schedule.timeSlots.length > 0)
+));
+
+/**
+ * Timezone a screen's schedules are evaluated in
+ */
+const getScreenTimezone = (screen) => {
+  const timezone = screen.location && screen.location.timezone;
+  return isValidTimezone(timezone) ? timezone : 'UTC';
+};
+
+/**
+ * Pick the playlist a screen should play at an instant. Candidates are the
+ * screen's queue entries (inside their scheduled window) and playlists
+ * assigned to the screen without a queue entry, which take the priority in
+ * the playlist's settings. Among candidates whose own
+ * schedule is active, the highest priority wins; ties go to a playlist with
+ * a schedule over an always-on one, then to the most recently queued
+ * @param {Object} screen - Screen with playlistQueue and location
+ * @param {Array} playlists - Candidate playlists (queued or assigned to the screen)
+ * @param {Date} at - Instant to evaluate
+ * @returns {{ playlist: Object, priority: number, source: string, scheduled: boolean } | null}
+ */
+const pickScheduledPlaylist = (screen, playlists, at = new Date()) => {
+  const timezone = getScreenTimezone(screen);
+  const byId = new Map(playlists.map(playlist => [playlist._id.toString(), playlist]));
+  const queued = new Set();
+  const candidates = [];
+
+  for (const entry of screen.playlistQueue || []) {
+    if (!entry.playlist) continue;
+
+    const playlistId = (entry.playlist._id || entry.playlist).toString();
+    queued.add(playlistId);
+
+    if (entry.scheduledStart && at < entry.scheduledStart) continue;
+    if (entry.scheduledEnd && at >= entry.scheduledEnd) continue;
+
+    const playlist = byId.get(playlistId);
+    if (playlist) {
+      candidates.push({
+        playlist,
+        priority: entry.priority || DEFAULT_PRIORITY,
+        source: 'queue',
+        queuedAt: entry.scheduledStart ? new Date(entry.scheduledStart).getTime() : 0
+      });
+    }
+  }
+
+  const screenId = screen._id.toString();
+  for (const playlist of playlists) {
+    const playlistId = playlist._id.toString();
+    const assigned = (playlist.assignedScreens || []).some(id => id.toString() === screenId);
+
+    if (assigned && !queued.has(playlistId)) {
+      candidates.push({ playlist, priority: playlist.settings?.priority || DEFAULT_PRIORITY, source: 'assignment', queuedAt: 0 });
+    }
+  }
+
+  const active = candidates
+    .filter(candidate => candidate.playlist.isActive !== false)
+    .filter(candidate => isScheduleActiveAt(candidate.playlist.schedule, at, timezone))
+    .map(candidate => ({ ...candidate, scheduled: hasScheduleRestrictions(candidate.playlist.schedule) }));
+
+  active.sort((a, b) =>
+    b.priority - a.priority ||
+    Number(b.scheduled) - Number(a.scheduled) ||
+    b.queuedAt - a.queuedAt ||
+    new Date(b.playlist.lastModified || 0) - new Date(a.playlist.lastModified || 0)
+  );
+
+  if (active.length === 0) return null;
+
+  const { playlist, priority, source, scheduled } = active[0];
+  return { playlist, priority, source, scheduled };
+};
+
+module.exports = {
+  DEFAULT_PRIORITY,
+  isValidTimezone,
+  getZonedTime,
+  isScheduleActiveAt,
+  hasScheduleRestrictions,
+  getScreenTimezone,
+  pickScheduledPlaylist
+};
@@ -0,0 +1,109 @@
+/**
+ * Display player service worker
+ *
+ * - Media pre-cached by the player (src/services/playerCache.ts) is served
+ *   from Cache Storage, including byte ranges for video seeking
+ * - The player page and its built assets are network-first with a cached
+ *   fallback, so a rebooted screen can start without reaching the server
+ */
+
+// Must match MEDIA_CACHE_NAME in src/services/playerCache.ts
+const MEDIA_CACHE = 'signage-media-v1';
+const SHELL_CACHE = 'signage-player-shell-v1';
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('signage-') && key !== MEDIA_CACHE && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * Build a 206 response for a Range request from a fully cached file
+ */
+async function rangeResponse(cached, rangeHeader) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+  const blob = await cached.blob();
+  const size = blob.size;
+
+  if (!match) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+
+  let start = match[1] === '' ? size - Number(match[2]) : Number(match[1]);
+  let end = match[1] === '' || match[2] === '' ? size - 1 : Number(match[2]);
+  start = Math.max(0, start);
+  end = Math.min(size - 1, end);
+
+  if (start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': cached.headers.get('Content-Type') || 'application/octet-stream',
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
+async function serveMedia(request) {
+  const cache = await caches.open(MEDIA_CACHE);
+  const cached = await cache.match(request.url);
+
+  if (!cached) {
+    return fetch(request);
+  }
+
+  const range = request.headers.get('Range');
+  return range ? rangeResponse(cached, range) : cached;
+}
+
+async function serveShell(request) {
+  const cache = await caches.open(SHELL_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+const isShellRequest = (request, url) =>
+  url.origin === self.location.origin &&
+  (request.mode === 'navigate' || url.pathname.startsWith('/assets/'));
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // Leave API and socket traffic alone
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/socket.io/')) return;
+
+  if (isShellRequest(request, url)) {
+    event.respondWith(serveShell(request));
+    return;
+  }
+
+  event.respondWith(serveMedia(request));
+});
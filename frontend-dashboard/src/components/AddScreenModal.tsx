@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -9,14 +9,31 @@ import { Textarea } from "./ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Badge } from "./ui/badge";
-import { QrCode, Copy, Download, Monitor, MapPin, Wifi, CheckCircle } from "lucide-react";
+import { QrCode, Copy, Download, Monitor, MapPin, Wifi, CheckCircle, Loader2, RefreshCw, Clock } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
 import { toast } from "sonner";
+import { useScreenStore } from "../stores/useScreenStore";
+import { socketService } from "../services/socketService";
+import type { ScreenPairedEvent } from "../services/socketService";
+import type { Screen, ScreenPairingCode } from "../types";
 
 interface AddScreenModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+const DEFAULT_RESOLUTION = { width: 1920, height: 1080 };
+
+const parseResolution = (value: string) => {
+  const [width, height] = value.split("x").map(Number);
+  return width && height ? { width, height } : DEFAULT_RESOLUTION;
+};
+
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
 export function AddScreenModal({ isOpen, onClose }: AddScreenModalProps) {
   const [step, setStep] = useState(1);
   const [screenData, setScreenData] = useState({
@@ -26,24 +43,91 @@ export function AddScreenModal({ isOpen, onClose }: AddScreenModalProps) {
     group: "",
     resolution: ""
   });
-  const [generatedId, setGeneratedId] = useState("");
-  const [setupCode, setSetupCode] = useState("");
-
-  const generateScreenCredentials = () => {
-    const id = `SCR-${String(Math.floor(Math.random() * 900) + 100)}`;
-    const code = Math.random().toString(36).substring(2, 15);
-    setGeneratedId(id);
-    setSetupCode(code);
-    setStep(2);
+  const [createdScreen, setCreatedScreen] = useState<Screen | null>(null);
+  const [pairing, setPairing] = useState<ScreenPairingCode | null>(null);
+  const [pairedDevice, setPairedDevice] = useState<ScreenPairedEvent | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  const createScreen = useScreenStore((state) => state.createScreen);
+  const createPairingCode = useScreenStore((state) => state.createPairingCode);
+
+  // Count down to pairing code expiry
+  useEffect(() => {
+    if (!pairing || pairedDevice) return;
+
+    const updateCountdown = () => {
+      const remaining = Math.max(0, Math.round((new Date(pairing.expiresAt).getTime() - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+    };
+
+    updateCountdown();
+    const interval = setInterval(updateCountdown, 1000);
+    return () => clearInterval(interval);
+  }, [pairing, pairedDevice]);
+
+  // Live-update once the device completes pairing
+  useEffect(() => {
+    if (!createdScreen) return;
+
+    const handleScreenPaired = (event: ScreenPairedEvent) => {
+      if (event.id !== createdScreen.id) return;
+      setPairedDevice(event);
+      toast.success(`${event.name} paired successfully`);
+    };
+
+    socketService.on('screen:paired', handleScreenPaired);
+    return () => {
+      socketService.off('screen:paired', handleScreenPaired);
+    };
+  }, [createdScreen]);
+
+  const requestPairingCode = async (screenId: string) => {
+    const code = await createPairingCode(screenId);
+    if (code) {
+      setPairing(code);
+    }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!screenData.name || !screenData.location) {
       toast.error("Please fill in all required fields");
       return;
     }
-    generateScreenCredentials();
+
+    setIsSubmitting(true);
+    try {
+      const result = await createScreen({
+        name: screenData.name,
+        description: screenData.description || undefined,
+        location: {
+          name: screenData.location,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        },
+        display: { resolution: parseResolution(screenData.resolution) },
+        tags: screenData.group ? [screenData.group] : undefined,
+      });
+
+      if (!result) return;
+
+      setCreatedScreen(result.screen);
+      await requestPairingCode(result.screen.id);
+      setStep(2);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRegenerateCode = async () => {
+    if (!createdScreen) return;
+    setIsRegenerating(true);
+    try {
+      await requestPairingCode(createdScreen.id);
+    } finally {
+      setIsRegenerating(false);
+    }
   };
 
   const copyToClipboard = (text: string) => {
@@ -52,35 +136,47 @@ export function AddScreenModal({ isOpen, onClose }: AddScreenModalProps) {
   };
 
   const downloadConfig = () => {
+    if (!createdScreen) return;
+
     const config = {
-      screenId: generatedId,
-      setupCode: setupCode,
-      serverUrl: "https://signage.yourcompany.com",
-      name: screenData.name,
-      location: screenData.location
+      screenId: createdScreen.screenId,
+      pairingCode: pairing?.code,
+      pairingCodeExpiresAt: pairing?.expiresAt,
+      serverUrl: pairing?.serverUrl,
+      name: createdScreen.name,
+      location: createdScreen.location.name
     };
-    
+
+
     const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `screen-config-${generatedId}.json`;
+    a.download = `screen-config-${createdScreen.screenId}.json`;
     a.click();
     URL.revokeObjectURL(url);
     toast.success("Configuration file downloaded");
   };
 
-  const handleComplete = () => {
-    toast.success("Screen added successfully!");
+  const handleClose = () => {
     setStep(1);
     setScreenData({ name: "", location: "", description: "", group: "", resolution: "" });
-    setGeneratedId("");
-    setSetupCode("");
+    setCreatedScreen(null);
+    setPairing(null);
+    setPairedDevice(null);
+    setSecondsLeft(0);
     onClose();
   };
 
+  const handleComplete = () => {
+    toast.success(pairedDevice ? "Screen added successfully!" : "Screen added. Pair the device any time from its settings.");
+    handleClose();
+  };
+
+  const isCodeExpired = !!pairing && secondsLeft === 0;
+
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-2xl">
         <DialogHeader>
           <DialogTitle>Add New Display Screen</DialogTitle>
@@ -159,26 +255,43 @@ export function AddScreenModal({ isOpen, onClose }: AddScreenModalProps) {
             </div>
 
             <div className="flex justify-end gap-3">
-              <Button type="button" variant="outline" onClick={onClose}>
+              <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
                 Cancel
               </Button>
-              <Button type="submit">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 Generate Screen Credentials
               </Button>
             </div>
           </form>
         )}
 
-        {step === 2 && (
+        {step === 2 && createdScreen && (
           <div className="space-y-6">
             <div className="text-center">
-              <div className="inline-flex items-center justify-center w-12 h-12 bg-green-100 rounded-full mb-4">
-                <CheckCircle className="h-6 w-6 text-green-600" />
-              </div>
-              <h3 className="text-lg font-semibold mb-2">Screen Registered Successfully!</h3>
-              <p className="text-sm text-muted-foreground">
-                Use the information below to configure your display device
-              </p>
+              {pairedDevice ? (
+                <>
+                  <div className="inline-flex items-center justify-center w-12 h-12 bg-green-100 rounded-full mb-4">
+                    <CheckCircle className="h-6 w-6 text-green-600" />
+                  </div>
+                  <h3 className="text-lg font-semibold mb-2">Device Paired!</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {pairedDevice.device?.model
+                      ? `${pairedDevice.device.model} is now connected to ${pairedDevice.name}`
+                      : `A device is now connected to ${pairedDevice.name}`}
+                  </p>
+                </>
+              ) : (
+                <>
+                  <div className="inline-flex items-center justify-center w-12 h-12 bg-blue-100 rounded-full mb-4">
+                    <Loader2 className="h-6 w-6 text-blue-600 animate-spin" />
+                  </div>
+                  <h3 className="text-lg font-semibold mb-2">Screen Registered Successfully!</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Waiting for your display device to pair using the details below
+                  </p>
+                </>
+              )}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -193,8 +306,8 @@ export function AddScreenModal({ isOpen, onClose }: AddScreenModalProps) {
                   <div>
                     <Label className="text-xs text-muted-foreground">Screen ID</Label>
                     <div className="flex items-center gap-2 mt-1">
-                      <code className="bg-muted px-2 py-1 rounded text-sm flex-1">{generatedId}</code>
-                      <Button size="sm" variant="ghost" onClick={() => copyToClipboard(generatedId)}>
+                      <code className="bg-muted px-2 py-1 rounded text-sm flex-1">{createdScreen.screenId}</code>
+                      <Button size="sm" variant="ghost" onClick={() => copyToClipboard(createdScreen.screenId)}>
                         <Copy className="h-3 w-3" />
                       </Button>
                     </div>
@@ -202,14 +315,14 @@ export function AddScreenModal({ isOpen, onClose }: AddScreenModalProps) {
                   
                   <div>
                     <Label className="text-xs text-muted-foreground">Name</Label>
-                    <p className="font-medium">{screenData.name}</p>
+                    <p className="font-medium">{createdScreen.name}</p>
                   </div>
                   
                   <div>
                     <Label className="text-xs text-muted-foreground">Location</Label>
                     <p className="flex items-center gap-1">
                       <MapPin className="h-3 w-3" />
-                      {screenData.location}
+                      {createdScreen.location.name}
                     </p>
                   </div>
                 </CardContent>
@@ -224,24 +337,51 @@ export function AddScreenModal({ isOpen, onClose }: AddScreenModalProps) {
                 </CardHeader>
                 <CardContent className="space-y-3">
                   <div>
-                    <Label className="text-xs text-muted-foreground">Setup Code</Label>
-                    <div className="flex items-center gap-2 mt-1">
-                      <code className="bg-muted px-2 py-1 rounded text-sm flex-1">{setupCode}</code>
-                      <Button size="sm" variant="ghost" onClick={() => copyToClipboard(setupCode)}>
-                        <Copy className="h-3 w-3" />
-                      </Button>
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs text-muted-foreground">Pairing Code</Label>
+                      {pairedDevice ? (
+                        <Badge className="bg-green-100 text-green-800">Paired</Badge>
+                      ) : pairing && (
+                        <Badge variant={isCodeExpired ? "destructive" : "secondary"} className="gap-1">
+                          <Clock className="h-3 w-3" />
+                          {isCodeExpired ? "Expired" : formatCountdown(secondsLeft)}
+                        </Badge>
+                      )}
                     </div>
-                  </div>
-                  
-                  <div>
-                    <Label className="text-xs text-muted-foreground">Server URL</Label>
                     <div className="flex items-center gap-2 mt-1">
-                      <code className="bg-muted px-2 py-1 rounded text-sm flex-1">signage.yourcompany.com</code>
-                      <Button size="sm" variant="ghost" onClick={() => copyToClipboard("signage.yourcompany.com")}>
-                        <Copy className="h-3 w-3" />
-                      </Button>
+                      <code className="bg-muted px-2 py-1 rounded text-sm flex-1 tracking-widest font-semibold">
+                        {pairing?.code ?? "------"}
+                      </code>
+                      {pairing && !pairedDevice && (
+                        <Button size="sm" variant="ghost" onClick={() => copyToClipboard(pairing.code)}>
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {!pairedDevice && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={handleRegenerateCode}
+                          disabled={isRegenerating}
+                          title="Generate a new pairing code"
+                        >
+                          <RefreshCw className={`h-3 w-3 ${isRegenerating ? "animate-spin" : ""}`} />
+                        </Button>
+                      )}
                     </div>
                   </div>
+
+                  {pairing && (
+                    <div>
+                      <Label className="text-xs text-muted-foreground">Server URL</Label>
+                      <div className="flex items-center gap-2 mt-1">
+                        <code className="bg-muted px-2 py-1 rounded text-sm flex-1 truncate">{pairing.serverUrl}</code>
+                        <Button size="sm" variant="ghost" onClick={() => copyToClipboard(pairing.serverUrl)}>
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -255,12 +395,22 @@ export function AddScreenModal({ isOpen, onClose }: AddScreenModalProps) {
               </CardHeader>
               <CardContent className="text-center">
                 <div className="inline-block p-4 bg-white border rounded-lg">
-                  <div className="w-32 h-32 bg-muted rounded flex items-center justify-center">
-                    <QrCode className="h-16 w-16 text-muted-foreground" />
-                  </div>
+                  {pairing && !isCodeExpired && !pairedDevice ? (
+                    <QRCodeSVG value={pairing.pairingUrl} size={128} />
+                  ) : (
+                    <div className="w-32 h-32 bg-muted rounded flex items-center justify-center">
+                      {pairedDevice
+                        ? <CheckCircle className="h-16 w-16 text-green-600" />
+                        : <QrCode className="h-16 w-16 text-muted-foreground" />}
+                    </div>
+                  )}
                 </div>
                 <p className="text-sm text-muted-foreground mt-2">
-                  Scan this QR code with your display device for automatic configuration
+                  {pairedDevice
+                    ? "This screen has been paired with a device"
+                    : isCodeExpired
+                      ? "This pairing code has expired. Generate a new one to continue"
+                      : "Scan this QR code with your display device to open the player and pair automatically"}
                 </p>
               </CardContent>
             </Card>
@@ -269,9 +419,9 @@ export function AddScreenModal({ isOpen, onClose }: AddScreenModalProps) {
               <h4 className="font-medium mb-2">Setup Instructions:</h4>
               <ol className="text-sm space-y-1 list-decimal list-inside text-muted-foreground">
                 <li>Power on your display device</li>
-                <li>Navigate to the digital signage app settings</li>
-                <li>Enter the Server URL and Setup Code above, or scan the QR code</li>
-                <li>The screen will automatically register and appear in your dashboard</li>
+                <li>Open the signage player on the device, or scan the QR code</li>
+                <li>Enter the Server URL and Pairing Code above before the code expires</li>
+                <li>This dialog updates automatically once the device is paired</li>
               </ol>
             </div>
 
@@ -280,8 +430,8 @@ export function AddScreenModal({ isOpen, onClose }: AddScreenModalProps) {
                 <Download className="h-4 w-4 mr-2" />
                 Download Config
               </Button>
-              <Button onClick={handleComplete}>
-                Complete Setup
+              <Button onClick={handleComplete} variant={pairedDevice ? "default" : "secondary"}>
+                {pairedDevice ? "Complete Setup" : "Finish Later"}
               </Button>
             </div>
           </div>
@@ -0,0 +1,143 @@
+/**
+ * Approval Queue Dialog
+ *
+ * Lists the workspace's playlists waiting for review, longest waiting first,
+ * and those approved but not yet published. Opening one selects it in the
+ * editor with its review thread, where it is approved, sent back or
+ * published. The list follows review steps taken elsewhere.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs';
+import { Inbox, Loader2, AlertCircle, ChevronRight } from 'lucide-react';
+import { socketService } from '../services/socketService';
+import {
+  getApprovalQueue,
+  getPlaylistErrorMessage,
+  formatPlaylistDuration,
+} from '../services/playlistAPI';
+import type { PlaylistApprovalQueueItem, PlaylistApprovalStatus } from '../types';
+
+interface ApprovalQueueDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onReview: (playlistId: string) => void;
+}
+
+type QueueStatus = Extract<PlaylistApprovalStatus, 'submitted' | 'approved'>;
+
+export function ApprovalQueueDialog({ isOpen, onClose, onReview }: ApprovalQueueDialogProps) {
+  const [status, setStatus] = useState<QueueStatus>('submitted');
+  const [playlists, setPlaylists] = useState<PlaylistApprovalQueueItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const queue = await getApprovalQueue({ status, limit: 50 });
+      setPlaylists(queue.playlists);
+      setTotal(queue.pagination.total);
+    } catch (loadError) {
+      setError(getPlaylistErrorMessage(loadError));
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    loadQueue();
+
+    const handleApprovalChanged = () => {
+      loadQueue();
+    };
+    socketService.on('playlist:approval:changed', handleApprovalChanged);
+    return () => {
+      socketService.off('playlist:approval:changed', handleApprovalChanged);
+    };
+  }, [isOpen, loadQueue]);
+
+  const describeWait = (playlist: PlaylistApprovalQueueItem) => {
+    const by = playlist.submittedBy?.name || playlist.submittedBy?.email;
+    const at = playlist.submittedAt ? new Date(playlist.submittedAt).toLocaleString() : null;
+    if (status === 'approved') {
+      const reviewer = playlist.reviewedBy?.name || playlist.reviewedBy?.email;
+      return reviewer ? `Approved by ${reviewer}` : 'Approved';
+    }
+    return [by && `Submitted by ${by}`, at].filter(Boolean).join(' · ');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Review queue
+          </DialogTitle>
+          <DialogDescription>
+            Playlists waiting for a decision, and approved playlists ready to publish.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={status} onValueChange={(value) => setStatus(value as QueueStatus)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="submitted">In review</TabsTrigger>
+            <TabsTrigger value="approved">Ready to publish</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading && playlists.length === 0 ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading queue...
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 py-6 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span className="flex-1">{error}</span>
+            <Button size="sm" variant="outline" onClick={loadQueue}>Retry</Button>
+          </div>
+        ) : playlists.length === 0 ? (
+          <p className="py-8 text-sm text-muted-foreground text-center">
+            {status === 'submitted' ? 'Nothing is waiting for review' : 'Nothing is waiting to be published'}
+          </p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto divide-y">
+            {playlists.map(playlist => (
+              <button
+                key={playlist.playlistId}
+                type="button"
+                className="flex w-full items-center gap-3 py-2 text-left hover:bg-muted/50 rounded-sm px-1"
+                onClick={() => onReview(playlist.playlistId)}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {playlist.name}
+                    <span className="text-muted-foreground font-normal"> v{playlist.submittedVersion ?? playlist.version}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">{describeWait(playlist)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {playlist.totalItems} items · {formatPlaylistDuration(playlist.totalDuration)} · {playlist.assignedScreenCount} screens
+                  </p>
+                </div>
+                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+              </button>
+            ))}
+            {total > playlists.length && (
+              <p className="pt-2 text-xs text-muted-foreground text-center">
+                Showing the {playlists.length} longest waiting of {total}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
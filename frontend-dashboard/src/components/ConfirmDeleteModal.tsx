@@ -1,25 +1,29 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "./ui/dialog";
 import { Button } from "./ui/button";
 import { Card, CardContent } from "./ui/card";
 import { Badge } from "./ui/badge";
 import { Alert, AlertDescription } from "./ui/alert";
 import { Checkbox } from "./ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { 
   Trash2, 
   AlertTriangle, 
   FileX, 
   Monitor,
-  Calendar,
   HardDrive,
   Loader2,
   CheckCircle2,
-  Info
+  Info,
+  ListVideo
 } from "lucide-react";
-import type { MediaItem } from "../types";
-import { useMediaActions, useMediaError } from "../stores/useMediaStore";
+import type { MediaItem, MediaUsage, MediaDeleteStrategy } from "../types";
+import { useMediaStore, useMediaActions, useMediaError, useMediaItems } from "../stores/useMediaStore";
+import { getMediaUsage } from "../services/mediaAPI";
 
 interface ConfirmDeleteModalProps {
   media: MediaItem | MediaItem[] | null;
@@ -32,9 +36,18 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
   const [deleteSuccess, setDeleteSuccess] = useState(false);
   const [confirmationChecked, setConfirmationChecked] = useState(false);
   const [deletionErrors, setDeletionErrors] = useState<string[]>([]);
+  const [usage, setUsage] = useState<Record<string, MediaUsage>>({});
+  const [usageLoading, setUsageLoading] = useState(false);
+  const [usageError, setUsageError] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<MediaDeleteStrategy>('block');
+  const [replacementId, setReplacementId] = useState('');
   
   const { deleteMedia } = useMediaActions();
   const storeError = useMediaError();
+  const libraryItems = useMediaItems();
+
+  const mediaItems = useMemo(() => (media ? (Array.isArray(media) ? media : [media]) : []), [media]);
+  const mediaIdsKey = mediaItems.map(item => item._id).join(',');
 
   // Reset state when modal opens/closes
   useEffect(() => {
@@ -43,17 +56,89 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
       setDeleteSuccess(false);
       setConfirmationChecked(false);
       setDeletionErrors([]);
+      setUsage({});
+      setUsageError(null);
+      setStrategy('block');
+      setReplacementId('');
     }
   }, [isOpen]);
 
+  // Load which playlists and screens use the media when the modal opens
+  useEffect(() => {
+    if (!isOpen || !mediaIdsKey) return;
+
+    let cancelled = false;
+    const ids = mediaIdsKey.split(',');
+    setUsageLoading(true);
+    setUsageError(null);
+
+    Promise.allSettled(ids.map(id => getMediaUsage(id))).then((results) => {
+      if (cancelled) return;
+
+      const loaded: Record<string, MediaUsage> = {};
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          loaded[ids[index]] = result.value;
+        }
+      });
+
+      setUsage(loaded);
+      if (results.some(result => result.status === 'rejected')) {
+        setUsageError('Could not check where some of the media is used. Deleting it may still be blocked by the server.');
+      }
+      setUsageLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, mediaIdsKey]);
+
+  // Combine usage across the selected files into one impact list
+  const impact = useMemo(() => {
+    const playlists = new Map<string, { id: string; name: string; isActive: boolean; occurrences: number }>();
+    const screens = new Map<string, { id: string; name: string; location: string | null; playingNow: boolean }>();
+
+    Object.values(usage).forEach((entry) => {
+      entry.playlists.forEach((playlist) => {
+        const existing = playlists.get(playlist.id);
+        playlists.set(playlist.id, existing
+          ? { ...existing, occurrences: existing.occurrences + playlist.occurrences }
+          : { ...playlist });
+      });
+      entry.screens.forEach((screen) => {
+        const existing = screens.get(screen.id);
+        screens.set(screen.id, {
+          id: screen.id,
+          name: screen.name,
+          location: screen.location,
+          playingNow: screen.playingNow || !!existing?.playingNow
+        });
+      });
+    });
+
+    return {
+      playlists: Array.from(playlists.values()),
+      screens: Array.from(screens.values()),
+      otherWorkspacePlaylists: Object.values(usage)
+        .reduce((total, entry) => total + (entry.otherWorkspacePlaylists ?? 0), 0)
+    };
+  }, [usage]);
+
   if (!media) return null;
 
-  const mediaItems = Array.isArray(media) ? media : [media];
   const isBulkDelete = Array.isArray(media);
   const totalSize = mediaItems.reduce((sum, item) => sum + item.fileSize, 0);
-  const totalUsage = mediaItems.reduce((sum, item) => sum + item.usageCount, 0);
-  const hasActiveMedia = mediaItems.some(item => item.isActive);
-  const hasUsedMedia = mediaItems.some(item => item.usageCount > 0);
+  const isInUse = impact.playlists.length > 0;
+  const getPlaylistCount = (item: MediaItem) => usage[item._id]?.playlists.length ?? 0;
+  const replacementOptions = libraryItems.filter(
+    item => !mediaItems.some(selected => selected._id === item._id)
+  );
+  const canDelete = confirmationChecked
+    && !usageLoading
+    && impact.otherWorkspacePlaylists === 0
+    && !(isInUse && strategy === 'block')
+    && !(isInUse && strategy === 'replace' && !replacementId);
 
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
@@ -71,6 +156,12 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
     });
   };
 
+  // Playlists that use a file are cleaned up with the chosen strategy
+  const getDeleteOptions = (item: MediaItem) => {
+    if (getPlaylistCount(item) === 0) return undefined;
+    return strategy === 'replace' ? { strategy, replacementId } : { strategy };
+  };
+
   const handleDelete = async () => {
     setIsDeleting(true);
     setDeletionErrors([]);
@@ -81,10 +172,9 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
         const errors: string[] = [];
         
         for (const item of mediaItems) {
-          try {
-            await deleteMedia(item._id);
-          } catch (error) {
-            errors.push(`Failed to delete ${item.originalName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          const deleted = await deleteMedia(item._id, getDeleteOptions(item));
+          if (!deleted) {
+            errors.push(`Failed to delete ${item.originalName}: ${useMediaStore.getState().error || 'Unknown error'}`);
           }
         }
         
@@ -93,8 +183,9 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
           return;
         }
       } else {
-        // Handle single deletion
-        await deleteMedia(mediaItems[0]._id);
+        // Handle single deletion, the store reports the error
+        const deleted = await deleteMedia(mediaItems[0]._id, getDeleteOptions(mediaItems[0]));
+        if (!deleted) return;
       }
       
       setDeleteSuccess(true);
@@ -111,7 +202,7 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
   };
 
   const getWarningLevel = () => {
-    if (hasUsedMedia || hasActiveMedia) return 'high';
+    if (isInUse) return 'high';
     if (totalSize > 50 * 1024 * 1024) return 'medium'; // > 50MB
     return 'low';
   };
@@ -167,21 +258,36 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
             </Alert>
           )}
 
+          {usageError && (
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>{usageError}</AlertDescription>
+            </Alert>
+          )}
+
+          {impact.otherWorkspacePlaylists > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {impact.otherWorkspacePlaylists} playlist{impact.otherWorkspacePlaylists === 1 ? ' in another workspace uses' : 's in other workspaces use'} this
+                media, so it cannot be deleted.
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Warning Alert */}
-          {(hasUsedMedia || hasActiveMedia) && (
+          {isInUse && (
             <Alert variant="destructive">
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
                 <div className="space-y-2">
                   <p className="font-medium">⚠️ Warning: This media is currently in use!</p>
                   <ul className="list-disc list-inside text-sm space-y-1">
-                    {hasActiveMedia && (
-                      <li>This media is currently active in your library</li>
-                    )}
-                    {hasUsedMedia && (
-                      <li>This media is used in {totalUsage} playlist{totalUsage > 1 ? 's' : ''}</li>
+                    <li>Used in {impact.playlists.length} playlist{impact.playlists.length !== 1 ? 's' : ''}</li>
+                    {impact.screens.length > 0 && (
+                      <li>Shown on {impact.screens.length} screen{impact.screens.length !== 1 ? 's' : ''}</li>
                     )}
-                    <li>Deleting it may cause playlists to display incorrectly</li>
+                    <li>Choose below what should happen to those playlists</li>
                   </ul>
                 </div>
               </AlertDescription>
@@ -227,7 +333,7 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
                     <div className="text-sm text-muted-foreground space-y-1">
                       <p>Size: {formatFileSize(mediaItems[0].fileSize)}</p>
                       <p>Created: {formatDate(mediaItems[0].createdAt)}</p>
-                      <p>Used in: {mediaItems[0].usageCount} playlist{mediaItems[0].usageCount !== 1 ? 's' : ''}</p>
+                      <p>Used in: {usageLoading ? '…' : `${getPlaylistCount(mediaItems[0])} playlist${getPlaylistCount(mediaItems[0]) !== 1 ? 's' : ''}`}</p>
                     </div>
                   </div>
                 </div>
@@ -258,7 +364,7 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
                       <div className="flex-1 min-w-0">
                         <p className="font-medium truncate">{item.originalName}</p>
                         <p className="text-muted-foreground">
-                          {formatFileSize(item.fileSize)} • {item.usageCount} playlist{item.usageCount !== 1 ? 's' : ''}
+                          {formatFileSize(item.fileSize)} • {usageLoading ? '…' : `${getPlaylistCount(item)} playlist${getPlaylistCount(item) !== 1 ? 's' : ''}`}
                         </p>
                       </div>
                       <div className="flex gap-1">
@@ -304,10 +410,10 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
                     <Monitor className="h-4 w-4 text-muted-foreground" />
-                    <span>Playlist usage: <strong>{totalUsage}</strong></span>
+                    <span>Playlists affected: <strong>{usageLoading ? '…' : impact.playlists.length}</strong></span>
                   </div>
                   <div className="flex items-center gap-2">
-                    <Calendar className="h-4 w-4 text-muted-foreground" />
+                    <AlertTriangle className="h-4 w-4 text-muted-foreground" />
                     <span>Warning level: <strong className={
                       warningLevel === 'high' ? 'text-destructive' :
                       warningLevel === 'medium' ? 'text-amber-600' : 'text-green-600'
@@ -318,6 +424,112 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
             </CardContent>
           </Card>
 
+          {usageLoading && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking playlists and screens...
+            </div>
+          )}
+
+          {/* Affected Playlists and Screens */}
+          {isInUse && (
+            <Card>
+              <CardContent className="p-4 space-y-4">
+                <div>
+                  <h4 className="font-medium mb-2 flex items-center gap-2">
+                    <ListVideo className="h-4 w-4" />
+                    Playlists
+                  </h4>
+                  <div className="space-y-1 max-h-32 overflow-y-auto text-sm">
+                    {impact.playlists.map((playlist) => (
+                      <div key={playlist.id} className="flex items-center justify-between gap-2">
+                        <span className="truncate">{playlist.name}</span>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <span className="text-muted-foreground">
+                            {playlist.occurrences} item{playlist.occurrences !== 1 ? 's' : ''}
+                          </span>
+                          {!playlist.isActive && (
+                            <Badge variant="outline" className="text-xs">Inactive</Badge>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {impact.screens.length > 0 && (
+                  <div>
+                    <h4 className="font-medium mb-2 flex items-center gap-2">
+                      <Monitor className="h-4 w-4" />
+                      Screens
+                    </h4>
+                    <div className="space-y-1 max-h-32 overflow-y-auto text-sm">
+                      {impact.screens.map((screen) => (
+                        <div key={screen.id} className="flex items-center justify-between gap-2">
+                          <span className="truncate">
+                            {screen.name}
+                            {screen.location && (
+                              <span className="text-muted-foreground"> • {screen.location}</span>
+                            )}
+                          </span>
+                          {screen.playingNow && (
+                            <Badge variant="destructive" className="text-xs flex-shrink-0">Playing now</Badge>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Playlist Strategy */}
+          {isInUse && (
+            <div className="space-y-3">
+              <h4 className="font-medium">What should happen to these playlists?</h4>
+              <RadioGroup
+                value={strategy}
+                onValueChange={(value) => setStrategy(value as MediaDeleteStrategy)}
+                disabled={isDeleting || deleteSuccess}
+              >
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="block" id="delete-strategy-block" />
+                  <Label htmlFor="delete-strategy-block" className="font-normal">
+                    Keep the media — don't delete anything in use
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="remove" id="delete-strategy-remove" />
+                  <Label htmlFor="delete-strategy-remove" className="font-normal">
+                    Remove it from the playlists, then delete it
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="replace" id="delete-strategy-replace" />
+                  <Label htmlFor="delete-strategy-replace" className="font-normal">
+                    Replace it with another asset, then delete it
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              {strategy === 'replace' && (
+                <Select value={replacementId} onValueChange={setReplacementId} disabled={isDeleting || deleteSuccess}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a replacement asset" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {replacementOptions.map((item) => (
+                      <SelectItem key={item._id} value={item._id}>
+                        {item.originalName} ({item.type})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+
           {/* Confirmation Checkbox */}
           <div className="flex items-center space-x-2 p-4 bg-muted/50 rounded-lg">
             <Checkbox
@@ -341,7 +553,7 @@ export function ConfirmDeleteModal({ media, isOpen, onClose }: ConfirmDeleteModa
           <Button 
             variant="destructive" 
             onClick={handleDelete}
-            disabled={!confirmationChecked || isDeleting || deleteSuccess}
+            disabled={!canDelete || isDeleting || deleteSuccess}
           >
             {isDeleting ? (
               <>
@@ -1,14 +1,16 @@
 /**
  * Conflict Resolution Dialog Component
- * 
+ *
  * This component handles conflicts when multiple users edit the same playlist
- * simultaneously. It provides options to:
- * - Accept local changes (keep your changes)
- * - Accept remote changes (accept other user's changes)
- * - View differences and merge manually
+ * simultaneously. Changes made by only one user are merged automatically; the
+ * dialog lists every change field by field and asks only about the fields
+ * both users changed differently. It provides options to:
+ * - Merge, choosing a side for each conflicting field
+ * - Accept local changes (keep your side of every conflict)
+ * - Accept remote changes (discard your changes)
  */
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -21,27 +23,58 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { ScrollArea } from './ui/scroll-area';
 import { Separator } from './ui/separator';
-import { 
-  AlertTriangle, 
-  User, 
-  Clock, 
-  FileText, 
-  ChevronRight 
+import {
+  AlertTriangle,
+  User,
+  Clock,
+  GitMerge,
+  ArrowRight
 } from 'lucide-react';
 import { toast } from 'sonner';
+import type {
+  PlaylistConflictState,
+  PlaylistConflictChoices,
+  PlaylistFieldChange,
+  PlaylistMergeSide,
+} from '../types';
+
+type ConflictResolution = 'accept_local' | 'accept_remote' | 'merge';
 
 interface ConflictResolutionDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  conflictData: {
-    hasConflict: boolean;
-    conflictingUserId?: string;
-    conflictingUserEmail?: string;
-    localVersion?: any;
-    remoteVersion?: any;
-    conflictType?: 'metadata' | 'items' | 'assignment';
-  };
-  onResolve: (resolution: 'accept_local' | 'accept_remote' | 'merge') => void;
+  conflictData: PlaylistConflictState;
+  onResolve: (resolution: ConflictResolution, choices?: PlaylistConflictChoices) => void;
+}
+
+const ORIGIN_LABELS: Record<PlaylistFieldChange['origin'], string> = {
+  local: 'Yours',
+  remote: 'Theirs',
+  both: 'Same on both',
+  conflict: 'Conflict',
+};
+
+/**
+ * Short, readable form of a changed value
+ */
+function formatValue(change: PlaylistFieldChange, value: unknown): string {
+  if (change.key === 'items.order') {
+    return Array.isArray(value) ? `${value.length} items reordered` : '—';
+  }
+  // Whole items: present or not
+  if (/^items\.[^.]+$/.test(change.key)) {
+    return value ? 'In playlist' : 'Removed';
+  }
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length === 0 ? 'None' : value.map(entry => typeof entry === 'object' ? JSON.stringify(entry) : String(entry)).join(', ');
+  if (typeof value === 'object') {
+    const transition = value as { type?: string; duration?: number };
+    if (transition.type && transition.duration !== undefined) return `${transition.type} (${transition.duration}s)`;
+    return JSON.stringify(value);
+  }
+  if (change.key.endsWith('.duration')) return `${value}s`;
+  return String(value);
 }
 
 export function ConflictResolutionDialog({
@@ -50,14 +83,30 @@ export function ConflictResolutionDialog({
   conflictData,
   onResolve,
 }: ConflictResolutionDialogProps) {
-  const [selectedResolution, setSelectedResolution] = useState<string>('accept_remote');
+  const [selectedResolution, setSelectedResolution] = useState<ConflictResolution>('merge');
+  const [choices, setChoices] = useState<PlaylistConflictChoices>({});
+
+  const changes = useMemo(() => conflictData.changes || [], [conflictData.changes]);
+  const conflicts = useMemo(() => conflictData.conflicts || [], [conflictData.conflicts]);
+  const autoMerged = changes.filter(change => change.origin !== 'conflict');
+  const unresolvedCount = conflicts.filter(conflict => !choices[conflict.key]).length;
+
+  // Start each new conflict with nothing chosen
+  useEffect(() => {
+    setChoices({});
+    setSelectedResolution('merge');
+  }, [conflicts]);
 
   const handleResolve = () => {
-    onResolve(selectedResolution as 'accept_local' | 'accept_remote' | 'merge');
+    onResolve(selectedResolution, selectedResolution === 'merge' ? choices : undefined);
     toast.success('Conflict resolved successfully');
     onClose();
   };
 
+  const chooseSide = (key: string, side: PlaylistMergeSide) => {
+    setChoices(previous => ({ ...previous, [key]: side }));
+  };
+
   const getConflictTypeLabel = (type?: string) => {
     switch (type) {
       case 'metadata':
@@ -76,21 +125,46 @@ export function ConflictResolutionDialog({
     return new Date(timestamp).toLocaleString();
   };
 
-  const renderChanges = (version: any, label: string) => {
-    if (!version) return null;
-
-    return (
-      <div className="space-y-3">
-        <div className="flex items-center gap-2">
-          <FileText className="h-4 w-4" />
-          <span className="font-medium">{label}</span>
-        </div>
-        <div className="bg-muted/50 p-3 rounded-lg">
-          <pre className="text-sm whitespace-pre-wrap overflow-x-auto">
-            {JSON.stringify(version, null, 2)}
-          </pre>
+  const renderOption = (resolution: ConflictResolution, title: string, description: string) => (
+    <div
+      className={`border rounded-lg p-4 cursor-pointer transition-colors ${
+        selectedResolution === resolution
+          ? 'border-primary bg-primary/5'
+          : 'border-border hover:bg-muted/50'
+      }`}
+      onClick={() => setSelectedResolution(resolution)}
+    >
+      <div className="flex items-center gap-3">
+        <input
+          type="radio"
+          checked={selectedResolution === resolution}
+          onChange={() => setSelectedResolution(resolution)}
+          className="text-primary"
+        />
+        <div>
+          <div className="font-medium">{title}</div>
+          <div className="text-sm text-muted-foreground">{description}</div>
         </div>
       </div>
+    </div>
+  );
+
+  const renderSideButton = (change: PlaylistFieldChange, side: PlaylistMergeSide) => {
+    const value = side === 'local' ? change.local : change.remote;
+    const selected = choices[change.key] === side;
+
+    return (
+      <button
+        type="button"
+        onClick={() => chooseSide(change.key, side)}
+        disabled={selectedResolution !== 'merge'}
+        className={`flex-1 text-left border rounded-md px-3 py-2 text-sm transition-colors disabled:opacity-50 ${
+          selected ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+        }`}
+      >
+        <div className="text-xs text-muted-foreground">{side === 'local' ? 'Yours' : 'Theirs'}</div>
+        <div className="break-words">{formatValue(change, value)}</div>
+      </button>
     );
   };
 
@@ -107,7 +181,7 @@ export function ConflictResolutionDialog({
             Playlist Conflict Detected
           </DialogTitle>
           <DialogDescription>
-            Multiple users have modified this playlist simultaneously. Please choose how to resolve the conflict.
+            Someone else saved this playlist while you were editing it. Changes only one of you made have been combined; choose how to resolve the rest.
           </DialogDescription>
         </DialogHeader>
 
@@ -120,7 +194,7 @@ export function ConflictResolutionDialog({
                 <div className="flex items-center gap-2">
                   <User className="h-4 w-4" />
                   <span className="font-medium">
-                    {conflictData.conflictingUserEmail || 'Unknown User'}
+                    {conflictData.conflictingUserEmail || 'Another user'}
                   </span>
                   <span className="text-muted-foreground">modified</span>
                   <Badge variant="outline">
@@ -129,7 +203,10 @@ export function ConflictResolutionDialog({
                 </div>
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <Clock className="h-4 w-4" />
-                  <span>Conflict detected at {formatTimestamp(new Date().toISOString())}</span>
+                  <span>
+                    Saved at {formatTimestamp(conflictData.remoteVersion?.lastModified || conflictData.remoteVersion?.updatedAt)}
+                    {conflictData.remoteVersion?.version !== undefined && ` (version ${conflictData.remoteVersion.version})`}
+                  </span>
                 </div>
               </div>
             </div>
@@ -138,105 +215,75 @@ export function ConflictResolutionDialog({
           {/* Resolution Options */}
           <div className="space-y-4">
             <h3 className="font-semibold">Choose Resolution</h3>
-            
+
             <div className="grid gap-3">
-              {/* Accept Remote Changes */}
-              <div 
-                className={`border rounded-lg p-4 cursor-pointer transition-colors ${
-                  selectedResolution === 'accept_remote' 
-                    ? 'border-primary bg-primary/5' 
-                    : 'border-border hover:bg-muted/50'
-                }`}
-                onClick={() => setSelectedResolution('accept_remote')}
-              >
-                <div className="flex items-center gap-3">
-                  <input 
-                    type="radio" 
-                    checked={selectedResolution === 'accept_remote'}
-                    onChange={() => setSelectedResolution('accept_remote')}
-                    className="text-primary"
-                  />
-                  <div>
-                    <div className="font-medium">Accept their changes (Recommended)</div>
-                    <div className="text-sm text-muted-foreground">
-                      Use the changes made by {conflictData.conflictingUserEmail || 'the other user'} and discard your changes
-                    </div>
-                  </div>
-                </div>
-              </div>
+              {renderOption(
+                'merge',
+                'Merge changes (Recommended)',
+                `Keep both sets of changes and pick a side for the ${conflicts.length} conflicting field${conflicts.length !== 1 ? 's' : ''} below`
+              )}
+              {renderOption(
+                'accept_local',
+                'Keep your changes',
+                'Use your version wherever you both changed the same thing; their other changes are kept'
+              )}
+              {renderOption(
+                'accept_remote',
+                'Discard your changes',
+                `Use the playlist as saved by ${conflictData.conflictingUserEmail || 'the other user'}`
+              )}
+            </div>
+          </div>
 
-              {/* Keep Local Changes */}
-              <div 
-                className={`border rounded-lg p-4 cursor-pointer transition-colors ${
-                  selectedResolution === 'accept_local' 
-                    ? 'border-primary bg-primary/5' 
-                    : 'border-border hover:bg-muted/50'
-                }`}
-                onClick={() => setSelectedResolution('accept_local')}
-              >
-                <div className="flex items-center gap-3">
-                  <input 
-                    type="radio" 
-                    checked={selectedResolution === 'accept_local'}
-                    onChange={() => setSelectedResolution('accept_local')}
-                    className="text-primary"
-                  />
-                  <div>
-                    <div className="font-medium">Keep your changes</div>
-                    <div className="text-sm text-muted-foreground">
-                      Keep your local changes and ignore the changes made by the other user
+          {/* Per-field Diff */}
+          <ScrollArea className="max-h-72 border rounded-lg">
+            <div className="p-4 space-y-4">
+              {conflicts.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="font-semibold flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-amber-500" />
+                    Conflicting changes
+                  </h3>
+                  {conflicts.map(conflict => (
+                    <div key={conflict.key} className="space-y-2">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium">{conflict.label}</span>
+                        <span className="text-muted-foreground">
+                          Was: {formatValue(conflict, conflict.base)}
+                        </span>
+                      </div>
+                      <div className="flex gap-2">
+                        {renderSideButton(conflict, 'local')}
+                        {renderSideButton(conflict, 'remote')}
+                      </div>
                     </div>
-                  </div>
+                  ))}
                 </div>
-              </div>
+              )}
 
-              {/* Merge Changes */}
-              <div 
-                className={`border rounded-lg p-4 cursor-pointer transition-colors opacity-60 ${
-                  selectedResolution === 'merge' 
-                    ? 'border-primary bg-primary/5' 
-                    : 'border-border hover:bg-muted/50'
-                }`}
-                onClick={() => setSelectedResolution('merge')}
-              >
-                <div className="flex items-center gap-3">
-                  <input 
-                    type="radio" 
-                    checked={selectedResolution === 'merge'}
-                    onChange={() => setSelectedResolution('merge')}
-                    className="text-primary"
-                    disabled
-                  />
-                  <div>
-                    <div className="font-medium">Merge changes</div>
-                    <div className="text-sm text-muted-foreground">
-                      Combine both changes manually (Coming soon)
+              {autoMerged.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold flex items-center gap-2">
+                    <GitMerge className="h-4 w-4" />
+                    Merged automatically
+                  </h3>
+                  {autoMerged.map(change => (
+                    <div key={change.key} className="flex items-center gap-2 text-sm">
+                      <Badge variant="outline" className="w-24 justify-center">
+                        {ORIGIN_LABELS[change.origin]}
+                      </Badge>
+                      <span className="font-medium min-w-0 truncate">{change.label}</span>
+                      <span className="text-muted-foreground truncate">{formatValue(change, change.base)}</span>
+                      <ArrowRight className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                      <span className="truncate">
+                        {formatValue(change, change.origin === 'local' ? change.local : change.remote)}
+                      </span>
                     </div>
-                  </div>
+                  ))}
                 </div>
-              </div>
+              )}
             </div>
-          </div>
-
-          {/* Changes Preview */}
-          <div className="space-y-4">
-            <h3 className="font-semibold">Changes Preview</h3>
-            <ScrollArea className="max-h-60 border rounded-lg">
-              <div className="p-4 space-y-6">
-                <div className="grid md:grid-cols-2 gap-6">
-                  <div>
-                    {renderChanges(conflictData.localVersion, 'Your Changes')}
-                  </div>
-                  <div className="hidden md:flex items-center justify-center">
-                    <ChevronRight className="h-6 w-6 text-muted-foreground" />
-                  </div>
-                  <div>
-                    {renderChanges(conflictData.remoteVersion, 'Their Changes')}
-                  </div>
-                </div>
-              </div>
-            </ScrollArea>
-          </div>
+          </ScrollArea>
         </div>
 
         <Separator />
@@ -245,8 +292,10 @@ export function ConflictResolutionDialog({
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={handleResolve} disabled={!selectedResolution}>
-            Resolve Conflict
+          <Button onClick={handleResolve} disabled={selectedResolution === 'merge' && unresolvedCount > 0}>
+            {selectedResolution === 'merge' && unresolvedCount > 0
+              ? `${unresolvedCount} conflict${unresolvedCount !== 1 ? 's' : ''} left`
+              : 'Resolve Conflict'}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -254,4 +303,4 @@ export function ConflictResolutionDialog({
   );
 }
 
-export default ConflictResolutionDialog;
\ No newline at end of file
+export default ConflictResolutionDialog;
@@ -0,0 +1,298 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { Checkbox } from "./ui/checkbox";
+import { Badge } from "./ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { useMediaItems, useFetchMedia } from "../stores/useMediaStore";
+import { useScreenGroups, useScreenGroupActions } from "../stores/useScreenGroupStore";
+import { EMERGENCY_SEVERITY_COLORS } from "../services/emergencyAPI";
+import { flattenGroupTree, getGroupPath } from "../services/screenGroupAPI";
+import type { CreateEmergencyData, EmergencySeverity, EmergencyTargetType, Screen } from "../types";
+
+interface EmergencyBroadcastDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateEmergencyData) => Promise<boolean>;
+  screens: Screen[];
+}
+
+const NO_MEDIA = "none";
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Until cleared", minutes: 0 },
+  { value: "15", label: "15 minutes", minutes: 15 },
+  { value: "60", label: "1 hour", minutes: 60 },
+  { value: "240", label: "4 hours", minutes: 240 },
+  { value: "1440", label: "24 hours", minutes: 1440 },
+];
+
+const initialForm = {
+  title: "",
+  message: "",
+  severity: "critical" as EmergencySeverity,
+  backgroundColor: EMERGENCY_SEVERITY_COLORS.critical,
+  textColor: "#ffffff",
+  mediaId: NO_MEDIA,
+  targetType: "all" as EmergencyTargetType,
+  screenIds: [] as string[],
+  groupIds: [] as string[],
+  expiry: "never",
+};
+
+/**
+ * Compose a templated emergency alert: message, severity, colors,
+ * optional image or video, targets and how long it stays up
+ */
+export function EmergencyBroadcastDialog({ isOpen, onClose, onSubmit, screens }: EmergencyBroadcastDialogProps) {
+  const [form, setForm] = useState(initialForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const media = useMediaItems();
+  const fetchMedia = useFetchMedia();
+
+  const groups = useScreenGroups();
+  const { fetchGroups } = useScreenGroupActions();
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(initialForm);
+      fetchMedia();
+      fetchGroups();
+    }
+  }, [isOpen, fetchMedia, fetchGroups]);
+
+  const toggleValue = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+  const handleSeverityChange = (severity: EmergencySeverity) => {
+    setForm({ ...form, severity, backgroundColor: EMERGENCY_SEVERITY_COLORS[severity] });
+  };
+
+  const canSubmit =
+    form.message.trim().length > 0 &&
+    (form.targetType !== "screens" || form.screenIds.length > 0) &&
+    (form.targetType !== "groups" || form.groupIds.length > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    const expiry = EXPIRY_OPTIONS.find((option) => option.value === form.expiry);
+
+    setIsSubmitting(true);
+    const success = await onSubmit({
+      action: "message",
+      message: form.message.trim(),
+      severity: form.severity,
+      template: {
+        title: form.title.trim() || undefined,
+        backgroundColor: form.backgroundColor,
+        textColor: form.textColor,
+        mediaId: form.mediaId === NO_MEDIA ? undefined : form.mediaId,
+      },
+      targetType: form.targetType,
+      screenIds: form.targetType === "screens" ? form.screenIds : undefined,
+      groupIds: form.targetType === "groups" ? form.groupIds : undefined,
+      expiresAt: expiry?.minutes
+        ? new Date(Date.now() + expiry.minutes * 60 * 1000).toISOString()
+        : undefined,
+    });
+    setIsSubmitting(false);
+
+    if (success) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Emergency Broadcast</DialogTitle>
+          <DialogDescription>
+            Take over displays with a full-screen alert until it is cleared or expires
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="emergency-broadcast-form" onSubmit={handleSubmit} className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="emergencyTitle">Title</Label>
+              <Input
+                id="emergencyTitle"
+                placeholder="e.g., Evacuation Notice"
+                maxLength={100}
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select value={form.severity} onValueChange={(value) => handleSeverityChange(value as EmergencySeverity)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="critical">Critical</SelectItem>
+                  <SelectItem value="warning">Warning</SelectItem>
+                  <SelectItem value="info">Info</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="emergencyMessage">Message *</Label>
+            <Textarea
+              id="emergencyMessage"
+              placeholder="What should people see on the displays?"
+              maxLength={500}
+              value={form.message}
+              onChange={(e) => setForm({ ...form, message: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="emergencyBackground">Background</Label>
+              <Input
+                id="emergencyBackground"
+                type="color"
+                className="h-9 p-1"
+                value={form.backgroundColor}
+                onChange={(e) => setForm({ ...form, backgroundColor: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="emergencyText">Text</Label>
+              <Input
+                id="emergencyText"
+                type="color"
+                className="h-9 p-1"
+                value={form.textColor}
+                onChange={(e) => setForm({ ...form, textColor: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Media</Label>
+              <Select value={form.mediaId} onValueChange={(value) => setForm({ ...form, mediaId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MEDIA}>No media</SelectItem>
+                  {media.map((item) => (
+                    <SelectItem key={item._id} value={item._id}>
+                      {item.originalName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div
+            className="rounded-lg p-6 flex flex-col items-center gap-2 text-center"
+            style={{ backgroundColor: form.backgroundColor, color: form.textColor }}
+          >
+            <AlertTriangle className="h-8 w-8" />
+            {form.title && <p className="text-lg font-semibold">{form.title}</p>}
+            <p className="text-sm">{form.message || "Your message will appear here"}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Send To</Label>
+              <Select
+                value={form.targetType}
+                onValueChange={(value) => setForm({ ...form, targetType: value as EmergencyTargetType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All screens</SelectItem>
+                  <SelectItem value="screens">Specific screens</SelectItem>
+                  <SelectItem value="groups" disabled={groups.length === 0}>Screen groups</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={form.expiry} onValueChange={(value) => setForm({ ...form, expiry: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {form.targetType === "screens" && (
+            <div className="space-y-2 max-h-40 overflow-y-auto border rounded-md p-3">
+              {screens.map((screen) => (
+                <label key={screen.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.screenIds.includes(screen.id)}
+                    onCheckedChange={() => setForm({ ...form, screenIds: toggleValue(form.screenIds, screen.id) })}
+                  />
+                  {screen.name}
+                  <span className="text-xs text-muted-foreground">{screen.location.name}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {form.targetType === "groups" && (
+            <div className="flex flex-wrap gap-2">
+              {flattenGroupTree(groups).map(({ group }) => (
+                <Badge
+                  key={group._id}
+                  variant={form.groupIds.includes(group._id) ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => setForm({ ...form, groupIds: toggleValue(form.groupIds, group._id) })}
+                >
+                  {getGroupPath(groups, group._id)} ({group.screenCount})
+                </Badge>
+              ))}
+            </div>
+          )}
+        </form>
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            form="emergency-broadcast-form"
+            variant="destructive"
+            disabled={!canSubmit || isSubmitting}
+          >
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Broadcast Alert
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
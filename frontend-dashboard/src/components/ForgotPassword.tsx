@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "./ui/card";
+import { Alert, AlertDescription } from "./ui/alert";
+import { Loader2, Mail, KeyRound, MailCheck } from "lucide-react";
+import { forgotPassword, getErrorMessage } from "../services/auth";
+
+interface ForgotPasswordProps {
+  onSwitchToLogin: () => void;
+}
+
+export function ForgotPassword({ onSwitchToLogin }: ForgotPasswordProps) {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | undefined>();
+  const [generalError, setGeneralError] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const validateEmail = (value: string): string | undefined => {
+    if (!value.trim()) return "Email is required";
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(value)) return "Please enter a valid email address";
+    return undefined;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validateEmail(email);
+    setError(validationError);
+    if (validationError) {
+      return;
+    }
+
+    setIsLoading(true);
+    setGeneralError(undefined);
+
+    try {
+      await forgotPassword(email.trim());
+      setSentTo(email.trim());
+    } catch (err) {
+      setGeneralError(getErrorMessage(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <div className="flex justify-center mb-4">
+            <div className="w-12 h-12 bg-primary rounded-lg flex items-center justify-center">
+              <KeyRound className="w-6 h-6 text-primary-foreground" />
+            </div>
+          </div>
+          <h1 className="text-2xl font-semibold tracking-tight">Forgot your password?</h1>
+          <p className="text-sm text-muted-foreground">
+            We'll email you a link to choose a new one
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-xl">Reset password</CardTitle>
+            <CardDescription>
+              {sentTo ? "Check your inbox" : "Enter the email address you sign in with"}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {sentTo ? (
+              <div className="space-y-4 text-center">
+                <MailCheck className="w-10 h-10 mx-auto text-green-600" />
+                <p className="text-sm text-muted-foreground">
+                  If an account exists for <span className="font-medium text-foreground">{sentTo}</span>,
+                  a reset link is on its way. The link expires in 10 minutes.
+                </p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setSentTo(null)}
+                >
+                  Send another link
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {/* General Error */}
+                {generalError && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{generalError}</AlertDescription>
+                  </Alert>
+                )}
+
+                {/* Email Field */}
+                <div className="space-y-2">
+                  <Label htmlFor="email">
+                    <Mail className="w-4 h-4" />
+                    Email Address
+                  </Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="Enter your email"
+                    value={email}
+                    onChange={(e) => {
+                      setEmail(e.target.value);
+                      setError(undefined);
+                    }}
+                    aria-invalid={!!error}
+                    disabled={isLoading}
+                    className={error ? "border-destructive" : ""}
+                  />
+                  {error && (
+                    <p className="text-sm text-destructive">{error}</p>
+                  )}
+                </div>
+
+                {/* Submit Button */}
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Sending link...
+                    </>
+                  ) : (
+                    "Send Reset Link"
+                  )}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+
+          <CardFooter className="flex flex-col space-y-2">
+            <div className="text-sm text-center text-muted-foreground">
+              Remembered it?{" "}
+              <Button
+                type="button"
+                variant="link"
+                className="p-0 h-auto font-medium text-primary"
+                onClick={onSwitchToLogin}
+                disabled={isLoading}
+              >
+                Back to sign in
+              </Button>
+            </div>
+          </CardFooter>
+        </Card>
+
+        {/* Footer */}
+        <div className="text-center">
+          <p className="text-xs text-muted-foreground">
+            Multi-screen Advertisement Management Platform
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -20,9 +20,10 @@ interface ValidationErrors {
 
 interface LoginProps {
   onSwitchToRegister: () => void;
+  onForgotPassword: () => void;
 }
 
-export function Login({ onSwitchToRegister }: LoginProps) {
+export function Login({ onSwitchToRegister, onForgotPassword }: LoginProps) {
   const { login } = useAuth();
   const navigate = useNavigate();
   const [formData, setFormData] = useState<LoginData>({
@@ -228,6 +229,7 @@ export function Login({ onSwitchToRegister }: LoginProps) {
                   type="button"
                   variant="link"
                   className="p-0 h-auto text-sm text-muted-foreground hover:text-primary"
+                  onClick={onForgotPassword}
                   disabled={isLoading}
                 >
                   Forgot your password?
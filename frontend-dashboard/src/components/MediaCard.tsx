@@ -31,7 +31,7 @@ interface MediaCardProps {
   onPreview: (file: MediaItem) => void;
   onDownload: (file: MediaItem) => void;
   onEdit?: (file: MediaItem) => void;
-  onDelete: (file: MediaItem) => void;
+  onDelete?: (file: MediaItem) => void;
   className?: string;
 }
 
@@ -86,13 +86,15 @@ export function MediaCard({
             Edit Details
           </DropdownMenuItem>
         )}
-        <DropdownMenuItem 
-          className="text-destructive"
-          onClick={() => onDelete(file)}
-        >
-          <Trash2 className="h-4 w-4 mr-2" />
-          Delete
-        </DropdownMenuItem>
+        {onDelete && (
+          <DropdownMenuItem 
+            className="text-destructive"
+            onClick={() => onDelete(file)}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { Card, CardContent } from "./ui/card";
 import { Skeleton } from "./ui/skeleton";
 import { 
@@ -15,29 +16,26 @@ import { HardDrive } from "lucide-react";
 import type { MediaItem } from "../types";
 import { useMediaStore, useMediaActions, useMediaPagination, useMediaLoading } from "../stores/useMediaStore";
 import { MediaCard } from "./MediaCard";
+import { ConfirmDeleteModal } from "./ConfirmDeleteModal";
 import { toast } from "sonner";
 
 interface MediaGridProps {
   files: MediaItem[];
   viewMode: "grid" | "list";
   onPreview: (file: MediaItem) => void;
+  // Without it the edit and delete actions are hidden
+  canEdit?: boolean;
 }
 
-export function MediaGrid({ files, viewMode, onPreview }: MediaGridProps) {
-  const { deleteMedia, downloadMedia } = useMediaActions();
+export function MediaGrid({ files, viewMode, onPreview, canEdit = true }: MediaGridProps) {
+  const { downloadMedia } = useMediaActions();
+  const [deleteTarget, setDeleteTarget] = useState<MediaItem | null>(null);
   const pagination = useMediaPagination();
   const isLoading = useMediaLoading();
 
-  // Handle delete with confirmation
-  const handleDelete = async (file: MediaItem) => {
-    if (window.confirm(`Are you sure you want to delete "${file.originalName}"?`)) {
-      try {
-        await deleteMedia(file._id);
-        toast.success('Media file deleted successfully');
-      } catch (error) {
-        toast.error('Failed to delete media file');
-      }
-    }
+  // Handle delete through the confirmation modal, which shows playlist usage
+  const handleDelete = (file: MediaItem) => {
+    setDeleteTarget(file);
   };
 
   // Handle download
@@ -194,8 +192,8 @@ export function MediaGrid({ files, viewMode, onPreview }: MediaGridProps) {
                       layout="list"
                       onPreview={onPreview}
                       onDownload={handleDownload}
-                      onEdit={handleEdit}
-                      onDelete={handleDelete}
+                      onEdit={canEdit ? handleEdit : undefined}
+                      onDelete={canEdit ? handleDelete : undefined}
                     />
                   ))}
                 </tbody>
@@ -212,8 +210,8 @@ export function MediaGrid({ files, viewMode, onPreview }: MediaGridProps) {
               layout="grid"
               onPreview={onPreview}
               onDownload={handleDownload}
-              onEdit={handleEdit}
-              onDelete={handleDelete}
+              onEdit={canEdit ? handleEdit : undefined}
+              onDelete={canEdit ? handleDelete : undefined}
             />
           ))}
         </div>
@@ -221,6 +219,13 @@ export function MediaGrid({ files, viewMode, onPreview }: MediaGridProps) {
       
       {/* Pagination */}
       <PaginationControls />
+
+      {/* Delete Confirmation Modal */}
+      <ConfirmDeleteModal
+        media={deleteTarget}
+        isOpen={deleteTarget !== null}
+        onClose={() => setDeleteTarget(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
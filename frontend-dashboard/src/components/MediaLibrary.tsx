@@ -25,6 +25,7 @@ import {
   useUploadProgress,
   useMediaActions
 } from "../stores/useMediaStore";
+import { usePermission } from "../stores/useOrganizationStore";
 import { toast } from "sonner";
 
 export function MediaLibrary() {
@@ -35,6 +36,8 @@ export function MediaLibrary() {
   const selectedMedia = useSelectedMedia();
   const isUploading = useUploading();
   const uploadProgress = useUploadProgress();
+  const canUpload = usePermission('media:upload');
+  const canEdit = usePermission('media:edit');
   
   // Store actions - get them individually to avoid object recreation
   const actions = useMediaActions();
@@ -120,14 +123,16 @@ export function MediaLibrary() {
               <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
               Refresh
             </Button>
-            <Button 
-              onClick={() => setShowUpload(true)} 
-              disabled={isUploading}
-              className="flex items-center gap-2"
-            >
-              <Upload className="h-4 w-4" />
-              {isUploading ? 'Uploading...' : 'Upload Media'}
-            </Button>
+            {canUpload && (
+              <Button 
+                onClick={() => setShowUpload(true)} 
+                disabled={isUploading}
+                className="flex items-center gap-2"
+              >
+                <Upload className="h-4 w-4" />
+                {isUploading ? 'Uploading...' : 'Upload Media'}
+              </Button>
+            )}
           </div>
         </div>
       )}
@@ -181,6 +186,7 @@ export function MediaLibrary() {
         files={mediaFiles}
         viewMode={viewMode}
         onPreview={actions.setSelectedMedia}
+        canEdit={canEdit}
       />
 
       {/* Pagination */}
@@ -27,6 +27,7 @@ import {
 } from "lucide-react";
 import type { MediaItem } from "../types";
 import { useMediaActions } from "../stores/useMediaStore";
+import { usePermission } from "../stores/useOrganizationStore";
 import { MediaEditModal } from "./MediaEditModal";
 import { ConfirmDeleteModal } from "./ConfirmDeleteModal";
 
@@ -49,6 +50,7 @@ export function MediaPreviewModal({ media, isOpen, onClose }: MediaPreviewModalP
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
 
   const { downloadMedia, deleteMedia } = useMediaActions();
+  const canEdit = usePermission('media:edit');
 
   // Reset state when modal opens/closes or media changes
   useEffect(() => {
@@ -290,14 +292,16 @@ export function MediaPreviewModal({ media, isOpen, onClose }: MediaPreviewModalP
                 <div className="space-y-4 mb-6">
                   <h3 className="font-medium">Actions</h3>
                   <div className="flex flex-col gap-2">
-                    <Button 
-                      onClick={handleEdit} 
-                      variant="outline" 
-                      className="justify-start"
-                    >
-                      <Edit3 className="h-4 w-4 mr-2" />
-                      Edit Metadata
-                    </Button>
+                    {canEdit && (
+                      <Button 
+                        onClick={handleEdit} 
+                        variant="outline" 
+                        className="justify-start"
+                      >
+                        <Edit3 className="h-4 w-4 mr-2" />
+                        Edit Metadata
+                      </Button>
+                    )}
                     
                     <Button 
                       onClick={handleDownload} 
@@ -313,14 +317,16 @@ export function MediaPreviewModal({ media, isOpen, onClose }: MediaPreviewModalP
                       Download
                     </Button>
                     
-                    <Button 
-                      onClick={handleDelete} 
-                      variant="outline" 
-                      className="justify-start text-destructive hover:text-destructive"
-                    >
-                      <Trash2 className="h-4 w-4 mr-2" />
-                      Delete
-                    </Button>
+                    {canEdit && (
+                      <Button 
+                        onClick={handleDelete} 
+                        variant="outline" 
+                        className="justify-start text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </Button>
+                    )}
                   </div>
                 </div>
 
@@ -437,11 +443,15 @@ export function MediaPreviewModal({ media, isOpen, onClose }: MediaPreviewModalP
                         </span>
                       </div>
                       <div className="flex justify-between">
-                        <span className="text-sm text-muted-foreground">Cloudinary ID:</span>
-                        <span className="text-xs font-mono truncate max-w-[120px]" title={media.cloudinaryId}>
-                          {media.cloudinaryId}
+                        <span className="text-sm text-muted-foreground">Storage Key:</span>
+                        <span className="text-xs font-mono truncate max-w-[120px]" title={media.storageKey}>
+                          {media.storageKey}
                         </span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-sm text-muted-foreground">Storage:</span>
+                        <span className="text-sm capitalize">{media.storageProvider}</span>
+                      </div>
                     </div>
                   </div>
                 </div>
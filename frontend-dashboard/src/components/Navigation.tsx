@@ -1,6 +1,10 @@
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
 import { Monitor, Home, Settings, Shield, Images, ListVideo, Activity, LogOut } from "lucide-react";
+import { WorkspaceSwitcher } from "./WorkspaceSwitcher";
+import { hasPermission } from "../services/organizationAPI";
+import { useActiveOrganization } from "../stores/useOrganizationStore";
+import type { Permission } from "../types";
 
 interface NavigationProps {
   currentPage: string;
@@ -9,7 +13,9 @@ interface NavigationProps {
 }
 
 export function Navigation({ currentPage, onPageChange, onLogout }: NavigationProps) {
-  const navItems = [
+  const activeOrganization = useActiveOrganization();
+
+  const navItems: Array<{ id: string; label: string; icon: typeof Home; count: number | null; permission?: Permission }> = [
     {
       id: "dashboard",
       label: "Dashboard",
@@ -20,25 +26,29 @@ export function Navigation({ currentPage, onPageChange, onLogout }: NavigationPr
       id: "screens",
       label: "Screen Management", 
       icon: Monitor,
-      count: 24
+      count: 24,
+      permission: "screen:view"
     },
     {
       id: "media",
       label: "Media Library",
       icon: Images,
-      count: 156
+      count: 156,
+      permission: "media:view"
     },
     {
       id: "playlists",
       label: "Playlist Editor",
       icon: ListVideo,
-      count: 12
+      count: 12,
+      permission: "playlist:view"
     },
     {
       id: "control",
       label: "Real-Time Control",
       icon: Activity,
-      count: null
+      count: null,
+      permission: "screen:view"
     },
     {
       id: "settings",
@@ -59,31 +69,35 @@ export function Navigation({ currentPage, onPageChange, onLogout }: NavigationPr
             <div>
               <h1 className="text-lg font-medium">Digital Signage Portal</h1>
             </div>
+            <WorkspaceSwitcher />
           </div>
 
           <div className="flex items-center space-x-1">
-            {navItems.map((item) => {
-              const Icon = item.icon;
-              const isActive = currentPage === item.id;
+            {navItems
+              // Pages the role cannot see stay hidden once the workspace has loaded
+              .filter((item) => !item.permission || !activeOrganization || hasPermission(activeOrganization, item.permission))
+              .map((item) => {
+                const Icon = item.icon;
+                const isActive = currentPage === item.id;
               
-              return (
-                <Button
-                  key={item.id}
-                  variant={isActive ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => onPageChange(item.id)}
-                  className="flex items-center gap-2"
-                >
-                  <Icon className="h-4 w-4" />
-                  {item.label}
-                  {item.count && (
-                    <Badge variant="secondary" className="ml-1">
-                      {item.count}
-                    </Badge>
-                  )}
-                </Button>
-              );
-            })}
+                return (
+                  <Button
+                    key={item.id}
+                    variant={isActive ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => onPageChange(item.id)}
+                    className="flex items-center gap-2"
+                  >
+                    <Icon className="h-4 w-4" />
+                    {item.label}
+                    {item.count && (
+                      <Badge variant="secondary" className="ml-1">
+                        {item.count}
+                      </Badge>
+                    )}
+                  </Button>
+                );
+              })}
             
             {/* Logout Button */}
             {onLogout && (
@@ -0,0 +1,497 @@
+/**
+ * Organization Members Dialog
+ *
+ * Lists the members of a workspace and, for roles allowed to manage members,
+ * lets them invite people by email, change roles and withdraw invitations.
+ * Owners and admins also rename the workspace, choose what every other role
+ * may do and whether playlists need approval before they go on screens; only
+ * they grant the admin role, and only owners the owner role. Anyone but the
+ * last owner can leave.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { Separator } from './ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Checkbox } from './ui/checkbox';
+import { Switch } from './ui/switch';
+import { Users, UserPlus, X, Loader2, AlertCircle, Mail, Check } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getOrganization,
+  updateOrganization,
+  inviteMember,
+  revokeInvitation,
+  updateMemberRole,
+  removeMember,
+  updateRolePermissions,
+  getOrganizationErrorMessage,
+  hasOrganizationRole,
+  hasPermission,
+  ROLE_LABELS,
+  PERMISSION_LABELS,
+} from '../services/organizationAPI';
+import { useOrganizationStore } from '../stores/useOrganizationStore';
+import type {
+  OrganizationDetail,
+  OrganizationMember,
+  OrganizationRole,
+  OrganizationUser,
+  Permission,
+  RolePermissions,
+} from '../types';
+
+interface OrganizationMembersDialogProps {
+  organizationId: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ROLE_OPTIONS: Array<{ value: OrganizationRole; description: string }> = [
+  { value: 'member', description: 'Manage media, playlists and screens' },
+  { value: 'content_editor', description: 'Upload media and edit playlists' },
+  { value: 'approver', description: 'Review, approve and publish playlists' },
+  { value: 'screen_operator', description: 'Run screens and send emergency broadcasts' },
+  { value: 'viewer', description: 'See everything, change nothing' },
+  { value: 'billing', description: 'Manage billing' },
+  { value: 'admin', description: 'Everything, including members and roles' },
+  { value: 'owner', description: 'Also manage owners' },
+];
+
+const PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+function getInitials(user: OrganizationUser): string {
+  const source = user.name || user.email || '?';
+  return source
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0]?.toUpperCase())
+    .join('');
+}
+
+export function OrganizationMembersDialog({ organizationId, isOpen, onClose }: OrganizationMembersDialogProps) {
+  const { user } = useAuth();
+  const syncOrganization = useOrganizationStore(state => state.updateOrganization);
+  const removeOrganization = useOrganizationStore(state => state.removeOrganization);
+
+  const [organization, setOrganization] = useState<OrganizationDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [renaming, setRenaming] = useState(false);
+  const [savingApproval, setSavingApproval] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Exclude<OrganizationRole, 'owner'>>('member');
+  const [tab, setTab] = useState('members');
+  const [inviting, setInviting] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const isOwner = organization?.role === 'owner';
+  const isAdmin = hasOrganizationRole(organization?.role, 'admin');
+  const canManage = hasPermission(organization, 'members:manage');
+
+  const applyUpdate = useCallback((updated: OrganizationDetail) => {
+    setOrganization(updated);
+    syncOrganization(updated);
+  }, [syncOrganization]);
+
+  const loadOrganization = useCallback(async () => {
+    if (!organizationId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await getOrganization(organizationId);
+      setOrganization(loaded);
+      setName(loaded.name);
+    } catch (loadError) {
+      setError(getOrganizationErrorMessage(loadError));
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadOrganization();
+    } else {
+      setEmail('');
+      setRole('member');
+      setTab('members');
+    }
+  }, [isOpen, loadOrganization]);
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!organizationId || !name.trim() || name.trim() === organization?.name) return;
+
+    setRenaming(true);
+    try {
+      applyUpdate(await updateOrganization(organizationId, { name: name.trim() }));
+      toast.success('Workspace renamed');
+    } catch (renameError) {
+      toast.error(getOrganizationErrorMessage(renameError));
+    } finally {
+      setRenaming(false);
+    }
+  };
+
+  const handleRequireApprovalChange = async (requireApproval: boolean) => {
+    if (!organizationId) return;
+
+    setSavingApproval(true);
+    try {
+      applyUpdate(await updateOrganization(organizationId, { requireApproval }));
+      toast.success(requireApproval
+        ? 'Playlists now need approval before they go on screens'
+        : 'Playlists no longer need approval');
+    } catch (updateError) {
+      toast.error(getOrganizationErrorMessage(updateError));
+    } finally {
+      setSavingApproval(false);
+    }
+  };
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!organizationId || !email.trim()) return;
+
+    setInviting(true);
+    try {
+      applyUpdate(await inviteMember(organizationId, email.trim(), role));
+      toast.success(`Invitation sent to ${email.trim()}`);
+      setEmail('');
+    } catch (inviteError) {
+      toast.error(getOrganizationErrorMessage(inviteError));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitationId: string, invitedEmail: string) => {
+    if (!organizationId) return;
+
+    setUpdatingId(invitationId);
+    try {
+      applyUpdate(await revokeInvitation(organizationId, invitationId));
+      toast.success(`Withdrew the invitation to ${invitedEmail}`);
+    } catch (revokeError) {
+      toast.error(getOrganizationErrorMessage(revokeError));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, next: OrganizationRole) => {
+    if (!organizationId || next === member.role) return;
+
+    setUpdatingId(member.user._id);
+    try {
+      applyUpdate(await updateMemberRole(organizationId, member.user._id, next));
+      toast.success(`Updated role for ${member.user.name || member.user.email}`);
+    } catch (updateError) {
+      toast.error(getOrganizationErrorMessage(updateError));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    if (!organizationId) return;
+
+    const isSelf = member.user._id === user?.id;
+    setUpdatingId(member.user._id);
+    try {
+      const updated = await removeMember(organizationId, member.user._id);
+      if (isSelf || !updated) {
+        toast.success(`You left ${organization?.name}`);
+        onClose();
+        await removeOrganization(organizationId);
+        return;
+      }
+      applyUpdate(updated);
+      toast.success(`Removed ${member.user.name || member.user.email}`);
+    } catch (removeError) {
+      toast.error(getOrganizationErrorMessage(removeError));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handlePermissionToggle = async (rolePermissions: RolePermissions, permission: Permission) => {
+    if (!organizationId) return;
+
+    const permissions = rolePermissions.permissions.includes(permission)
+      ? rolePermissions.permissions.filter(existing => existing !== permission)
+      : [...rolePermissions.permissions, permission];
+
+    setUpdatingId(`role-${rolePermissions.role}`);
+    try {
+      applyUpdate(await updateRolePermissions(organizationId, rolePermissions.role, permissions));
+    } catch (updateError) {
+      toast.error(getOrganizationErrorMessage(updateError));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // Owners are the owners' to manage and admins the admins'; the rest anyone managing members
+  const canChange = (member: OrganizationMember) => {
+    if (member.role === 'owner') return isOwner;
+    if (member.role === 'admin') return isAdmin;
+    return canManage;
+  };
+
+  const roleOptions = ROLE_OPTIONS.filter(option =>
+    option.value === 'owner' ? isOwner : option.value === 'admin' ? isAdmin : true
+  );
+
+  const renderPerson = (person: OrganizationUser, control: React.ReactNode) => (
+    <div key={person._id} className="flex items-center gap-3 py-2">
+      <Avatar className="h-8 w-8">
+        <AvatarFallback className="text-xs">{getInitials(person)}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">
+          {person.name || person.email}
+          {person._id === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+        </p>
+        <p className="text-xs text-muted-foreground truncate">{person.email}</p>
+      </div>
+      {control}
+    </div>
+  );
+
+  const membersList = loading && !organization ? (
+    <div className="flex items-center justify-center py-8 text-muted-foreground">
+      <Loader2 className="h-5 w-5 animate-spin mr-2" />
+      Loading members...
+    </div>
+  ) : error ? (
+    <div className="flex items-center gap-2 py-6 text-sm text-destructive">
+      <AlertCircle className="h-4 w-4" />
+      <span className="flex-1">{error}</span>
+      <Button size="sm" variant="outline" onClick={loadOrganization}>Retry</Button>
+    </div>
+  ) : organization && (
+    <div className="max-h-80 overflow-y-auto">
+      {organization.members.map(member => {
+        const isSelf = member.user._id === user?.id;
+        const busy = updatingId === member.user._id;
+
+        return renderPerson(member.user, (
+          <div className="flex items-center gap-1">
+            {canChange(member) && !isSelf ? (
+              <Select
+                value={member.role}
+                onValueChange={(value) => handleRoleChange(member, value as OrganizationRole)}
+                disabled={busy}
+              >
+                <SelectTrigger className="h-8 w-36 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roleOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      <span title={option.description}>{ROLE_LABELS[option.value]}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Badge variant={member.role === 'owner' ? 'secondary' : 'outline'}>
+                {ROLE_LABELS[member.role]}
+              </Badge>
+            )}
+            {(canChange(member) || isSelf) && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                onClick={() => handleRemove(member)}
+                disabled={busy}
+                title={isSelf ? 'Leave this workspace' : 'Remove member'}
+              >
+                {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+              </Button>
+            )}
+          </div>
+        ));
+      })}
+
+      {organization.invitations.length > 0 && (
+        <>
+          <p className="pt-3 pb-1 text-xs font-medium text-muted-foreground">Pending invitations</p>
+          {organization.invitations.map(invitation => {
+            const busy = updatingId === invitation.id;
+
+            return (
+              <div key={invitation.id} className="flex items-center gap-3 py-2">
+                <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted">
+                  <Mail className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{invitation.email}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Badge variant="outline">
+                  {ROLE_LABELS[invitation.role]}
+                </Badge>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0"
+                  onClick={() => handleRevoke(invitation.id, invitation.email)}
+                  disabled={busy}
+                  title="Withdraw invitation"
+                >
+                  {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                </Button>
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+
+  const rolesList = organization && (
+    <div className="max-h-80 overflow-y-auto space-y-4">
+      <label className="flex items-start gap-3">
+        <Switch
+          checked={organization.requireApproval}
+          onCheckedChange={handleRequireApprovalChange}
+          disabled={savingApproval}
+        />
+        <span className="text-sm">
+          Require approval
+          <span className="block text-xs text-muted-foreground">
+            Playlists are submitted, approved and published before they go on screens. Playlists on screens now stay there.
+          </span>
+        </span>
+      </label>
+      {organization.roles.map(rolePermissions => {
+        const busy = updatingId === `role-${rolePermissions.role}`;
+
+        return (
+          <div key={rolePermissions.role}>
+            <div className="flex items-center gap-2 pb-2">
+              <p className="text-sm font-medium">{ROLE_LABELS[rolePermissions.role]}</p>
+              {!rolePermissions.configurable && <Badge variant="secondary">Every permission</Badge>}
+              {busy && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+            </div>
+            {rolePermissions.configurable && (
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+                {PERMISSIONS.map(permission => (
+                  <label key={permission} className="flex items-center gap-2 text-xs">
+                    <Checkbox
+                      checked={rolePermissions.permissions.includes(permission)}
+                      onCheckedChange={() => handlePermissionToggle(rolePermissions, permission)}
+                      disabled={busy}
+                    />
+                    {PERMISSION_LABELS[permission]}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            {organization?.name || 'Workspace'} members
+          </DialogTitle>
+          <DialogDescription>
+            Everyone here shares the workspace's media, playlists and screens.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isAdmin && organization && (
+          <form onSubmit={handleRename} className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={renaming}
+              maxLength={100}
+              className="flex-1"
+              aria-label="Workspace name"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={renaming || !name.trim() || name.trim() === organization.name}
+            >
+              {renaming ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+            </Button>
+          </form>
+        )}
+
+        {canManage && (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="Email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={inviting}
+              className="flex-1"
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as Exclude<OrganizationRole, 'owner'>)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roleOptions
+                  .filter(option => option.value !== 'owner')
+                  .map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      <span title={option.description}>{ROLE_LABELS[option.value]}</span>
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={inviting || !email.trim()}>
+              {inviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </Button>
+          </form>
+        )}
+
+        <Separator />
+
+        {isAdmin && organization ? (
+          <Tabs value={tab} onValueChange={setTab}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="members">Members</TabsTrigger>
+              <TabsTrigger value="roles">Roles</TabsTrigger>
+            </TabsList>
+            <TabsContent value="members">{membersList}</TabsContent>
+            <TabsContent value="roles">{rolesList}</TabsContent>
+          </Tabs>
+        ) : membersList}
+
+        {organization && !canManage && (
+          <p className="text-xs text-muted-foreground">
+            Your role does not include inviting people or changing roles.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,279 @@
+/**
+ * Playlist Approval Dialog
+ *
+ * Takes a playlist through review in organizations that require approval:
+ * editors submit the saved version, approvers approve it or send it back
+ * with what needs to change, and publishers put the approved version on
+ * screens. Screens keep playing the last published version meanwhile. The
+ * review thread records every step and any comments along the way.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Textarea } from './ui/textarea';
+import { Separator } from './ui/separator';
+import { ClipboardCheck, Send, Check, X, Upload, MessageSquare, Loader2, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../contexts/AuthContext';
+import { socketService } from '../services/socketService';
+import type { PlaylistApprovalEvent } from '../services/socketService';
+import {
+  getPlaylistApproval,
+  changePlaylistApproval,
+  addPlaylistApprovalComment,
+  getPlaylistErrorMessage,
+  APPROVAL_STATUS_LABELS,
+} from '../services/playlistAPI';
+import { hasOrganizationRole } from '../services/organizationAPI';
+import { usePermission, useActiveOrganization } from '../stores/useOrganizationStore';
+import type { Playlist, PlaylistApproval, PlaylistApprovalAction, PlaylistApprovalStatus } from '../types';
+
+interface PlaylistApprovalDialogProps {
+  playlist: Playlist | null;
+  isOpen: boolean;
+  onClose: () => void;
+  canEdit: boolean; // Edit permission on this playlist, needed to submit it
+  unsavedChanges?: boolean; // Only the saved version can be submitted
+}
+
+type ReviewStep = Exclude<PlaylistApprovalAction, 'comment'>;
+
+const STATUS_VARIANTS: Record<PlaylistApprovalStatus, 'default' | 'secondary' | 'outline'> = {
+  draft: 'outline',
+  submitted: 'secondary',
+  approved: 'default',
+  published: 'default',
+};
+
+const ACTION_LABELS: Record<PlaylistApprovalAction, string> = {
+  comment: 'commented',
+  submit: 'submitted',
+  approve: 'approved',
+  reject: 'requested changes',
+  publish: 'published',
+};
+
+const STEP_MESSAGES: Record<ReviewStep, string> = {
+  submit: 'Submitted for approval',
+  approve: 'Playlist approved',
+  reject: 'Sent back to draft',
+  publish: 'Published to screens',
+};
+
+export function PlaylistApprovalDialog({ playlist, isOpen, onClose, canEdit, unsavedChanges }: PlaylistApprovalDialogProps) {
+  const { user } = useAuth();
+  const activeOrganization = useActiveOrganization();
+  const canApprove = usePermission('playlist:approve');
+  const canPublish = usePermission('playlist:publish');
+
+  const [approval, setApproval] = useState<PlaylistApproval | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [busyAction, setBusyAction] = useState<PlaylistApprovalAction | null>(null);
+
+  const playlistId = playlist?.id;
+
+  const loadApproval = useCallback(async () => {
+    if (!playlistId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setApproval(await getPlaylistApproval(playlistId));
+    } catch (loadError) {
+      setError(getPlaylistErrorMessage(loadError));
+    } finally {
+      setLoading(false);
+    }
+  }, [playlistId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadApproval();
+    } else {
+      setComment('');
+    }
+  }, [isOpen, loadApproval]);
+
+  // Follow steps taken by others while the dialog is open
+  useEffect(() => {
+    if (!isOpen || !playlistId) return;
+
+    const handleApprovalChanged = (event: PlaylistApprovalEvent) => {
+      if (event.playlistId === playlistId && event.userId !== user?.id) {
+        loadApproval();
+      }
+    };
+
+    socketService.on('playlist:approval:changed', handleApprovalChanged);
+    return () => {
+      socketService.off('playlist:approval:changed', handleApprovalChanged);
+    };
+  }, [isOpen, playlistId, user?.id, loadApproval]);
+
+  const handleStep = async (action: ReviewStep) => {
+    if (!playlistId) return;
+
+    setBusyAction(action);
+    try {
+      setApproval(await changePlaylistApproval(playlistId, action, comment.trim() || undefined));
+      setComment('');
+      toast.success(STEP_MESSAGES[action]);
+    } catch (stepError) {
+      toast.error(getPlaylistErrorMessage(stepError));
+      loadApproval();
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleComment = async () => {
+    if (!playlistId || !comment.trim()) return;
+
+    setBusyAction('comment');
+    try {
+      setApproval(await addPlaylistApprovalComment(playlistId, comment.trim()));
+      setComment('');
+    } catch (commentError) {
+      toast.error(getPlaylistErrorMessage(commentError));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const status = approval?.status ?? 'draft';
+  // Someone else signs off, unless an owner or admin approves
+  const ownSubmission = !!approval?.submittedBy && approval.submittedBy._id === user?.id
+    && !hasOrganizationRole(activeOrganization?.role, 'admin');
+  const busy = busyAction !== null;
+
+  const describeScreens = () => {
+    if (!approval) return null;
+    if (approval.publishedVersion === null) {
+      return 'Not published yet, so it cannot be assigned to screens.';
+    }
+    if (status === 'published') {
+      return `Screens play the current version (v${approval.publishedVersion}).`;
+    }
+    return `Screens keep playing v${approval.publishedVersion} until a newer version is published.`;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Review "{playlist?.name}"
+          </DialogTitle>
+          <DialogDescription>
+            Playlists in this workspace are approved and published before they go on screens.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && !approval ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading review...
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 py-6 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span className="flex-1">{error}</span>
+            <Button size="sm" variant="outline" onClick={loadApproval}>Retry</Button>
+          </div>
+        ) : approval && (
+          <>
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge variant={STATUS_VARIANTS[status]}>{APPROVAL_STATUS_LABELS[status]}</Badge>
+                <span className="text-xs text-muted-foreground">Current version v{approval.version}</span>
+              </div>
+              <p className="text-sm text-muted-foreground">{describeScreens()}</p>
+            </div>
+
+            <Separator />
+
+            <div className="max-h-64 overflow-y-auto space-y-3">
+              {approval.comments.length === 0 ? (
+                <p className="py-4 text-sm text-muted-foreground text-center">
+                  No review activity yet
+                </p>
+              ) : approval.comments.map(entry => (
+                <div key={entry.id} className="text-sm">
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">
+                      {entry.author?.name || entry.author?.email || 'Someone'}
+                    </span>
+                    {' '}{ACTION_LABELS[entry.action]} v{entry.version} · {new Date(entry.createdAt).toLocaleString()}
+                  </p>
+                  {entry.body && <p className="mt-0.5 whitespace-pre-wrap">{entry.body}</p>}
+                </div>
+              ))}
+            </div>
+
+            <Textarea
+              placeholder={status === 'submitted' && canApprove ? 'What should change? Required to send it back' : 'Add a comment'}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              maxLength={1000}
+              rows={3}
+              disabled={busy}
+            />
+
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button variant="outline" onClick={handleComment} disabled={busy || !comment.trim()}>
+                {busyAction === 'comment' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <MessageSquare className="h-4 w-4 mr-2" />}
+                Comment
+              </Button>
+
+              {status === 'draft' && canEdit && (
+                <Button
+                  onClick={() => handleStep('submit')}
+                  disabled={busy || unsavedChanges}
+                  title={unsavedChanges ? 'Save your changes before submitting' : undefined}
+                >
+                  {busyAction === 'submit' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                  Submit for approval
+                </Button>
+              )}
+
+              {status === 'submitted' && canApprove && (
+                <>
+                  <Button variant="outline" onClick={() => handleStep('reject')} disabled={busy || !comment.trim()}>
+                    {busyAction === 'reject' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <X className="h-4 w-4 mr-2" />}
+                    Request changes
+                  </Button>
+                  <Button
+                    onClick={() => handleStep('approve')}
+                    disabled={busy || ownSubmission}
+                    title={ownSubmission ? 'Someone else must approve a playlist you submitted' : undefined}
+                  >
+                    {busyAction === 'approve' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                    Approve
+                  </Button>
+                </>
+              )}
+
+              {status === 'approved' && canPublish && (
+                <Button onClick={() => handleStep('publish')} disabled={busy}>
+                  {busyAction === 'publish' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                  Publish
+                </Button>
+              )}
+            </div>
+
+            {status === 'draft' && unsavedChanges && canEdit && (
+              <p className="text-xs text-muted-foreground">
+                Save your changes before submitting; only the saved version is reviewed.
+              </p>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
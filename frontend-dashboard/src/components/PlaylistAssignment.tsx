@@ -52,8 +52,11 @@ import {
 import { CSS } from "@dnd-kit/utilities";
 import { cn } from "../lib/utils";
 import { toast } from "sonner";
-import type { Playlist, ScreenAssignment, PlaylistItem, MediaItem } from "../types";
+import type { Playlist, ScreenAssignment, PlaylistItem, MediaItem, Screen } from "../types";
 import { useReorderPlaylistItemsByOrder } from "../stores/usePlaylistStore";
+import { useScreens, useScreenActions } from "../stores/useScreenStore";
+import { useScreenGroups, useScreenGroupActions } from "../stores/useScreenGroupStore";
+import { flattenGroupTree, getGroupScreenIds } from "../services/screenGroupAPI";
 
 // Helper function to safely extract media data from playlist item
 function extractMediaFromItem(item: PlaylistItem): MediaItem | null {
@@ -196,25 +199,44 @@ function SortablePlaylistItem({ item, index, isDragging }: SortablePlaylistItemP
   );
 }
 
-interface Screen {
+interface AssignableScreen {
   id: string;
+  screenId: string;
   name: string;
   location: string;
-  status: 'online' | 'offline' | 'connecting' | 'error' | 'maintenance';
+  status: Screen['status'];
   lastSeen: string;
   currentPlaylist?: string;
   currentPlaylistName?: string;
-  resolution: string;
   orientation: 'landscape' | 'portrait';
   tags: string[];
-  group?: string;
 }
 
+// Flatten a screen into the fields the assignment list shows and filters on
+const toAssignableScreen = (screen: Screen): AssignableScreen => {
+  const playlist = screen.currentPlaylist;
+
+  return {
+    id: screen.id,
+    screenId: screen.screenId,
+    name: screen.name,
+    location: screen.location.name,
+    status: screen.status,
+    lastSeen: screen.lastSeen,
+    currentPlaylist: typeof playlist === 'object' && playlist ? playlist.id : playlist || undefined,
+    currentPlaylistName: typeof playlist === 'object' && playlist ? playlist.name : undefined,
+    orientation: screen.display.orientation || 'landscape',
+    tags: screen.tags || []
+  };
+};
+
 interface PlaylistAssignmentProps {
   playlist: Playlist | null;
   isOpen: boolean;
   onClose: () => void;
-  onAssign?: (screenIds: string[]) => void;
+  // Resolves to whether the assignment succeeded
+  onAssign?: (screenIds: string[], groupIds: string[]) => Promise<boolean>;
+  onUnassignAll?: () => Promise<boolean>;
   className?: string;
 }
 
@@ -232,88 +254,16 @@ interface AssignmentConflict {
   currentPlaylistName: string;
 }
 
-// Mock screen data - in real app this would come from API/store
-const mockScreens: Screen[] = [
-  {
-    id: "SCR-001",
-    name: "Main Lobby Display",
-    location: "Building A - Lobby",
-    status: 'online',
-    lastSeen: new Date(Date.now() - 30000).toISOString(),
-    currentPlaylist: "playlist-1",
-    currentPlaylistName: "Welcome Content",
-    resolution: "1920x1080",
-    orientation: 'landscape',
-    tags: ['lobby', 'main', 'high-traffic'],
-    group: 'Building A'
-  },
-  {
-    id: "SCR-002",
-    name: "Conference Room Alpha",
-    location: "Building A - Floor 2",
-    status: 'online',
-    lastSeen: new Date(Date.now() - 120000).toISOString(),
-    resolution: "3840x2160",
-    orientation: 'landscape',
-    tags: ['conference', 'meeting'],
-    group: 'Building A'
-  },
-  {
-    id: "SCR-003",
-    name: "Cafeteria Menu Board",
-    location: "Building B - Cafeteria",
-    status: 'offline',
-    lastSeen: new Date(Date.now() - 3600000).toISOString(),
-    currentPlaylist: "playlist-2",
-    currentPlaylistName: "Daily Menu",
-    resolution: "1080x1920",
-    orientation: 'portrait',
-    tags: ['cafeteria', 'menu', 'food'],
-    group: 'Building B'
-  },
-  {
-    id: "SCR-004",
-    name: "Reception Display",
-    location: "Building A - Reception",
-    status: 'connecting',
-    lastSeen: new Date(Date.now() - 300000).toISOString(),
-    resolution: "1920x1080",
-    orientation: 'landscape',
-    tags: ['reception', 'visitors'],
-    group: 'Building A'
-  },
-  {
-    id: "SCR-005",
-    name: "Emergency Exit Board",
-    location: "Building C - Emergency Exit",
-    status: 'error',
-    lastSeen: new Date(Date.now() - 1800000).toISOString(),
-    resolution: "1280x720",
-    orientation: 'landscape',
-    tags: ['emergency', 'safety'],
-    group: 'Building C'
-  },
-  {
-    id: "SCR-006",
-    name: "Elevator Display",
-    location: "Building A - Elevator Bank",
-    status: 'maintenance',
-    lastSeen: new Date(Date.now() - 900000).toISOString(),
-    resolution: "1080x1920",
-    orientation: 'portrait',
-    tags: ['elevator', 'information'],
-    group: 'Building A'
-  }
-];
-
 export function PlaylistAssignment({ 
   playlist, 
   isOpen, 
   onClose, 
   onAssign,
+  onUnassignAll,
   className 
 }: PlaylistAssignmentProps) {
   const [selectedScreens, setSelectedScreens] = useState<string[]>([]);
+  const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
   const [filters, setFilters] = useState<AssignmentFilters>({
     search: '',
     status: 'all',
@@ -333,6 +283,13 @@ export function PlaylistAssignment({
   // Store hook for reordering playlist items
   const reorderPlaylistItemsByOrder = useReorderPlaylistItemsByOrder();
 
+  const screens = useScreens();
+  const groups = useScreenGroups();
+  const { fetchScreens } = useScreenActions();
+  const { fetchGroups } = useScreenGroupActions();
+
+  const assignableScreens = useMemo(() => screens.map(toAssignableScreen), [screens]);
+
   // Sensors for drag and drop
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -348,7 +305,10 @@ export function PlaylistAssignment({
   // Reset state when dialog opens/closes
   useEffect(() => {
     if (isOpen) {
+      fetchScreens();
+      fetchGroups();
       setSelectedScreens([]);
+      setSelectedGroups([]);
       setFilters({
         search: '',
         status: 'all',
@@ -364,7 +324,7 @@ export function PlaylistAssignment({
         setHasChanges(false);
       }
     }
-  }, [isOpen, playlist]);
+  }, [isOpen, playlist, fetchScreens, fetchGroups]);
 
   // Handle drag end for playlist items
   const handleDragEnd = useCallback((event: any) => {
@@ -442,7 +402,9 @@ export function PlaylistAssignment({
 
   // Filter screens based on current filters
   const filteredScreens = useMemo(() => {
-    return mockScreens.filter(screen => {
+    const groupScreenIds = filters.group === 'all' ? null : getGroupScreenIds(groups, screens, filters.group);
+
+    return assignableScreens.filter(screen => {
       const matchesSearch = screen.name.toLowerCase().includes(filters.search.toLowerCase()) ||
                            screen.location.toLowerCase().includes(filters.search.toLowerCase()) ||
                            screen.tags.some(tag => tag.toLowerCase().includes(filters.search.toLowerCase()));
@@ -451,21 +413,18 @@ export function PlaylistAssignment({
                            (filters.status === 'available' && !screen.currentPlaylist) ||
                            screen.status === filters.status;
       
-      const matchesGroup = filters.group === 'all' || screen.group === filters.group;
+      const matchesGroup = !groupScreenIds || groupScreenIds.includes(screen.id);
       const matchesOrientation = filters.orientation === 'all' || screen.orientation === filters.orientation;
       
       return matchesSearch && matchesStatus && matchesGroup && matchesOrientation;
     });
-  }, [filters]);
+  }, [filters, assignableScreens, groups, screens]);
 
-  // Get unique groups for filter dropdown
-  const availableGroups = useMemo(() => {
-    const groups = Array.from(new Set(mockScreens.map(screen => screen.group).filter(Boolean)));
-    return groups.sort();
-  }, []);
+  // Groups in tree order for the filter and group selection
+  const groupTree = useMemo(() => flattenGroupTree(groups), [groups]);
 
   // Get screen status info
-  const getStatusInfo = (status: Screen['status']) => {
+  const getStatusInfo = (status: AssignableScreen['status']) => {
     switch (status) {
       case 'online':
         return { icon: Wifi, color: 'text-green-600', bg: 'bg-green-100', label: 'Online' };
@@ -504,26 +463,33 @@ export function PlaylistAssignment({
     );
   }, []);
 
+  // Handle group selection
+  const handleGroupSelect = useCallback((groupId: string, checked: boolean) => {
+    setSelectedGroups(prev =>
+      checked
+        ? [...prev, groupId]
+        : prev.filter(id => id !== groupId)
+    );
+  }, []);
+
   // Handle select all
-  const handleSelectAll = useCallback(() => {
-    const availableScreenIds = filteredScreens
-      .filter(screen => screen.status === 'online')
-      .map(screen => screen.id);
-    setSelectedScreens(availableScreenIds);
+  const handleSelectAll = useCallback((checked: boolean) => {
+    setSelectedScreens(checked ? filteredScreens.map(screen => screen.id) : []);
   }, [filteredScreens]);
 
-  // Handle clear selection
-  const handleClearSelection = useCallback(() => {
-    setSelectedScreens([]);
-  }, []);
-
   // Check for assignment conflicts
   const checkConflicts = useCallback(() => {
     const conflicts: AssignmentConflict[] = [];
     
-    selectedScreens.forEach(screenId => {
-      const screen = mockScreens.find(s => s.id === screenId);
-      if (screen?.currentPlaylist && screen.currentPlaylistName) {
+    // Screens reached through groups are included
+    const targetIds = new Set([
+      ...selectedScreens,
+      ...selectedGroups.flatMap(groupId => getGroupScreenIds(groups, screens, groupId))
+    ]);
+
+    targetIds.forEach(screenId => {
+      const screen = assignableScreens.find(s => s.id === screenId);
+      if (screen?.currentPlaylist && screen.currentPlaylistName && screen.currentPlaylist !== playlist?.id) {
         conflicts.push({
           screenId: screen.id,
           screenName: screen.name,
@@ -535,11 +501,11 @@ export function PlaylistAssignment({
     
     setAssignmentConflicts(conflicts);
     return conflicts;
-  }, [selectedScreens]);
+  }, [selectedScreens, selectedGroups, groups, screens, assignableScreens, playlist]);
 
   // Handle assignment
   const handleAssign = useCallback(async () => {
-    if (!playlist || selectedScreens.length === 0) return;
+    if (!playlist || (selectedScreens.length === 0 && selectedGroups.length === 0)) return;
 
     const conflicts = checkConflicts();
     
@@ -551,18 +517,13 @@ export function PlaylistAssignment({
     setIsAssigning(true);
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      onAssign?.(selectedScreens);
-      toast.success(`Playlist "${playlist.name}" assigned to ${selectedScreens.length} screen${selectedScreens.length > 1 ? 's' : ''}`);
-      onClose();
-    } catch (error) {
-      toast.error('Failed to assign playlist to screens');
+      if (await onAssign?.(selectedScreens, selectedGroups)) {
+        onClose();
+      }
     } finally {
       setIsAssigning(false);
     }
-  }, [playlist, selectedScreens, showConflicts, checkConflicts, onAssign, onClose]);
+  }, [playlist, selectedScreens, selectedGroups, showConflicts, checkConflicts, onAssign, onClose]);
 
   // Handle conflict resolution
   const handleProceedWithConflicts = useCallback(() => {
@@ -572,8 +533,8 @@ export function PlaylistAssignment({
 
   if (!playlist) return null;
 
-  const onlineScreens = filteredScreens.filter(s => s.status === 'online');
-  const currentlyAssigned = mockScreens.filter(s => playlist.assignedScreens.includes(s.id));
+  const currentlyAssigned = assignableScreens.filter(s => playlist.assignedScreens.includes(s.id));
+  const selectionCount = selectedScreens.length + selectedGroups.length;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -581,7 +542,7 @@ export function PlaylistAssignment({
         <DialogHeader>
           <DialogTitle>Assign Playlist: {playlist.name}</DialogTitle>
           <DialogDescription>
-            Select screens to assign this playlist to for display
+            Select screens or screen groups to assign this playlist to for display
           </DialogDescription>
         </DialogHeader>
         
@@ -620,10 +581,8 @@ export function PlaylistAssignment({
                 <div className="mt-4">
                   <Button 
                     variant="outline" 
-                    onClick={() => {
-                      // TODO: Implement unassign functionality
-                      console.log('Unassign from all screens');
-                    }}
+                    onClick={() => onUnassignAll?.()}
+                    disabled={!onUnassignAll}
                   >
                     Unassign from All Screens
                   </Button>
@@ -758,15 +717,34 @@ export function PlaylistAssignment({
               <CardTitle className="text-base">Assign to Screens</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              {/* Search */}
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search screens..."
-                  value={filters.search}
-                  onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
-                  className="pl-9"
-                />
+              {/* Search and Group Filter */}
+              <div className="flex items-center gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search screens..."
+                    value={filters.search}
+                    onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
+                    className="pl-9"
+                  />
+                </div>
+                <Select
+                  value={filters.group}
+                  onValueChange={(value) => setFilters(prev => ({ ...prev, group: value }))}
+                >
+                  <SelectTrigger className="w-48">
+                    <Filter className="h-4 w-4 mr-2" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Groups</SelectItem>
+                    {groupTree.map(({ group, depth }) => (
+                      <SelectItem key={group._id} value={group._id}>
+                        {"\u00a0".repeat(depth * 2)}{group.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
 
               {/* Select All */}
@@ -774,11 +752,11 @@ export function PlaylistAssignment({
                 <div className="flex items-center space-x-2">
                   <Checkbox
                     id="select-all"
-                    checked={selectedScreens.length === onlineScreens.length && onlineScreens.length > 0}
-                    onCheckedChange={handleSelectAll}
+                    checked={selectedScreens.length === filteredScreens.length && filteredScreens.length > 0}
+                    onCheckedChange={(checked) => handleSelectAll(checked as boolean)}
                   />
                   <label htmlFor="select-all" className="text-sm font-medium">
-                    Select all online screens ({onlineScreens.length})
+                    Select all screens ({filteredScreens.length})
                   </label>
                 </div>
                 {selectedScreens.length > 0 && (
@@ -793,14 +771,11 @@ export function PlaylistAssignment({
                 {filteredScreens.map(screen => (
                   <div
                     key={screen.id}
-                    className={`flex items-center gap-3 p-3 border rounded-lg ${
-                      screen.status !== 'online' ? 'opacity-50' : ''
-                    }`}
+                    className="flex items-center gap-3 p-3 border rounded-lg"
                   >
                     <Checkbox
                       checked={selectedScreens.includes(screen.id)}
                       onCheckedChange={(checked) => handleScreenSelect(screen.id, checked as boolean)}
-                      disabled={screen.status !== 'online'}
                     />
                     
                     {(() => {
@@ -816,7 +791,7 @@ export function PlaylistAssignment({
                     <div className="flex-1">
                       <div className="flex items-center gap-2">
                         <p className="font-medium">{screen.name}</p>
-                        <code className="text-xs bg-muted px-1 py-0.5 rounded">{screen.id}</code>
+                        <code className="text-xs bg-muted px-1 py-0.5 rounded">{screen.screenId}</code>
                       </div>
                       <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
                         <MapPin className="h-3 w-3" />
@@ -845,13 +820,68 @@ export function PlaylistAssignment({
             </CardContent>
           </Card>
 
+          {/* Group Selection */}
+          {groupTree.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Assign to Groups
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {groupTree.map(({ group, depth }) => (
+                    <label
+                      key={group._id}
+                      className="flex items-center gap-3 p-2 border rounded-lg"
+                      style={{ marginLeft: depth * 16 }}
+                    >
+                      <Checkbox
+                        checked={selectedGroups.includes(group._id)}
+                        onCheckedChange={(checked) => handleGroupSelect(group._id, checked as boolean)}
+                      />
+                      <span
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: group.color || '#94a3b8' }}
+                      />
+                      <span className="flex-1 text-sm font-medium">{group.name}</span>
+                      <Badge variant="outline">
+                        {group.screenCount} screen{group.screenCount === 1 ? '' : 's'}
+                      </Badge>
+                    </label>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Conflicts */}
+          {showConflicts && assignmentConflicts.length > 0 && (
+            <Card className="border-amber-200 bg-amber-50">
+              <CardContent className="p-4">
+                <h4 className="font-medium text-amber-900 mb-2 flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  {assignmentConflicts.length} screen{assignmentConflicts.length === 1 ? '' : 's'} already playing another playlist
+                </h4>
+                <ul className="text-sm text-amber-800 space-y-1">
+                  {assignmentConflicts.map(conflict => (
+                    <li key={conflict.screenId}>
+                      • {conflict.screenName}: {conflict.currentPlaylistName}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Assignment Info */}
           <Card className="bg-muted/50">
             <CardContent className="p-4">
               <h4 className="font-medium mb-2">Assignment Notes</h4>
               <ul className="text-sm text-muted-foreground space-y-1">
-                <li>• Only online screens can be assigned new playlists</li>
                 <li>• Assigning a playlist will replace the current content on selected screens</li>
+                <li>• Selecting a group assigns the screens in it now, subgroups included</li>
                 <li>• Changes take effect immediately on connected displays</li>
                 <li>• Offline screens will receive the assignment when they come online</li>
               </ul>
@@ -865,10 +895,14 @@ export function PlaylistAssignment({
             Cancel
           </Button>
           <Button 
-            onClick={handleAssign}
-            disabled={selectedScreens.length === 0}
+            onClick={showConflicts ? handleProceedWithConflicts : handleAssign}
+            disabled={selectionCount === 0 || isAssigning}
           >
-            Assign to {selectedScreens.length} Screen{selectedScreens.length !== 1 ? 's' : ''}
+            {showConflicts
+              ? 'Replace and Assign'
+              : selectedGroups.length > 0
+                ? `Assign to ${selectedScreens.length} Screen${selectedScreens.length !== 1 ? 's' : ''} and ${selectedGroups.length} Group${selectedGroups.length !== 1 ? 's' : ''}`
+                : `Assign to ${selectedScreens.length} Screen${selectedScreens.length !== 1 ? 's' : ''}`}
           </Button>
         </div>
       </DialogContent>
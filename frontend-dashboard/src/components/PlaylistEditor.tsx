@@ -15,6 +15,12 @@ import { PlaylistTimeline } from "./PlaylistTimeline";
 import { PlaylistPreview } from "./PlaylistPreview";
 import { PlaylistAssignment } from "./PlaylistAssignment";
 import { PlaylistSettings } from "./PlaylistSettings";
+import { PlaylistHistory } from "./PlaylistHistory";
+import { PlaylistShareDialog } from "./PlaylistShareDialog";
+import { PlaylistApprovalDialog } from "./PlaylistApprovalDialog";
+import { ApprovalQueueDialog } from "./ApprovalQueueDialog";
+import { PlaylistItemSettingsDialog } from "./PlaylistItemSettingsDialog";
+import { PlaylistPresenceAvatars } from "./PlaylistPresence";
 import { ConflictResolutionDialog } from "./ConflictResolutionDialog";
 import { cn } from "../lib/utils";
 import { 
@@ -35,7 +41,17 @@ import {
   AlertCircle,
   RefreshCw,
   ChevronUp,
-  ChevronDown
+  ChevronDown,
+  History,
+  Undo2,
+  Redo2,
+  Share2,
+  Eye,
+  Lock,
+  SlidersHorizontal,
+  CalendarClock,
+  ClipboardCheck,
+  Inbox
 } from "lucide-react";
 import { toast } from "sonner";
 import {
@@ -65,8 +81,20 @@ import { CSS } from '@dnd-kit/utilities';
 // Store imports
 import { usePlaylistStore } from '../stores/usePlaylistStore';
 import { useMediaStore } from '../stores/useMediaStore';
+import { usePermission, useActiveOrganization } from '../stores/useOrganizationStore';
 import { socketService } from '../services/socketService';
+import type { PlaylistPresenceUser, PlaylistItemLock } from '../services/socketService';
+import { getItemKey } from '../services/playlistMerge';
+import { getPresenceColor, getPresenceName } from '../services/playlistPresence';
+import { describeCondition } from '../services/playlistConditions';
+import {
+  isPlaylistConflictError,
+  getPlaylistPermission,
+  hasPlaylistPermission,
+  APPROVAL_STATUS_LABELS,
+} from '../services/playlistAPI';
 import { useSocketStatus } from '../hooks/useSocketStatus';
+import { useAuth } from '../contexts/AuthContext';
 import type { Playlist, PlaylistItem, MediaItem } from '../types';
 
 // Droppable Playlist Container Component
@@ -106,6 +134,10 @@ interface SortablePlaylistItemProps {
   onMoveDown?: (itemId: string) => void;
   canMoveUp: boolean;
   canMoveDown: boolean;
+  readOnly?: boolean;
+  collaborators?: PlaylistPresenceUser[]; // Others editing or dragging this item
+  lock?: PlaylistItemLock | null; // Someone else has this item's settings open
+  onEditSettings?: (item: PlaylistItem) => void;
 }
 
 function SortablePlaylistItem({ 
@@ -116,8 +148,17 @@ function SortablePlaylistItem({
   onMoveUp, 
   onMoveDown, 
   canMoveUp, 
-  canMoveDown 
+  canMoveDown,
+  readOnly = false,
+  collaborators = [],
+  lock = null,
+  onEditSettings
 }: SortablePlaylistItemProps) {
+  // Locked items are left alone until their editor closes them
+  const editable = !readOnly && !lock;
+  const highlight = lock || collaborators[0];
+  const highlightColor = highlight ? getPresenceColor(highlight.userId) : null;
+
   const {
     attributes,
     listeners,
@@ -125,7 +166,7 @@ function SortablePlaylistItem({
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: `playlist-item-${item.id}` });
+  } = useSortable({ id: `playlist-item-${item.id}`, disabled: !editable });
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -178,15 +219,33 @@ function SortablePlaylistItem({
     <div
       ref={setNodeRef}
       style={style}
-      className={`flex items-center gap-3 p-3 bg-card border rounded-lg transition-colors group ${
-        isSelected ? 'ring-2 ring-primary ring-opacity-50' : 'hover:bg-muted/50'
-      }`}
+      className={cn(
+        "relative flex items-center gap-3 p-3 bg-card border rounded-lg transition-colors group",
+        highlightColor ? `ring-2 ${highlightColor.ring}` : isSelected ? 'ring-2 ring-primary ring-opacity-50' : 'hover:bg-muted/50'
+      )}
       onClick={() => onSelect(item)}
     >
+      {/* Who else is working on this item */}
+      {highlight && highlightColor && (
+        <div
+          className={cn(
+            "absolute -top-2.5 right-3 flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] font-medium text-white",
+            highlightColor.bg
+          )}
+        >
+          {lock && <Lock className="h-3 w-3" />}
+          {getPresenceName(highlight)}
+          {!lock && collaborators[0]?.activity === 'dragging' ? ' is moving' : ' is editing'}
+        </div>
+      )}
+
       <div
         {...attributes}
         {...listeners}
-        className="cursor-grab hover:cursor-grabbing p-1 -ml-1 text-muted-foreground hover:text-foreground transition-colors"
+        className={cn(
+          "p-1 -ml-1 text-muted-foreground transition-colors",
+          editable ? "cursor-grab hover:cursor-grabbing hover:text-foreground" : "cursor-default opacity-40"
+        )}
       >
         <svg width="12" height="20" viewBox="0 0 12 20" className="text-current">
           <circle key="c1" cx="4" cy="4" r="1" fill="currentColor" />
@@ -245,6 +304,12 @@ function SortablePlaylistItem({
               {media.format.toUpperCase()}
             </Badge>
           )}
+          {item.conditions && item.conditions.length > 0 && (
+            <span className="flex items-center gap-1" title={item.conditions.map(describeCondition).join('\n')}>
+              <CalendarClock className="h-3 w-3" />
+              {item.conditions.length === 1 ? describeCondition(item.conditions[0]) : `${item.conditions.length} conditions`}
+            </span>
+          )}
         </div>
         {media?.tags && media.tags.length > 0 && (
           <div className="flex items-center gap-1 mt-1">
@@ -264,68 +329,88 @@ function SortablePlaylistItem({
         <span className="text-xs text-muted-foreground mt-1">Order</span>
       </div>
 
-      {/* Move Up/Down Buttons (show on hover) */}
-      <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+      {/* Item Settings Button */}
+      {editable && onEditSettings && (
         <Button
           variant="ghost"
           size="sm"
           onClick={(e) => {
             e.stopPropagation();
-            onMoveUp?.(item.id || item._id);
+            onEditSettings(item);
           }}
-          disabled={!canMoveUp}
-          className={cn(
-            "h-6 w-6 p-0",
-            canMoveUp ? "hover:bg-blue-100 hover:text-blue-600" : "cursor-not-allowed opacity-50"
-          )}
-          title="Move up"
+          className="opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Duration and transition"
         >
-          <ChevronUp className="h-3 w-3" />
+          <SlidersHorizontal className="h-4 w-4" />
         </Button>
+      )}
+
+      {/* Move Up/Down Buttons (show on hover) */}
+      {editable && (
+        <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={(e) => {
+              e.stopPropagation();
+              onMoveUp?.(item.id || item._id);
+            }}
+            disabled={!canMoveUp}
+            className={cn(
+              "h-6 w-6 p-0",
+              canMoveUp ? "hover:bg-blue-100 hover:text-blue-600" : "cursor-not-allowed opacity-50"
+            )}
+            title="Move up"
+          >
+            <ChevronUp className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={(e) => {
+              e.stopPropagation();
+              onMoveDown?.(item.id || item._id);
+            }}
+            disabled={!canMoveDown}
+            className={cn(
+              "h-6 w-6 p-0",
+              canMoveDown ? "hover:bg-blue-100 hover:text-blue-600" : "cursor-not-allowed opacity-50"
+            )}
+            title="Move down"
+          >
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+      
+      {/* Delete Button */}
+      {editable && (
         <Button
           variant="ghost"
           size="sm"
           onClick={(e) => {
             e.stopPropagation();
-            onMoveDown?.(item.id || item._id);
+            const itemId = item.id || item._id;
+            
+            console.log('🗑️ Delete button clicked for item:', { 
+              item: {
+                id: item.id,
+                _id: item._id,
+                finalId: itemId,
+                order: item.order
+              }
+            });
+            
+            console.log('🔗 Calling onRemove with itemId:', itemId);
+            onRemove(itemId);
+            console.log('✅ onRemove call completed');
           }}
-          disabled={!canMoveDown}
-          className={cn(
-            "h-6 w-6 p-0",
-            canMoveDown ? "hover:bg-blue-100 hover:text-blue-600" : "cursor-not-allowed opacity-50"
-          )}
-          title="Move down"
+          className="opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-100 hover:text-red-600"
+          title="Remove from playlist"
         >
-          <ChevronDown className="h-3 w-3" />
+          <Trash2 className="h-4 w-4" />
         </Button>
-      </div>
-      
-      {/* Delete Button */}
-      <Button
-        variant="ghost"
-        size="sm"
-        onClick={(e) => {
-          e.stopPropagation();
-          const itemId = item.id || item._id;
-          
-          console.log('🗑️ Delete button clicked for item:', { 
-            item: {
-              id: item.id,
-              _id: item._id,
-              finalId: itemId,
-              order: item.order
-            }
-          });
-          
-          console.log('🔗 Calling onRemove with itemId:', itemId);
-          onRemove(itemId);
-          console.log('✅ onRemove call completed');
-        }}
-        className="opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-100 hover:text-red-600"
-        title="Remove from playlist"
-      >
-        <Trash2 className="h-4 w-4" />
-      </Button>
+      )}
     </div>
   );
 }
@@ -337,6 +422,11 @@ export function PlaylistEditor() {
   const [showPreview, setShowPreview] = useState(false);
   const [showAssignment, setShowAssignment] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showApproval, setShowApproval] = useState(false);
+  const [showApprovalQueue, setShowApprovalQueue] = useState(false);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
   const [showConflictDialog, setShowConflictDialog] = useState(false);
   const [selectedItem, setSelectedItem] = useState<PlaylistItem | null>(null);
   const [activeId, setActiveId] = useState<string | null>(null);
@@ -367,6 +457,8 @@ export function PlaylistEditor() {
     removeFromPlaylist,
     reorderPlaylistItems,
     reorderPlaylistItemsByOrder,
+    assignToScreens,
+    unassignFromScreens,
     clearError,
     initializeSocket,
     subscribeToPlaylistEvents,
@@ -375,9 +467,51 @@ export function PlaylistEditor() {
     conflictResolution,
     handleConflictResolution,
     clearConflict,
-    forceRefreshPlaylists
+    forceRefreshPlaylists,
+    undoStack,
+    redoStack,
+    undo,
+    redo,
+    clearEditHistory,
+    playlistPermissions,
+    playlistPresence,
+    setItemActivity
   } = usePlaylistStore();
 
+  // What the signed-in user may do with the open playlist. Live changes from
+  // the server take precedence over what the playlist was loaded with
+  const { user } = useAuth();
+  const permission = currentPlaylist
+    ? playlistPermissions[currentPlaylist.id] ?? getPlaylistPermission(currentPlaylist, user?.id)
+    : null;
+  const readOnly = !!currentPlaylist && !hasPlaylistPermission(permission, 'edit');
+  // Creating playlists and putting them on screens follow the workspace role
+  const canCreate = usePermission('playlist:edit');
+  const canPublish = usePermission('playlist:publish');
+  // Organizations can require playlists to be reviewed before they go on screens
+  const requireApproval = useActiveOrganization()?.requireApproval ?? false;
+  const canApprove = usePermission('playlist:approve');
+  const approvalStatus = currentPlaylist?.approval?.status ?? 'draft';
+
+  // Everyone else's activity and locks on the open playlist, by item
+  const presence = currentPlaylist ? playlistPresence[currentPlaylist.id] : undefined;
+  const { collaboratorsByItem, foreignLocks } = useMemo(() => {
+    const ownSocketId = socketService.socket?.id;
+    const byItem = new Map<string, PlaylistPresenceUser[]>();
+    (presence?.users || [])
+      .filter(member => member.socketId !== ownSocketId && member.itemId)
+      .forEach(member => {
+        byItem.set(member.itemId as string, [...(byItem.get(member.itemId as string) || []), member]);
+      });
+
+    return {
+      collaboratorsByItem: byItem,
+      foreignLocks: new Map((presence?.locks || [])
+        .filter(lock => lock.socketId !== ownSocketId)
+        .map(lock => [lock.itemId, lock])),
+    };
+  }, [presence]);
+
   const {
     media: mediaLibrary,
     loading: mediaLoading,
@@ -468,7 +602,7 @@ export function PlaylistEditor() {
     if (conflictResolution.hasConflict && !showConflictDialog) {
       setShowConflictDialog(true);
       toast.warning(
-        `Playlist modified by ${conflictResolution.conflictingUserEmail}. Please resolve the conflict.`,
+        `Playlist modified by ${conflictResolution.conflictingUserEmail || 'another user'}. Please resolve the conflict.`,
         {
           duration: 10000,
           action: {
@@ -525,6 +659,7 @@ export function PlaylistEditor() {
       console.warn('No current playlist selected');
       return;
     }
+    if (readOnly) return;
     
     try {
       await addMediaToPlaylist(currentPlaylist.id, mediaId, position);
@@ -533,10 +668,16 @@ export function PlaylistEditor() {
       console.error('Failed to add media to playlist:', error);
       toast.error("Failed to add media to playlist");
     }
-  }, [currentPlaylist, addMediaToPlaylist]);
+  }, [currentPlaylist, readOnly, addMediaToPlaylist]);
 
   const handleRemoveFromPlaylist = useCallback(async (itemId: string) => {
-    if (!currentPlaylist) return;
+    if (!currentPlaylist || readOnly) return;
+
+    const lock = foreignLocks.get(itemId);
+    if (lock) {
+      toast.error(`${getPresenceName(lock)} is editing this item`);
+      return;
+    }
     
     try {
       console.log('🗑️ Attempting to remove item from playlist:', {
@@ -565,10 +706,10 @@ export function PlaylistEditor() {
       console.error('❌ Failed to remove item:', error);
       toast.error("Failed to remove item");
     }
-  }, [currentPlaylist, removeFromPlaylist, selectedItem, fetchPlaylist]);
+  }, [currentPlaylist, readOnly, foreignLocks, removeFromPlaylist, selectedItem, fetchPlaylist]);
 
   const handleReorderItems = useCallback(async (newItems: PlaylistItem[]) => {
-    if (!currentPlaylist) return;
+    if (!currentPlaylist || readOnly) return;
     
     try {
       const orderUpdates = newItems.map((item, index) => {
@@ -624,7 +765,7 @@ export function PlaylistEditor() {
       console.error('Failed to reorder items:', error);
       toast.error("Failed to reorder items");
     }
-  }, [currentPlaylist, reorderPlaylistItemsByOrder]);
+  }, [currentPlaylist, readOnly, reorderPlaylistItemsByOrder]);
 
   // Helper function to safely extract media data (needed for logging)
   const extractMediaFromItem = useCallback((item: PlaylistItem): MediaItem | null => {
@@ -707,7 +848,7 @@ export function PlaylistEditor() {
   }, [currentPlaylist, handleReorderItems, extractMediaFromItem]);
 
   const handleDuplicatePlaylist = useCallback(async () => {
-    if (!currentPlaylist) return;
+    if (!currentPlaylist || !canCreate) return;
     
     try {
       const duplicated = await duplicatePlaylist(currentPlaylist.id);
@@ -719,7 +860,32 @@ export function PlaylistEditor() {
       console.error('Failed to duplicate playlist:', error);
       toast.error("Failed to duplicate playlist");
     }
-  }, [currentPlaylist, duplicatePlaylist, setCurrentPlaylist]);
+  }, [currentPlaylist, canCreate, duplicatePlaylist, setCurrentPlaylist]);
+
+  const handleUndo = useCallback(async () => {
+    if (readOnly) return;
+    try {
+      const command = await undo();
+      if (command) {
+        toast.success(`Undid: ${command.label}`);
+      }
+    } catch (error) {
+      // The store error toast explains why the change could not be undone
+      console.error('Failed to undo:', error);
+    }
+  }, [undo, readOnly]);
+
+  const handleRedo = useCallback(async () => {
+    if (readOnly) return;
+    try {
+      const command = await redo();
+      if (command) {
+        toast.success(`Redid: ${command.label}`);
+      }
+    } catch (error) {
+      console.error('Failed to redo:', error);
+    }
+  }, [redo, readOnly]);
 
   const handleCreateNewPlaylist = useCallback(async () => {
     try {
@@ -749,6 +915,8 @@ export function PlaylistEditor() {
       playlistIsActive 
     });
 
+    if (readOnly) return;
+
     if (!currentPlaylist || !formChanged) {
       if (!formChanged) {
         toast.info("No changes to save");
@@ -790,6 +958,11 @@ export function PlaylistEditor() {
     } catch (error: any) {
       console.error('🎵 Failed to save playlist:', error);
       
+      // Conflicting concurrent edits are resolved in the conflict dialog
+      if (isPlaylistConflictError(error)) {
+        return;
+      }
+      
       // Extract meaningful error message
       let errorMessage = "Failed to save playlist";
       if (error?.message) {
@@ -819,7 +992,7 @@ export function PlaylistEditor() {
         },
       });
     }
-  }, [currentPlaylist, playlistName, playlistDescription, playlistIsActive, formChanged, updatePlaylist]);
+  }, [currentPlaylist, playlistName, playlistDescription, playlistIsActive, formChanged, readOnly, updatePlaylist]);
   
   // Handle form field changes
   const handleNameChange = useCallback((newName: string) => {
@@ -837,27 +1010,64 @@ export function PlaylistEditor() {
     setFormChanged(true);
   }, []);
 
-  const handleAssignToScreens = useCallback(async (screenIds: string[]) => {
-    if (!currentPlaylist) return;
-    
-    try {
-      // This would be implemented when screen assignment is needed
-      toast.success(`Playlist assigned to ${screenIds.length} screens`);
-    } catch (error) {
-      console.error('Failed to assign playlist:', error);
-      toast.error("Failed to assign playlist");
+  const handleAssignToScreens = useCallback(async (screenIds: string[], groupIds: string[]) => {
+    if (!currentPlaylist) return false;
+
+    // Failures surface through the store error toast
+    const assignedIds = await assignToScreens(currentPlaylist.id, screenIds, groupIds);
+    if (!assignedIds) return false;
+
+    toast.success(`Playlist "${currentPlaylist.name}" assigned to ${assignedIds.length} screen${assignedIds.length === 1 ? '' : 's'}`);
+    return true;
+  }, [currentPlaylist, assignToScreens]);
+
+  const handleReviewPlaylist = useCallback(async (playlistId: string) => {
+    setShowApprovalQueue(false);
+
+    const playlist = playlists.find(candidate => candidate.id === playlistId);
+    if (playlist) {
+      setCurrentPlaylist(playlist);
+    } else {
+      await fetchPlaylist(playlistId);
     }
-  }, [currentPlaylist]);
+    setShowApproval(true);
+  }, [playlists, setCurrentPlaylist, fetchPlaylist]);
+
+  const handleUnassignFromScreens = useCallback(async () => {
+    if (!currentPlaylist) return false;
+
+    const unassignedIds = await unassignFromScreens(currentPlaylist.id);
+    if (!unassignedIds) return false;
+
+    toast.success(`Playlist "${currentPlaylist.name}" unassigned from ${unassignedIds.length} screen${unassignedIds.length === 1 ? '' : 's'}`);
+    return true;
+  }, [currentPlaylist, unassignFromScreens]);
 
   // Drag and drop handlers
   const handleDragStart = useCallback((event: DragStartEvent) => {
-    setActiveId(String(event.active.id));
-  }, []);
+    const id = String(event.active.id);
+    setActiveId(id);
+
+    if (currentPlaylist && id.startsWith('playlist-item-')) {
+      setItemActivity(currentPlaylist.id, id.replace('playlist-item-', ''), 'dragging');
+    }
+  }, [currentPlaylist, setItemActivity]);
+
+  const handleDragCancel = useCallback(() => {
+    if (currentPlaylist && activeId?.startsWith('playlist-item-')) {
+      setItemActivity(currentPlaylist.id, null);
+    }
+    setActiveId(null);
+  }, [currentPlaylist, activeId, setItemActivity]);
 
   const handleDragEnd = useCallback(async (event: DragEndEvent) => {
     const { active, over } = event;
     setActiveId(null);
 
+    if (currentPlaylist && String(active.id).startsWith('playlist-item-')) {
+      setItemActivity(currentPlaylist.id, null);
+    }
+
     if (!over) return;
 
     const activeId = String(active.id);
@@ -912,7 +1122,15 @@ export function PlaylistEditor() {
         await handleReorderItems(newItems);
       }
     }
-  }, [currentPlaylist, handleAddMediaToPlaylist, handleReorderItems]);
+  }, [currentPlaylist, setItemActivity, handleAddMediaToPlaylist, handleReorderItems]);
+
+  const handleEditItemSettings = useCallback((item: PlaylistItem) => {
+    setEditingItemId(getItemKey(item));
+  }, []);
+
+  const handleCloseItemSettings = useCallback(() => {
+    setEditingItemId(null);
+  }, []);
 
   const handleDragOver = useCallback((event: DragOverEvent) => {
     // Handle drag over logic if needed
@@ -935,11 +1153,28 @@ export function PlaylistEditor() {
         e.preventDefault();
         handleDuplicatePlaylist();
       }
+      // Ctrl+Z - Undo, Ctrl+Shift+Z - Redo; text fields keep their own undo
+      const target = e.target as HTMLElement | null;
+      const isEditingText = !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName));
+      if (e.ctrlKey && e.key.toLowerCase() === 'z' && !isEditingText) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+      }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [selectedItem, handleSavePlaylist, handleRemoveFromPlaylist, handleDuplicatePlaylist]);
+  }, [selectedItem, handleSavePlaylist, handleRemoveFromPlaylist, handleDuplicatePlaylist, handleUndo, handleRedo]);
+
+  // Undo history and the open item belong to the playlist they were made in
+  useEffect(() => {
+    clearEditHistory();
+    setEditingItemId(null);
+  }, [currentPlaylist?.id, clearEditHistory]);
 
   // Clear errors on mount and show errors
   useEffect(() => {
@@ -996,6 +1231,7 @@ export function PlaylistEditor() {
       onDragStart={handleDragStart}
       onDragOver={handleDragOver}
       onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
     >
       <div className="space-y-6">
         {/* Header */}
@@ -1025,6 +1261,7 @@ export function PlaylistEditor() {
               {/* Active Users */}
               {currentPlaylist && activeUsers[currentPlaylist.id] && activeUsers[currentPlaylist.id].length > 0 && (
                 <div className="flex items-center gap-1">
+                  <PlaylistPresenceAvatars users={presence?.users || []} currentUserId={user?.id} className="ml-1 mr-1" />
                   <span className="text-xs text-muted-foreground">•</span>
                   <span className="text-xs text-muted-foreground">
                     {activeUsers[currentPlaylist.id].length} user{activeUsers[currentPlaylist.id].length !== 1 ? 's' : ''} active
@@ -1039,21 +1276,67 @@ export function PlaylistEditor() {
                   <span className="text-xs">Conflict</span>
                 </div>
               )}
+
+              {/* Read-only Indicator */}
+              {readOnly && (
+                <Badge variant="secondary" className="gap-1" title="You can view this playlist but not change it">
+                  <Eye className="h-3 w-3" />
+                  View only
+                </Badge>
+              )}
             </div>
             <p className="text-muted-foreground">Create and manage content playlists for your displays</p>
           </div>
           <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleUndo}
+              disabled={readOnly || undoStack.length === 0}
+              title={undoStack.length > 0 ? `Undo ${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleRedo}
+              disabled={readOnly || redoStack.length === 0}
+              title={redoStack.length > 0 ? `Redo ${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
             <Button variant="outline" onClick={() => setShowPreview(true)} disabled={!currentPlaylist}>
               <Play className="h-4 w-4 mr-2" />
               Preview
             </Button>
-            <Button variant="outline" onClick={() => setShowAssignment(true)} disabled={!currentPlaylist}>
+            <Button variant="outline" onClick={() => setShowHistory(true)} disabled={!currentPlaylist}>
+              <History className="h-4 w-4 mr-2" />
+              History
+            </Button>
+            <Button variant="outline" onClick={() => setShowShare(true)} disabled={!currentPlaylist}>
+              <Share2 className="h-4 w-4 mr-2" />
+              Share
+            </Button>
+            {requireApproval && (
+              <Button variant="outline" onClick={() => setShowApproval(true)} disabled={!currentPlaylist}>
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Review
+              </Button>
+            )}
+            {requireApproval && canApprove && (
+              <Button variant="outline" onClick={() => setShowApprovalQueue(true)}>
+                <Inbox className="h-4 w-4 mr-2" />
+                Review Queue
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setShowAssignment(true)} disabled={!currentPlaylist || !canPublish}>
               <Monitor className="h-4 w-4 mr-2" />
               Assign to Screens
             </Button>
             <Button 
               onClick={handleSavePlaylist} 
-              disabled={!currentPlaylist || !formChanged}
+              disabled={!currentPlaylist || !formChanged || readOnly}
               variant={formChanged ? "default" : "outline"}
             >
               {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
@@ -1114,16 +1397,19 @@ export function PlaylistEditor() {
                     <Badge variant={currentPlaylist.isActive ? "default" : "secondary"}>
                       {currentPlaylist.isActive ? 'Active' : 'Inactive'}
                     </Badge>
+                    {requireApproval && (
+                      <Badge variant="outline">{APPROVAL_STATUS_LABELS[approvalStatus]}</Badge>
+                    )}
                   </div>
                 )}
               </div>
 
               <div className="flex gap-2">
-                <Button variant="outline" size="sm" onClick={handleDuplicatePlaylist} disabled={!currentPlaylist}>
+                <Button variant="outline" size="sm" onClick={handleDuplicatePlaylist} disabled={!currentPlaylist || !canCreate}>
                   <Copy className="h-4 w-4 mr-2" />
                   Duplicate
                 </Button>
-                <Button variant="outline" size="sm" onClick={handleCreateNewPlaylist}>
+                <Button variant="outline" size="sm" onClick={handleCreateNewPlaylist} disabled={!canCreate}>
                   <Plus className="h-4 w-4 mr-2" />
                   New Playlist
                 </Button>
@@ -1150,6 +1436,7 @@ export function PlaylistEditor() {
                     value={playlistName}
                     onChange={(e) => handleNameChange(e.target.value)}
                     placeholder="Enter playlist name..."
+                    disabled={readOnly}
                     className={formChanged ? "border-orange-300" : ""}
                   />
                 </div>
@@ -1161,6 +1448,7 @@ export function PlaylistEditor() {
                       id="playlist-active"
                       checked={playlistIsActive}
                       onCheckedChange={handleActiveChange}
+                      disabled={readOnly}
                     />
                     <Label htmlFor="playlist-active" className="text-sm">
                       {playlistIsActive ? 'Active' : 'Inactive'}
@@ -1177,6 +1465,7 @@ export function PlaylistEditor() {
                   onChange={(e) => handleDescriptionChange(e.target.value)}
                   placeholder="Enter playlist description..."
                   rows={3}
+                  disabled={readOnly}
                   className={formChanged ? "border-orange-300" : ""}
                 />
               </div>
@@ -1240,12 +1529,15 @@ export function PlaylistEditor() {
                   <div
                     key={item._id}
                     id={`media-${item._id}`}
-                    draggable
+                    draggable={!readOnly}
                     onDragStart={(e) => {
                       e.dataTransfer.setData('text/plain', `media-${item._id}`);
                       e.dataTransfer.effectAllowed = 'copy';
                     }}
-                    className="flex items-center gap-3 p-3 border rounded-lg cursor-grab hover:bg-muted/50 active:cursor-grabbing transition-colors group"
+                    className={cn(
+                      "flex items-center gap-3 p-3 border rounded-lg hover:bg-muted/50 transition-colors group",
+                      !readOnly && "cursor-grab active:cursor-grabbing"
+                    )}
                   >
                     <div className="w-12 h-12 rounded border overflow-hidden bg-muted flex-shrink-0">
                       <img
@@ -1298,7 +1590,7 @@ export function PlaylistEditor() {
                   {currentPlaylist?.name || "Select a playlist"}
                 </h3>
                 {currentPlaylist && (
-                  <Button variant="outline" size="sm" onClick={() => setShowSettings(true)}>
+                  <Button variant="outline" size="sm" onClick={() => setShowSettings(true)} disabled={readOnly}>
                     <Settings className="h-4 w-4 mr-2" />
                     Settings
                   </Button>
@@ -1317,7 +1609,9 @@ export function PlaylistEditor() {
                           </div>
                           <h4 className="font-medium mb-2">Empty Playlist</h4>
                           <p className="text-sm text-muted-foreground">
-                            Drag media files from the library to add them to this playlist
+                            {readOnly
+                              ? 'This playlist has no items yet'
+                              : 'Drag media files from the library to add them to this playlist'}
                           </p>
                         </div>
                       </div>
@@ -1343,6 +1637,10 @@ export function PlaylistEditor() {
                               onMoveDown={handleMoveDown}
                               canMoveUp={index > 0}
                               canMoveDown={index < currentPlaylist.items.length - 1}
+                              readOnly={readOnly}
+                              collaborators={collaboratorsByItem.get(getItemKey(item))}
+                              lock={foreignLocks.get(getItemKey(item))}
+                              onEditSettings={handleEditItemSettings}
                             />
                           ))}
                         </div>
@@ -1434,6 +1732,7 @@ export function PlaylistEditor() {
           isOpen={showAssignment}
           onClose={() => setShowAssignment(false)}
           onAssign={handleAssignToScreens}
+          onUnassignAll={handleUnassignFromScreens}
         />
 
         <PlaylistSettings
@@ -1442,6 +1741,40 @@ export function PlaylistEditor() {
           onClose={() => setShowSettings(false)}
         />
 
+        <PlaylistHistory
+          playlist={currentPlaylist}
+          isOpen={showHistory}
+          onClose={() => setShowHistory(false)}
+          readOnly={readOnly}
+        />
+
+        <PlaylistShareDialog
+          playlist={currentPlaylist}
+          isOpen={showShare}
+          onClose={() => setShowShare(false)}
+        />
+
+        <PlaylistApprovalDialog
+          playlist={currentPlaylist}
+          isOpen={showApproval && requireApproval}
+          onClose={() => setShowApproval(false)}
+          canEdit={!readOnly}
+          unsavedChanges={formChanged}
+        />
+
+        <ApprovalQueueDialog
+          isOpen={showApprovalQueue && requireApproval && canApprove}
+          onClose={() => setShowApprovalQueue(false)}
+          onReview={handleReviewPlaylist}
+        />
+
+        <PlaylistItemSettingsDialog
+          playlist={currentPlaylist}
+          item={currentPlaylist?.items.find(item => getItemKey(item) === editingItemId) || null}
+          isOpen={!!editingItemId && !readOnly}
+          onClose={handleCloseItemSettings}
+        />
+
         {/* Conflict Resolution Dialog */}
         <ConflictResolutionDialog
           isOpen={showConflictDialog}
@@ -1450,8 +1783,10 @@ export function PlaylistEditor() {
             clearConflict();
           }}
           conflictData={conflictResolution}
-          onResolve={(resolution) => {
-            handleConflictResolution(resolution);
+          onResolve={(resolution, choices) => {
+            handleConflictResolution(resolution, choices).catch(() => {
+              toast.error('Failed to save the merged playlist');
+            });
             setShowConflictDialog(false);
           }}
         />
@@ -0,0 +1,468 @@
+/**
+ * Playlist History Component
+ *
+ * Lists every saved revision of a playlist with its author and change
+ * summary, shows what changed between any two revisions (details, items,
+ * durations, settings and schedule), and restores an earlier revision.
+ * A restore is saved as a new revision, so it can itself be undone.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { ScrollArea } from './ui/scroll-area';
+import { Separator } from './ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  History,
+  RotateCcw,
+  Plus,
+  Minus,
+  MoveVertical,
+  Pencil,
+  ArrowRight,
+  Loader2,
+  AlertCircle
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '../lib/utils';
+import { usePlaylistStore } from '../stores/usePlaylistStore';
+import {
+  getPlaylistRevisions,
+  comparePlaylistRevisions,
+  getPlaylistErrorMessage,
+  isPlaylistConflictError,
+} from '../services/playlistAPI';
+import type {
+  Playlist,
+  PlaylistRevision,
+  PlaylistRevisionComparison,
+  PlaylistRevisionFieldChange,
+} from '../types';
+
+interface PlaylistHistoryProps {
+  playlist: Playlist | null;
+  isOpen: boolean;
+  onClose: () => void;
+  readOnly?: boolean; // Viewers can browse history but not restore
+}
+
+const PAGE_SIZE = 25;
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Readable form of a value from a revision diff
+ */
+function formatDiffValue(path: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return path.endsWith('duration') ? 'Media default' : '—';
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (path.endsWith('duration') && typeof value === 'number') return `${value}s`;
+  if (path.endsWith('Date') && typeof value === 'string') return new Date(value).toLocaleDateString();
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'None';
+    if (path === 'schedule.daysOfWeek') return value.map(day => DAY_NAMES[day] ?? day).join(', ');
+    if (path === 'schedule.timeSlots') {
+      return value.map(slot => `${slot.startTime}–${slot.endTime}`).join(', ');
+    }
+    if (path === 'conditions') return `${value.length} condition${value.length !== 1 ? 's' : ''}`;
+    return value.join(', ');
+  }
+
+  if (typeof value === 'object') {
+    const transition = value as { type?: string; duration?: number };
+    if (transition.type) return `${transition.type} (${transition.duration ?? 0}s)`;
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
+
+function formatAuthor(revision: PlaylistRevision): string {
+  return revision.author?.name || revision.author?.email || 'Unknown user';
+}
+
+export function PlaylistHistory({ playlist, isOpen, onClose, readOnly = false }: PlaylistHistoryProps) {
+  const restorePlaylistRevision = usePlaylistStore((state) => state.restorePlaylistRevision);
+
+  const [revisions, setRevisions] = useState<PlaylistRevision[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<PlaylistRevisionComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  const [restoreTarget, setRestoreTarget] = useState<PlaylistRevision | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const playlistId = playlist?.id;
+  const latestVersion = revisions[0]?.version;
+
+  const loadRevisions = useCallback(async (pageToLoad: number) => {
+    if (!playlistId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data } = await getPlaylistRevisions(playlistId, { page: pageToLoad, limit: PAGE_SIZE });
+      setRevisions(previous => pageToLoad === 1 ? data.revisions : [...previous, ...data.revisions]);
+      setPage(pageToLoad);
+      setHasMore(pageToLoad < data.pagination.pages);
+
+      // Start by showing what the latest save changed
+      if (pageToLoad === 1 && data.revisions.length > 0) {
+        setSelectedVersion(data.revisions[0].version);
+        setCompareVersion(data.revisions[1]?.version ?? null);
+      }
+    } catch (loadError) {
+      setError(getPlaylistErrorMessage(loadError));
+    } finally {
+      setLoading(false);
+    }
+  }, [playlistId]);
+
+  // Reload whenever the dialog opens or the playlist is saved again
+  useEffect(() => {
+    if (isOpen) {
+      loadRevisions(1);
+    }
+  }, [isOpen, playlist?.version, loadRevisions]);
+
+  useEffect(() => {
+    if (!playlistId || selectedVersion === null || compareVersion === null) {
+      setComparison(null);
+      return;
+    }
+
+    let cancelled = false;
+    const [from, to] = compareVersion < selectedVersion
+      ? [compareVersion, selectedVersion]
+      : [selectedVersion, compareVersion];
+
+    setComparing(true);
+    comparePlaylistRevisions(playlistId, from, to)
+      .then(result => {
+        if (!cancelled) setComparison(result);
+      })
+      .catch(compareError => {
+        if (!cancelled) {
+          setComparison(null);
+          toast.error(getPlaylistErrorMessage(compareError));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setComparing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [playlistId, selectedVersion, compareVersion]);
+
+  const selectRevision = (revision: PlaylistRevision, index: number) => {
+    setSelectedVersion(revision.version);
+    // Compare with the revision before it unless that would compare it with itself
+    const previous = revisions[index + 1]?.version ?? null;
+    setCompareVersion(compareVersion === null || compareVersion === revision.version ? previous : compareVersion);
+  };
+
+  const handleRestore = async () => {
+    if (!playlistId || !restoreTarget) return;
+
+    setRestoring(true);
+    try {
+      const { message, skippedItems } = await restorePlaylistRevision(playlistId, restoreTarget.version);
+      if (skippedItems > 0) {
+        toast.warning(message);
+      } else {
+        toast.success(message);
+      }
+      setRestoreTarget(null);
+    } catch (restoreError) {
+      toast.error(isPlaylistConflictError(restoreError)
+        ? 'Someone else just saved this playlist. Check the latest version, then restore again.'
+        : getPlaylistErrorMessage(restoreError));
+      setRestoreTarget(null);
+      loadRevisions(1);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const mediaName = (mediaId: string) =>
+    comparison?.media[mediaId]?.originalName || 'Deleted media';
+
+  const renderFieldChanges = (title: string, changes: PlaylistRevisionFieldChange[]) => {
+    if (changes.length === 0) return null;
+
+    return (
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold">{title}</h4>
+        {changes.map(change => (
+          <div key={change.path} className="grid grid-cols-[8rem_1fr] gap-2 text-sm">
+            <span className="text-muted-foreground">{change.label}</span>
+            <span className="flex items-center gap-2 min-w-0">
+              <span className="line-through text-muted-foreground truncate">{formatDiffValue(change.path, change.from)}</span>
+              <ArrowRight className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+              <span className="truncate">{formatDiffValue(change.path, change.to)}</span>
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderDiff = () => {
+    if (comparing) {
+      return (
+        <div className="flex items-center justify-center py-12 text-muted-foreground">
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+          Comparing versions...
+        </div>
+      );
+    }
+
+    if (!comparison) {
+      return (
+        <div className="py-12 text-center text-sm text-muted-foreground">
+          {revisions.length < 2 ? 'Save the playlist again to have versions to compare.' : 'Pick two versions to compare.'}
+        </div>
+      );
+    }
+
+    const { diff } = comparison;
+    const { added, removed, moved, changed } = diff.items;
+    const hasItemChanges = added.length + removed.length + moved.length + changed.length > 0;
+
+    if (!diff.hasChanges) {
+      return (
+        <div className="py-12 text-center text-sm text-muted-foreground">
+          Versions {comparison.from.version} and {comparison.to.version} have the same content.
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-5">
+        <p className="text-sm text-muted-foreground">{comparison.summary}</p>
+
+        {renderFieldChanges('Details', diff.details)}
+
+        {hasItemChanges && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Items</h4>
+            {added.map(item => (
+              <div key={`added-${item.itemId}`} className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+                <Plus className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate">{mediaName(item.mediaId)}</span>
+                <span className="text-muted-foreground">at position {item.position + 1}</span>
+              </div>
+            ))}
+            {removed.map(item => (
+              <div key={`removed-${item.itemId}`} className="flex items-center gap-2 text-sm text-red-700 dark:text-red-400">
+                <Minus className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate">{mediaName(item.mediaId)}</span>
+                <span className="text-muted-foreground">from position {item.position + 1}</span>
+              </div>
+            ))}
+            {moved.map(item => (
+              <div key={`moved-${item.itemId}`} className="flex items-center gap-2 text-sm">
+                <MoveVertical className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                <span className="truncate">{mediaName(item.mediaId)}</span>
+                <span className="text-muted-foreground">moved from {item.from + 1} to {item.to + 1}</span>
+              </div>
+            ))}
+            {changed.map(change => (
+              <div key={`changed-${change.itemId}-${change.field}`} className="flex items-center gap-2 text-sm min-w-0">
+                <Pencil className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                <span className="truncate">{mediaName(change.mediaId)}</span>
+                <span className="text-muted-foreground">{change.label.toLowerCase()}</span>
+                <span className="line-through text-muted-foreground truncate">
+                  {change.field === 'mediaId' ? mediaName(String(change.from)) : formatDiffValue(change.field, change.from)}
+                </span>
+                <ArrowRight className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                <span className="truncate">
+                  {change.field === 'mediaId' ? mediaName(String(change.to)) : formatDiffValue(change.field, change.to)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {renderFieldChanges('Settings', diff.settings)}
+        {renderFieldChanges('Schedule', diff.schedule)}
+      </div>
+    );
+  };
+
+  const selectedRevision = revisions.find(revision => revision.version === selectedVersion);
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-5xl max-h-[85vh]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Version History
+            </DialogTitle>
+            <DialogDescription>
+              Every save of "{playlist?.name}" is kept. Compare any two versions or restore an earlier one.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error ? (
+            <div className="flex items-center gap-2 text-sm text-destructive py-8 justify-center">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+              <Button variant="outline" size="sm" onClick={() => loadRevisions(1)}>
+                Retry
+              </Button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-[18rem_1fr] gap-4 min-h-0">
+              {/* Revision List */}
+              <ScrollArea className="h-[60vh] border rounded-lg">
+                <div className="p-2 space-y-1">
+                  {revisions.map((revision, index) => (
+                    <button
+                      key={revision.id}
+                      type="button"
+                      onClick={() => selectRevision(revision, index)}
+                      className={cn(
+                        'w-full text-left rounded-md p-3 transition-colors',
+                        revision.version === selectedVersion
+                          ? 'bg-primary/10 border border-primary'
+                          : revision.version === compareVersion
+                            ? 'bg-muted border border-dashed'
+                            : 'border border-transparent hover:bg-muted/50'
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-sm">Version {revision.version}</span>
+                        {revision.version === latestVersion && <Badge variant="secondary">Current</Badge>}
+                        {revision.restoredFrom && <Badge variant="outline">Restore</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1 line-clamp-2">{revision.summary}</div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {formatAuthor(revision)} · {new Date(revision.createdAt).toLocaleString()}
+                      </div>
+                    </button>
+                  ))}
+
+                  {loading && (
+                    <div className="flex items-center justify-center py-4 text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    </div>
+                  )}
+
+                  {!loading && revisions.length === 0 && (
+                    <div className="py-8 text-center text-sm text-muted-foreground">
+                      No saved versions yet.
+                    </div>
+                  )}
+
+                  {!loading && hasMore && (
+                    <Button variant="ghost" size="sm" className="w-full" onClick={() => loadRevisions(page + 1)}>
+                      Load older versions
+                    </Button>
+                  )}
+                </div>
+              </ScrollArea>
+
+              {/* Diff View */}
+              <div className="flex flex-col min-h-0 border rounded-lg">
+                <div className="flex items-center justify-between gap-2 p-3">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span>Version {selectedVersion ?? '—'} compared with</span>
+                    <Select
+                      value={compareVersion?.toString() ?? ''}
+                      onValueChange={(value) => setCompareVersion(Number(value))}
+                      disabled={revisions.length < 2}
+                    >
+                      <SelectTrigger className="w-36 h-8">
+                        <SelectValue placeholder="Pick a version" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {revisions
+                          .filter(revision => revision.version !== selectedVersion)
+                          .map(revision => (
+                            <SelectItem key={revision.id} value={revision.version.toString()}>
+                              Version {revision.version}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {!readOnly && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!selectedRevision || selectedRevision.version === latestVersion || restoring}
+                      onClick={() => selectedRevision && setRestoreTarget(selectedRevision)}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore version {selectedVersion ?? ''}
+                    </Button>
+                  )}
+                </div>
+                <Separator />
+                <ScrollArea className="h-[calc(60vh-3.5rem)]">
+                  <div className="p-4">
+                    {renderDiff()}
+                  </div>
+                </ScrollArea>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!restoreTarget} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {restoreTarget?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The playlist's details, items, settings and schedule go back to how they were in
+              version {restoreTarget?.version}. Screens playing it update straight away. The current
+              content stays in the history, so you can restore it again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                handleRestore();
+              }}
+              disabled={restoring}
+            >
+              {restoring && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+export default PlaylistHistory;
@@ -0,0 +1,312 @@
+/**
+ * Playlist Item Settings Dialog
+ *
+ * Edits one item's duration, transition and the conditions under which it
+ * plays (time of day, dates, days, screen attributes, data feeds). While the dialog is open the
+ * item is soft-locked, so other editors see who is changing it and keep off
+ * it until the dialog closes.
+ */
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Clock, Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { usePlaylistStore } from '../stores/usePlaylistStore';
+import { getItemKey } from '../services/playlistMerge';
+import { describePlaylistItem } from '../services/playlistHistory';
+import { CONDITION_OPERATORS, CONDITION_TYPES, describeCondition, validateCondition } from '../services/playlistConditions';
+import type {
+  Playlist,
+  PlaylistCondition,
+  PlaylistConditionOperator,
+  PlaylistConditionType,
+  PlaylistItem,
+  PlaylistTransitionType,
+} from '../types';
+
+interface PlaylistItemSettingsDialogProps {
+  playlist: Playlist | null;
+  item: PlaylistItem | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Items without a transition of their own enter with the playlist's default
+const TRANSITION_OPTIONS: Array<{ value: PlaylistTransitionType; label: string }> = [
+  { value: 'none', label: 'Playlist default' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide-left', label: 'Slide left' },
+  { value: 'slide-right', label: 'Slide right' },
+  { value: 'slide-up', label: 'Slide up' },
+  { value: 'slide-down', label: 'Slide down' },
+  { value: 'zoom-in', label: 'Zoom in' },
+  { value: 'zoom-out', label: 'Zoom out' },
+];
+
+// Example value for each condition type, shown as the value placeholder
+const CONDITION_PLACEHOLDERS: Record<PlaylistConditionType, string> = {
+  'time-range': '11:00 or 06:00,11:00',
+  'date-range': '2026-12-24',
+  'day-of-week': 'mon,tue,wed',
+  'weather': 'rain',
+  'custom': 'north',
+  'data': '10',
+};
+
+export function PlaylistItemSettingsDialog({ playlist, item, isOpen, onClose }: PlaylistItemSettingsDialogProps) {
+  const { lockPlaylistItem, unlockPlaylistItem, updatePlaylistItemSettings } = usePlaylistStore();
+
+  const [duration, setDuration] = useState('');
+  const [transitionType, setTransitionType] = useState<PlaylistTransitionType>('none');
+  const [transitionDuration, setTransitionDuration] = useState('0.5');
+  const [conditions, setConditions] = useState<PlaylistCondition[]>([]);
+  const [locked, setLocked] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const playlistId = playlist?.id;
+  const itemId = item ? getItemKey(item) : undefined;
+
+  // Hold the item's lock for as long as the dialog is open
+  useEffect(() => {
+    if (!isOpen || !playlistId || !itemId) return;
+
+    let cancelled = false;
+    setLocked(false);
+
+    lockPlaylistItem(playlistId, itemId).then((result) => {
+      if (cancelled) return;
+      if (!result.success) {
+        toast.error(result.message || 'Someone else is editing this item');
+        onClose();
+        return;
+      }
+      setLocked(true);
+    });
+
+    return () => {
+      cancelled = true;
+      unlockPlaylistItem(playlistId, itemId);
+    };
+  }, [isOpen, playlistId, itemId, lockPlaylistItem, unlockPlaylistItem, onClose]);
+
+  useEffect(() => {
+    if (isOpen && item) {
+      setDuration(item.duration ? String(item.duration) : '');
+      setTransitionType(item.transitions?.type || 'none');
+      setTransitionDuration(String(item.transitions?.duration ?? 0.5));
+      setConditions((item.conditions || []).map(({ type, operator, key, value }) => ({ type, operator, key, value })));
+    }
+  }, [isOpen, item]);
+
+  const durationValue = duration.trim() === '' ? null : Number(duration);
+  const transitionValue = Number(transitionDuration);
+  const durationError = durationValue !== null && (!Number.isFinite(durationValue) || durationValue < 1 || durationValue > 7200)
+    ? 'Enter 1 to 7200 seconds, or leave empty to use the media length'
+    : null;
+  const transitionError = !Number.isFinite(transitionValue) || transitionValue < 0.1 || transitionValue > 5
+    ? 'Enter 0.1 to 5 seconds'
+    : null;
+  const conditionErrors = conditions.map(validateCondition);
+  const hasConditionError = conditionErrors.some(Boolean);
+
+  const updateCondition = (index: number, changes: Partial<PlaylistCondition>) => {
+    setConditions(current => current.map((condition, position) => {
+      if (position !== index) return condition;
+      const next = { ...condition, ...changes };
+      // Only custom and data conditions compare a named value
+      return next.type === 'custom' || next.type === 'data' ? next : { ...next, key: undefined };
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!playlistId || !itemId || durationError || transitionError || hasConditionError) return;
+
+    setSaving(true);
+    try {
+      await updatePlaylistItemSettings(playlistId, itemId, {
+        duration: durationValue,
+        transitions: { type: transitionType, duration: transitionValue },
+        conditions: conditions.map(condition => ({ ...condition, value: condition.value.trim(), key: condition.key?.trim() })),
+      });
+      toast.success('Item updated');
+      onClose();
+    } catch (error) {
+      console.error('Failed to update playlist item:', error);
+      toast.error('Failed to update item');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            {item ? describePlaylistItem(item) : 'Item settings'}
+          </DialogTitle>
+          <DialogDescription>
+            Others editing this playlist see this item as locked while you have it open.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="item-duration">Duration (seconds)</Label>
+            <Input
+              id="item-duration"
+              type="number"
+              min={1}
+              max={7200}
+              placeholder="Playlist default"
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              disabled={!locked || saving}
+            />
+            {durationError && <p className="text-xs text-destructive">{durationError}</p>}
+            {playlist?.settings?.allowDurationOverride === false && (
+              <p className="text-xs text-muted-foreground">This playlist ignores item durations; change it in the playlist settings.</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Transition</Label>
+              <Select
+                value={transitionType}
+                onValueChange={(value) => setTransitionType(value as PlaylistTransitionType)}
+                disabled={!locked || saving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRANSITION_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="item-transition-duration">Transition length (s)</Label>
+              <Input
+                id="item-transition-duration"
+                type="number"
+                min={0.1}
+                max={5}
+                step={0.1}
+                value={transitionDuration}
+                onChange={(e) => setTransitionDuration(e.target.value)}
+                disabled={!locked || saving || transitionType === 'none'}
+              />
+              {transitionError && <p className="text-xs text-destructive">{transitionError}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Play only when</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setConditions(current => [...current, { type: 'time-range', operator: 'less-than', value: '' }])}
+                disabled={!locked || saving}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add condition
+              </Button>
+            </div>
+
+            {conditions.length === 0 && (
+              <p className="text-xs text-muted-foreground">Plays whenever the playlist does.</p>
+            )}
+
+            {conditions.map((condition, index) => (
+              <div key={index} className="space-y-1 rounded-md border p-2">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={condition.type}
+                    onValueChange={(value) => updateCondition(index, { type: value as PlaylistConditionType })}
+                    disabled={!locked || saving}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONDITION_TYPES.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {(condition.type === 'custom' || condition.type === 'data') && (
+                    <Input
+                      className="w-28"
+                      placeholder={condition.type === 'data' ? 'queue.length' : 'region'}
+                      value={condition.key || ''}
+                      onChange={(e) => updateCondition(index, { key: e.target.value })}
+                      disabled={!locked || saving}
+                    />
+                  )}
+                  <Select
+                    value={condition.operator}
+                    onValueChange={(value) => updateCondition(index, { operator: value as PlaylistConditionOperator })}
+                    disabled={!locked || saving}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONDITION_OPERATORS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    className="flex-1"
+                    placeholder={CONDITION_PLACEHOLDERS[condition.type]}
+                    value={condition.value}
+                    maxLength={100}
+                    onChange={(e) => updateCondition(index, { value: e.target.value })}
+                    disabled={!locked || saving}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setConditions(current => current.filter((_, position) => position !== index))}
+                    disabled={!locked || saving}
+                    title="Remove condition"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {conditionErrors[index] ? (
+                  <p className="text-xs text-destructive">{conditionErrors[index]}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">{describeCondition(condition)}</p>
+                )}
+              </div>
+            ))}
+
+            {conditions.length > 1 && (
+              <p className="text-xs text-muted-foreground">The item plays only while every condition holds.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!locked || saving || !!durationError || !!transitionError || hasConditionError}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
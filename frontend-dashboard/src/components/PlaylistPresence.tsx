@@ -0,0 +1,76 @@
+/**
+ * Playlist Presence
+ *
+ * Avatars of everyone with the playlist open, ringed in their presence
+ * colour while they are editing or dragging an item.
+ */
+
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { cn } from '../lib/utils';
+import { getPresenceColor, getPresenceName } from '../services/playlistPresence';
+import type { PlaylistPresenceUser } from '../services/socketService';
+
+const MAX_AVATARS = 5;
+
+function getInitials(person: PlaylistPresenceUser): string {
+  return getPresenceName(person)
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0]?.toUpperCase())
+    .join('');
+}
+
+interface PlaylistPresenceAvatarsProps {
+  users: PlaylistPresenceUser[];
+  currentUserId?: string;
+  className?: string;
+}
+
+/**
+ * One avatar per person with the playlist open, however many tabs they use
+ */
+export function PlaylistPresenceAvatars({ users, currentUserId, className }: PlaylistPresenceAvatarsProps) {
+  const people = Array.from(
+    users.reduce((byUser, user) => {
+      // Prefer a tab that is doing something, so its activity shows in the tooltip
+      const existing = byUser.get(user.userId);
+      if (!existing || (!existing.activity && user.activity)) {
+        byUser.set(user.userId, user);
+      }
+      return byUser;
+    }, new Map<string, PlaylistPresenceUser>()).values()
+  );
+
+  if (people.length === 0) return null;
+
+  const shown = people.slice(0, MAX_AVATARS);
+  const hidden = people.slice(MAX_AVATARS);
+
+  return (
+    <div className={cn('flex items-center -space-x-2', className)}>
+      {shown.map(person => {
+        const color = getPresenceColor(person.userId);
+        const isSelf = person.userId === currentUserId;
+        const activity = person.activity === 'dragging' ? 'moving an item' : person.activity === 'editing' ? 'editing an item' : 'viewing';
+
+        return (
+          <Avatar
+            key={person.userId}
+            className={cn('h-7 w-7 ring-2 ring-background', person.activity && color.ring)}
+            title={`${getPresenceName(person)}${isSelf ? ' (you)' : ''} – ${activity}`}
+          >
+            <AvatarFallback className={cn('text-[10px] font-medium text-white', color.bg)}>
+              {getInitials(person)}
+            </AvatarFallback>
+          </Avatar>
+        );
+      })}
+      {hidden.length > 0 && (
+        <Avatar className="h-7 w-7 ring-2 ring-background" title={hidden.map(getPresenceName).join(', ')}>
+          <AvatarFallback className="text-[10px]">+{hidden.length}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog";
 import { Button } from "./ui/button";
 import { Progress } from "./ui/progress";
@@ -8,6 +8,7 @@ import { Card, CardContent } from "./ui/card";
 import { Slider } from "./ui/slider";
 import { Switch } from "./ui/switch";
 import { Label } from "./ui/label";
+import { Input } from "./ui/input";
 import { Badge } from "./ui/badge";
 import { Separator } from "./ui/separator";
 import { 
@@ -25,9 +26,18 @@ import {
   Image,
   Video,
   Clock,
-  Monitor
+  Monitor,
+  CalendarClock
 } from "lucide-react";
 import { cn } from "../lib/utils";
+import { describeCondition, getUnmetConditions, type PlaylistConditionContext } from "../services/playlistConditions";
+import {
+  PLAYLIST_TRANSITION_CLASSES,
+  getItemDuration,
+  getItemTransition,
+  getTransitionStyle,
+  resolvePlaylistSettings,
+} from "../services/playlistSettings";
 
 // Import types from the main types file
 import type { Playlist as PlaylistType, PlaylistItem as PlaylistItemType, MediaItem } from '../types';
@@ -54,6 +64,42 @@ function extractMediaFromItem(item: PlaylistItemType): MediaItem | null {
   return null;
 }
 
+// How often the live clock is re-read for item conditions
+const CONDITION_CHECK_INTERVAL_MS = 30 * 1000;
+
+// Attributes typed as "region=north, tags=lobby"; a repeated key collects a list
+function parseSimulatedAttributes(text: string): Record<string, string | string[]> {
+  return text.split(',').reduce<Record<string, string | string[]>>((attributes, pair) => {
+    const [key, ...rest] = pair.split('=');
+    const name = key.trim();
+    const value = rest.join('=').trim();
+    if (!name || !value) return attributes;
+
+    const existing = attributes[name];
+    attributes[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+    return attributes;
+  }, {});
+}
+
+// Feed values typed as "weather.condition=rain, queue.length=12"
+function parseSimulatedData(text: string): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(parseSimulatedAttributes(text))
+      .map(([key, value]) => [key, Array.isArray(value) ? value[value.length - 1] : value])
+  );
+}
+
+// Next index after `from` whose item may play, wrapping if asked; -1 when none
+function findPlayableIndex(playable: boolean[], from: number, step: 1 | -1, wrap = false): number {
+  for (let offset = 1; offset <= playable.length; offset++) {
+    const index = from + step * offset;
+    if (!wrap && (index < 0 || index >= playable.length)) return -1;
+    const wrapped = (index + playable.length) % playable.length;
+    if (playable[wrapped]) return wrapped;
+  }
+  return -1;
+}
+
 interface PlaylistPreviewProps {
   playlist: PlaylistType | null;
   isOpen: boolean;
@@ -93,19 +139,65 @@ export function PlaylistPreview({
     muted: false,
     showInfo: true
   });
+  // Empty means the live clock; otherwise a datetime-local value to preview at
+  const [simulatedTime, setSimulatedTime] = useState('');
+  const [simulatedAttributes, setSimulatedAttributes] = useState('');
+  const [simulatedData, setSimulatedData] = useState('');
+  const [liveNow, setLiveNow] = useState(() => new Date());
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const dialogRef = useRef<HTMLDivElement>(null);
   const currentIndexRef = useRef(currentItemIndex);
 
+  // The simulated time is wall-clock time, so it is read in this browser's
+  // timezone, just as a screen reads its own clock in its own timezone
+  const conditionContext = useMemo<PlaylistConditionContext>(() => ({
+    now: simulatedTime ? new Date(simulatedTime) : liveNow,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    attributes: parseSimulatedAttributes(simulatedAttributes),
+    data: parseSimulatedData(simulatedData),
+  }), [simulatedTime, simulatedAttributes, simulatedData, liveNow]);
+
+  const unmetConditions = useMemo(
+    () => (playlist?.items ?? []).map(item => getUnmetConditions(item, conditionContext)),
+    [playlist, conditionContext]
+  );
+  const playable = useMemo(() => unmetConditions.map(unmet => unmet.length === 0), [unmetConditions]);
+  const playableRef = useRef(playable);
+  const hasPlayableItems = playable.some(Boolean);
+
   const currentItem = playlist?.items[currentItemIndex];
   const currentMedia = extractMediaFromItem(currentItem);
+  const playback = resolvePlaylistSettings(playlist?.settings);
+  const currentTransition = getItemTransition(currentItem?.transitions, playlist?.settings);
   
   // Keep ref in sync with state
   useEffect(() => {
     currentIndexRef.current = currentItemIndex;
   }, [currentItemIndex]);
+
+  useEffect(() => {
+    playableRef.current = playable;
+  }, [playable]);
+
+  useEffect(() => {
+    if (!isOpen || simulatedTime) return;
+    setLiveNow(new Date());
+    const timer = setInterval(() => setLiveNow(new Date()), CONDITION_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, simulatedTime]);
+
+  // Move off an item once its conditions stop holding, as a screen would
+  useEffect(() => {
+    if (playable.length === 0 || playable[currentItemIndex]) return;
+    const next = findPlayableIndex(playable, currentItemIndex - 1, 1, true);
+    if (next >= 0) {
+      setCurrentItemIndex(next);
+      setProgress(0);
+      setCurrentTime(0);
+    }
+  }, [playable, currentItemIndex]);
   
   // Enhanced debugging for current media access
   useEffect(() => {
@@ -153,7 +245,7 @@ export function PlaylistPreview({
       if (!currentItem) return;
       
       const currentMedia = extractMediaFromItem(currentItem);
-      const itemDuration = currentItem.duration || currentMedia?.duration || currentMedia?.videoDuration || 0;
+      const itemDuration = getItemDuration(currentItem, currentMedia, playlist?.settings);
       
       if (itemDuration <= 0) return;
       
@@ -173,13 +265,16 @@ export function PlaylistPreview({
           });
           
           if (settings.autoAdvance) {
-            if (currentIndex < (playlist?.items.length || 0) - 1) {
-              console.log('🎵 Moving to next item:', currentIndex + 1);
-              setCurrentItemIndex(currentIndex + 1);
+            // Items whose conditions do not hold are skipped
+            const nextIndex = findPlayableIndex(playableRef.current, currentIndex, 1);
+            const firstIndex = findPlayableIndex(playableRef.current, -1, 1);
+            if (nextIndex >= 0) {
+              console.log('🎵 Moving to next item:', nextIndex);
+              setCurrentItemIndex(nextIndex);
               return 0; // Reset progress
-            } else if (settings.loop) {
+            } else if (settings.loop && firstIndex >= 0) {
               console.log('🎵 Looping back to start');
-              setCurrentItemIndex(0);
+              setCurrentItemIndex(firstIndex);
               return 0;
             } else {
               // End of playlist
@@ -228,11 +323,11 @@ export function PlaylistPreview({
     });
     
     if (currentItem) {
-      setTimeRemaining(currentItem.duration || currentMedia?.duration || currentMedia?.videoDuration || 0);
+      setTimeRemaining(getItemDuration(currentItem, currentMedia, playlist?.settings));
       setCurrentTime(0);
       setProgress(0);
     }
-  }, [currentItemIndex, currentItem, currentMedia]);
+  }, [currentItemIndex, currentItem, currentMedia, playlist?.settings]);
 
   // Video playback control - sync video element with playback state
   useEffect(() => {
@@ -257,7 +352,7 @@ export function PlaylistPreview({
   useEffect(() => {
     if (videoRef.current && currentMedia?.type === 'video') {
       const video = videoRef.current;
-      const itemDuration = currentItem?.duration || currentMedia?.duration || currentMedia?.videoDuration || 0;
+      const itemDuration = currentItem ? getItemDuration(currentItem, currentMedia, playlist?.settings) : 0;
       
       if (itemDuration > 0) {
         const newTime = (progress / 100) * itemDuration;
@@ -268,7 +363,7 @@ export function PlaylistPreview({
         }
       }
     }
-  }, [progress, currentMedia, currentItem]);
+  }, [progress, currentMedia, currentItem, playlist?.settings]);
 
   // Reset state when dialog opens/closes
   useEffect(() => {
@@ -281,14 +376,19 @@ export function PlaylistPreview({
         order: item.order
       })));
       
-      setCurrentItemIndex(0);
+      const firstIndex = Math.max(0, findPlayableIndex(playableRef.current, -1, 1));
+      setCurrentItemIndex(firstIndex);
       setProgress(0);
       setCurrentTime(0);
       setIsPlaying(autoPlay);
-      if (playlist?.items[0]) {
-        const firstItem = playlist.items[0];
+
+      // Start from the playlist's own playback and display settings
+      const { loop, autoAdvance, showMetadata } = resolvePlaylistSettings(playlist?.settings);
+      setSettings(prev => ({ ...prev, loop, autoAdvance, showInfo: showMetadata }));
+      if (playlist?.items[firstIndex]) {
+        const firstItem = playlist.items[firstIndex];
         const firstMedia = extractMediaFromItem(firstItem);
-        setTimeRemaining(firstItem.duration || firstMedia?.duration || firstMedia?.videoDuration || 0);
+        setTimeRemaining(getItemDuration(firstItem, firstMedia, playlist?.settings));
       }
     } else {
       setIsPlaying(false);
@@ -345,41 +445,45 @@ export function PlaylistPreview({
     setIsPlaying(false);
     setProgress(0);
     setCurrentTime(0);
-    setCurrentItemIndex(0);
-    if (playlist?.items[0]) {
-      const firstItem = playlist.items[0];
+    const firstIndex = Math.max(0, findPlayableIndex(playable, -1, 1));
+    setCurrentItemIndex(firstIndex);
+    if (playlist?.items[firstIndex]) {
+      const firstItem = playlist.items[firstIndex];
       const firstMedia = extractMediaFromItem(firstItem);
-      setTimeRemaining(firstItem.duration || firstMedia?.duration || firstMedia?.videoDuration || 0);
+      setTimeRemaining(getItemDuration(firstItem, firstMedia, playlist?.settings));
     }
-  }, [playlist]);
+  }, [playlist, playable]);
+
+  const nextIndex = findPlayableIndex(playable, currentItemIndex, 1);
+  const previousIndex = findPlayableIndex(playable, currentItemIndex, -1);
 
   const handleNext = useCallback(() => {
-    if (playlist && currentItemIndex < playlist.items.length - 1) {
-      setCurrentItemIndex(prev => prev + 1);
+    if (nextIndex >= 0) {
+      setCurrentItemIndex(nextIndex);
       setProgress(0);
       setCurrentTime(0);
     }
-  }, [playlist, currentItemIndex]);
+  }, [nextIndex]);
 
   const handlePrevious = useCallback(() => {
-    if (currentItemIndex > 0) {
-      setCurrentItemIndex(prev => prev - 1);
+    if (previousIndex >= 0) {
+      setCurrentItemIndex(previousIndex);
       setProgress(0);
       setCurrentTime(0);
     }
-  }, [currentItemIndex]);
+  }, [previousIndex]);
 
   const handleSeek = useCallback((newProgress: number[]) => {
     if (!currentItem) return;
     
     const seekProgress = newProgress[0];
-    const itemDuration = currentItem.duration || currentMedia?.duration || currentMedia?.videoDuration || 0;
+    const itemDuration = getItemDuration(currentItem, currentMedia, playlist?.settings);
     const newTime = (seekProgress / 100) * itemDuration;
     
     setProgress(seekProgress);
     setCurrentTime(newTime);
     setTimeRemaining(itemDuration - newTime);
-  }, [currentItem]);
+  }, [currentItem, currentMedia, playlist?.settings]);
 
   const handleItemSelect = useCallback((index: number) => {
     setCurrentItemIndex(index);
@@ -388,7 +492,7 @@ export function PlaylistPreview({
     if (playlist?.items[index]) {
       const selectedItem = playlist.items[index];
       const selectedMedia = extractMediaFromItem(selectedItem);
-      setTimeRemaining(selectedItem.duration || selectedMedia?.duration || selectedMedia?.videoDuration || 0);
+      setTimeRemaining(getItemDuration(selectedItem, selectedMedia, playlist?.settings));
     }
   }, [playlist]);
 
@@ -438,6 +542,12 @@ export function PlaylistPreview({
                 <Badge variant="outline" className="ml-2">
                   {playlist.items.length} items
                 </Badge>
+                {simulatedTime && (
+                  <Badge variant="secondary" className="gap-1">
+                    <CalendarClock className="h-3 w-3" />
+                    {conditionContext.now.toLocaleString()}
+                  </Badge>
+                )}
               </DialogTitle>
               <DialogDescription>
                 Preview your playlist content and media items
@@ -518,6 +628,45 @@ export function PlaylistPreview({
                     </div>
                   </div>
                 </div>
+                <Separator className="my-4" />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="preview-simulated-time">Preview at</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="preview-simulated-time"
+                        type="datetime-local"
+                        value={simulatedTime}
+                        onChange={(e) => setSimulatedTime(e.target.value)}
+                      />
+                      <Button variant="outline" size="sm" onClick={() => setSimulatedTime('')} disabled={!simulatedTime}>
+                        Now
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="preview-attributes">Screen attributes</Label>
+                    <Input
+                      id="preview-attributes"
+                      placeholder="region=north, tags=lobby"
+                      value={simulatedAttributes}
+                      onChange={(e) => setSimulatedAttributes(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="preview-data">Data feed values</Label>
+                    <Input
+                      id="preview-data"
+                      placeholder="weather.condition=rain, queue.length=12"
+                      value={simulatedData}
+                      onChange={(e) => setSimulatedData(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Items whose conditions do not hold at this time, for a screen with these attributes and feed values, are skipped.
+                  Weather and data conditions without a value are not enforced.
+                </p>
               </CardContent>
             </Card>
           )}
@@ -525,62 +674,73 @@ export function PlaylistPreview({
           {/* Preview Display */}
           <Card>
             <CardContent className="p-0">
-              <div className={cn(
-                "bg-black rounded-lg overflow-hidden flex items-center justify-center relative",
-                isFullscreen ? "aspect-auto h-[60vh]" : "aspect-video"
-              )}>
-                {currentItem ? (
+              <div
+                className={cn(
+                  "rounded-lg overflow-hidden flex items-center justify-center relative",
+                  isFullscreen ? "aspect-auto h-[60vh]" : "aspect-video"
+                )}
+                style={{ backgroundColor: playback.backgroundColor, color: playback.textColor }}
+              >
+                {currentItem && hasPlayableItems ? (
                   <>
                     {/* Debug info - remove in production */}
                     {process.env.NODE_ENV === 'development' && (
-                      <div className="absolute top-16 left-4 bg-black/75 text-white px-2 py-1 rounded text-xs">
+                      <div className="absolute top-16 left-4 z-10 bg-black/75 text-white px-2 py-1 rounded text-xs">
                         <p>Item: {currentItem?.id}</p>
                         <p>Media: {currentMedia?.originalName}</p>
                         <p>Type: {currentMedia?.type}</p>
                         <p>URL: {currentMedia?.secureUrl ? 'secure' : currentMedia?.url ? 'regular' : 'missing'}</p>
                       </div>
                     )}
-                    {currentMedia?.type === 'image' && (currentMedia?.secureUrl || currentMedia?.url) ? (
-                      <img
-                        src={currentMedia.secureUrl || currentMedia.url}
-                        alt={currentMedia?.originalName || 'Media item'}
-                        className="w-full h-full object-contain"
-                        onError={(e) => {
-                          console.error('Failed to load image:', currentMedia?.secureUrl || currentMedia?.url);
-                        }}
-                      />
-                    ) : currentMedia?.type === 'video' && (currentMedia?.secureUrl || currentMedia?.url) ? (
-                      <video
-                        ref={videoRef}
-                        src={currentMedia.secureUrl || currentMedia.url}
-                        className="w-full h-full object-contain"
-                        muted={settings.muted}
-                        loop={false}
-                        autoPlay={false}
-                        controls={false}
-                        playsInline
-                        onError={(e) => {
-                          console.error('Failed to load video:', currentMedia?.secureUrl || currentMedia?.url);
-                        }}
-                        onLoadedData={() => {
-                          console.log('Video loaded:', currentMedia?.originalName);
-                        }}
-                      />
-                    ) : (
-                      <div className="text-white text-center">
-                        <p className="text-lg font-medium">{currentMedia?.originalName || 'Unknown Media'}</p>
-                        <p className="text-sm opacity-75">Preview not available for this media type</p>
-                        {currentMedia && (
-                          <p className="text-xs opacity-50 mt-2">Type: {currentMedia.type}</p>
-                        )}
+                    <div
+                      key={`${currentItemIndex}-${currentItem.id}`}
+                      className={cn("absolute inset-0 flex items-center justify-center", PLAYLIST_TRANSITION_CLASSES[currentTransition?.type ?? 'none'])}
+                      style={getTransitionStyle(currentTransition)}
+                    >
+                      {currentMedia?.type === 'image' && (currentMedia?.secureUrl || currentMedia?.url) ? (
+                        <img
+                          src={currentMedia.secureUrl || currentMedia.url}
+                          alt={currentMedia?.originalName || 'Media item'}
+                          className="w-full h-full object-contain"
+                          onError={(e) => {
+                            console.error('Failed to load image:', currentMedia?.secureUrl || currentMedia?.url);
+                          }}
+                        />
+                      ) : currentMedia?.type === 'video' && (currentMedia?.secureUrl || currentMedia?.url) ? (
+                        <video
+                          ref={videoRef}
+                          src={currentMedia.secureUrl || currentMedia.url}
+                          className="w-full h-full object-contain"
+                          muted={settings.muted}
+                          loop={false}
+                          autoPlay={false}
+                          controls={false}
+                          playsInline
+                          onError={(e) => {
+                            console.error('Failed to load video:', currentMedia?.secureUrl || currentMedia?.url);
+                          }}
+                          onLoadedData={() => {
+                            console.log('Video loaded:', currentMedia?.originalName);
+                          }}
+                        />
+                      ) : (
+                        <div className="text-center">
+                          <p className="text-lg font-medium">{currentMedia?.originalName || 'Unknown Media'}</p>
+                          <p className="text-sm opacity-75">Preview not available for this media type</p>
+                          {currentMedia && (
+                            <p className="text-xs opacity-50 mt-2">Type: {currentMedia.type}</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    
+                    {/* Overlay Info, as screens show it with the playlist's metadata setting */}
+                    {settings.showInfo && (
+                      <div className="absolute top-4 left-4 bg-black/75 text-white px-3 py-1 rounded">
+                        <p className="text-sm font-medium">{currentMedia?.originalName || 'Unknown Media'}</p>
                       </div>
                     )}
                     
-                    {/* Overlay Info */}
-                    <div className="absolute top-4 left-4 bg-black/75 text-white px-3 py-1 rounded">
-                      <p className="text-sm font-medium">{currentMedia?.originalName || 'Unknown Media'}</p>
-                    </div>
-                    
                     <div className="absolute top-4 right-4 bg-black/75 text-white px-3 py-1 rounded">
                       <p className="text-sm">{formatTime(timeRemaining)}</p>
                     </div>
@@ -590,8 +750,13 @@ export function PlaylistPreview({
                       <Progress value={progress} className="h-2" />
                     </div>
                   </>
+                ) : currentItem ? (
+                  <div className="text-center">
+                    <p className="text-lg">Nothing scheduled to play at this time</p>
+                    <p className="text-sm opacity-75 mt-2">Every item has a condition that does not hold</p>
+                  </div>
                 ) : (
-                  <div className="text-white text-center">
+                  <div className="text-center">
                     <p className="text-lg">No content in playlist</p>
                     <p className="text-sm opacity-75 mt-2">Add media items to preview playlist content</p>
                   </div>
@@ -606,7 +771,7 @@ export function PlaylistPreview({
               variant="outline"
               size="sm"
               onClick={handlePrevious}
-              disabled={currentItemIndex === 0}
+              disabled={previousIndex < 0}
             >
               <SkipBack className="h-4 w-4" />
             </Button>
@@ -629,7 +794,7 @@ export function PlaylistPreview({
               variant="outline"
               size="sm"
               onClick={handleNext}
-              disabled={!playlist || currentItemIndex >= playlist.items.length - 1}
+              disabled={nextIndex < 0}
             >
               <SkipForward className="h-4 w-4" />
             </Button>
@@ -643,9 +808,11 @@ export function PlaylistPreview({
                 {playlist.items.map((item, index) => (
                   <div
                     key={item.id}
-                    className={`flex items-center gap-3 p-2 rounded ${
-                      index === currentItemIndex ? 'bg-primary/10 border border-primary/20' : 'hover:bg-muted/50'
-                    }`}
+                    className={cn(
+                      'flex items-center gap-3 p-2 rounded',
+                      index === currentItemIndex ? 'bg-primary/10 border border-primary/20' : 'hover:bg-muted/50',
+                      !playable[index] && 'opacity-50'
+                    )}
                   >
                     <div className="w-8 h-8 rounded border overflow-hidden bg-muted flex items-center justify-center">
                       {(() => {
@@ -678,8 +845,13 @@ export function PlaylistPreview({
                           <>
                             <p className="text-sm font-medium truncate">{mediaItem?.originalName || 'Unknown Media'}</p>
                             <p className="text-xs text-muted-foreground">
-                              {formatTime(item.duration || mediaItem?.duration || mediaItem?.videoDuration || 0)}
+                              {formatTime(getItemDuration(item, mediaItem, playlist?.settings))}
                             </p>
+                            {unmetConditions[index]?.length > 0 && (
+                              <p className="text-xs text-muted-foreground truncate">
+                                Skipped: {unmetConditions[index].map(describeCondition).join('; ')}
+                              </p>
+                            )}
                           </>
                         );
                       })()
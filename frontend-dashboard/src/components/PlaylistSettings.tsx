@@ -27,11 +27,12 @@ import {
 } from "lucide-react";
 import { cn } from "../lib/utils";
 import { toast } from "sonner";
+import { usePlaylistStore } from "../stores/usePlaylistStore";
+import { PLAYLIST_TRANSITION_TYPES, resolvePlaylistSettings } from "../services/playlistSettings";
 import type { 
   Playlist, 
   PlaylistTransition, 
-  PlaylistSchedule,
-  PlaylistCondition 
+  PlaylistSchedule
 } from "../types";
 
 interface PlaylistSettingsProps {
@@ -53,12 +54,11 @@ interface PlaylistSettingsData {
   shuffle: boolean;
   autoAdvance: boolean;
   
-  // Transition settings
+  // Transition settings (duration in seconds)
   defaultTransition: PlaylistTransition;
-  transitionDuration: number;
   
-  // Timing settings
-  defaultItemDuration: number;
+  // Timing settings; a null default duration keeps each image's own
+  defaultItemDuration: number | null;
   allowDurationOverride: boolean;
   
   // Schedule settings
@@ -66,7 +66,6 @@ interface PlaylistSettingsData {
   
   // Advanced settings
   priority: number;
-  conditions: PlaylistCondition[];
   
   // Display settings
   backgroundColor: string;
@@ -74,11 +73,32 @@ interface PlaylistSettingsData {
   showMetadata: boolean;
 }
 
-const defaultTransition: PlaylistTransition = {
-  type: 'fade',
-  duration: 500,
-  easing: 'ease-in-out'
-};
+/**
+ * Dialog state for a playlist, with defaults for settings it never saved
+ */
+function toSettingsData(playlist: Playlist | null): PlaylistSettingsData {
+  const playback = resolvePlaylistSettings(playlist?.settings);
+
+  return {
+    name: playlist?.name ?? '',
+    description: playlist?.description ?? '',
+    isActive: playlist?.isActive ?? true,
+    loop: playback.loop,
+    shuffle: playback.shuffle,
+    autoAdvance: playback.autoAdvance,
+    defaultTransition: playback.defaultTransition,
+    defaultItemDuration: playback.defaultItemDuration,
+    allowDurationOverride: playback.allowDurationOverride,
+    priority: playback.priority,
+    backgroundColor: playback.backgroundColor,
+    textColor: playback.textColor,
+    showMetadata: playback.showMetadata,
+    schedule: playlist?.schedule
+  };
+}
+
+// Colors are saved as #rrggbb
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
 
 const defaultSchedule: PlaylistSchedule = {
   timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
@@ -92,48 +112,17 @@ export function PlaylistSettings({
   onSave,
   className 
 }: PlaylistSettingsProps) {
-  const [settings, setSettings] = useState<PlaylistSettingsData>({
-    name: '',
-    description: '',
-    isActive: true,
-    loop: false,
-    shuffle: false,
-    autoAdvance: true,
-    defaultTransition,
-    transitionDuration: 500,
-    defaultItemDuration: 10,
-    allowDurationOverride: true,
-    priority: 1,
-    conditions: [],
-    backgroundColor: '#000000',
-    textColor: '#ffffff',
-    showMetadata: true
-  });
+  const updatePlaylist = usePlaylistStore((state) => state.updatePlaylist);
+  const [settings, setSettings] = useState<PlaylistSettingsData>(() => toSettingsData(null));
   
   const [activeTab, setActiveTab] = useState("general");
   const [hasChanges, setHasChanges] = useState(false);
+  const [saving, setSaving] = useState(false);
 
   // Initialize settings when playlist changes
   useEffect(() => {
     if (playlist && isOpen) {
-      setSettings({
-        name: playlist.name,
-        description: playlist.description,
-        isActive: playlist.isActive,
-        loop: false, // Would come from playlist settings in real implementation
-        shuffle: false,
-        autoAdvance: true,
-        defaultTransition,
-        transitionDuration: 500,
-        defaultItemDuration: 10,
-        allowDurationOverride: true,
-        priority: 1,
-        conditions: [],
-        backgroundColor: '#000000',
-        textColor: '#ffffff',
-        showMetadata: true,
-        schedule: playlist.schedule
-      });
+      setSettings(toSettingsData(playlist));
       setHasChanges(false);
     }
   }, [playlist, isOpen]);
@@ -162,13 +151,38 @@ export function PlaylistSettings({
     setHasChanges(true);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!playlist) return;
     
-    onSave?.(settings);
-    toast.success("Playlist settings saved successfully");
-    setHasChanges(false);
-    onClose();
+    setSaving(true);
+    try {
+      await updatePlaylist(playlist.id, {
+        name: settings.name.trim(),
+        description: settings.description.trim(),
+        isActive: settings.isActive,
+        settings: {
+          loop: settings.loop,
+          shuffle: settings.shuffle,
+          autoAdvance: settings.autoAdvance,
+          priority: settings.priority,
+          defaultItemDuration: settings.defaultItemDuration,
+          allowDurationOverride: settings.allowDurationOverride,
+          defaultTransition: settings.defaultTransition,
+          backgroundColor: settings.backgroundColor,
+          textColor: settings.textColor,
+          showMetadata: settings.showMetadata
+        }
+      });
+      onSave?.(settings);
+      toast.success("Playlist settings saved successfully");
+      setHasChanges(false);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save playlist settings:', error);
+      toast.error("Failed to save playlist settings");
+    } finally {
+      setSaving(false);
+    }
   };
 
   const handleCancel = () => {
@@ -189,6 +203,7 @@ export function PlaylistSettings({
   };
 
   const weekdayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const colorsValid = HEX_COLOR.test(settings.backgroundColor) && HEX_COLOR.test(settings.textColor);
 
   if (!playlist) return null;
 
@@ -278,11 +293,14 @@ export function PlaylistSettings({
 
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-base">Priority & Conditions</CardTitle>
+                    <CardTitle className="text-base">Priority</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="space-y-2">
                       <Label>Priority Level: {settings.priority}</Label>
+                      <div className="text-sm text-muted-foreground">
+                        Screens this playlist is assigned to play the highest-priority playlist scheduled at the time
+                      </div>
                       <Slider
                         value={[settings.priority]}
                         onValueChange={([value]) => updateSetting('priority', value)}
@@ -354,18 +372,18 @@ export function PlaylistSettings({
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="space-y-2">
-                      <Label>Default Item Duration: {settings.defaultItemDuration}s</Label>
-                      <Slider
-                        value={[settings.defaultItemDuration]}
-                        onValueChange={([value]) => updateSetting('defaultItemDuration', value)}
+                      <Label htmlFor="default-item-duration">Default Image Duration (seconds)</Label>
+                      <Input
+                        id="default-item-duration"
+                        type="number"
                         min={1}
-                        max={300}
-                        step={1}
-                        className="w-full"
+                        max={7200}
+                        placeholder="Each image's own duration"
+                        value={settings.defaultItemDuration ?? ''}
+                        onChange={(e) => updateSetting('defaultItemDuration', e.target.value === '' ? null : Number(e.target.value))}
                       />
-                      <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>1s</span>
-                        <span>5min</span>
+                      <div className="text-xs text-muted-foreground">
+                        Videos always play their full length
                       </div>
                     </div>
                     
@@ -402,26 +420,29 @@ export function PlaylistSettings({
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="fade">Fade</SelectItem>
-                          <SelectItem value="slide">Slide</SelectItem>
-                          <SelectItem value="none">None</SelectItem>
+                          {PLAYLIST_TRANSITION_TYPES.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
+                      <div className="text-sm text-muted-foreground">
+                        Used by items that do not set a transition of their own
+                      </div>
                     </div>
                     
                     <div className="space-y-2">
-                      <Label>Transition Duration: {settings.defaultTransition.duration}ms</Label>
+                      <Label>Transition Duration: {settings.defaultTransition.duration}s</Label>
                       <Slider
                         value={[settings.defaultTransition.duration]}
                         onValueChange={([value]) => updateTransition({ duration: value })}
-                        min={100}
-                        max={3000}
-                        step={100}
+                        min={0.1}
+                        max={5}
+                        step={0.1}
                         className="w-full"
                       />
                       <div className="flex justify-between text-xs text-muted-foreground">
                         <span>0.1s</span>
-                        <span>3s</span>
+                        <span>5s</span>
                       </div>
                     </div>
                     
@@ -576,7 +597,7 @@ export function PlaylistSettings({
                       <div className="space-y-0.5">
                         <Label>Show Metadata</Label>
                         <div className="text-sm text-muted-foreground">
-                          Display file names and information overlays
+                          Show the item name and position over the content on screens
                         </div>
                       </div>
                       <Switch
@@ -609,7 +630,7 @@ export function PlaylistSettings({
         {/* Actions */}
         <div className="flex justify-between items-center p-6 border-t bg-muted/30">
           <div className="text-sm text-muted-foreground">
-            {hasChanges && "You have unsaved changes"}
+            {!colorsValid ? "Colors must be hex values like #000000" : hasChanges && "You have unsaved changes"}
           </div>
           <div className="flex gap-2">
             <Button variant="outline" onClick={handleCancel}>
@@ -617,9 +638,9 @@ export function PlaylistSettings({
             </Button>
             <Button 
               onClick={handleSave}
-              disabled={!hasChanges}
+              disabled={!hasChanges || saving || !colorsValid}
             >
-              Save Settings
+              {saving ? "Saving..." : "Save Settings"}
             </Button>
           </div>
         </div>
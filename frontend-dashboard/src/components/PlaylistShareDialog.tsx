@@ -0,0 +1,292 @@
+/**
+ * Playlist Share Dialog
+ *
+ * Shows who has access to a playlist and lets owners and admins invite
+ * people by email, change what they may do, or remove them. Viewers can
+ * open the playlist, editors can also change its content, and admins can
+ * also assign it to screens and manage view and edit access. Only the owner
+ * manages admins. Collaborators can leave a playlist shared with them.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Avatar, AvatarFallback } from './ui/avatar';
+import { Separator } from './ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Share2, UserPlus, X, Loader2, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getPlaylistCollaborators,
+  addPlaylistCollaborator,
+  updatePlaylistCollaborator,
+  removePlaylistCollaborator,
+  getPlaylistErrorMessage,
+  hasPlaylistPermission,
+} from '../services/playlistAPI';
+import type {
+  Playlist,
+  PlaylistCollaborator,
+  PlaylistCollaboratorPermission,
+  PlaylistSharing,
+  PlaylistUser,
+} from '../types';
+
+interface PlaylistShareDialogProps {
+  playlist: Playlist | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PERMISSION_OPTIONS: Array<{ value: PlaylistCollaboratorPermission; label: string; description: string }> = [
+  { value: 'view', label: 'Can view', description: 'Open the playlist and its history' },
+  { value: 'edit', label: 'Can edit', description: 'Change items, settings and schedule' },
+  { value: 'admin', label: 'Admin', description: 'Also assign to screens and share' },
+];
+
+function getInitials(user: PlaylistUser): string {
+  const source = user.name || user.email || '?';
+  return source
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0]?.toUpperCase())
+    .join('');
+}
+
+export function PlaylistShareDialog({ playlist, isOpen, onClose }: PlaylistShareDialogProps) {
+  const { user } = useAuth();
+
+  const [sharing, setSharing] = useState<PlaylistSharing | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [email, setEmail] = useState('');
+  const [permission, setPermission] = useState<PlaylistCollaboratorPermission>('view');
+  const [inviting, setInviting] = useState(false);
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+
+  const playlistId = playlist?.id;
+  const isOwner = sharing?.permission === 'owner';
+  const canManage = hasPlaylistPermission(sharing?.permission, 'admin');
+
+  const loadSharing = useCallback(async () => {
+    if (!playlistId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setSharing(await getPlaylistCollaborators(playlistId));
+    } catch (loadError) {
+      setError(getPlaylistErrorMessage(loadError));
+    } finally {
+      setLoading(false);
+    }
+  }, [playlistId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSharing();
+    } else {
+      setEmail('');
+      setPermission('view');
+    }
+  }, [isOpen, loadSharing]);
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!playlistId || !email.trim()) return;
+
+    setInviting(true);
+    try {
+      setSharing(await addPlaylistCollaborator(playlistId, email.trim(), permission));
+      toast.success(`Shared with ${email.trim()}`);
+      setEmail('');
+    } catch (inviteError) {
+      toast.error(getPlaylistErrorMessage(inviteError));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handlePermissionChange = async (collaborator: PlaylistCollaborator, next: PlaylistCollaboratorPermission) => {
+    if (!playlistId || next === collaborator.permission) return;
+
+    setUpdatingUserId(collaborator.user._id);
+    try {
+      setSharing(await updatePlaylistCollaborator(playlistId, collaborator.user._id, next));
+      toast.success(`Updated access for ${collaborator.user.name || collaborator.user.email}`);
+    } catch (updateError) {
+      toast.error(getPlaylistErrorMessage(updateError));
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const handleRemove = async (collaborator: PlaylistCollaborator) => {
+    if (!playlistId) return;
+
+    const isSelf = collaborator.user._id === user?.id;
+    setUpdatingUserId(collaborator.user._id);
+    try {
+      const updated = await removePlaylistCollaborator(playlistId, collaborator.user._id);
+      if (isSelf) {
+        toast.success(`You left "${playlist?.name}"`);
+        onClose();
+        return;
+      }
+      setSharing(updated);
+      toast.success(`Removed ${collaborator.user.name || collaborator.user.email}`);
+    } catch (removeError) {
+      toast.error(getPlaylistErrorMessage(removeError));
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  // Admins manage view and edit access; admins themselves are the owner's to manage
+  const canChange = (collaborator: PlaylistCollaborator) =>
+    isOwner || (canManage && collaborator.permission !== 'admin');
+
+  const renderPerson = (person: PlaylistUser, control: React.ReactNode) => (
+    <div key={person._id} className="flex items-center gap-3 py-2">
+      <Avatar className="h-8 w-8">
+        <AvatarFallback className="text-xs">{getInitials(person)}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">
+          {person.name || person.email}
+          {person._id === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+        </p>
+        <p className="text-xs text-muted-foreground truncate">{person.email}</p>
+      </div>
+      {control}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5" />
+            Share "{playlist?.name}"
+          </DialogTitle>
+          <DialogDescription>
+            Invite people by email and choose what they can do with this playlist.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canManage && (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="Email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={inviting}
+              className="flex-1"
+            />
+            <Select value={permission} onValueChange={(value) => setPermission(value as PlaylistCollaboratorPermission)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERMISSION_OPTIONS
+                  .filter(option => isOwner || option.value !== 'admin')
+                  .map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={inviting || !email.trim()}>
+              {inviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </Button>
+          </form>
+        )}
+
+        <Separator />
+
+        {loading && !sharing ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading collaborators...
+          </div>
+        ) : error ? (
+          <div className="flex items-center gap-2 py-6 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span className="flex-1">{error}</span>
+            <Button size="sm" variant="outline" onClick={loadSharing}>Retry</Button>
+          </div>
+        ) : sharing && (
+          <div className="max-h-80 overflow-y-auto">
+            {renderPerson(sharing.owner, <Badge variant="secondary">Owner</Badge>)}
+
+            {sharing.collaborators.map(collaborator => {
+              const isSelf = collaborator.user._id === user?.id;
+              const busy = updatingUserId === collaborator.user._id;
+
+              return renderPerson(collaborator.user, (
+                <div className="flex items-center gap-1">
+                  {canChange(collaborator) ? (
+                    <Select
+                      value={collaborator.permission}
+                      onValueChange={(value) => handlePermissionChange(collaborator, value as PlaylistCollaboratorPermission)}
+                      disabled={busy}
+                    >
+                      <SelectTrigger className="h-8 w-28 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PERMISSION_OPTIONS
+                          .filter(option => isOwner || option.value !== 'admin')
+                          .map(option => (
+                            <SelectItem key={option.value} value={option.value}>
+                              <span title={option.description}>{option.label}</span>
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline">
+                      {PERMISSION_OPTIONS.find(option => option.value === collaborator.permission)?.label}
+                    </Badge>
+                  )}
+                  {(canChange(collaborator) || isSelf) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-8 w-8 p-0"
+                      onClick={() => handleRemove(collaborator)}
+                      disabled={busy}
+                      title={isSelf ? 'Leave this playlist' : 'Remove access'}
+                    >
+                      {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                    </Button>
+                  )}
+                </div>
+              ));
+            })}
+
+            {sharing.collaborators.length === 0 && (
+              <p className="py-4 text-sm text-muted-foreground text-center">
+                Not shared with anyone yet
+              </p>
+            )}
+          </div>
+        )}
+
+        {sharing && !canManage && (
+          <p className="text-xs text-muted-foreground">
+            Only the owner and admins can change who has access.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,10 +13,8 @@ import {
   Wifi, 
   WifiOff, 
   AlertTriangle, 
-  Play, 
   Pause, 
   Square, 
-  SkipForward, 
   RefreshCw,
   AlertOctagon,
   Power,
@@ -24,170 +22,135 @@ import {
   Clock,
   MapPin,
   Search,
-  Filter
+  Filter,
+  Thermometer,
+  Cpu,
+  MemoryStick,
+  Signal,
+  SignalHigh,
+  SignalMedium,
+  SignalLow,
+  Image as ImageIcon,
+  Video,
+  Megaphone,
+  X,
+  Camera
 } from "lucide-react";
 import { toast } from "sonner";
+import {
+  useScreens,
+  useScreenActions,
+  useScreenPlayback,
+  useScreenActivity,
+  useScreenCommands,
+} from "../stores/useScreenStore";
+import {
+  getScreenPlaylistName,
+  formatLastSeen,
+  formatUptime,
+  getConnectionStrength,
+  getPlaybackElapsed,
+  type ConnectionStrength,
+} from "../services/screenAPI";
+import {
+  useEmergencyStore,
+  useEmergencies,
+  useEmergencyOperationLoading,
+  useEmergencyActions,
+} from "../stores/useEmergencyStore";
+import {
+  isEmergencyLive,
+  formatEmergencyTarget,
+  getEmergencyUserName,
+} from "../services/emergencyAPI";
+import { useScreenGroups, useScreenGroupActions } from "../stores/useScreenGroupStore";
+import { usePermission } from "../stores/useOrganizationStore";
+import { flattenGroupTree, getGroupScreenIds } from "../services/screenGroupAPI";
+import { EmergencyBroadcastDialog } from "./EmergencyBroadcastDialog";
+import { ScheduleLookup } from "./ScheduleLookup";
+import { ScreenCommandResult } from "./ScreenCommandResult";
+import type { Screen, CreateEmergencyData, EmergencyBroadcast, ScreenCommandType } from "../types";
 
-interface Screen {
-  id: string;
-  name: string;
-  location: string;
-  status: 'online' | 'offline' | 'error' | 'reconnecting';
-  currentContent: string;
-  playbackProgress: number;
-  lastSeen: string;
-  connectionStrength: number;
-  uptime: string;
-  temperature?: number;
-}
-
-interface ActivityLog {
-  id: string;
-  timestamp: string;
-  type: 'info' | 'warning' | 'error' | 'success';
-  message: string;
-  screenId?: string;
-}
+const formatSeconds = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
 
-export function RealTimeControl() {
-  const [screens, setScreens] = useState<Screen[]>([
-    {
-      id: "SCR-001",
-      name: "Main Lobby Display",
-      location: "Building A - Lobby",
-      status: "online",
-      currentContent: "Welcome Playlist (2/5)",
-      playbackProgress: 65,
-      lastSeen: "Just now",
-      connectionStrength: 95,
-      uptime: "99.8%"
-    },
-    {
-      id: "SCR-002",
-      name: "Cafeteria Menu Board",
-      location: "Building A - Cafeteria",
-      status: "online",
-      currentContent: "Daily Menu (1/3)",
-      playbackProgress: 30,
-      lastSeen: "Just now",
-      connectionStrength: 88,
-      uptime: "98.2%"
-    },
-    {
-      id: "SCR-003",
-      name: "Conference Room A",
-      location: "Building B - Room 201",
-      status: "offline",
-      currentContent: "Schedule Display",
-      playbackProgress: 0,
-      lastSeen: "15 min ago",
-      connectionStrength: 0,
-      uptime: "95.1%"
-    },
-    {
-      id: "SCR-004",
-      name: "Reception Display",
-      location: "Building A - Reception",
-      status: "reconnecting",
-      currentContent: "Company News (3/8)",
-      playbackProgress: 45,
-      lastSeen: "30 sec ago",
-      connectionStrength: 42,
-      uptime: "99.9%"
-    },
-    {
-      id: "SCR-005",
-      name: "Elevator Display 1",
-      location: "Building A - Elevator",
-      status: "error",
-      currentContent: "Building Info",
-      playbackProgress: 0,
-      lastSeen: "8 min ago",
-      connectionStrength: 15,
-      uptime: "97.5%"
-    },
-    {
-      id: "SCR-006",
-      name: "Parking Display",
-      location: "Parking Garage",
-      status: "online",
-      currentContent: "Parking Status (1/1)",
-      playbackProgress: 100,
-      lastSeen: "Just now",
-      connectionStrength: 78,
-      uptime: "99.1%"
-    }
-  ]);
+const formatMetric = (value: number | undefined, unit: string) =>
+  value === undefined || value === null ? "—" : `${Math.round(value)}${unit}`;
 
-  const [activityLog, setActivityLog] = useState<ActivityLog[]>([
-    {
-      id: "1",
-      timestamp: "2024-08-01T14:35:00Z",
-      type: "success",
-      message: "Playlist updated successfully on SCR-001",
-      screenId: "SCR-001"
-    },
-    {
-      id: "2",
-      timestamp: "2024-08-01T14:32:00Z",
-      type: "warning",
-      message: "Connection quality degraded on SCR-004",
-      screenId: "SCR-004"
-    },
-    {
-      id: "3",
-      timestamp: "2024-08-01T14:20:00Z",
-      type: "error",
-      message: "Screen SCR-003 went offline",
-      screenId: "SCR-003"
-    },
-    {
-      id: "4",
-      timestamp: "2024-08-01T14:15:00Z",
-      type: "info",
-      message: "Emergency broadcast test completed successfully"
-    },
-    {
-      id: "5",
-      timestamp: "2024-08-01T14:10:00Z",
-      type: "success",
-      message: "Network health check completed - all systems normal"
-    }
-  ]);
+export function RealTimeControl() {
+  const screens = useScreens();
+  const playback = useScreenPlayback();
+  const activityLog = useScreenActivity();
+  const commands = useScreenCommands();
+  const { fetchScreens, initializeSocket, logActivity, sendCommand } = useScreenActions();
+  const [now, setNow] = useState(() => Date.now());
 
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [emergencyMode, setEmergencyMode] = useState(false);
+  const [groupFilter, setGroupFilter] = useState<string>("all");
+  const [broadcastDialogOpen, setBroadcastDialogOpen] = useState(false);
+  const canControl = usePermission("screen:control");
+  const canSendEmergency = usePermission("emergency:send");
+
+  const emergencies = useEmergencies();
+  const emergencyLoading = useEmergencyOperationLoading();
+  const {
+    fetchActiveEmergencies,
+    createEmergency,
+    clearEmergency,
+    initializeSocket: initializeEmergencySocket,
+  } = useEmergencyActions();
+
+  const groups = useScreenGroups();
+  const { fetchGroups } = useScreenGroupActions();
 
-  // Real-time updates simulation
   useEffect(() => {
-    const interval = setInterval(() => {
-      setScreens(prev => prev.map(screen => ({
-        ...screen,
-        playbackProgress: screen.status === 'online' 
-          ? (screen.playbackProgress + Math.random() * 5) % 100 
-          : screen.playbackProgress
-      })));
-    }, 2000);
-
-    return () => clearInterval(interval);
+    fetchScreens();
+    fetchGroups();
+    initializeSocket();
+    fetchActiveEmergencies();
+    initializeEmergencySocket();
+  }, [fetchScreens, fetchGroups, initializeSocket, fetchActiveEmergencies, initializeEmergencySocket]);
+
+  // Tick so progress bars advance between playback reports
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
   }, []);
 
+  const groupScreenIds = groupFilter === "all" ? null : getGroupScreenIds(groups, screens, groupFilter);
+
   const filteredScreens = screens.filter(screen => {
+    const matchesGroup = !groupScreenIds || groupScreenIds.includes(screen.id);
     const matchesSearch = screen.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         screen.location.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         screen.id.toLowerCase().includes(searchQuery.toLowerCase());
+                         screen.location.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+                         screen.screenId.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesStatus = statusFilter === "all" || screen.status === statusFilter;
-    return matchesSearch && matchesStatus;
+    return matchesGroup && matchesSearch && matchesStatus;
   });
 
+  const liveEmergencies = emergencies.filter(emergency => isEmergencyLive(emergency, now));
+  const scheduledEmergencies = emergencies.filter(emergency => !isEmergencyLive(emergency, now));
+  const activeStops = liveEmergencies.filter(emergency => emergency.action === 'stop');
+
+  // Screens covered by at least one live emergency
+  const isUnderEmergency = (screen: Screen) =>
+    liveEmergencies.some(emergency =>
+      emergency.targetType === 'all' ||
+      (emergency.targetType === 'screens' && emergency.screens.includes(screen.id)) ||
+      (emergency.targetType === 'groups' && emergency.groups.some(group =>
+        getGroupScreenIds(groups, screens, typeof group === 'string' ? group : group._id).includes(screen.id)
+      ))
+    );
+
   const onlineCount = screens.filter(s => s.status === 'online').length;
   const offlineCount = screens.filter(s => s.status === 'offline').length;
   const errorCount = screens.filter(s => s.status === 'error').length;
-  const averageConnection = Math.round(
-    screens.filter(s => s.status === 'online')
-           .reduce((acc, s) => acc + s.connectionStrength, 0) / onlineCount || 0
-  );
+  const healthyPercentage = screens.length > 0
+    ? Math.round((screens.filter(s => s.isHealthy).length / screens.length) * 100)
+    : 0;
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -197,7 +160,7 @@ export function RealTimeControl() {
         return <WifiOff className="h-4 w-4 text-red-600" />;
       case 'error':
         return <AlertTriangle className="h-4 w-4 text-red-600" />;
-      case 'reconnecting':
+      case 'connecting':
         return <RefreshCw className="h-4 w-4 text-yellow-600 animate-spin" />;
       default:
         return <Monitor className="h-4 w-4 text-gray-600" />;
@@ -212,50 +175,167 @@ export function RealTimeControl() {
         return 'text-red-600 bg-red-50 border-red-200';
       case 'error':
         return 'text-red-600 bg-red-50 border-red-200';
-      case 'reconnecting':
+      case 'connecting':
         return 'text-yellow-600 bg-yellow-50 border-yellow-200';
       default:
         return 'text-gray-600 bg-gray-50 border-gray-200';
     }
   };
 
-  const getConnectionColor = (strength: number) => {
-    if (strength >= 80) return 'text-green-600';
-    if (strength >= 60) return 'text-yellow-600';
-    return 'text-red-600';
+  const getSignalIcon = (strength: ConnectionStrength) => {
+    switch (strength) {
+      case 'excellent':
+        return <SignalHigh className="h-3 w-3 text-green-600" />;
+      case 'good':
+        return <SignalMedium className="h-3 w-3 text-green-600" />;
+      case 'fair':
+        return <SignalLow className="h-3 w-3 text-yellow-600" />;
+      case 'poor':
+        return <SignalLow className="h-3 w-3 text-red-600" />;
+      default:
+        return <Signal className="h-3 w-3 text-muted-foreground" />;
+    }
   };
 
-  const handleEmergencyStop = () => {
-    if (!emergencyMode) {
+  const renderNowPlaying = (screen: Screen) => {
+    const current = playback[screen.id];
+    if (!current) {
+      return (
+        <div>
+          <p className="text-sm font-medium">{getScreenPlaylistName(screen)}</p>
+          <p className="text-xs text-muted-foreground">No playback reported</p>
+        </div>
+      );
+    }
+
+    const elapsed = getPlaybackElapsed(current, now);
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium flex items-center gap-1 min-w-0">
+            {current.mediaType === 'video'
+              ? <Video className="h-3 w-3 shrink-0" />
+              : <ImageIcon className="h-3 w-3 shrink-0" />}
+            <span className="truncate">{current.mediaName}</span>
+            {current.paused && <Pause className="h-3 w-3 shrink-0 text-yellow-600" />}
+          </p>
+          <span className="text-xs text-muted-foreground shrink-0">
+            {getScreenPlaylistName(screen)} · {current.index + 1}/{current.total}
+          </span>
+        </div>
+        <Progress value={current.duration > 0 ? (elapsed / current.duration) * 100 : 0} className="h-1.5" />
+        <p className="text-xs text-muted-foreground text-right">
+          {formatSeconds(elapsed)} / {formatSeconds(current.duration)}
+        </p>
+      </div>
+    );
+  };
+
+  const handleEmergencyStop = async () => {
+    if (activeStops.length === 0) {
+      const emergency = await createEmergency({ action: 'stop', severity: 'critical', targetType: 'all' });
+      if (!emergency) {
+        toast.error(useEmergencyStore.getState().error || "Failed to activate emergency stop");
+        return;
+      }
+
       toast.error("Emergency stop activated - all displays paused");
-      setEmergencyMode(true);
-    } else {
-      toast.success("Emergency mode deactivated - displays resumed");
-      setEmergencyMode(false);
+      logActivity({ type: "error", message: "Emergency stop activated across all displays" });
+      return;
     }
+
+    const results = await Promise.all(activeStops.map(emergency => clearEmergency(emergency._id)));
+    if (results.some(success => !success)) {
+      toast.error("Failed to clear every emergency stop");
+      return;
+    }
+
+    toast.success("Emergency stop cleared - displays resumed");
+    logActivity({ type: "success", message: "Emergency stop cleared, displays resumed" });
   };
 
-  const handleEmergencyBroadcast = () => {
-    toast.success("Emergency message broadcasted to all displays");
-    const newLog: ActivityLog = {
-      id: Date.now().toString(),
-      timestamp: new Date().toISOString(),
+  const handleEmergencyBroadcast = async (data: CreateEmergencyData) => {
+    const emergency = await createEmergency(data);
+    if (!emergency) {
+      toast.error(useEmergencyStore.getState().error || "Failed to broadcast emergency alert");
+      return false;
+    }
+
+    toast.success(`Emergency alert sent to ${formatEmergencyTarget(emergency).toLowerCase()}`);
+    logActivity({
       type: "warning",
-      message: "Emergency broadcast activated across all displays"
-    };
-    setActivityLog(prev => [newLog, ...prev]);
+      message: `Emergency broadcast "${emergency.template.title || emergency.message}" sent to ${formatEmergencyTarget(emergency).toLowerCase()}`
+    });
+    return true;
+  };
+
+  const handleClearEmergency = async (emergency: EmergencyBroadcast) => {
+    const success = await clearEmergency(emergency._id);
+    if (!success) {
+      toast.error("Failed to clear emergency");
+      return;
+    }
+
+    toast.success("Emergency cleared");
+    logActivity({
+      type: "success",
+      message: `Emergency ${emergency.action === 'stop' ? 'stop' : `"${emergency.template.title || emergency.message}"`} cleared`
+    });
   };
 
-  const handleScreenAction = (screenId: string, action: string) => {
-    toast.success(`${action} command sent to ${screenId}`);
-    const newLog: ActivityLog = {
-      id: Date.now().toString(),
-      timestamp: new Date().toISOString(),
-      type: "info",
-      message: `${action} action performed on ${screenId}`,
-      screenId
-    };
-    setActivityLog(prev => [newLog, ...prev]);
+  const renderEmergency = (emergency: EmergencyBroadcast, scheduled: boolean) => (
+    <div key={emergency._id} className="flex items-start justify-between gap-3">
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-red-900 flex items-center gap-2">
+          <Badge variant="outline" className="border-red-300 text-red-800 capitalize">
+            {emergency.severity}
+          </Badge>
+          <span className="truncate">
+            {emergency.action === 'stop'
+              ? 'Emergency stop'
+              : emergency.template.title || emergency.message}
+          </span>
+        </p>
+        <p className="text-xs text-red-800 mt-1">
+          {formatEmergencyTarget(emergency)} · issued by {getEmergencyUserName(emergency.issuedBy)}
+          {scheduled
+            ? ` · starts ${new Date(emergency.startsAt).toLocaleString()}`
+            : ` · since ${new Date(emergency.startsAt).toLocaleTimeString()}`}
+          {emergency.expiresAt && ` · until ${new Date(emergency.expiresAt).toLocaleTimeString()}`}
+        </p>
+      </div>
+      {canSendEmergency && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleClearEmergency(emergency)}
+          disabled={emergencyLoading[`clear-${emergency._id}`]}
+        >
+          <X className="h-3 w-3 mr-1" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+
+  const handleScreenCommand = async (screen: Screen, type: ScreenCommandType, label: string) => {
+    const command = await sendCommand(screen.id, type);
+    if (!command) {
+      toast.error(`Failed to send ${label.toLowerCase()} command to ${screen.name}`);
+      return;
+    }
+
+    if (command.status === 'failed') {
+      toast.error(`${screen.name}: ${command.error}`);
+    } else {
+      toast.success(`${label} command sent to ${screen.name}`);
+    }
+
+    logActivity({
+      type: command.status === 'failed' ? "error" : "info",
+      message: `${label} command ${command.status === 'failed' ? 'could not be delivered to' : 'sent to'} ${screen.name}`,
+      screenId: screen.screenId
+    });
   };
 
   const formatTime = (isoString: string) => {
@@ -292,19 +372,27 @@ export function RealTimeControl() {
         </div>
         
         {/* Emergency Controls */}
-        <div className="flex gap-2">
-          <Button
-            variant={emergencyMode ? "default" : "destructive"}
-            onClick={handleEmergencyStop}
-            className="flex items-center gap-2"
-          >
-            <AlertOctagon className="h-4 w-4" />
-            {emergencyMode ? "Resume All" : "Emergency Stop"}
-          </Button>
-          <Button variant="outline" onClick={handleEmergencyBroadcast}>
-            Emergency Broadcast
-          </Button>
-        </div>
+        {canSendEmergency && (
+          <div className="flex gap-2">
+            <Button
+              variant={activeStops.length > 0 ? "default" : "destructive"}
+              onClick={handleEmergencyStop}
+              disabled={emergencyLoading.create}
+              className="flex items-center gap-2"
+            >
+              <AlertOctagon className="h-4 w-4" />
+              {activeStops.length > 0 ? "Resume All" : "Emergency Stop"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setBroadcastDialogOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <Megaphone className="h-4 w-4" />
+              Emergency Broadcast
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Network Health Overview */}
@@ -350,20 +438,26 @@ export function RealTimeControl() {
             <div className="flex items-center gap-2">
               <Activity className="h-4 w-4 text-blue-600" />
               <div>
-                <p className="text-sm text-muted-foreground">Avg Connection</p>
-                <p className="text-lg font-semibold">{averageConnection}%</p>
+                <p className="text-sm text-muted-foreground">Healthy</p>
+                <p className="text-lg font-semibold">{healthyPercentage}%</p>
               </div>
             </div>
           </CardContent>
         </Card>
       </div>
 
-      {/* Emergency Alert */}
-      {emergencyMode && (
+      {/* Active Emergencies */}
+      {emergencies.length > 0 && (
         <Alert className="border-red-200 bg-red-50">
           <AlertOctagon className="h-4 w-4 text-red-600" />
-          <AlertDescription className="text-red-800">
-            Emergency mode is active. All displays are paused and showing emergency content.
+          <AlertDescription className="text-red-800 space-y-3 w-full">
+            <p>
+              {liveEmergencies.length > 0
+                ? `${liveEmergencies.length} emergenc${liveEmergencies.length === 1 ? 'y is' : 'ies are'} active. Affected displays are showing emergency content.`
+                : 'Emergencies are scheduled.'}
+            </p>
+            {liveEmergencies.map(emergency => renderEmergency(emergency, false))}
+            {scheduledEmergencies.map(emergency => renderEmergency(emergency, true))}
           </AlertDescription>
         </Alert>
       )}
@@ -397,12 +491,26 @@ export function RealTimeControl() {
                       <SelectItem value="error">Error</SelectItem>
                     </SelectContent>
                   </Select>
+
+                  <Select value={groupFilter} onValueChange={setGroupFilter}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Groups</SelectItem>
+                      {flattenGroupTree(groups).map(({ group, depth }) => (
+                        <SelectItem key={group._id} value={group._id}>
+                          {"\u00a0".repeat(depth * 2)}{group.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
               </div>
             </CardHeader>
             <CardContent className="space-y-3">
               {filteredScreens.map(screen => (
-                <Card key={screen.id} className={`${emergencyMode ? 'bg-red-50' : ''}`}>
+                <Card key={screen.id} className={`${isUnderEmergency(screen) ? 'bg-red-50' : ''}`}>
                   <CardContent className="p-4">
                     <div className="space-y-3">
                       {/* Header */}
@@ -411,11 +519,11 @@ export function RealTimeControl() {
                           <div className="flex items-center gap-2 mb-1">
                             {getStatusIcon(screen.status)}
                             <h4 className="font-medium">{screen.name}</h4>
-                            <code className="text-xs bg-muted px-1 py-0.5 rounded">{screen.id}</code>
+                            <code className="text-xs bg-muted px-1 py-0.5 rounded">{screen.screenId}</code>
                           </div>
                           <p className="text-sm text-muted-foreground flex items-center gap-1">
                             <MapPin className="h-3 w-3" />
-                            {screen.location}
+                            {screen.location.name}
                           </p>
                         </div>
                         
@@ -425,69 +533,71 @@ export function RealTimeControl() {
                           </Badge>
                           <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
                             <Clock className="h-3 w-3" />
-                            {screen.lastSeen}
+                            {formatLastSeen(screen.lastSeen)}
                           </p>
                         </div>
                       </div>
 
-                      {/* Content & Progress */}
-                      <div>
-                        <div className="flex items-center justify-between mb-2">
-                          <p className="text-sm font-medium">{screen.currentContent}</p>
-                          <span className="text-xs text-muted-foreground">
-                            {Math.round(screen.playbackProgress)}%
-                          </span>
-                        </div>
-                        <Progress value={screen.playbackProgress} className="h-2" />
-                      </div>
+                      {/* Content */}
+                      {renderNowPlaying(screen)}
 
                       {/* Stats & Controls */}
                       <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                          <div className="flex items-center gap-1">
-                            <Wifi className="h-3 w-3" />
-                            <span className={getConnectionColor(screen.connectionStrength)}>
-                              {screen.connectionStrength}%
-                            </span>
+                        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                          <div>Uptime: {formatUptime(screen.activity?.totalUptime)}</div>
+                          <div className="flex items-center gap-1" title="Temperature">
+                            <Thermometer className="h-3 w-3" />
+                            {formatMetric(screen.performance?.temperature, "°C")}
+                          </div>
+                          <div className="flex items-center gap-1" title="CPU usage">
+                            <Cpu className="h-3 w-3" />
+                            {formatMetric(screen.performance?.cpuUsage, "%")}
+                          </div>
+                          <div className="flex items-center gap-1" title="Memory usage">
+                            <MemoryStick className="h-3 w-3" />
+                            {formatMetric(screen.performance?.memoryUsage, "%")}
+                          </div>
+                          <div className="flex items-center gap-1" title="Connection strength">
+                            {getSignalIcon(getConnectionStrength(screen))}
+                            {screen.network?.latency !== undefined && screen.status === 'online'
+                              ? `${screen.network.latency}ms`
+                              : "—"}
                           </div>
-                          <div>Uptime: {screen.uptime}</div>
                         </div>
                         
                         <div className="flex items-center gap-1">
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleScreenAction(screen.id, 'Pause')}
-                            disabled={screen.status !== 'online'}
+                            title="Reload content"
+                            onClick={() => handleScreenCommand(screen, 'reload', 'Reload')}
+                            disabled={!canControl || screen.status !== 'online'}
                           >
-                            <Pause className="h-3 w-3" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleScreenAction(screen.id, 'Play')}
-                            disabled={screen.status !== 'online'}
-                          >
-                            <Play className="h-3 w-3" />
+                            <RefreshCw className="h-3 w-3" />
                           </Button>
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleScreenAction(screen.id, 'Skip')}
-                            disabled={screen.status !== 'online'}
+                            title="Capture screenshot"
+                            onClick={() => handleScreenCommand(screen, 'screenshot', 'Screenshot')}
+                            disabled={!canControl || screen.status !== 'online'}
                           >
-                            <SkipForward className="h-3 w-3" />
+                            <Camera className="h-3 w-3" />
                           </Button>
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleScreenAction(screen.id, 'Restart')}
-                            disabled={screen.status !== 'online'}
+                            title="Restart player"
+                            onClick={() => handleScreenCommand(screen, 'restart', 'Restart')}
+                            disabled={!canControl || screen.status !== 'online'}
                           >
-                            <RefreshCw className="h-3 w-3" />
+                            <Power className="h-3 w-3" />
                           </Button>
                         </div>
                       </div>
+
+                      {/* Latest remote command */}
+                      <ScreenCommandResult command={commands[screen.id]?.[0]} compact />
                     </div>
                   </CardContent>
                 </Card>
@@ -497,7 +607,7 @@ export function RealTimeControl() {
         </div>
 
         {/* Activity Log */}
-        <div>
+        <div className="space-y-6">
           <Card className="h-fit">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -506,6 +616,9 @@ export function RealTimeControl() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3 max-h-96 overflow-y-auto">
+              {activityLog.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">No activity yet</p>
+              )}
               {activityLog.map(log => (
                 <div key={log.id} className="flex items-start gap-3 p-2 hover:bg-muted/50 rounded">
                   {getLogIcon(log.type)}
@@ -517,8 +630,17 @@ export function RealTimeControl() {
               ))}
             </CardContent>
           </Card>
+
+          <ScheduleLookup groupId={groupFilter === "all" ? undefined : groupFilter} />
         </div>
       </div>
+
+      <EmergencyBroadcastDialog
+        isOpen={broadcastDialogOpen}
+        onClose={() => setBroadcastDialogOpen(false)}
+        onSubmit={handleEmergencyBroadcast}
+        screens={screens}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "./ui/card";
+import { Alert, AlertDescription } from "./ui/alert";
+import { Loader2, Eye, EyeOff, Lock, KeyRound } from "lucide-react";
+import { resetPassword, getErrorMessage } from "../services/auth";
+import { toast } from "sonner";
+
+interface ResetPasswordData {
+  password: string;
+  confirmPassword: string;
+}
+
+interface ValidationErrors {
+  password?: string;
+  confirmPassword?: string;
+  general?: string;
+}
+
+interface ResetPasswordProps {
+  token: string | null;
+  onSwitchToLogin: () => void;
+  onRequestNewLink: () => void;
+}
+
+export function ResetPassword({ token, onSwitchToLogin, onRequestNewLink }: ResetPasswordProps) {
+  const [formData, setFormData] = useState<ResetPasswordData>({
+    password: "",
+    confirmPassword: "",
+  });
+
+  const [errors, setErrors] = useState<ValidationErrors>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [showPassword, setShowPassword] = useState(false);
+
+  // Same rules as registration and the backend
+  const validateField = (field: keyof ResetPasswordData, value: string): string | undefined => {
+    switch (field) {
+      case "password":
+        if (!value) return "Password is required";
+        if (value.length < 6) return "Password must be at least 6 characters";
+        if (!/(?=.*[a-z])/.test(value)) return "Password must contain at least one lowercase letter";
+        if (!/(?=.*\d)/.test(value)) return "Password must contain at least one number";
+        break;
+
+      case "confirmPassword":
+        if (!value) return "Please confirm your password";
+        if (value !== formData.password) return "Passwords do not match";
+        break;
+    }
+    return undefined;
+  };
+
+  const handleInputChange = (field: keyof ResetPasswordData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    const newErrors: ValidationErrors = {
+      password: validateField("password", formData.password),
+      confirmPassword: validateField("confirmPassword", formData.confirmPassword),
+    };
+    if (newErrors.password || newErrors.confirmPassword) {
+      setErrors(newErrors);
+      return;
+    }
+
+    setIsLoading(true);
+    setErrors({});
+
+    try {
+      await resetPassword(token, formData.password);
+      toast.success("Password updated. Sign in with your new password.");
+      onSwitchToLogin();
+    } catch (error) {
+      setErrors({ general: getErrorMessage(error) });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-6">
+        {/* Header */}
+        <div className="text-center space-y-2">
+          <div className="flex justify-center mb-4">
+            <div className="w-12 h-12 bg-primary rounded-lg flex items-center justify-center">
+              <KeyRound className="w-6 h-6 text-primary-foreground" />
+            </div>
+          </div>
+          <h1 className="text-2xl font-semibold tracking-tight">Choose a new password</h1>
+          <p className="text-sm text-muted-foreground">
+            Your new password replaces the old one straight away
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-xl">Reset password</CardTitle>
+            <CardDescription>
+              {token ? "Enter and confirm your new password" : "This reset link is incomplete"}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {!token ? (
+              <div className="space-y-4">
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    The link has no reset token. Open the link from your email again, or request a new one.
+                  </AlertDescription>
+                </Alert>
+                <Button type="button" className="w-full" onClick={onRequestNewLink}>
+                  Request a new link
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {/* General Error */}
+                {errors.general && (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      {errors.general}{" "}
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="p-0 h-auto text-sm"
+                        onClick={onRequestNewLink}
+                      >
+                        Request a new link
+                      </Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {/* Password Field */}
+                <div className="space-y-2">
+                  <Label htmlFor="password">
+                    <Lock className="w-4 h-4" />
+                    New Password
+                  </Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? "text" : "password"}
+                      placeholder="Create a secure password"
+                      value={formData.password}
+                      onChange={(e) => handleInputChange("password", e.target.value)}
+                      aria-invalid={!!errors.password}
+                      disabled={isLoading}
+                      className={`pr-10 ${errors.password ? "border-destructive" : ""}`}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
+                      onClick={() => setShowPassword(!showPassword)}
+                      disabled={isLoading}
+                    >
+                      {showPassword ? (
+                        <EyeOff className="w-4 h-4 text-muted-foreground" />
+                      ) : (
+                        <Eye className="w-4 h-4 text-muted-foreground" />
+                      )}
+                    </Button>
+                  </div>
+                  {errors.password && (
+                    <p className="text-sm text-destructive">{errors.password}</p>
+                  )}
+                </div>
+
+                {/* Confirm Password Field */}
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">
+                    <Lock className="w-4 h-4" />
+                    Confirm Password
+                  </Label>
+                  <Input
+                    id="confirmPassword"
+                    type={showPassword ? "text" : "password"}
+                    placeholder="Repeat your new password"
+                    value={formData.confirmPassword}
+                    onChange={(e) => handleInputChange("confirmPassword", e.target.value)}
+                    aria-invalid={!!errors.confirmPassword}
+                    disabled={isLoading}
+                    className={errors.confirmPassword ? "border-destructive" : ""}
+                  />
+                  {errors.confirmPassword && (
+                    <p className="text-sm text-destructive">{errors.confirmPassword}</p>
+                  )}
+                </div>
+
+                {/* Submit Button */}
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Updating password...
+                    </>
+                  ) : (
+                    "Update Password"
+                  )}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+
+          <CardFooter className="flex flex-col space-y-2">
+            <div className="text-sm text-center text-muted-foreground">
+              <Button
+                type="button"
+                variant="link"
+                className="p-0 h-auto font-medium text-primary"
+                onClick={onSwitchToLogin}
+                disabled={isLoading}
+              >
+                Back to sign in
+              </Button>
+            </div>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
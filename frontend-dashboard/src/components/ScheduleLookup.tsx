@@ -0,0 +1,97 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Badge } from "./ui/badge";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { getScreenSchedule, getScreenErrorMessage } from "../services/screenAPI";
+import type { ScreenScheduleSnapshot } from "../types";
+
+interface ScheduleLookupProps {
+  groupId?: string;
+}
+
+// Value for a datetime-local input, in the browser's timezone
+const toLocalInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+/**
+ * What each screen plays at a chosen time, resolved by the server from
+ * playlist schedules and priorities in each screen's own timezone
+ */
+export function ScheduleLookup({ groupId }: ScheduleLookupProps) {
+  const [at, setAt] = useState(() => toLocalInputValue(new Date()));
+  const [snapshot, setSnapshot] = useState<ScreenScheduleSnapshot | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lookup = useCallback(async (value: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setSnapshot(await getScreenSchedule(value ? new Date(value) : undefined, groupId));
+    } catch (err) {
+      setError(getScreenErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    lookup(at);
+    // Only re-run automatically when the group changes; times are looked up on demand
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lookup]);
+
+  return (
+    <Card className="h-fit">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Schedule Lookup
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            type="datetime-local"
+            value={at}
+            onChange={(e) => setAt(e.target.value)}
+          />
+          <Button variant="outline" onClick={() => lookup(at)} disabled={loading}>
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Check"}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {snapshot?.screens.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No screens</p>
+          )}
+          {snapshot?.screens.map((entry) => (
+            <div key={entry.id} className="p-2 border rounded space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium truncate">{entry.name}</p>
+                {entry.priority !== null && (
+                  <Badge variant="outline" className="text-xs shrink-0">P{entry.priority}</Badge>
+                )}
+              </div>
+              <p className={`text-sm ${entry.playlist ? "" : "text-muted-foreground"}`}>
+                {entry.playlist ? entry.playlist.name : "Nothing scheduled"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {entry.localTime} · {entry.timezone}
+              </p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
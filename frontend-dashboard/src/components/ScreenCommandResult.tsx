@@ -0,0 +1,83 @@
+"use client";
+
+import { Badge } from "./ui/badge";
+import { CheckCircle, XCircle, Clock, Loader2, Download } from "lucide-react";
+import { formatCommand, formatCommandStatus } from "../services/screenAPI";
+import type { ScreenCommand } from "../types";
+
+interface ScreenCommandResultProps {
+  command?: ScreenCommand;
+  compact?: boolean;
+}
+
+const getCommandStatusColor = (status: ScreenCommand["status"]) => {
+  switch (status) {
+    case "acked":
+      return "text-green-600 bg-green-50 border-green-200";
+    case "pending":
+      return "text-blue-600 bg-blue-50 border-blue-200";
+    case "timeout":
+      return "text-yellow-600 bg-yellow-50 border-yellow-200";
+    default:
+      return "text-red-600 bg-red-50 border-red-200";
+  }
+};
+
+const getCommandStatusIcon = (status: ScreenCommand["status"]) => {
+  switch (status) {
+    case "acked":
+      return <CheckCircle className="h-3 w-3" />;
+    case "pending":
+      return <Loader2 className="h-3 w-3 animate-spin" />;
+    case "timeout":
+      return <Clock className="h-3 w-3" />;
+    default:
+      return <XCircle className="h-3 w-3" />;
+  }
+};
+
+/**
+ * Status of the latest remote command sent to a screen, with its result
+ * (e.g. the captured screenshot) shown inline once the screen answers
+ */
+export function ScreenCommandResult({ command, compact = false }: ScreenCommandResultProps) {
+  if (!command) return null;
+
+  const screenshot = command.type === "screenshot" && command.status === "acked" ? command.result?.image : undefined;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-muted-foreground truncate">
+          {formatCommand(command)} · {new Date(command.createdAt).toLocaleTimeString()}
+        </span>
+        <Badge className={`${getCommandStatusColor(command.status)} flex items-center gap-1 shrink-0`}>
+          {getCommandStatusIcon(command.status)}
+          {formatCommandStatus(command.status)}
+        </Badge>
+      </div>
+
+      {command.error && command.status !== "acked" && (
+        <p className="text-xs text-red-600">{command.error}</p>
+      )}
+
+      {screenshot && (
+        <div className="space-y-1">
+          <img
+            src={screenshot}
+            alt={`Screenshot captured ${new Date(command.respondedAt ?? command.createdAt).toLocaleString()}`}
+            className={`w-full rounded border object-contain bg-black ${compact ? "max-h-32" : "max-h-72"}`}
+          />
+          <a
+            href={screenshot}
+            download={`screenshot-${command._id}.jpg`}
+            className="text-xs text-muted-foreground hover:text-foreground inline-flex items-center gap-1"
+          >
+            <Download className="h-3 w-3" />
+            Download
+          </a>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -28,22 +28,22 @@ import {
   Clock,
   HardDrive,
   Cpu,
-  Thermometer
+  Thermometer,
+  Camera,
+  Terminal
 } from "lucide-react";
 import { toast } from "sonner";
-
-interface Screen {
-  id: string;
-  name: string;
-  location: string;
-  status: string;
-  currentContent: string;
-  lastSeen: string;
-  uptime: string;
-  ipAddress: string;
-  model: string;
-  resolution: string;
-}
+import { useScreenActions, useScreenCommands, useScreenStore } from "../stores/useScreenStore";
+import {
+  getScreenPlaylistName,
+  formatLastSeen,
+  formatUptime,
+  formatCommand,
+  formatScreenAttributes,
+  parseScreenAttributes
+} from "../services/screenAPI";
+import { ScreenCommandResult } from "./ScreenCommandResult";
+import type { Screen, ScreenCommandType } from "../types";
 
 interface ScreenDetailModalProps {
   screenId: string | null;
@@ -54,25 +54,53 @@ interface ScreenDetailModalProps {
 
 export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenDetailModalProps) {
   const [activeTab, setActiveTab] = useState("overview");
+  const { updateScreen, sendCommand, fetchCommands } = useScreenActions();
+  const commands = useScreenCommands();
+  const operationLoading = useScreenStore((state) => state.operationLoading);
+  const [isSaving, setIsSaving] = useState(false);
   const [screenSettings, setScreenSettings] = useState({
     name: screen?.name || "",
-    location: screen?.location || "",
-    brightness: [75],
-    volume: [50],
+    location: screen?.location.name || "",
+    brightness: [screen?.display.brightness ?? 100],
+    volume: [screen?.settings?.volume ?? 50],
     powerSchedule: true,
-    autoRestart: true,
-    updateChannel: "stable"
+    autoRestart: screen?.settings?.autoRestart ?? true,
+    updateChannel: "stable",
+    attributes: formatScreenAttributes(screen?.attributes)
   });
 
+  // Re-sync the form whenever a different screen is opened
+  useEffect(() => {
+    if (!screen) return;
+    setScreenSettings(prev => ({
+      ...prev,
+      name: screen.name,
+      location: screen.location.name,
+      brightness: [screen.display.brightness ?? 100],
+      volume: [screen.settings?.volume ?? 50],
+      autoRestart: screen.settings?.autoRestart ?? true,
+      attributes: formatScreenAttributes(screen.attributes)
+    }));
+  }, [screen]);
+
+  // Load recent command results when the modal opens
+  useEffect(() => {
+    if (isOpen && screen?.id) {
+      fetchCommands(screen.id);
+    }
+  }, [isOpen, screen?.id, fetchCommands]);
+
   if (!screen) return null;
 
+  const screenCommands = commands[screen.id] ?? [];
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "online":
         return "text-green-600 bg-green-50 border-green-200";
       case "offline":
         return "text-red-600 bg-red-50 border-red-200";
-      case "reconnecting":
+      case "connecting":
         return "text-yellow-600 bg-yellow-50 border-yellow-200";
       case "error":
         return "text-red-600 bg-red-50 border-red-200";
@@ -89,21 +117,52 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
         return <Wifi className="h-4 w-4" />;
       case "offline":
         return <WifiOff className="h-4 w-4" />;
-      case "reconnecting":
+      case "connecting":
         return <RefreshCw className="h-4 w-4 animate-spin" />;
       default:
         return <Monitor className="h-4 w-4" />;
     }
   };
 
-  const handleSaveSettings = () => {
-    toast.success("Settings saved successfully");
+  const handleSaveSettings = async () => {
+    setIsSaving(true);
+    const updated = await updateScreen(screen.id, {
+      name: screenSettings.name,
+      location: { name: screenSettings.location },
+      settings: {
+        autoRestart: screenSettings.autoRestart
+      },
+      attributes: parseScreenAttributes(screenSettings.attributes)
+    });
+    setIsSaving(false);
+
+    if (updated) {
+      toast.success("Settings saved successfully");
+    }
   };
 
-  const handleRestartScreen = () => {
-    toast.success("Restart command sent to screen");
+  const handleCommand = async (type: ScreenCommandType, value?: number) => {
+    const command = await sendCommand(screen.id, type, value);
+    if (!command) {
+      toast.error(useScreenStore.getState().error || "Failed to send command");
+      return;
+    }
+
+    if (command.status === "failed") {
+      // Volume and brightness are still saved and applied when the screen reconnects
+      if (value !== undefined) {
+        toast.info(`${formatCommand(command)} saved; it will be applied when the screen reconnects`);
+      } else {
+        toast.error(command.error || "Screen is not connected");
+      }
+      return;
+    }
+
+    toast.success(`${formatCommand(command)} sent to screen`);
   };
 
+  const isCommandSending = (type: ScreenCommandType) => !!operationLoading[`command_${screen.id}_${type}`];
+
   const connectionHistory = [
     { timestamp: "2024-08-01 14:30", status: "Connected", duration: "45m" },
     { timestamp: "2024-08-01 13:45", status: "Disconnected", duration: "2m" },
@@ -112,13 +171,28 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
     { timestamp: "2024-07-31 16:00", status: "Connected", duration: "16h 58m" }
   ];
 
+  const getUsageStatus = (value: number | undefined, warning: number, critical: number) => {
+    if (value === undefined) return "unknown";
+    if (value >= critical) return "critical";
+    if (value >= warning) return "warning";
+    return "good";
+  };
+
+  const formatPercent = (value?: number) => (value === undefined ? "—" : `${Math.round(value)}%`);
+
+  const performance = screen.performance || {};
   const performanceMetrics = [
-    { label: "CPU Usage", value: "23%", status: "good" },
-    { label: "Memory Usage", value: "45%", status: "good" },
-    { label: "Storage Used", value: "67%", status: "warning" },
-    { label: "Temperature", value: "42°C", status: "good" },
-    { label: "Network Latency", value: "12ms", status: "good" },
-    { label: "Uptime", value: "99.8%", status: "excellent" }
+    { label: "CPU Usage", value: formatPercent(performance.cpuUsage), status: getUsageStatus(performance.cpuUsage, 60, 80), icon: Cpu },
+    { label: "Memory Usage", value: formatPercent(performance.memoryUsage), status: getUsageStatus(performance.memoryUsage, 70, 85), icon: Activity },
+    { label: "Storage Used", value: formatPercent(performance.storageUsage), status: getUsageStatus(performance.storageUsage, 75, 90), icon: HardDrive },
+    {
+      label: "Temperature",
+      value: performance.temperature === undefined ? "—" : `${performance.temperature}°C`,
+      status: getUsageStatus(performance.temperature, 55, 70),
+      icon: Thermometer
+    },
+    { label: "Errors", value: String(screen.activity?.errorCount ?? 0), status: screen.activity?.errorCount ? "warning" : "excellent", icon: BarChart3 },
+    { label: "Uptime", value: formatUptime(screen.activity?.totalUptime), status: screen.isHealthy ? "excellent" : "good", icon: Clock }
   ];
 
   return (
@@ -130,7 +204,7 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
             {screen.name}
           </DialogTitle>
           <DialogDescription>
-            Manage settings and monitor performance for {screen.id}
+            Manage settings and monitor performance for {screen.screenId}
           </DialogDescription>
         </DialogHeader>
 
@@ -160,20 +234,20 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
 
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Current Content</span>
-                      <span className="text-sm font-medium">{screen.currentContent}</span>
+                      <span className="text-sm font-medium">{getScreenPlaylistName(screen)}</span>
                     </div>
 
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Last Seen</span>
                       <span className="text-sm flex items-center gap-1">
                         <Clock className="h-3 w-3" />
-                        {screen.lastSeen}
+                        {formatLastSeen(screen.lastSeen)}
                       </span>
                     </div>
 
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Uptime</span>
-                      <span className="text-sm font-medium">{screen.uptime}</span>
+                      <span className="text-sm font-medium">{formatUptime(screen.activity?.totalUptime)}</span>
                     </div>
                   </CardContent>
                 </Card>
@@ -185,29 +259,29 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
                   <CardContent className="space-y-4">
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Screen ID</span>
-                      <code className="text-sm bg-muted px-1 py-0.5 rounded">{screen.id}</code>
+                      <code className="text-sm bg-muted px-1 py-0.5 rounded">{screen.screenId}</code>
                     </div>
 
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Model</span>
-                      <span className="text-sm font-medium">{screen.model}</span>
+                      <span className="text-sm font-medium">{screen.device?.model || "Unknown"}</span>
                     </div>
 
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Resolution</span>
-                      <span className="text-sm font-medium">{screen.resolution}</span>
+                      <span className="text-sm font-medium">{screen.resolution || `${screen.display.resolution.width}x${screen.display.resolution.height}`}</span>
                     </div>
 
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">IP Address</span>
-                      <code className="text-sm bg-muted px-1 py-0.5 rounded">{screen.ipAddress}</code>
+                      <code className="text-sm bg-muted px-1 py-0.5 rounded">{screen.network?.ipAddress || "—"}</code>
                     </div>
 
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-muted-foreground">Location</span>
                       <span className="text-sm flex items-center gap-1">
                         <MapPin className="h-3 w-3" />
-                        {screen.location}
+                        {screen.location.name}
                       </span>
                     </div>
                   </CardContent>
@@ -220,10 +294,33 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
                 </CardHeader>
                 <CardContent>
                   <div className="flex gap-2 flex-wrap">
-                    <Button size="sm" variant="outline" onClick={handleRestartScreen}>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleCommand("restart")}
+                      disabled={isCommandSending("restart")}
+                    >
                       <RefreshCw className="h-4 w-4 mr-2" />
                       Restart Screen
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleCommand("reload")}
+                      disabled={isCommandSending("reload")}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Reload Content
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleCommand("screenshot")}
+                      disabled={isCommandSending("screenshot")}
+                    >
+                      <Camera className="h-4 w-4 mr-2" />
+                      Capture Screenshot
+                    </Button>
                     <Button size="sm" variant="outline">
                       <Power className="h-4 w-4 mr-2" />
                       Power Cycle
@@ -239,6 +336,23 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
                   </div>
                 </CardContent>
               </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Terminal className="h-4 w-4" />
+                    Recent Commands
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {screenCommands.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No commands sent yet</p>
+                  )}
+                  {screenCommands.map((command, index) => (
+                    <ScreenCommandResult key={command._id} command={command} compact={index > 0} />
+                  ))}
+                </CardContent>
+              </Card>
             </TabsContent>
 
             <TabsContent value="settings" className="space-y-4">
@@ -267,6 +381,20 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
                     </div>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="screenAttributes">Attributes</Label>
+                    <Textarea
+                      id="screenAttributes"
+                      rows={3}
+                      placeholder={"region=north\nfloor=2"}
+                      value={screenSettings.attributes}
+                      onChange={(e) => setScreenSettings({ ...screenSettings, attributes: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      One key=value per line. Playlist items with screen attribute conditions play only on matching screens
+                    </p>
+                  </div>
+
                   <div className="space-y-4">
                     <div className="space-y-2">
                       <Label>Brightness</Label>
@@ -275,6 +403,7 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
                         <Slider
                           value={screenSettings.brightness}
                           onValueChange={(value) => setScreenSettings({ ...screenSettings, brightness: value })}
+                          onValueCommit={(value) => handleCommand("set-brightness", value[0])}
                           max={100}
                           step={1}
                           className="flex-1"
@@ -290,6 +419,7 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
                         <Slider
                           value={screenSettings.volume}
                           onValueChange={(value) => setScreenSettings({ ...screenSettings, volume: value })}
+                          onValueCommit={(value) => handleCommand("set-volume", value[0])}
                           max={100}
                           step={1}
                           className="flex-1"
@@ -297,6 +427,10 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
                         <span className="text-sm w-12">{screenSettings.volume[0]}%</span>
                       </div>
                     </div>
+
+                    <p className="text-xs text-muted-foreground">
+                      Brightness and volume are saved and applied to the screen as soon as you release the slider
+                    </p>
                   </div>
                 </CardContent>
               </Card>
@@ -345,7 +479,9 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
               </Card>
 
               <div className="flex justify-end">
-                <Button onClick={handleSaveSettings}>Save Settings</Button>
+                <Button onClick={handleSaveSettings} disabled={isSaving}>
+                  {isSaving ? "Saving..." : "Save Settings"}
+                </Button>
               </div>
             </TabsContent>
 
@@ -356,13 +492,17 @@ export function ScreenDetailModal({ screenId, isOpen, onClose, screen }: ScreenD
                     <CardContent className="p-4">
                       <div className="flex items-center justify-between">
                         <div>
-                          <p className="text-sm text-muted-foreground">{metric.label}</p>
+                          <p className="text-sm text-muted-foreground flex items-center gap-1">
+                            <metric.icon className="h-3 w-3" />
+                            {metric.label}
+                          </p>
                           <p className="text-lg font-semibold">{metric.value}</p>
                         </div>
                         <div className={`w-2 h-2 rounded-full ${
                           metric.status === "excellent" ? "bg-green-500" :
                           metric.status === "good" ? "bg-blue-500" :
-                          metric.status === "warning" ? "bg-yellow-500" : "bg-red-500"
+                          metric.status === "warning" ? "bg-yellow-500" :
+                          metric.status === "unknown" ? "bg-gray-300" : "bg-red-500"
                         }`} />
                       </div>
                     </CardContent>
@@ -0,0 +1,358 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Checkbox } from "./ui/checkbox";
+import { Badge } from "./ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { FolderTree, Plus, Edit, Trash2, RefreshCw, Power, Loader2, Tag } from "lucide-react";
+import { toast } from "sonner";
+import {
+  useScreenGroups,
+  useScreenGroupError,
+  useScreenGroupOperationLoading,
+  useScreenGroupActions,
+} from "../stores/useScreenGroupStore";
+import { useScreens, useScreenActions } from "../stores/useScreenStore";
+import { flattenGroupTree, getGroupWithDescendants } from "../services/screenGroupAPI";
+import type { ScreenCommandType, ScreenGroup, ScreenGroupTagMatch } from "../types";
+
+interface ScreenGroupManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const NO_PARENT = "none";
+
+const initialForm = {
+  name: "",
+  description: "",
+  color: "#2563eb",
+  parent: NO_PARENT,
+  tags: "",
+  tagMatch: "any" as ScreenGroupTagMatch,
+  screens: [] as string[],
+};
+
+const parseTags = (value: string) =>
+  Array.from(new Set(value.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+
+/**
+ * Create, nest and edit screen groups, and send commands to a whole group.
+ * Members are listed screens plus screens carrying the group's tags
+ */
+export function ScreenGroupManager({ isOpen, onClose }: ScreenGroupManagerProps) {
+  const groups = useScreenGroups();
+  const error = useScreenGroupError();
+  const operationLoading = useScreenGroupOperationLoading();
+  const { fetchGroups, createGroup, updateGroup, deleteGroup, clearError } = useScreenGroupActions();
+
+  const screens = useScreens();
+  const { sendBulkCommand } = useScreenActions();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(initialForm);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchGroups(true);
+      setEditingId(null);
+      setForm(initialForm);
+    }
+  }, [isOpen, fetchGroups]);
+
+  useEffect(() => {
+    if (error) {
+      toast.error(error);
+      clearError();
+    }
+  }, [error, clearError]);
+
+  // A group can't be moved under itself or its own subgroups
+  const excludedParents = editingId
+    ? new Set(getGroupWithDescendants(groups, editingId).map((group) => group._id))
+    : new Set<string>();
+  const tree = flattenGroupTree(groups);
+
+  const handleEdit = (group: ScreenGroup) => {
+    setEditingId(group._id);
+    setForm({
+      name: group.name,
+      description: group.description || "",
+      color: group.color || initialForm.color,
+      parent: group.parent || NO_PARENT,
+      tags: group.tags.join(", "),
+      tagMatch: group.tagMatch,
+      screens: group.screens,
+    });
+  };
+
+  const handleNew = () => {
+    setEditingId(null);
+    setForm(initialForm);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    const data = {
+      name: form.name.trim(),
+      description: form.description.trim(),
+      color: form.color,
+      parent: form.parent === NO_PARENT ? null : form.parent,
+      tags: parseTags(form.tags),
+      tagMatch: form.tagMatch,
+      screens: form.screens,
+    };
+
+    const saved = editingId ? await updateGroup(editingId, data) : await createGroup(data);
+    if (saved) {
+      toast.success(`Group "${saved.name}" ${editingId ? "updated" : "created"}`);
+      handleNew();
+    }
+  };
+
+  const handleDelete = async (group: ScreenGroup) => {
+    if (!window.confirm(`Delete the group "${group.name}"? Its subgroups move up a level; screens are not affected.`)) {
+      return;
+    }
+
+    if (await deleteGroup(group._id)) {
+      toast.success(`Group "${group.name}" deleted`);
+      if (editingId === group._id) handleNew();
+    }
+  };
+
+  const handleGroupCommand = async (group: ScreenGroup, type: ScreenCommandType, label: string) => {
+    const result = await sendBulkCommand({ groupIds: [group._id] }, type);
+    if (!result) return;
+
+    const { sent, total } = result.summary;
+    if (total === 0) {
+      toast.info(`"${group.name}" has no screens`);
+    } else if (sent < total) {
+      toast.warning(`${label} sent to ${sent} of ${total} screens; ${total - sent} not connected`);
+    } else {
+      toast.success(`${label} sent to ${sent} screen${sent === 1 ? "" : "s"} in "${group.name}"`);
+    }
+  };
+
+  const toggleScreen = (screenId: string) => {
+    setForm({
+      ...form,
+      screens: form.screens.includes(screenId)
+        ? form.screens.filter((id) => id !== screenId)
+        : [...form.screens, screenId],
+    });
+  };
+
+  const isSaving = editingId ? !!operationLoading[`update-${editingId}`] : !!operationLoading.create;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FolderTree className="h-5 w-5" />
+            Screen Groups
+          </DialogTitle>
+          <DialogDescription>
+            Organise screens by region, site or zone to target them together
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          {/* Group tree */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">Groups</h3>
+              <Button size="sm" variant="outline" onClick={handleNew}>
+                <Plus className="h-4 w-4 mr-1" />
+                New Group
+              </Button>
+            </div>
+
+            {tree.length === 0 && (
+              <p className="text-sm text-muted-foreground py-6 text-center">No groups yet</p>
+            )}
+
+            {tree.map(({ group, depth }) => (
+              <div
+                key={group._id}
+                className={`flex items-center gap-2 p-2 border rounded-md ${editingId === group._id ? "border-primary" : ""}`}
+                style={{ marginLeft: depth * 16 }}
+              >
+                <span className="h-3 w-3 rounded-full shrink-0" style={{ backgroundColor: group.color || "#94a3b8" }} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{group.name}</p>
+                  <div className="flex items-center gap-1 flex-wrap">
+                    <span className="text-xs text-muted-foreground">
+                      {group.screenCount} screen{group.screenCount === 1 ? "" : "s"}
+                    </span>
+                    {group.tags.map((tag) => (
+                      <Badge key={tag} variant="outline" className="text-xs px-1 py-0">
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Reload content"
+                  onClick={() => handleGroupCommand(group, "reload", "Reload")}
+                >
+                  <RefreshCw className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Restart players"
+                  onClick={() => handleGroupCommand(group, "restart", "Restart")}
+                >
+                  <Power className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" title="Edit group" onClick={() => handleEdit(group)}>
+                  <Edit className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Delete group"
+                  onClick={() => handleDelete(group)}
+                  disabled={!!operationLoading[`delete-${group._id}`]}
+                >
+                  <Trash2 className="h-3 w-3 text-red-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {/* Group form */}
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <h3 className="text-sm font-medium">{editingId ? "Edit Group" : "New Group"}</h3>
+
+            <div className="grid grid-cols-[1fr_auto] gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="groupName">Name *</Label>
+                <Input
+                  id="groupName"
+                  placeholder="e.g., North Region"
+                  maxLength={100}
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="groupColor">Color</Label>
+                <Input
+                  id="groupColor"
+                  type="color"
+                  className="h-9 w-14 p-1"
+                  value={form.color}
+                  onChange={(e) => setForm({ ...form, color: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="groupDescription">Description</Label>
+              <Input
+                id="groupDescription"
+                maxLength={500}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Parent Group</Label>
+              <Select value={form.parent} onValueChange={(value) => setForm({ ...form, parent: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                  {tree
+                    .filter(({ group }) => !excludedParents.has(group._id))
+                    .map(({ group, depth }) => (
+                      <SelectItem key={group._id} value={group._id}>
+                        {"\u00a0".repeat(depth * 2)}{group.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-[1fr_auto] gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="groupTags" className="flex items-center gap-1">
+                  <Tag className="h-3 w-3" />
+                  Screen Tags
+                </Label>
+                <Input
+                  id="groupTags"
+                  placeholder="lobby, checkout"
+                  value={form.tags}
+                  onChange={(e) => setForm({ ...form, tags: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Match</Label>
+                <Select
+                  value={form.tagMatch}
+                  onValueChange={(value) => setForm({ ...form, tagMatch: value as ScreenGroupTagMatch })}
+                >
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    <SelectItem value="all">All</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Screens tagged this way join the group automatically, alongside the screens picked below
+            </p>
+
+            <div className="space-y-2">
+              <Label>Screens</Label>
+              <div className="space-y-2 max-h-40 overflow-y-auto border rounded-md p-3">
+                {screens.length === 0 && <p className="text-sm text-muted-foreground">No screens yet</p>}
+                {screens.map((screen) => (
+                  <label key={screen.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.screens.includes(screen.id)}
+                      onCheckedChange={() => toggleScreen(screen.id)}
+                    />
+                    {screen.name}
+                    <span className="text-xs text-muted-foreground">{screen.location.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button type="button" variant="outline" onClick={handleNew} disabled={isSaving}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={!form.name.trim() || isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingId ? "Save Group" : "Create Group"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
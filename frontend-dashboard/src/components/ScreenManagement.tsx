@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
@@ -23,12 +23,27 @@ import {
   Clock,
   Settings,
   Trash2,
-  Edit
+  Edit,
+  HardDriveDownload,
+  FolderTree
 } from "lucide-react";
 import { Checkbox } from "./ui/checkbox";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "./ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Slider } from "./ui/slider";
+import { Label } from "./ui/label";
 import { AddScreenModal } from "./AddScreenModal";
 import { ScreenDetailModal } from "./ScreenDetailModal";
+import { ScreenGroupManager } from "./ScreenGroupManager";
+import { toast } from "sonner";
+import { useScreens, useScreenLoading, useScreenError, useScreenActions } from "../stores/useScreenStore";
+import { useScreenGroups, useScreenGroupActions } from "../stores/useScreenGroupStore";
+import { usePermission } from "../stores/useOrganizationStore";
+import { usePlaylistStore, usePlaylists } from "../stores/usePlaylistStore";
+import { getScreenPlaylistName, formatLastSeen, formatUptime, formatCacheStatus } from "../services/screenAPI";
+import { flattenGroupTree, getGroupScreenIds } from "../services/screenGroupAPI";
+import type { Screen, ScreenCommandType, ScreenTargets } from "../types";
 
 export function ScreenManagement() {
   const [viewMode, setViewMode] = useState<"list" | "grid">("list");
@@ -36,81 +51,49 @@ export function ScreenManagement() {
   const [selectedScreens, setSelectedScreens] = useState<string[]>([]);
   const [showAddModal, setShowAddModal] = useState(false);
   const [selectedScreen, setSelectedScreen] = useState<string | null>(null);
+  const [groupFilter, setGroupFilter] = useState("all");
+  const [showGroupManager, setShowGroupManager] = useState(false);
+  const [showAssignPlaylist, setShowAssignPlaylist] = useState(false);
+  const [assignPlaylistId, setAssignPlaylistId] = useState("");
+  const [assigning, setAssigning] = useState(false);
+  const [showBulkSettings, setShowBulkSettings] = useState(false);
+  const [bulkSettings, setBulkSettings] = useState({ brightness: [100], volume: [50] });
+  const [bulkSettingsApplied, setBulkSettingsApplied] = useState({ brightness: true, volume: false });
+  const [savingSettings, setSavingSettings] = useState(false);
+  const canManage = usePermission("screen:manage");
+  const canControl = usePermission("screen:control");
+  const canPublish = usePermission("playlist:publish");
 
-  const screens = [
-    {
-      id: "SCR-001",
-      name: "Main Lobby Display",
-      location: "Building A - Lobby",
-      status: "online",
-      currentContent: "Welcome Playlist",
-      lastSeen: "2 min ago",
-      uptime: "99.8%",
-      ipAddress: "192.168.1.101",
-      model: "Samsung QB65R",
-      resolution: "3840x2160"
-    },
-    {
-      id: "SCR-002", 
-      name: "Cafeteria Menu Board",
-      location: "Building A - Cafeteria",
-      status: "online",
-      currentContent: "Daily Menu",
-      lastSeen: "1 min ago",
-      uptime: "98.2%",
-      ipAddress: "192.168.1.102",
-      model: "LG 55UM5N",
-      resolution: "1920x1080"
-    },
-    {
-      id: "SCR-003",
-      name: "Conference Room A",
-      location: "Building B - Room 201",
-      status: "offline",
-      currentContent: "Schedule Display",
-      lastSeen: "15 min ago",
-      uptime: "95.1%",
-      ipAddress: "192.168.1.103",
-      model: "Sony FWD-65X80L",
-      resolution: "3840x2160"
-    },
-    {
-      id: "SCR-004",
-      name: "Reception Display",
-      location: "Building A - Reception",
-      status: "reconnecting",
-      currentContent: "Company News",
-      lastSeen: "30 sec ago",
-      uptime: "99.9%",
-      ipAddress: "192.168.1.104",
-      model: "Samsung QB43R",
-      resolution: "1920x1080"
-    },
-    {
-      id: "SCR-005",
-      name: "Elevator Display 1",
-      location: "Building A - Elevator",
-      status: "maintenance",
-      currentContent: "Building Info",
-      lastSeen: "8 min ago",
-      uptime: "97.5%",
-      ipAddress: "192.168.1.105",
-      model: "LG 32SM5KE",
-      resolution: "1920x1080"
-    },
-    {
-      id: "SCR-006",
-      name: "Parking Display",
-      location: "Parking Garage",
-      status: "error",
-      currentContent: "Parking Status",
-      lastSeen: "45 sec ago",
-      uptime: "99.1%",
-      ipAddress: "192.168.1.106",
-      model: "Samsung QB55R",
-      resolution: "1920x1080"
+  const playlists = usePlaylists();
+
+  const screens = useScreens();
+  const loading = useScreenLoading();
+  const error = useScreenError();
+  const {
+    fetchScreens,
+    updateScreen,
+    deleteScreen,
+    sendBulkCommand,
+    clearError,
+    forceRefreshScreens,
+    initializeSocket
+  } = useScreenActions();
+
+  const groups = useScreenGroups();
+  const { fetchGroups } = useScreenGroupActions();
+
+  useEffect(() => {
+    fetchScreens();
+    fetchGroups();
+    initializeSocket();
+  }, [fetchScreens, fetchGroups, initializeSocket]);
+
+  useEffect(() => {
+    if (error) {
+      toast.error(error);
+      clearError();
     }
-  ];
+  }, [error, clearError]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -118,7 +101,7 @@ export function ScreenManagement() {
         return "text-green-600 bg-green-50 border-green-200";
       case "offline":
         return "text-red-600 bg-red-50 border-red-200";
-      case "reconnecting":
+      case "connecting":
         return "text-yellow-600 bg-yellow-50 border-yellow-200";
       case "error":
         return "text-red-600 bg-red-50 border-red-200";
@@ -135,7 +118,7 @@ export function ScreenManagement() {
         return <Wifi className="h-3 w-3" />;
       case "offline":
         return <WifiOff className="h-3 w-3" />;
-      case "reconnecting":
+      case "connecting":
         return <RefreshCw className="h-3 w-3 animate-spin" />;
       case "error":
         return <AlertTriangle className="h-3 w-3" />;
@@ -146,10 +129,40 @@ export function ScreenManagement() {
     }
   };
 
+  const getCacheColor = (status?: string) => {
+    switch (status) {
+      case "synced":
+        return "text-green-600 bg-green-50 border-green-200";
+      case "syncing":
+        return "text-blue-600 bg-blue-50 border-blue-200";
+      case "partial":
+        return "text-yellow-600 bg-yellow-50 border-yellow-200";
+      case "error":
+        return "text-red-600 bg-red-50 border-red-200";
+      default:
+        return "text-gray-600 bg-gray-50 border-gray-200";
+    }
+  };
+
+  const renderCacheBadge = (screen: Screen) => (
+    <Badge
+      variant="outline"
+      className={`${getCacheColor(screen.cache?.status)} flex items-center gap-1 w-fit`}
+      title={screen.cache?.lastError || (screen.cache?.lastSyncAt ? `Last synced ${formatLastSeen(screen.cache.lastSyncAt)}` : undefined)}
+    >
+      <HardDriveDownload className="h-3 w-3" />
+      {formatCacheStatus(screen)}
+    </Badge>
+  );
+
+  const groupScreenIds = groupFilter === "all" ? null : getGroupScreenIds(groups, screens, groupFilter);
+
   const filteredScreens = screens.filter(screen =>
-    screen.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    screen.location.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    screen.id.toLowerCase().includes(searchQuery.toLowerCase())
+    (!groupScreenIds || groupScreenIds.includes(screen.id)) && (
+      screen.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      screen.location.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      screen.screenId.toLowerCase().includes(searchQuery.toLowerCase())
+    )
   );
 
   const handleSelectAll = (checked: boolean) => {
@@ -168,12 +181,104 @@ export function ScreenManagement() {
     }
   };
 
+  const handleSetMaintenance = async () => {
+    const results = await Promise.all(
+      selectedScreens.map(id => updateScreen(id, { status: "maintenance" }))
+    );
+    const updated = results.filter(Boolean).length;
+    if (updated > 0) {
+      toast.success(`${updated} screen${updated === 1 ? "" : "s"} set to maintenance mode`);
+    }
+    setSelectedScreens([]);
+  };
+
+  const handleOpenAssignPlaylist = () => {
+    if (playlists.length === 0) usePlaylistStore.getState().fetchPlaylists();
+    setAssignPlaylistId("");
+    setShowAssignPlaylist(true);
+  };
+
+  const handleAssignPlaylist = async () => {
+    const playlist = playlists.find(candidate => candidate.id === assignPlaylistId);
+    if (!playlist) return;
+
+    setAssigning(true);
+    const { assignToScreens, clearError: clearPlaylistError } = usePlaylistStore.getState();
+    const assignedIds = await assignToScreens(playlist.id, selectedScreens);
+    setAssigning(false);
+
+    if (!assignedIds) {
+      toast.error(usePlaylistStore.getState().error || "Failed to assign playlist");
+      clearPlaylistError();
+      return;
+    }
+
+    toast.success(`"${playlist.name}" assigned to ${assignedIds.length} screen${assignedIds.length === 1 ? "" : "s"}`);
+    setShowAssignPlaylist(false);
+    setSelectedScreens([]);
+    forceRefreshScreens();
+  };
+
+  const handleRemoveScreen = async (screen: Screen) => {
+    if (!window.confirm(`Remove "${screen.name}" from your network?`)) return;
+
+    if (await deleteScreen(screen.id)) {
+      toast.success(`${screen.name} removed`);
+      setSelectedScreens(prev => prev.filter(id => id !== screen.id));
+    }
+  };
+
+  const handleCommand = async (targets: ScreenTargets, type: ScreenCommandType, label: string) => {
+    const result = await sendBulkCommand(targets, type);
+    if (!result) return;
+
+    const { sent, total } = result.summary;
+    if (sent < total) {
+      toast.warning(`${label} sent to ${sent} of ${total} screens; ${total - sent} not connected`);
+    } else {
+      toast.success(`${label} sent to ${sent} screen${sent === 1 ? "" : "s"}`);
+    }
+  };
+
+  const handleBulkCommand = async (type: ScreenCommandType, label: string) => {
+    await handleCommand({ screenIds: selectedScreens }, type, label);
+    setSelectedScreens([]);
+  };
+
+  const handleUpdateSettings = async () => {
+    const changes: Array<[ScreenCommandType, number]> = [];
+    if (bulkSettingsApplied.brightness) changes.push(["set-brightness", bulkSettings.brightness[0]]);
+    if (bulkSettingsApplied.volume) changes.push(["set-volume", bulkSettings.volume[0]]);
+    if (changes.length === 0) return;
+
+    setSavingSettings(true);
+    let notConnected = 0;
+    for (const [type, value] of changes) {
+      const result = await sendBulkCommand({ screenIds: selectedScreens }, type, value);
+      if (!result) {
+        setSavingSettings(false);
+        return;
+      }
+      notConnected = result.summary.notConnected;
+    }
+    setSavingSettings(false);
+
+    const count = selectedScreens.length;
+    toast.success(
+      `Settings saved for ${count} screen${count === 1 ? "" : "s"}` +
+      (notConnected > 0 ? `; ${notConnected} not connected will apply them when they reconnect` : "")
+    );
+    setShowBulkSettings(false);
+    setSelectedScreens([]);
+  };
+
   const bulkActions = [
-    { label: "Assign Playlist", action: () => console.log("Assign playlist") },
-    { label: "Restart Screens", action: () => console.log("Restart screens") },
-    { label: "Update Settings", action: () => console.log("Update settings") },
-    { label: "Set Maintenance Mode", action: () => console.log("Maintenance mode") }
-  ];
+    { label: "Assign Playlist", action: handleOpenAssignPlaylist, allowed: canPublish },
+    { label: "Restart Screens", action: () => handleBulkCommand("restart", "Restart"), allowed: canControl },
+    { label: "Reload Content", action: () => handleBulkCommand("reload", "Reload"), allowed: canControl },
+    { label: "Update Settings", action: () => setShowBulkSettings(true), allowed: canControl },
+    { label: "Set Maintenance Mode", action: handleSetMaintenance, allowed: canManage }
+  ].filter((action) => action.allowed);
 
   return (
     <div className="space-y-6">
@@ -183,10 +288,21 @@ export function ScreenManagement() {
           <h1 className="text-2xl font-semibold">Screen Management</h1>
           <p className="text-muted-foreground">Manage and monitor all display screens in your network</p>
         </div>
-        <Button onClick={() => setShowAddModal(true)} className="flex items-center gap-2">
-          <Plus className="h-4 w-4" />
-          Add New Screen
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => forceRefreshScreens()} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+          <Button variant="outline" onClick={() => setShowGroupManager(true)} className="flex items-center gap-2">
+            <FolderTree className="h-4 w-4" />
+            Groups
+          </Button>
+          {canManage && (
+            <Button onClick={() => setShowAddModal(true)} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              Add New Screen
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Filters and Controls */}
@@ -228,10 +344,26 @@ export function ScreenManagement() {
             </div>
 
             <div className="flex items-center gap-2">
-              <Button variant="outline" size="sm">
-                <Filter className="h-4 w-4 mr-2" />
-                Filter
-              </Button>
+              <Select
+                value={groupFilter}
+                onValueChange={(value) => {
+                  setGroupFilter(value);
+                  setSelectedScreens([]);
+                }}
+              >
+                <SelectTrigger className="w-48 h-8">
+                  <Filter className="h-4 w-4 mr-2" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Groups</SelectItem>
+                  {flattenGroupTree(groups).map(({ group, depth }) => (
+                    <SelectItem key={group._id} value={group._id}>
+                      {"\u00a0".repeat(depth * 2)}{group.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               
               <div className="border rounded-md">
                 <Button
@@ -268,14 +400,25 @@ export function ScreenManagement() {
           </CardTitle>
         </CardHeader>
         <CardContent className="p-0">
-          {viewMode === "list" ? (
+          {filteredScreens.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              {loading ? (
+                <RefreshCw className="h-6 w-6 animate-spin mx-auto" />
+              ) : (
+                <>
+                  <Monitor className="h-8 w-8 mx-auto mb-2" />
+                  <p>{screens.length === 0 ? "No screens registered yet" : "No screens match your search"}</p>
+                </>
+              )}
+            </div>
+          ) : viewMode === "list" ? (
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead className="border-b">
                   <tr>
                     <th className="text-left p-4 w-12">
                       <Checkbox
-                        checked={selectedScreens.length === filteredScreens.length}
+                        checked={filteredScreens.length > 0 && selectedScreens.length === filteredScreens.length}
                         onCheckedChange={handleSelectAll}
                       />
                     </th>
@@ -284,6 +427,7 @@ export function ScreenManagement() {
                     <th className="text-left p-4">Status</th>
                     <th className="text-left p-4">Location</th>
                     <th className="text-left p-4">Current Content</th>
+                    <th className="text-left p-4">Offline Cache</th>
                     <th className="text-left p-4">Last Seen</th>
                     <th className="text-left p-4">Actions</th>
                   </tr>
@@ -301,7 +445,7 @@ export function ScreenManagement() {
                         <div className="font-medium">{screen.name}</div>
                       </td>
                       <td className="p-4">
-                        <code className="text-sm bg-muted px-1 py-0.5 rounded">{screen.id}</code>
+                        <code className="text-sm bg-muted px-1 py-0.5 rounded">{screen.screenId}</code>
                       </td>
                       <td className="p-4">
                         <Badge className={`${getStatusColor(screen.status)} flex items-center gap-1 w-fit`}>
@@ -312,14 +456,15 @@ export function ScreenManagement() {
                       <td className="p-4">
                         <div className="flex items-center gap-1 text-sm text-muted-foreground">
                           <MapPin className="h-3 w-3" />
-                          {screen.location}
+                          {screen.location.name}
                         </div>
                       </td>
-                      <td className="p-4 text-sm">{screen.currentContent}</td>
+                      <td className="p-4 text-sm">{getScreenPlaylistName(screen)}</td>
+                      <td className="p-4">{renderCacheBadge(screen)}</td>
                       <td className="p-4">
                         <div className="flex items-center gap-1 text-sm text-muted-foreground">
                           <Clock className="h-3 w-3" />
-                          {screen.lastSeen}
+                          {formatLastSeen(screen.lastSeen)}
                         </div>
                       </td>
                       <td className="p-4">
@@ -334,18 +479,24 @@ export function ScreenManagement() {
                               <Settings className="h-4 w-4 mr-2" />
                               Configure
                             </DropdownMenuItem>
-                            <DropdownMenuItem>
-                              <Edit className="h-4 w-4 mr-2" />
-                              Edit
-                            </DropdownMenuItem>
-                            <DropdownMenuItem>
-                              <RefreshCw className="h-4 w-4 mr-2" />
-                              Restart
-                            </DropdownMenuItem>
-                            <DropdownMenuItem className="text-destructive">
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              Remove
-                            </DropdownMenuItem>
+                            {canManage && (
+                              <DropdownMenuItem onClick={() => setSelectedScreen(screen.id)}>
+                                <Edit className="h-4 w-4 mr-2" />
+                                Edit
+                              </DropdownMenuItem>
+                            )}
+                            {canControl && (
+                              <DropdownMenuItem onClick={() => handleCommand({ screenIds: [screen.id] }, "restart", "Restart")}>
+                                <RefreshCw className="h-4 w-4 mr-2" />
+                                Restart
+                              </DropdownMenuItem>
+                            )}
+                            {canManage && (
+                              <DropdownMenuItem className="text-destructive" onClick={() => handleRemoveScreen(screen)}>
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Remove
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </td>
@@ -376,18 +527,24 @@ export function ScreenManagement() {
                           <Settings className="h-4 w-4 mr-2" />
                           Configure
                         </DropdownMenuItem>
-                        <DropdownMenuItem>
-                          <Edit className="h-4 w-4 mr-2" />
-                          Edit
-                        </DropdownMenuItem>
-                        <DropdownMenuItem>
-                          <RefreshCw className="h-4 w-4 mr-2" />
-                          Restart
-                        </DropdownMenuItem>
-                        <DropdownMenuItem className="text-destructive">
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          Remove
-                        </DropdownMenuItem>
+                        {canManage && (
+                          <DropdownMenuItem onClick={() => setSelectedScreen(screen.id)}>
+                            <Edit className="h-4 w-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                        )}
+                        {canControl && (
+                          <DropdownMenuItem onClick={() => handleCommand({ screenIds: [screen.id] }, "restart", "Restart")}>
+                            <RefreshCw className="h-4 w-4 mr-2" />
+                            Restart
+                          </DropdownMenuItem>
+                        )}
+                        {canManage && (
+                          <DropdownMenuItem className="text-destructive" onClick={() => handleRemoveScreen(screen)}>
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Remove
+                          </DropdownMenuItem>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
@@ -396,31 +553,34 @@ export function ScreenManagement() {
                     <div className="space-y-4">
                       <div>
                         <h4 className="font-semibold">{screen.name}</h4>
-                        <code className="text-xs bg-muted px-1 py-0.5 rounded">{screen.id}</code>
+                        <code className="text-xs bg-muted px-1 py-0.5 rounded">{screen.screenId}</code>
                       </div>
 
-                      <Badge className={`${getStatusColor(screen.status)} flex items-center gap-1 w-fit`}>
-                        {getStatusIcon(screen.status)}
-                        {screen.status}
-                      </Badge>
+                      <div className="flex flex-wrap gap-2">
+                        <Badge className={`${getStatusColor(screen.status)} flex items-center gap-1 w-fit`}>
+                          {getStatusIcon(screen.status)}
+                          {screen.status}
+                        </Badge>
+                        {renderCacheBadge(screen)}
+                      </div>
 
                       <div className="space-y-2 text-sm">
                         <div className="flex items-center gap-2 text-muted-foreground">
                           <MapPin className="h-3 w-3" />
-                          <span>{screen.location}</span>
+                          <span>{screen.location.name}</span>
                         </div>
                         
                         <div>
                           <span className="text-muted-foreground">Current: </span>
-                          <span className="font-medium">{screen.currentContent}</span>
+                          <span className="font-medium">{getScreenPlaylistName(screen)}</span>
                         </div>
 
                         <div className="flex justify-between text-muted-foreground">
                           <div className="flex items-center gap-1">
                             <Clock className="h-3 w-3" />
-                            <span>{screen.lastSeen}</span>
+                            <span>{formatLastSeen(screen.lastSeen)}</span>
                           </div>
-                          <span>Uptime: {screen.uptime}</span>
+                          <span>Uptime: {formatUptime(screen.activity?.totalUptime)}</span>
                         </div>
                       </div>
                     </div>
@@ -438,6 +598,96 @@ export function ScreenManagement() {
         onClose={() => setShowAddModal(false)} 
       />
       
+      <Dialog open={showAssignPlaylist} onOpenChange={(open) => !open && setShowAssignPlaylist(false)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Assign Playlist</DialogTitle>
+            <DialogDescription>
+              Play a playlist on the {selectedScreens.length} selected screen{selectedScreens.length === 1 ? "" : "s"}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Select value={assignPlaylistId} onValueChange={setAssignPlaylistId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a playlist" />
+            </SelectTrigger>
+            <SelectContent>
+              {playlists.map((playlist) => (
+                <SelectItem key={playlist.id} value={playlist.id}>
+                  {playlist.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAssignPlaylist(false)} disabled={assigning}>
+              Cancel
+            </Button>
+            <Button onClick={handleAssignPlaylist} disabled={assigning || !assignPlaylistId}>
+              {assigning ? "Assigning..." : "Assign"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showBulkSettings} onOpenChange={(open) => !open && setShowBulkSettings(false)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Update Settings</DialogTitle>
+            <DialogDescription>
+              Set brightness and volume on the {selectedScreens.length} selected screen{selectedScreens.length === 1 ? "" : "s"}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {([["brightness", "Brightness"], ["volume", "Volume"]] as const).map(([key, label]) => (
+              <div key={key} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`bulk-${key}`}
+                    checked={bulkSettingsApplied[key]}
+                    onCheckedChange={(checked) => setBulkSettingsApplied({ ...bulkSettingsApplied, [key]: checked === true })}
+                  />
+                  <Label htmlFor={`bulk-${key}`}>{label}</Label>
+                </div>
+                <div className="flex items-center gap-4">
+                  <Slider
+                    value={bulkSettings[key]}
+                    onValueChange={(value) => setBulkSettings({ ...bulkSettings, [key]: value })}
+                    max={100}
+                    step={1}
+                    className="flex-1"
+                    disabled={!bulkSettingsApplied[key]}
+                  />
+                  <span className="text-sm w-12">{bulkSettings[key][0]}%</span>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Settings are saved to each screen and applied right away, or when a screen reconnects
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowBulkSettings(false)} disabled={savingSettings}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleUpdateSettings}
+              disabled={savingSettings || (!bulkSettingsApplied.brightness && !bulkSettingsApplied.volume)}
+            >
+              {savingSettings ? "Saving..." : "Apply"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ScreenGroupManager
+        isOpen={showGroupManager}
+        onClose={() => setShowGroupManager(false)}
+      />
+
       <ScreenDetailModal 
         screenId={selectedScreen} 
         isOpen={!!selectedScreen}
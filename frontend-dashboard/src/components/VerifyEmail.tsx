@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "./ui/button";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "./ui/card";
+import { Alert, AlertDescription } from "./ui/alert";
+import { Loader2, MailCheck, MailWarning, Mail } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { verifyEmail, resendVerification, getErrorMessage } from "../services/auth";
+import { toast } from "sonner";
+
+type VerificationStatus = "pending" | "verifying" | "verified" | "failed";
+
+interface VerifyEmailProps {
+  token: string | null;
+  onContinue: () => void;
+}
+
+export function VerifyEmail({ token, onContinue }: VerifyEmailProps) {
+  const { isAuthenticated, token: authToken } = useAuth();
+  const [status, setStatus] = useState<VerificationStatus>(token ? "verifying" : "pending");
+  const [error, setError] = useState<string | undefined>();
+  const [isResending, setIsResending] = useState(false);
+
+  // Tokens work once, so a remounted effect must not send the same one again
+  const verifiedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || verifiedToken.current === token) return;
+    verifiedToken.current = token;
+
+    setStatus("verifying");
+    verifyEmail(token)
+      .then(() => setStatus("verified"))
+      .catch((err) => {
+        setError(getErrorMessage(err));
+        setStatus("failed");
+      });
+  }, [token]);
+
+  const handleResend = async () => {
+    if (!authToken) return;
+
+    setIsResending(true);
+    try {
+      const response = await resendVerification(authToken);
+      toast.success(response.message || "Verification email sent");
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const descriptions: Record<VerificationStatus, string> = {
+    pending: "Open the link we emailed you to verify your address",
+    verifying: "Checking your verification link...",
+    verified: "Your email address is verified",
+    failed: "We couldn't verify your email address",
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-6">
+        <Card>
+          <CardHeader className="space-y-1 text-center">
+            <div className="flex justify-center mb-2">
+              {status === "verifying" && <Loader2 className="w-10 h-10 animate-spin text-primary" />}
+              {status === "verified" && <MailCheck className="w-10 h-10 text-green-600" />}
+              {status === "failed" && <MailWarning className="w-10 h-10 text-destructive" />}
+              {status === "pending" && <Mail className="w-10 h-10 text-muted-foreground" />}
+            </div>
+            <CardTitle className="text-xl">Verify email</CardTitle>
+            <CardDescription>{descriptions[status]}</CardDescription>
+          </CardHeader>
+
+          <CardContent className="space-y-4">
+            {status === "failed" && error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {(status === "failed" || status === "pending") && (
+              isAuthenticated ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleResend}
+                  disabled={isResending}
+                >
+                  {isResending ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Sending...
+                    </>
+                  ) : (
+                    "Send a new verification email"
+                  )}
+                </Button>
+              ) : (
+                <p className="text-sm text-center text-muted-foreground">
+                  Sign in to have a new verification email sent.
+                </p>
+              )
+            )}
+          </CardContent>
+
+          <CardFooter>
+            <Button
+              type="button"
+              className="w-full"
+              onClick={onContinue}
+              disabled={status === "verifying"}
+            >
+              {isAuthenticated ? "Go to dashboard" : "Continue to sign in"}
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
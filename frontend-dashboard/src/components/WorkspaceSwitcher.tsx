@@ -0,0 +1,227 @@
+/**
+ * Workspace Switcher
+ *
+ * Shows the organization the dashboard works in and switches between the
+ * user's organizations. Invitations addressed to the user are accepted or
+ * declined here, and new workspaces are created from the same menu. Socket
+ * events refused for lack of a permission surface here as well.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Building2, Check, ChevronDown, Loader2, Plus, Users, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { OrganizationMembersDialog } from './OrganizationMembersDialog';
+import { ROLE_LABELS } from '../services/organizationAPI';
+import { socketService } from '../services/socketService';
+import type { PermissionDeniedEvent } from '../services/socketService';
+import {
+  useOrganizationStore,
+  useOrganizations,
+  useOrganizationInvitations,
+  useActiveOrganization,
+  useOrganizationOperationLoading,
+} from '../stores/useOrganizationStore';
+
+export function WorkspaceSwitcher() {
+  const organizations = useOrganizations();
+  const invitations = useOrganizationInvitations();
+  const activeOrganization = useActiveOrganization();
+  const operationLoading = useOrganizationOperationLoading();
+  const {
+    fetchOrganizations,
+    fetchInvitations,
+    switchOrganization,
+    createOrganization,
+    acceptInvitation,
+    declineInvitation,
+    initializeSocket,
+  } = useOrganizationStore.getState();
+
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    fetchOrganizations();
+    fetchInvitations();
+  }, [fetchOrganizations, fetchInvitations]);
+
+  useEffect(() => {
+    const handlePermissionDenied = (event: PermissionDeniedEvent) => {
+      toast.error(event.message);
+    };
+
+    // Listen once the socket is up; handlers attach to the live connection
+    initializeSocket().then(() => socketService.on('permission:denied', handlePermissionDenied));
+    return () => {
+      socketService.off('permission:denied', handlePermissionDenied);
+    };
+  }, [initializeSocket]);
+
+  const handleSwitch = (id: string) => {
+    const organization = organizations.find(candidate => candidate.id === id);
+    switchOrganization(id);
+    if (organization) toast.success(`Switched to ${organization.name}`);
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+
+    const organization = await createOrganization(newName.trim());
+    if (organization) {
+      toast.success(`Created ${organization.name}`);
+      setCreateOpen(false);
+      setNewName('');
+    } else {
+      toast.error(useOrganizationStore.getState().error || 'Failed to create workspace');
+    }
+  };
+
+  const handleAccept = async (invitationId: string) => {
+    const organization = await acceptInvitation(invitationId);
+    if (organization) {
+      toast.success(`You joined ${organization.name}`, {
+        action: { label: 'Switch', onClick: () => switchOrganization(organization.id) },
+      });
+    } else {
+      toast.error(useOrganizationStore.getState().error || 'Failed to accept invitation');
+    }
+  };
+
+  const handleDecline = async (invitationId: string) => {
+    if (!(await declineInvitation(invitationId))) {
+      toast.error(useOrganizationStore.getState().error || 'Failed to decline invitation');
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2 max-w-56">
+            <Building2 className="h-4 w-4 shrink-0" />
+            <span className="truncate">{activeOrganization?.name || 'Workspace'}</span>
+            {invitations.length > 0 && (
+              <Badge variant="destructive" className="h-5 px-1.5 text-xs">{invitations.length}</Badge>
+            )}
+            <ChevronDown className="h-3 w-3 shrink-0 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          {organizations.map(organization => (
+            <DropdownMenuItem key={organization.id} onSelect={() => handleSwitch(organization.id)}>
+              <div className="flex-1 min-w-0">
+                <p className="truncate">{organization.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {ROLE_LABELS[organization.role]} · {organization.memberCount} {organization.memberCount === 1 ? 'member' : 'members'}
+                </p>
+              </div>
+              {organization.id === activeOrganization?.id && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+
+          {invitations.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Invitations</DropdownMenuLabel>
+              {invitations.map(invitation => {
+                const busy = operationLoading[`invitation-${invitation.id}`];
+
+                return (
+                  <div key={invitation.id} className="flex items-center gap-2 px-2 py-1.5 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate">{invitation.organization.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {ROLE_LABELS[invitation.role]}
+                        {invitation.invitedBy && ` · from ${invitation.invitedBy.name}`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      onClick={() => handleAccept(invitation.id)}
+                      disabled={busy}
+                      title="Accept invitation"
+                    >
+                      {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      onClick={() => handleDecline(invitation.id)}
+                      disabled={busy}
+                      title="Decline invitation"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </>
+          )}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setMembersOpen(true)} disabled={!activeOrganization}>
+            <Users className="h-4 w-4" />
+            Members
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4" />
+            New workspace
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <OrganizationMembersDialog
+        organizationId={activeOrganization?.id ?? null}
+        isOpen={membersOpen}
+        onClose={() => setMembersOpen(false)}
+      />
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>New workspace</DialogTitle>
+            <DialogDescription>
+              A workspace has its own media, playlists and screens, shared with the people you invite.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <Input
+              placeholder="Workspace name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={100}
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!newName.trim() || operationLoading.create}>
+                {operationLoading.create && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
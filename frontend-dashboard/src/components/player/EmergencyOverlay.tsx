@@ -0,0 +1,67 @@
+"use client";
+
+import { AlertTriangle, AlertOctagon, Info } from "lucide-react";
+import type { EmergencyControlEvent } from "../../types";
+
+interface EmergencyOverlayProps {
+  event: EmergencyControlEvent;
+}
+
+const SEVERITY_ICONS = {
+  critical: AlertOctagon,
+  warning: AlertTriangle,
+  info: Info,
+};
+
+/**
+ * Full-screen overlay shown while an emergency control is active.
+ * Alerts use the broadcast's template colors, title and optional media.
+ * "pause" only freezes playback, so it renders nothing
+ */
+export function EmergencyOverlay({ event }: EmergencyOverlayProps) {
+  if (event.action === "stop") {
+    return (
+      <div className="absolute inset-0 z-40 bg-black flex items-center justify-center p-12">
+        {event.message && (
+          <p className="text-white text-4xl font-semibold text-center max-w-4xl">{event.message}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (event.action === "message") {
+    const template = event.template;
+    const Icon = SEVERITY_ICONS[event.severity ?? "critical"];
+
+    return (
+      <div
+        className="absolute inset-0 z-40 bg-red-700 text-white flex flex-col items-center justify-center gap-8 p-12"
+        style={{ backgroundColor: template?.backgroundColor, color: template?.textColor }}
+      >
+        {template?.media?.type === "image" && (
+          <img src={template.media.url} alt="" className="max-h-[40vh] max-w-[80vw] object-contain" />
+        )}
+        {template?.media?.type === "video" && (
+          <video
+            src={template.media.url}
+            className="max-h-[40vh] max-w-[80vw] object-contain"
+            autoPlay
+            muted
+            loop
+            playsInline
+          />
+        )}
+        {!template?.media && <Icon className="h-32 w-32" />}
+
+        {template?.title && (
+          <h1 className="text-6xl font-extrabold text-center uppercase tracking-wide">{template.title}</h1>
+        )}
+        <p className="text-5xl font-bold text-center max-w-5xl leading-tight">
+          {event.message || "Emergency alert"}
+        </p>
+      </div>
+    );
+  }
+
+  return null;
+}
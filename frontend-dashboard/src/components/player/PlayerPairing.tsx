@@ -0,0 +1,99 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Alert, AlertDescription } from "../ui/alert";
+import { Monitor, Loader2, AlertTriangle } from "lucide-react";
+import { usePlayerStore, usePlayerStatus, usePlayerError } from "../../stores/usePlayerStore";
+
+interface PlayerPairingProps {
+  initialCode?: string | null;
+  initialServerUrl?: string | null;
+}
+
+/**
+ * Pairing screen shown by an unpaired display device. Opening the player
+ * from the dashboard's setup QR code fills in both fields and pairs automatically
+ */
+export function PlayerPairing({ initialCode, initialServerUrl }: PlayerPairingProps) {
+  const pair = usePlayerStore((state) => state.pair);
+  const status = usePlayerStatus();
+  const error = usePlayerError();
+
+  const [code, setCode] = useState((initialCode || "").toUpperCase());
+  const [serverUrl, setServerUrl] = useState(initialServerUrl || "");
+  const autoPairAttempted = useRef(false);
+
+  const isPairing = status === "pairing";
+
+  useEffect(() => {
+    if (autoPairAttempted.current || !initialCode || !initialServerUrl) return;
+    autoPairAttempted.current = true;
+    pair(initialServerUrl, initialCode);
+  }, [initialCode, initialServerUrl, pair]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim().length !== 6) return;
+    pair(serverUrl, code);
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral-950 flex items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="inline-flex items-center justify-center w-12 h-12 bg-muted rounded-full mx-auto mb-2">
+            <Monitor className="h-6 w-6" />
+          </div>
+          <CardTitle>Pair This Display</CardTitle>
+          <CardDescription>
+            Enter the pairing code shown in the dashboard when the screen was added
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="pairingCode">Pairing Code</Label>
+              <Input
+                id="pairingCode"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 6))}
+                placeholder="ABC123"
+                className="text-center text-2xl tracking-[0.5em] font-semibold h-14"
+                autoComplete="off"
+                autoFocus
+                disabled={isPairing}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="serverUrl">Server URL</Label>
+              <Input
+                id="serverUrl"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                placeholder="http://localhost:5000"
+                disabled={isPairing}
+              />
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isPairing || code.length !== 6}>
+              {isPairing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isPairing ? "Pairing..." : "Pair Display"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { Monitor, WifiOff } from "lucide-react";
+import {
+  usePlayerPlaylist,
+  usePlayerSession,
+  usePlayerEmergency,
+  usePlayerConnected,
+  usePlayerDataValues,
+} from "../../stores/usePlayerStore";
+import { EmergencyOverlay } from "./EmergencyOverlay";
+import { playerSocketService } from "../../services/playerSocketService";
+import { buildScreenAttributes, filterPlayableItems } from "../../services/playlistConditions";
+import {
+  PLAYLIST_TRANSITION_CLASSES,
+  getItemTransition,
+  getTransitionStyle,
+  resolvePlaylistSettings,
+} from "../../services/playlistSettings";
+import type { DisplayPlaylistItem } from "../../types";
+
+// How often item conditions are re-checked against the clock
+const CONDITION_CHECK_INTERVAL_MS = 30 * 1000;
+
+const shuffleItems = (items: DisplayPlaylistItem[]) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+interface MediaLayerProps {
+  item: DisplayPlaylistItem;
+  className?: string;
+  style?: React.CSSProperties;
+  videoRef?: React.Ref<HTMLVideoElement>;
+  onEnded?: () => void;
+  // Outgoing layers stay still underneath the incoming item
+  still?: boolean;
+}
+
+function MediaLayer({ item, className = "", style, videoRef, onEnded, still }: MediaLayerProps) {
+  // Media loads with CORS so remote screenshots can read the frame back
+  return (
+    <div className={`absolute inset-0 flex items-center justify-center bg-inherit ${className}`} style={style}>
+      {item.media.type === "video" ? (
+        <video
+          ref={videoRef}
+          src={item.media.url}
+          crossOrigin="anonymous"
+          data-player-media
+          className="w-full h-full object-contain"
+          autoPlay={!still}
+          playsInline
+          onEnded={onEnded}
+        />
+      ) : (
+        <img
+          src={item.media.url}
+          alt={item.media.name}
+          crossOrigin="anonymous"
+          data-player-media
+          className="w-full h-full object-contain"
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Plays the screen's current playlist full-screen: each item for its
+ * duration, entering with its transition (or the playlist's default),
+ * honouring the playlist's loop/shuffle/auto-advance and display settings
+ * and any active emergency control.
+ * Items whose conditions do not hold on this screen right now are skipped
+ */
+export function PlayerStage() {
+  const playlist = usePlayerPlaylist();
+  const session = usePlayerSession();
+  const emergency = usePlayerEmergency();
+  const connected = usePlayerConnected();
+  const dataValues = usePlayerDataValues();
+
+  const [position, setPosition] = useState(0);
+  const [playCount, setPlayCount] = useState(0); // Keys each play so repeated items re-mount
+  const [previous, setPrevious] = useState<DisplayPlaylistItem | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  const currentItemIdRef = useRef<string | null>(null);
+  const remainingRef = useRef(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const settings = playlist?.settings;
+  const loop = settings?.loop !== false;
+  const autoAdvance = settings?.autoAdvance !== false;
+  const pauseBetweenItems = settings?.pauseBetweenItems || 0;
+  const { backgroundColor, textColor, showMetadata } = resolvePlaylistSettings(settings);
+  const paused = !!emergency;
+  const brightness = session?.display?.brightness;
+
+  const shuffled = useMemo(() => {
+    const items = playlist?.items ?? [];
+    return settings?.shuffle ? shuffleItems(items) : items;
+  }, [playlist, settings?.shuffle]);
+
+  const screenContext = useMemo(() => ({
+    timezone: session?.location?.timezone,
+    attributes: session ? buildScreenAttributes(session) : undefined,
+    data: dataValues,
+  }), [session, dataValues]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CONDITION_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Compared as a string so the play order only changes when an item starts
+  // or stops being playable, not on every clock tick
+  const playableKey = useMemo(
+    () => filterPlayableItems(shuffled, { now, ...screenContext }).map((item) => item.id).join(","),
+    [shuffled, now, screenContext]
+  );
+
+  const order = useMemo(() => {
+    const playable = new Set(playableKey.split(","));
+    return shuffled.filter((item) => playable.has(item.id));
+  }, [shuffled, playableKey]);
+
+  const current = order[position] ?? order[0] ?? null;
+  const currentId = current?.id;
+  const currentTransition = useMemo(() => getItemTransition(current?.transitions, settings), [current, settings]);
+  const currentDuration = current?.duration ?? 0;
+
+  // Keep playing the same item when the playlist is reloaded, if it still exists
+  useEffect(() => {
+    const index = order.findIndex((item) => item.id === currentItemIdRef.current);
+    setPosition(index >= 0 ? index : 0);
+    setPrevious(null);
+  }, [order]);
+
+  useEffect(() => {
+    currentItemIdRef.current = currentId ?? null;
+  }, [currentId]);
+
+  const advance = useCallback(() => {
+    if (order.length === 0) return;
+
+    const isLast = position >= order.length - 1;
+    if (isLast && !loop) return; // Hold on the final item
+
+    setPrevious(order[position] ?? null);
+    setPosition(isLast ? 0 : position + 1);
+    setPlayCount((count) => count + 1);
+  }, [order, position, loop]);
+
+  // Reset the item timer whenever a new item starts
+  useEffect(() => {
+    remainingRef.current = (currentDuration + pauseBetweenItems) * 1000;
+  }, [currentId, currentDuration, playCount, pauseBetweenItems]);
+
+  // Advance after the item's duration; pausing keeps the time already played.
+  // Media that fails to load simply shows black until its time is up
+  useEffect(() => {
+    if (!currentId || paused || !autoAdvance) return;
+
+    const startedAt = Date.now();
+    const timer = setTimeout(advance, remainingRef.current);
+
+    return () => {
+      clearTimeout(timer);
+      remainingRef.current = Math.max(0, remainingRef.current - (Date.now() - startedAt));
+    };
+  }, [currentId, playCount, paused, autoAdvance, advance]);
+
+  // Report what is on screen whenever an item starts, pauses or resumes, so
+  // the control room can follow along without polling
+  const playlistId = playlist?.id ?? null;
+  useEffect(() => {
+    if (!current) return;
+
+    const elapsed = currentDuration + pauseBetweenItems - remainingRef.current / 1000;
+    playerSocketService.emitPlaybackProgress({
+      playlistId,
+      itemId: current.id,
+      mediaId: current.media.id,
+      mediaName: current.media.name,
+      mediaType: current.media.type,
+      index: position,
+      total: order.length,
+      duration: currentDuration,
+      elapsed: Math.min(currentDuration, Math.max(0, elapsed)),
+      paused,
+    });
+  }, [current, playCount, paused, currentDuration, pauseBetweenItems, position, order.length, playlistId]);
+
+  // Drop the outgoing layer once the incoming transition has finished
+  useEffect(() => {
+    if (!previous) return;
+    const duration = currentTransition && currentTransition.type !== "none"
+      ? currentTransition.duration * 1000
+      : 0;
+    const timer = setTimeout(() => setPrevious(null), duration);
+    return () => clearTimeout(timer);
+  }, [previous, currentTransition]);
+
+  // Pause and resume video playback with emergency controls
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (paused) {
+      video.pause();
+      return;
+    }
+
+    const volume = session?.settings?.volume;
+    video.volume = volume !== undefined ? volume / 100 : 1;
+    video.play().catch(() => {
+      // Browsers without an autoplay exemption only allow muted playback
+      video.muted = true;
+      video.play().catch((error) => console.warn("Video playback failed:", error));
+    });
+  }, [paused, currentId, playCount, session?.settings?.volume]);
+
+  return (
+    <div
+      className="fixed inset-0 overflow-hidden cursor-none select-none"
+      style={{
+        backgroundColor,
+        color: textColor,
+        filter: brightness !== undefined && brightness !== 100 ? `brightness(${brightness}%)` : undefined,
+      }}
+    >
+      {previous && previous.id !== currentId && <MediaLayer item={previous} still />}
+
+      {current ? (
+        <MediaLayer
+          key={`${current.id}-${playCount}`}
+          item={current}
+          className={PLAYLIST_TRANSITION_CLASSES[currentTransition?.type ?? "none"] ?? ""}
+          style={getTransitionStyle(currentTransition)}
+          videoRef={videoRef}
+          onEnded={advance}
+        />
+      ) : (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 text-neutral-500">
+          <Monitor className="h-16 w-16" />
+          <p className="text-2xl font-medium text-neutral-300">{session?.name}</p>
+          <p className="text-lg">
+            {shuffled.length > 0 ? "Nothing scheduled to play right now" : "No content assigned to this screen"}
+          </p>
+        </div>
+      )}
+
+      {current && showMetadata && (
+        <div className="absolute bottom-4 left-4 z-20 rounded bg-black/50 px-3 py-1 text-sm">
+          {current.media.name} · {position + 1} / {order.length}
+        </div>
+      )}
+
+      {!connected && (
+        <div className="absolute bottom-4 right-4 z-30 rounded-full bg-black/60 p-2" title="Disconnected from server">
+          <WifiOff className="h-5 w-5 text-neutral-400" />
+        </div>
+      )}
+
+      {emergency && <EmergencyOverlay event={emergency} />}
+    </div>
+  );
+}
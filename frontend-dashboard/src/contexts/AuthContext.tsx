@@ -17,9 +17,19 @@ import {
 import type { 
   User, 
   AuthResponse, 
+  AuthTokens,
   LoginRequest,
   RegisterRequest
 } from '../services/auth';
+import {
+  getAccessToken,
+  getFreshAccessToken,
+  setAuthTokens,
+  clearAuthTokens,
+  scheduleTokenRefresh,
+  onAuthTokenChange,
+  onSessionExpired
+} from '../services/httpClient';
 
 interface AuthState {
   user: User | null;
@@ -39,47 +49,26 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 /**
  * Token storage utilities
- * Uses localStorage for persistent login credentials across browser sessions
+ * Tokens live in the shared HTTP client, which refreshes them; the user
+ * is kept alongside for instant restores
  */
 class TokenStorage {
-  private static token: string | null = null;
-  private static readonly TOKEN_KEY = 'auth_token';
   private static readonly USER_KEY = 'auth_user';
 
-  static setToken(token: string): void {
-    this.token = token;
-    try {
-      localStorage.setItem(this.TOKEN_KEY, token);
-    } catch (error) {
-      console.warn('Failed to store token in localStorage:', error);
-    }
+  static setTokens(tokens: AuthTokens): void {
+    setAuthTokens(tokens);
   }
 
   static getToken(): string | null {
-    if (this.token) {
-      return this.token;
-    }
-    
-    try {
-      const storedToken = localStorage.getItem(this.TOKEN_KEY);
-      if (storedToken) {
-        this.token = storedToken;
-        return storedToken;
-      }
-    } catch (error) {
-      console.warn('Failed to retrieve token from localStorage:', error);
-    }
-    
-    return null;
+    return getAccessToken();
   }
 
   static clearToken(): void {
-    this.token = null;
+    clearAuthTokens();
     try {
-      localStorage.removeItem(this.TOKEN_KEY);
       localStorage.removeItem(this.USER_KEY);
     } catch (error) {
-      console.warn('Failed to clear token from localStorage:', error);
+      console.warn('Failed to clear user from localStorage:', error);
     }
   }
 
@@ -122,8 +111,23 @@ export function AuthProvider({ children }: AuthProviderProps) {
    */
   useEffect(() => {
     const initAuth = async () => {
-      const token = TokenStorage.getToken();
       const storedUser = TokenStorage.getUser();
+
+      // Refreshes first when the stored access token has expired
+      let token: string | null;
+      try {
+        token = TokenStorage.getToken() && await getFreshAccessToken();
+      } catch (error) {
+        // The refresh could not reach the server; stay signed in and let requests try again
+        console.warn('Token refresh on start failed:', getErrorMessage(error));
+        setAuthState({
+          user: storedUser,
+          token: TokenStorage.getToken(),
+          isLoading: false,
+          isAuthenticated: !!storedUser,
+        });
+        return;
+      }
       
       if (!token) {
         setAuthState(prev => ({ ...prev, isLoading: false }));
@@ -152,6 +156,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         
         // Update stored user data with fresh data
         TokenStorage.setUser(response.data.user);
+        scheduleTokenRefresh();
       } catch (error) {
         // Token is invalid, clear everything
         TokenStorage.clearToken();
@@ -168,6 +173,30 @@ export function AuthProvider({ children }: AuthProviderProps) {
     initAuth();
   }, []);
 
+  /**
+   * Follow silent token refreshes, and sign out when the session ends
+   */
+  useEffect(() => {
+    const unsubscribeToken = onAuthTokenChange(token => {
+      setAuthState(prev => (token && prev.isAuthenticated ? { ...prev, token } : prev));
+    });
+
+    const unsubscribeExpired = onSessionExpired(() => {
+      TokenStorage.clearToken();
+      setAuthState({
+        user: null,
+        token: null,
+        isLoading: false,
+        isAuthenticated: false,
+      });
+    });
+
+    return () => {
+      unsubscribeToken();
+      unsubscribeExpired();
+    };
+  }, []);
+
   /**
    * Login function
    */
@@ -180,7 +209,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       if (response.success) {
         const { user, tokens } = response.data;
         
-        TokenStorage.setToken(tokens.accessToken);
+        TokenStorage.setTokens(tokens);
         TokenStorage.setUser(user);
         
         setAuthState({
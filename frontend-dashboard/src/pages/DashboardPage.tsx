@@ -6,10 +6,12 @@ import { PlaylistEditor } from "../components/PlaylistEditor";
 import { RealTimeControl } from "../components/RealTimeControl";
 import { Navigation } from "../components/Navigation";
 import { useAuth } from "../contexts/AuthContext";
+import { useActiveOrganizationId } from "../stores/useOrganizationStore";
 
 export function DashboardPage() {
   const { logout } = useAuth();
   const [currentPage, setCurrentPage] = useState("dashboard");
+  const activeOrganizationId = useActiveOrganizationId();
 
   const renderCurrentPage = () => {
     switch (currentPage) {
@@ -70,7 +72,10 @@ export function DashboardPage() {
         onPageChange={setCurrentPage}
         onLogout={logout}
       />
-      {renderCurrentPage()}
+      {/* Remount on switching workspace so pages load the new organization's data */}
+      <div key={activeOrganizationId ?? "default"}>
+        {renderCurrentPage()}
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { ForgotPassword } from "../components/ForgotPassword";
+import { useNavigate } from "react-router-dom";
+
+export function ForgotPasswordPage() {
+  const navigate = useNavigate();
+
+  return <ForgotPassword onSwitchToLogin={() => navigate("/login")} />;
+}
\ No newline at end of file
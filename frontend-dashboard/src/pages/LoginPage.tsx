@@ -4,5 +4,10 @@ import { useNavigate } from "react-router-dom";
 export function LoginPage() {
   const navigate = useNavigate();
 
-  return <Login onSwitchToRegister={() => navigate("/register")} />;
+  return (
+    <Login
+      onSwitchToRegister={() => navigate("/register")}
+      onForgotPassword={() => navigate("/forgot-password")}
+    />
+  );
 }
\ No newline at end of file
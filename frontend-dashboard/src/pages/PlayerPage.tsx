@@ -0,0 +1,68 @@
+import { useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Loader2, AlertTriangle } from "lucide-react";
+import { PlayerPairing } from "../components/player/PlayerPairing";
+import { PlayerStage } from "../components/player/PlayerStage";
+import { usePlayerStore, usePlayerStatus, usePlayerError } from "../stores/usePlayerStore";
+import { registerPlayerServiceWorker } from "../services/playerCache";
+
+// How long to wait before retrying when the server cannot be reached
+const RETRY_INTERVAL = 30000;
+
+/**
+ * Display player entry point, loaded by kiosk-mode browsers on screens.
+ * Authenticates with the screen access key stored at pairing time, not a user session
+ */
+export function PlayerPage() {
+  const [searchParams] = useSearchParams();
+  const status = usePlayerStatus();
+  const error = usePlayerError();
+  const start = usePlayerStore((state) => state.start);
+  const stop = usePlayerStore((state) => state.stop);
+
+  useEffect(() => {
+    registerPlayerServiceWorker();
+  }, []);
+
+  useEffect(() => {
+    if (usePlayerStore.getState().credentials) {
+      start();
+    }
+    return () => stop();
+  }, [start, stop]);
+
+  useEffect(() => {
+    if (status !== "error") return;
+    const timer = setTimeout(start, RETRY_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [status, start]);
+
+  if (status === "unpaired" || status === "pairing") {
+    return (
+      <PlayerPairing
+        initialCode={searchParams.get("code")}
+        initialServerUrl={searchParams.get("server")}
+      />
+    );
+  }
+
+  if (status === "loading") {
+    return (
+      <div className="fixed inset-0 bg-black flex items-center justify-center">
+        <Loader2 className="w-10 h-10 animate-spin text-neutral-500" />
+      </div>
+    );
+  }
+
+  if (status === "error") {
+    return (
+      <div className="fixed inset-0 bg-black flex flex-col items-center justify-center gap-4 text-neutral-400">
+        <AlertTriangle className="w-10 h-10" />
+        <p>{error || "Unable to reach the server"}</p>
+        <p className="text-sm">Retrying automatically...</p>
+      </div>
+    );
+  }
+
+  return <PlayerStage />;
+}
@@ -0,0 +1,15 @@
+import { ResetPassword } from "../components/ResetPassword";
+import { useNavigate, useSearchParams } from "react-router-dom";
+
+export function ResetPasswordPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  return (
+    <ResetPassword
+      token={searchParams.get("token")}
+      onSwitchToLogin={() => navigate("/login")}
+      onRequestNewLink={() => navigate("/forgot-password")}
+    />
+  );
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { VerifyEmail } from "../components/VerifyEmail";
+import { useNavigate, useSearchParams } from "react-router-dom";
+
+export function VerifyEmailPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  // The dashboard sends signed-out users on to /login
+  return <VerifyEmail token={searchParams.get("token")} onContinue={() => navigate("/dashboard")} />;
+}
\ No newline at end of file
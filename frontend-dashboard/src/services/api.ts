@@ -4,31 +4,9 @@
  */
 
 import { AuthApiError } from './auth';
+import { fetchWithRetry, sendAuthorizedXhr } from './httpClient';
 
 const API_BASE_URL = 'http://localhost:5000/api';
-const MAX_RETRY_ATTEMPTS = 3;
-const RETRY_DELAY = 1000; // 1 second base delay
-const REQUEST_TIMEOUT = 30000; // 30 seconds default timeout
-
-/**
- * Get authentication token from localStorage
- * Fixed to match the token storage strategy in AuthContext exactly
- */
-function getAuthToken(): string | null {
-  try {
-    return localStorage.getItem('auth_token');
-  } catch (error) {
-    console.warn('Failed to retrieve auth token:', error);
-    return null;
-  }
-}
-
-/**
- * Sleep utility for retry delays with exponential backoff
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
 
 /**
  * Create standardized error from response
@@ -57,70 +35,6 @@ function createErrorFromResponse(response: Response, data?: any): AuthApiError {
   }
 }
 
-/**
- * Enhanced fetch with retry logic and proper error handling
- */
-async function fetchWithRetry(
-  url: string, 
-  options: RequestInit = {}, 
-  retryCount = 0,
-  timeout = REQUEST_TIMEOUT
-): Promise<Response> {
-  const token = getAuthToken();
-  
-  if (!token) {
-    throw new AuthApiError('Authentication required', 401);
-  }
-
-  const config: RequestInit = {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      ...options.headers,
-    },
-  };
-
-  // Add Content-Type only for non-FormData requests
-  if (!(options.body instanceof FormData)) {
-    config.headers = {
-      'Content-Type': 'application/json',
-      ...config.headers,
-    };
-  }
-
-  try {
-    // Add timeout to the request
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-    
-    const response = await fetch(url, {
-      ...config,
-      signal: controller.signal,
-    });
-    
-    clearTimeout(timeoutId);
-    return response;
-  } catch (error) {
-    // Handle network errors with retry logic for non-upload requests
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      if (retryCount < MAX_RETRY_ATTEMPTS && !(options.body instanceof FormData)) {
-        const delay = RETRY_DELAY * Math.pow(2, retryCount); // Exponential backoff
-        console.warn(`Network error, retrying in ${delay}ms... (attempt ${retryCount + 1}/${MAX_RETRY_ATTEMPTS})`);
-        await sleep(delay);
-        return fetchWithRetry(url, options, retryCount + 1, timeout);
-      }
-      throw new AuthApiError('Network error. Please check your connection.', 0);
-    }
-    
-    // Handle abort/timeout errors
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new AuthApiError('Request timeout. Please try again.', 0);
-    }
-    
-    throw error;
-  }
-}
-
 /**
  * Process response and handle errors consistently
  */
@@ -152,7 +66,7 @@ export async function authenticatedRequest<T>(
   const url = `${API_BASE_URL}${endpoint}`;
   
   try {
-    const response = await fetchWithRetry(url, options, 0, timeout);
+    const response = await fetchWithRetry(url, options, timeout);
     return await processResponse<T>(response);
   } catch (error) {
     console.error(`API request failed for ${endpoint}:`, error);
@@ -177,12 +91,6 @@ export async function uploadFile<T>(
   onProgress?: UploadProgressCallback,
   timeout = 120000 // 2 minutes for uploads
 ): Promise<T> {
-  const token = getAuthToken();
-  
-  if (!token) {
-    throw new AuthApiError('Authentication required', 401);
-  }
-
   const formData = new FormData();
   formData.append('file', file);
   
@@ -193,12 +101,12 @@ export async function uploadFile<T>(
     });
   }
 
-  return new Promise<T>((resolve, reject) => {
-    const xhr = new XMLHttpRequest();
+  const xhr = await sendAuthorizedXhr(() => {
+    const request = new XMLHttpRequest();
 
     // Track upload progress
     if (onProgress) {
-      xhr.upload.onprogress = (event) => {
+      request.upload.onprogress = (event) => {
         if (event.lengthComputable) {
           const percentage = Math.round((event.loaded / event.total) * 100);
           onProgress({
@@ -210,48 +118,30 @@ export async function uploadFile<T>(
       };
     }
 
-    // Handle successful completion
-    xhr.onload = () => {
-      try {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          const response = JSON.parse(xhr.responseText);
-          resolve(response);
-        } else {
-          let errorData;
-          try {
-            errorData = JSON.parse(xhr.responseText);
-          } catch {
-            errorData = { message: 'Upload failed' };
-          }
-          
-          const error = createErrorFromResponse(
-            { status: xhr.status, statusText: xhr.statusText } as Response,
-            errorData
-          );
-          
-          reject(error);
-        }
-      } catch (parseError) {
-        reject(new AuthApiError('Failed to parse server response', xhr.status));
-      }
-    };
+    request.timeout = timeout;
+    request.open('POST', `${API_BASE_URL}${endpoint}`);
+    return request;
+  }, formData);
 
-    // Handle network errors
-    xhr.onerror = () => {
-      reject(new AuthApiError('Network error during upload', 0));
-    };
+  if (xhr.status >= 200 && xhr.status < 300) {
+    try {
+      return JSON.parse(xhr.responseText);
+    } catch {
+      throw new AuthApiError('Failed to parse server response', xhr.status);
+    }
+  }
 
-    // Handle timeouts
-    xhr.ontimeout = () => {
-      reject(new AuthApiError('Upload timeout. Please try again.', 0));
-    };
+  let errorData;
+  try {
+    errorData = JSON.parse(xhr.responseText);
+  } catch {
+    errorData = { message: 'Upload failed' };
+  }
 
-    // Configure and send request
-    xhr.timeout = timeout;
-    xhr.open('POST', `${API_BASE_URL}${endpoint}`);
-    xhr.setRequestHeader('Authorization', `Bearer ${token}`);
-    xhr.send(formData);
-  });
+  throw createErrorFromResponse(
+    { status: xhr.status, statusText: xhr.statusText } as Response,
+    errorData
+  );
 }
 
 /**
@@ -20,16 +20,21 @@ export interface User {
   id: string;
   email: string;
   name: string;
+  isVerified?: boolean;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  accessTokenExpiresAt?: string;
+  refreshTokenExpiresAt?: string;
 }
 
 export interface AuthResponse {
   success: boolean;
   data: {
     user: User;
-    tokens: {
-      accessToken: string;
-      refreshToken?: string;
-    };
+    tokens: AuthTokens;
   };
   message: string;
 }
@@ -148,6 +153,48 @@ export async function getProfile(token: string): Promise<{ success: boolean; dat
  */
 export async function logout(token: string): Promise<{ success: boolean; message: string }> {
   return apiRequest<{ success: boolean; message: string }>('/auth/logout', {
+    method: 'POST',
+    credentials: 'include', // Clears the refresh cookie too
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+}
+
+/**
+ * Email a password reset link; succeeds whether or not the account exists
+ */
+export async function forgotPassword(email: string): Promise<{ success: boolean; message: string }> {
+  return apiRequest<{ success: boolean; message: string }>('/auth/forgot-password', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+}
+
+/**
+ * Choose a new password with the token from a reset email
+ */
+export async function resetPassword(token: string, password: string): Promise<{ success: boolean; message: string }> {
+  return apiRequest<{ success: boolean; message: string }>('/auth/reset-password', {
+    method: 'POST',
+    body: JSON.stringify({ token, password }),
+  });
+}
+
+/**
+ * Verify an email address with the token from a verification email
+ */
+export async function verifyEmail(token: string): Promise<{ success: boolean; message: string; data: { user: User } }> {
+  return apiRequest<{ success: boolean; message: string; data: { user: User } }>(`/auth/verify/${encodeURIComponent(token)}`, {
+    method: 'GET',
+  });
+}
+
+/**
+ * Email a new verification link to the signed-in user (requires authentication)
+ */
+export async function resendVerification(token: string): Promise<{ success: boolean; message: string }> {
+  return apiRequest<{ success: boolean; message: string }>('/auth/resend-verification', {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${token}`,
@@ -0,0 +1,263 @@
+/**
+ * Emergency API Service Layer
+ *
+ * Provides a typed interface for issuing, listing and clearing
+ * emergency broadcasts, with the same error handling and retry
+ * logic as the other dashboard services.
+ *
+ * Features:
+ * - Issue emergency stops and templated alerts
+ * - Target all screens, specific screens or screen groups
+ * - Active emergencies and audited history
+ * - Clearing with an optional reason
+ */
+
+import { AuthApiError } from './auth';
+import { fetchWithRetry } from './httpClient';
+import type {
+  EmergencyBroadcast,
+  EmergencyResponse,
+  EmergencyListResponse,
+  EmergencyBroadcastStatus,
+  EmergencySeverity,
+  CreateEmergencyData,
+} from '../types';
+
+// ============================
+// Configuration
+// ============================
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Create standardized error from response
+ */
+function createErrorFromResponse(
+  response: Response,
+  data?: { message?: string; error?: string; errors?: Record<string, string> }
+): AuthApiError {
+  const message = data?.message || data?.error || `HTTP ${response.status}: ${response.statusText}`;
+
+  switch (response.status) {
+    case 400:
+      return new AuthApiError(message, 400, data?.errors);
+    case 401:
+      return new AuthApiError('Session expired. Please log in again.', 401);
+    case 403:
+      return new AuthApiError('Access denied', 403);
+    case 404:
+      return new AuthApiError(message || 'Emergency broadcast not found', 404);
+    case 429:
+      return new AuthApiError('Too many requests. Please try again later.', 429);
+    default:
+      if (response.status >= 500) {
+        return new AuthApiError('Server error. Please try again later.', response.status);
+      }
+      return new AuthApiError(message, response.status);
+  }
+}
+
+/**
+ * Process response and handle errors consistently
+ */
+async function processResponse<T>(response: Response): Promise<T> {
+  let data;
+
+  try {
+    data = await response.json();
+  } catch {
+    throw new AuthApiError('Invalid response format', response.status);
+  }
+
+  if (!response.ok) {
+    throw createErrorFromResponse(response, data);
+  }
+
+  return data as T;
+}
+
+// ============================
+// Core Emergency API Functions
+// ============================
+
+/**
+ * Issue an emergency broadcast
+ *
+ * @param data Emergency content, targets and timing
+ * @returns Promise with the stored emergency and how many screens were notified
+ */
+export async function createEmergency(data: CreateEmergencyData): Promise<EmergencyResponse['data']> {
+  const url = `${API_BASE_URL}/emergencies`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    const result = await processResponse<EmergencyResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to issue emergency broadcast:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get emergencies that are live or scheduled to start
+ *
+ * @returns Promise<EmergencyBroadcast[]> Active emergencies, newest first
+ */
+export async function getActiveEmergencies(): Promise<EmergencyBroadcast[]> {
+  const url = `${API_BASE_URL}/emergencies/active`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<EmergencyListResponse>(response);
+    return result.data.emergencies;
+  } catch (error) {
+    console.error('Failed to fetch active emergencies:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get emergency history
+ *
+ * @param params Optional status filter and result limit
+ * @returns Promise<EmergencyBroadcast[]> Emergencies, newest first
+ */
+export async function getEmergencies(
+  params: { status?: EmergencyBroadcastStatus; limit?: number } = {}
+): Promise<EmergencyBroadcast[]> {
+  const queryParams = new URLSearchParams();
+
+  if (params.status) queryParams.append('status', params.status);
+  if (params.limit) queryParams.append('limit', String(params.limit));
+
+  const url = `${API_BASE_URL}/emergencies?${queryParams}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<EmergencyListResponse>(response);
+    return result.data.emergencies;
+  } catch (error) {
+    console.error('Failed to fetch emergency history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Clear an active emergency
+ *
+ * @param id Emergency ID
+ * @param reason Optional reason recorded in the audit log
+ * @returns Promise<EmergencyBroadcast> The cleared emergency
+ */
+export async function clearEmergency(id: string, reason?: string): Promise<EmergencyBroadcast> {
+  const url = `${API_BASE_URL}/emergencies/${id}/clear`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify(reason ? { reason } : {}),
+    });
+
+    const result = await processResponse<EmergencyResponse>(response);
+    return result.data.emergency;
+  } catch (error) {
+    console.error('Failed to clear emergency broadcast:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Check if error is an emergency API error
+ */
+export function isEmergencyApiError(error: unknown): error is AuthApiError {
+  return error instanceof AuthApiError;
+}
+
+/**
+ * Get user-friendly error message
+ */
+export function getEmergencyErrorMessage(error: unknown): string {
+  if (isEmergencyApiError(error)) {
+    return error.message;
+  }
+
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  return 'An unexpected error occurred';
+}
+
+/**
+ * Whether an emergency is in force right now (as opposed to scheduled or ended)
+ */
+export function isEmergencyLive(emergency: EmergencyBroadcast, now: number = Date.now()): boolean {
+  return (
+    emergency.status === 'active' &&
+    new Date(emergency.startsAt).getTime() <= now &&
+    (!emergency.expiresAt || new Date(emergency.expiresAt).getTime() > now)
+  );
+}
+
+/**
+ * Describe who an emergency targets
+ */
+export function formatEmergencyTarget(emergency: EmergencyBroadcast): string {
+  switch (emergency.targetType) {
+    case 'screens':
+      return `${emergency.screens.length} screen${emergency.screens.length === 1 ? '' : 's'}`;
+    case 'groups':
+      return emergency.groups
+        .map(group => (typeof group === 'string' ? group : group.name))
+        .join(', ');
+    default:
+      return 'All screens';
+  }
+}
+
+/**
+ * Name of the user who issued or cleared an emergency
+ */
+export function getEmergencyUserName(user?: EmergencyBroadcast['issuedBy']): string {
+  if (!user) return 'Unknown';
+  return typeof user === 'string' ? 'Unknown' : user.name || user.email;
+}
+
+export const EMERGENCY_SEVERITY_COLORS: Record<EmergencySeverity, string> = {
+  info: '#1d4ed8',
+  warning: '#b45309',
+  critical: '#b91c1c',
+};
+
+// ============================
+// Export default API object
+// ============================
+
+export const emergencyAPI = {
+  createEmergency,
+  getActiveEmergencies,
+  getEmergencies,
+  clearEmergency,
+
+  // Utility functions
+  isEmergencyApiError,
+  getEmergencyErrorMessage,
+  isEmergencyLive,
+  formatEmergencyTarget,
+  getEmergencyUserName,
+} as const;
+
+export default emergencyAPI;
@@ -0,0 +1,406 @@
+/**
+ * Shared HTTP Client
+ * The one place the API services get their access token from. Tokens are
+ * refreshed shortly before they expire, and a request answered with 401 waits
+ * for a refresh and is sent once more, so a session only ends when the
+ * refresh token itself is rejected.
+ *
+ * Rules:
+ * - Only one refresh runs at a time; requests made while it runs wait for it
+ * - A request is replayed at most once after a 401
+ * - A rejected refresh clears the stored tokens and notifies session listeners
+ * - Requests name the active organization (workspace) in X-Organization-Id
+ */
+
+import { AuthApiError } from './auth';
+import type { AuthTokens } from './auth';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+const MAX_RETRY_ATTEMPTS = 3;
+const RETRY_DELAY = 1000; // 1 second base delay
+const REQUEST_TIMEOUT = 30000; // 30 seconds default timeout
+const REFRESH_MARGIN = 60000; // Refresh a minute before the access token expires
+
+// Same keys AuthContext stores the session under
+const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'auth_refresh_token';
+const EXPIRES_AT_KEY = 'auth_token_expires_at';
+const ACTIVE_ORGANIZATION_KEY = 'active_organization';
+
+type TokenListener = (accessToken: string | null) => void;
+type SessionExpiredListener = () => void;
+type OrganizationListener = (organizationId: string | null) => void;
+
+const tokenListeners = new Set<TokenListener>();
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+const organizationListeners = new Set<OrganizationListener>();
+
+let refreshPromise: Promise<string | null> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ============================
+// Token Storage
+// ============================
+
+function readStorage(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch (error) {
+    console.warn('Failed to read auth storage:', error);
+    return null;
+  }
+}
+
+/**
+ * Current access token, or null when signed out
+ */
+export function getAccessToken(): string | null {
+  return readStorage(TOKEN_KEY);
+}
+
+function getRefreshToken(): string | null {
+  return readStorage(REFRESH_TOKEN_KEY);
+}
+
+/**
+ * Expiry from a JWT's `exp` claim, in ms; null when it cannot be read
+ */
+function decodeTokenExpiry(token: string): number | null {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(payload));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * When the access token expires, in ms; tokens stored before expiry was
+ * recorded fall back to their `exp` claim
+ */
+function getAccessTokenExpiry(): number | null {
+  const stored = Number(readStorage(EXPIRES_AT_KEY));
+  if (stored) return stored;
+
+  const token = getAccessToken();
+  return token ? decodeTokenExpiry(token) : null;
+}
+
+/**
+ * Store a new token pair and schedule its refresh
+ */
+export function setAuthTokens(tokens: AuthTokens): void {
+  const expiresAt = tokens.accessTokenExpiresAt
+    ? new Date(tokens.accessTokenExpiresAt).getTime()
+    : decodeTokenExpiry(tokens.accessToken);
+
+  try {
+    localStorage.setItem(TOKEN_KEY, tokens.accessToken);
+    if (tokens.refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+    if (expiresAt) localStorage.setItem(EXPIRES_AT_KEY, String(expiresAt));
+    else localStorage.removeItem(EXPIRES_AT_KEY);
+  } catch (error) {
+    console.warn('Failed to store auth tokens:', error);
+  }
+
+  scheduleTokenRefresh();
+  tokenListeners.forEach(listener => listener(tokens.accessToken));
+}
+
+/**
+ * Forget the stored tokens and stop refreshing them
+ */
+export function clearAuthTokens(): void {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+
+  try {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    localStorage.removeItem(EXPIRES_AT_KEY);
+    // The next user to sign in may not belong to it
+    localStorage.removeItem(ACTIVE_ORGANIZATION_KEY);
+  } catch (error) {
+    console.warn('Failed to clear auth tokens:', error);
+  }
+
+  tokenListeners.forEach(listener => listener(null));
+}
+
+/**
+ * Subscribe to access token changes (refreshes, logins and logouts)
+ * @returns Unsubscribe function
+ */
+export function onAuthTokenChange(listener: TokenListener): () => void {
+  tokenListeners.add(listener);
+  return () => tokenListeners.delete(listener);
+}
+
+/**
+ * Subscribe to sessions ending because the refresh token was rejected
+ * @returns Unsubscribe function
+ */
+export function onSessionExpired(listener: SessionExpiredListener): () => void {
+  sessionExpiredListeners.add(listener);
+  return () => sessionExpiredListeners.delete(listener);
+}
+
+// ============================
+// Active Organization
+// ============================
+
+/**
+ * Organization requests work in, or null for the user's default
+ */
+export function getActiveOrganizationId(): string | null {
+  return readStorage(ACTIVE_ORGANIZATION_KEY);
+}
+
+/**
+ * Switch the organization requests and the dashboard socket work in
+ */
+export function setActiveOrganizationId(organizationId: string | null): void {
+  if (organizationId === getActiveOrganizationId()) return;
+
+  try {
+    if (organizationId) localStorage.setItem(ACTIVE_ORGANIZATION_KEY, organizationId);
+    else localStorage.removeItem(ACTIVE_ORGANIZATION_KEY);
+  } catch (error) {
+    console.warn('Failed to store active organization:', error);
+  }
+
+  organizationListeners.forEach(listener => listener(organizationId));
+}
+
+/**
+ * Subscribe to organization switches
+ * @returns Unsubscribe function
+ */
+export function onActiveOrganizationChange(listener: OrganizationListener): () => void {
+  organizationListeners.add(listener);
+  return () => organizationListeners.delete(listener);
+}
+
+// ============================
+// Refresh
+// ============================
+
+/**
+ * Exchange the refresh token for a new token pair. Concurrent callers share
+ * one request; resolves with the new access token, or null when the session
+ * has ended. Rejects, keeping the session, when the refresh could not be
+ * completed (offline, rate limited or a server error)
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = requestTokenRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
+async function requestTokenRefresh(): Promise<string | null> {
+  const refreshToken = getRefreshToken();
+
+  let response: Response;
+  try {
+    // The refresh cookie is sent too, for sessions that never stored the token
+    response = await fetch(`${API_BASE_URL}/auth/refresh-token`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(refreshToken ? { refreshToken } : {}),
+    });
+  } catch (error) {
+    // Offline: keep the session and let the next request try again
+    console.warn('Token refresh failed:', error);
+    throw new AuthApiError('Network error. Please check your connection.', 0);
+  }
+
+  // Only a refused refresh token ends the session
+  if (response.status === 401 || response.status === 403) {
+    clearAuthTokens();
+    sessionExpiredListeners.forEach(listener => listener());
+    return null;
+  }
+
+  let tokens: AuthTokens | undefined;
+  try {
+    tokens = response.ok ? (await response.json())?.data?.tokens : undefined;
+  } catch (error) {
+    console.warn('Token refresh returned an unreadable response:', error);
+  }
+
+  if (!tokens?.accessToken) {
+    throw new AuthApiError('Could not refresh your session. Please try again.', response.status);
+  }
+
+  setAuthTokens(tokens);
+  return tokens.accessToken;
+}
+
+/**
+ * Refresh the access token a minute before it expires. Called whenever
+ * tokens are stored, and once on app start for a restored session
+ */
+export function scheduleTokenRefresh(): void {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+
+  const expiresAt = getAccessTokenExpiry();
+  if (!expiresAt || !getAccessToken()) return;
+
+  const delay = Math.max(expiresAt - REFRESH_MARGIN - Date.now(), 0);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    // A failed attempt is retried by the next request, which finds the token about to expire
+    refreshAccessToken().catch(error => console.warn('Scheduled token refresh failed:', error));
+  }, delay);
+}
+
+/**
+ * The access token to send now: waits for a refresh already in flight, and
+ * refreshes first when the token is about to expire
+ */
+export async function getFreshAccessToken(): Promise<string | null> {
+  if (refreshPromise) return refreshPromise;
+
+  const expiresAt = getAccessTokenExpiry();
+  if (getAccessToken() && expiresAt && expiresAt - Date.now() < REFRESH_MARGIN) {
+    return refreshAccessToken();
+  }
+
+  return getAccessToken();
+}
+
+// ============================
+// Requests
+// ============================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Authenticated fetch with a timeout, network retries with exponential
+ * backoff, and one replay after a 401 once the token is refreshed.
+ * JSON is assumed unless the body is FormData; FormData is never retried
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit = {},
+  timeout = REQUEST_TIMEOUT
+): Promise<Response> {
+  const token = await getFreshAccessToken();
+
+  if (!token) {
+    throw new AuthApiError('Authentication required', 401);
+  }
+
+  const response = await sendWithRetry(url, options, token, timeout);
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const refreshedToken = await refreshAccessToken();
+  if (!refreshedToken || refreshedToken === token) {
+    return response;
+  }
+
+  return sendWithRetry(url, options, refreshedToken, timeout);
+}
+
+async function sendWithRetry(
+  url: string,
+  options: RequestInit,
+  token: string,
+  timeout: number,
+  retryCount = 0
+): Promise<Response> {
+  const isFormData = options.body instanceof FormData;
+  const organizationId = getActiveOrganizationId();
+  const config: RequestInit = {
+    ...options,
+    headers: {
+      ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
+      'Authorization': `Bearer ${token}`,
+      ...(organizationId ? { 'X-Organization-Id': organizationId } : {}),
+      ...options.headers,
+    },
+  };
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    return await fetch(url, {
+      ...config,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    // Handle network errors with retry logic for non-upload requests
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      if (retryCount < MAX_RETRY_ATTEMPTS && !isFormData) {
+        const delay = RETRY_DELAY * Math.pow(2, retryCount); // Exponential backoff
+        console.warn(`Network error, retrying in ${delay}ms... (attempt ${retryCount + 1}/${MAX_RETRY_ATTEMPTS})`);
+        await sleep(delay);
+        return sendWithRetry(url, options, token, timeout, retryCount + 1);
+      }
+      throw new AuthApiError('Network error. Please check your connection.', 0);
+    }
+
+    // Handle abort/timeout errors
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new AuthApiError('Request timeout. Please try again.', 0);
+    }
+
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Send an authenticated XMLHttpRequest (used for uploads with progress),
+ * replaying it once after a 401 like fetchWithRetry does
+ * @param createRequest - Builds and opens a fresh request: handlers, timeout, method and URL
+ * @param body - Request body
+ * @returns The finished request, whatever its status
+ */
+export async function sendAuthorizedXhr(
+  createRequest: () => XMLHttpRequest,
+  body: XMLHttpRequestBodyInit
+): Promise<XMLHttpRequest> {
+  const token = await getFreshAccessToken();
+
+  if (!token) {
+    throw new AuthApiError('Authentication required', 401);
+  }
+
+  const xhr = await sendXhr(createRequest(), body, token);
+  if (xhr.status !== 401) {
+    return xhr;
+  }
+
+  const refreshedToken = await refreshAccessToken();
+  if (!refreshedToken || refreshedToken === token) {
+    return xhr;
+  }
+
+  return sendXhr(createRequest(), body, refreshedToken);
+}
+
+function sendXhr(xhr: XMLHttpRequest, body: XMLHttpRequestBodyInit, token: string): Promise<XMLHttpRequest> {
+  return new Promise((resolve, reject) => {
+    xhr.onload = () => resolve(xhr);
+    xhr.onerror = () => reject(new AuthApiError('Network error during upload', 0));
+    xhr.ontimeout = () => reject(new AuthApiError('Upload timeout. Please try again.', 0));
+
+    xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    const organizationId = getActiveOrganizationId();
+    if (organizationId) xhr.setRequestHeader('X-Organization-Id', organizationId);
+    xhr.send(body);
+  });
+}
@@ -15,16 +15,21 @@
  */
 
 import { AuthApiError } from './auth';
+import { fetchWithRetry, sendAuthorizedXhr } from './httpClient';
 
 // ============================
 // TypeScript Interfaces
 // ============================
 
+// Backend the file is stored with; the storage key is its ID there
+export type MediaStorageProvider = 'cloudinary' | 'local' | 's3';
+
 export interface MediaItem {
   _id: string;
   originalName: string;
   filename: string;
-  cloudinaryId: string;
+  storageKey: string;
+  storageProvider: MediaStorageProvider;
   url: string;
   secureUrl: string;
   type: 'image' | 'video';
@@ -113,12 +118,14 @@ export interface MediaStatsResponse {
     database: MediaStatistics;
     recent: MediaItem[];
     popular: MediaItem[];
+    // null when the storage provider doesn't report usage; credits are Cloudinary only
     storage: {
       userId: string;
-      images: { count: number; bytes: number; credits: number };
-      videos: { count: number; bytes: number; credits: number };
-      total: { count: number; bytes: number; credits: number };
-    };
+      images: { count: number; bytes: number; credits?: number };
+      videos: { count: number; bytes: number; credits?: number };
+      total: { count: number; bytes: number; credits?: number };
+    } | null;
+    storageProvider: MediaStorageProvider;
     limits: {
       maxFileSize: { image: number; video: number };
       maxFiles: number;
@@ -138,22 +145,62 @@ export interface UpdateResponse {
   data: MediaItem;
 }
 
+// What happens to playlists that use media being deleted
+export type MediaDeleteStrategy = 'block' | 'remove' | 'replace';
+
+export interface DeleteMediaOptions {
+  strategy?: MediaDeleteStrategy;
+  replacementId?: string; // Required for 'replace'
+}
+
 export interface DeleteResponse {
   success: boolean;
   message: string;
   data: {
     id: string;
-    cloudinaryId: string;
+    storageKey: string;
+    strategy: MediaDeleteStrategy;
+    playlistsUpdated: number;
   };
   warning?: string;
 }
 
+export interface MediaUsagePlaylist {
+  id: string;
+  name: string;
+  isActive: boolean;
+  occurrences: number; // Times the media appears in the playlist
+}
+
+export interface MediaUsageScreen {
+  id: string;
+  name: string;
+  location: string | null;
+  status: string;
+  playingNow: boolean; // A playlist using the media is on screen right now
+}
+
+export interface MediaUsage {
+  mediaId: string;
+  inUse: boolean;
+  otherWorkspacePlaylists: number; // Playlists of other workspaces using public media; they block deletion
+  playlists: MediaUsagePlaylist[];
+  screens: MediaUsageScreen[];
+}
+
+export interface MediaUsageResponse {
+  success: boolean;
+  message: string;
+  data: MediaUsage;
+}
+
 export interface DownloadResponse {
   success: boolean;
   message: string;
   data: {
     downloadUrl: string;
-    expiresAt: string;
+    // null when the storage provider serves files without expiry
+    expiresAt: string | null;
     filename: string;
     fileSize: number;
     type: string;
@@ -170,34 +217,11 @@ export interface GetMediaParams extends Partial<MediaFilters> {
 // ============================
 
 const API_BASE_URL = 'http://localhost:5000/api';
-const MAX_RETRY_ATTEMPTS = 3;
-const RETRY_DELAY = 1000; // 1 second base delay
-const REQUEST_TIMEOUT = 30000; // 30 seconds
 
 // ============================
 // Utility Functions
 // ============================
 
-/**
- * Get authentication token from localStorage
- * Matches the token storage strategy in AuthContext
- */
-function getAuthToken(): string | null {
-  try {
-    return localStorage.getItem('auth_token');
-  } catch (error) {
-    console.warn('Failed to retrieve auth token:', error);
-    return null;
-  }
-}
-
-/**
- * Sleep utility for retry delays with exponential backoff
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 /**
  * Create standardized error from response
  */
@@ -225,69 +249,6 @@ function createErrorFromResponse(response: Response, data?: any): AuthApiError {
   }
 }
 
-/**
- * Enhanced fetch with retry logic and proper error handling
- */
-async function fetchWithRetry(
-  url: string, 
-  options: RequestInit = {}, 
-  retryCount = 0
-): Promise<Response> {
-  const token = getAuthToken();
-  
-  if (!token) {
-    throw new AuthApiError('Authentication required', 401);
-  }
-
-  const config: RequestInit = {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      ...options.headers,
-    },
-  };
-
-  // Add Content-Type only for non-FormData requests
-  if (!(options.body instanceof FormData)) {
-    config.headers = {
-      'Content-Type': 'application/json',
-      ...config.headers,
-    };
-  }
-
-  try {
-    // Add timeout to the request
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
-    
-    const response = await fetch(url, {
-      ...config,
-      signal: controller.signal,
-    });
-    
-    clearTimeout(timeoutId);
-    return response;
-  } catch (error) {
-    // Handle network errors with retry logic
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      if (retryCount < MAX_RETRY_ATTEMPTS) {
-        const delay = RETRY_DELAY * Math.pow(2, retryCount); // Exponential backoff
-        console.warn(`Network error, retrying in ${delay}ms... (attempt ${retryCount + 1}/${MAX_RETRY_ATTEMPTS})`);
-        await sleep(delay);
-        return fetchWithRetry(url, options, retryCount + 1);
-      }
-      throw new AuthApiError('Network error. Please check your connection.', 0);
-    }
-    
-    // Handle abort/timeout errors
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new AuthApiError('Request timeout. Please try again.', 0);
-    }
-    
-    throw error;
-  }
-}
-
 /**
  * Process response and handle errors consistently
  */
@@ -353,12 +314,6 @@ export async function uploadMedia(
   metadata: UploadMetadata = {},
   onProgress?: (progress: UploadProgress) => void
 ): Promise<MediaItem> {
-  const token = getAuthToken();
-  
-  if (!token) {
-    throw new AuthApiError('Authentication required', 401);
-  }
-
   const fileId = `${Date.now()}_${file.name}`;
   const formData = new FormData();
   
@@ -367,120 +322,76 @@ export async function uploadMedia(
   if (metadata.tags) formData.append('tags', metadata.tags);
   if (metadata.description) formData.append('description', metadata.description);
 
-  return new Promise<MediaItem>((resolve, reject) => {
-    const xhr = new XMLHttpRequest();
-
-    // Track upload progress
-    xhr.upload.onprogress = (event) => {
-      if (event.lengthComputable && onProgress) {
-        const progress = Math.round((event.loaded / event.total) * 100);
-        onProgress({
-          fileId,
-          filename: file.name,
-          progress,
-          status: 'uploading',
-        });
-      }
-    };
+  const reportError = (error: AuthApiError) => {
+    if (onProgress) {
+      onProgress({
+        fileId,
+        filename: file.name,
+        progress: 0,
+        status: 'error',
+        error: error.message,
+      });
+    }
+    return error;
+  };
 
-    // Handle successful completion
-    xhr.onload = () => {
-      try {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          const response: UploadResponse = JSON.parse(xhr.responseText);
-          
-          if (onProgress) {
-            onProgress({
-              fileId,
-              filename: file.name,
-              progress: 100,
-              status: 'completed',
-            });
-          }
-          
-          resolve(response.data);
-        } else {
-          let errorData;
-          try {
-            errorData = JSON.parse(xhr.responseText);
-          } catch {
-            errorData = { message: 'Upload failed' };
-          }
-          
-          const error = createErrorFromResponse(
-            { status: xhr.status, statusText: xhr.statusText } as Response,
-            errorData
-          );
-          
-          if (onProgress) {
-            onProgress({
-              fileId,
-              filename: file.name,
-              progress: 0,
-              status: 'error',
-              error: error.message,
-            });
-          }
-          
-          reject(error);
-        }
-      } catch (parseError) {
-        const error = new AuthApiError('Failed to parse server response', xhr.status);
-        
-        if (onProgress) {
+  let xhr: XMLHttpRequest;
+  try {
+    xhr = await sendAuthorizedXhr(() => {
+      const request = new XMLHttpRequest();
+
+      // Track upload progress
+      request.upload.onprogress = (event) => {
+        if (event.lengthComputable && onProgress) {
+          const progress = Math.round((event.loaded / event.total) * 100);
           onProgress({
             fileId,
             filename: file.name,
-            progress: 0,
-            status: 'error',
-            error: error.message,
+            progress,
+            status: 'uploading',
           });
         }
-        
-        reject(error);
-      }
-    };
+      };
 
-    // Handle network errors
-    xhr.onerror = () => {
-      const error = new AuthApiError('Network error during upload', 0);
-      
-      if (onProgress) {
-        onProgress({
-          fileId,
-          filename: file.name,
-          progress: 0,
-          status: 'error',
-          error: error.message,
-        });
-      }
-      
-      reject(error);
-    };
+      request.timeout = 120000; // 2 minutes timeout for uploads
+      request.open('POST', `${API_BASE_URL}/media/upload`);
+      return request;
+    }, formData);
+  } catch (error) {
+    throw error instanceof AuthApiError ? reportError(error) : error;
+  }
 
-    // Handle timeouts
-    xhr.ontimeout = () => {
-      const error = new AuthApiError('Upload timeout. Please try again.', 0);
-      
-      if (onProgress) {
-        onProgress({
-          fileId,
-          filename: file.name,
-          progress: 0,
-          status: 'error',
-          error: error.message,
-        });
-      }
-      
-      reject(error);
-    };
+  if (xhr.status < 200 || xhr.status >= 300) {
+    let errorData;
+    try {
+      errorData = JSON.parse(xhr.responseText);
+    } catch {
+      errorData = { message: 'Upload failed' };
+    }
 
-    // Configure and send request
-    xhr.timeout = 120000; // 2 minutes timeout for uploads
-    xhr.open('POST', `${API_BASE_URL}/media/upload`);
-    xhr.setRequestHeader('Authorization', `Bearer ${token}`);
-    xhr.send(formData);
-  });
+    throw reportError(createErrorFromResponse(
+      { status: xhr.status, statusText: xhr.statusText } as Response,
+      errorData
+    ));
+  }
+
+  let response: UploadResponse;
+  try {
+    response = JSON.parse(xhr.responseText);
+  } catch {
+    throw reportError(new AuthApiError('Failed to parse server response', xhr.status));
+  }
+
+  if (onProgress) {
+    onProgress({
+      fileId,
+      filename: file.name,
+      progress: 100,
+      status: 'completed',
+    });
+  }
+
+  return response.data;
 }
 
 /**
@@ -508,13 +419,39 @@ export async function updateMedia(id: string, metadata: UpdateMediaMetadata): Pr
 }
 
 /**
- * Delete media with proper error handling
+ * Get the playlists using a media item and the screens they play on
  * 
  * @param id Media item ID
+ * @returns Promise<MediaUsage> Impact of deleting the media
+ */
+export async function getMediaUsage(id: string): Promise<MediaUsage> {
+  const url = `${API_BASE_URL}/media/${id}/usage`;
+  
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<MediaUsageResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to fetch media usage:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete media with proper error handling. Media used by playlists is only
+ * deleted with the 'remove' or 'replace' strategy; 'block' fails with 409
+ * 
+ * @param id Media item ID
+ * @param options What to do with playlists that use the media
  * @returns Promise<DeleteResponse> Deletion confirmation
  */
-export async function deleteMedia(id: string): Promise<DeleteResponse> {
-  const url = `${API_BASE_URL}/media/${id}`;
+export async function deleteMedia(id: string, options: DeleteMediaOptions = {}): Promise<DeleteResponse> {
+  const queryParams = new URLSearchParams();
+  if (options.strategy) queryParams.append('strategy', options.strategy);
+  if (options.replacementId) queryParams.append('replacementId', options.replacementId);
+
+  const query = queryParams.toString();
+  const url = `${API_BASE_URL}/media/${id}${query ? `?${query}` : ''}`;
   
   try {
     const response = await fetchWithRetry(url, { method: 'DELETE' });
@@ -667,6 +604,7 @@ export const mediaAPI = {
   getMedia,
   uploadMedia,
   updateMedia,
+  getMediaUsage,
   deleteMedia,
   getDownloadUrl,
   getMediaStats,
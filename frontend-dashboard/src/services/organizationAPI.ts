@@ -0,0 +1,479 @@
+/**
+ * Organization API Service Layer
+ *
+ * Provides a typed interface for workspaces, their members and invitations,
+ * with the same error handling and retry logic as the other dashboard services.
+ *
+ * Features:
+ * - Listing, creating and renaming organizations
+ * - Inviting people by email and managing member roles
+ * - Accepting or declining invitations addressed to the current user
+ */
+
+import { AuthApiError } from './auth';
+import { fetchWithRetry } from './httpClient';
+import type {
+  Organization,
+  OrganizationDetail,
+  OrganizationRole,
+  Permission,
+  OrganizationListResponse,
+  OrganizationResponse,
+  PendingInvitation,
+  PendingInvitationListResponse,
+} from '../types';
+
+// ============================
+// Configuration
+// ============================
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Create standardized error from response
+ */
+function createErrorFromResponse(
+  response: Response,
+  data?: { message?: string; error?: string; errors?: Record<string, string> }
+): AuthApiError {
+  const message = data?.message || data?.error || `HTTP ${response.status}: ${response.statusText}`;
+
+  switch (response.status) {
+    case 400:
+      return new AuthApiError(message, 400, data?.errors);
+    case 401:
+      return new AuthApiError('Session expired. Please log in again.', 401);
+    case 403:
+      return new AuthApiError(message || 'Access denied', 403);
+    case 404:
+      return new AuthApiError(message || 'Organization not found', 404);
+    case 409:
+      return new AuthApiError(message, 409);
+    case 429:
+      return new AuthApiError('Too many requests. Please try again later.', 429);
+    default:
+      if (response.status >= 500) {
+        return new AuthApiError('Server error. Please try again later.', response.status);
+      }
+      return new AuthApiError(message, response.status);
+  }
+}
+
+/**
+ * Process response and handle errors consistently
+ */
+async function processResponse<T>(response: Response): Promise<T> {
+  let data;
+
+  try {
+    data = await response.json();
+  } catch {
+    throw new AuthApiError('Invalid response format', response.status);
+  }
+
+  if (!response.ok) {
+    throw createErrorFromResponse(response, data);
+  }
+
+  return data as T;
+}
+
+// ============================
+// Organization Functions
+// ============================
+
+/**
+ * Get the organizations the user belongs to
+ *
+ * @returns Promise with the organizations, personal workspace first, and the default one's id
+ */
+export async function getOrganizations(): Promise<OrganizationListResponse['data']> {
+  const url = `${API_BASE_URL}/organizations`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<OrganizationListResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to fetch organizations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create an organization owned by the user
+ *
+ * @param name Organization name
+ * @returns Promise<Organization> Created organization
+ */
+export async function createOrganization(name: string): Promise<Organization> {
+  const url = `${API_BASE_URL}/organizations`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+
+    const result = await processResponse<OrganizationResponse>(response);
+    return result.data.organization;
+  } catch (error) {
+    console.error('Failed to create organization:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get an organization with its members, and pending invitations for owners and admins
+ *
+ * @param id Organization ID
+ * @returns Promise<OrganizationDetail> Organization details
+ */
+export async function getOrganization(id: string): Promise<OrganizationDetail> {
+  const url = `${API_BASE_URL}/organizations/${id}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<OrganizationResponse<OrganizationDetail>>(response);
+    return result.data.organization;
+  } catch (error) {
+    console.error('Failed to fetch organization:', error);
+    throw error;
+  }
+}
+
+/**
+ * Rename an organization, or choose whether its playlists need approval
+ *
+ * @param id Organization ID
+ * @param changes New name and/or approval setting
+ * @returns Promise<OrganizationDetail> Updated organization
+ */
+export async function updateOrganization(
+  id: string,
+  changes: { name?: string; requireApproval?: boolean }
+): Promise<OrganizationDetail> {
+  const url = `${API_BASE_URL}/organizations/${id}`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+
+    const result = await processResponse<OrganizationResponse<OrganizationDetail>>(response);
+    return result.data.organization;
+  } catch (error) {
+    console.error('Failed to update organization:', error);
+    throw error;
+  }
+}
+
+/**
+ * Use an organization whenever a request does not pick one
+ *
+ * @param id Organization ID
+ */
+export async function setDefaultOrganization(id: string): Promise<void> {
+  const url = `${API_BASE_URL}/organizations/${id}/default`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'PUT' });
+    await processResponse(response);
+  } catch (error) {
+    console.error('Failed to set default organization:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Member Functions
+// ============================
+
+/**
+ * Invite an email address to an organization
+ *
+ * @param id Organization ID
+ * @param email Invitee's email address
+ * @param role Role granted on accepting
+ * @returns Promise<OrganizationDetail> Organization with the new invitation
+ */
+export async function inviteMember(
+  id: string,
+  email: string,
+  role: Exclude<OrganizationRole, 'owner'> = 'member'
+): Promise<OrganizationDetail> {
+  const url = `${API_BASE_URL}/organizations/${id}/invitations`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+
+    const result = await processResponse<OrganizationResponse<OrganizationDetail>>(response);
+    return result.data.organization;
+  } catch (error) {
+    console.error('Failed to invite member:', error);
+    throw error;
+  }
+}
+
+/**
+ * Withdraw a pending invitation
+ *
+ * @param id Organization ID
+ * @param invitationId Invitation ID
+ * @returns Promise<OrganizationDetail> Updated organization
+ */
+export async function revokeInvitation(id: string, invitationId: string): Promise<OrganizationDetail> {
+  const url = `${API_BASE_URL}/organizations/${id}/invitations/${invitationId}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'DELETE' });
+    const result = await processResponse<OrganizationResponse<OrganizationDetail>>(response);
+    return result.data.organization;
+  } catch (error) {
+    console.error('Failed to withdraw invitation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Change a member's role
+ *
+ * @param id Organization ID
+ * @param userId Member's user ID
+ * @param role New role
+ * @returns Promise<OrganizationDetail> Updated organization
+ */
+export async function updateMemberRole(id: string, userId: string, role: OrganizationRole): Promise<OrganizationDetail> {
+  const url = `${API_BASE_URL}/organizations/${id}/members/${userId}`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+
+    const result = await processResponse<OrganizationResponse<OrganizationDetail>>(response);
+    return result.data.organization;
+  } catch (error) {
+    console.error('Failed to update member role:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a member, or leave the organization when it is the current user
+ *
+ * @param id Organization ID
+ * @param userId Member's user ID
+ * @returns Promise with the updated organization, or null after leaving
+ */
+export async function removeMember(id: string, userId: string): Promise<OrganizationDetail | null> {
+  const url = `${API_BASE_URL}/organizations/${id}/members/${userId}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'DELETE' });
+    const result = await processResponse<OrganizationResponse<OrganizationDetail> | { data: { organization: null } }>(response);
+    return result.data.organization;
+  } catch (error) {
+    console.error('Failed to remove member:', error);
+    throw error;
+  }
+}
+
+/**
+ * Change what a role may do. Owner and admin cannot be changed
+ *
+ * @param id Organization ID
+ * @param role Configurable role
+ * @param permissions Every permission the role should hold
+ * @returns Promise<OrganizationDetail> Updated organization
+ */
+export async function updateRolePermissions(
+  id: string,
+  role: OrganizationRole,
+  permissions: Permission[]
+): Promise<OrganizationDetail> {
+  const url = `${API_BASE_URL}/organizations/${id}/roles/${role}`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'PUT',
+      body: JSON.stringify({ permissions }),
+    });
+
+    const result = await processResponse<OrganizationResponse<OrganizationDetail>>(response);
+    return result.data.organization;
+  } catch (error) {
+    console.error('Failed to update role permissions:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Invitation Functions
+// ============================
+
+/**
+ * Get pending invitations addressed to the current user
+ *
+ * @returns Promise<PendingInvitation[]> Invitations across organizations
+ */
+export async function getMyInvitations(): Promise<PendingInvitation[]> {
+  const url = `${API_BASE_URL}/organizations/invitations`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<PendingInvitationListResponse>(response);
+    return result.data.invitations;
+  } catch (error) {
+    console.error('Failed to fetch invitations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Accept an invitation. Requires a verified email address
+ *
+ * @param invitationId Invitation ID
+ * @returns Promise<Organization> The organization joined
+ */
+export async function acceptInvitation(invitationId: string): Promise<Organization> {
+  const url = `${API_BASE_URL}/organizations/invitations/${invitationId}/accept`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'POST' });
+    const result = await processResponse<OrganizationResponse>(response);
+    return result.data.organization;
+  } catch (error) {
+    console.error('Failed to accept invitation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Decline an invitation
+ *
+ * @param invitationId Invitation ID
+ */
+export async function declineInvitation(invitationId: string): Promise<void> {
+  const url = `${API_BASE_URL}/organizations/invitations/${invitationId}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'DELETE' });
+    await processResponse(response);
+  } catch (error) {
+    console.error('Failed to decline invitation:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Utility Functions
+// ============================
+
+export const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  content_editor: 'Content editor',
+  approver: 'Approver',
+  screen_operator: 'Screen operator',
+  viewer: 'Viewer',
+  billing: 'Billing',
+};
+
+// In the order the server lists them
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'media:view': 'View media',
+  'media:upload': 'Upload media',
+  'media:edit': 'Edit and delete media',
+  'playlist:view': 'View playlists',
+  'playlist:edit': 'Create, edit and delete playlists',
+  'playlist:publish': 'Assign playlists to screens',
+  'playlist:approve': 'Approve or reject playlists submitted for review',
+  'screen:view': 'View screens and their status',
+  'screen:manage': 'Add, pair, edit and group screens',
+  'screen:control': 'Send commands to screens',
+  'emergency:send': 'Send and clear emergency broadcasts',
+  'dataSource:manage': 'Manage data sources',
+  'members:manage': 'Invite members and change their roles',
+  'billing:manage': 'Manage billing',
+};
+
+// Owners manage everyone, admins everyone but owners; other roles rank equally
+const ROLE_RANK: Partial<Record<OrganizationRole, number>> = { admin: 1, owner: 2 };
+
+/**
+ * Whether a role includes the rights of another, e.g. owners can do what admins can
+ */
+export function hasOrganizationRole(role: OrganizationRole | null | undefined, minRole: OrganizationRole): boolean {
+  return !!role && (ROLE_RANK[role] ?? 0) >= (ROLE_RANK[minRole] ?? 0);
+}
+
+/**
+ * Whether an organization's role lets the user do something
+ */
+export function hasPermission(
+  organization: Pick<Organization, 'permissions'> | null | undefined,
+  permission: Permission
+): boolean {
+  return !!organization?.permissions.includes(permission);
+}
+
+/**
+ * Check if error is an organization API error
+ */
+export function isOrganizationApiError(error: unknown): error is AuthApiError {
+  return error instanceof AuthApiError;
+}
+
+/**
+ * Get user-friendly error message
+ */
+export function getOrganizationErrorMessage(error: unknown): string {
+  if (isOrganizationApiError(error)) {
+    return error.message;
+  }
+
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  return 'An unexpected error occurred';
+}
+
+// ============================
+// Export default API object
+// ============================
+
+export const organizationAPI = {
+  getOrganizations,
+  createOrganization,
+  getOrganization,
+  updateOrganization,
+  setDefaultOrganization,
+  inviteMember,
+  revokeInvitation,
+  updateMemberRole,
+  updateRolePermissions,
+  removeMember,
+  getMyInvitations,
+  acceptInvitation,
+  declineInvitation,
+
+  // Utility functions
+  hasOrganizationRole,
+  hasPermission,
+  isOrganizationApiError,
+  getOrganizationErrorMessage,
+} as const;
+
+export default organizationAPI;
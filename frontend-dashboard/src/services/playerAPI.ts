@@ -0,0 +1,392 @@
+/**
+ * Player API Service Layer
+ *
+ * HTTP interface used by the web player running on a display device.
+ * Unlike the dashboard services, requests are authenticated with the
+ * screen access key obtained during pairing rather than a user token.
+ *
+ * Features:
+ * - Device pairing with a dashboard-issued pairing code
+ * - Persisted player credentials
+ * - Display session and playlist retrieval
+ * - Offline cache manifest and cache status reporting
+ * - Data feed values for item conditions
+ * - Retry logic for failed requests
+ */
+
+import { AuthApiError } from './auth';
+import type {
+  PlayerCredentials,
+  PairScreenData,
+  PairScreenResponse,
+  DisplaySession,
+  DisplaySessionResponse,
+  DisplayPlaylist,
+  DisplayPlaylistResponse,
+  DisplayManifest,
+  DisplayManifestResponse,
+  DisplayData,
+  DisplayDataResponse,
+  CacheStatusReport,
+} from '../types';
+
+// ============================
+// Configuration
+// ============================
+
+const DEFAULT_SERVER_URL = 'http://localhost:5000';
+const CREDENTIALS_STORAGE_KEY = 'player_credentials';
+const MAX_RETRY_ATTEMPTS = 3;
+const RETRY_DELAY = 1000; // 1 second base delay
+const REQUEST_TIMEOUT = 30000; // 30 seconds
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Sleep utility for retry delays with exponential backoff
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Normalize a server URL entered by an installer or read from a QR code
+ */
+function normalizeServerUrl(serverUrl?: string): string {
+  const url = (serverUrl || DEFAULT_SERVER_URL).trim().replace(/\/+$/, '');
+  return url.replace(/\/api$/, '');
+}
+
+/**
+ * Create standardized error from response
+ */
+function createErrorFromResponse(
+  response: Response,
+  data?: { message?: string; error?: string; errors?: Record<string, string> }
+): AuthApiError {
+  const message = data?.message || data?.error || `HTTP ${response.status}: ${response.statusText}`;
+
+  switch (response.status) {
+    case 400:
+      return new AuthApiError(message, 400, data?.errors);
+    case 401:
+      return new AuthApiError('This screen is no longer paired. Please pair it again.', 401);
+    case 404:
+      return new AuthApiError(message || 'Not found', 404);
+    case 429:
+      return new AuthApiError('Too many attempts. Please try again later.', 429);
+    default:
+      if (response.status >= 500) {
+        return new AuthApiError('Server error. Please try again later.', response.status);
+      }
+      return new AuthApiError(message, response.status);
+  }
+}
+
+/**
+ * Fetch with retry logic, timeout and optional screen authentication
+ */
+async function fetchWithRetry(
+  url: string,
+  options: RequestInit = {},
+  accessKey?: string,
+  retryCount = 0
+): Promise<Response> {
+  const config: RequestInit = {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessKey ? { 'X-Screen-Key': accessKey } : {}),
+      ...options.headers,
+    },
+  };
+
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    const response = await fetch(url, {
+      ...config,
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+    return response;
+  } catch (error) {
+    // Handle network errors with retry logic
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      if (retryCount < MAX_RETRY_ATTEMPTS) {
+        const delay = RETRY_DELAY * Math.pow(2, retryCount); // Exponential backoff
+        console.warn(`Network error, retrying in ${delay}ms... (attempt ${retryCount + 1}/${MAX_RETRY_ATTEMPTS})`);
+        await sleep(delay);
+        return fetchWithRetry(url, options, accessKey, retryCount + 1);
+      }
+      throw new AuthApiError('Network error. Please check your connection.', 0);
+    }
+
+    // Handle abort/timeout errors
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new AuthApiError('Request timeout. Please try again.', 0);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Process response and handle errors consistently
+ */
+async function processResponse<T>(response: Response): Promise<T> {
+  let data;
+
+  try {
+    data = await response.json();
+  } catch {
+    throw new AuthApiError('Invalid response format', response.status);
+  }
+
+  if (!response.ok) {
+    throw createErrorFromResponse(response, data);
+  }
+
+  return data as T;
+}
+
+// ============================
+// Credential Storage
+// ============================
+
+/**
+ * Load the credentials saved when this device was paired
+ */
+export function loadPlayerCredentials(): PlayerCredentials | null {
+  try {
+    const stored = localStorage.getItem(CREDENTIALS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as PlayerCredentials) : null;
+  } catch (error) {
+    console.warn('Failed to load player credentials:', error);
+    return null;
+  }
+}
+
+/**
+ * Persist player credentials so the device survives reloads and reboots
+ */
+export function savePlayerCredentials(credentials: PlayerCredentials): void {
+  try {
+    localStorage.setItem(CREDENTIALS_STORAGE_KEY, JSON.stringify(credentials));
+  } catch (error) {
+    console.warn('Failed to save player credentials:', error);
+  }
+}
+
+/**
+ * Forget this device's pairing
+ */
+export function clearPlayerCredentials(): void {
+  try {
+    localStorage.removeItem(CREDENTIALS_STORAGE_KEY);
+  } catch (error) {
+    console.warn('Failed to clear player credentials:', error);
+  }
+}
+
+// ============================
+// Core Player API Functions
+// ============================
+
+/**
+ * Pair this device with a screen using a pairing code from the dashboard
+ *
+ * @param serverUrl Backend origin shown in the dashboard or encoded in the QR code
+ * @param data Pairing code and device details
+ * @returns Promise<PlayerCredentials> Credentials to store on the device
+ */
+export async function pairDevice(serverUrl: string | undefined, data: PairScreenData): Promise<PlayerCredentials> {
+  const baseUrl = normalizeServerUrl(serverUrl);
+  const url = `${baseUrl}/api/screens/pair`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify({ ...data, code: data.code.trim().toUpperCase() }),
+    });
+
+    const result = await processResponse<PairScreenResponse>(response);
+
+    return {
+      // Prefer the URL this device actually reached over the one the server advertises
+      serverUrl: baseUrl,
+      accessKey: result.data.accessKey,
+      id: result.data.id,
+      screenId: result.data.screenId,
+      name: result.data.name,
+    };
+  } catch (error) {
+    console.error('Failed to pair device:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the paired screen's display configuration
+ *
+ * @param credentials Stored player credentials
+ * @returns Promise<DisplaySession> Screen configuration
+ */
+export async function getDisplaySession(credentials: PlayerCredentials): Promise<DisplaySession> {
+  const url = `${credentials.serverUrl}/api/display/session`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' }, credentials.accessKey);
+    const result = await processResponse<DisplaySessionResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to fetch display session:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the playlist the paired screen should play
+ *
+ * @param credentials Stored player credentials
+ * @returns Promise<DisplayPlaylist | null> Playlist with resolved media, or null when nothing is assigned
+ */
+export async function getDisplayPlaylist(credentials: PlayerCredentials): Promise<DisplayPlaylist | null> {
+  const url = `${credentials.serverUrl}/api/display/playlist`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' }, credentials.accessKey);
+    const result = await processResponse<DisplayPlaylistResponse>(response);
+    return result.data.playlist;
+  } catch (error) {
+    console.error('Failed to fetch display playlist:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the list of media assets the paired screen should cache for offline playback
+ *
+ * @param credentials Stored player credentials
+ * @returns Promise<DisplayManifest | null> Manifest for the current playlist, or null when nothing is assigned
+ */
+export async function getDisplayManifest(credentials: PlayerCredentials): Promise<DisplayManifest | null> {
+  const url = `${credentials.serverUrl}/api/display/manifest`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' }, credentials.accessKey);
+    const result = await processResponse<DisplayManifestResponse>(response);
+    return result.data.manifest;
+  } catch (error) {
+    console.error('Failed to fetch display manifest:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the latest data feed values (weather, stock levels, queue lengths) for
+ * the paired screen's location
+ *
+ * @param credentials Stored player credentials
+ * @returns Promise<DisplayData> Values keyed "<source key>.<field>"
+ */
+export async function getDisplayData(credentials: PlayerCredentials): Promise<DisplayData> {
+  const url = `${credentials.serverUrl}/api/display/data`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' }, credentials.accessKey);
+    const result = await processResponse<DisplayDataResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to fetch display data:', error);
+    throw error;
+  }
+}
+
+/**
+ * Report the state of the device's offline media cache to the dashboard
+ *
+ * @param credentials Stored player credentials
+ * @param report Cache sync progress
+ */
+export async function reportCacheStatus(credentials: PlayerCredentials, report: CacheStatusReport): Promise<void> {
+  const url = `${credentials.serverUrl}/api/display/cache-status`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify(report),
+    }, credentials.accessKey);
+    await processResponse<{ success: boolean }>(response);
+  } catch (error) {
+    console.error('Failed to report cache status:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Convenience Functions
+// ============================
+
+/**
+ * Check if error is a player API error
+ */
+export function isPlayerApiError(error: unknown): error is AuthApiError {
+  return error instanceof AuthApiError;
+}
+
+/**
+ * Check if an error means the stored access key is no longer valid
+ */
+export function isUnpairedError(error: unknown): boolean {
+  return isPlayerApiError(error) && error.status === 401;
+}
+
+/**
+ * Check if an error means the server could not be reached, as opposed to rejecting the request
+ */
+export function isOfflineError(error: unknown): boolean {
+  return isPlayerApiError(error) && (error.status === 0 || error.status >= 500);
+}
+
+/**
+ * Get user-friendly error message
+ */
+export function getPlayerErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  return 'An unexpected error occurred';
+}
+
+// ============================
+// Export default API object
+// ============================
+
+export const playerAPI = {
+  // Pairing
+  pairDevice,
+  loadPlayerCredentials,
+  savePlayerCredentials,
+  clearPlayerCredentials,
+
+  // Display content
+  getDisplaySession,
+  getDisplayPlaylist,
+  getDisplayManifest,
+  getDisplayData,
+  reportCacheStatus,
+
+  // Utility functions
+  isPlayerApiError,
+  isUnpairedError,
+  isOfflineError,
+  getPlayerErrorMessage,
+} as const;
+
+export default playerAPI;
@@ -0,0 +1,250 @@
+/**
+ * Player Offline Cache
+ *
+ * Keeps a display device playing when store Wi-Fi, the backend or the media
+ * CDN drops out. Media listed in the playlist manifest is downloaded into
+ * Cache Storage ahead of time and served from there by the player service
+ * worker (public/player-sw.js); the last good session and playlist are kept
+ * in localStorage so the player can start without reaching the server.
+ *
+ * Features:
+ * - Manifest-driven media pre-caching with SHA-256 verification
+ * - Re-download only of assets that are missing or have changed
+ * - Pruning of media no longer in the manifest
+ * - Last good session and playlist snapshot
+ * - Service worker registration
+ */
+
+import type {
+  DisplayManifest,
+  DisplayPlaylist,
+  DisplaySession,
+  ManifestAsset,
+  CacheSyncStatus,
+} from '../types';
+
+// ============================
+// Configuration
+// ============================
+
+// Must match MEDIA_CACHE in public/player-sw.js
+const MEDIA_CACHE_NAME = 'signage-media-v1';
+const SNAPSHOT_STORAGE_KEY = 'player_snapshot';
+const SERVICE_WORKER_URL = '/player-sw.js';
+const SERVICE_WORKER_SCOPE = '/player';
+
+// Stored alongside each cached response so changed media can be detected
+const HASH_HEADER = 'X-Content-Hash';
+
+// ============================
+// Types
+// ============================
+
+export interface PlayerSnapshot {
+  session: DisplaySession;
+  playlist: DisplayPlaylist | null;
+  savedAt: string;
+}
+
+export interface CacheSyncResult {
+  status: Exclude<CacheSyncStatus, 'syncing'>;
+  totalAssets: number;
+  cachedAssets: number;
+  cachedBytes: number;
+  error: string | null;
+}
+
+export type CacheSyncProgressCallback = (cachedAssets: number, totalAssets: number) => void;
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Cache Storage and SubtleCrypto are only available in secure contexts (HTTPS or localhost)
+ */
+export function isOfflineCacheSupported(): boolean {
+  return typeof window !== 'undefined' && window.isSecureContext && 'caches' in window;
+}
+
+/**
+ * Hex-encoded SHA-256 of a downloaded file
+ */
+async function sha256(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Check whether a cached response is still the asset the manifest describes
+ */
+function isCurrent(cached: Response, asset: ManifestAsset): boolean {
+  if (!asset.hash) return true; // Nothing to compare against, keep what we have
+  return cached.headers.get(HASH_HEADER) === asset.hash;
+}
+
+/**
+ * Download one asset, verify it against the manifest hash and store it
+ *
+ * @returns Size of the stored file in bytes
+ */
+async function downloadAsset(cache: Cache, asset: ManifestAsset): Promise<number> {
+  const response = await fetch(asset.url, { mode: 'cors', cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} downloading ${asset.url}`);
+  }
+
+  const buffer = await response.arrayBuffer();
+
+  if (asset.hash) {
+    const hash = await sha256(buffer);
+    if (hash !== asset.hash) {
+      throw new Error(`Checksum mismatch for ${asset.url}`);
+    }
+  }
+
+  const headers = new Headers({
+    'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+    'Content-Length': String(buffer.byteLength),
+  });
+  if (asset.hash) {
+    headers.set(HASH_HEADER, asset.hash);
+  }
+
+  await cache.put(asset.url, new Response(buffer, { status: 200, headers }));
+  return buffer.byteLength;
+}
+
+// ============================
+// Media Cache
+// ============================
+
+/**
+ * Bring the media cache in line with a manifest: download what is missing or
+ * changed, then drop anything the manifest no longer lists. Assets are fetched
+ * one at a time so a slow connection is not saturated while content is playing
+ */
+export async function syncMediaCache(
+  manifest: DisplayManifest | null,
+  onProgress?: CacheSyncProgressCallback
+): Promise<CacheSyncResult> {
+  const assets = manifest?.assets ?? [];
+  const cache = await caches.open(MEDIA_CACHE_NAME);
+
+  let cachedAssets = 0;
+  let cachedBytes = 0;
+  let lastError: string | null = null;
+
+  for (const asset of assets) {
+    try {
+      const cached = await cache.match(asset.url);
+
+      if (cached && isCurrent(cached, asset)) {
+        cachedBytes += Number(cached.headers.get('Content-Length')) || asset.size || 0;
+      } else {
+        cachedBytes += await downloadAsset(cache, asset);
+      }
+
+      cachedAssets += 1;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Failed to cache media';
+      console.warn('Failed to cache media asset:', asset.url, error);
+    }
+
+    onProgress?.(cachedAssets, assets.length);
+  }
+
+  // Prune media that is no longer part of the current playlist
+  const wanted = new Set(assets.map((asset) => asset.url));
+  const keys = await cache.keys();
+  await Promise.all(
+    keys
+      .filter((request) => !wanted.has(request.url))
+      .map((request) => cache.delete(request))
+  );
+
+  let status: CacheSyncResult['status'] = 'synced';
+  if (cachedAssets < assets.length) {
+    status = cachedAssets > 0 ? 'partial' : 'error';
+  }
+
+  return {
+    status,
+    totalAssets: assets.length,
+    cachedAssets,
+    cachedBytes,
+    error: lastError,
+  };
+}
+
+/**
+ * Remove all cached media, e.g. when the device is unpaired
+ */
+export async function clearMediaCache(): Promise<void> {
+  if (!isOfflineCacheSupported()) return;
+
+  try {
+    await caches.delete(MEDIA_CACHE_NAME);
+  } catch (error) {
+    console.warn('Failed to clear media cache:', error);
+  }
+}
+
+// ============================
+// Service Worker
+// ============================
+
+/**
+ * Register the service worker that serves cached media and keeps the player shell available offline
+ */
+export async function registerPlayerServiceWorker(): Promise<void> {
+  if (!isOfflineCacheSupported() || !('serviceWorker' in navigator)) return;
+
+  try {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: SERVICE_WORKER_SCOPE });
+  } catch (error) {
+    console.warn('Failed to register player service worker:', error);
+  }
+}
+
+// ============================
+// Content Snapshot
+// ============================
+
+/**
+ * Load the last session and playlist successfully fetched from the server
+ */
+export function loadPlayerSnapshot(): PlayerSnapshot | null {
+  try {
+    const stored = localStorage.getItem(SNAPSHOT_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as PlayerSnapshot) : null;
+  } catch (error) {
+    console.warn('Failed to load player snapshot:', error);
+    return null;
+  }
+}
+
+/**
+ * Remember the current session and playlist as the last good content
+ */
+export function savePlayerSnapshot(session: DisplaySession, playlist: DisplayPlaylist | null): void {
+  try {
+    const snapshot: PlayerSnapshot = { session, playlist, savedAt: new Date().toISOString() };
+    localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.warn('Failed to save player snapshot:', error);
+  }
+}
+
+/**
+ * Forget the stored content snapshot
+ */
+export function clearPlayerSnapshot(): void {
+  try {
+    localStorage.removeItem(SNAPSHOT_STORAGE_KEY);
+  } catch (error) {
+    console.warn('Failed to clear player snapshot:', error);
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Player Socket.IO Service
+ *
+ * Real-time connection for the web player running on a display device.
+ * Authenticates with the screen access key, so it is kept separate from
+ * the dashboard socketService which authenticates as a user.
+ *
+ * Features:
+ * - Screen access key authentication on the /screens namespace
+ * - Playlist assignment and content change notifications
+ * - Emergency controls
+ * - Heartbeat at the screen's configured interval, with device metrics and link quality
+ * - Playback progress reports for the control room
+ * - Remote commands from the dashboard, answered with their result
+ */
+
+import { io, Socket } from 'socket.io-client';
+import type {
+  DeviceCommand,
+  DeviceCommandResult,
+  EmergencyControlEvent,
+  PlayerCredentials,
+  PlaybackProgressReport,
+  ScreenNetwork,
+} from '../types';
+
+// ============================
+// Event Types and Interfaces
+// ============================
+
+export interface PlaylistAssignmentChangedEvent {
+  playlistId: string;
+  action: 'assigned' | 'unassigned';
+  timestamp: string;
+}
+
+export interface PlaylistContentUpdateEvent {
+  playlistId: string;
+  action: string;
+  timestamp: string;
+}
+
+type EventHandler<T = unknown> = (data: T) => void;
+
+export interface PlayerSocketEventHandlers {
+  'registration-confirmed': EventHandler<{ success: boolean; screenId: string; timestamp: string }>;
+  'heartbeat-ack': EventHandler<{ timestamp: string }>;
+  'playlist:assignment:changed': EventHandler<PlaylistAssignmentChangedEvent>;
+  'playlist-update': EventHandler<PlaylistContentUpdateEvent>;
+  'emergency-control': EventHandler<EmergencyControlEvent>;
+  'command': EventHandler<DeviceCommand>;
+}
+
+// ============================
+// Player Socket Implementation
+// ============================
+
+const DEFAULT_HEARTBEAT_SECONDS = 30;
+const SCREEN_NAMESPACE = '/screens';
+
+export interface PlayerDeviceMetrics {
+  memoryUsage?: number;
+  storageUsage?: number;
+}
+
+export type PlayerNetworkStats = Pick<ScreenNetwork, 'latency' | 'downlink' | 'connectionType'>;
+
+// Non-standard Chromium extension, the only memory figure a browser exposes
+interface PerformanceWithMemory extends Performance {
+  memory?: { usedJSHeapSize: number; jsHeapSizeLimit: number };
+}
+
+// Network Information API, also Chromium-only
+interface NavigatorWithConnection extends Navigator {
+  connection?: { type?: string; downlink?: number };
+}
+
+const CONNECTION_TYPES: Record<string, PlayerNetworkStats['connectionType']> = {
+  wifi: 'wifi',
+  ethernet: 'ethernet',
+  cellular: 'cellular',
+};
+
+/**
+ * Describe the link to the server: the last heartbeat round trip plus
+ * whatever the browser reports about the connection
+ */
+function collectNetworkStats(latency: number | null): PlayerNetworkStats {
+  const stats: PlayerNetworkStats = {};
+  const connection = (navigator as NavigatorWithConnection).connection;
+
+  if (latency !== null) {
+    stats.latency = latency;
+  }
+  if (connection?.downlink !== undefined) {
+    stats.downlink = connection.downlink;
+  }
+  if (connection?.type && CONNECTION_TYPES[connection.type]) {
+    stats.connectionType = CONNECTION_TYPES[connection.type];
+  }
+
+  return stats;
+}
+
+/**
+ * Collect what a browser can tell about the device, as percentages
+ */
+async function collectDeviceMetrics(): Promise<PlayerDeviceMetrics> {
+  const metrics: PlayerDeviceMetrics = {};
+
+  const memory = (performance as PerformanceWithMemory).memory;
+  if (memory && memory.jsHeapSizeLimit > 0) {
+    metrics.memoryUsage = Math.round((memory.usedJSHeapSize / memory.jsHeapSizeLimit) * 100);
+  }
+
+  try {
+    const estimate = await navigator.storage?.estimate();
+    if (estimate?.quota && estimate.usage !== undefined) {
+      metrics.storageUsage = Math.round((estimate.usage / estimate.quota) * 100);
+    }
+  } catch {
+    // Storage estimates are unavailable outside secure contexts
+  }
+
+  return metrics;
+}
+
+class PlayerSocketServiceImpl {
+  socket: Socket | null = null;
+
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private heartbeatSeconds = DEFAULT_HEARTBEAT_SECONDS;
+  private statusCallbacks: Array<(connected: boolean) => void> = [];
+  private heartbeatSentAt: number | null = null;
+  private latency: number | null = null;
+  private lastPlayback: PlaybackProgressReport | null = null;
+
+  /**
+   * Connect as the paired screen. Reconnection is unlimited since a
+   * kiosk display has nobody around to reload it
+   */
+  connect(credentials: PlayerCredentials, heartbeatSeconds = DEFAULT_HEARTBEAT_SECONDS): void {
+    if (this.socket) {
+      this.disconnect();
+    }
+
+    this.heartbeatSeconds = heartbeatSeconds;
+
+    this.socket = io(`${credentials.serverUrl}${SCREEN_NAMESPACE}`, {
+      auth: { accessKey: credentials.accessKey },
+      transports: ['websocket', 'polling'],
+      reconnection: true,
+      reconnectionAttempts: Infinity,
+      reconnectionDelay: 1000,
+      reconnectionDelayMax: 30000,
+      timeout: 20000,
+    });
+
+    this.socket.on('connect', () => {
+      console.log('Player socket connected:', this.socket?.id);
+      this.startHeartbeat();
+      this.sendHeartbeat();
+
+      // The server forgets playback state when a player disconnects
+      if (this.lastPlayback) {
+        this.socket?.emit('playback:progress', this.lastPlayback);
+      }
+      this.notifyStatus(true);
+    });
+
+    this.socket.on('heartbeat-ack', () => {
+      if (this.heartbeatSentAt !== null) {
+        this.latency = Date.now() - this.heartbeatSentAt;
+        this.heartbeatSentAt = null;
+      }
+    });
+
+    this.socket.on('disconnect', (reason) => {
+      console.log('Player socket disconnected:', reason);
+      this.stopHeartbeat();
+      this.notifyStatus(false);
+    });
+
+    this.socket.on('connect_error', (error) => {
+      console.error('Player socket connection error:', error.message);
+    });
+  }
+
+  disconnect(): void {
+    this.stopHeartbeat();
+    this.heartbeatSentAt = null;
+    this.latency = null;
+
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+    }
+
+    this.notifyStatus(false);
+  }
+
+  isConnected(): boolean {
+    return this.socket?.connected || false;
+  }
+
+  /**
+   * Tell the dashboard what is on screen. Sent when an item starts, pauses or resumes
+   */
+  emitPlaybackProgress(report: PlaybackProgressReport): void {
+    this.lastPlayback = report;
+
+    if (this.socket?.connected) {
+      this.socket.emit('playback:progress', report);
+    }
+  }
+
+  /**
+   * Answer a remote command. Results for a dropped connection are lost and
+   * the server times the command out
+   */
+  sendCommandResult(result: DeviceCommandResult): void {
+    if (this.socket?.connected) {
+      this.socket.emit('command:result', result);
+    }
+  }
+
+  // ============================
+  // Event Handling
+  // ============================
+
+  on<K extends keyof PlayerSocketEventHandlers>(event: K, callback: PlayerSocketEventHandlers[K]): void {
+    this.socket?.on(event as string, callback);
+  }
+
+  off<K extends keyof PlayerSocketEventHandlers>(event: K, callback?: PlayerSocketEventHandlers[K]): void {
+    this.socket?.off(event as string, callback);
+  }
+
+  onConnectionStatusChange(callback: (connected: boolean) => void): () => void {
+    this.statusCallbacks.push(callback);
+
+    return () => {
+      this.statusCallbacks = this.statusCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  // ============================
+  // Internal Helpers
+  // ============================
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    this.heartbeatInterval = setInterval(() => this.sendHeartbeat(), this.heartbeatSeconds * 1000);
+  }
+
+  private async sendHeartbeat(): Promise<void> {
+    const metrics = await collectDeviceMetrics();
+
+    if (this.socket?.connected) {
+      this.heartbeatSentAt = Date.now();
+      this.socket.emit('heartbeat', {
+        timestamp: new Date().toISOString(),
+        metrics,
+        network: collectNetworkStats(this.latency),
+      });
+    }
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+  }
+
+  private notifyStatus(connected: boolean): void {
+    this.statusCallbacks.forEach(callback => {
+      try {
+        callback(connected);
+      } catch (error) {
+        console.error('Error in player connection status callback:', error);
+      }
+    });
+  }
+}
+
+// ============================
+// Singleton Instance
+// ============================
+
+export const playerSocketService = new PlayerSocketServiceImpl();
+
+export { playerSocketService as default };
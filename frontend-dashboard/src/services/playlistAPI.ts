@@ -8,6 +8,9 @@
  * - Complete CRUD operations for playlists
  * - Playlist item management (add/remove/reorder)
  * - Screen assignment functionality
+ * - Revision history with diffs and restore
+ * - Sharing with collaborators and permission checks
+ * - Approval workflow and review queue
  * - Bulk operations with progress tracking
  * - Retry logic for failed requests
  * - Type-safe interfaces with comprehensive error handling
@@ -15,6 +18,7 @@
  */
 
 import { AuthApiError } from './auth';
+import { fetchWithRetry } from './httpClient';
 import type {
   Playlist,
   PlaylistItem,
@@ -28,6 +32,16 @@ import type {
   PlaylistItemResponse,
   BulkPlaylistOperation,
   BulkPlaylistResponse,
+  PlaylistVersionConflictResponse,
+  PlaylistRevisionsResponse,
+  PlaylistRevisionDetail,
+  PlaylistRevisionComparison,
+  PlaylistPermission,
+  PlaylistCollaboratorPermission,
+  PlaylistSharing,
+  PlaylistApproval,
+  PlaylistApprovalQueueResponse,
+  PlaylistApprovalStatus,
 } from '../types';
 
 // ============================
@@ -35,32 +49,23 @@ import type {
 // ============================
 
 const API_BASE_URL = 'http://localhost:5000/api';
-const MAX_RETRY_ATTEMPTS = 3;
-const RETRY_DELAY = 1000; // 1 second base delay
-const REQUEST_TIMEOUT = 30000; // 30 seconds
 
 // ============================
 // Utility Functions
 // ============================
 
 /**
- * Get authentication token from localStorage
- * Matches the token storage strategy in AuthContext
+ * Raised when a write is based on an older version of the playlist.
+ * Carries the playlist as currently stored so the caller can merge into it
  */
-function getAuthToken(): string | null {
-  try {
-    return localStorage.getItem('auth_token');
-  } catch (error) {
-    console.warn('Failed to retrieve auth token:', error);
-    return null;
-  }
-}
+export class PlaylistConflictError extends AuthApiError {
+  public currentPlaylist: Playlist;
 
-/**
- * Sleep utility for retry delays with exponential backoff
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+  constructor(message: string, currentPlaylist: Playlist) {
+    super(message, 409);
+    this.name = 'PlaylistConflictError';
+    this.currentPlaylist = currentPlaylist;
+  }
 }
 
 /**
@@ -77,6 +82,13 @@ function createErrorFromResponse(response: Response, data?: any): AuthApiError {
     case 404:
       return new AuthApiError('Playlist not found', 404);
     case 409:
+      if (data?.code === 'VERSION_CONFLICT') {
+        return new PlaylistConflictError(message, (data as PlaylistVersionConflictResponse).data.playlist);
+      }
+      // Approval required, or a review step that no longer applies
+      if (data?.code) {
+        return new AuthApiError(message, 409);
+      }
       return new AuthApiError('Playlist name already exists', 409);
     case 413:
       return new AuthApiError('Request too large', 413);
@@ -92,62 +104,6 @@ function createErrorFromResponse(response: Response, data?: any): AuthApiError {
   }
 }
 
-/**
- * Enhanced fetch with retry logic and proper error handling
- */
-async function fetchWithRetry(
-  url: string, 
-  options: RequestInit = {}, 
-  retryCount = 0
-): Promise<Response> {
-  const token = getAuthToken();
-  
-  if (!token) {
-    throw new AuthApiError('Authentication required', 401);
-  }
-
-  const config: RequestInit = {
-    ...options,
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-  };
-
-  try {
-    // Add timeout to the request
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
-    
-    const response = await fetch(url, {
-      ...config,
-      signal: controller.signal,
-    });
-    
-    clearTimeout(timeoutId);
-    return response;
-  } catch (error) {
-    // Handle network errors with retry logic
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      if (retryCount < MAX_RETRY_ATTEMPTS) {
-        const delay = RETRY_DELAY * Math.pow(2, retryCount); // Exponential backoff
-        console.warn(`Network error, retrying in ${delay}ms... (attempt ${retryCount + 1}/${MAX_RETRY_ATTEMPTS})`);
-        await sleep(delay);
-        return fetchWithRetry(url, options, retryCount + 1);
-      }
-      throw new AuthApiError('Network error. Please check your connection.', 0);
-    }
-    
-    // Handle abort/timeout errors
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new AuthApiError('Request timeout. Please try again.', 0);
-    }
-    
-    throw error;
-  }
-}
-
 /**
  * Process response and handle errors consistently
  */
@@ -264,7 +220,8 @@ export async function createPlaylist(data: CreatePlaylistData): Promise<Playlist
 }
 
 /**
- * Update playlist metadata
+ * Update playlist metadata, and the item list when data.items is given.
+ * With data.version set, a stale edit fails with PlaylistConflictError
  * 
  * @param id Playlist ID
  * @param data Update data
@@ -450,11 +407,13 @@ export async function reorderPlaylistItems(
  * 
  * @param playlistId Playlist ID
  * @param itemOrderUpdates Array of item ID and order pairs
+ * @param version Playlist version the new order is based on
  * @returns Promise<void> Reorder confirmation
  */
 export async function reorderPlaylistItemsByOrder(
   playlistId: string,
-  itemOrderUpdates: {id: string, order: number}[]
+  itemOrderUpdates: {id: string, order: number}[],
+  version?: number
 ): Promise<void> {
   const url = `${API_BASE_URL}/playlists/${playlistId}/reorder`;
   
@@ -462,6 +421,7 @@ export async function reorderPlaylistItemsByOrder(
     const response = await fetchWithRetry(url, {
       method: 'PUT',
       body: JSON.stringify({
+        version,
         items: itemOrderUpdates
       }),
     });
@@ -511,12 +471,14 @@ export async function updatePlaylistItem(
  * 
  * @param playlistId Playlist ID
  * @param screenIds Array of screen IDs
- * @returns Promise<void> Assignment confirmation
+ * @param groupIds Screen groups whose current screens are also assigned
+ * @returns Promise<string[]> IDs of every screen assigned, groups resolved
  */
 export async function assignPlaylistToScreens(
   playlistId: string,
-  screenIds: string[]
-): Promise<void> {
+  screenIds: string[],
+  groupIds: string[] = []
+): Promise<string[]> {
   const url = `${API_BASE_URL}/playlists/${playlistId}/assign`;
   
   try {
@@ -524,11 +486,13 @@ export async function assignPlaylistToScreens(
       method: 'POST',
       body: JSON.stringify({ 
         screenIds,
+        groupIds,
         action: 'assign' // Backend expects action field
       }),
     });
     
-    await processResponse(response);
+    const result = await processResponse<{ success: boolean; data: { screenIds: string[] } }>(response);
+    return result.data.screenIds;
   } catch (error) {
     console.error('Failed to assign playlist to screens:', error);
     throw error;
@@ -539,13 +503,15 @@ export async function assignPlaylistToScreens(
  * Remove playlist assignment from screens
  * 
  * @param playlistId Playlist ID
- * @param screenIds Array of screen IDs (optional, removes from all if not provided)
- * @returns Promise<void> Unassignment confirmation
+ * @param screenIds Array of screen IDs
+ * @param groupIds Screen groups whose current screens are also unassigned
+ * @returns Promise<string[]> IDs of every screen unassigned, groups resolved
  */
 export async function unassignPlaylistFromScreens(
   playlistId: string,
-  screenIds?: string[]
-): Promise<void> {
+  screenIds?: string[],
+  groupIds: string[] = []
+): Promise<string[]> {
   // Backend uses same assign endpoint with different action
   const url = `${API_BASE_URL}/playlists/${playlistId}/assign`;
   
@@ -554,11 +520,13 @@ export async function unassignPlaylistFromScreens(
       method: 'POST',
       body: JSON.stringify({ 
         screenIds: screenIds || [], 
+        groupIds,
         action: 'unassign' // Backend expects action field
       }),
     });
     
-    await processResponse(response);
+    const result = await processResponse<{ success: boolean; data: { screenIds: string[] } }>(response);
+    return result.data.screenIds;
   } catch (error) {
     console.error('Failed to unassign playlist from screens:', error);
     throw error;
@@ -584,6 +552,325 @@ export async function getPlaylistAssignments(playlistId: string): Promise<Screen
   }
 }
 
+// ============================
+// Revision History
+// ============================
+
+/**
+ * Get a playlist's saved revisions, newest first
+ * 
+ * @param playlistId Playlist ID
+ * @param params Pagination options
+ * @returns Promise<PlaylistRevisionsResponse> Revisions and the current version
+ */
+export async function getPlaylistRevisions(
+  playlistId: string,
+  params: { page?: number; limit?: number } = {}
+): Promise<PlaylistRevisionsResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.page) queryParams.append('page', params.page.toString());
+  if (params.limit) queryParams.append('limit', params.limit.toString());
+
+  const url = `${API_BASE_URL}/playlists/${playlistId}/revisions?${queryParams}`;
+  
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    return await processResponse<PlaylistRevisionsResponse>(response);
+  } catch (error) {
+    console.error('Failed to fetch playlist revisions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get one revision with its full content
+ * 
+ * @param playlistId Playlist ID
+ * @param version Revision version
+ * @returns Promise<PlaylistRevisionDetail> Revision with snapshot
+ */
+export async function getPlaylistRevision(playlistId: string, version: number): Promise<PlaylistRevisionDetail> {
+  const url = `${API_BASE_URL}/playlists/${playlistId}/revisions/${version}`;
+  
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<{ success: boolean; data: PlaylistRevisionDetail }>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to fetch playlist revision:', error);
+    throw error;
+  }
+}
+
+/**
+ * Compare two revisions of a playlist
+ * 
+ * @param playlistId Playlist ID
+ * @param from Older revision version
+ * @param to Newer revision version, the latest when omitted
+ * @returns Promise<PlaylistRevisionComparison> Diff between the revisions
+ */
+export async function comparePlaylistRevisions(
+  playlistId: string,
+  from: number,
+  to?: number
+): Promise<PlaylistRevisionComparison> {
+  const queryParams = new URLSearchParams({ from: from.toString() });
+  if (to) queryParams.append('to', to.toString());
+
+  const url = `${API_BASE_URL}/playlists/${playlistId}/revisions/compare?${queryParams}`;
+  
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<{ success: boolean; data: PlaylistRevisionComparison }>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to compare playlist revisions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Restore a revision's content as a new revision.
+ * With currentVersion set, a stale restore fails with PlaylistConflictError
+ * 
+ * @param playlistId Playlist ID
+ * @param version Revision version to restore
+ * @param currentVersion Playlist version the restore is based on
+ * @returns Promise<{ playlist: Playlist; message: string; skippedItems: number }> Restored playlist
+ */
+export async function restorePlaylistRevision(
+  playlistId: string,
+  version: number,
+  currentVersion?: number
+): Promise<{ playlist: Playlist; message: string; skippedItems: number }> {
+  const url = `${API_BASE_URL}/playlists/${playlistId}/revisions/${version}/restore`;
+  
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify({ version: currentVersion }),
+    });
+    
+    const result = await processResponse<SinglePlaylistResponse & { skippedItems: number }>(response);
+    return { playlist: result.data, message: result.message, skippedItems: result.skippedItems };
+  } catch (error) {
+    console.error('Failed to restore playlist revision:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Collaborators
+// ============================
+
+/**
+ * Get a playlist's owner, collaborators and the caller's permission
+ * 
+ * @param playlistId Playlist ID
+ * @returns Promise<PlaylistSharing> Sharing details
+ */
+export async function getPlaylistCollaborators(playlistId: string): Promise<PlaylistSharing> {
+  const url = `${API_BASE_URL}/playlists/${playlistId}/collaborators`;
+  
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<{ success: boolean; data: PlaylistSharing }>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to fetch playlist collaborators:', error);
+    throw error;
+  }
+}
+
+/**
+ * Share a playlist with a user by email
+ * 
+ * @param playlistId Playlist ID
+ * @param email Email of the user to share with
+ * @param permission Permission to grant
+ * @returns Promise<PlaylistSharing> Updated sharing details
+ */
+export async function addPlaylistCollaborator(
+  playlistId: string,
+  email: string,
+  permission: PlaylistCollaboratorPermission
+): Promise<PlaylistSharing> {
+  const url = `${API_BASE_URL}/playlists/${playlistId}/collaborators`;
+  
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify({ email, permission }),
+    });
+    
+    const result = await processResponse<{ success: boolean; data: PlaylistSharing }>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to add playlist collaborator:', error);
+    throw error;
+  }
+}
+
+/**
+ * Change a collaborator's permission
+ * 
+ * @param playlistId Playlist ID
+ * @param userId Collaborator's user ID
+ * @param permission New permission
+ * @returns Promise<PlaylistSharing> Updated sharing details
+ */
+export async function updatePlaylistCollaborator(
+  playlistId: string,
+  userId: string,
+  permission: PlaylistCollaboratorPermission
+): Promise<PlaylistSharing> {
+  const url = `${API_BASE_URL}/playlists/${playlistId}/collaborators/${userId}`;
+  
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'PUT',
+      body: JSON.stringify({ permission }),
+    });
+    
+    const result = await processResponse<{ success: boolean; data: PlaylistSharing }>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to update playlist collaborator:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a collaborator, or leave the playlist when userId is the caller
+ * 
+ * @param playlistId Playlist ID
+ * @param userId Collaborator's user ID
+ * @returns Promise<PlaylistSharing> Updated sharing details
+ */
+export async function removePlaylistCollaborator(playlistId: string, userId: string): Promise<PlaylistSharing> {
+  const url = `${API_BASE_URL}/playlists/${playlistId}/collaborators/${userId}`;
+  
+  try {
+    const response = await fetchWithRetry(url, { method: 'DELETE' });
+    const result = await processResponse<{ success: boolean; data: PlaylistSharing }>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to remove playlist collaborator:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Approval
+// ============================
+
+export const APPROVAL_STATUS_LABELS: Record<PlaylistApprovalStatus, string> = {
+  draft: 'Draft',
+  submitted: 'In review',
+  approved: 'Approved',
+  published: 'Published',
+};
+
+/**
+ * Get a playlist's approval status and review comments
+ * 
+ * @param playlistId Playlist ID
+ * @returns Promise<PlaylistApproval> Approval state
+ */
+export async function getPlaylistApproval(playlistId: string): Promise<PlaylistApproval> {
+  const url = `${API_BASE_URL}/playlists/${playlistId}/approval`;
+  
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<{ success: boolean; data: { approval: PlaylistApproval } }>(response);
+    return result.data.approval;
+  } catch (error) {
+    console.error('Failed to fetch playlist approval:', error);
+    throw error;
+  }
+}
+
+/**
+ * Move a playlist through review: submit it, approve or reject what was
+ * submitted, or publish what was approved
+ * 
+ * @param playlistId Playlist ID
+ * @param action Review step
+ * @param comment Note for the review thread; required when rejecting
+ * @returns Promise<PlaylistApproval> Updated approval state
+ */
+export async function changePlaylistApproval(
+  playlistId: string,
+  action: 'submit' | 'approve' | 'reject' | 'publish',
+  comment?: string
+): Promise<PlaylistApproval> {
+  const url = `${API_BASE_URL}/playlists/${playlistId}/approval/${action}`;
+  
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify(comment ? { comment } : {}),
+    });
+    
+    const result = await processResponse<{ success: boolean; data: { approval: PlaylistApproval } }>(response);
+    return result.data.approval;
+  } catch (error) {
+    console.error(`Failed to ${action} playlist:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Comment on a playlist's review without changing its status
+ * 
+ * @param playlistId Playlist ID
+ * @param comment Comment text
+ * @returns Promise<PlaylistApproval> Updated approval state
+ */
+export async function addPlaylistApprovalComment(playlistId: string, comment: string): Promise<PlaylistApproval> {
+  const url = `${API_BASE_URL}/playlists/${playlistId}/approval/comments`;
+  
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify({ comment }),
+    });
+    
+    const result = await processResponse<{ success: boolean; data: { approval: PlaylistApproval } }>(response);
+    return result.data.approval;
+  } catch (error) {
+    console.error('Failed to add approval comment:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the organization's playlists at one approval status, longest waiting first
+ * 
+ * @param params Status (submitted by default) and pagination
+ * @returns Promise<PlaylistApprovalQueueResponse> Playlists with pagination
+ */
+export async function getApprovalQueue(
+  params: { status?: PlaylistApprovalStatus; page?: number; limit?: number } = {}
+): Promise<PlaylistApprovalQueueResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.status) queryParams.append('status', params.status);
+  if (params.page) queryParams.append('page', String(params.page));
+  if (params.limit) queryParams.append('limit', String(params.limit));
+  
+  const url = `${API_BASE_URL}/playlists/approvals?${queryParams}`;
+  
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<{ success: boolean; data: PlaylistApprovalQueueResponse }>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to fetch approval queue:', error);
+    throw error;
+  }
+}
+
 // ============================
 // Bulk Operations
 // ============================
@@ -670,6 +957,13 @@ export function isPlaylistApiError(error: any): error is AuthApiError {
   return error instanceof AuthApiError;
 }
 
+/**
+ * Check if error is a version conflict from a concurrent edit
+ */
+export function isPlaylistConflictError(error: unknown): error is PlaylistConflictError {
+  return error instanceof PlaylistConflictError;
+}
+
 /**
  * Get user-friendly error message
  */
@@ -757,6 +1051,41 @@ export function validatePlaylistName(name: string): string | null {
   return null;
 }
 
+// Permission levels in increasing order
+const PERMISSION_RANK: Record<PlaylistPermission, number> = { view: 1, edit: 2, admin: 3, owner: 4 };
+
+/**
+ * The user's permission on a playlist, from its owner and collaborators
+ * 
+ * @param playlist Playlist, with owner and collaborators populated or not
+ * @param userId Current user ID
+ * @returns PlaylistPermission | null Null when the user has no access
+ */
+export function getPlaylistPermission(playlist: Playlist, userId: string | undefined): PlaylistPermission | null {
+  if (!userId) return null;
+
+  const toId = (value: unknown) => (value && typeof value === 'object'
+    ? (value as { _id?: string; id?: string })._id || (value as { id?: string }).id
+    : value as string | undefined);
+
+  if (toId(playlist.owner) === userId) return 'owner';
+
+  const collaborator = playlist.collaborators?.find(entry => toId(entry.user) === userId);
+  if (collaborator) return collaborator.permission;
+
+  return playlist.isPublic ? 'view' : null;
+}
+
+/**
+ * Whether a permission includes the required level
+ */
+export function hasPlaylistPermission(
+  permission: PlaylistPermission | null | undefined,
+  required: PlaylistPermission
+): boolean {
+  return !!permission && PERMISSION_RANK[permission] >= PERMISSION_RANK[required];
+}
+
 // ============================
 // Export default API object
 // ============================
@@ -782,6 +1111,24 @@ export const playlistAPI = {
   unassignPlaylistFromScreens,
   getPlaylistAssignments,
   
+  // Revision history
+  getPlaylistRevisions,
+  getPlaylistRevision,
+  comparePlaylistRevisions,
+  restorePlaylistRevision,
+  
+  // Collaborators
+  getPlaylistCollaborators,
+  addPlaylistCollaborator,
+  updatePlaylistCollaborator,
+  removePlaylistCollaborator,
+  
+  // Approval
+  getPlaylistApproval,
+  changePlaylistApproval,
+  addPlaylistApprovalComment,
+  getApprovalQueue,
+  
   // Bulk operations
   bulkPlaylistOperation,
   
@@ -791,11 +1138,14 @@ export const playlistAPI = {
   
   // Utility functions
   isPlaylistApiError,
+  isPlaylistConflictError,
   getPlaylistErrorMessage,
   getPlaylistValidationErrors,
   calculatePlaylistDuration,
   formatPlaylistDuration,
   validatePlaylistName,
+  getPlaylistPermission,
+  hasPlaylistPermission,
 } as const;
 
 export default playlistAPI;
\ No newline at end of file
@@ -0,0 +1,373 @@
+/**
+ * Playlist Item Conditions
+ *
+ * Decides whether a playlist item may play at a given moment on a given
+ * screen. The editor preview runs these rules against a simulated clock and
+ * the player against its own clock, so both always agree on what plays.
+ *
+ * Features:
+ * - Dayparting by time of day, e.g. breakfast until 11:00
+ * - Date windows and days of the week, read in the screen's timezone
+ * - Custom key/value conditions matched against screen attributes and tags
+ * - Data feed conditions (stock levels, queue lengths) and weather, read from
+ *   the data sources polled for the screen's location; they pass while a
+ *   value is unknown
+ *
+ * Value formats:
+ * - Times are HH:MM, dates YYYY-MM-DD and days mon-sun (or 0-6, Sunday first)
+ * - `between` takes "from,to"; time and day ranges may wrap, e.g. "22:00,02:00"
+ * - `in` and `not-in` take a comma-separated list
+ */
+
+import type { DisplaySession, PlaylistCondition, PlaylistConditionOperator, PlaylistConditionType } from '../types';
+
+// ============================
+// Types
+// ============================
+
+export interface PlaylistConditionContext {
+  now: Date;
+  timezone?: string; // IANA timezone of the screen; UTC when missing or unknown
+  attributes?: Record<string, string | string[] | undefined>; // Custom condition values, see buildScreenAttributes
+  weather?: string; // Current weather, e.g. "rain"; defaults to the weather.condition feed value
+  data?: Record<string, string | number>; // Data feed values keyed "<source key>.<field>"
+}
+
+export interface ZonedTime {
+  dateKey: string; // YYYY-MM-DD
+  weekday: number; // 0-6, Sunday first
+  minutes: number; // Minutes since midnight
+}
+
+type ConditionValue = string | number;
+
+interface ConditionScale {
+  parse: (raw: string) => ConditionValue | null;
+  wraps: boolean; // Ranges may run past the end, e.g. 22:00 to 02:00
+  endExclusive: boolean; // Whether `between` excludes its upper bound
+}
+
+// ============================
+// Constants
+// ============================
+
+export const CONDITION_TYPES: Array<{ value: PlaylistConditionType; label: string }> = [
+  { value: 'time-range', label: 'Time of day' },
+  { value: 'date-range', label: 'Date' },
+  { value: 'day-of-week', label: 'Day of week' },
+  { value: 'custom', label: 'Screen attribute' },
+  { value: 'data', label: 'Data feed' },
+  { value: 'weather', label: 'Weather' },
+];
+
+// Data feed value weather conditions compare: the condition field of a source keyed "weather"
+export const WEATHER_DATA_KEY = 'weather.condition';
+
+export const CONDITION_OPERATORS: Array<{ value: PlaylistConditionOperator; label: string }> = [
+  { value: 'equals', label: 'is' },
+  { value: 'not-equals', label: 'is not' },
+  { value: 'greater-than', label: 'after' },
+  { value: 'less-than', label: 'before' },
+  { value: 'between', label: 'between' },
+  { value: 'in', label: 'is one of' },
+  { value: 'not-in', label: 'is none of' },
+];
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const FULL_DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// ============================
+// Utility Functions
+// ============================
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  if (!formatters.has(timezone)) {
+    formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }));
+  }
+  return formatters.get(timezone)!;
+}
+
+function resolveFormatter(timezone?: string): Intl.DateTimeFormat {
+  if (timezone) {
+    try {
+      return getFormatter(timezone);
+    } catch {
+      // Unknown timezone, read the clock in UTC like the server does
+    }
+  }
+  return getFormatter('UTC');
+}
+
+function parseTime(raw: string): number | null {
+  const match = TIME_PATTERN.exec(raw);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function parseDay(raw: string): number | null {
+  if (/^[0-6]$/.test(raw)) return Number(raw);
+  const index = DAY_NAMES.indexOf(raw.slice(0, 3));
+  return index >= 0 && FULL_DAY_NAMES[index].startsWith(raw) ? index : null;
+}
+
+function parseText(raw: string): ConditionValue | null {
+  if (!raw) return null;
+  return NUMBER_PATTERN.test(raw) ? Number(raw) : raw;
+}
+
+const SCALES: Record<PlaylistConditionType, ConditionScale> = {
+  'time-range': { parse: parseTime, wraps: true, endExclusive: true },
+  'date-range': { parse: raw => (DATE_PATTERN.test(raw) ? raw : null), wraps: false, endExclusive: false },
+  'day-of-week': { parse: parseDay, wraps: true, endExclusive: false },
+  weather: { parse: parseText, wraps: false, endExclusive: false },
+  custom: { parse: parseText, wraps: false, endExclusive: false },
+  data: { parse: parseText, wraps: false, endExclusive: false },
+};
+
+function splitValues(value: string): string[] {
+  return value.split(',').map(part => part.trim().toLowerCase()).filter(Boolean);
+}
+
+function expectedCount(operator: PlaylistConditionOperator): 'one' | 'two' | 'many' {
+  if (operator === 'between') return 'two';
+  if (operator === 'in' || operator === 'not-in') return 'many';
+  return 'one';
+}
+
+/**
+ * Compares like with like; a number and a string only ever compare as text
+ */
+function compareValues(a: ConditionValue, b: ConditionValue): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function isOrdered(a: ConditionValue, b: ConditionValue): boolean {
+  return typeof a === typeof b;
+}
+
+/**
+ * Parsed values of a condition, or null when any of them is malformed
+ */
+function parseConditionValues(condition: PlaylistCondition): ConditionValue[] | null {
+  const scale = SCALES[condition.type];
+  if (!scale) return null;
+
+  const parts = splitValues(condition.value ?? '');
+  const count = expectedCount(condition.operator);
+  if (parts.length === 0 || (count === 'one' && parts.length !== 1) || (count === 'two' && parts.length !== 2)) {
+    return null;
+  }
+
+  const values = parts.map(scale.parse);
+  return values.some(value => value === null) ? null : values as ConditionValue[];
+}
+
+/**
+ * Screen values a condition is compared against. Null means the value is
+ * not known here, so the condition cannot be judged
+ */
+function getActualValues(condition: PlaylistCondition, context: PlaylistConditionContext): ConditionValue[] | null {
+  const zoned = getZonedTime(context.now, context.timezone);
+
+  switch (condition.type) {
+    case 'time-range':
+      return [zoned.minutes];
+    case 'date-range':
+      return [zoned.dateKey];
+    case 'day-of-week':
+      return [zoned.weekday];
+    case 'weather': {
+      const weather = context.weather ?? context.data?.[WEATHER_DATA_KEY];
+      return weather === undefined || weather === '' ? null : [parseText(String(weather).trim().toLowerCase()) ?? ''];
+    }
+    case 'data': {
+      const value = condition.key ? context.data?.[condition.key] : undefined;
+      return value === undefined ? null : [parseText(String(value).trim().toLowerCase()) ?? ''];
+    }
+    case 'custom': {
+      const raw = condition.key ? context.attributes?.[condition.key] : undefined;
+      const list = raw === undefined ? [] : Array.isArray(raw) ? raw : [raw];
+      return list
+        .map(value => parseText(String(value).trim().toLowerCase()))
+        .filter((value): value is ConditionValue => value !== null);
+    }
+    default:
+      return null;
+  }
+}
+
+function matchesValue(actual: ConditionValue, operator: PlaylistConditionOperator, values: ConditionValue[], scale: ConditionScale): boolean {
+  switch (operator) {
+    case 'equals':
+    case 'in':
+      return values.some(value => compareValues(actual, value) === 0);
+    case 'greater-than':
+      return isOrdered(actual, values[0]) && compareValues(actual, values[0]) > 0;
+    case 'less-than':
+      return isOrdered(actual, values[0]) && compareValues(actual, values[0]) < 0;
+    case 'between': {
+      const [from, to] = values;
+      if (!isOrdered(actual, from) || !isOrdered(actual, to)) return false;
+
+      const afterStart = compareValues(actual, from) >= 0;
+      const beforeEnd = scale.endExclusive ? compareValues(actual, to) < 0 : compareValues(actual, to) <= 0;
+
+      // A range that wraps, e.g. 22:00 to 02:00, covers both ends of the scale
+      return scale.wraps && compareValues(from, to) > 0 ? afterStart || beforeEnd : afterStart && beforeEnd;
+    }
+    default:
+      return false;
+  }
+}
+
+// ============================
+// Public Functions
+// ============================
+
+/**
+ * Wall-clock date and time of an instant in a timezone. Unknown timezones fall back to UTC
+ * @param date Instant to convert
+ * @param timezone IANA timezone, e.g. Europe/London
+ */
+export function getZonedTime(date: Date, timezone?: string): ZonedTime {
+  const parts = Object.fromEntries(
+    resolveFormatter(timezone).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * Why a condition cannot be evaluated, or null when it is well formed
+ * @param condition Condition to check
+ */
+export function validateCondition(condition: PlaylistCondition): string | null {
+  if (condition.type === 'custom' && !condition.key?.trim()) {
+    return 'Choose the screen attribute to compare';
+  }
+  if (condition.type === 'data' && !condition.key?.trim()) {
+    return 'Choose the data feed value to compare, e.g. queue.length';
+  }
+
+  if (parseConditionValues(condition)) return null;
+
+  const count = expectedCount(condition.operator);
+  const format = condition.type === 'time-range'
+    ? 'a time like 11:00'
+    : condition.type === 'date-range'
+      ? 'a date like 2026-12-24'
+      : condition.type === 'day-of-week'
+        ? 'a day like mon'
+        : 'a value';
+
+  if (count === 'two') return `Enter two values separated by a comma, each ${format}`;
+  if (count === 'many') return `Enter one or more values separated by commas, each ${format}`;
+  return `Enter ${format}`;
+}
+
+/**
+ * Whether a condition holds. Malformed conditions, and weather and data
+ * conditions whose value is unknown, are not enforced, so a typo or a feed
+ * outage never blanks a screen
+ * @param condition Condition to evaluate
+ * @param context Clock and screen to evaluate against
+ */
+export function evaluateCondition(condition: PlaylistCondition, context: PlaylistConditionContext): boolean {
+  const values = parseConditionValues(condition);
+  if (!values || ((condition.type === 'custom' || condition.type === 'data') && !condition.key)) return true;
+
+  const actual = getActualValues(condition, context);
+  if (actual === null) return true;
+
+  const scale = SCALES[condition.type];
+
+  if (condition.operator === 'not-equals' || condition.operator === 'not-in') {
+    const positive = condition.operator === 'not-equals' ? 'equals' : 'in';
+    return !actual.some(value => matchesValue(value, positive, values, scale));
+  }
+
+  // A screen with several values for a key (tags) matches if any of them does
+  return actual.some(value => matchesValue(value, condition.operator, values, scale));
+}
+
+/**
+ * Conditions of an item that stop it playing right now
+ * @param item Item with optional conditions
+ * @param context Clock and screen to evaluate against
+ */
+export function getUnmetConditions(
+  item: { conditions?: PlaylistCondition[] },
+  context: PlaylistConditionContext
+): PlaylistCondition[] {
+  return (item.conditions || []).filter(condition => !evaluateCondition(condition, context));
+}
+
+/**
+ * Whether an item may play; every one of its conditions must hold
+ */
+export function isItemPlayable(item: { conditions?: PlaylistCondition[] }, context: PlaylistConditionContext): boolean {
+  return getUnmetConditions(item, context).length === 0;
+}
+
+/**
+ * Items that may play right now, in their original order
+ */
+export function filterPlayableItems<T extends { conditions?: PlaylistCondition[] }>(
+  items: T[],
+  context: PlaylistConditionContext
+): T[] {
+  return items.filter(item => isItemPlayable(item, context));
+}
+
+/**
+ * Short human description of a condition, e.g. "Time before 11:00"
+ */
+export function describeCondition(condition: PlaylistCondition): string {
+  const subject = condition.type === 'custom' || condition.type === 'data'
+    ? condition.key || (condition.type === 'data' ? 'Data feed' : 'Attribute')
+    : CONDITION_TYPES.find(type => type.value === condition.type)?.label || condition.type;
+  const operator = CONDITION_OPERATORS.find(option => option.value === condition.operator)?.label || condition.operator;
+  const values = (condition.value || '').split(',').map(part => part.trim()).filter(Boolean);
+
+  const value = condition.operator === 'between' ? values.join(' and ') : values.join(', ');
+  return `${subject} ${operator} ${value}`.trim();
+}
+
+/**
+ * Values custom conditions can match on a screen: its attributes plus its
+ * tags, screen ID, name and location name. Attributes win over the built-in
+ * keys, so a screen can override what "location" means for its conditions
+ * @param session Display session or screen
+ */
+export function buildScreenAttributes(
+  session: Pick<DisplaySession, 'screenId' | 'name' | 'location' | 'tags' | 'attributes'>
+): Record<string, string | string[] | undefined> {
+  return {
+    screenId: session.screenId,
+    name: session.name,
+    location: session.location?.name,
+    tags: session.tags || [],
+    ...(session.attributes || {}),
+  };
+}
@@ -0,0 +1,330 @@
+/**
+ * Playlist Edit History
+ *
+ * Commands describing each edit made in the playlist editor, and how to undo
+ * or redo them against the playlist as it is stored now. Other collaborators
+ * may have changed the playlist since the edit, so every step is planned
+ * against the latest version rather than replayed blindly.
+ *
+ * Features:
+ * - Item add, remove, reorder and settings commands, plus playlist details
+ * - Each step is a single item-list or details update for PUT /playlists/:id
+ * - Items added or removed by others are kept when a reorder is undone
+ * - Details only revert fields nobody has changed since
+ */
+
+import type { Playlist, PlaylistItem, PlaylistItemUpdate, UpdatePlaylistData } from '../types';
+import { getItemKey, isEqualValue, toItemUpdate } from './playlistMerge';
+
+// ============================
+// Types
+// ============================
+
+export type PlaylistItemSettings = Pick<PlaylistItemUpdate, 'duration' | 'transitions' | 'conditions'>;
+
+export type PlaylistDetailsUpdate = Omit<UpdatePlaylistData, 'version' | 'items'>;
+
+interface PlaylistEditCommandBase {
+  playlistId: string;
+  label: string; // Shown in toasts, e.g. "Add intro.mp4"
+}
+
+export type PlaylistEditCommand = PlaylistEditCommandBase & (
+  | { type: 'add-item'; item: PlaylistItemUpdate; position: number }
+  | { type: 'remove-item'; item: PlaylistItemUpdate; position: number }
+  | { type: 'reorder-items'; before: string[]; after: string[] }
+  | { type: 'update-item'; itemId: string; before: PlaylistItemSettings; after: PlaylistItemSettings }
+  | { type: 'update-details'; before: PlaylistDetailsUpdate; after: PlaylistDetailsUpdate }
+);
+
+export type PlaylistHistoryDirection = 'undo' | 'redo';
+
+/**
+ * A command can no longer be applied, e.g. its item was removed by someone else
+ */
+export class PlaylistHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlaylistHistoryError';
+  }
+}
+
+// Oldest commands are dropped past this many
+export const MAX_EDIT_HISTORY = 50;
+
+// ============================
+// Utility Functions
+// ============================
+
+function sortedItems(playlist: Playlist): PlaylistItem[] {
+  return [...(playlist.items || [])].sort((a, b) => a.order - b.order);
+}
+
+function pickSettings(item: PlaylistItemSettings, keys: Array<keyof PlaylistItemSettings>): PlaylistItemSettings {
+  return Object.fromEntries(keys.map(key => [key, item[key] ?? null])) as PlaylistItemSettings;
+}
+
+/**
+ * Display name of an item's media, when the media is populated
+ */
+export function describePlaylistItem(item: PlaylistItem): string {
+  const media = typeof item.mediaId === 'object' ? item.mediaId : item.media;
+  return media?.originalName || 'item';
+}
+
+/**
+ * Add a command to a stack, dropping the oldest past MAX_EDIT_HISTORY
+ */
+export function pushEditCommand(stack: PlaylistEditCommand[], command: PlaylistEditCommand): PlaylistEditCommand[] {
+  return [...stack, command].slice(-MAX_EDIT_HISTORY);
+}
+
+/**
+ * Point commands at the new ID of an item that was added back, since the
+ * server gives a re-added item a new ID
+ */
+export function remapEditCommands(stack: PlaylistEditCommand[], fromId: string, toId: string): PlaylistEditCommand[] {
+  const remap = (id: string) => (id === fromId ? toId : id);
+
+  return stack.map((command) => {
+    switch (command.type) {
+      case 'add-item':
+      case 'remove-item':
+        return command.item.id === fromId ? { ...command, item: { ...command.item, id: toId } } : command;
+      case 'reorder-items':
+        return { ...command, before: command.before.map(remap), after: command.after.map(remap) };
+      case 'update-item':
+        return { ...command, itemId: remap(command.itemId) };
+      default:
+        return command;
+    }
+  });
+}
+
+// ============================
+// Commands
+// ============================
+
+/**
+ * Command for an item that was just added, from the item the API returned
+ */
+export function createAddItemCommand(playlistId: string, item: PlaylistItem, position: number): PlaylistEditCommand {
+  return {
+    type: 'add-item',
+    playlistId,
+    label: `Add ${describePlaylistItem(item)}`,
+    item: toItemUpdate(item),
+    position,
+  };
+}
+
+/**
+ * Command for an item that was just removed, keeping its settings so undo
+ * brings it back as it was
+ */
+export function createRemoveItemCommand(playlistId: string, item: PlaylistItem, position: number): PlaylistEditCommand {
+  return {
+    type: 'remove-item',
+    playlistId,
+    label: `Remove ${describePlaylistItem(item)}`,
+    item: toItemUpdate(item),
+    position,
+  };
+}
+
+/**
+ * Command for a new item order, from the item IDs before and after
+ */
+export function createReorderCommand(playlistId: string, before: string[], after: string[]): PlaylistEditCommand | null {
+  if (isEqualValue(before, after)) return null;
+  return { type: 'reorder-items', playlistId, label: 'Reorder items', before, after };
+}
+
+/**
+ * Command for a change to an item's duration, transition or conditions
+ */
+export function createItemSettingsCommand(
+  playlistId: string,
+  item: PlaylistItem,
+  settings: PlaylistItemSettings
+): PlaylistEditCommand {
+  const keys = Object.keys(settings) as Array<keyof PlaylistItemSettings>;
+
+  return {
+    type: 'update-item',
+    playlistId,
+    label: `Change ${describePlaylistItem(item)}`,
+    itemId: getItemKey(item),
+    before: pickSettings(toItemUpdate(item), keys),
+    after: pickSettings(settings, keys),
+  };
+}
+
+/**
+ * Command for a change to playlist details, settings or schedule
+ */
+export function createDetailsCommand(playlist: Playlist, data: PlaylistDetailsUpdate): PlaylistEditCommand | null {
+  const before: PlaylistDetailsUpdate = {};
+  const after: PlaylistDetailsUpdate = {};
+
+  // Callers may pass a full update payload; its version and items are not details
+  const keys = Object.keys(data).filter(key => key !== 'version' && key !== 'items') as Array<keyof PlaylistDetailsUpdate>;
+
+  keys.forEach((key) => {
+    if (data[key] === undefined) return;
+
+    if (key === 'settings') {
+      // Settings the playlist never had cannot be put back, so they are not undoable
+      const changed = Object.entries(data.settings || {}).filter(([setting, value]) => {
+        const current = playlist.settings?.[setting as keyof Playlist['settings']];
+        return current !== undefined && !isEqualValue(value, current);
+      });
+      if (changed.length === 0) return;
+
+      after.settings = Object.fromEntries(changed);
+      before.settings = Object.fromEntries(changed.map(([setting]) => [
+        setting,
+        playlist.settings?.[setting as keyof Playlist['settings']],
+      ]));
+      return;
+    }
+
+    const current = playlist[key as keyof Playlist];
+    if (current !== undefined && !isEqualValue(data[key], current)) {
+      (after as Record<string, unknown>)[key] = data[key];
+      (before as Record<string, unknown>)[key] = current;
+    }
+  });
+
+  if (Object.keys(after).length === 0) return null;
+
+  return {
+    type: 'update-details',
+    playlistId: playlist.id,
+    label: after.name !== undefined ? 'Rename playlist' : 'Edit playlist details',
+    before,
+    after,
+  };
+}
+
+// ============================
+// Planning
+// ============================
+
+function insertItem(items: PlaylistItemUpdate[], item: PlaylistItemUpdate, position: number): PlaylistItemUpdate[] {
+  const index = Math.min(Math.max(position, 0), items.length);
+  // The old ID no longer exists on the server, so the item is added as new
+  return [...items.slice(0, index), { ...item, id: undefined }, ...items.slice(index)];
+}
+
+function removeItem(items: PlaylistItemUpdate[], itemId: string | undefined): PlaylistItemUpdate[] {
+  if (!items.some(item => item.id === itemId)) {
+    throw new PlaylistHistoryError('The item was already removed by someone else');
+  }
+  return items.filter(item => item.id !== itemId);
+}
+
+/**
+ * Put items into an earlier order. Items that no longer exist are skipped and
+ * items added since keep their place at the end
+ */
+function reorderItems(items: PlaylistItemUpdate[], order: string[]): PlaylistItemUpdate[] {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const ordered = order.filter(id => byId.has(id)).map(id => byId.get(id) as PlaylistItemUpdate);
+  const placed = new Set(order);
+  return [...ordered, ...items.filter(item => !item.id || !placed.has(item.id))];
+}
+
+/**
+ * Fields of a details change whose current value is still the one being
+ * replaced; fields someone else changed since are left alone
+ */
+function revertDetails(playlist: Playlist, expected: PlaylistDetailsUpdate, target: PlaylistDetailsUpdate): PlaylistDetailsUpdate {
+  const update: PlaylistDetailsUpdate = {};
+
+  (Object.keys(target) as Array<keyof PlaylistDetailsUpdate>).forEach((key) => {
+    if (key === 'settings') {
+      const settings = Object.entries(target.settings || {}).filter(([setting]) => isEqualValue(
+        playlist.settings?.[setting as keyof Playlist['settings']],
+        expected.settings?.[setting as keyof Playlist['settings']]
+      ));
+      if (settings.length > 0) {
+        update.settings = Object.fromEntries(settings);
+      }
+      return;
+    }
+
+    if (isEqualValue(playlist[key as keyof Playlist], expected[key])) {
+      (update as Record<string, unknown>)[key] = target[key];
+    }
+  });
+
+  return update;
+}
+
+/**
+ * Update that undoes or redoes a command against the playlist as stored now
+ *
+ * @param command Command to apply
+ * @param playlist Latest version of the playlist
+ * @param direction Whether the command is being undone or redone
+ * @returns Payload for PUT /playlists/:id, without the version
+ * @throws PlaylistHistoryError when the command no longer applies
+ */
+export function planEditCommand(
+  command: PlaylistEditCommand,
+  playlist: Playlist,
+  direction: PlaylistHistoryDirection
+): UpdatePlaylistData {
+  const items = sortedItems(playlist).map(toItemUpdate);
+  const undo = direction === 'undo';
+
+  switch (command.type) {
+    case 'add-item':
+      return {
+        items: undo
+          ? removeItem(items, command.item.id)
+          : insertItem(items, command.item, command.position),
+      };
+
+    case 'remove-item':
+      return {
+        items: undo
+          ? insertItem(items, command.item, command.position)
+          : removeItem(items, command.item.id),
+      };
+
+    case 'reorder-items':
+      return { items: reorderItems(items, undo ? command.before : command.after) };
+
+    case 'update-item': {
+      if (!items.some(item => item.id === command.itemId)) {
+        throw new PlaylistHistoryError('The item was removed by someone else');
+      }
+      const settings = undo ? command.before : command.after;
+      return {
+        items: items.map(item => (item.id === command.itemId ? { ...item, ...settings } : item)),
+      };
+    }
+
+    case 'update-details': {
+      const update = undo
+        ? revertDetails(playlist, command.after, command.before)
+        : revertDetails(playlist, command.before, command.after);
+      if (Object.keys(update).length === 0) {
+        throw new PlaylistHistoryError('These details were changed by someone else since');
+      }
+      return update;
+    }
+  }
+}
+
+/**
+ * ID the server gave an item that a step added back, so later commands can
+ * refer to it
+ */
+export function findAddedItemId(before: Playlist, after: Playlist): string | undefined {
+  const existing = new Set((before.items || []).map(getItemKey));
+  const added = (after.items || []).find(item => !existing.has(getItemKey(item)));
+  return added && getItemKey(added);
+}
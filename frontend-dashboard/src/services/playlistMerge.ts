@@ -0,0 +1,445 @@
+/**
+ * Playlist Three-Way Merge
+ *
+ * Combines two concurrent edits of a playlist using the version both edits
+ * started from. Changes made on only one side are applied automatically; only
+ * a field or item changed differently on both sides needs a decision.
+ *
+ * Features:
+ * - Metadata merged per field, settings per setting
+ * - Item insertions and removals from both sides
+ * - Reorders merged against the common ancestor order
+ * - Per-item duration, transition, condition and media changes
+ */
+
+import type { Playlist, PlaylistItem, PlaylistItemUpdate, PlaylistSchedule, UpdatePlaylistData } from '../types';
+
+// ============================
+// Types
+// ============================
+
+export type PlaylistMergeSide = 'local' | 'remote';
+
+export type PlaylistChangeOrigin = PlaylistMergeSide | 'both' | 'conflict';
+
+export interface PlaylistFieldChange {
+  key: string; // e.g. 'name', 'settings.loop', 'items.order', 'items.<id>.duration'
+  label: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+  origin: PlaylistChangeOrigin;
+}
+
+export interface PlaylistMergeConflict extends PlaylistFieldChange {
+  origin: 'conflict';
+  itemId?: string;
+}
+
+export interface PlaylistMergeResult {
+  merged: Playlist;
+  changes: PlaylistFieldChange[]; // Everything either side changed, for the diff view
+  conflicts: PlaylistMergeConflict[]; // Changes that need a decision
+}
+
+// Which side wins each conflict, keyed by conflict key. Unresolved conflicts take the remote side
+export type PlaylistConflictChoices = Record<string, PlaylistMergeSide>;
+
+// Concurrent edit waiting for a decision in the conflict dialog
+export interface PlaylistConflictState {
+  hasConflict: boolean;
+  conflictingUserId?: string;
+  conflictingUserEmail?: string;
+  baseVersion?: Playlist;
+  localVersion?: Playlist;
+  remoteVersion?: Playlist;
+  changes?: PlaylistFieldChange[];
+  conflicts?: PlaylistMergeConflict[];
+  conflictType?: 'metadata' | 'items' | 'assignment';
+}
+
+// ============================
+// Field Definitions
+// ============================
+
+const METADATA_FIELDS: Array<{ key: string; label: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'description', label: 'Description' },
+  { key: 'isActive', label: 'Active' },
+  { key: 'isPublic', label: 'Public' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'settings.shuffle', label: 'Shuffle' },
+  { key: 'settings.loop', label: 'Loop' },
+  { key: 'settings.autoAdvance', label: 'Auto advance' },
+  { key: 'settings.pauseBetweenItems', label: 'Pause between items' },
+  { key: 'settings.priority', label: 'Priority' },
+  { key: 'settings.defaultItemDuration', label: 'Default item duration' },
+  { key: 'settings.allowDurationOverride', label: 'Allow duration override' },
+  { key: 'settings.defaultTransition', label: 'Default transition' },
+  { key: 'settings.backgroundColor', label: 'Background color' },
+  { key: 'settings.textColor', label: 'Text color' },
+  { key: 'settings.showMetadata', label: 'Show metadata' },
+  { key: 'schedule', label: 'Schedule' },
+];
+
+const ITEM_FIELDS: Array<{ key: 'mediaId' | 'duration' | 'transitions' | 'conditions'; label: string }> = [
+  { key: 'mediaId', label: 'Media' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'transitions', label: 'Transition' },
+  { key: 'conditions', label: 'Conditions' },
+];
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Structural equality; object key order and undefined properties are ignored
+ */
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    // Treat missing and null the same, e.g. a cleared duration
+    return (a === undefined || a === null) && (b === undefined || b === null);
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isEqualValue(value, b[index]));
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return [...keys].every(key => isEqualValue(aRecord[key], bRecord[key]));
+}
+
+function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  keys.slice(0, -1).forEach((key) => {
+    node[key] = { ...((node[key] as Record<string, unknown>) || {}) };
+    node = node[key] as Record<string, unknown>;
+  });
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Stable identifier of a playlist item; populated API responses may only carry _id
+ */
+export function getItemKey(item: PlaylistItem): string {
+  return item.id || (item as PlaylistItem & { _id?: string })._id || '';
+}
+
+/**
+ * Media ID of an item whether or not the media is populated
+ */
+export function getItemMediaId(item: PlaylistItem): string {
+  const { mediaId } = item;
+  if (mediaId && typeof mediaId === 'object') {
+    return (mediaId as { _id?: string; id?: string })._id || (mediaId as { id?: string }).id || '';
+  }
+  return mediaId as string;
+}
+
+/**
+ * An item in the shape PUT /playlists/:id accepts in its item list
+ */
+export function toItemUpdate(item: PlaylistItem): PlaylistItemUpdate {
+  return {
+    id: getItemKey(item) || undefined,
+    mediaId: getItemMediaId(item),
+    duration: item.duration ?? null,
+    transitions: item.transitions && { type: item.transitions.type, duration: item.transitions.duration },
+    conditions: item.conditions?.map(({ type, operator, key, value }) => ({ type, operator, key, value })) as PlaylistItem['conditions'],
+  };
+}
+
+function getItemField(item: PlaylistItem, key: typeof ITEM_FIELDS[number]['key']): unknown {
+  return key === 'mediaId' ? getItemMediaId(item) : item[key];
+}
+
+/**
+ * The merged fields of an item, for comparing item lists
+ */
+function getItemSnapshot(item: PlaylistItem): Record<string, unknown> {
+  return Object.fromEntries([
+    ['id', getItemKey(item)],
+    ...ITEM_FIELDS.map(({ key }) => [key, getItemField(item, key)]),
+  ]);
+}
+
+function sortedItems(playlist: Playlist): PlaylistItem[] {
+  return [...(playlist.items || [])].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Three-way decision for one value
+ */
+function mergeValue(
+  key: string,
+  label: string,
+  base: unknown,
+  local: unknown,
+  remote: unknown,
+  choices: PlaylistConflictChoices
+): { value: unknown; change?: PlaylistFieldChange } {
+  const localChanged = !isEqualValue(local, base);
+  const remoteChanged = !isEqualValue(remote, base);
+
+  if (!localChanged && !remoteChanged) return { value: base };
+  if (!remoteChanged) return { value: local, change: { key, label, base, local, remote, origin: 'local' } };
+  if (!localChanged) return { value: remote, change: { key, label, base, local, remote, origin: 'remote' } };
+  if (isEqualValue(local, remote)) return { value: remote, change: { key, label, base, local, remote, origin: 'both' } };
+
+  return {
+    value: choices[key] === 'local' ? local : remote,
+    change: { key, label, base, local, remote, origin: 'conflict' },
+  };
+}
+
+/**
+ * Whether an item was edited relative to its base copy
+ */
+function isItemEdited(base: PlaylistItem, item: PlaylistItem): boolean {
+  return ITEM_FIELDS.some(({ key }) => !isEqualValue(getItemField(base, key), getItemField(item, key)));
+}
+
+/**
+ * Item a change key refers to, e.g. 'items.<id>.duration'
+ */
+export function getChangeItemId(key: string): string | undefined {
+  const [scope, itemId] = key.split('.');
+  return scope === 'items' && itemId !== 'order' ? itemId : undefined;
+}
+
+function describeItem(item: PlaylistItem): string {
+  const media = item.media || (typeof item.mediaId === 'object' ? item.mediaId : undefined);
+  return media?.originalName || `Item ${getItemKey(item).slice(-6)}`;
+}
+
+// ============================
+// Merge
+// ============================
+
+/**
+ * Merge local and remote edits of a playlist made from the same base version
+ *
+ * @param base Playlist both edits started from
+ * @param local Playlist with this user's changes
+ * @param remote Playlist as currently stored on the server
+ * @param choices Side to take for each conflict already decided
+ * @returns Merged playlist, with the version of remote, plus the changes and conflicts found
+ */
+export function mergePlaylists(
+  base: Playlist,
+  local: Playlist,
+  remote: Playlist,
+  choices: PlaylistConflictChoices = {}
+): PlaylistMergeResult {
+  const changes: PlaylistFieldChange[] = [];
+  const merged = { ...remote } as unknown as Record<string, unknown>;
+
+  // Metadata, field by field
+  METADATA_FIELDS.forEach(({ key, label }) => {
+    const result = mergeValue(key, label, getPath(base, key), getPath(local, key), getPath(remote, key), choices);
+    if (result.change) {
+      changes.push(result.change);
+      setPath(merged, key, result.value);
+    }
+  });
+
+  // Items
+  const baseItems = sortedItems(base);
+  const localItems = sortedItems(local);
+  const remoteItems = sortedItems(remote);
+  const baseById = new Map(baseItems.map(item => [getItemKey(item), item]));
+  const localById = new Map(localItems.map(item => [getItemKey(item), item]));
+  const remoteById = new Map(remoteItems.map(item => [getItemKey(item), item]));
+
+  const mergedById = new Map<string, PlaylistItem>();
+
+  baseItems.forEach((baseItem) => {
+    const id = getItemKey(baseItem);
+    const localItem = localById.get(id);
+    const remoteItem = remoteById.get(id);
+    const label = describeItem(baseItem);
+
+    if (localItem && remoteItem) {
+      const mergedItem = { ...remoteItem };
+      ITEM_FIELDS.forEach(({ key, label: fieldLabel }) => {
+        const result = mergeValue(
+          `items.${id}.${key}`,
+          `${label}: ${fieldLabel}`,
+          getItemField(baseItem, key),
+          getItemField(localItem, key),
+          getItemField(remoteItem, key),
+          choices
+        );
+        if (result.change) {
+          changes.push(result.change);
+          if (key === 'mediaId') {
+            // Keep the populated media of whichever side supplied the value
+            const source = isEqualValue(result.value, getItemField(localItem, key)) ? localItem : remoteItem;
+            mergedItem.mediaId = source.mediaId;
+            mergedItem.media = source.media;
+          } else {
+            (mergedItem as unknown as Record<string, unknown>)[key] = result.value;
+          }
+        }
+      });
+      mergedById.set(id, mergedItem);
+      return;
+    }
+
+    if (!localItem && !remoteItem) {
+      changes.push({ key: `items.${id}`, label, base: baseItem, local: null, remote: null, origin: 'both' });
+      return;
+    }
+
+    // Removed on one side: a conflict only if the other side edited it
+    const keptItem = (localItem || remoteItem) as PlaylistItem;
+    const removedBy: PlaylistMergeSide = localItem ? 'remote' : 'local';
+    const key = `items.${id}`;
+
+    if (isItemEdited(baseItem, keptItem)) {
+      changes.push({
+        key,
+        label,
+        base: baseItem,
+        local: localItem || null,
+        remote: remoteItem || null,
+        origin: 'conflict',
+      });
+      const keep = choices[key] ? choices[key] !== removedBy : removedBy === 'local';
+      if (keep) mergedById.set(id, keptItem);
+    } else {
+      changes.push({ key, label, base: baseItem, local: localItem || null, remote: remoteItem || null, origin: removedBy });
+    }
+  });
+
+  // Insertions from either side
+  const addedLocal = localItems.filter(item => !baseById.has(getItemKey(item)));
+  const addedRemote = remoteItems.filter(item => !baseById.has(getItemKey(item)));
+  [...addedLocal.map(item => ({ item, origin: 'local' as const })), ...addedRemote.map(item => ({ item, origin: 'remote' as const }))]
+    .forEach(({ item, origin }) => {
+      const id = getItemKey(item);
+      if (mergedById.has(id)) return;
+      mergedById.set(id, item);
+      changes.push({
+        key: `items.${id}`,
+        label: describeItem(item),
+        base: null,
+        local: origin === 'local' ? item : null,
+        remote: origin === 'remote' ? item : null,
+        origin,
+      });
+    });
+
+  // Order: compare each side's sequence of the items all three versions share
+  const shared = (items: PlaylistItem[]) =>
+    items.map(getItemKey).filter(id => baseById.has(id) && localById.has(id) && remoteById.has(id) && mergedById.has(id));
+  const orderResult = mergeValue(
+    'items.order',
+    'Item order',
+    shared(baseItems),
+    shared(localItems),
+    shared(remoteItems),
+    choices
+  );
+  if (orderResult.change) changes.push(orderResult.change);
+
+  const orderOrigin = orderResult.change?.origin;
+  const orderSource = orderOrigin === 'local' || (orderOrigin === 'conflict' && choices['items.order'] === 'local')
+    ? localItems
+    : remoteItems;
+  const otherSource = orderSource === localItems ? remoteItems : localItems;
+
+  // Lay out the winning side, then slot in items only the other side has after their predecessor there
+  const sequence = orderSource.map(getItemKey).filter(id => mergedById.has(id));
+  otherSource.forEach((item, index) => {
+    const id = getItemKey(item);
+    if (!mergedById.has(id) || sequence.includes(id)) return;
+
+    let position = 0;
+    for (let previous = index - 1; previous >= 0; previous--) {
+      const anchor = sequence.indexOf(getItemKey(otherSource[previous]));
+      if (anchor !== -1) {
+        position = anchor + 1;
+        break;
+      }
+    }
+    sequence.splice(position, 0, id);
+  });
+  // Items kept through a conflict but missing from both layouts (removed on the order side)
+  baseItems.forEach((item) => {
+    const id = getItemKey(item);
+    if (mergedById.has(id) && !sequence.includes(id)) sequence.push(id);
+  });
+
+  merged.items = sequence.map((id, order) => ({ ...(mergedById.get(id) as PlaylistItem), order }));
+
+  return {
+    merged: merged as unknown as Playlist,
+    changes,
+    conflicts: changes
+      .filter((change): change is PlaylistMergeConflict => change.origin === 'conflict')
+      .map(conflict => ({ ...conflict, itemId: getChangeItemId(conflict.key) })),
+  };
+}
+
+/**
+ * Apply an update payload to a playlist, giving the local side of a merge
+ */
+export function applyPlaylistUpdate(playlist: Playlist, update: Partial<Playlist>): Playlist {
+  return {
+    ...playlist,
+    ...update,
+    settings: update.settings ? { ...playlist.settings, ...update.settings } : playlist.settings,
+  };
+}
+
+/**
+ * Update payload that writes a merged playlist over the stored one. Only fields
+ * that differ from the stored playlist are sent, in the shape the API accepts
+ *
+ * @param merged Result of mergePlaylists
+ * @param remote Playlist as currently stored, whose version the write is based on
+ */
+export function buildMergedUpdate(merged: Playlist, remote: Playlist): UpdatePlaylistData {
+  const update: UpdatePlaylistData = { version: remote.version };
+
+  (['name', 'description', 'isActive', 'isPublic', 'tags'] as const).forEach((key) => {
+    if (!isEqualValue(merged[key], remote[key])) {
+      (update as Record<string, unknown>)[key] = merged[key];
+    }
+  });
+
+  const settings = Object.fromEntries(
+    Object.entries(merged.settings || {}).filter(([key, value]) => !isEqualValue(value, getPath(remote.settings, key)))
+  );
+  if (Object.keys(settings).length > 0) {
+    update.settings = settings;
+  }
+
+  if (merged.schedule && !isEqualValue(merged.schedule, remote.schedule)) {
+    const { timeSlots, ...schedule } = merged.schedule as PlaylistSchedule & { timeSlots?: Array<{ startTime: string; endTime: string }> };
+    update.schedule = {
+      ...schedule,
+      ...(timeSlots ? { timeSlots: timeSlots.map(({ startTime, endTime }) => ({ startTime, endTime })) } : {}),
+    } as PlaylistSchedule;
+  }
+
+  if (!isEqualValue(merged.items.map(getItemSnapshot), sortedItems(remote).map(getItemSnapshot))) {
+    update.items = merged.items.map(toItemUpdate);
+  }
+
+  return update;
+}
@@ -0,0 +1,39 @@
+/**
+ * Playlist Presence Helpers
+ *
+ * How people working on a playlist are labelled in the editor: a display
+ * name, and a colour that stays the same for a user across sessions so their
+ * avatar and the items they touch are easy to match up.
+ */
+
+import type { PlaylistPresenceUser, PlaylistItemLock } from './socketService';
+
+// Full class names so Tailwind keeps them; each user gets one by their ID
+const PRESENCE_COLORS = [
+  { ring: 'ring-blue-500', bg: 'bg-blue-500' },
+  { ring: 'ring-emerald-500', bg: 'bg-emerald-500' },
+  { ring: 'ring-amber-500', bg: 'bg-amber-500' },
+  { ring: 'ring-rose-500', bg: 'bg-rose-500' },
+  { ring: 'ring-violet-500', bg: 'bg-violet-500' },
+  { ring: 'ring-cyan-500', bg: 'bg-cyan-500' },
+];
+
+export type PresenceColor = typeof PRESENCE_COLORS[number];
+
+/**
+ * Colour a user is shown in, the same on every dashboard
+ */
+export function getPresenceColor(userId: string): PresenceColor {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) >>> 0;
+  }
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+}
+
+/**
+ * Name shown for a user, falling back to their email
+ */
+export function getPresenceName(person: Pick<PlaylistPresenceUser | PlaylistItemLock, 'userName' | 'userEmail'>): string {
+  return person.userName || person.userEmail;
+}
@@ -0,0 +1,125 @@
+/**
+ * Playlist Playback Settings
+ *
+ * Defaults for the settings a playlist stores, and the rules that turn them
+ * into what plays: how long each item lasts and how it enters. The editor
+ * preview and the player both use these, matching the backend's
+ * Playlist#getItemDuration so durations agree everywhere.
+ *
+ * Rules:
+ * - An item's own duration wins unless the playlist disables overrides
+ * - Otherwise images play for the playlist's default duration, then their own;
+ *   videos play their full length
+ * - Items whose transition is 'none' enter with the playlist's default transition
+ */
+
+import type { MediaItem, PlaylistPlaybackSettings, PlaylistTransition, PlaylistTransitionType } from '../types';
+
+// ============================
+// Defaults
+// ============================
+
+// Same defaults as the backend playlist schema
+export const DEFAULT_PLAYLIST_SETTINGS: Required<PlaylistPlaybackSettings> = {
+  shuffle: false,
+  loop: true,
+  autoAdvance: true,
+  pauseBetweenItems: 0,
+  priority: 1,
+  defaultItemDuration: null,
+  allowDurationOverride: true,
+  defaultTransition: { type: 'none', duration: 0.5, easing: 'ease-in-out' },
+  backgroundColor: '#000000',
+  textColor: '#ffffff',
+  showMetadata: false,
+};
+
+// Transition types screens can play, as accepted by the backend
+export const PLAYLIST_TRANSITION_TYPES: Array<{ value: PlaylistTransition['type']; label: string }> = [
+  { value: 'none', label: 'None' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide-left', label: 'Slide left' },
+  { value: 'slide-right', label: 'Slide right' },
+  { value: 'slide-up', label: 'Slide up' },
+  { value: 'slide-down', label: 'Slide down' },
+  { value: 'zoom-in', label: 'Zoom in' },
+  { value: 'zoom-out', label: 'Zoom out' },
+];
+
+// Enter animations (tw-animate-css) for each playlist transition type
+export const PLAYLIST_TRANSITION_CLASSES: Record<PlaylistTransitionType, string> = {
+  'none': '',
+  'fade': 'animate-in fade-in',
+  'slide': 'animate-in slide-in-from-right',
+  'slide-left': 'animate-in slide-in-from-right',
+  'slide-right': 'animate-in slide-in-from-left',
+  'slide-up': 'animate-in slide-in-from-bottom',
+  'slide-down': 'animate-in slide-in-from-top',
+  'zoom-in': 'animate-in zoom-in',
+  'zoom-out': 'animate-in zoom-in-150',
+};
+
+// ============================
+// Resolution
+// ============================
+
+/**
+ * A playlist's settings with defaults filled in for anything it never set
+ */
+export function resolvePlaylistSettings(settings?: PlaylistPlaybackSettings | null): Required<PlaylistPlaybackSettings> {
+  const defined = Object.fromEntries(
+    Object.entries(settings || {}).filter(([, value]) => value !== undefined)
+  ) as PlaylistPlaybackSettings;
+
+  return {
+    ...DEFAULT_PLAYLIST_SETTINGS,
+    ...defined,
+    defaultTransition: { ...DEFAULT_PLAYLIST_SETTINGS.defaultTransition, ...defined.defaultTransition },
+  };
+}
+
+/**
+ * How long an item plays, in seconds; 0 when nothing sets a duration
+ * @param item - Item with its own optional duration
+ * @param media - The item's media, when loaded
+ * @param settings - The playlist's settings
+ */
+export function getItemDuration(
+  item: { duration?: number | null },
+  media: Pick<MediaItem, 'type' | 'duration' | 'videoDuration'> | null | undefined,
+  settings?: PlaylistPlaybackSettings | null
+): number {
+  const { allowDurationOverride, defaultItemDuration } = resolvePlaylistSettings(settings);
+
+  if (item.duration && allowDurationOverride) return item.duration;
+  if (!media) return defaultItemDuration || 0;
+
+  return media.type === 'image'
+    ? defaultItemDuration || media.duration || 0
+    : media.videoDuration || defaultItemDuration || 0;
+}
+
+/**
+ * The transition an item enters with; undefined when it has none
+ */
+export function getItemTransition(
+  transition: PlaylistTransition | undefined,
+  settings?: PlaylistPlaybackSettings | null
+): PlaylistTransition | undefined {
+  if (transition && transition.type !== 'none') return transition;
+
+  const { defaultTransition } = resolvePlaylistSettings(settings);
+  return defaultTransition.type !== 'none' ? defaultTransition : transition;
+}
+
+/**
+ * Animation timing for an entering item's transition class
+ */
+export function getTransitionStyle(transition?: PlaylistTransition): { animationDuration: string; animationTimingFunction: string } | undefined {
+  return transition && transition.type !== 'none'
+    ? {
+        animationDuration: `${transition.duration}s`,
+        animationTimingFunction: transition.easing || 'ease-in-out',
+      }
+    : undefined;
+}
@@ -0,0 +1,664 @@
+/**
+ * Screen API Service Layer
+ *
+ * Provides a typed interface for all screen-related HTTP requests
+ * with proper error handling and retry logic.
+ *
+ * Features:
+ * - Complete CRUD operations for screens
+ * - Filtering, search and pagination
+ * - Access key regeneration and device pairing codes
+ * - Playlist assignment per screen
+ * - Screen statistics
+ * - Remote commands with acknowledgement tracking
+ * - Retry logic for failed requests
+ */
+
+import { AuthApiError } from './auth';
+import { fetchWithRetry } from './httpClient';
+import type {
+  Screen,
+  CreateScreenData,
+  UpdateScreenData,
+  GetScreenParams,
+  ScreenListResponse,
+  SingleScreenResponse,
+  ScreenCredentialsResponse,
+  ScreenAccessKeyResponse,
+  ScreenStatsResponse,
+  ScreenStatistics,
+  ScreenScheduleSnapshot,
+  ScreenScheduleResponse,
+  ScreenPairingCode,
+  ScreenPairingCodeResponse,
+  ScreenPlaylistRef,
+  ScreenPlaybackState,
+  ScreenCommand,
+  ScreenCommandType,
+  ScreenCommandStatus,
+  ScreenCommandResponse,
+  ScreenCommandListResponse,
+  ScreenTargets,
+  BulkScreenCommandResponse,
+} from '../types';
+
+// ============================
+// Configuration
+// ============================
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Create standardized error from response
+ */
+function createErrorFromResponse(
+  response: Response,
+  data?: { message?: string; error?: string; errors?: Record<string, string> }
+): AuthApiError {
+  const message = data?.message || data?.error || `HTTP ${response.status}: ${response.statusText}`;
+
+  switch (response.status) {
+    case 400:
+      return new AuthApiError(message, 400, data?.errors);
+    case 401:
+      return new AuthApiError('Session expired. Please log in again.', 401);
+    case 403:
+      return new AuthApiError('Access denied', 403);
+    case 404:
+      return new AuthApiError(message || 'Screen not found', 404);
+    case 409:
+      return new AuthApiError('Screen with this ID already exists', 409);
+    case 429:
+      return new AuthApiError('Too many requests. Please try again later.', 429);
+    default:
+      if (response.status >= 500) {
+        return new AuthApiError('Server error. Please try again later.', response.status);
+      }
+      return new AuthApiError(message, response.status);
+  }
+}
+
+/**
+ * Process response and handle errors consistently
+ */
+async function processResponse<T>(response: Response): Promise<T> {
+  let data;
+
+  try {
+    data = await response.json();
+  } catch {
+    throw new AuthApiError('Invalid response format', response.status);
+  }
+
+  if (!response.ok) {
+    throw createErrorFromResponse(response, data);
+  }
+
+  return data as T;
+}
+
+// ============================
+// Core Screen API Functions
+// ============================
+
+/**
+ * Get screens with query parameters for pagination, filtering, and search
+ *
+ * @param params Query parameters for filtering and pagination
+ * @returns Promise<ScreenListResponse> Screens with pagination and statistics
+ */
+export async function getScreens(params: GetScreenParams = {}): Promise<ScreenListResponse> {
+  const queryParams = new URLSearchParams();
+
+  if (params.search) queryParams.append('search', params.search);
+  if (params.status) queryParams.append('status', params.status);
+  if (params.tags) queryParams.append('tags', params.tags);
+  if (params.group) queryParams.append('group', params.group);
+  if (params.location) queryParams.append('location', params.location);
+  if (params.page) queryParams.append('page', String(params.page));
+  if (params.limit) queryParams.append('limit', String(params.limit));
+  if (params.sortBy) queryParams.append('sort', params.sortBy);
+  if (params.sortOrder) queryParams.append('order', params.sortOrder);
+
+  const url = `${API_BASE_URL}/screens?${queryParams}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    return await processResponse<ScreenListResponse>(response);
+  } catch (error) {
+    console.error('Failed to fetch screens:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single screen by ID
+ *
+ * @param id Screen ID
+ * @returns Promise<Screen> Single screen data
+ */
+export async function getScreen(id: string): Promise<Screen> {
+  const url = `${API_BASE_URL}/screens/${id}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<SingleScreenResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to fetch screen:', error);
+    throw error;
+  }
+}
+
+/**
+ * Register a new screen
+ *
+ * @param data Screen registration data
+ * @returns Promise with the created screen and its access key (only returned once)
+ */
+export async function createScreen(data: CreateScreenData): Promise<ScreenCredentialsResponse['data']> {
+  const url = `${API_BASE_URL}/screens`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    const result = await processResponse<ScreenCredentialsResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to create screen:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update screen configuration
+ *
+ * @param id Screen ID
+ * @param data Update data
+ * @returns Promise<Screen> Updated screen
+ */
+export async function updateScreen(id: string, data: UpdateScreenData): Promise<Screen> {
+  const url = `${API_BASE_URL}/screens/${id}`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+
+    const result = await processResponse<SingleScreenResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to update screen:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a screen
+ *
+ * @param id Screen ID
+ * @returns Promise<void> Deletion confirmation
+ */
+export async function deleteScreen(id: string): Promise<void> {
+  const url = `${API_BASE_URL}/screens/${id}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'DELETE' });
+    await processResponse(response);
+  } catch (error) {
+    console.error('Failed to delete screen:', error);
+    throw error;
+  }
+}
+
+/**
+ * Regenerate the access key a screen device uses to authenticate
+ *
+ * @param id Screen ID
+ * @returns Promise<string> The new access key
+ */
+export async function regenerateAccessKey(id: string): Promise<string> {
+  const url = `${API_BASE_URL}/screens/${id}/access-key`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'POST' });
+    const result = await processResponse<ScreenAccessKeyResponse>(response);
+    return result.data.accessKey;
+  } catch (error) {
+    console.error('Failed to regenerate access key:', error);
+    throw error;
+  }
+}
+
+/**
+ * Issue a short-lived pairing code that a display device uses to claim a screen
+ *
+ * @param id Screen ID
+ * @returns Promise<ScreenPairingCode> Code, expiry and the URL encoded into the setup QR code
+ */
+export async function createPairingCode(id: string): Promise<ScreenPairingCode> {
+  const url = `${API_BASE_URL}/screens/${id}/pairing-code`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'POST' });
+    const result = await processResponse<ScreenPairingCodeResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to create pairing code:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Playlist Assignment
+// ============================
+
+/**
+ * Assign a playlist to a screen
+ *
+ * @param screenId Screen ID
+ * @param playlistId Playlist ID
+ * @param priority Queue priority (1-10, higher wins)
+ * @returns Promise<Screen> Updated screen
+ */
+export async function assignPlaylistToScreen(
+  screenId: string,
+  playlistId: string,
+  priority = 1
+): Promise<Screen> {
+  const url = `${API_BASE_URL}/screens/${screenId}/playlist`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify({ playlistId, priority }),
+    });
+
+    const result = await processResponse<SingleScreenResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to assign playlist to screen:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a playlist from a screen
+ *
+ * @param screenId Screen ID
+ * @param playlistId Playlist ID
+ * @returns Promise<Screen> Updated screen
+ */
+export async function removePlaylistFromScreen(screenId: string, playlistId: string): Promise<Screen> {
+  const url = `${API_BASE_URL}/screens/${screenId}/playlist/${playlistId}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'DELETE' });
+    const result = await processResponse<SingleScreenResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to remove playlist from screen:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Statistics
+// ============================
+
+/**
+ * Get screen statistics for the current user
+ *
+ * @returns Promise<ScreenStatistics> Aggregated screen statistics
+ */
+export async function getScreenStats(): Promise<ScreenStatistics> {
+  const url = `${API_BASE_URL}/screens/stats`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<ScreenStatsResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to fetch screen statistics:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Scheduling
+// ============================
+
+/**
+ * Get the playlist each screen plays at a point in time
+ *
+ * @param at Time to resolve, defaults to now
+ * @param groupId Limit to the screens in a group
+ * @returns Promise<ScreenScheduleSnapshot> Per-screen scheduled playlists
+ */
+export async function getScreenSchedule(at?: Date, groupId?: string): Promise<ScreenScheduleSnapshot> {
+  const params = new URLSearchParams();
+  if (at) params.append('at', at.toISOString());
+  if (groupId) params.append('group', groupId);
+
+  const query = params.toString();
+  const url = `${API_BASE_URL}/screens/schedule${query ? `?${query}` : ''}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<ScreenScheduleResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to fetch screen schedule:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Remote Commands
+// ============================
+
+/**
+ * Send a remote command to a screen
+ *
+ * @param id Screen ID
+ * @param type Command type
+ * @param value Volume or brightness (0-100) for settings commands
+ * @returns Promise with the tracked command, and the updated screen for settings commands
+ */
+export async function sendScreenCommand(
+  id: string,
+  type: ScreenCommandType,
+  value?: number
+): Promise<ScreenCommandResponse['data']> {
+  const url = `${API_BASE_URL}/screens/${id}/commands`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify(value === undefined ? { type } : { type, params: { value } }),
+    });
+
+    const result = await processResponse<ScreenCommandResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to send screen command:', error);
+    throw error;
+  }
+}
+
+/**
+ * Send the same remote command to many screens at once
+ *
+ * @param targets Screens and/or screen groups
+ * @param type Command to run
+ * @param value 0-100, required for set-volume and set-brightness
+ * @returns Promise with one command per screen and a delivery summary
+ */
+export async function sendBulkScreenCommand(
+  targets: ScreenTargets,
+  type: ScreenCommandType,
+  value?: number
+): Promise<BulkScreenCommandResponse['data']> {
+  const url = `${API_BASE_URL}/screens/commands`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify({
+        ...targets,
+        type,
+        ...(value === undefined ? {} : { params: { value } }),
+      }),
+    });
+
+    const result = await processResponse<BulkScreenCommandResponse>(response);
+    return result.data;
+  } catch (error) {
+    console.error('Failed to send bulk screen command:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get recent commands sent to a screen, newest first
+ *
+ * @param id Screen ID
+ * @param limit Maximum number of commands
+ * @returns Promise<ScreenCommand[]> Commands with their status and results
+ */
+export async function getScreenCommands(id: string, limit?: number): Promise<ScreenCommand[]> {
+  const url = `${API_BASE_URL}/screens/${id}/commands${limit ? `?limit=${limit}` : ''}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<ScreenCommandListResponse>(response);
+    return result.data.commands;
+  } catch (error) {
+    console.error('Failed to fetch screen commands:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Convenience Functions
+// ============================
+
+/**
+ * Check if error is a screen API error
+ */
+export function isScreenApiError(error: unknown): error is AuthApiError {
+  return error instanceof AuthApiError;
+}
+
+/**
+ * Get user-friendly error message
+ */
+export function getScreenErrorMessage(error: unknown): string {
+  if (isScreenApiError(error)) {
+    return error.message;
+  }
+
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  return 'An unexpected error occurred';
+}
+
+/**
+ * Get the display name of the playlist currently assigned to a screen
+ */
+export function getScreenPlaylistName(screen: Screen): string {
+  const playlist = screen.currentPlaylist;
+
+  if (playlist && typeof playlist === 'object') {
+    return (playlist as ScreenPlaylistRef).name;
+  }
+
+  return 'No playlist assigned';
+}
+
+/**
+ * Format a last-seen timestamp as a relative time string
+ */
+export function formatLastSeen(timestamp?: string): string {
+  if (!timestamp) return 'Never';
+
+  const diffSeconds = Math.floor((Date.now() - new Date(timestamp).getTime()) / 1000);
+
+  if (diffSeconds < 60) return diffSeconds < 10 ? 'Just now' : `${diffSeconds} sec ago`;
+
+  const diffMinutes = Math.floor(diffSeconds / 60);
+  if (diffMinutes < 60) return `${diffMinutes} min ago`;
+
+  const diffHours = Math.floor(diffMinutes / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+
+  return `${Math.floor(diffHours / 24)}d ago`;
+}
+
+/**
+ * Screen attributes as editable text, one "key=value" per line
+ */
+export function formatScreenAttributes(attributes?: Record<string, string>): string {
+  return Object.entries(attributes || {}).map(([key, value]) => `${key}=${value}`).join('\n');
+}
+
+/**
+ * Parse "key=value" lines into screen attributes; blank lines are ignored
+ * and a repeated key keeps its last value
+ */
+export function parseScreenAttributes(text: string): Record<string, string> {
+  return text.split('\n').reduce<Record<string, string>>((attributes, line) => {
+    const [key, ...rest] = line.split('=');
+    if (key.trim()) {
+      attributes[key.trim()] = rest.join('=').trim();
+    }
+    return attributes;
+  }, {});
+}
+
+/**
+ * Format a screen's total uptime (seconds) as a human-readable string
+ */
+export function formatUptime(seconds?: number): string {
+  if (!seconds) return '0m';
+
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+/**
+ * Describe a screen's offline media cache, e.g. "Synced" or "Syncing 3/10"
+ */
+export function formatCacheStatus(screen: Screen): string {
+  const cache = screen.cache;
+  if (!cache?.status) return 'Not reported';
+
+  const progress = `${cache.cachedAssets ?? 0}/${cache.totalAssets ?? 0}`;
+
+  switch (cache.status) {
+    case 'synced':
+      return 'Synced';
+    case 'syncing':
+      return `Syncing ${progress}`;
+    case 'partial':
+      return `Partial ${progress}`;
+    case 'error':
+      return 'Sync failed';
+    default:
+      return cache.status;
+  }
+}
+
+export type ConnectionStrength = 'excellent' | 'good' | 'fair' | 'poor' | 'unknown';
+
+/**
+ * Rate a screen's link from the heartbeat round trip its player last measured
+ */
+export function getConnectionStrength(screen: Screen): ConnectionStrength {
+  const latency = screen.network?.latency;
+  if (screen.status !== 'online' || latency === undefined) return 'unknown';
+
+  if (latency < 100) return 'excellent';
+  if (latency < 300) return 'good';
+  if (latency < 1000) return 'fair';
+  return 'poor';
+}
+
+/**
+ * Seconds a screen has spent on its current item, extrapolated from its last playback report
+ */
+export function getPlaybackElapsed(playback: ScreenPlaybackState, now: number = Date.now()): number {
+  if (playback.paused) return playback.elapsed;
+
+  const sinceReport = (now - new Date(playback.timestamp).getTime()) / 1000;
+  return Math.min(playback.duration, playback.elapsed + Math.max(0, sinceReport));
+}
+
+const COMMAND_LABELS: Record<ScreenCommandType, string> = {
+  restart: 'Restart',
+  reload: 'Reload content',
+  screenshot: 'Screenshot',
+  'set-volume': 'Set volume',
+  'set-brightness': 'Set brightness',
+};
+
+const COMMAND_STATUS_LABELS: Record<ScreenCommandStatus, string> = {
+  pending: 'Waiting for screen',
+  acked: 'Done',
+  failed: 'Failed',
+  timeout: 'No response',
+};
+
+/**
+ * Human-readable description of a remote command, e.g. "Set volume to 40%"
+ */
+export function formatCommand(command: ScreenCommand): string {
+  const label = COMMAND_LABELS[command.type] ?? command.type;
+  return command.params?.value !== undefined ? `${label} to ${command.params.value}%` : label;
+}
+
+/**
+ * Human-readable command status
+ */
+export function formatCommandStatus(status: ScreenCommandStatus): string {
+  return COMMAND_STATUS_LABELS[status] ?? status;
+}
+
+// ============================
+// Export default API object
+// ============================
+
+export const screenAPI = {
+  // CRUD operations
+  getScreens,
+  getScreen,
+  createScreen,
+  updateScreen,
+  deleteScreen,
+  regenerateAccessKey,
+  createPairingCode,
+
+  // Playlist assignment
+  assignPlaylistToScreen,
+  removePlaylistFromScreen,
+
+  // Statistics
+  getScreenStats,
+
+  // Scheduling
+  getScreenSchedule,
+
+  // Remote commands
+  sendScreenCommand,
+  sendBulkScreenCommand,
+  getScreenCommands,
+
+  // Utility functions
+  isScreenApiError,
+  getScreenErrorMessage,
+  getScreenPlaylistName,
+  formatLastSeen,
+  formatUptime,
+  formatCacheStatus,
+  getConnectionStrength,
+  getPlaybackElapsed,
+  formatCommand,
+  formatCommandStatus,
+} as const;
+
+export default screenAPI;
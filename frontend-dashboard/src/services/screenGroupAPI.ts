@@ -0,0 +1,293 @@
+/**
+ * Screen Group API Service Layer
+ *
+ * Provides a typed interface for managing screen groups, with the same
+ * error handling and retry logic as the other dashboard services.
+ *
+ * Features:
+ * - Nested groups (region → store → zone)
+ * - Static members plus tag-based dynamic membership
+ * - Resolving a group to its screens, subgroups included
+ */
+
+import { AuthApiError } from './auth';
+import { fetchWithRetry } from './httpClient';
+import type {
+  Screen,
+  ScreenGroup,
+  ScreenGroupData,
+  ScreenGroupResponse,
+  ScreenGroupListResponse,
+} from '../types';
+
+// ============================
+// Configuration
+// ============================
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * Create standardized error from response
+ */
+function createErrorFromResponse(
+  response: Response,
+  data?: { message?: string; error?: string; errors?: Record<string, string> }
+): AuthApiError {
+  const message = data?.message || data?.error || `HTTP ${response.status}: ${response.statusText}`;
+
+  switch (response.status) {
+    case 400:
+      return new AuthApiError(message, 400, data?.errors);
+    case 401:
+      return new AuthApiError('Session expired. Please log in again.', 401);
+    case 403:
+      return new AuthApiError('Access denied', 403);
+    case 404:
+      return new AuthApiError(message || 'Screen group not found', 404);
+    case 429:
+      return new AuthApiError('Too many requests. Please try again later.', 429);
+    default:
+      if (response.status >= 500) {
+        return new AuthApiError('Server error. Please try again later.', response.status);
+      }
+      return new AuthApiError(message, response.status);
+  }
+}
+
+/**
+ * Process response and handle errors consistently
+ */
+async function processResponse<T>(response: Response): Promise<T> {
+  let data;
+
+  try {
+    data = await response.json();
+  } catch {
+    throw new AuthApiError('Invalid response format', response.status);
+  }
+
+  if (!response.ok) {
+    throw createErrorFromResponse(response, data);
+  }
+
+  return data as T;
+}
+
+// ============================
+// Core Screen Group API Functions
+// ============================
+
+/**
+ * Get the user's screen groups with member counts
+ *
+ * @returns Promise<ScreenGroup[]> Groups sorted by name
+ */
+export async function getScreenGroups(): Promise<ScreenGroup[]> {
+  const url = `${API_BASE_URL}/screen-groups`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'GET' });
+    const result = await processResponse<ScreenGroupListResponse>(response);
+    return result.data.groups;
+  } catch (error) {
+    console.error('Failed to fetch screen groups:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a screen group
+ *
+ * @param data Group details, parent and membership
+ * @returns Promise<ScreenGroup> Created group
+ */
+export async function createScreenGroup(data: ScreenGroupData): Promise<ScreenGroup> {
+  const url = `${API_BASE_URL}/screen-groups`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+
+    const result = await processResponse<ScreenGroupResponse>(response);
+    return result.data.group;
+  } catch (error) {
+    console.error('Failed to create screen group:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a screen group
+ *
+ * @param id Group ID
+ * @param data Fields to change
+ * @returns Promise<ScreenGroup> Updated group
+ */
+export async function updateScreenGroup(id: string, data: Partial<ScreenGroupData>): Promise<ScreenGroup> {
+  const url = `${API_BASE_URL}/screen-groups/${id}`;
+
+  try {
+    const response = await fetchWithRetry(url, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+
+    const result = await processResponse<ScreenGroupResponse>(response);
+    return result.data.group;
+  } catch (error) {
+    console.error('Failed to update screen group:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a screen group. Its subgroups move up to its parent
+ *
+ * @param id Group ID
+ */
+export async function deleteScreenGroup(id: string): Promise<void> {
+  const url = `${API_BASE_URL}/screen-groups/${id}`;
+
+  try {
+    const response = await fetchWithRetry(url, { method: 'DELETE' });
+    await processResponse(response);
+  } catch (error) {
+    console.error('Failed to delete screen group:', error);
+    throw error;
+  }
+}
+
+// ============================
+// Utility Functions
+// ============================
+
+/**
+ * A group and all of its descendants
+ */
+export function getGroupWithDescendants(groups: ScreenGroup[], groupId: string): ScreenGroup[] {
+  const selected = new Set([groupId]);
+  let added = true;
+
+  while (added) {
+    added = false;
+    groups.forEach(group => {
+      if (group.parent && selected.has(group.parent) && !selected.has(group._id)) {
+        selected.add(group._id);
+        added = true;
+      }
+    });
+  }
+
+  return groups.filter(group => selected.has(group._id));
+}
+
+/**
+ * Whether a screen is a direct member of a group, listed explicitly or by tag
+ */
+export function isScreenInGroup(group: ScreenGroup, screen: Screen): boolean {
+  if (group.screens.includes(screen.id)) return true;
+  if (group.tags.length === 0) return false;
+
+  const screenTags = (screen.tags || []).map(tag => tag.toLowerCase());
+  return group.tagMatch === 'all'
+    ? group.tags.every(tag => screenTags.includes(tag))
+    : group.tags.some(tag => screenTags.includes(tag));
+}
+
+/**
+ * Ids of the screens in a group, subgroups included. Mirrors how the
+ * server resolves groups so filters stay in step with targeting
+ */
+export function getGroupScreenIds(groups: ScreenGroup[], screens: Screen[], groupId: string): string[] {
+  const members = getGroupWithDescendants(groups, groupId);
+
+  return screens
+    .filter(screen => members.some(group => isScreenInGroup(group, screen)))
+    .map(screen => screen.id);
+}
+
+/**
+ * Full path of a group, e.g. "North / Store 12 / Checkout"
+ */
+export function getGroupPath(groups: ScreenGroup[], groupId: string): string {
+  const names: string[] = [];
+  let group = groups.find(candidate => candidate._id === groupId);
+
+  while (group && names.length < 10) {
+    names.unshift(group.name);
+    const parentId = group.parent;
+    group = parentId ? groups.find(candidate => candidate._id === parentId) : undefined;
+  }
+
+  return names.join(' / ');
+}
+
+/**
+ * Groups in tree order with their nesting depth, for indented lists
+ */
+export function flattenGroupTree(groups: ScreenGroup[]): Array<{ group: ScreenGroup; depth: number }> {
+  const ids = new Set(groups.map(group => group._id));
+  const result: Array<{ group: ScreenGroup; depth: number }> = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    groups
+      .filter(group => (group.parent && ids.has(group.parent) ? group.parent : null) === parentId)
+      .forEach(group => {
+        result.push({ group, depth });
+        visit(group._id, depth + 1);
+      });
+  };
+
+  visit(null, 0);
+  return result;
+}
+
+/**
+ * Check if error is a screen group API error
+ */
+export function isScreenGroupApiError(error: unknown): error is AuthApiError {
+  return error instanceof AuthApiError;
+}
+
+/**
+ * Get user-friendly error message
+ */
+export function getScreenGroupErrorMessage(error: unknown): string {
+  if (isScreenGroupApiError(error)) {
+    return error.message;
+  }
+
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  return 'An unexpected error occurred';
+}
+
+// ============================
+// Export default API object
+// ============================
+
+export const screenGroupAPI = {
+  getScreenGroups,
+  createScreenGroup,
+  updateScreenGroup,
+  deleteScreenGroup,
+
+  // Utility functions
+  getGroupWithDescendants,
+  isScreenInGroup,
+  getGroupScreenIds,
+  getGroupPath,
+  flattenGroupTree,
+  isScreenGroupApiError,
+  getScreenGroupErrorMessage,
+} as const;
+
+export default screenGroupAPI;
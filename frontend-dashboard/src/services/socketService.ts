@@ -22,8 +22,26 @@ import type {
   Playlist, 
   PlaylistItem, 
   MediaItem, 
-  ScreenAssignment 
+  ScreenAssignment,
+  Screen,
+  ScreenStatus,
+  ScreenCacheStatus,
+  ScreenPerformance,
+  ScreenNetwork,
+  ScreenPlaybackState,
+  ScreenCommand,
+  EmergencyBroadcast,
+  PlaylistPermission,
+  PlaylistApprovalAction,
+  PlaylistApprovalStatus,
+  Permission
 } from '../types';
+import {
+  getAccessToken,
+  onAuthTokenChange,
+  getActiveOrganizationId,
+  onActiveOrganizationChange,
+} from './httpClient';
 
 // ============================
 // Event Types and Interfaces
@@ -52,6 +70,24 @@ export interface PlaylistReorderEvent {
   timestamp: string;
 }
 
+// Sent on joining a playlist room, and when the playlist's sharing changes (with changedBy)
+export interface PlaylistPermissionEvent {
+  playlistId: string;
+  permission: PlaylistPermission | null;
+  changedBy?: string;
+  timestamp?: string;
+}
+
+// A playlist moved through review, or someone commented on it
+export interface PlaylistApprovalEvent {
+  playlistId: string;
+  name: string;
+  status: PlaylistApprovalStatus;
+  action: PlaylistApprovalAction;
+  userId: string;
+  timestamp: string;
+}
+
 export interface MediaEvent {
   mediaId: string;
   media?: MediaItem;
@@ -62,13 +98,61 @@ export interface MediaEvent {
 
 export interface ScreenStatusEvent {
   screenId: string;
-  status: 'online' | 'offline';
+  status: ScreenStatus;
+  previousStatus?: ScreenStatus;
+  lastSeen?: string;
   timestamp: string;
   location?: string;
   resolution?: string;
   message?: string;
 }
 
+export interface ScreenHeartbeatEvent {
+  screenId: string;
+  lastSeen: string;
+  performance?: ScreenPerformance;
+  network?: ScreenNetwork;
+  timestamp: string;
+}
+
+export interface ScreenPairedEvent {
+  id: string;
+  screenId: string;
+  name: string;
+  device?: Screen['device'];
+  pairedAt: string;
+  timestamp: string;
+}
+
+export interface ScreenCacheUpdatedEvent {
+  id: string;
+  screenId: string;
+  cache: ScreenCacheStatus;
+  timestamp: string;
+}
+
+export interface ScreenCommandUpdatedEvent {
+  command: ScreenCommand;
+  timestamp: string;
+}
+
+export interface EmergencyUpdatedEvent {
+  action: 'issued' | 'activated' | 'cleared' | 'expired';
+  emergency: EmergencyBroadcast;
+  timestamp: string;
+}
+
+export interface PermissionsChangedEvent {
+  organizationId: string;
+  timestamp: string;
+}
+
+export interface PermissionDeniedEvent {
+  event: string;
+  permission: Permission;
+  message: string;
+}
+
 export interface UserPresenceEvent {
   userId: string;
   userEmail: string;
@@ -77,6 +161,41 @@ export interface UserPresenceEvent {
   timestamp: string;
 }
 
+export type PlaylistPresenceActivity = 'editing' | 'dragging';
+
+// One open editor tab in a playlist room
+export interface PlaylistPresenceUser {
+  socketId: string;
+  userId: string;
+  userEmail: string;
+  userName?: string;
+  joinedAt: string;
+  itemId: string | null; // Item being edited or dragged
+  activity: PlaylistPresenceActivity | null;
+}
+
+// Advisory lock on an item whose settings someone has open
+export interface PlaylistItemLock {
+  itemId: string;
+  socketId: string;
+  userId: string;
+  userEmail: string;
+  userName?: string;
+  acquiredAt: string;
+}
+
+export interface PlaylistPresenceEvent {
+  playlistId: string;
+  users: PlaylistPresenceUser[];
+  locks: PlaylistItemLock[];
+}
+
+export interface PlaylistItemLockResult {
+  success: boolean;
+  lock?: PlaylistItemLock | null; // The current holder when the lock was refused
+  message?: string;
+}
+
 export interface ConnectionStatus {
   connected: boolean;
   connecting: boolean;
@@ -109,10 +228,27 @@ interface SocketEventHandlers {
   'playlist:assigned': EventHandler<{ playlistId: string; screenIds: string[]; assignedBy: string; timestamp: string }>;
   'playlist:unassigned': EventHandler<{ playlistId: string; screenIds: string[]; unassignedBy: string; timestamp: string }>;
   
+  // Playlist access events
+  'joined:playlist': EventHandler<PlaylistPermissionEvent>;
+  'playlist:permission:changed': EventHandler<PlaylistPermissionEvent>;
+  'playlist:access:denied': EventHandler<{ playlistId: string; message: string }>;
+  'playlist:approval:changed': EventHandler<PlaylistApprovalEvent>;
+  
   // Screen events
   'screen:status:changed': EventHandler<ScreenStatusEvent>;
   'screen:playlist:changed': EventHandler<{ screenId: string; playlistId: string | null; changedBy: string; timestamp: string }>;
-  'screen:heartbeat': EventHandler<{ screenId: string; timestamp: string }>;
+  'screen:heartbeat': EventHandler<ScreenHeartbeatEvent>;
+  'screen:paired': EventHandler<ScreenPairedEvent>;
+  'screen:cache:updated': EventHandler<ScreenCacheUpdatedEvent>;
+  'screen:playback:progress': EventHandler<ScreenPlaybackState>;
+  'screen:command:updated': EventHandler<ScreenCommandUpdatedEvent>;
+
+  // Emergency events
+  'emergency:updated': EventHandler<EmergencyUpdatedEvent>;
+
+  // Organization events
+  'organization:permissions:changed': EventHandler<PermissionsChangedEvent>;
+  'permission:denied': EventHandler<PermissionDeniedEvent>;
   
   // Media events
   'media:uploaded': EventHandler<MediaEvent>;
@@ -123,6 +259,7 @@ interface SocketEventHandlers {
   'user:presence': EventHandler<UserPresenceEvent>;
   'user:joined:playlist': EventHandler<UserPresenceEvent>;
   'user:left:playlist': EventHandler<UserPresenceEvent>;
+  'playlist:presence': EventHandler<PlaylistPresenceEvent>;
   
   // System events
   'connection:status': EventHandler<{ status: string; message?: string }>;
@@ -142,6 +279,7 @@ export interface ISocketService {
   connect(): Promise<void>;
   disconnect(): void;
   reconnect(): Promise<void>;
+  rejoinWorkspace(): void;
   
   // Event handling
   on<K extends keyof SocketEventHandlers>(event: K, callback: SocketEventHandlers[K]): void;
@@ -170,6 +308,12 @@ export interface ISocketService {
   // User presence
   emitUserJoinedPlaylist(playlistId: string): void;
   emitUserLeftPlaylist(playlistId: string): void;
+  emitPlaylistActivity(playlistId: string, itemId: string | null, activity?: PlaylistPresenceActivity): void;
+  lockPlaylistItem(playlistId: string, itemId: string): Promise<PlaylistItemLockResult>;
+  unlockPlaylistItem(playlistId: string, itemId: string): void;
+
+  // Screen control
+  requestPlaybackSync(): Promise<ScreenPlaybackState[]>;
   
   // Utilities
   isConnected(): boolean;
@@ -196,6 +340,15 @@ class SocketServiceImpl implements ISocketService {
   private reconnectDelay = 1000;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private statusUpdateCallbacks: Array<(status: ConnectionStatus) => void> = [];
+  // Rooms live on the server connection, so every new connection joins these again
+  private joinedPlaylistRooms = new Set<string>();
+
+  constructor() {
+    // Handshakes carry the access token, so follow it as it is refreshed
+    onAuthTokenChange(token => this.handleTokenChange(token));
+    // ...and the organization, whose room the server joins on connect
+    onActiveOrganizationChange(() => this.rejoinWorkspace());
+  }
 
   // ============================
   // Connection Management
@@ -206,7 +359,7 @@ class SocketServiceImpl implements ISocketService {
       return;
     }
 
-    const token = localStorage.getItem('auth_token');
+    const token = getAccessToken();
     if (!token) {
       console.warn('No authentication token found. Skipping socket connection.');
       this.updateConnectionStatus({ 
@@ -223,7 +376,7 @@ class SocketServiceImpl implements ISocketService {
       const baseURL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5000';
       
       this.socket = io(baseURL, {
-        auth: { token },
+        auth: this.handshakeAuth(token),
         transports: ['websocket', 'polling'],
         reconnection: true,
         reconnectionAttempts: this.maxReconnectAttempts,
@@ -270,6 +423,47 @@ class SocketServiceImpl implements ISocketService {
     await this.connect();
   }
 
+  /**
+   * The server checks the token only on handshake, so a refreshed token is
+   * kept for the next reconnect without dropping the connection; signing
+   * out disconnects
+   */
+  private handleTokenChange(token: string | null): void {
+    if (!this.socket) return;
+
+    if (!token) {
+      this.joinedPlaylistRooms.clear();
+      this.disconnect();
+      return;
+    }
+
+    this.socket.auth = this.handshakeAuth(token);
+  }
+
+  /**
+   * Reconnect into the active organization's room. A socket the server
+   * disconnected, e.g. after removal from the previous organization, does not
+   * reconnect by itself, so it is connected again here
+   */
+  rejoinWorkspace(): void {
+    const token = getAccessToken();
+    if (!this.socket || !token) return;
+
+    // Playlists of the previous organization are not open in this one
+    this.joinedPlaylistRooms.clear();
+    this.socket.auth = this.handshakeAuth(token);
+    if (this.socket.connected) {
+      this.socket.disconnect().connect();
+    } else {
+      this.socket.connect();
+    }
+  }
+
+  private handshakeAuth(token: string): { token: string; organizationId?: string } {
+    const organizationId = getActiveOrganizationId();
+    return organizationId ? { token, organizationId } : { token };
+  }
+
   private async waitForConnection(): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.socket) {
@@ -308,6 +502,11 @@ class SocketServiceImpl implements ISocketService {
         error: undefined,
       });
 
+      // A new connection starts without rooms, so join the open playlists again
+      this.joinedPlaylistRooms.forEach(playlistId => {
+        this.socket?.emit('join:playlist', { playlistId });
+      });
+
       // Flush any buffered events
       this.flushBufferedEvents();
       
@@ -431,12 +630,19 @@ class SocketServiceImpl implements ISocketService {
   // ============================
 
   joinPlaylistRoom(playlistId: string): void {
-    this.emit('join:playlist', { playlistId });
+    this.joinedPlaylistRooms.add(playlistId);
+    // While disconnected, the room is joined on connect
+    if (this.socket?.connected) {
+      this.socket.emit('join:playlist', { playlistId });
+    }
     console.log('Joined playlist room:', playlistId);
   }
 
   leavePlaylistRoom(playlistId: string): void {
-    this.emit('leave:playlist', { playlistId });
+    this.joinedPlaylistRooms.delete(playlistId);
+    if (this.socket?.connected) {
+      this.socket.emit('leave:playlist', { playlistId });
+    }
     console.log('Left playlist room:', playlistId);
   }
 
@@ -547,6 +753,64 @@ class SocketServiceImpl implements ISocketService {
     });
   }
 
+  /**
+   * Show others which item this user is editing or dragging; a null item clears it.
+   * Sent only while connected, since a stale activity is worse than none
+   */
+  emitPlaylistActivity(playlistId: string, itemId: string | null, activity?: PlaylistPresenceActivity): void {
+    this.socket?.volatile.emit('playlist:presence:activity', {
+      playlistId,
+      itemId,
+      activity: itemId ? activity : null,
+    });
+  }
+
+  /**
+   * Ask for the soft lock on an item before editing its settings.
+   * Locks are advisory, so editing is allowed when the server can't be asked
+   */
+  lockPlaylistItem(playlistId: string, itemId: string): Promise<PlaylistItemLockResult> {
+    return new Promise((resolve) => {
+      if (!this.socket?.connected) {
+        resolve({ success: true, lock: null });
+        return;
+      }
+
+      this.socket
+        .timeout(5000)
+        .emit('playlist:item:lock', { playlistId, itemId }, (error: Error | null, response?: PlaylistItemLockResult) => {
+          resolve(error || !response ? { success: true, lock: null } : response);
+        });
+    });
+  }
+
+  unlockPlaylistItem(playlistId: string, itemId: string): void {
+    this.socket?.emit('playlist:item:unlock', { playlistId, itemId });
+  }
+
+  // ============================
+  // Screen Control
+  // ============================
+
+  /**
+   * Ask the server what each of the user's screens is currently playing.
+   * Resolves with an empty list when disconnected or if the server doesn't answer
+   */
+  requestPlaybackSync(): Promise<ScreenPlaybackState[]> {
+    return new Promise((resolve) => {
+      if (!this.socket?.connected) {
+        resolve([]);
+        return;
+      }
+
+      this.socket
+        .timeout(5000)
+        .emit('screens:playback:sync', (error: Error | null, response?: { success: boolean; playback: ScreenPlaybackState[] }) => {
+          resolve(!error && response?.success ? response.playback : []);
+        });
+    });
+  }
+
   // ============================
   // Utilities
   // ============================
@@ -0,0 +1,193 @@
+/**
+ * Emergency Broadcast Store
+ *
+ * This Zustand store tracks the user's active emergency broadcasts so the
+ * control room shows the same emergency state across sessions and tabs:
+ * - Active and scheduled emergencies loaded from the emergency API
+ * - Issuing and clearing emergencies
+ * - Real-time updates when an emergency is issued, activated, cleared or expires
+ */
+
+import { create } from 'zustand';
+import { devtools, subscribeWithSelector } from 'zustand/middleware';
+import {
+  getActiveEmergencies,
+  createEmergency as createEmergencyAPI,
+  clearEmergency as clearEmergencyAPI,
+  getEmergencyErrorMessage,
+} from '../services/emergencyAPI';
+
+import { socketService } from '../services/socketService';
+import type { EmergencyUpdatedEvent } from '../services/socketService';
+
+import type { EmergencyBroadcast, CreateEmergencyData } from '../types';
+
+// ============================
+// Store State Interfaces
+// ============================
+
+interface EmergencyStoreState {
+  // Active and scheduled emergencies, newest first
+  emergencies: EmergencyBroadcast[];
+
+  loading: boolean;
+  error: string | null;
+  operationLoading: Record<string, boolean>;
+
+  socketInitialized: boolean;
+}
+
+interface EmergencyStoreActions {
+  fetchActiveEmergencies: () => Promise<void>;
+  createEmergency: (data: CreateEmergencyData) => Promise<EmergencyBroadcast | null>;
+  clearEmergency: (id: string, reason?: string) => Promise<boolean>;
+  clearError: () => void;
+
+  initializeSocket: () => Promise<void>;
+  handleEmergencyUpdated: (event: EmergencyUpdatedEvent) => void;
+}
+
+type EmergencyStore = EmergencyStoreState & EmergencyStoreActions;
+
+/**
+ * Insert or replace an emergency, dropping it once it is no longer active
+ */
+const upsertEmergency = (
+  emergencies: EmergencyBroadcast[],
+  emergency: EmergencyBroadcast
+): EmergencyBroadcast[] => {
+  const others = emergencies.filter((existing) => existing._id !== emergency._id);
+  if (emergency.status !== 'active') return others;
+
+  return [emergency, ...others].sort(
+    (a, b) => new Date(b.startsAt).getTime() - new Date(a.startsAt).getTime()
+  );
+};
+
+// ============================
+// Store Implementation
+// ============================
+
+export const useEmergencyStore = create<EmergencyStore>()(
+  devtools(
+    subscribeWithSelector((set, get) => ({
+      // Initial State
+      emergencies: [],
+      loading: false,
+      error: null,
+      operationLoading: {},
+      socketInitialized: false,
+
+      fetchActiveEmergencies: async () => {
+        set({ loading: true, error: null });
+
+        try {
+          const emergencies = await getActiveEmergencies();
+          set({ emergencies, loading: false });
+        } catch (error) {
+          set({ loading: false, error: getEmergencyErrorMessage(error) });
+        }
+      },
+
+      createEmergency: async (data) => {
+        set((state) => ({ operationLoading: { ...state.operationLoading, create: true }, error: null }));
+
+        try {
+          const { emergency } = await createEmergencyAPI(data);
+          set((state) => ({ emergencies: upsertEmergency(state.emergencies, emergency) }));
+          return emergency;
+        } catch (error) {
+          set({ error: getEmergencyErrorMessage(error) });
+          return null;
+        } finally {
+          set((state) => ({ operationLoading: { ...state.operationLoading, create: false } }));
+        }
+      },
+
+      clearEmergency: async (id, reason) => {
+        set((state) => ({ operationLoading: { ...state.operationLoading, [`clear-${id}`]: true }, error: null }));
+
+        try {
+          const emergency = await clearEmergencyAPI(id, reason);
+          set((state) => ({ emergencies: upsertEmergency(state.emergencies, emergency) }));
+          return true;
+        } catch (error) {
+          set({ error: getEmergencyErrorMessage(error) });
+          return false;
+        } finally {
+          set((state) => ({ operationLoading: { ...state.operationLoading, [`clear-${id}`]: false } }));
+        }
+      },
+
+      clearError: () => set({ error: null }),
+
+      // ============================
+      // Real-time Socket Integration
+      // ============================
+
+      initializeSocket: async () => {
+        if (get().socketInitialized) {
+          return;
+        }
+
+        try {
+          await socketService.connect();
+
+          if (socketService.isConnected()) {
+            socketService.on('emergency:updated', get().handleEmergencyUpdated);
+          }
+        } catch (error) {
+          console.error('Failed to initialize emergency socket listeners:', error);
+        }
+
+        set({ socketInitialized: true });
+      },
+
+      handleEmergencyUpdated: (event) => {
+        set((state) => ({ emergencies: upsertEmergency(state.emergencies, event.emergency) }));
+      },
+    })),
+    {
+      name: 'emergency-store',
+    }
+  )
+);
+
+// ============================
+// Selectors for Optimized Re-renders
+// ============================
+
+export const useEmergencies = () => useEmergencyStore((state) => state.emergencies);
+export const useEmergencyLoading = () => useEmergencyStore((state) => state.loading);
+export const useEmergencyError = () => useEmergencyStore((state) => state.error);
+export const useEmergencyOperationLoading = () => useEmergencyStore((state) => state.operationLoading);
+
+// Combined actions hook for convenience
+const STABLE_EMERGENCY_ACTIONS = {} as Pick<
+  EmergencyStore,
+  | 'fetchActiveEmergencies'
+  | 'createEmergency'
+  | 'clearEmergency'
+  | 'clearError'
+  | 'initializeSocket'
+>;
+
+export const useEmergencyActions = () => {
+  return useEmergencyStore((state) => {
+    // Only update if any action function has actually changed
+    if (
+      STABLE_EMERGENCY_ACTIONS.fetchActiveEmergencies !== state.fetchActiveEmergencies ||
+      STABLE_EMERGENCY_ACTIONS.createEmergency !== state.createEmergency ||
+      STABLE_EMERGENCY_ACTIONS.clearEmergency !== state.clearEmergency ||
+      STABLE_EMERGENCY_ACTIONS.clearError !== state.clearError ||
+      STABLE_EMERGENCY_ACTIONS.initializeSocket !== state.initializeSocket
+    ) {
+      STABLE_EMERGENCY_ACTIONS.fetchActiveEmergencies = state.fetchActiveEmergencies;
+      STABLE_EMERGENCY_ACTIONS.createEmergency = state.createEmergency;
+      STABLE_EMERGENCY_ACTIONS.clearEmergency = state.clearEmergency;
+      STABLE_EMERGENCY_ACTIONS.clearError = state.clearError;
+      STABLE_EMERGENCY_ACTIONS.initializeSocket = state.initializeSocket;
+    }
+    return STABLE_EMERGENCY_ACTIONS;
+  });
+};
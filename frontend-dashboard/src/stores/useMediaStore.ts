@@ -30,6 +30,7 @@ import {
   type GetMediaParams,
   type UpdateMediaMetadata,
   type UploadMetadata,
+  type DeleteMediaOptions,
 } from '../services/mediaAPI';
 
 import { socketService } from '../services/socketService';
@@ -73,7 +74,7 @@ interface MediaStore extends MediaStoreState {
   fetchMedia: (params?: GetMediaParams) => Promise<void>;
   uploadMedia: (file: File, metadata?: UploadMetadata) => Promise<MediaItem | null>;
   updateMedia: (id: string, metadata: UpdateMediaMetadata) => Promise<void>;
-  deleteMedia: (id: string) => Promise<void>;
+  deleteMedia: (id: string, options?: DeleteMediaOptions) => Promise<boolean>;
   downloadMedia: (id: string) => Promise<string | null>;
   fetchStats: () => Promise<void>;
   
@@ -305,7 +306,7 @@ export const useMediaStore = create<MediaStore>()(
         }
       },
 
-      deleteMedia: async (id) => {
+      deleteMedia: async (id, options) => {
         set({ loading: true, error: null });
 
         // Store the item for potential rollback
@@ -314,7 +315,7 @@ export const useMediaStore = create<MediaStore>()(
         
         if (!mediaToDelete) {
           set({ loading: false, error: 'Media item not found' });
-          return;
+          return false;
         }
 
         try {
@@ -335,13 +336,14 @@ export const useMediaStore = create<MediaStore>()(
             },
           }));
 
-          await deleteMediaAPI(id);
+          await deleteMediaAPI(id, options);
           set({ loading: false });
 
           // Emit socket event
           if (socketService.isConnected()) {
             socketService.emitMediaDeleted(id);
           }
+          return true;
         } catch (error) {
           const errorMessage = isMediaApiError(error) 
             ? getMediaErrorMessage(error)
@@ -366,6 +368,7 @@ export const useMediaStore = create<MediaStore>()(
           }));
           
           console.error('Failed to delete media:', error);
+          return false;
         }
       },
 
@@ -0,0 +1,297 @@
+/**
+ * Organization Store
+ *
+ * This Zustand store tracks the workspaces the user belongs to and which one
+ * the dashboard works in:
+ * - Organizations and the user's role in each
+ * - Invitations addressed to the user, accepted or declined from the switcher
+ * - Switching organization, which clears data loaded from the previous one
+ * - Role and permission changes pushed over the socket while signed in
+ */
+
+import { create } from 'zustand';
+import { devtools, subscribeWithSelector } from 'zustand/middleware';
+import {
+  getOrganizations,
+  createOrganization as createOrganizationAPI,
+  setDefaultOrganization,
+  getMyInvitations,
+  acceptInvitation as acceptInvitationAPI,
+  declineInvitation as declineInvitationAPI,
+  getOrganizationErrorMessage,
+} from '../services/organizationAPI';
+import { getActiveOrganizationId, setActiveOrganizationId } from '../services/httpClient';
+import { socketService } from '../services/socketService';
+import type { PermissionsChangedEvent } from '../services/socketService';
+import { useMediaStore } from './useMediaStore';
+import { usePlaylistStore } from './usePlaylistStore';
+import { useScreenStore } from './useScreenStore';
+import { useScreenGroupStore } from './useScreenGroupStore';
+import { useEmergencyStore } from './useEmergencyStore';
+
+import type { Organization, PendingInvitation, Permission } from '../types';
+
+// ============================
+// Store State Interfaces
+// ============================
+
+interface OrganizationStoreState {
+  // Personal workspace first, then by name
+  organizations: Organization[];
+  invitations: PendingInvitation[];
+  activeOrganizationId: string | null;
+
+  loading: boolean;
+  error: string | null;
+  operationLoading: Record<string, boolean>;
+
+  socketInitialized: boolean;
+}
+
+interface OrganizationStoreActions {
+  fetchOrganizations: () => Promise<void>;
+  fetchInvitations: () => Promise<void>;
+  switchOrganization: (id: string) => Promise<void>;
+  createOrganization: (name: string) => Promise<Organization | null>;
+  acceptInvitation: (invitationId: string) => Promise<Organization | null>;
+  declineInvitation: (invitationId: string) => Promise<boolean>;
+  // Apply a change made in the members dialog, or drop an organization the user left
+  updateOrganization: (organization: Organization) => void;
+  removeOrganization: (id: string) => Promise<void>;
+  clearError: () => void;
+
+  initializeSocket: () => Promise<void>;
+  handlePermissionsChanged: (event: PermissionsChangedEvent) => Promise<void>;
+}
+
+type OrganizationStore = OrganizationStoreState & OrganizationStoreActions;
+
+/**
+ * Drop everything loaded from the previous organization. Socket handlers stay
+ * registered; the socket itself reconnects into the new organization's room
+ */
+const resetWorkspaceStores = () => {
+  useMediaStore.setState({
+    ...useMediaStore.getInitialState(),
+    socketInitialized: useMediaStore.getState().socketInitialized,
+  });
+  usePlaylistStore.setState({
+    ...usePlaylistStore.getInitialState(),
+    socketInitialized: usePlaylistStore.getState().socketInitialized,
+  });
+  useScreenStore.setState({
+    ...useScreenStore.getInitialState(),
+    socketInitialized: useScreenStore.getState().socketInitialized,
+  });
+  useEmergencyStore.setState({
+    ...useEmergencyStore.getInitialState(),
+    socketInitialized: useEmergencyStore.getState().socketInitialized,
+  });
+  useScreenGroupStore.setState(useScreenGroupStore.getInitialState());
+};
+
+// ============================
+// Store Implementation
+// ============================
+
+export const useOrganizationStore = create<OrganizationStore>()(
+  devtools(
+    subscribeWithSelector((set, get) => ({
+      // Initial State
+      organizations: [],
+      invitations: [],
+      activeOrganizationId: getActiveOrganizationId(),
+      loading: false,
+      error: null,
+      operationLoading: {},
+      socketInitialized: false,
+
+      fetchOrganizations: async () => {
+        set({ loading: true, error: null });
+
+        try {
+          const { organizations, defaultOrganization } = await getOrganizations();
+          const stored = get().activeOrganizationId;
+
+          // A stored choice the user no longer belongs to falls back to their default
+          const active = organizations.some((organization) => organization.id === stored)
+            ? stored
+            : defaultOrganization ?? organizations[0]?.id ?? null;
+
+          if (active !== stored) {
+            setActiveOrganizationId(active);
+            resetWorkspaceStores();
+          }
+          set({ organizations, activeOrganizationId: active, loading: false });
+        } catch (error) {
+          set({ loading: false, error: getOrganizationErrorMessage(error) });
+        }
+      },
+
+      fetchInvitations: async () => {
+        try {
+          const invitations = await getMyInvitations();
+          set({ invitations });
+        } catch (error) {
+          set({ error: getOrganizationErrorMessage(error) });
+        }
+      },
+
+      switchOrganization: async (id) => {
+        if (id === get().activeOrganizationId) return;
+
+        setActiveOrganizationId(id);
+        resetWorkspaceStores();
+        set({ activeOrganizationId: id, error: null });
+
+        // Also start in it next time, including on other devices
+        try {
+          await setDefaultOrganization(id);
+        } catch (error) {
+          console.warn('Failed to store default organization:', error);
+        }
+      },
+
+      createOrganization: async (name) => {
+        set((state) => ({ operationLoading: { ...state.operationLoading, create: true }, error: null }));
+
+        try {
+          const organization = await createOrganizationAPI(name);
+          set((state) => ({ organizations: [...state.organizations, organization] }));
+          await get().switchOrganization(organization.id);
+          return organization;
+        } catch (error) {
+          set({ error: getOrganizationErrorMessage(error) });
+          return null;
+        } finally {
+          set((state) => ({ operationLoading: { ...state.operationLoading, create: false } }));
+        }
+      },
+
+      acceptInvitation: async (invitationId) => {
+        set((state) => ({ operationLoading: { ...state.operationLoading, [`invitation-${invitationId}`]: true }, error: null }));
+
+        try {
+          const organization = await acceptInvitationAPI(invitationId);
+          set((state) => ({
+            invitations: state.invitations.filter((invitation) => invitation.id !== invitationId),
+            organizations: [
+              ...state.organizations.filter((existing) => existing.id !== organization.id),
+              organization,
+            ],
+          }));
+          return organization;
+        } catch (error) {
+          set({ error: getOrganizationErrorMessage(error) });
+          return null;
+        } finally {
+          set((state) => ({ operationLoading: { ...state.operationLoading, [`invitation-${invitationId}`]: false } }));
+        }
+      },
+
+      declineInvitation: async (invitationId) => {
+        set((state) => ({ operationLoading: { ...state.operationLoading, [`invitation-${invitationId}`]: true }, error: null }));
+
+        try {
+          await declineInvitationAPI(invitationId);
+          set((state) => ({
+            invitations: state.invitations.filter((invitation) => invitation.id !== invitationId),
+          }));
+          return true;
+        } catch (error) {
+          set({ error: getOrganizationErrorMessage(error) });
+          return false;
+        } finally {
+          set((state) => ({ operationLoading: { ...state.operationLoading, [`invitation-${invitationId}`]: false } }));
+        }
+      },
+
+      updateOrganization: (organization) => {
+        set((state) => ({
+          organizations: state.organizations.map((existing) =>
+            existing.id === organization.id
+              ? {
+                  id: organization.id,
+                  name: organization.name,
+                  isPersonal: organization.isPersonal,
+                  role: organization.role,
+                  memberCount: organization.memberCount,
+                  permissions: organization.permissions,
+                  requireApproval: organization.requireApproval,
+                  createdAt: organization.createdAt,
+                }
+              : existing
+          ),
+        }));
+      },
+
+      removeOrganization: async (id) => {
+        set((state) => ({
+          organizations: state.organizations.filter((organization) => organization.id !== id),
+        }));
+
+        // Leaving the active organization moves to the server's new default
+        if (get().activeOrganizationId === id) {
+          setActiveOrganizationId(null);
+          set({ activeOrganizationId: null });
+          await get().fetchOrganizations();
+        }
+      },
+
+      clearError: () => set({ error: null }),
+
+      // ============================
+      // Real-time Socket Integration
+      // ============================
+
+      initializeSocket: async () => {
+        if (get().socketInitialized) {
+          return;
+        }
+
+        try {
+          await socketService.connect();
+
+          if (socketService.isConnected()) {
+            socketService.on('organization:permissions:changed', get().handlePermissionsChanged);
+          }
+        } catch (error) {
+          console.error('Failed to initialize organization socket listeners:', error);
+        }
+
+        set({ socketInitialized: true });
+      },
+
+      // The server already applies the new permissions to this socket, or
+      // disconnects it when access was lost; losing access moves to another
+      // organization, which reconnects into its room
+      handlePermissionsChanged: async () => {
+        await get().fetchOrganizations();
+      },
+    })),
+    {
+      name: 'organization-store',
+    }
+  )
+);
+
+// ============================
+// Selectors for Optimized Re-renders
+// ============================
+
+export const useOrganizations = () => useOrganizationStore((state) => state.organizations);
+export const useOrganizationInvitations = () => useOrganizationStore((state) => state.invitations);
+export const useActiveOrganizationId = () => useOrganizationStore((state) => state.activeOrganizationId);
+export const useActiveOrganization = () =>
+  useOrganizationStore((state) =>
+    state.organizations.find((organization) => organization.id === state.activeOrganizationId) ?? null
+  );
+export const useOrganizationOperationLoading = () => useOrganizationStore((state) => state.operationLoading);
+
+// Whether the user's role in the active organization grants a permission
+export const usePermission = (permission: Permission) =>
+  useOrganizationStore((state) =>
+    state.organizations
+      .find((organization) => organization.id === state.activeOrganizationId)
+      ?.permissions.includes(permission) ?? false
+  );
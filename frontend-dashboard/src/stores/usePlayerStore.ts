@@ -0,0 +1,584 @@
+/**
+ * Display Player Store
+ *
+ * This Zustand store drives the web player that runs on a display device:
+ * - Device pairing and persisted credentials
+ * - Display session and current playlist
+ * - Live reloads when assignments or playlist content change
+ * - Emergency controls (stop, pause, message overlay)
+ * - Offline media cache sync and last good content fallback
+ * - Data feed values for item conditions, refreshed every minute
+ * - Remote commands (restart, reload, screenshot, volume, brightness)
+ *
+ * Playback timing itself lives in the PlayerStage component; the store only
+ * holds what should be played and whether playback is allowed.
+ */
+
+import { create } from 'zustand';
+import { devtools, subscribeWithSelector } from 'zustand/middleware';
+import {
+  pairDevice,
+  getDisplaySession,
+  getDisplayPlaylist,
+  getDisplayManifest,
+  getDisplayData,
+  reportCacheStatus,
+  loadPlayerCredentials,
+  savePlayerCredentials,
+  clearPlayerCredentials,
+  isUnpairedError,
+  isOfflineError,
+  getPlayerErrorMessage,
+} from '../services/playerAPI';
+import { playerSocketService } from '../services/playerSocketService';
+import {
+  isOfflineCacheSupported,
+  syncMediaCache,
+  clearMediaCache,
+  loadPlayerSnapshot,
+  savePlayerSnapshot,
+  clearPlayerSnapshot,
+} from '../services/playerCache';
+
+import type {
+  PlayerCredentials,
+  DisplaySession,
+  DisplayPlaylist,
+  EmergencyControlEvent,
+  CacheSyncStatus,
+  DeviceCommand,
+  ScreenCommandResult,
+} from '../types';
+
+// ============================
+// Store State Interfaces
+// ============================
+
+export type PlayerStatus = 'unpaired' | 'pairing' | 'loading' | 'ready' | 'error';
+
+interface PlayerStoreState {
+  credentials: PlayerCredentials | null;
+  session: DisplaySession | null;
+  playlist: DisplayPlaylist | null;
+
+  status: PlayerStatus;
+  error: string | null;
+  connected: boolean;
+
+  // Playing the stored snapshot because the server could not be reached
+  offline: boolean;
+  cacheStatus: CacheSyncStatus | null;
+
+  // Active emergency control, if any (stop, pause or message)
+  emergency: EmergencyControlEvent | null;
+
+  // Latest data feed values, keyed "<source key>.<field>"
+  dataValues: Record<string, string | number>;
+}
+
+interface PlayerStore extends PlayerStoreState {
+  // ============================
+  // Pairing
+  // ============================
+  pair: (serverUrl: string, code: string) => Promise<boolean>;
+  unpair: () => void;
+
+  // ============================
+  // Session and Content
+  // ============================
+  start: () => Promise<void>;
+  stop: () => void;
+  refreshPlaylist: () => Promise<void>;
+  syncCache: () => Promise<void>;
+  refreshDataValues: () => Promise<void>;
+
+  // Real-time event handlers (internal)
+  handleEmergencyControl: (event: EmergencyControlEvent) => void;
+  handleCommand: (command: DeviceCommand) => Promise<void>;
+}
+
+// ============================
+// Helpers
+// ============================
+
+/**
+ * Describe this device for the dashboard when pairing
+ */
+const getDeviceInfo = () => ({
+  type: 'other' as const,
+  os: navigator.platform ? navigator.platform.slice(0, 50) : undefined,
+  userAgent: navigator.userAgent.slice(0, 500),
+});
+
+const initialCredentials = loadPlayerCredentials();
+
+// Unsubscribe handle for the socket connection status listener
+let unsubscribeConnectionStatus: (() => void) | null = null;
+
+// How long to wait before retrying an incomplete cache sync
+const CACHE_RETRY_INTERVAL = 5 * 60 * 1000;
+
+// Cache sync bookkeeping: only one sync runs at a time, and a change that
+// arrives mid-sync queues exactly one follow-up
+let cacheSyncRunning = false;
+let cacheSyncQueued = false;
+let cacheRetryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Feeds are polled by the server every few minutes, so a minute keeps screens current
+const DATA_REFRESH_INTERVAL = 60 * 1000;
+let dataRefreshTimer: ReturnType<typeof setInterval> | null = null;
+
+// Takes an expiring emergency down on time, even if the server can't be reached
+const MAX_TIMER_DELAY = 2 ** 31 - 1; // setTimeout fires immediately beyond this
+let emergencyExpiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Screenshots are scaled down and re-encoded until they fit in a socket message
+const SCREENSHOT_MAX_WIDTH = 1280;
+const SCREENSHOT_MAX_LENGTH = 900 * 1024;
+const SCREENSHOT_QUALITIES = [0.7, 0.5, 0.3];
+
+// Gives the restart acknowledgement time to leave before the page goes away
+const RESTART_DELAY = 1000;
+
+/**
+ * Capture what is on screen as a JPEG data URL. Only the playing media can
+ * be drawn; overlays are HTML and are left out
+ */
+const captureScreenshot = (): Required<Pick<ScreenCommandResult, 'image' | 'width' | 'height'>> => {
+  const layers = document.querySelectorAll<HTMLImageElement | HTMLVideoElement>('[data-player-media]');
+  const media = layers[layers.length - 1]; // The incoming layer renders last
+
+  const sourceWidth = media instanceof HTMLVideoElement ? media.videoWidth : media?.naturalWidth;
+  const sourceHeight = media instanceof HTMLVideoElement ? media.videoHeight : media?.naturalHeight;
+
+  const frameWidth = sourceWidth || window.innerWidth;
+  const frameHeight = sourceHeight || window.innerHeight;
+  const scale = Math.min(1, SCREENSHOT_MAX_WIDTH / frameWidth);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(frameWidth * scale);
+  canvas.height = Math.round(frameHeight * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported on this device');
+  }
+
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  if (media && sourceWidth && sourceHeight) {
+    context.drawImage(media, 0, 0, canvas.width, canvas.height);
+  }
+
+  for (const quality of SCREENSHOT_QUALITIES) {
+    // Throws a SecurityError if the media was served without CORS headers
+    const image = canvas.toDataURL('image/jpeg', quality);
+    if (image.length <= SCREENSHOT_MAX_LENGTH) {
+      return { image, width: canvas.width, height: canvas.height };
+    }
+  }
+
+  throw new Error('Screenshot is too large to send');
+};
+
+const clearEmergencyExpiryTimer = () => {
+  if (emergencyExpiryTimer) {
+    clearTimeout(emergencyExpiryTimer);
+    emergencyExpiryTimer = null;
+  }
+};
+
+// ============================
+// Store Implementation
+// ============================
+
+export const usePlayerStore = create<PlayerStore>()(
+  devtools(
+    subscribeWithSelector((set, get) => ({
+      // Initial State
+      credentials: initialCredentials,
+      session: null,
+      playlist: null,
+      status: initialCredentials ? 'loading' : 'unpaired',
+      error: null,
+      connected: false,
+      offline: false,
+      cacheStatus: null,
+      emergency: null,
+      dataValues: {},
+
+      // ============================
+      // Pairing
+      // ============================
+
+      pair: async (serverUrl, code) => {
+        set({ status: 'pairing', error: null });
+
+        try {
+          const credentials = await pairDevice(serverUrl, { code, device: getDeviceInfo() });
+          savePlayerCredentials(credentials);
+
+          set({ credentials, status: 'loading' });
+          await get().start();
+          return true;
+        } catch (error) {
+          set({
+            status: 'unpaired',
+            error: getPlayerErrorMessage(error),
+          });
+          return false;
+        }
+      },
+
+      unpair: () => {
+        get().stop();
+        clearPlayerCredentials();
+        clearPlayerSnapshot();
+        clearMediaCache();
+
+        set({
+          credentials: null,
+          session: null,
+          playlist: null,
+          status: 'unpaired',
+          offline: false,
+          cacheStatus: null,
+          emergency: null,
+          dataValues: {},
+        });
+      },
+
+      // ============================
+      // Session and Content
+      // ============================
+
+      start: async () => {
+        const { credentials } = get();
+        if (!credentials) {
+          set({ status: 'unpaired' });
+          return;
+        }
+
+        set({ status: 'loading', error: null });
+
+        try {
+          const [session, playlist] = await Promise.all([
+            getDisplaySession(credentials),
+            getDisplayPlaylist(credentials),
+          ]);
+
+          set({ session, playlist, status: 'ready', offline: false });
+          get().handleEmergencyControl(session.emergency ?? { action: 'clear', timestamp: new Date().toISOString() });
+          savePlayerSnapshot(session, playlist);
+          connectSocket(session.heartbeatInterval);
+          get().syncCache();
+
+          get().refreshDataValues();
+          if (!dataRefreshTimer) {
+            dataRefreshTimer = setInterval(() => get().refreshDataValues(), DATA_REFRESH_INTERVAL);
+          }
+        } catch (error) {
+          // A rejected access key means the screen was deleted or re-keyed
+          if (isUnpairedError(error)) {
+            get().unpair();
+            set({ error: getPlayerErrorMessage(error) });
+            return;
+          }
+
+          // Keep showing the last good content until the server is back
+          const snapshot = isOfflineError(error) ? loadPlayerSnapshot() : null;
+          if (snapshot) {
+            console.warn('Server unreachable, playing last known content from', snapshot.savedAt);
+            set({
+              session: snapshot.session,
+              playlist: snapshot.playlist,
+              status: 'ready',
+              offline: true,
+              error: getPlayerErrorMessage(error),
+            });
+            if (snapshot.session.emergency) {
+              get().handleEmergencyControl(snapshot.session.emergency);
+            }
+            connectSocket(snapshot.session.heartbeatInterval);
+            return;
+          }
+
+          set({
+            status: 'error',
+            error: getPlayerErrorMessage(error),
+          });
+        }
+      },
+
+      stop: () => {
+        unsubscribeConnectionStatus?.();
+        unsubscribeConnectionStatus = null;
+        if (cacheRetryTimer) {
+          clearTimeout(cacheRetryTimer);
+          cacheRetryTimer = null;
+        }
+        clearEmergencyExpiryTimer();
+        if (dataRefreshTimer) {
+          clearInterval(dataRefreshTimer);
+          dataRefreshTimer = null;
+        }
+        playerSocketService.disconnect();
+        set({ connected: false });
+      },
+
+      refreshPlaylist: async () => {
+        const { credentials } = get();
+        if (!credentials) return;
+
+        try {
+          const playlist = await getDisplayPlaylist(credentials);
+          set({ playlist, offline: false, error: null });
+
+          const { session } = get();
+          if (session) {
+            savePlayerSnapshot(session, playlist);
+          }
+          get().syncCache();
+        } catch (error) {
+          if (isUnpairedError(error)) {
+            get().unpair();
+            set({ error: getPlayerErrorMessage(error) });
+            return;
+          }
+
+          // Keep playing the last known playlist
+          console.error('Failed to refresh display playlist:', error);
+        }
+      },
+
+      refreshDataValues: async () => {
+        const { credentials } = get();
+        if (!credentials) return;
+
+        try {
+          const { values } = await getDisplayData(credentials);
+          set({ dataValues: values });
+        } catch (error) {
+          // Conditions keep using the last values; data conditions pass while none are known
+          console.warn('Failed to refresh data feed values:', error);
+        }
+      },
+
+      syncCache: async () => {
+        const { credentials } = get();
+        if (!credentials || !isOfflineCacheSupported()) return;
+
+        if (cacheSyncRunning) {
+          cacheSyncQueued = true;
+          return;
+        }
+
+        cacheSyncRunning = true;
+        if (cacheRetryTimer) {
+          clearTimeout(cacheRetryTimer);
+          cacheRetryTimer = null;
+        }
+
+        // Status reports are best effort; the dashboard catches up on the next one
+        const report = (...args: Parameters<typeof reportCacheStatus>) =>
+          reportCacheStatus(...args).catch(() => undefined);
+
+        try {
+          const manifest = await getDisplayManifest(credentials);
+          const manifestHash = manifest?.manifestHash ?? null;
+          const playlistId = manifest?.playlistId ?? null;
+          const totalAssets = manifest?.assets.length ?? 0;
+
+          set({ cacheStatus: 'syncing' });
+          await report(credentials, {
+            manifestHash,
+            playlistId,
+            status: 'syncing',
+            totalAssets,
+            cachedAssets: 0,
+            cachedBytes: 0,
+          });
+
+          const result = await syncMediaCache(manifest);
+          set({ cacheStatus: result.status });
+
+          await report(credentials, {
+            manifestHash,
+            playlistId,
+            status: result.status,
+            totalAssets: result.totalAssets,
+            cachedAssets: result.cachedAssets,
+            cachedBytes: result.cachedBytes,
+            error: result.error,
+          });
+
+          if (result.status !== 'synced') {
+            cacheRetryTimer = setTimeout(() => get().syncCache(), CACHE_RETRY_INTERVAL);
+          }
+        } catch (error) {
+          // Leave whatever is already cached in place and try again later
+          console.error('Failed to sync offline media cache:', error);
+          set({ cacheStatus: 'error' });
+          cacheRetryTimer = setTimeout(() => get().syncCache(), CACHE_RETRY_INTERVAL);
+        } finally {
+          cacheSyncRunning = false;
+          if (cacheSyncQueued) {
+            cacheSyncQueued = false;
+            get().syncCache();
+          }
+        }
+      },
+
+      // ============================
+      // Real-time Event Handlers
+      // ============================
+
+      handleEmergencyControl: (event) => {
+        clearEmergencyExpiryTimer();
+
+        switch (event.action) {
+          case 'stop':
+          case 'pause':
+          case 'message': {
+            const remaining = event.expiresAt ? new Date(event.expiresAt).getTime() - Date.now() : null;
+            if (remaining !== null && remaining <= 0) {
+              showEmergency(null);
+              break;
+            }
+
+            showEmergency(event);
+            if (remaining !== null && remaining <= MAX_TIMER_DELAY) {
+              emergencyExpiryTimer = setTimeout(() => {
+                emergencyExpiryTimer = null;
+                showEmergency(null);
+              }, remaining);
+            }
+            break;
+          }
+          case 'resume':
+          case 'clear':
+            showEmergency(null);
+            break;
+          case 'reload':
+            showEmergency(null);
+            get().refreshPlaylist();
+            break;
+          default:
+            console.warn('Unknown emergency control action:', event.action);
+        }
+      },
+
+      handleCommand: async (command) => {
+        const { commandId, type, params } = command;
+        const ack = (result?: ScreenCommandResult) =>
+          playerSocketService.sendCommandResult({ commandId, success: true, result });
+
+        try {
+          switch (type) {
+            case 'restart':
+              ack();
+              setTimeout(() => window.location.reload(), RESTART_DELAY);
+              break;
+            case 'reload':
+              await get().refreshPlaylist();
+              ack();
+              break;
+            case 'screenshot':
+              ack(captureScreenshot());
+              break;
+            case 'set-volume':
+            case 'set-brightness': {
+              const { session, playlist } = get();
+              const value = params?.value;
+              if (!session || value === undefined) {
+                throw new Error('No value to apply');
+              }
+
+              const nextSession = type === 'set-volume'
+                ? { ...session, settings: { ...session.settings, volume: value } }
+                : { ...session, display: { ...session.display, brightness: value } };
+              set({ session: nextSession });
+              savePlayerSnapshot(nextSession, playlist);
+              ack({ value });
+              break;
+            }
+            default:
+              throw new Error(`Unsupported command: ${type}`);
+          }
+        } catch (error) {
+          console.error('Failed to run remote command:', type, error);
+          playerSocketService.sendCommandResult({
+            commandId,
+            success: false,
+            error: error instanceof Error ? error.message : 'Command failed',
+          });
+        }
+      },
+    })),
+    {
+      name: 'player-store',
+    }
+  )
+);
+
+/**
+ * Show or remove an emergency, and remember emergency broadcasts in the
+ * content snapshot so a rebooted screen without a server keeps showing them
+ */
+function showEmergency(emergency: EmergencyControlEvent | null) {
+  usePlayerStore.setState({ emergency });
+
+  const { session, playlist } = usePlayerStore.getState();
+  if (!session) return;
+
+  const persisted = emergency?.broadcastId ? emergency : null;
+  if ((session.emergency ?? null) === persisted) return;
+
+  const nextSession = { ...session, emergency: persisted };
+  usePlayerStore.setState({ session: nextSession });
+  savePlayerSnapshot(nextSession, playlist);
+}
+
+/**
+ * Open the screen socket and route its events into the store
+ */
+function connectSocket(heartbeatInterval: number) {
+  const { credentials } = usePlayerStore.getState();
+  if (!credentials) return;
+
+  playerSocketService.connect(credentials, heartbeatInterval);
+
+  let hasConnected = false;
+  unsubscribeConnectionStatus?.();
+  unsubscribeConnectionStatus = playerSocketService.onConnectionStatusChange((connected) => {
+    const store = usePlayerStore.getState();
+
+    // Catch up on anything missed while disconnected or started from the snapshot
+    if (connected && (hasConnected || store.offline)) {
+      store.refreshPlaylist();
+    }
+
+    hasConnected = hasConnected || connected;
+    usePlayerStore.setState({ connected });
+  });
+
+  const { refreshPlaylist, handleEmergencyControl, handleCommand } = usePlayerStore.getState();
+  playerSocketService.on('playlist:assignment:changed', () => refreshPlaylist());
+  playerSocketService.on('playlist-update', () => refreshPlaylist());
+  playerSocketService.on('emergency-control', handleEmergencyControl);
+  playerSocketService.on('command', handleCommand);
+}
+
+// ============================
+// Selectors for Optimized Re-renders
+// ============================
+
+export const usePlayerStatus = () => usePlayerStore((state) => state.status);
+export const usePlayerError = () => usePlayerStore((state) => state.error);
+export const usePlayerSession = () => usePlayerStore((state) => state.session);
+export const usePlayerPlaylist = () => usePlayerStore((state) => state.playlist);
+export const usePlayerEmergency = () => usePlayerStore((state) => state.emergency);
+export const usePlayerConnected = () => usePlayerStore((state) => state.connected);
+export const usePlayerOffline = () => usePlayerStore((state) => state.offline);
+export const usePlayerCacheStatus = () => usePlayerStore((state) => state.cacheStatus);
+export const usePlayerDataValues = () => usePlayerStore((state) => state.dataValues);
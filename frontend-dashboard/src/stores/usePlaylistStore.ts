@@ -16,6 +16,7 @@
  * - Efficient re-render prevention with stable selectors
  * - Cache management for performance optimization
  * - Drag-and-drop state management for playlist editor
+ * - Undo/redo of editor changes, applied against the latest server version
  */
 
 import { create } from 'zustand';
@@ -27,10 +28,10 @@ import {
   updatePlaylist as updatePlaylistAPI,
   deletePlaylist as deletePlaylistAPI,
   duplicatePlaylist as duplicatePlaylistAPI,
+  restorePlaylistRevision as restorePlaylistRevisionAPI,
   addMediaToPlaylist as addMediaToPlaylistAPI,
   removeMediaFromPlaylist as removeMediaFromPlaylistAPI,
   reorderPlaylistItems as reorderPlaylistItemsAPI,
-  updatePlaylistItem as updatePlaylistItemAPI,
   assignPlaylistToScreens as assignPlaylistToScreensAPI,
   unassignPlaylistFromScreens as unassignPlaylistFromScreensAPI,
   getPlaylistAssignments as getPlaylistAssignmentsAPI,
@@ -38,15 +39,36 @@ import {
   getPlaylistStats,
   getPlaylistAnalytics as getPlaylistAnalyticsAPI,
   isPlaylistApiError,
+  isPlaylistConflictError,
   getPlaylistErrorMessage,
   calculatePlaylistDuration,
 } from '../services/playlistAPI';
+import { mergePlaylists, buildMergedUpdate, applyPlaylistUpdate, getItemKey, toItemUpdate } from '../services/playlistMerge';
+import {
+  planEditCommand,
+  pushEditCommand,
+  remapEditCommands,
+  findAddedItemId,
+  createAddItemCommand,
+  createRemoveItemCommand,
+  createReorderCommand,
+  createItemSettingsCommand,
+  createDetailsCommand,
+  PlaylistHistoryError,
+} from '../services/playlistHistory';
+import type { PlaylistEditCommand, PlaylistHistoryDirection, PlaylistItemSettings } from '../services/playlistHistory';
 
 import { socketService } from '../services/socketService';
+import { fetchWithRetry, getAccessToken } from '../services/httpClient';
 import type { 
   PlaylistUpdateEvent, 
   PlaylistItemEvent, 
-  PlaylistReorderEvent 
+  PlaylistReorderEvent,
+  PlaylistPermissionEvent,
+  PlaylistApprovalEvent,
+  PlaylistPresenceEvent,
+  PlaylistPresenceActivity,
+  PlaylistItemLockResult
 } from '../services/socketService';
 
 import type {
@@ -60,6 +82,9 @@ import type {
   PlaylistPagination,
   DragState,
   BulkPlaylistOperation,
+  PlaylistConflictState,
+  PlaylistConflictChoices,
+  PlaylistPermission,
 } from '../types';
 
 // ============================
@@ -113,14 +138,13 @@ interface PlaylistStoreState {
   // Real-time collaboration
   activeUsers: Record<string, Array<{ userId: string; userEmail: string; joinedAt: string }>>;
   realtimeUpdatesPaused: boolean;
-  conflictResolution: {
-    hasConflict: boolean;
-    conflictingUserId?: string;
-    conflictingUserEmail?: string;
-    localVersion?: any;
-    remoteVersion?: any;
-    conflictType?: 'metadata' | 'items' | 'assignment';
-  };
+  conflictResolution: PlaylistConflictState;
+  playlistPermissions: Record<string, PlaylistPermission | null>; // As confirmed by the server, keyed by playlist ID
+  playlistPresence: Record<string, PlaylistPresenceEvent>; // Open editors and item locks, keyed by playlist ID
+  
+  // Editor undo/redo, newest command last
+  undoStack: PlaylistEditCommand[];
+  redoStack: PlaylistEditCommand[];
   
   // Socket connection management
   socketInitialized: boolean;
@@ -136,6 +160,7 @@ interface PlaylistStore extends PlaylistStoreState {
   updatePlaylist: (id: string, data: UpdatePlaylistData) => Promise<void>;
   deletePlaylist: (id: string) => Promise<void>;
   duplicatePlaylist: (id: string, name?: string) => Promise<Playlist | null>;
+  restorePlaylistRevision: (id: string, version: number) => Promise<{ message: string; skippedItems: number }>;
   
   // ============================
   // Playlist Item Management
@@ -144,13 +169,22 @@ interface PlaylistStore extends PlaylistStoreState {
   removeFromPlaylist: (playlistId: string, itemId: string) => Promise<void>;
   reorderPlaylistItems: (playlistId: string, items: PlaylistItem[]) => Promise<void>;
   reorderPlaylistItemsByOrder: (playlistId: string, itemOrderUpdates: {id: string, order: number}[]) => Promise<void>;
-  updatePlaylistItemSettings: (playlistId: string, itemId: string, data: Partial<PlaylistItem>) => Promise<void>;
+  updatePlaylistItemSettings: (playlistId: string, itemId: string, data: PlaylistItemSettings) => Promise<void>; // A null duration falls back to the media's
+  
+  // ============================
+  // Undo / Redo
+  // ============================
+  undo: () => Promise<PlaylistEditCommand | null>;
+  redo: () => Promise<PlaylistEditCommand | null>;
+  clearEditHistory: () => void;
+  recordEdit: (command: PlaylistEditCommand | null) => void;
+  applyEditCommand: (direction: PlaylistHistoryDirection) => Promise<PlaylistEditCommand | null>;
   
   // ============================
   // Screen Assignment
   // ============================
-  assignToScreens: (playlistId: string, screenIds: string[]) => Promise<void>;
-  unassignFromScreens: (playlistId: string, screenIds?: string[]) => Promise<void>;
+  assignToScreens: (playlistId: string, screenIds: string[], groupIds?: string[]) => Promise<string[] | null>;
+  unassignFromScreens: (playlistId: string, screenIds?: string[], groupIds?: string[]) => Promise<string[] | null>;
   fetchScreenAssignments: (playlistId: string) => Promise<void>;
   
   // ============================
@@ -204,8 +238,12 @@ interface PlaylistStore extends PlaylistStoreState {
   subscribeToPlaylistEvents: (playlistId: string) => void;
   unsubscribeFromPlaylistEvents: (playlistId: string) => void;
   pauseRealtimeUpdates: (paused: boolean) => void;
-  handleConflictResolution: (resolution: 'accept_local' | 'accept_remote' | 'merge') => void;
+  setItemActivity: (playlistId: string, itemId: string | null, activity?: PlaylistPresenceActivity) => void;
+  lockPlaylistItem: (playlistId: string, itemId: string) => Promise<PlaylistItemLockResult>;
+  unlockPlaylistItem: (playlistId: string, itemId: string) => void;
+  handleConflictResolution: (resolution: 'accept_local' | 'accept_remote' | 'merge', choices?: PlaylistConflictChoices) => Promise<void>;
   clearConflict: () => void;
+  mergeConcurrentEdit: (id: string, base: Playlist, local: Playlist, remote: Playlist, choices?: PlaylistConflictChoices) => Promise<boolean>;
   
   // Real-time event handlers (internal)
   handlePlaylistUpdated: (event: PlaylistUpdateEvent) => void;
@@ -216,6 +254,10 @@ interface PlaylistStore extends PlaylistStoreState {
   handlePlaylistUnassigned: (event: { playlistId: string; screenIds: string[]; unassignedBy: string; timestamp: string }) => void;
   handleUserJoinedPlaylist: (event: { userId: string; userEmail: string; playlistId: string; timestamp: string }) => void;
   handleUserLeftPlaylist: (event: { userId: string; userEmail: string; playlistId: string; timestamp: string }) => void;
+  handlePlaylistPermissionChanged: (event: PlaylistPermissionEvent) => void;
+  handlePlaylistAccessDenied: (event: { playlistId: string; message: string }) => void;
+  handlePlaylistApprovalChanged: (event: PlaylistApprovalEvent) => void;
+  handlePlaylistPresence: (event: PlaylistPresenceEvent) => void;
 }
 
 // ============================
@@ -256,7 +298,7 @@ const defaultBulkOperationProgress = {
   errors: [],
 };
 
-const defaultConflictResolution = {
+const defaultConflictResolution: PlaylistConflictState = {
   hasConflict: false,
 };
 
@@ -293,6 +335,10 @@ export const usePlaylistStore = create<PlaylistStore>()(
       activeUsers: {},
       realtimeUpdatesPaused: false,
       conflictResolution: defaultConflictResolution,
+      playlistPermissions: {},
+      playlistPresence: {},
+      undoStack: [],
+      redoStack: [],
       socketInitialized: false,
 
       // ============================
@@ -506,8 +552,18 @@ export const usePlaylistStore = create<PlaylistStore>()(
         console.log('🎵 updatePlaylist called with:', { id, data });
         console.log('🎵 Current store state before update:', get().currentPlaylist);
 
+        // The playlist as last loaded is the base the edit was made on
+        const base = get().currentPlaylist?.id === id
+          ? get().currentPlaylist
+          : get().playlists.find(playlist => playlist.id === id) || null;
+
+        // Item list updates come from merges and undo steps, which are not editor commands
+        const detailsCommand = base && get().currentPlaylist?.id === id && !data.items
+          ? createDetailsCommand(base, data)
+          : null;
+
         try {
-          const updatedPlaylist = await updatePlaylistAPI(id, data);
+          const updatedPlaylist = await updatePlaylistAPI(id, { version: base?.version, ...data });
           console.log('🎵 API response:', updatedPlaylist);
           console.log('🎵 API response type:', typeof updatedPlaylist, Object.keys(updatedPlaylist || {}));
 
@@ -534,6 +590,8 @@ export const usePlaylistStore = create<PlaylistStore>()(
             };
           });
 
+          get().recordEdit(detailsCommand);
+
           // Emit socket event if connected
           if (socketService.isConnected()) {
             socketService.emitPlaylistUpdate(id, updatedPlaylist);
@@ -541,6 +599,17 @@ export const usePlaylistStore = create<PlaylistStore>()(
           
           console.log('Playlist update completed successfully');
         } catch (error) {
+          // Someone saved first: merge both edits and only ask about real conflicts
+          if (isPlaylistConflictError(error) && base) {
+            set((state) => ({
+              operationLoading: { ...state.operationLoading, [`update_${id}`]: false }
+            }));
+
+            const merged = await get().mergeConcurrentEdit(id, base, applyPlaylistUpdate(base, data as Partial<Playlist>), error.currentPlaylist);
+            if (merged) return;
+            throw error;
+          }
+
           const errorMessage = isPlaylistApiError(error) 
             ? getPlaylistErrorMessage(error)
             : 'Failed to update playlist';
@@ -659,6 +728,64 @@ export const usePlaylistStore = create<PlaylistStore>()(
         }
       },
 
+      restorePlaylistRevision: async (id, version) => {
+        set((state) => ({ 
+          operationLoading: { ...state.operationLoading, [`restore_${id}`]: true },
+          error: null
+        }));
+
+        const current = get().currentPlaylist?.id === id
+          ? get().currentPlaylist
+          : get().playlists.find(playlist => playlist.id === id);
+
+        try {
+          const { playlist: restoredPlaylist, message, skippedItems } = await restorePlaylistRevisionAPI(id, version, current?.version);
+
+          set((state) => ({
+            playlists: state.playlists.map((playlist) =>
+              playlist.id === id ? { ...playlist, ...restoredPlaylist } : playlist
+            ),
+            currentPlaylist: state.currentPlaylist?.id === id
+              ? { ...state.currentPlaylist, ...restoredPlaylist }
+              : state.currentPlaylist,
+            playlistCache: {
+              ...state.playlistCache,
+              [id]: { data: restoredPlaylist, timestamp: Date.now() }
+            },
+            operationLoading: { ...state.operationLoading, [`restore_${id}`]: false }
+          }));
+
+          if (socketService.isConnected()) {
+            socketService.emitPlaylistUpdate(id, restoredPlaylist);
+          }
+
+          return { message, skippedItems };
+        } catch (error) {
+          // Someone saved meanwhile: show their version so a retry restores over it
+          if (isPlaylistConflictError(error)) {
+            const latest = error.currentPlaylist;
+            set((state) => ({
+              playlists: state.playlists.map((playlist) => playlist.id === id ? { ...playlist, ...latest } : playlist),
+              currentPlaylist: state.currentPlaylist?.id === id ? latest : state.currentPlaylist,
+              operationLoading: { ...state.operationLoading, [`restore_${id}`]: false }
+            }));
+            throw error;
+          }
+
+          const errorMessage = isPlaylistApiError(error) 
+            ? getPlaylistErrorMessage(error)
+            : 'Failed to restore playlist version';
+            
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [`restore_${id}`]: false },
+            error: errorMessage,
+          }));
+          
+          console.error('Failed to restore playlist revision:', error);
+          throw error;
+        }
+      },
+
       // ============================
       // Playlist Item Management
       // ============================
@@ -698,6 +825,11 @@ export const usePlaylistStore = create<PlaylistStore>()(
           // Update current playlist if it's the active one
           const state = get();
           if (state.currentPlaylist?.id === playlistId) {
+            get().recordEdit(createAddItemCommand(
+              playlistId,
+              playlistItem,
+              position ?? state.currentPlaylist.items.length
+            ));
             get().refreshPlaylist(playlistId);
           }
 
@@ -792,6 +924,10 @@ export const usePlaylistStore = create<PlaylistStore>()(
 
           // Update current playlist if it's the active one
           if (state.currentPlaylist?.id === playlistId) {
+            const position = [...currentItems]
+              .sort((a, b) => a.order - b.order)
+              .findIndex(item => getItemKey(item) === itemId);
+            get().recordEdit(createRemoveItemCommand(playlistId, itemToRemove, position));
             get().refreshPlaylist(playlistId);
           }
 
@@ -883,6 +1019,14 @@ export const usePlaylistStore = create<PlaylistStore>()(
         const originalPlaylist = state.currentPlaylist;
         const originalPlaylistItems = state.playlistItems[playlistId] || [];
 
+        // The current playlist in its new order, for merging and the undo history
+        const orderById = new Map(itemOrderUpdates.map(update => [update.id, update.order]));
+        const reorderedItems = originalPlaylist?.id === playlistId
+          ? originalPlaylist.items
+            .map(item => ({ ...item, order: orderById.get(item.id) ?? item.order }))
+            .sort((a, b) => a.order - b.order)
+          : [];
+
         console.log('🎵 reorderPlaylistItemsByOrder called:', { 
           playlistId, 
           itemOrderUpdates,
@@ -895,7 +1039,7 @@ export const usePlaylistStore = create<PlaylistStore>()(
         });
 
         try {
-          const authToken = localStorage.getItem('auth_token');
+          const authToken = getAccessToken();
           console.log('🎵 Auth token check:', { 
             hasToken: !!authToken, 
             tokenLength: authToken?.length,
@@ -943,13 +1087,10 @@ export const usePlaylistStore = create<PlaylistStore>()(
           }
           
           // Call the /reorder endpoint (not /items/reorder) to match PlaylistAssignment usage
-          const response = await fetch(`http://localhost:5000/api/playlists/${playlistId}/reorder`, {
+          const response = await fetchWithRetry(`http://localhost:5000/api/playlists/${playlistId}/reorder`, {
             method: 'PUT',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${authToken}`
-            },
             body: JSON.stringify({
+              version: originalPlaylist?.id === playlistId ? originalPlaylist.version : undefined,
               items: itemOrderUpdates
             })
           });
@@ -960,6 +1101,23 @@ export const usePlaylistStore = create<PlaylistStore>()(
               errors: [],
               success: false
             }));
+
+            // The playlist changed since it was loaded: merge the new order into the stored playlist
+            if (response.status === 409 && errorData.code === 'VERSION_CONFLICT' && originalPlaylist?.id === playlistId) {
+              set((state) => ({
+                operationLoading: { ...state.operationLoading, [`reorder_order_${playlistId}`]: false }
+              }));
+
+              const merged = await get().mergeConcurrentEdit(
+                playlistId,
+                originalPlaylist,
+                { ...originalPlaylist, items: reorderedItems },
+                errorData.data.playlist
+              );
+              if (merged) return;
+              throw new Error(errorData.message);
+            }
+
             console.error('🚫 Failed to reorder playlist items:', {
               status: response.status,
               statusText: response.statusText,
@@ -980,7 +1138,7 @@ export const usePlaylistStore = create<PlaylistStore>()(
               requestUrl: `http://localhost:5000/api/playlists/${playlistId}/reorder`,
               headers: {
                 'Content-Type': 'application/json',
-                'Authorization': `Bearer ${localStorage.getItem('auth_token') ? 'TOKEN_EXISTS' : 'NO_TOKEN'}`
+                'Authorization': `Bearer ${getAccessToken() ? 'TOKEN_EXISTS' : 'NO_TOKEN'}`
               }
             });
             throw new Error(errorData.message || `HTTP ${response.status}: ${response.statusText}`);
@@ -1010,6 +1168,7 @@ export const usePlaylistStore = create<PlaylistStore>()(
               currentPlaylist: {
                 ...originalPlaylist,
                 items: updatedItems,
+                version: result.data?.playlist?.version ?? originalPlaylist.version,
                 updatedAt: new Date().toISOString()
               },
               playlistItems: {
@@ -1023,6 +1182,12 @@ export const usePlaylistStore = create<PlaylistStore>()(
               ),
               operationLoading: { ...state.operationLoading, [`reorder_order_${playlistId}`]: false }
             }));
+
+            get().recordEdit(createReorderCommand(
+              playlistId,
+              [...originalPlaylist.items].sort((a, b) => a.order - b.order).map(getItemKey),
+              reorderedItems.map(getItemKey)
+            ));
           } else {
             // If no current playlist, just clear loading state
             set((state) => ({
@@ -1060,24 +1225,56 @@ export const usePlaylistStore = create<PlaylistStore>()(
           operationLoading: { ...state.operationLoading, [`update_item_${itemId}`]: true }
         }));
 
-        try {
-          const updatedItem = await updatePlaylistItemAPI(playlistId, itemId, data);
+        const state = get();
+        const playlist = state.currentPlaylist?.id === playlistId
+          ? state.currentPlaylist
+          : state.playlistCache[playlistId]?.data;
+        const item = playlist?.items.find(entry => getItemKey(entry) === itemId);
 
-          // Update playlist item optimistically
-          set((state) => {
-            const currentItems = state.playlistItems[playlistId] || [];
-            const updatedItems = currentItems.map(item =>
-              item.id === itemId ? { ...item, ...updatedItem } : item
-            );
+        if (!playlist || !item) {
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [`update_item_${itemId}`]: false },
+            error: 'Playlist item not found'
+          }));
+          return;
+        }
 
-            return {
-              playlistItems: {
-                ...state.playlistItems,
-                [playlistId]: updatedItems
-              },
-              operationLoading: { ...state.operationLoading, [`update_item_${itemId}`]: false }
-            };
+        const settings = Object.fromEntries(
+          (['duration', 'transitions', 'conditions'] as const)
+            .filter(key => data[key] !== undefined)
+            .map(key => [key, data[key]])
+        ) as PlaylistItemSettings;
+        const command = createItemSettingsCommand(playlistId, item, settings);
+
+        try {
+          // Item settings are saved through the playlist's item list
+          const updatedPlaylist = await updatePlaylistAPI(playlistId, {
+            version: playlist.version,
+            items: [...playlist.items]
+              .sort((a, b) => a.order - b.order)
+              .map(entry => (getItemKey(entry) === itemId ? { ...toItemUpdate(entry), ...settings } : toItemUpdate(entry))),
           });
+
+          set((state) => ({
+            playlistItems: {
+              ...state.playlistItems,
+              [playlistId]: updatedPlaylist.items
+            },
+            currentPlaylist: state.currentPlaylist?.id === playlistId
+              ? { ...state.currentPlaylist, ...updatedPlaylist }
+              : state.currentPlaylist,
+            playlistCache: {
+              ...state.playlistCache,
+              [playlistId]: { data: updatedPlaylist, timestamp: Date.now() }
+            },
+            operationLoading: { ...state.operationLoading, [`update_item_${itemId}`]: false }
+          }));
+
+          get().recordEdit(command);
+
+          if (socketService.isConnected()) {
+            socketService.emitPlaylistUpdate(playlistId, updatedPlaylist);
+          }
         } catch (error) {
           const errorMessage = isPlaylistApiError(error) 
             ? getPlaylistErrorMessage(error)
@@ -1092,23 +1289,142 @@ export const usePlaylistStore = create<PlaylistStore>()(
         }
       },
 
+      // ============================
+      // Undo / Redo
+      // ============================
+
+      undo: () => get().applyEditCommand('undo'),
+
+      redo: () => get().applyEditCommand('redo'),
+
+      clearEditHistory: () => {
+        set({ undoStack: [], redoStack: [] });
+      },
+
+      recordEdit: (command) => {
+        if (!command) return;
+
+        set((state) => ({
+          // History covers one playlist; editing another starts it over
+          undoStack: state.undoStack[0] && state.undoStack[0].playlistId !== command.playlistId
+            ? [command]
+            : pushEditCommand(state.undoStack, command),
+          redoStack: []
+        }));
+      },
+
+      applyEditCommand: async (direction) => {
+        const state = get();
+        const stack = direction === 'undo' ? state.undoStack : state.redoStack;
+        const command = stack[stack.length - 1];
+        const playlist = state.currentPlaylist;
+
+        if (!command || state.operationLoading.edit_history) {
+          return null;
+        }
+        if (playlist?.id !== command.playlistId) {
+          get().clearEditHistory();
+          return null;
+        }
+
+        // Take the command off its stack while it runs, so a repeated shortcut cannot apply it twice
+        const popCommand = (state: PlaylistStore) => (direction === 'undo'
+          ? { undoStack: state.undoStack.slice(0, -1) }
+          : { redoStack: state.redoStack.slice(0, -1) });
+        set((state) => ({
+          ...popCommand(state),
+          operationLoading: { ...state.operationLoading, edit_history: true },
+          error: null
+        }));
+
+        let base = playlist;
+
+        try {
+          let updatedPlaylist: Playlist;
+          try {
+            updatedPlaylist = await updatePlaylistAPI(playlist.id, {
+              version: base.version,
+              ...planEditCommand(command, base, direction)
+            });
+          } catch (error) {
+            // A collaborator saved since this playlist was loaded: plan the step against their version
+            if (!isPlaylistConflictError(error)) throw error;
+            base = error.currentPlaylist;
+            updatedPlaylist = await updatePlaylistAPI(playlist.id, {
+              version: base.version,
+              ...planEditCommand(command, base, direction)
+            });
+          }
+
+          // Undoing a removal or redoing an add creates the item again under a new ID
+          const recreatesItem = (command.type === 'remove-item' && direction === 'undo') ||
+            (command.type === 'add-item' && direction === 'redo');
+          const newItemId = recreatesItem ? findAddedItemId(base, updatedPlaylist) : undefined;
+          const remap = (commands: PlaylistEditCommand[]) => (
+            newItemId && 'item' in command && command.item.id
+              ? remapEditCommands(commands, command.item.id, newItemId)
+              : commands
+          );
+          const [applied] = remap([command]);
+
+          set((state) => ({
+            undoStack: direction === 'undo' ? remap(state.undoStack) : pushEditCommand(remap(state.undoStack), applied),
+            redoStack: direction === 'redo' ? remap(state.redoStack) : pushEditCommand(remap(state.redoStack), applied),
+            operationLoading: { ...state.operationLoading, edit_history: false }
+          }));
+
+          await get().refreshPlaylist(playlist.id);
+
+          if (socketService.isConnected()) {
+            socketService.emitPlaylistUpdate(playlist.id, updatedPlaylist);
+          }
+
+          return command;
+        } catch (error) {
+          // A command that no longer applies is dropped; anything else can be retried
+          const keepCommand = !(error instanceof PlaylistHistoryError);
+          const errorMessage = error instanceof PlaylistHistoryError
+            ? error.message
+            : isPlaylistApiError(error)
+              ? getPlaylistErrorMessage(error)
+              : `Failed to ${direction} the last change`;
+
+          console.error(`Failed to ${direction} playlist edit:`, error);
+
+          set((state) => ({
+            ...(keepCommand && direction === 'undo' ? { undoStack: pushEditCommand(state.undoStack, command) } : {}),
+            ...(keepCommand && direction === 'redo' ? { redoStack: pushEditCommand(state.redoStack, command) } : {}),
+            operationLoading: { ...state.operationLoading, edit_history: false },
+            error: errorMessage,
+          }));
+
+          // Other collaborators' changes stay; show the latest version
+          if (base !== playlist) {
+            await get().refreshPlaylist(playlist.id);
+          }
+
+          throw error;
+        }
+      },
+
       // ============================
       // Screen Assignment
       // ============================
 
-      assignToScreens: async (playlistId, screenIds) => {
+      assignToScreens: async (playlistId, screenIds, groupIds = []) => {
         set((state) => ({ 
           operationLoading: { ...state.operationLoading, [`assign_${playlistId}`]: true }
         }));
 
         try {
-          await assignPlaylistToScreensAPI(playlistId, screenIds);
+          // Groups are resolved server-side; the response lists every screen assigned
+          const assignedIds = await assignPlaylistToScreensAPI(playlistId, screenIds, groupIds);
 
           // Update playlist assignment optimistically
           set((state) => ({
             playlists: state.playlists.map(playlist =>
               playlist.id === playlistId
-                ? { ...playlist, assignedScreens: [...new Set([...playlist.assignedScreens, ...screenIds])] }
+                ? { ...playlist, assignedScreens: [...new Set([...playlist.assignedScreens, ...assignedIds])] }
                 : playlist
             ),
             operationLoading: { ...state.operationLoading, [`assign_${playlistId}`]: false }
@@ -1119,8 +1435,10 @@ export const usePlaylistStore = create<PlaylistStore>()(
 
           // Emit socket event
           if (socketService.isConnected()) {
-            socketService.emitPlaylistAssignment(playlistId, screenIds);
+            socketService.emitPlaylistAssignment(playlistId, assignedIds);
           }
+
+          return assignedIds;
         } catch (error) {
           const errorMessage = isPlaylistApiError(error) 
             ? getPlaylistErrorMessage(error)
@@ -1132,16 +1450,20 @@ export const usePlaylistStore = create<PlaylistStore>()(
           }));
           
           console.error('Failed to assign playlist to screens:', error);
+          return null;
         }
       },
 
-      unassignFromScreens: async (playlistId, screenIds) => {
+      unassignFromScreens: async (playlistId, screenIds, groupIds = []) => {
         set((state) => ({ 
           operationLoading: { ...state.operationLoading, [`unassign_${playlistId}`]: true }
         }));
 
         try {
-          await unassignPlaylistFromScreensAPI(playlistId, screenIds);
+          // Without screens or groups, unassign from every screen currently assigned
+          const targetIds = screenIds
+            ?? (groupIds.length > 0 ? [] : get().playlists.find(playlist => playlist.id === playlistId)?.assignedScreens ?? []);
+          const unassignedIds = await unassignPlaylistFromScreensAPI(playlistId, targetIds, groupIds);
 
           // Update playlist assignment optimistically
           set((state) => ({
@@ -1149,9 +1471,7 @@ export const usePlaylistStore = create<PlaylistStore>()(
               playlist.id === playlistId
                 ? { 
                     ...playlist, 
-                    assignedScreens: screenIds 
-                      ? playlist.assignedScreens.filter(id => !screenIds.includes(id))
-                      : []
+                    assignedScreens: playlist.assignedScreens.filter(id => !unassignedIds.includes(id))
                   }
                 : playlist
             ),
@@ -1163,8 +1483,10 @@ export const usePlaylistStore = create<PlaylistStore>()(
 
           // Emit socket event
           if (socketService.isConnected()) {
-            socketService.emitPlaylistUnassignment(playlistId, screenIds || []);
+            socketService.emitPlaylistUnassignment(playlistId, unassignedIds);
           }
+
+          return unassignedIds;
         } catch (error) {
           const errorMessage = isPlaylistApiError(error) 
             ? getPlaylistErrorMessage(error)
@@ -1176,6 +1498,7 @@ export const usePlaylistStore = create<PlaylistStore>()(
           }));
           
           console.error('Failed to unassign playlist from screens:', error);
+          return null;
         }
       },
 
@@ -1508,6 +1831,11 @@ export const usePlaylistStore = create<PlaylistStore>()(
             socketService.on('playlist:unassigned', get().handlePlaylistUnassigned);
             socketService.on('user:joined:playlist', get().handleUserJoinedPlaylist);
             socketService.on('user:left:playlist', get().handleUserLeftPlaylist);
+            socketService.on('joined:playlist', get().handlePlaylistPermissionChanged);
+            socketService.on('playlist:permission:changed', get().handlePlaylistPermissionChanged);
+            socketService.on('playlist:access:denied', get().handlePlaylistAccessDenied);
+            socketService.on('playlist:presence', get().handlePlaylistPresence);
+            socketService.on('playlist:approval:changed', get().handlePlaylistApprovalChanged);
             
             console.log('Socket initialized for playlist store');
           } else {
@@ -1526,8 +1854,9 @@ export const usePlaylistStore = create<PlaylistStore>()(
       },
 
       subscribeToPlaylistEvents: (playlistId) => {
+        // The room is kept across reconnects, and joined on connect when offline now
+        socketService.joinPlaylistRoom(playlistId);
         if (socketService.isConnected()) {
-          socketService.joinPlaylistRoom(playlistId);
           socketService.emitUserJoinedPlaylist(playlistId);
         }
       },
@@ -1535,48 +1864,66 @@ export const usePlaylistStore = create<PlaylistStore>()(
       unsubscribeFromPlaylistEvents: (playlistId) => {
         if (socketService.isConnected()) {
           socketService.emitUserLeftPlaylist(playlistId);
-          socketService.leavePlaylistRoom(playlistId);
         }
+        socketService.leavePlaylistRoom(playlistId);
+
+        // Leaving the room releases our locks; others' presence is no longer sent to us
+        set((state) => ({
+          playlistPresence: Object.fromEntries(
+            Object.entries(state.playlistPresence).filter(([id]) => id !== playlistId)
+          )
+        }));
       },
 
       pauseRealtimeUpdates: (paused) => {
         set({ realtimeUpdatesPaused: paused });
       },
 
-      handleConflictResolution: (resolution) => {
-        const state = get();
-        const { conflictResolution } = state;
-        
-        if (!conflictResolution.hasConflict) return;
+      setItemActivity: (playlistId, itemId, activity) => {
+        socketService.emitPlaylistActivity(playlistId, itemId, activity);
+      },
+
+      lockPlaylistItem: async (playlistId, itemId) => {
+        return socketService.lockPlaylistItem(playlistId, itemId);
+      },
+
+      unlockPlaylistItem: (playlistId, itemId) => {
+        socketService.unlockPlaylistItem(playlistId, itemId);
+      },
+
+      handleConflictResolution: async (resolution, choices = {}) => {
+        const { conflictResolution } = get();
+        const { baseVersion, localVersion, remoteVersion, conflicts = [] } = conflictResolution;
+
+        if (!conflictResolution.hasConflict || !remoteVersion) return;
 
         switch (resolution) {
-          case 'accept_local':
-            // Keep local changes, ignore remote
-            set({ conflictResolution: defaultConflictResolution });
-            break;
-            
           case 'accept_remote':
-            // Accept remote changes
-            if (conflictResolution.remoteVersion) {
-              // Apply remote changes based on conflict type
-              if (conflictResolution.conflictType === 'metadata' && state.currentPlaylist) {
-                set({
-                  currentPlaylist: { ...state.currentPlaylist, ...conflictResolution.remoteVersion },
-                  conflictResolution: defaultConflictResolution
-                });
-              }
-            }
+            // Discard our edit and show the stored playlist
+            set((state) => ({
+              playlists: state.playlists.map(p => p.id === remoteVersion.id ? { ...p, ...remoteVersion } : p),
+              currentPlaylist: state.currentPlaylist?.id === remoteVersion.id ? remoteVersion : state.currentPlaylist,
+              playlistCache: {
+                ...state.playlistCache,
+                [remoteVersion.id]: { data: remoteVersion, timestamp: Date.now() }
+              },
+              conflictResolution: defaultConflictResolution
+            }));
             break;
-            
-          case 'merge':
-            // Implement merge logic - for now, accept remote with notification
-            if (conflictResolution.remoteVersion && state.currentPlaylist) {
-              set({
-                currentPlaylist: { ...state.currentPlaylist, ...conflictResolution.remoteVersion },
-                conflictResolution: defaultConflictResolution
-              });
-            }
+
+          case 'accept_local':
+          case 'merge': {
+            if (!baseVersion || !localVersion) return;
+
+            // Keeping our changes takes our side of every conflict; a merge uses the choices made in the dialog
+            const resolvedChoices = resolution === 'accept_local'
+              ? Object.fromEntries(conflicts.map(conflict => [conflict.key, 'local' as const]))
+              : choices;
+
+            set({ conflictResolution: defaultConflictResolution });
+            await get().mergeConcurrentEdit(remoteVersion.id, baseVersion, localVersion, remoteVersion, resolvedChoices);
             break;
+          }
         }
       },
 
@@ -1584,6 +1931,70 @@ export const usePlaylistStore = create<PlaylistStore>()(
         set({ conflictResolution: defaultConflictResolution });
       },
 
+      mergeConcurrentEdit: async (id, base, local, remote, choices = {}) => {
+        const { merged, changes, conflicts } = mergePlaylists(base, local, remote, choices);
+        const unresolved = conflicts.filter(conflict => !choices[conflict.key]);
+
+        if (unresolved.length > 0) {
+          set({
+            conflictResolution: {
+              hasConflict: true,
+              baseVersion: base,
+              localVersion: local,
+              remoteVersion: remote,
+              changes,
+              conflicts,
+              conflictType: conflicts.some(conflict => conflict.key.startsWith('items.')) ? 'items' : 'metadata'
+            }
+          });
+          return false;
+        }
+
+        set((state) => ({
+          operationLoading: { ...state.operationLoading, [`update_${id}`]: true }
+        }));
+
+        try {
+          const savedPlaylist = await updatePlaylistAPI(id, buildMergedUpdate(merged, remote));
+
+          set((state) => ({
+            playlists: state.playlists.map(playlist =>
+              playlist.id === id ? { ...playlist, ...savedPlaylist } : playlist
+            ),
+            currentPlaylist: state.currentPlaylist?.id === id
+              ? { ...state.currentPlaylist, ...savedPlaylist }
+              : state.currentPlaylist,
+            playlistCache: {
+              ...state.playlistCache,
+              [id]: { data: savedPlaylist, timestamp: Date.now() }
+            },
+            operationLoading: { ...state.operationLoading, [`update_${id}`]: false }
+          }));
+
+          if (socketService.isConnected()) {
+            socketService.emitPlaylistUpdate(id, savedPlaylist);
+          }
+
+          console.log(`Merged concurrent edits of playlist ${id}`, { changes: changes.length });
+          return true;
+        } catch (error) {
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [`update_${id}`]: false }
+          }));
+
+          // Another save landed while merging; our merged result is now the local side
+          if (isPlaylistConflictError(error)) {
+            return get().mergeConcurrentEdit(id, remote, merged, error.currentPlaylist);
+          }
+
+          set({
+            error: isPlaylistApiError(error) ? getPlaylistErrorMessage(error) : 'Failed to save merged playlist'
+          });
+          console.error('Failed to save merged playlist:', error);
+          throw error;
+        }
+      },
+
       // ============================
       // Real-time Event Handlers
       // ============================
@@ -1593,21 +2004,17 @@ export const usePlaylistStore = create<PlaylistStore>()(
         
         if (state.realtimeUpdatesPaused) return;
 
-        const { playlistId, playlist, updatedBy, changeType } = event;
+        const { playlistId, playlist, updatedBy } = event;
         
-        // Check if this is the currently active playlist and we have local changes
+        // A save of ours is in flight: the server's version check decides whether the
+        // two edits conflict, and a stale save is merged when it comes back with 409
         if (state.currentPlaylist?.id === playlistId && state.operationLoading[`update_${playlistId}`]) {
-          // Potential conflict - show conflict resolution UI
-          set({
-            conflictResolution: {
-              hasConflict: true,
-              conflictingUserId: updatedBy,
-              conflictingUserEmail: event.updatedByEmail || 'Unknown User',
-              localVersion: state.currentPlaylist,
-              remoteVersion: playlist,
-              conflictType: changeType as any
-            }
-          });
+          return;
+        }
+
+        // Ignore echoes of versions we already have
+        if (playlist.version !== undefined && state.currentPlaylist?.id === playlistId
+          && (state.currentPlaylist.version ?? 0) >= playlist.version) {
           return;
         }
 
@@ -1771,6 +2178,28 @@ export const usePlaylistStore = create<PlaylistStore>()(
         console.log(`User ${userEmail} joined playlist ${playlistId}`);
       },
 
+      handlePlaylistPresence: (event) => {
+        const { playlistId, users } = event;
+        const ownSocketId = socketService.socket?.id;
+
+        set((state) => {
+          // Presence replaces join/leave tracking, which misses users who disconnect
+          const others = new Map<string, { userId: string; userEmail: string; joinedAt: string }>();
+          users
+            .filter(user => user.socketId !== ownSocketId)
+            .forEach(user => {
+              if (!others.has(user.userId)) {
+                others.set(user.userId, { userId: user.userId, userEmail: user.userEmail, joinedAt: user.joinedAt });
+              }
+            });
+
+          return {
+            playlistPresence: { ...state.playlistPresence, [playlistId]: event },
+            activeUsers: { ...state.activeUsers, [playlistId]: Array.from(others.values()) }
+          };
+        });
+      },
+
       handleUserLeftPlaylist: (event) => {
         const { userId, playlistId } = event;
         
@@ -1788,6 +2217,69 @@ export const usePlaylistStore = create<PlaylistStore>()(
 
         console.log(`User left playlist ${playlistId}`);
       },
+
+      handlePlaylistPermissionChanged: (event) => {
+        const { playlistId, permission, changedBy } = event;
+
+        set((state) => ({
+          playlistPermissions: { ...state.playlistPermissions, [playlistId]: permission }
+        }));
+
+        // Joining a room only confirms the permission; a sharing change also changes what is visible
+        if (!changedBy) return;
+
+        if (!permission) {
+          set((state) => ({
+            playlists: state.playlists.filter(playlist => playlist.id !== playlistId),
+            currentPlaylist: state.currentPlaylist?.id === playlistId ? null : state.currentPlaylist,
+            playlistCache: Object.fromEntries(
+              Object.entries(state.playlistCache).filter(([id]) => id !== playlistId)
+            ),
+            error: state.currentPlaylist?.id === playlistId ? 'Your access to this playlist was removed' : state.error
+          }));
+          return;
+        }
+
+        if (!get().playlists.some(playlist => playlist.id === playlistId)) {
+          // Newly shared with this user
+          get().forceRefreshPlaylists();
+        } else if (get().currentPlaylist?.id === playlistId) {
+          get().refreshPlaylist(playlistId);
+        }
+
+        console.log(`Permission on playlist ${playlistId} changed to ${permission}`);
+      },
+
+      handlePlaylistAccessDenied: (event) => {
+        console.warn('Playlist access denied:', event);
+        set({ error: event.message });
+      },
+
+      handlePlaylistApprovalChanged: (event) => {
+        const { playlistId, status, action } = event;
+        if (action === 'comment') return;
+
+        // Review steps leave the version alone, so no playlist:updated follows
+        const withStatus = (playlist: Playlist): Playlist => ({
+          ...playlist,
+          approval: { ...playlist.approval, status },
+        });
+
+        set((state) => ({
+          playlists: state.playlists.map(playlist => playlist.id === playlistId ? withStatus(playlist) : playlist),
+          currentPlaylist: state.currentPlaylist?.id === playlistId
+            ? withStatus(state.currentPlaylist)
+            : state.currentPlaylist,
+          playlistCache: state.playlistCache[playlistId]
+            ? {
+                ...state.playlistCache,
+                [playlistId]: { ...state.playlistCache[playlistId], data: withStatus(state.playlistCache[playlistId].data) }
+              }
+            : state.playlistCache
+        }));
+
+        console.log(`Playlist ${playlistId} is now ${status}`);
+      },
     })),
     {
       name: 'playlist-store',
@@ -0,0 +1,187 @@
+/**
+ * Screen Group Store
+ *
+ * This Zustand store holds the user's screen groups, shared by every view
+ * that targets screens in bulk:
+ * - Groups loaded from the screen group API, with member counts
+ * - Creating, editing and deleting groups
+ * - Group filters in screen management, playlist assignment and the control room
+ */
+
+import { create } from 'zustand';
+import { devtools, subscribeWithSelector } from 'zustand/middleware';
+import {
+  getScreenGroups,
+  createScreenGroup as createScreenGroupAPI,
+  updateScreenGroup as updateScreenGroupAPI,
+  deleteScreenGroup as deleteScreenGroupAPI,
+  getScreenGroupErrorMessage,
+} from '../services/screenGroupAPI';
+
+import type { ScreenGroup, ScreenGroupData } from '../types';
+
+// ============================
+// Store State Interfaces
+// ============================
+
+interface ScreenGroupStoreState {
+  groups: ScreenGroup[];
+
+  loading: boolean;
+  error: string | null;
+  operationLoading: Record<string, boolean>;
+
+  // Whether groups have been loaded at least once
+  loaded: boolean;
+}
+
+interface ScreenGroupStoreActions {
+  fetchGroups: (force?: boolean) => Promise<void>;
+  createGroup: (data: ScreenGroupData) => Promise<ScreenGroup | null>;
+  updateGroup: (id: string, data: Partial<ScreenGroupData>) => Promise<ScreenGroup | null>;
+  deleteGroup: (id: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+type ScreenGroupStore = ScreenGroupStoreState & ScreenGroupStoreActions;
+
+const sortGroups = (groups: ScreenGroup[]) =>
+  [...groups].sort((a, b) => a.name.localeCompare(b.name));
+
+// ============================
+// Store Implementation
+// ============================
+
+export const useScreenGroupStore = create<ScreenGroupStore>()(
+  devtools(
+    subscribeWithSelector((set, get) => ({
+      // Initial State
+      groups: [],
+      loading: false,
+      error: null,
+      operationLoading: {},
+      loaded: false,
+
+      fetchGroups: async (force = false) => {
+        if (get().loaded && !force) return;
+
+        set({ loading: true, error: null });
+
+        try {
+          const groups = await getScreenGroups();
+          set({ groups, loading: false, loaded: true });
+        } catch (error) {
+          set({ loading: false, error: getScreenGroupErrorMessage(error) });
+        }
+      },
+
+      createGroup: async (data) => {
+        set((state) => ({ operationLoading: { ...state.operationLoading, create: true }, error: null }));
+
+        try {
+          const group = await createScreenGroupAPI(data);
+          set((state) => ({ groups: sortGroups([...state.groups, group]) }));
+          return group;
+        } catch (error) {
+          set({ error: getScreenGroupErrorMessage(error) });
+          return null;
+        } finally {
+          set((state) => ({ operationLoading: { ...state.operationLoading, create: false } }));
+        }
+      },
+
+      updateGroup: async (id, data) => {
+        set((state) => ({ operationLoading: { ...state.operationLoading, [`update-${id}`]: true }, error: null }));
+
+        try {
+          const group = await updateScreenGroupAPI(id, data);
+          set((state) => ({
+            groups: sortGroups(state.groups.map((existing) => (existing._id === id ? group : existing))),
+          }));
+
+          // Moving a group or changing its members changes its ancestors' member counts
+          if (data.parent !== undefined || data.screens || data.tags || data.tagMatch) {
+            get().fetchGroups(true);
+          }
+          return group;
+        } catch (error) {
+          set({ error: getScreenGroupErrorMessage(error) });
+          return null;
+        } finally {
+          set((state) => ({ operationLoading: { ...state.operationLoading, [`update-${id}`]: false } }));
+        }
+      },
+
+      deleteGroup: async (id) => {
+        set((state) => ({ operationLoading: { ...state.operationLoading, [`delete-${id}`]: true }, error: null }));
+
+        try {
+          await deleteScreenGroupAPI(id);
+
+          // Subgroups move up to the deleted group's parent
+          set((state) => {
+            const deleted = state.groups.find((group) => group._id === id);
+            return {
+              groups: state.groups
+                .filter((group) => group._id !== id)
+                .map((group) => (group.parent === id ? { ...group, parent: deleted?.parent ?? null } : group)),
+            };
+          });
+
+          // The deleted group's own members no longer count towards its ancestors
+          get().fetchGroups(true);
+          return true;
+        } catch (error) {
+          set({ error: getScreenGroupErrorMessage(error) });
+          return false;
+        } finally {
+          set((state) => ({ operationLoading: { ...state.operationLoading, [`delete-${id}`]: false } }));
+        }
+      },
+
+      clearError: () => set({ error: null }),
+    })),
+    {
+      name: 'screen-group-store',
+    }
+  )
+);
+
+// ============================
+// Selectors for Optimized Re-renders
+// ============================
+
+export const useScreenGroups = () => useScreenGroupStore((state) => state.groups);
+export const useScreenGroupLoading = () => useScreenGroupStore((state) => state.loading);
+export const useScreenGroupError = () => useScreenGroupStore((state) => state.error);
+export const useScreenGroupOperationLoading = () => useScreenGroupStore((state) => state.operationLoading);
+
+// Combined actions hook for convenience
+const STABLE_SCREEN_GROUP_ACTIONS = {} as Pick<
+  ScreenGroupStore,
+  | 'fetchGroups'
+  | 'createGroup'
+  | 'updateGroup'
+  | 'deleteGroup'
+  | 'clearError'
+>;
+
+export const useScreenGroupActions = () => {
+  return useScreenGroupStore((state) => {
+    // Only update if any action function has actually changed
+    if (
+      STABLE_SCREEN_GROUP_ACTIONS.fetchGroups !== state.fetchGroups ||
+      STABLE_SCREEN_GROUP_ACTIONS.createGroup !== state.createGroup ||
+      STABLE_SCREEN_GROUP_ACTIONS.updateGroup !== state.updateGroup ||
+      STABLE_SCREEN_GROUP_ACTIONS.deleteGroup !== state.deleteGroup ||
+      STABLE_SCREEN_GROUP_ACTIONS.clearError !== state.clearError
+    ) {
+      STABLE_SCREEN_GROUP_ACTIONS.fetchGroups = state.fetchGroups;
+      STABLE_SCREEN_GROUP_ACTIONS.createGroup = state.createGroup;
+      STABLE_SCREEN_GROUP_ACTIONS.updateGroup = state.updateGroup;
+      STABLE_SCREEN_GROUP_ACTIONS.deleteGroup = state.deleteGroup;
+      STABLE_SCREEN_GROUP_ACTIONS.clearError = state.clearError;
+    }
+    return STABLE_SCREEN_GROUP_ACTIONS;
+  });
+};
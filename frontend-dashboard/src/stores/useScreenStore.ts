@@ -0,0 +1,1005 @@
+/**
+ * Screen Management Store
+ *
+ * This Zustand store manages all screen-related state and operations including:
+ * - Screen CRUD operations backed by the screen API
+ * - Device pairing codes
+ * - Filtering, search and pagination
+ * - Screen statistics for the dashboard
+ * - Playlist assignment per screen
+ * - Real-time status, telemetry, playback and offline cache updates from the socket service
+ * - Fleet activity log for the control room
+ * - Remote commands with live acknowledgement status and results
+ *
+ * Features:
+ * - Shared screen list for ScreenManagement, ScreenGrid and RealTimeControl
+ * - Per-operation loading flags
+ * - Cache management to avoid refetching on every mount
+ * - Efficient re-render prevention with stable selectors
+ */
+
+import { create } from 'zustand';
+import { devtools, subscribeWithSelector } from 'zustand/middleware';
+import {
+  getScreens,
+  getScreen,
+  createScreen as createScreenAPI,
+  updateScreen as updateScreenAPI,
+  deleteScreen as deleteScreenAPI,
+  regenerateAccessKey as regenerateAccessKeyAPI,
+  createPairingCode as createPairingCodeAPI,
+  assignPlaylistToScreen as assignPlaylistToScreenAPI,
+  removePlaylistFromScreen as removePlaylistFromScreenAPI,
+  getScreenStats,
+  sendScreenCommand,
+  sendBulkScreenCommand,
+  getScreenCommands,
+  isScreenApiError,
+  getScreenErrorMessage,
+} from '../services/screenAPI';
+
+import { socketService } from '../services/socketService';
+import type {
+  ScreenStatusEvent,
+  ScreenHeartbeatEvent,
+  ScreenPairedEvent,
+  ScreenCacheUpdatedEvent,
+  ScreenCommandUpdatedEvent,
+} from '../services/socketService';
+
+import type {
+  Screen,
+  CreateScreenData,
+  UpdateScreenData,
+  GetScreenParams,
+  ScreenFilters,
+  ScreenPagination,
+  ScreenStatistics,
+  ScreenPairingCode,
+  ScreenPlaybackState,
+  ScreenCommand,
+  ScreenCommandType,
+  ScreenTargets,
+  BulkScreenCommandResponse,
+} from '../types';
+
+// ============================
+// Store State Interfaces
+// ============================
+
+export interface ScreenActivityEntry {
+  id: string;
+  timestamp: string;
+  type: 'info' | 'warning' | 'error' | 'success';
+  message: string;
+  screenId?: string;
+}
+
+interface ScreenStoreState {
+  // Core data
+  screens: Screen[];
+  selectedScreen: Screen | null;
+
+  // UI state
+  loading: boolean;
+  error: string | null;
+  operationLoading: Record<string, boolean>; // Track specific operations
+
+  // Filters and pagination
+  filters: ScreenFilters;
+  pagination: ScreenPagination;
+
+  // Selection for bulk operations
+  selectedScreenIds: Set<string>;
+
+  // Cache management
+  lastFetch: number;
+  cacheTimeout: number;
+
+  // Statistics
+  statistics: ScreenStatistics;
+
+  // Live telemetry, keyed by screen ID
+  playback: Record<string, ScreenPlaybackState>;
+  activity: ScreenActivityEntry[];
+
+  // Recent remote commands per screen ID, newest first
+  commands: Record<string, ScreenCommand[]>;
+
+  // Socket connection management
+  socketInitialized: boolean;
+}
+
+interface ScreenStore extends ScreenStoreState {
+  // ============================
+  // Screen CRUD Actions
+  // ============================
+  fetchScreens: (params?: GetScreenParams) => Promise<void>;
+  fetchScreen: (id: string) => Promise<void>;
+  createScreen: (data: CreateScreenData) => Promise<{ screen: Screen; accessKey: string } | null>;
+  updateScreen: (id: string, data: UpdateScreenData) => Promise<Screen | null>;
+  deleteScreen: (id: string) => Promise<boolean>;
+  regenerateAccessKey: (id: string) => Promise<string | null>;
+  createPairingCode: (id: string) => Promise<ScreenPairingCode | null>;
+
+  // ============================
+  // Playlist Assignment
+  // ============================
+  assignPlaylist: (screenId: string, playlistId: string, priority?: number) => Promise<void>;
+  removePlaylist: (screenId: string, playlistId: string) => Promise<void>;
+
+  // ============================
+  // Remote Commands
+  // ============================
+  sendCommand: (screenId: string, type: ScreenCommandType, value?: number) => Promise<ScreenCommand | null>;
+  fetchCommands: (screenId: string) => Promise<void>;
+  sendBulkCommand: (
+    targets: ScreenTargets,
+    type: ScreenCommandType,
+    value?: number
+  ) => Promise<BulkScreenCommandResponse['data'] | null>;
+
+  // ============================
+  // Selection
+  // ============================
+  selectScreen: (id: string, selected: boolean) => void;
+  selectAllScreens: (ids: string[], selected: boolean) => void;
+  clearSelection: () => void;
+
+  // ============================
+  // UI State Management
+  // ============================
+  setSelectedScreen: (screen: Screen | null) => void;
+  setFilters: (filters: Partial<ScreenFilters>) => void;
+  clearFilters: () => void;
+  setPage: (page: number) => void;
+
+  // ============================
+  // Utility Actions
+  // ============================
+  clearError: () => void;
+  invalidateCache: () => void;
+  forceRefreshScreens: () => Promise<void>;
+  fetchStats: () => Promise<void>;
+  logActivity: (entry: Omit<ScreenActivityEntry, 'id' | 'timestamp'>) => void;
+
+  // ============================
+  // Real-time Socket Integration
+  // ============================
+  initializeSocket: () => Promise<void>;
+
+  // Real-time event handlers (internal)
+  handleScreenStatusChanged: (event: ScreenStatusEvent) => void;
+  handleScreenHeartbeat: (event: ScreenHeartbeatEvent) => void;
+  handleScreenPlaylistChanged: (event: { screenId: string; playlistId: string | null; changedBy: string; timestamp: string }) => void;
+  handleScreenPaired: (event: ScreenPairedEvent) => void;
+  handleScreenCacheUpdated: (event: ScreenCacheUpdatedEvent) => void;
+  handleScreenPlaybackProgress: (event: ScreenPlaybackState) => void;
+  handleScreenCommandUpdated: (event: ScreenCommandUpdatedEvent) => void;
+}
+
+// ============================
+// Default Values
+// ============================
+
+const defaultFilters: ScreenFilters = {
+  search: '',
+  sortBy: 'name',
+  sortOrder: 'asc',
+};
+
+const defaultPagination: ScreenPagination = {
+  page: 1,
+  limit: 50,
+  totalCount: 0,
+  totalPages: 0,
+  hasNext: false,
+  hasPrev: false,
+};
+
+const defaultStatistics: ScreenStatistics = {
+  totalScreens: 0,
+  onlineScreens: 0,
+  offlineScreens: 0,
+  errorScreens: 0,
+  totalUptime: 0,
+  avgPlaylistChanges: 0,
+};
+
+// Configuration
+const CACHE_TIMEOUT = 60 * 1000; // 1 minute - screen status changes often
+const MAX_ACTIVITY_ENTRIES = 100;
+const MAX_COMMANDS_PER_SCREEN = 10;
+
+/**
+ * Replace a screen in a list by ID, leaving other entries untouched
+ */
+const replaceScreen = (screens: Screen[], updated: Screen): Screen[] =>
+  screens.map((screen) => (screen.id === updated.id ? { ...screen, ...updated } : screen));
+
+/**
+ * Insert or replace a command in a screen's command list. A result can arrive
+ * over the socket before the issuing request returns, so an answered command
+ * is never replaced by its pending copy
+ */
+const upsertCommand = (commands: ScreenCommand[] = [], command: ScreenCommand): ScreenCommand[] => {
+  const existing = commands.find((entry) => entry._id === command._id);
+  const latest = existing && existing.status !== 'pending' && command.status === 'pending' ? existing : command;
+
+  return [latest, ...commands.filter((entry) => entry._id !== command._id)]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, MAX_COMMANDS_PER_SCREEN);
+};
+
+/**
+ * Reflect a volume or brightness command in the screen's saved settings
+ */
+const applyCommandSetting = (screen: Screen, command: ScreenCommand): Screen => {
+  const value = command.params?.value;
+  if (screen.id !== command.screen || value === undefined) return screen;
+
+  if (command.type === 'set-volume') {
+    return { ...screen, settings: { ...screen.settings, volume: value } };
+  }
+  if (command.type === 'set-brightness') {
+    return { ...screen, display: { ...screen.display, brightness: value } };
+  }
+  return screen;
+};
+
+/**
+ * Match a socket event's screen identifier against either the database ID
+ * or the human-readable device ID
+ */
+const matchesScreen = (screen: Screen, identifier: string): boolean =>
+  screen.id === identifier || screen.screenId === identifier;
+
+// ============================
+// Store Implementation
+// ============================
+
+export const useScreenStore = create<ScreenStore>()(
+  devtools(
+    subscribeWithSelector((set, get) => ({
+      // Initial State
+      screens: [],
+      selectedScreen: null,
+      loading: false,
+      error: null,
+      operationLoading: {},
+      filters: defaultFilters,
+      pagination: defaultPagination,
+      selectedScreenIds: new Set(),
+      lastFetch: 0,
+      cacheTimeout: CACHE_TIMEOUT,
+      statistics: defaultStatistics,
+      playback: {},
+      activity: [],
+      commands: {},
+      socketInitialized: false,
+
+      // ============================
+      // Screen CRUD Actions
+      // ============================
+
+      fetchScreens: async (params = {}) => {
+        const state = get();
+
+        // Check cache validity
+        if (state.lastFetch && Date.now() - state.lastFetch < state.cacheTimeout && Object.keys(params).length === 0) {
+          return;
+        }
+
+        set({ loading: true, error: null });
+
+        try {
+          const mergedParams: GetScreenParams = {
+            ...state.filters,
+            page: state.pagination.page,
+            limit: state.pagination.limit,
+            ...params,
+          };
+
+          const response = await getScreens(mergedParams);
+
+          set({
+            screens: response.data.screens,
+            pagination: response.data.pagination,
+            statistics: response.data.statistics || defaultStatistics,
+            loading: false,
+            lastFetch: Date.now(),
+            error: null,
+          });
+        } catch (error) {
+          const errorMessage = isScreenApiError(error)
+            ? getScreenErrorMessage(error)
+            : 'Failed to fetch screens';
+
+          set({
+            loading: false,
+            error: errorMessage,
+          });
+
+          console.error('Failed to fetch screens:', error);
+        }
+      },
+
+      fetchScreen: async (id) => {
+        set((state) => ({
+          operationLoading: { ...state.operationLoading, [`fetch_${id}`]: true },
+          error: null,
+        }));
+
+        try {
+          const screen = await getScreen(id);
+
+          set((state) => ({
+            selectedScreen: screen,
+            screens: replaceScreen(state.screens, screen),
+            operationLoading: { ...state.operationLoading, [`fetch_${id}`]: false },
+          }));
+        } catch (error) {
+          const errorMessage = isScreenApiError(error)
+            ? getScreenErrorMessage(error)
+            : 'Failed to fetch screen';
+
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [`fetch_${id}`]: false },
+            error: errorMessage,
+          }));
+
+          console.error('Failed to fetch screen:', error);
+        }
+      },
+
+      createScreen: async (data) => {
+        set({ loading: true, error: null });
+
+        try {
+          const result = await createScreenAPI(data);
+
+          set((state) => ({
+            screens: [result.screen, ...state.screens],
+            statistics: {
+              ...state.statistics,
+              totalScreens: state.statistics.totalScreens + 1,
+              offlineScreens: state.statistics.offlineScreens + 1,
+            },
+            loading: false,
+          }));
+
+          return result;
+        } catch (error) {
+          const errorMessage = isScreenApiError(error)
+            ? getScreenErrorMessage(error)
+            : 'Failed to create screen';
+
+          set({
+            loading: false,
+            error: errorMessage,
+          });
+
+          console.error('Failed to create screen:', error);
+          return null;
+        }
+      },
+
+      updateScreen: async (id, data) => {
+        set((state) => ({
+          operationLoading: { ...state.operationLoading, [`update_${id}`]: true },
+          error: null,
+        }));
+
+        try {
+          const updatedScreen = await updateScreenAPI(id, data);
+
+          set((state) => ({
+            screens: replaceScreen(state.screens, updatedScreen),
+            selectedScreen: state.selectedScreen?.id === id
+              ? { ...state.selectedScreen, ...updatedScreen }
+              : state.selectedScreen,
+            operationLoading: { ...state.operationLoading, [`update_${id}`]: false },
+          }));
+
+          return updatedScreen;
+        } catch (error) {
+          const errorMessage = isScreenApiError(error)
+            ? getScreenErrorMessage(error)
+            : 'Failed to update screen';
+
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [`update_${id}`]: false },
+            error: errorMessage,
+          }));
+
+          console.error('Failed to update screen:', error);
+          return null;
+        }
+      },
+
+      deleteScreen: async (id) => {
+        const originalScreens = get().screens;
+
+        // Optimistic removal
+        set((state) => {
+          const selectedScreenIds = new Set(state.selectedScreenIds);
+          selectedScreenIds.delete(id);
+
+          return {
+            screens: state.screens.filter((screen) => screen.id !== id),
+            selectedScreen: state.selectedScreen?.id === id ? null : state.selectedScreen,
+            selectedScreenIds,
+            operationLoading: { ...state.operationLoading, [`delete_${id}`]: true },
+            error: null,
+          };
+        });
+
+        try {
+          await deleteScreenAPI(id);
+
+          set((state) => ({
+            statistics: {
+              ...state.statistics,
+              totalScreens: Math.max(0, state.statistics.totalScreens - 1),
+            },
+            operationLoading: { ...state.operationLoading, [`delete_${id}`]: false },
+          }));
+
+          return true;
+        } catch (error) {
+          const errorMessage = isScreenApiError(error)
+            ? getScreenErrorMessage(error)
+            : 'Failed to delete screen';
+
+          // Rollback optimistic removal
+          set((state) => ({
+            screens: originalScreens,
+            operationLoading: { ...state.operationLoading, [`delete_${id}`]: false },
+            error: errorMessage,
+          }));
+
+          console.error('Failed to delete screen:', error);
+          return false;
+        }
+      },
+
+      regenerateAccessKey: async (id) => {
+        set((state) => ({
+          operationLoading: { ...state.operationLoading, [`accessKey_${id}`]: true },
+          error: null,
+        }));
+
+        try {
+          const accessKey = await regenerateAccessKeyAPI(id);
+
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [`accessKey_${id}`]: false },
+          }));
+
+          return accessKey;
+        } catch (error) {
+          const errorMessage = isScreenApiError(error)
+            ? getScreenErrorMessage(error)
+            : 'Failed to regenerate access key';
+
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [`accessKey_${id}`]: false },
+            error: errorMessage,
+          }));
+
+          console.error('Failed to regenerate access key:', error);
+          return null;
+        }
+      },
+
+      createPairingCode: async (id) => {
+        set((state) => ({
+          operationLoading: { ...state.operationLoading, [`pairing_${id}`]: true },
+          error: null,
+        }));
+
+        try {
+          const pairingCode = await createPairingCodeAPI(id);
+
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [`pairing_${id}`]: false },
+          }));
+
+          return pairingCode;
+        } catch (error) {
+          const errorMessage = isScreenApiError(error)
+            ? getScreenErrorMessage(error)
+            : 'Failed to generate pairing code';
+
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [`pairing_${id}`]: false },
+            error: errorMessage,
+          }));
+
+          console.error('Failed to create pairing code:', error);
+          return null;
+        }
+      },
+
+      // ============================
+      // Playlist Assignment
+      // ============================
+
+      assignPlaylist: async (screenId, playlistId, priority = 1) => {
+        set((state) => ({
+          operationLoading: { ...state.operationLoading, [`assign_${screenId}`]: true },
+          error: null,
+        }));
+
+        try {
+          const updatedScreen = await assignPlaylistToScreenAPI(screenId, playlistId, priority);
+
+          set((state) => ({
+            screens: replaceScreen(state.screens, updatedScreen),
+            selectedScreen: state.selectedScreen?.id === screenId ? updatedScreen : state.selectedScreen,
+            operationLoading: { ...state.operationLoading, [`assign_${screenId}`]: false },
+          }));
+        } catch (error) {
+          const errorMessage = isScreenApiError(error)
+            ? getScreenErrorMessage(error)
+            : 'Failed to assign playlist';
+
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [`assign_${screenId}`]: false },
+            error: errorMessage,
+          }));
+
+          console.error('Failed to assign playlist to screen:', error);
+        }
+      },
+
+      removePlaylist: async (screenId, playlistId) => {
+        set((state) => ({
+          operationLoading: { ...state.operationLoading, [`assign_${screenId}`]: true },
+          error: null,
+        }));
+
+        try {
+          const updatedScreen = await removePlaylistFromScreenAPI(screenId, playlistId);
+
+          set((state) => ({
+            screens: replaceScreen(state.screens, updatedScreen),
+            selectedScreen: state.selectedScreen?.id === screenId ? updatedScreen : state.selectedScreen,
+            operationLoading: { ...state.operationLoading, [`assign_${screenId}`]: false },
+          }));
+        } catch (error) {
+          const errorMessage = isScreenApiError(error)
+            ? getScreenErrorMessage(error)
+            : 'Failed to remove playlist';
+
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [`assign_${screenId}`]: false },
+            error: errorMessage,
+          }));
+
+          console.error('Failed to remove playlist from screen:', error);
+        }
+      },
+
+      // ============================
+      // Remote Commands
+      // ============================
+
+      sendCommand: async (screenId, type, value) => {
+        const operationKey = `command_${screenId}_${type}`;
+        set((state) => ({
+          operationLoading: { ...state.operationLoading, [operationKey]: true },
+          error: null,
+        }));
+
+        try {
+          const { command, screen } = await sendScreenCommand(screenId, type, value);
+
+          set((state) => ({
+            commands: { ...state.commands, [screenId]: upsertCommand(state.commands[screenId], command) },
+            screens: screen ? replaceScreen(state.screens, screen) : state.screens,
+            selectedScreen: screen && state.selectedScreen?.id === screenId ? screen : state.selectedScreen,
+            operationLoading: { ...state.operationLoading, [operationKey]: false },
+          }));
+
+          return command;
+        } catch (error) {
+          const errorMessage = isScreenApiError(error)
+            ? getScreenErrorMessage(error)
+            : 'Failed to send command';
+
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [operationKey]: false },
+            error: errorMessage,
+          }));
+
+          console.error('Failed to send screen command:', error);
+          return null;
+        }
+      },
+
+      sendBulkCommand: async (targets, type, value) => {
+        const operationKey = `bulk_command_${type}`;
+        set((state) => ({
+          operationLoading: { ...state.operationLoading, [operationKey]: true },
+          error: null,
+        }));
+
+        try {
+          const result = await sendBulkScreenCommand(targets, type, value);
+
+          set((state) => {
+            const commands = { ...state.commands };
+            let screens = state.screens;
+
+            result.commands.forEach((command) => {
+              commands[command.screen] = upsertCommand(commands[command.screen], command);
+              screens = screens.map((screen) => applyCommandSetting(screen, command));
+            });
+
+            return {
+              commands,
+              screens,
+              operationLoading: { ...state.operationLoading, [operationKey]: false },
+            };
+          });
+
+          return result;
+        } catch (error) {
+          const errorMessage = isScreenApiError(error)
+            ? getScreenErrorMessage(error)
+            : 'Failed to send command';
+
+          set((state) => ({
+            operationLoading: { ...state.operationLoading, [operationKey]: false },
+            error: errorMessage,
+          }));
+
+          console.error('Failed to send bulk screen command:', error);
+          return null;
+        }
+      },
+
+      fetchCommands: async (screenId) => {
+        try {
+          const commands = await getScreenCommands(screenId, MAX_COMMANDS_PER_SCREEN);
+          set((state) => ({ commands: { ...state.commands, [screenId]: commands } }));
+        } catch (error) {
+          console.error('Failed to fetch screen commands:', error);
+        }
+      },
+
+      // ============================
+      // Selection
+      // ============================
+
+      selectScreen: (id, selected) => {
+        set((state) => {
+          const selectedScreenIds = new Set(state.selectedScreenIds);
+          if (selected) {
+            selectedScreenIds.add(id);
+          } else {
+            selectedScreenIds.delete(id);
+          }
+          return { selectedScreenIds };
+        });
+      },
+
+      selectAllScreens: (ids, selected) => {
+        set({ selectedScreenIds: selected ? new Set(ids) : new Set() });
+      },
+
+      clearSelection: () => {
+        set({ selectedScreenIds: new Set() });
+      },
+
+      // ============================
+      // UI State Management
+      // ============================
+
+      setSelectedScreen: (screen) => {
+        set({ selectedScreen: screen });
+      },
+
+      setFilters: (newFilters) => {
+        set((state) => ({
+          filters: { ...state.filters, ...newFilters },
+          pagination: { ...state.pagination, page: 1 },
+          lastFetch: 0, // Invalidate cache so the next fetch applies the filters
+        }));
+        get().fetchScreens();
+      },
+
+      clearFilters: () => {
+        set((state) => ({
+          filters: defaultFilters,
+          pagination: { ...state.pagination, page: 1 },
+          lastFetch: 0,
+        }));
+        get().fetchScreens();
+      },
+
+      setPage: (page) => {
+        set((state) => ({
+          pagination: { ...state.pagination, page },
+          lastFetch: 0,
+        }));
+        get().fetchScreens();
+      },
+
+      // ============================
+      // Utility Actions
+      // ============================
+
+      clearError: () => {
+        set({ error: null });
+      },
+
+      invalidateCache: () => {
+        set({ lastFetch: 0 });
+      },
+
+      forceRefreshScreens: async () => {
+        set({ lastFetch: 0 });
+        await get().fetchScreens();
+      },
+
+      fetchStats: async () => {
+        try {
+          const statistics = await getScreenStats();
+          set({ statistics });
+        } catch (error) {
+          console.error('Failed to fetch screen statistics:', error);
+        }
+      },
+
+      logActivity: (entry) => {
+        const timestamp = new Date().toISOString();
+
+        set((state) => ({
+          activity: [
+            { ...entry, id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`, timestamp },
+            ...state.activity,
+          ].slice(0, MAX_ACTIVITY_ENTRIES),
+        }));
+      },
+
+      // ============================
+      // Real-time Socket Integration
+      // ============================
+
+      initializeSocket: async () => {
+        const state = get();
+        if (state.socketInitialized) {
+          return;
+        }
+
+        try {
+          await socketService.connect();
+
+          // Only set up event listeners if successfully connected
+          if (socketService.isConnected()) {
+            socketService.on('screen:status:changed', get().handleScreenStatusChanged);
+            socketService.on('screen:heartbeat', get().handleScreenHeartbeat);
+            socketService.on('screen:playlist:changed', get().handleScreenPlaylistChanged);
+            socketService.on('screen:paired', get().handleScreenPaired);
+            socketService.on('screen:cache:updated', get().handleScreenCacheUpdated);
+            socketService.on('screen:playback:progress', get().handleScreenPlaybackProgress);
+            socketService.on('screen:command:updated', get().handleScreenCommandUpdated);
+
+            // Catch up on items that started before this page was opened
+            const playback = await socketService.requestPlaybackSync();
+            set({
+              playback: Object.fromEntries(playback.map((state) => [state.screenId, state])),
+            });
+
+            console.log('Socket initialized for screen store');
+          } else {
+            console.log('Socket connection skipped - no authentication token');
+          }
+
+          set({ socketInitialized: true });
+        } catch (error) {
+          console.error('Failed to initialize socket:', error);
+          set({ socketInitialized: true }); // Still mark as initialized to prevent retries
+        }
+      },
+
+      handleScreenStatusChanged: (event) => {
+        const { screenId, status } = event;
+
+        const screen = get().screens.find((s) => matchesScreen(s, screenId));
+        if (screen && screen.status !== status) {
+          get().logActivity({
+            type: status === 'online' ? 'success' : status === 'offline' || status === 'error' ? 'error' : 'info',
+            message: event.message
+              ? `${screen.name} is ${status}: ${event.message}`
+              : `${screen.name} is ${status}`,
+            screenId: screen.screenId,
+          });
+        }
+
+        // A screen that dropped off is no longer playing anything
+        if (status !== 'online') {
+          set((state) => {
+            const playback = { ...state.playback };
+            delete playback[screen?.id ?? screenId];
+            return { playback };
+          });
+        }
+
+        // Offline events carry the last heartbeat time, not when the change was noticed
+        const lastSeen = event.lastSeen || event.timestamp;
+
+        set((state) => ({
+          screens: state.screens.map((screen) =>
+            matchesScreen(screen, screenId)
+              ? { ...screen, status, lastSeen: lastSeen || screen.lastSeen }
+              : screen
+          ),
+          selectedScreen: state.selectedScreen && matchesScreen(state.selectedScreen, screenId)
+            ? { ...state.selectedScreen, status, lastSeen: lastSeen || state.selectedScreen.lastSeen }
+            : state.selectedScreen,
+        }));
+      },
+
+      handleScreenHeartbeat: (event) => {
+        const applyHeartbeat = (screen: Screen): Screen => ({
+          ...screen,
+          lastSeen: event.lastSeen,
+          performance: event.performance || screen.performance,
+          network: event.network || screen.network,
+        });
+
+        set((state) => ({
+          screens: state.screens.map((screen) =>
+            matchesScreen(screen, event.screenId) ? applyHeartbeat(screen) : screen
+          ),
+          selectedScreen: state.selectedScreen && matchesScreen(state.selectedScreen, event.screenId)
+            ? applyHeartbeat(state.selectedScreen)
+            : state.selectedScreen,
+        }));
+      },
+
+      handleScreenPlaylistChanged: (event) => {
+        const { screenId } = event;
+
+        // The event only carries the playlist ID, so refetch to get the populated reference
+        const screen = get().screens.find((s) => matchesScreen(s, screenId));
+        if (screen) {
+          get().fetchScreen(screen.id);
+        }
+      },
+
+      handleScreenPaired: (event) => {
+        const applyPairing = (screen: Screen): Screen => ({
+          ...screen,
+          status: 'connecting',
+          device: event.device || screen.device,
+          pairing: { pairedAt: event.pairedAt },
+          lastSeen: event.timestamp,
+        });
+
+        set((state) => ({
+          screens: state.screens.map((screen) => (screen.id === event.id ? applyPairing(screen) : screen)),
+          selectedScreen: state.selectedScreen?.id === event.id
+            ? applyPairing(state.selectedScreen)
+            : state.selectedScreen,
+        }));
+      },
+
+      handleScreenPlaybackProgress: (event) => {
+        set((state) => ({
+          playback: { ...state.playback, [event.screenId]: event },
+        }));
+      },
+
+      handleScreenCommandUpdated: ({ command }) => {
+        set((state) => ({
+          commands: { ...state.commands, [command.screen]: upsertCommand(state.commands[command.screen], command) },
+          screens: state.screens.map((screen) => applyCommandSetting(screen, command)),
+          selectedScreen: state.selectedScreen ? applyCommandSetting(state.selectedScreen, command) : null,
+        }));
+      },
+
+      handleScreenCacheUpdated: (event) => {
+        set((state) => ({
+          screens: state.screens.map((screen) =>
+            screen.id === event.id ? { ...screen, cache: event.cache } : screen
+          ),
+          selectedScreen: state.selectedScreen?.id === event.id
+            ? { ...state.selectedScreen, cache: event.cache }
+            : state.selectedScreen,
+        }));
+      },
+    })),
+    {
+      name: 'screen-store',
+      partialize: (state: ScreenStore) => ({
+        // Persist only essential data
+        filters: state.filters,
+        pagination: { ...state.pagination, page: 1 }, // Reset page on reload
+      }),
+    }
+  )
+);
+
+// ============================
+// Selectors for Optimized Re-renders
+// ============================
+
+export const useScreens = () => useScreenStore((state) => state.screens);
+export const useSelectedScreen = () => useScreenStore((state) => state.selectedScreen);
+export const useScreenLoading = () => useScreenStore((state) => state.loading);
+export const useScreenError = () => useScreenStore((state) => state.error);
+export const useScreenFilters = () => useScreenStore((state) => state.filters);
+export const useScreenPagination = () => useScreenStore((state) => state.pagination);
+export const useScreenStatistics = () => useScreenStore((state) => state.statistics);
+export const useScreenPlayback = () => useScreenStore((state) => state.playback);
+export const useScreenActivity = () => useScreenStore((state) => state.activity);
+export const useScreenCommands = () => useScreenStore((state) => state.commands);
+export const useSelectedScreenIds = () => useScreenStore((state) => state.selectedScreenIds);
+
+// Individual action selectors
+export const useFetchScreens = () => useScreenStore((state) => state.fetchScreens);
+export const useCreateScreen = () => useScreenStore((state) => state.createScreen);
+export const useUpdateScreen = () => useScreenStore((state) => state.updateScreen);
+export const useDeleteScreen = () => useScreenStore((state) => state.deleteScreen);
+export const useForceRefreshScreens = () => useScreenStore((state) => state.forceRefreshScreens);
+
+// Combined actions hook for convenience
+const STABLE_SCREEN_ACTIONS = {} as Pick<
+  ScreenStore,
+  | 'fetchScreens'
+  | 'createScreen'
+  | 'updateScreen'
+  | 'deleteScreen'
+  | 'regenerateAccessKey'
+  | 'createPairingCode'
+  | 'setFilters'
+  | 'clearError'
+  | 'forceRefreshScreens'
+  | 'initializeSocket'
+  | 'logActivity'
+  | 'sendCommand'
+  | 'fetchCommands'
+  | 'sendBulkCommand'
+>;
+
+export const useScreenActions = () => {
+  return useScreenStore((state) => {
+    // Only update if any action function has actually changed
+    if (
+      STABLE_SCREEN_ACTIONS.fetchScreens !== state.fetchScreens ||
+      STABLE_SCREEN_ACTIONS.createScreen !== state.createScreen ||
+      STABLE_SCREEN_ACTIONS.updateScreen !== state.updateScreen ||
+      STABLE_SCREEN_ACTIONS.deleteScreen !== state.deleteScreen ||
+      STABLE_SCREEN_ACTIONS.regenerateAccessKey !== state.regenerateAccessKey ||
+      STABLE_SCREEN_ACTIONS.createPairingCode !== state.createPairingCode ||
+      STABLE_SCREEN_ACTIONS.setFilters !== state.setFilters ||
+      STABLE_SCREEN_ACTIONS.clearError !== state.clearError ||
+      STABLE_SCREEN_ACTIONS.forceRefreshScreens !== state.forceRefreshScreens ||
+      STABLE_SCREEN_ACTIONS.initializeSocket !== state.initializeSocket ||
+      STABLE_SCREEN_ACTIONS.logActivity !== state.logActivity ||
+      STABLE_SCREEN_ACTIONS.sendCommand !== state.sendCommand ||
+      STABLE_SCREEN_ACTIONS.fetchCommands !== state.fetchCommands ||
+      STABLE_SCREEN_ACTIONS.sendBulkCommand !== state.sendBulkCommand
+    ) {
+      STABLE_SCREEN_ACTIONS.fetchScreens = state.fetchScreens;
+      STABLE_SCREEN_ACTIONS.createScreen = state.createScreen;
+      STABLE_SCREEN_ACTIONS.updateScreen = state.updateScreen;
+      STABLE_SCREEN_ACTIONS.deleteScreen = state.deleteScreen;
+      STABLE_SCREEN_ACTIONS.regenerateAccessKey = state.regenerateAccessKey;
+      STABLE_SCREEN_ACTIONS.createPairingCode = state.createPairingCode;
+      STABLE_SCREEN_ACTIONS.setFilters = state.setFilters;
+      STABLE_SCREEN_ACTIONS.clearError = state.clearError;
+      STABLE_SCREEN_ACTIONS.forceRefreshScreens = state.forceRefreshScreens;
+      STABLE_SCREEN_ACTIONS.initializeSocket = state.initializeSocket;
+      STABLE_SCREEN_ACTIONS.logActivity = state.logActivity;
+      STABLE_SCREEN_ACTIONS.sendCommand = state.sendCommand;
+      STABLE_SCREEN_ACTIONS.fetchCommands = state.fetchCommands;
+      STABLE_SCREEN_ACTIONS.sendBulkCommand = state.sendBulkCommand;
+    }
+    return STABLE_SCREEN_ACTIONS;
+  });
+};
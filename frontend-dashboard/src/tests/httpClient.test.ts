@@ -0,0 +1,272 @@
+/**
+ * HTTP Client Tests
+ *
+ * Test suite for the token handling every API service shares:
+ * - Requests answered with 401 are replayed once after a refresh
+ * - Concurrent 401s share a single refresh request
+ * - Tokens about to expire are refreshed before the request is sent
+ * - A rejected refresh ends the session
+ * - A refresh that fails for other reasons keeps it and fails the request
+ * - Requests name the active organization until the session ends
+ */
+
+import {
+  fetchWithRetry,
+  getAccessToken,
+  setAuthTokens,
+  clearAuthTokens,
+  onAuthTokenChange,
+  onSessionExpired,
+  getActiveOrganizationId,
+  setActiveOrganizationId,
+  onActiveOrganizationChange,
+} from '../services/httpClient';
+
+// ============================
+// Mock Environment
+// ============================
+
+const storage = new Map<string, string>();
+
+(globalThis as unknown as { localStorage: Storage }).localStorage = {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); },
+  clear: () => storage.clear(),
+  key: () => null,
+  length: 0,
+};
+
+interface MockServer {
+  validToken: string;
+  refreshes: number;
+  rejectRefresh: boolean;
+  failRefresh: 'network' | 'server' | null;
+  sentTokens: string[];
+  sentOrganizations: Array<string | null>;
+}
+
+const server: MockServer = {
+  validToken: '',
+  refreshes: 0,
+  rejectRefresh: false,
+  failRefresh: null,
+  sentTokens: [],
+  sentOrganizations: [],
+};
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+globalThis.fetch = (async (input: string | URL | Request, init: RequestInit = {}) => {
+  const url = String(input);
+
+  if (url.endsWith('/auth/refresh-token')) {
+    server.refreshes++;
+    await new Promise(resolve => setTimeout(resolve, 10));
+    if (server.rejectRefresh) return jsonResponse(401, { success: false });
+    if (server.failRefresh === 'network') throw new TypeError('fetch failed');
+    if (server.failRefresh === 'server') return new Response('<html>Service unavailable</html>', { status: 503 });
+
+    server.validToken = `access-${server.refreshes}`;
+    return jsonResponse(200, {
+      success: true,
+      data: {
+        tokens: {
+          accessToken: server.validToken,
+          refreshToken: `refresh-${server.refreshes}`,
+          accessTokenExpiresAt: new Date(Date.now() + 15 * 60000).toISOString(),
+        },
+      },
+    });
+  }
+
+  const headers = init.headers as Record<string, string>;
+  const token = String(headers.Authorization).replace('Bearer ', '');
+  server.sentTokens.push(token);
+  server.sentOrganizations.push(headers['X-Organization-Id'] ?? null);
+  return token === server.validToken
+    ? jsonResponse(200, { success: true })
+    : jsonResponse(401, { success: false });
+}) as typeof fetch;
+
+function resetSession(expiresInMs: number): void {
+  server.refreshes = 0;
+  server.rejectRefresh = false;
+  server.failRefresh = null;
+  server.sentTokens = [];
+  server.sentOrganizations = [];
+  server.validToken = 'access-0';
+  setAuthTokens({
+    accessToken: 'access-0',
+    refreshToken: 'refresh-0',
+    accessTokenExpiresAt: new Date(Date.now() + expiresInMs).toISOString(),
+  });
+}
+
+function expectEqual<T>(actual: T, expected: T, description: string): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`${description}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+// ============================
+// Test Suite
+// ============================
+
+export async function runHttpClientTests(): Promise<void> {
+  console.log('🧪 Starting HTTP Client Tests...');
+
+  try {
+    await testReplayAfter401();
+    await testSharedRefresh();
+    await testProactiveRefresh();
+    await testSessionExpiry();
+    await testRefreshFailure();
+    await testActiveOrganization();
+
+    console.log('✅ All HTTP Client tests passed!');
+  } catch (error) {
+    console.error('❌ HTTP Client tests failed:', error);
+    throw error;
+  } finally {
+    clearAuthTokens();
+  }
+}
+
+async function testReplayAfter401(): Promise<void> {
+  console.log('Testing 401 replay...');
+
+  resetSession(15 * 60000);
+  server.validToken = 'revoked';
+
+  const seen: Array<string | null> = [];
+  const unsubscribe = onAuthTokenChange(token => seen.push(token));
+  const response = await fetchWithRetry('http://api.test/playlists');
+  unsubscribe();
+
+  expectEqual(response.status, 200, 'Replayed response');
+  expectEqual(server.sentTokens, ['access-0', 'access-1'], 'Tokens sent');
+  expectEqual(getAccessToken(), 'access-1', 'Stored token');
+  expectEqual(seen, ['access-1'], 'Token listeners');
+
+  console.log('✓ 401 replay tests passed');
+}
+
+async function testSharedRefresh(): Promise<void> {
+  console.log('Testing shared refresh...');
+
+  resetSession(15 * 60000);
+  server.validToken = 'revoked';
+
+  const responses = await Promise.all([
+    fetchWithRetry('http://api.test/media'),
+    fetchWithRetry('http://api.test/screens'),
+    fetchWithRetry('http://api.test/playlists'),
+  ]);
+
+  expectEqual(responses.map(response => response.status), [200, 200, 200], 'Replayed responses');
+  expectEqual(server.refreshes, 1, 'Refresh requests');
+
+  console.log('✓ Shared refresh tests passed');
+}
+
+async function testProactiveRefresh(): Promise<void> {
+  console.log('Testing refresh before expiry...');
+
+  resetSession(30000);
+
+  const response = await fetchWithRetry('http://api.test/playlists');
+
+  expectEqual(response.status, 200, 'Response');
+  expectEqual(server.refreshes, 1, 'Refresh requests');
+  expectEqual(server.sentTokens, ['access-1'], 'Only the refreshed token is sent');
+
+  console.log('✓ Refresh before expiry tests passed');
+}
+
+async function testSessionExpiry(): Promise<void> {
+  console.log('Testing session expiry...');
+
+  resetSession(15 * 60000);
+  server.validToken = 'revoked';
+  server.rejectRefresh = true;
+
+  let expired = 0;
+  const unsubscribe = onSessionExpired(() => expired++);
+  const response = await fetchWithRetry('http://api.test/playlists');
+  unsubscribe();
+
+  expectEqual(response.status, 401, 'Original response');
+  expectEqual(expired, 1, 'Session listeners');
+  expectEqual(getAccessToken(), null, 'Stored token');
+
+  let error: unknown;
+  try {
+    await fetchWithRetry('http://api.test/playlists');
+  } catch (caught) {
+    error = caught;
+  }
+  expectEqual((error as { status?: number })?.status, 401, 'Requests after the session ended');
+
+  console.log('✓ Session expiry tests passed');
+}
+
+async function testRefreshFailure(): Promise<void> {
+  console.log('Testing refresh failures...');
+
+  for (const failure of ['server', 'network'] as const) {
+    resetSession(15 * 60000);
+    server.validToken = 'revoked';
+    server.failRefresh = failure;
+
+    let expired = 0;
+    const unsubscribe = onSessionExpired(() => expired++);
+    let error: unknown;
+    try {
+      await fetchWithRetry('http://api.test/playlists');
+    } catch (caught) {
+      error = caught;
+    }
+    unsubscribe();
+
+    expectEqual(error instanceof Error, true, `Request after a ${failure} failure`);
+    expectEqual(expired, 0, `Session listeners after a ${failure} failure`);
+    expectEqual(getAccessToken(), 'access-0', `Stored token after a ${failure} failure`);
+  }
+
+  // The next attempt refreshes once the server answers again
+  server.failRefresh = null;
+  const response = await fetchWithRetry('http://api.test/playlists');
+  expectEqual(response.status, 200, 'Request after recovery');
+
+  console.log('✓ Refresh failure tests passed');
+}
+
+async function testActiveOrganization(): Promise<void> {
+  console.log('Testing active organization...');
+
+  resetSession(15 * 60000);
+
+  const seen: Array<string | null> = [];
+  const unsubscribe = onActiveOrganizationChange(id => seen.push(id));
+
+  await fetchWithRetry('http://api.test/media');
+  setActiveOrganizationId('org-1');
+  setActiveOrganizationId('org-1');
+  await fetchWithRetry('http://api.test/media');
+  unsubscribe();
+
+  expectEqual(server.sentOrganizations, [null, 'org-1'], 'Organization headers');
+  expectEqual(seen, ['org-1'], 'Organization listeners only hear changes');
+
+  clearAuthTokens();
+  expectEqual(getActiveOrganizationId(), null, 'Organization after signing out');
+
+  console.log('✓ Active organization tests passed');
+}
+
+export default {
+  runHttpClientTests,
+};
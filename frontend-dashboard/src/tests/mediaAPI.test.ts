@@ -12,6 +12,7 @@ import {
   getMedia,
   uploadMedia,
   updateMedia,
+  getMediaUsage,
   deleteMedia,
   getDownloadUrl,
   getMediaStats,
@@ -38,7 +39,8 @@ const mockMediaItem: MediaItem = {
   _id: '64f8a1b2c3d4e5f6a7b8c9d0',
   originalName: 'test-image.jpg',
   filename: '64f8a1b2c3d4e5f6a7b8c9d0_1694123456789_a1b2c3d4_test-image.jpg',
-  cloudinaryId: 'advertisements/64f8a1b2c3d4e5f6a7b8c9d0/images/1694123456789_test-image',
+  storageKey: 'advertisements/64f8a1b2c3d4e5f6a7b8c9d0/images/1694123456789_test-image',
+  storageProvider: 'cloudinary',
   url: 'http://res.cloudinary.com/test/image/upload/v1694123456/test-image.jpg',
   secureUrl: 'https://res.cloudinary.com/test/image/upload/v1694123456/test-image.jpg',
   type: 'image',
@@ -112,6 +114,7 @@ const mockStatsResponse: MediaStatsResponse = {
       videos: { count: 5, bytes: 3145728, credits: 31 },
       total: { count: 25, bytes: 15728640, credits: 156 },
     },
+    storageProvider: 'cloudinary',
     limits: {
       maxFileSize: { image: 10485760, video: 52428800 },
       maxFiles: 1000,
@@ -251,7 +254,34 @@ export class MockAPIServer {
       message: 'Media deleted successfully',
       data: {
         id: mockMediaItem._id,
-        cloudinaryId: mockMediaItem.cloudinaryId,
+        storageKey: mockMediaItem.storageKey,
+        strategy: 'block',
+        playlistsUpdated: 0,
+      },
+    });
+
+    // DELETE /api/media/:id?strategy=replace
+    this.mockResponse('DELETE', `http://localhost:5000/api/media/${mockMediaItem._id}?strategy=replace&replacementId=64f8a1b2c3d4e5f6a7b8c9d1`, {
+      success: true,
+      message: 'Media deleted successfully',
+      data: {
+        id: mockMediaItem._id,
+        storageKey: mockMediaItem.storageKey,
+        strategy: 'replace',
+        playlistsUpdated: 1,
+      },
+    });
+
+    // GET /api/media/:id/usage
+    this.mockResponse('GET', `http://localhost:5000/api/media/${mockMediaItem._id}/usage`, {
+      success: true,
+      message: 'Media usage retrieved successfully',
+      data: {
+        mediaId: mockMediaItem._id,
+        inUse: true,
+        otherWorkspacePlaylists: 0,
+        playlists: [{ id: '64f8a1b2c3d4e5f6a7b8c9e0', name: 'Lobby Loop', isActive: true, occurrences: 2 }],
+        screens: [{ id: '64f8a1b2c3d4e5f6a7b8c9f0', name: 'Lobby', location: 'HQ', status: 'online', playingNow: true }],
       },
     });
 
@@ -353,6 +383,7 @@ export async function runMediaAPIIntegrationTests(): Promise<void> {
     await testGetMedia();
     await testUploadMedia();
     await testUpdateMedia();
+    await testMediaUsage();
     await testDeleteMedia();
     await testDownloadMedia();
     await testMediaStats();
@@ -457,6 +488,21 @@ async function testUpdateMedia(): Promise<void> {
   console.log('✓ updateMedia tests passed');
 }
 
+/**
+ * Test media usage lookup
+ */
+async function testMediaUsage(): Promise<void> {
+  console.log('Testing getMediaUsage...');
+  
+  const usage = await getMediaUsage(mockMediaItem._id);
+  
+  if (!usage.inUse || usage.playlists[0]?.occurrences !== 2 || !usage.screens[0]?.playingNow) {
+    throw new Error('Usage lookup failed to return expected result');
+  }
+  
+  console.log('✓ getMediaUsage tests passed');
+}
+
 /**
  * Test media deletion
  */
@@ -469,6 +515,16 @@ async function testDeleteMedia(): Promise<void> {
     throw new Error('Delete failed to return expected result');
   }
   
+  // Replacement is passed as query parameters
+  const replaced = await deleteMedia(mockMediaItem._id, {
+    strategy: 'replace',
+    replacementId: '64f8a1b2c3d4e5f6a7b8c9d1',
+  });
+  
+  if (replaced.data.strategy !== 'replace' || replaced.data.playlistsUpdated !== 1) {
+    throw new Error('Delete with replacement failed to return expected result');
+  }
+  
   console.log('✓ deleteMedia tests passed');
 }
 
@@ -0,0 +1,268 @@
+/**
+ * Playlist Condition Tests
+ *
+ * Test suite for the rules deciding which playlist items may play, shared
+ * by the editor preview and the player:
+ * - Dayparting, date windows and days of the week in the screen's timezone
+ * - Custom conditions against screen attributes and tags
+ * - Weather and data feed conditions, with and without feed values
+ * - Validation and descriptions shown in the editor
+ */
+
+import {
+  evaluateCondition,
+  isItemPlayable,
+  filterPlayableItems,
+  getUnmetConditions,
+  getZonedTime,
+  validateCondition,
+  describeCondition,
+  buildScreenAttributes,
+  type PlaylistConditionContext,
+} from '../services/playlistConditions';
+
+import type { PlaylistCondition } from '../types';
+
+// ============================
+// Mock Data
+// ============================
+
+// Monday 2026-03-02, 09:30 in London (UTC, before the clocks change)
+const mondayMorning = new Date('2026-03-02T09:30:00Z');
+
+const londonContext: PlaylistConditionContext = {
+  now: mondayMorning,
+  timezone: 'Europe/London',
+  attributes: {
+    region: 'North',
+    floor: '2',
+    tags: ['lobby', 'entrance'],
+  },
+};
+
+const breakfastMenu: PlaylistCondition = { type: 'time-range', operator: 'less-than', value: '11:00' };
+
+function at(iso: string, overrides: Partial<PlaylistConditionContext> = {}): PlaylistConditionContext {
+  return { ...londonContext, now: new Date(iso), ...overrides };
+}
+
+function expect(actual: boolean, expected: boolean, description: string): void {
+  if (actual !== expected) {
+    throw new Error(`${description}: expected ${expected}, got ${actual}`);
+  }
+}
+
+// ============================
+// Test Suite
+// ============================
+
+export async function runPlaylistConditionTests(): Promise<void> {
+  console.log('🧪 Starting Playlist Condition Tests...');
+
+  try {
+    await testZonedTime();
+    await testTimeConditions();
+    await testDateConditions();
+    await testDayConditions();
+    await testCustomConditions();
+    await testWeatherConditions();
+    await testDataConditions();
+    await testItemFiltering();
+    await testValidation();
+
+    console.log('✅ All Playlist Condition tests passed!');
+  } catch (error) {
+    console.error('❌ Playlist Condition tests failed:', error);
+    throw error;
+  }
+}
+
+async function testZonedTime(): Promise<void> {
+  console.log('Testing getZonedTime...');
+
+  const tokyo = getZonedTime(new Date('2026-03-01T23:30:00Z'), 'Asia/Tokyo');
+  if (tokyo.dateKey !== '2026-03-02' || tokyo.weekday !== 1 || tokyo.minutes !== 8 * 60 + 30) {
+    throw new Error(`Tokyo time conversion failed: ${JSON.stringify(tokyo)}`);
+  }
+
+  const fallback = getZonedTime(mondayMorning, 'Not/AZone');
+  if (fallback.minutes !== 9 * 60 + 30) {
+    throw new Error('Unknown timezones should fall back to UTC');
+  }
+
+  console.log('✓ getZonedTime tests passed');
+}
+
+async function testTimeConditions(): Promise<void> {
+  console.log('Testing time-of-day conditions...');
+
+  expect(evaluateCondition(breakfastMenu, londonContext), true, 'Breakfast at 09:30');
+  expect(evaluateCondition(breakfastMenu, at('2026-03-02T11:00:00Z')), false, 'Breakfast at 11:00');
+
+  // Summer time: 10:30 UTC is 11:30 in London
+  expect(evaluateCondition(breakfastMenu, at('2026-07-06T10:30:00Z')), false, 'Breakfast during BST');
+
+  const lunch: PlaylistCondition = { type: 'time-range', operator: 'between', value: '11:00, 14:00' };
+  expect(evaluateCondition(lunch, at('2026-03-02T11:00:00Z')), true, 'Lunch starts at 11:00');
+  expect(evaluateCondition(lunch, at('2026-03-02T14:00:00Z')), false, 'Lunch ends before 14:00');
+
+  const lateNight: PlaylistCondition = { type: 'time-range', operator: 'between', value: '22:00,02:00' };
+  expect(evaluateCondition(lateNight, at('2026-03-02T23:15:00Z')), true, 'Late night before midnight');
+  expect(evaluateCondition(lateNight, at('2026-03-02T01:59:00Z')), true, 'Late night after midnight');
+  expect(evaluateCondition(lateNight, at('2026-03-02T12:00:00Z')), false, 'Late night at noon');
+
+  console.log('✓ Time-of-day condition tests passed');
+}
+
+async function testDateConditions(): Promise<void> {
+  console.log('Testing date conditions...');
+
+  const march: PlaylistCondition = { type: 'date-range', operator: 'between', value: '2026-03-01,2026-03-02' };
+  expect(evaluateCondition(march, londonContext), true, 'Last day of window is included');
+  expect(evaluateCondition(march, at('2026-03-03T00:00:00Z')), false, 'Day after window');
+
+  // 23:30 UTC on the 2nd is already the 3rd in Tokyo
+  expect(evaluateCondition(march, at('2026-03-02T23:30:00Z', { timezone: 'Asia/Tokyo' })), false, 'Window read in screen timezone');
+
+  const launch: PlaylistCondition = { type: 'date-range', operator: 'greater-than', value: '2026-03-01' };
+  expect(evaluateCondition(launch, londonContext), true, 'After launch date');
+
+  console.log('✓ Date condition tests passed');
+}
+
+async function testDayConditions(): Promise<void> {
+  console.log('Testing day-of-week conditions...');
+
+  const weekdays: PlaylistCondition = { type: 'day-of-week', operator: 'in', value: 'mon,tue,wed,thu,fri' };
+  expect(evaluateCondition(weekdays, londonContext), true, 'Monday is a weekday');
+  expect(evaluateCondition(weekdays, at('2026-03-01T12:00:00Z')), false, 'Sunday is not a weekday');
+
+  const weekend: PlaylistCondition = { type: 'day-of-week', operator: 'between', value: 'Friday,sun' };
+  expect(evaluateCondition(weekend, at('2026-03-01T12:00:00Z')), true, 'Sunday is in Friday to Sunday');
+  expect(evaluateCondition(weekend, londonContext), false, 'Monday is not in Friday to Sunday');
+
+  const notMonday: PlaylistCondition = { type: 'day-of-week', operator: 'not-equals', value: '1' };
+  expect(evaluateCondition(notMonday, londonContext), false, 'Numeric day');
+
+  console.log('✓ Day-of-week condition tests passed');
+}
+
+async function testCustomConditions(): Promise<void> {
+  console.log('Testing custom conditions...');
+
+  expect(evaluateCondition({ type: 'custom', operator: 'equals', key: 'region', value: 'north' }, londonContext), true, 'Case-insensitive match');
+  expect(evaluateCondition({ type: 'custom', operator: 'in', key: 'region', value: 'south, east' }, londonContext), false, 'Region not listed');
+  expect(evaluateCondition({ type: 'custom', operator: 'greater-than', key: 'floor', value: '1' }, londonContext), true, 'Numeric comparison');
+  expect(evaluateCondition({ type: 'custom', operator: 'equals', key: 'tags', value: 'lobby' }, londonContext), true, 'Any tag matches');
+  expect(evaluateCondition({ type: 'custom', operator: 'not-in', key: 'tags', value: 'lobby,cafe' }, londonContext), false, 'Excluded tag');
+
+  // Screens without the attribute only pass negative conditions
+  expect(evaluateCondition({ type: 'custom', operator: 'equals', key: 'zone', value: 'a' }, londonContext), false, 'Missing attribute equals');
+  expect(evaluateCondition({ type: 'custom', operator: 'not-equals', key: 'zone', value: 'a' }, londonContext), true, 'Missing attribute not-equals');
+
+  const attributes = buildScreenAttributes({
+    screenId: 'SCR-001',
+    name: 'Lobby',
+    location: { name: 'Head office' },
+    tags: ['lobby'],
+    attributes: { region: 'north' },
+  });
+  if (attributes.location !== 'Head office' || attributes.region !== 'north' || attributes.screenId !== 'SCR-001') {
+    throw new Error(`Screen attributes built incorrectly: ${JSON.stringify(attributes)}`);
+  }
+
+  console.log('✓ Custom condition tests passed');
+}
+
+async function testWeatherConditions(): Promise<void> {
+  console.log('Testing weather conditions...');
+
+  const rainy: PlaylistCondition = { type: 'weather', operator: 'equals', value: 'rain' };
+  expect(evaluateCondition(rainy, londonContext), true, 'Unknown weather passes');
+  expect(evaluateCondition(rainy, at(mondayMorning.toISOString(), { weather: 'Rain' })), true, 'Raining');
+  expect(evaluateCondition(rainy, at(mondayMorning.toISOString(), { weather: 'sun' })), false, 'Sunny');
+  expect(evaluateCondition(rainy, at(mondayMorning.toISOString(), { data: { 'weather.condition': 'Rain' } })), true, 'Raining per the weather feed');
+
+  console.log('✓ Weather condition tests passed');
+}
+
+async function testDataConditions(): Promise<void> {
+  console.log('Testing data feed conditions...');
+
+  const longQueue: PlaylistCondition = { type: 'data', operator: 'greater-than', key: 'queue.length', value: '5' };
+  expect(evaluateCondition(longQueue, at(mondayMorning.toISOString(), { data: { 'queue.length': 9 } })), true, 'Long queue');
+  expect(evaluateCondition(longQueue, at(mondayMorning.toISOString(), { data: { 'queue.length': 3 } })), false, 'Short queue');
+  expect(evaluateCondition(longQueue, londonContext), true, 'Unknown feed value passes');
+
+  const inStock: PlaylistCondition = { type: 'data', operator: 'equals', key: 'stock.available', value: 'true' };
+  expect(evaluateCondition(inStock, at(mondayMorning.toISOString(), { data: { 'stock.available': 'true' } })), true, 'In stock');
+
+  if (!validateCondition({ type: 'data', operator: 'equals', value: '5' })) {
+    throw new Error('Data condition without a key should be invalid');
+  }
+
+  const description = describeCondition(longQueue);
+  if (!description.includes('queue.length')) {
+    throw new Error(`Unexpected description: ${description}`);
+  }
+
+  console.log('✓ Data condition tests passed');
+}
+
+async function testItemFiltering(): Promise<void> {
+  console.log('Testing item filtering...');
+
+  const items = [
+    { id: 'breakfast', conditions: [breakfastMenu] },
+    { id: 'always' },
+    { id: 'north-evening', conditions: [
+      { type: 'custom', operator: 'equals', key: 'region', value: 'north' },
+      { type: 'time-range', operator: 'greater-than', value: '17:00' },
+    ] as PlaylistCondition[] },
+  ];
+
+  const playable = filterPlayableItems(items, londonContext).map(item => item.id).join(',');
+  if (playable !== 'breakfast,always') {
+    throw new Error(`Unexpected playable items at 09:30: ${playable}`);
+  }
+
+  expect(isItemPlayable(items[2], at('2026-03-02T18:00:00Z')), true, 'Every condition holds in the evening');
+
+  const unmet = getUnmetConditions(items[2], londonContext);
+  if (unmet.length !== 1 || unmet[0].type !== 'time-range') {
+    throw new Error('Only the time condition should be unmet');
+  }
+
+  // A malformed condition is not enforced, so a typo never blanks a screen
+  expect(isItemPlayable({ conditions: [{ type: 'time-range', operator: 'less-than', value: '25:00' }] }, londonContext), true, 'Malformed condition');
+
+  console.log('✓ Item filtering tests passed');
+}
+
+async function testValidation(): Promise<void> {
+  console.log('Testing validation and descriptions...');
+
+  if (validateCondition(breakfastMenu) !== null) {
+    throw new Error('Valid condition reported as invalid');
+  }
+  if (!validateCondition({ type: 'time-range', operator: 'between', value: '06:00' })) {
+    throw new Error('Between with one value should be invalid');
+  }
+  if (!validateCondition({ type: 'date-range', operator: 'equals', value: '2026-13-01' })) {
+    throw new Error('Invalid month should be rejected');
+  }
+  if (!validateCondition({ type: 'custom', operator: 'equals', value: 'north' })) {
+    throw new Error('Custom condition without a key should be invalid');
+  }
+
+  const description = describeCondition({ type: 'time-range', operator: 'between', value: '06:00,11:00' });
+  if (description !== 'Time of day between 06:00 and 11:00') {
+    throw new Error(`Unexpected description: ${description}`);
+  }
+
+  console.log('✓ Validation and description tests passed');
+}
+
+export default {
+  runPlaylistConditionTests,
+};
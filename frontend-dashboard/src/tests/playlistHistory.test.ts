@@ -0,0 +1,297 @@
+/**
+ * Playlist History Tests
+ *
+ * Test suite for undoing and redoing playlist editor commands against the
+ * playlist as stored now:
+ * - Undo and redo round trips for every command type
+ * - Re-added items getting a new ID, and later commands following it
+ * - Commands whose items others removed are dropped, or skip those items
+ * - Details only reverting fields nobody else changed since
+ */
+
+import {
+  planEditCommand,
+  remapEditCommands,
+  findAddedItemId,
+  createAddItemCommand,
+  createRemoveItemCommand,
+  createReorderCommand,
+  createItemSettingsCommand,
+  createDetailsCommand,
+  PlaylistHistoryError,
+  type PlaylistEditCommand,
+  type PlaylistHistoryDirection,
+} from '../services/playlistHistory';
+import { getItemKey } from '../services/playlistMerge';
+
+import type { Playlist, PlaylistItem, UpdatePlaylistData } from '../types';
+
+// ============================
+// Mock Data
+// ============================
+
+function item(id: string, order: number, overrides: Partial<PlaylistItem> = {}): PlaylistItem {
+  return {
+    id,
+    mediaId: `media-${id}`,
+    playlistId: 'playlist-1',
+    order,
+    createdAt: '2026-03-01T00:00:00Z',
+    updatedAt: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const base = {
+  id: 'playlist-1',
+  name: 'Lobby',
+  description: 'Front desk loop',
+  settings: { loop: true, shuffle: false },
+  items: [item('a', 0), item('b', 1, { duration: 5 }), item('c', 2)],
+  version: 3,
+} as unknown as Playlist;
+
+let createdItems = 0;
+
+/**
+ * Store an update the way PUT /playlists/:id does; items without an ID are created under a new one
+ */
+function save(playlist: Playlist, update: UpdatePlaylistData): Playlist {
+  const items = update.items?.map((entry, order) => item(entry.id || `new-${++createdItems}`, order, {
+    mediaId: entry.mediaId,
+    duration: entry.duration ?? undefined,
+  }));
+
+  return {
+    ...playlist,
+    ...update,
+    settings: { ...playlist.settings, ...update.settings },
+    items: items || playlist.items,
+    version: (playlist.version ?? 0) + 1,
+  } as Playlist;
+}
+
+function step(command: PlaylistEditCommand, playlist: Playlist, direction: PlaylistHistoryDirection): Playlist {
+  return save(playlist, planEditCommand(command, playlist, direction));
+}
+
+function withoutItem(playlist: Playlist, itemId: string): Playlist {
+  return save(playlist, {
+    items: playlist.items.filter(entry => entry.id !== itemId).map(({ id, mediaId, duration }) => ({ id, mediaId: mediaId as string, duration })),
+  });
+}
+
+function itemIds(playlist: Playlist): string[] {
+  return playlist.items.map(getItemKey);
+}
+
+function expectEqual<T>(actual: T, expected: T, description: string): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`${description}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+function expectHistoryError(run: () => unknown, description: string): void {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof PlaylistHistoryError) return;
+    throw error;
+  }
+  throw new Error(`${description}: expected a PlaylistHistoryError`);
+}
+
+// ============================
+// Test Suite
+// ============================
+
+export async function runPlaylistHistoryTests(): Promise<void> {
+  console.log('🧪 Starting Playlist History Tests...');
+
+  try {
+    await testAddItem();
+    await testRemoveItem();
+    await testReorder();
+    await testItemSettings();
+    await testDetails();
+    await testRemoteRemovals();
+    await testRemap();
+
+    console.log('✅ All Playlist History tests passed!');
+  } catch (error) {
+    console.error('❌ Playlist History tests failed:', error);
+    throw error;
+  }
+}
+
+async function testAddItem(): Promise<void> {
+  console.log('Testing add item undo and redo...');
+
+  const added = save(base, { items: [...base.items, item('d', 3)].map(({ id, mediaId }) => ({ id, mediaId: mediaId as string })) });
+  let command = createAddItemCommand(base.id, added.items[3], 3);
+
+  const undone = step(command, added, 'undo');
+  expectEqual(itemIds(undone), ['a', 'b', 'c'], 'Undo removes the added item');
+
+  const redone = step(command, undone, 'redo');
+  const newId = findAddedItemId(undone, redone) as string;
+  expectEqual(itemIds(redone), ['a', 'b', 'c', newId], 'Redo adds it back under a new ID');
+  expectEqual(redone.items[3].mediaId, 'media-d', 'Same media');
+
+  // The next undo must remove the item under its new ID
+  command = remapEditCommands([command], 'd', newId)[0];
+  expectEqual(itemIds(step(command, redone, 'undo')), ['a', 'b', 'c'], 'Undo after redo');
+
+  console.log('✓ Add item tests passed');
+}
+
+async function testRemoveItem(): Promise<void> {
+  console.log('Testing remove item undo and redo...');
+
+  const removed = withoutItem(base, 'b');
+  let command = createRemoveItemCommand(base.id, base.items[1], 1);
+
+  const undone = step(command, removed, 'undo');
+  const newId = findAddedItemId(removed, undone) as string;
+  expectEqual(itemIds(undone), ['a', newId, 'c'], 'Undo puts the item back in place');
+  expectEqual(undone.items[1].duration, 5, 'With its settings');
+
+  command = remapEditCommands([command], 'b', newId)[0];
+  expectEqual(itemIds(step(command, undone, 'redo')), ['a', 'c'], 'Redo removes it again');
+
+  // Others shortened the list meanwhile: the position is clamped
+  const shortened = withoutItem(withoutItem(removed, 'a'), 'c');
+  const restored = step(createRemoveItemCommand(base.id, base.items[2], 2), shortened, 'undo');
+  expectEqual(restored.items.map(entry => entry.mediaId), ['media-c'], 'Position clamped to the list');
+
+  console.log('✓ Remove item tests passed');
+}
+
+async function testReorder(): Promise<void> {
+  console.log('Testing reorder undo and redo...');
+
+  const command = createReorderCommand(base.id, ['a', 'b', 'c'], ['c', 'a', 'b']) as PlaylistEditCommand;
+  expectEqual(createReorderCommand(base.id, ['a', 'b'], ['a', 'b']), null, 'Unchanged order is not a command');
+
+  const reordered = save(base, planEditCommand(command, base, 'redo'));
+  expectEqual(itemIds(reordered), ['c', 'a', 'b'], 'Redo applies the new order');
+  expectEqual(itemIds(step(command, reordered, 'undo')), ['a', 'b', 'c'], 'Undo restores the old order');
+
+  // An item someone else added stays, at the end
+  const withExtra = save(reordered, {
+    items: [...reordered.items, item('d', 3)].map(({ id, mediaId }) => ({ id, mediaId: mediaId as string })),
+  });
+  expectEqual(itemIds(step(command, withExtra, 'undo')), ['a', 'b', 'c', 'd'], 'Added item kept');
+
+  console.log('✓ Reorder tests passed');
+}
+
+async function testItemSettings(): Promise<void> {
+  console.log('Testing item settings undo and redo...');
+
+  const command = createItemSettingsCommand(base.id, base.items[1], { duration: 20 });
+  const changed = step(command, base, 'redo');
+  expectEqual(changed.items[1].duration, 20, 'Redo applies the setting');
+
+  const undone = step(command, changed, 'undo');
+  expectEqual(undone.items[1].duration, 5, 'Undo restores the old setting');
+  expectEqual(itemIds(undone), ['a', 'b', 'c'], 'Other items untouched');
+
+  // A cleared setting comes back as cleared
+  const cleared = createItemSettingsCommand(base.id, base.items[0], { duration: 12 });
+  expectEqual(step(cleared, step(cleared, base, 'redo'), 'undo').items[0].duration, undefined, 'No duration again');
+
+  console.log('✓ Item settings tests passed');
+}
+
+async function testDetails(): Promise<void> {
+  console.log('Testing details undo and redo...');
+
+  const command = createDetailsCommand(base, { name: 'Reception', settings: { loop: false } }) as PlaylistEditCommand;
+  expectEqual(command.label, 'Rename playlist', 'Rename label');
+  expectEqual(createDetailsCommand(base, { name: 'Lobby' }), null, 'No change is not a command');
+  expectEqual(createDetailsCommand(base, { settings: { priority: 2 } }), null, 'Unsaved settings are not undoable');
+
+  const renamed = step(command, base, 'redo');
+  expectEqual([renamed.name, renamed.settings?.loop], ['Reception', false], 'Redo applies the details');
+
+  const undone = step(command, renamed, 'undo');
+  expectEqual([undone.name, undone.settings?.loop], ['Lobby', true], 'Undo restores the details');
+
+  // Someone else renamed it since: only the loop setting is reverted
+  const renamedAgain = save(renamed, { name: 'Front desk' });
+  expectEqual(planEditCommand(command, renamedAgain, 'undo'), { settings: { loop: true } }, 'Changed fields left alone');
+
+  const changedAll = save(renamedAgain, { settings: { loop: true } });
+  expectHistoryError(() => planEditCommand(command, changedAll, 'undo'), 'Every field changed by others');
+
+  console.log('✓ Details tests passed');
+}
+
+async function testRemoteRemovals(): Promise<void> {
+  console.log('Testing commands for items others removed...');
+
+  const withoutB = withoutItem(base, 'b');
+
+  expectHistoryError(
+    () => planEditCommand(createItemSettingsCommand(base.id, base.items[1], { duration: 20 }), withoutB, 'undo'),
+    'Settings of a removed item'
+  );
+  expectHistoryError(
+    () => planEditCommand(createAddItemCommand(base.id, base.items[1], 1), withoutB, 'undo'),
+    'Undoing an add that was removed'
+  );
+  expectHistoryError(
+    () => planEditCommand(createRemoveItemCommand(base.id, base.items[1], 1), withoutB, 'redo'),
+    'Redoing a removal that already happened'
+  );
+
+  // Reorders skip the missing item instead of failing
+  const reorder = createReorderCommand(base.id, ['a', 'b', 'c'], ['c', 'b', 'a']) as PlaylistEditCommand;
+  expectEqual(itemIds(step(reorder, withoutB, 'redo')), ['c', 'a'], 'Reorder without the removed item');
+
+  // Details do not depend on items
+  const details = createDetailsCommand(base, { description: 'Updated' }) as PlaylistEditCommand;
+  expectEqual(planEditCommand(details, step(details, withoutB, 'redo'), 'undo'), { description: 'Front desk loop' }, 'Details still undo');
+
+  console.log('✓ Remote removal tests passed');
+}
+
+async function testRemap(): Promise<void> {
+  console.log('Testing command remapping...');
+
+  const stack: PlaylistEditCommand[] = [
+    createAddItemCommand(base.id, base.items[1], 1),
+    createRemoveItemCommand(base.id, base.items[0], 0),
+    createReorderCommand(base.id, ['a', 'b', 'c'], ['b', 'c', 'a']) as PlaylistEditCommand,
+    createItemSettingsCommand(base.id, base.items[1], { duration: 20 }),
+    createDetailsCommand(base, { name: 'Reception' }) as PlaylistEditCommand,
+  ];
+  const remapped = remapEditCommands(stack, 'b', 'b2');
+
+  expectEqual(remapped[0].type === 'add-item' && remapped[0].item.id, 'b2', 'Add command');
+  expectEqual(remapped[1], stack[1], 'Commands for other items unchanged');
+  expectEqual(
+    remapped[2].type === 'reorder-items' && [remapped[2].before, remapped[2].after],
+    [['a', 'b2', 'c'], ['b2', 'c', 'a']],
+    'Reorder command'
+  );
+  expectEqual(remapped[3].type === 'update-item' && remapped[3].itemId, 'b2', 'Settings command');
+  expectEqual(remapped[4], stack[4], 'Details command unchanged');
+
+  // A settings change made before the item was removed and restored applies to it again
+  const removed = withoutItem(base, 'b');
+  const restored = step(createRemoveItemCommand(base.id, base.items[1], 1), removed, 'undo');
+  const newId = findAddedItemId(removed, restored) as string;
+  const settings = stack[3];
+
+  expectHistoryError(() => planEditCommand(settings, restored, 'undo'), 'Old ID no longer exists');
+  const [followed] = remapEditCommands([settings], 'b', newId);
+  expectEqual(step(followed, restored, 'redo').items[1].duration, 20, 'Remapped command applies');
+
+  console.log('✓ Remap tests passed');
+}
+
+export default {
+  runPlaylistHistoryTests,
+};
@@ -0,0 +1,253 @@
+/**
+ * Playlist Merge Tests
+ *
+ * Test suite for the three-way merge of concurrent playlist edits:
+ * - Edits on different fields and items combined without conflicts
+ * - Item insertions, removals and reorders from either side
+ * - Same field changed differently on both sides, and resolving it
+ * - An item removed on one side while edited on the other
+ */
+
+import { mergePlaylists, buildMergedUpdate, getItemKey } from '../services/playlistMerge';
+
+import type { Playlist, PlaylistItem } from '../types';
+
+// ============================
+// Mock Data
+// ============================
+
+function item(id: string, order: number, overrides: Partial<PlaylistItem> = {}): PlaylistItem {
+  return {
+    id,
+    mediaId: `media-${id}`,
+    playlistId: 'playlist-1',
+    order,
+    createdAt: '2026-03-01T00:00:00Z',
+    updatedAt: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const base = {
+  id: 'playlist-1',
+  name: 'Lobby',
+  description: 'Front desk loop',
+  isActive: true,
+  isPublic: false,
+  tags: ['lobby'],
+  settings: { loop: true, shuffle: false, defaultItemDuration: 10 },
+  items: [item('a', 0), item('b', 1), item('c', 2)],
+  version: 3,
+} as unknown as Playlist;
+
+function edit(playlist: Playlist, changes: Partial<Playlist>): Playlist {
+  return { ...playlist, ...changes };
+}
+
+function withItems(playlist: Playlist, items: PlaylistItem[]): Playlist {
+  return edit(playlist, { items: items.map((entry, order) => ({ ...entry, order })) });
+}
+
+function itemIds(playlist: Playlist): string[] {
+  return playlist.items.map(getItemKey);
+}
+
+function expectEqual<T>(actual: T, expected: T, description: string): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`${description}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+// ============================
+// Test Suite
+// ============================
+
+export async function runPlaylistMergeTests(): Promise<void> {
+  console.log('🧪 Starting Playlist Merge Tests...');
+
+  try {
+    await testMetadataAndSettings();
+    await testItemInsertions();
+    await testItemRemovals();
+    await testReorders();
+    await testSameFieldConflicts();
+    await testRemoveVersusEdit();
+
+    console.log('✅ All Playlist Merge tests passed!');
+  } catch (error) {
+    console.error('❌ Playlist Merge tests failed:', error);
+    throw error;
+  }
+}
+
+async function testMetadataAndSettings(): Promise<void> {
+  console.log('Testing metadata and settings merges...');
+
+  const local = edit(base, { name: 'Lobby (spring)', settings: { ...base.settings, loop: false } });
+  const remote = edit(base, { description: 'Updated copy', settings: { ...base.settings, shuffle: true }, version: 4 });
+  const { merged, conflicts, changes } = mergePlaylists(base, local, remote);
+
+  expectEqual(conflicts.length, 0, 'Different fields do not conflict');
+  expectEqual(merged.name, 'Lobby (spring)', 'Local name');
+  expectEqual(merged.description, 'Updated copy', 'Remote description');
+  expectEqual(merged.settings?.loop, false, 'Local setting');
+  expectEqual(merged.settings?.shuffle, true, 'Remote setting');
+  expectEqual(merged.version, 4, 'Version of the remote side');
+  expectEqual(
+    changes.map(change => [change.key, change.origin]),
+    [['name', 'local'], ['description', 'remote'], ['settings.shuffle', 'remote'], ['settings.loop', 'local']],
+    'Changes by origin'
+  );
+
+  const same = mergePlaylists(base, edit(base, { name: 'Reception' }), edit(base, { name: 'Reception' }));
+  expectEqual(same.conflicts.length, 0, 'Same change on both sides');
+  expectEqual(same.changes[0].origin, 'both', 'Same change origin');
+
+  const update = buildMergedUpdate(merged, remote);
+  expectEqual(update, { version: 4, name: 'Lobby (spring)', settings: { loop: false } }, 'Update carries only local changes');
+
+  console.log('✓ Metadata and settings merge tests passed');
+}
+
+async function testItemInsertions(): Promise<void> {
+  console.log('Testing item insertions...');
+
+  const [a, b, c] = base.items;
+  const local = withItems(base, [a, item('local-new', 0), b, c]);
+  const remote = withItems(base, [a, b, c, item('remote-new', 0)]);
+  const { merged, conflicts } = mergePlaylists(base, local, remote);
+
+  expectEqual(conflicts.length, 0, 'Insertions do not conflict');
+  expectEqual(itemIds(merged), ['a', 'local-new', 'b', 'c', 'remote-new'], 'Both insertions after their predecessor');
+  expectEqual(merged.items.map(entry => entry.order), [0, 1, 2, 3, 4], 'Orders renumbered');
+
+  const front = mergePlaylists(base, withItems(base, [item('first', 0), a, b, c]), base);
+  expectEqual(itemIds(front.merged), ['first', 'a', 'b', 'c'], 'Insertion at the start');
+
+  const update = buildMergedUpdate(merged, remote);
+  expectEqual(update.items?.map(entry => entry.id), ['a', 'local-new', 'b', 'c', 'remote-new'], 'Update sends the merged list');
+
+  console.log('✓ Item insertion tests passed');
+}
+
+async function testItemRemovals(): Promise<void> {
+  console.log('Testing item removals...');
+
+  const [a, b, c] = base.items;
+  const local = withItems(base, [a, c]);
+  const remote = withItems(base, [b, c]);
+  const { merged, conflicts, changes } = mergePlaylists(base, local, remote);
+
+  expectEqual(conflicts.length, 0, 'Removing unedited items does not conflict');
+  expectEqual(itemIds(merged), ['c'], 'Removals from both sides applied');
+  expectEqual(
+    changes.filter(change => change.key.startsWith('items.')).map(change => [change.key, change.origin]),
+    [['items.a', 'remote'], ['items.b', 'local']],
+    'Removal origins'
+  );
+
+  const both = mergePlaylists(base, withItems(base, [a, c]), withItems(base, [a, c]));
+  expectEqual(itemIds(both.merged), ['a', 'c'], 'Same item removed on both sides');
+  expectEqual(both.changes.find(change => change.key === 'items.b')?.origin, 'both', 'Shared removal origin');
+
+  // An edit to one item and the removal of another combine
+  const edited = mergePlaylists(base, withItems(base, [a, { ...b, duration: 20 }, c]), withItems(base, [a, b]));
+  expectEqual(edited.conflicts.length, 0, 'Edit and unrelated removal');
+  expectEqual(itemIds(edited.merged), ['a', 'b'], 'Unrelated removal applied');
+  expectEqual(edited.merged.items[1].duration, 20, 'Edit kept');
+
+  console.log('✓ Item removal tests passed');
+}
+
+async function testReorders(): Promise<void> {
+  console.log('Testing reorders...');
+
+  const [a, b, c] = base.items;
+  const local = withItems(base, [c, a, b]);
+  const remote = withItems(base, [a, b, { ...c, duration: 30 }]);
+  const { merged, conflicts } = mergePlaylists(base, local, remote);
+
+  expectEqual(conflicts.length, 0, 'Reorder and item edit do not conflict');
+  expectEqual(itemIds(merged), ['c', 'a', 'b'], 'Local order');
+  expectEqual(merged.items[0].duration, 30, 'Remote edit on the moved item');
+
+  // A reorder on one side with an insertion on the other
+  const inserted = mergePlaylists(base, local, withItems(base, [a, item('d', 0), b, c]));
+  expectEqual(itemIds(inserted.merged), ['c', 'a', 'd', 'b'], 'Insertion follows its predecessor in the new order');
+
+  const same = mergePlaylists(base, local, withItems(base, [c, a, b]));
+  expectEqual(same.conflicts.length, 0, 'Same reorder on both sides');
+
+  console.log('✓ Reorder tests passed');
+}
+
+async function testSameFieldConflicts(): Promise<void> {
+  console.log('Testing same-field conflicts...');
+
+  const [a, b, c] = base.items;
+  const local = withItems(edit(base, { name: 'Local name' }), [a, { ...b, duration: 15 }, c]);
+  const remote = withItems(edit(base, { name: 'Remote name' }), [a, { ...b, duration: 25 }, c]);
+  const result = mergePlaylists(base, local, remote);
+
+  expectEqual(
+    result.conflicts.map(conflict => [conflict.key, conflict.itemId]),
+    [['name', undefined], ['items.b.duration', 'b']],
+    'Conflicts found'
+  );
+  expectEqual(result.conflicts[1].base, undefined, 'Base value of the conflict');
+  expectEqual([result.conflicts[1].local, result.conflicts[1].remote], [15, 25], 'Both sides of the conflict');
+  expectEqual(result.merged.name, 'Remote name', 'Unresolved conflicts take the remote side');
+  expectEqual(result.merged.items[1].duration, 25, 'Unresolved item conflict takes the remote side');
+
+  const resolved = mergePlaylists(base, local, remote, { name: 'local', 'items.b.duration': 'local' });
+  expectEqual(resolved.merged.name, 'Local name', 'Local choice for a field');
+  expectEqual(resolved.merged.items[1].duration, 15, 'Local choice for an item field');
+  expectEqual(resolved.conflicts.length, 2, 'Resolved conflicts are still reported');
+
+  // Different reorders of the same items
+  const reordered = mergePlaylists(base, withItems(base, [c, a, b]), withItems(base, [b, c, a]));
+  expectEqual(reordered.conflicts.map(conflict => conflict.key), ['items.order'], 'Order conflict');
+  expectEqual(itemIds(reordered.merged), ['b', 'c', 'a'], 'Remote order by default');
+  expectEqual(
+    itemIds(mergePlaylists(base, withItems(base, [c, a, b]), withItems(base, [b, c, a]), { 'items.order': 'local' }).merged),
+    ['c', 'a', 'b'],
+    'Local order when chosen'
+  );
+
+  console.log('✓ Same-field conflict tests passed');
+}
+
+async function testRemoveVersusEdit(): Promise<void> {
+  console.log('Testing removal against edits...');
+
+  const [a, b, c] = base.items;
+
+  // Removed locally, edited remotely
+  const local = withItems(base, [a, c]);
+  const remote = withItems(base, [a, { ...b, duration: 45 }, c]);
+  const result = mergePlaylists(base, local, remote);
+
+  expectEqual(result.conflicts.map(conflict => [conflict.key, conflict.itemId]), [['items.b', 'b']], 'Remove-edit conflict');
+  expectEqual(result.conflicts[0].local, null, 'Local side removed it');
+  expectEqual(itemIds(result.merged), ['a', 'b', 'c'], 'The edit is kept by default');
+  expectEqual(result.merged.items[1].duration, 45, 'Kept with the remote edit');
+
+  const removed = mergePlaylists(base, local, remote, { 'items.b': 'local' });
+  expectEqual(itemIds(removed.merged), ['a', 'c'], 'Removal when the local side is chosen');
+
+  // Edited locally, removed remotely
+  const reverse = mergePlaylists(base, remote, local);
+  expectEqual(reverse.conflicts.map(conflict => conflict.key), ['items.b'], 'Reverse conflict');
+  expectEqual(itemIds(reverse.merged), ['a', 'c'], 'The remote removal wins by default');
+  expectEqual(
+    itemIds(mergePlaylists(base, remote, local, { 'items.b': 'local' }).merged),
+    ['a', 'b', 'c'],
+    'Edit restored in place when the local side is chosen'
+  );
+
+  console.log('✓ Removal against edit tests passed');
+}
+
+export default {
+  runPlaylistMergeTests,
+};
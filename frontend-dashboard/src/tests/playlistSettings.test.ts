@@ -0,0 +1,91 @@
+/**
+ * Playlist Settings Tests
+ *
+ * Test suite for the playback rules the editor preview and the player share:
+ * - Defaults for settings a playlist never saved
+ * - Item durations with the playlist default and duration overrides
+ * - Default transitions for items without their own
+ */
+
+import {
+  DEFAULT_PLAYLIST_SETTINGS,
+  resolvePlaylistSettings,
+  getItemDuration,
+  getItemTransition,
+} from '../services/playlistSettings';
+
+import type { PlaylistTransition } from '../types';
+
+// ============================
+// Mock Data
+// ============================
+
+const image = { type: 'image' as const, duration: 8 };
+const video = { type: 'video' as const, videoDuration: 30 };
+const fade: PlaylistTransition = { type: 'fade', duration: 1, easing: 'linear' };
+
+function expectEqual<T>(actual: T, expected: T, description: string): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`${description}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+// ============================
+// Test Suite
+// ============================
+
+export async function runPlaylistSettingsTests(): Promise<void> {
+  console.log('🧪 Starting Playlist Settings Tests...');
+
+  try {
+    await testResolveSettings();
+    await testItemDurations();
+    await testItemTransitions();
+
+    console.log('✅ All Playlist Settings tests passed!');
+  } catch (error) {
+    console.error('❌ Playlist Settings tests failed:', error);
+    throw error;
+  }
+}
+
+async function testResolveSettings(): Promise<void> {
+  console.log('Testing settings defaults...');
+
+  expectEqual(resolvePlaylistSettings(undefined), DEFAULT_PLAYLIST_SETTINGS, 'Missing settings');
+
+  const resolved = resolvePlaylistSettings({ loop: false, defaultTransition: { type: 'fade', duration: 2 } });
+  expectEqual(resolved.loop, false, 'Saved setting');
+  expectEqual(resolved.backgroundColor, '#000000', 'Unsaved setting');
+  expectEqual(resolved.defaultTransition.easing, 'ease-in-out', 'Unsaved transition easing');
+
+  console.log('✓ Settings default tests passed');
+}
+
+async function testItemDurations(): Promise<void> {
+  console.log('Testing item durations...');
+
+  expectEqual(getItemDuration({}, image, undefined), 8, 'Image without a playlist default');
+  expectEqual(getItemDuration({}, image, { defaultItemDuration: 15 }), 15, 'Image with a playlist default');
+  expectEqual(getItemDuration({}, video, { defaultItemDuration: 15 }), 30, 'Videos play their length');
+  expectEqual(getItemDuration({ duration: 5 }, video, undefined), 5, 'Item override');
+  expectEqual(getItemDuration({ duration: 5 }, image, { allowDurationOverride: false }), 8, 'Overrides disabled');
+  expectEqual(getItemDuration({}, null, { defaultItemDuration: 12 }), 12, 'Media not loaded');
+
+  console.log('✓ Item duration tests passed');
+}
+
+async function testItemTransitions(): Promise<void> {
+  console.log('Testing item transitions...');
+
+  const zoom: PlaylistTransition = { type: 'zoom-in', duration: 0.5 };
+  expectEqual(getItemTransition(zoom, { defaultTransition: fade }), zoom, 'Own transition');
+  expectEqual(getItemTransition({ type: 'none', duration: 0.5 }, { defaultTransition: fade }), fade, 'Playlist default');
+  expectEqual(getItemTransition(undefined, undefined), undefined, 'No transition at all');
+
+  console.log('✓ Item transition tests passed');
+}
+
+export default {
+  runPlaylistSettingsTests,
+};
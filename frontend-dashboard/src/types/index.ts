@@ -23,11 +23,15 @@ export { AuthApiError } from '../services/auth';
 // Media API Types
 // ============================
 
+// Backend the file is stored with; the storage key is its ID there
+export type MediaStorageProvider = 'cloudinary' | 'local' | 's3';
+
 export interface MediaItem {
   _id: string;
   originalName: string;
   filename: string;
-  cloudinaryId: string;
+  storageKey: string;
+  storageProvider: MediaStorageProvider;
   url: string;
   secureUrl: string;
   type: 'image' | 'video';
@@ -89,6 +93,12 @@ export type {
   UpdateResponse,
   DeleteResponse,
   DownloadResponse,
+  MediaDeleteStrategy,
+  DeleteMediaOptions,
+  MediaUsage,
+  MediaUsagePlaylist,
+  MediaUsageScreen,
+  MediaUsageResponse,
 } from '../services/mediaAPI';
 
 // ============================
@@ -358,11 +368,28 @@ export interface PlaylistSchedule {
   timezone?: string;
 }
 
+export type PlaylistConditionType = 'time-range' | 'date-range' | 'day-of-week' | 'weather' | 'custom' | 'data';
+
+export type PlaylistConditionOperator =
+  | 'equals'
+  | 'not-equals'
+  | 'greater-than'
+  | 'less-than'
+  | 'between'
+  | 'in'
+  | 'not-in';
+
+/**
+ * When an item may play. Times are HH:MM, dates YYYY-MM-DD and days mon-sun;
+ * `between` takes "from,to" and `in`/`not-in` a comma-separated list.
+ * Custom conditions compare `key` against the screen's attributes and tags,
+ * and data conditions against data feed values such as `queue.length`
+ */
 export interface PlaylistCondition {
-  type: 'time' | 'date' | 'weather' | 'custom';
-  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains';
-  value: string | number;
-  enabled: boolean;
+  type: PlaylistConditionType;
+  operator: PlaylistConditionOperator;
+  key?: string; // Screen attribute or data feed value, custom and data conditions only
+  value: string;
 }
 
 export interface PlaylistAnalytics {
@@ -374,8 +401,19 @@ export interface PlaylistAnalytics {
   skipRate?: number;
 }
 
+export type PlaylistTransitionType =
+  | 'none'
+  | 'fade'
+  | 'slide'
+  | 'slide-left'
+  | 'slide-right'
+  | 'slide-up'
+  | 'slide-down'
+  | 'zoom-in'
+  | 'zoom-out';
+
 export interface PlaylistTransition {
-  type: 'fade' | 'slide' | 'none';
+  type: PlaylistTransitionType;
   duration: number;
   easing?: 'ease-in' | 'ease-out' | 'ease-in-out' | 'linear';
 }
@@ -394,6 +432,24 @@ export interface PlaylistItem {
   updatedAt: string;
 }
 
+/**
+ * How screens play a playlist. Durations are in seconds; items whose own
+ * transition is 'none' enter with defaultTransition
+ */
+export interface PlaylistPlaybackSettings {
+  shuffle?: boolean;
+  loop?: boolean;
+  autoAdvance?: boolean;
+  pauseBetweenItems?: number;
+  priority?: number; // 1-10, used when the playlist is assigned without a queue priority
+  defaultItemDuration?: number | null; // Image duration when the item sets none; null keeps the media's own
+  allowDurationOverride?: boolean; // When false, item durations are ignored
+  defaultTransition?: PlaylistTransition;
+  backgroundColor?: string; // Hex color, e.g. #000000
+  textColor?: string;
+  showMetadata?: boolean; // Overlay the item name and position
+}
+
 export interface Playlist {
   id: string;
   name: string;
@@ -405,18 +461,96 @@ export interface Playlist {
   totalDuration: number;
   assignedScreens: string[];
   tags?: string[];
-  settings?: {
-    shuffle?: boolean;
-    loop?: boolean;
-    autoAdvance?: boolean;
-    pauseBetweenItems?: number;
-  };
+  settings?: PlaylistPlaybackSettings;
   schedule?: PlaylistSchedule;
   analytics?: PlaylistAnalytics;
+  version?: number; // Incremented on every save, used to detect concurrent edits
+  lastModified?: string;
+  collaborators?: Array<{
+    user: string | PlaylistUser; // Populated when a single playlist is fetched
+    permission: PlaylistCollaboratorPermission;
+    addedAt: string;
+  }>;
+  approval?: {
+    status: PlaylistApprovalStatus;
+    publishedVersion?: number | null; // Version screens play while newer edits await approval
+  };
   createdAt: string;
   updatedAt: string;
 }
 
+// Review lifecycle of a playlist in organizations that require approval
+export type PlaylistApprovalStatus = 'draft' | 'submitted' | 'approved' | 'published';
+
+export type PlaylistApprovalAction = 'comment' | 'submit' | 'approve' | 'reject' | 'publish';
+
+export interface PlaylistApprovalComment {
+  id: string;
+  author: PlaylistUser | null;
+  action: PlaylistApprovalAction;
+  body: string;
+  version: number; // Playlist version the comment was made on
+  createdAt: string;
+}
+
+export interface PlaylistApproval {
+  playlistId: string;
+  name: string;
+  version: number;
+  status: PlaylistApprovalStatus;
+  submittedVersion: number | null;
+  submittedBy: PlaylistUser | null;
+  submittedAt: string | null;
+  reviewedBy: PlaylistUser | null;
+  reviewedAt: string | null;
+  approvedVersion: number | null;
+  publishedVersion: number | null;
+  publishedBy: PlaylistUser | null;
+  publishedAt: string | null;
+  comments: PlaylistApprovalComment[];
+}
+
+export interface PlaylistApprovalQueueItem extends PlaylistApproval {
+  description: string;
+  owner: PlaylistUser | null;
+  totalItems: number;
+  totalDuration: number;
+  assignedScreenCount: number;
+}
+
+export interface PlaylistApprovalQueueResponse {
+  playlists: PlaylistApprovalQueueItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+// What a user may do with a playlist; each level includes the ones below it
+export type PlaylistPermission = 'owner' | 'admin' | 'edit' | 'view';
+
+export type PlaylistCollaboratorPermission = Exclude<PlaylistPermission, 'owner'>;
+
+export interface PlaylistUser {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+export interface PlaylistCollaborator {
+  user: PlaylistUser;
+  permission: PlaylistCollaboratorPermission;
+  addedAt: string;
+}
+
+export interface PlaylistSharing {
+  owner: PlaylistUser;
+  collaborators: PlaylistCollaborator[];
+  permission: PlaylistPermission | null; // The caller's own permission
+}
+
 export interface ScreenAssignment {
   screenId: string;
   screenName: string;
@@ -460,28 +594,29 @@ export interface CreatePlaylistData {
   isActive?: boolean;
   isPublic?: boolean;
   tags?: string[];
-  settings?: {
-    shuffle?: boolean;
-    loop?: boolean;
-    autoAdvance?: boolean;
-    pauseBetweenItems?: number;
-  };
+  settings?: PlaylistPlaybackSettings;
   schedule?: PlaylistSchedule;
 }
 
+// Item as sent to PUT /api/playlists/:id; items without an id are added
+export interface PlaylistItemUpdate {
+  id?: string;
+  mediaId: string;
+  duration?: number | null;
+  transitions?: PlaylistTransition;
+  conditions?: PlaylistCondition[];
+}
+
 export interface UpdatePlaylistData {
+  version?: number; // Version the edit is based on; a stale version is rejected with 409
   name?: string;
   description?: string;
   isActive?: boolean;
   isPublic?: boolean;
   tags?: string[];
-  settings?: {
-    shuffle?: boolean;
-    loop?: boolean;
-    autoAdvance?: boolean;
-    pauseBetweenItems?: number;
-  };
+  settings?: PlaylistPlaybackSettings;
   schedule?: PlaylistSchedule;
+  items?: PlaylistItemUpdate[]; // Replaces the item list, in play order
 }
 
 export interface GetPlaylistParams extends Partial<PlaylistFilters> {
@@ -542,6 +677,876 @@ export interface BulkPlaylistResponse {
   };
 }
 
+// Body of the 409 returned when a playlist write is based on an older version
+export interface PlaylistVersionConflictResponse {
+  success: false;
+  code: 'VERSION_CONFLICT';
+  message: string;
+  data: {
+    currentVersion: number;
+    playlist: Playlist;
+  };
+}
+
+// Playlist revision history
+export interface PlaylistRevision {
+  id: string;
+  version: number;
+  author?: { _id: string; name?: string; email: string } | null;
+  summary: string;
+  restoredFrom?: number; // Version whose content this revision restored
+  createdAt: string;
+}
+
+export interface PlaylistRevisionItem {
+  itemId: string;
+  mediaId: string | MediaItem; // Populated when a single revision is fetched
+  order: number;
+  duration: number | null;
+  transitions: PlaylistTransition;
+  conditions: PlaylistCondition[];
+  notes: string;
+}
+
+export interface PlaylistRevisionSnapshot {
+  name: string;
+  description: string;
+  isPublic: boolean;
+  tags: string[];
+  settings: NonNullable<Playlist['settings']>;
+  schedule: PlaylistSchedule;
+  items: PlaylistRevisionItem[];
+}
+
+export interface PlaylistRevisionDetail extends PlaylistRevision {
+  snapshot: PlaylistRevisionSnapshot;
+}
+
+export interface PlaylistRevisionFieldChange {
+  path: string; // e.g. 'name', 'settings.loop', 'schedule.timeSlots'
+  label: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface PlaylistRevisionItemChange {
+  itemId: string;
+  mediaId: string;
+  field: 'mediaId' | 'duration' | 'transitions' | 'conditions' | 'notes';
+  label: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface PlaylistRevisionDiff {
+  details: PlaylistRevisionFieldChange[];
+  settings: PlaylistRevisionFieldChange[];
+  schedule: PlaylistRevisionFieldChange[];
+  items: {
+    added: Array<{ itemId: string; mediaId: string; position: number }>;
+    removed: Array<{ itemId: string; mediaId: string; position: number }>;
+    moved: Array<{ itemId: string; mediaId: string; from: number; to: number }>;
+    changed: PlaylistRevisionItemChange[];
+  };
+  hasChanges: boolean;
+}
+
+export interface PlaylistRevisionComparison {
+  from: PlaylistRevision;
+  to: PlaylistRevision;
+  summary: string;
+  diff: PlaylistRevisionDiff;
+  media: Record<string, Pick<MediaItem, 'originalName' | 'type' | 'url' | 'secureUrl'>>;
+}
+
+export interface PlaylistRevisionsResponse {
+  success: boolean;
+  message: string;
+  data: {
+    currentVersion: number;
+    revisions: PlaylistRevision[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      pages: number;
+    };
+  };
+}
+
+export type {
+  PlaylistMergeSide,
+  PlaylistChangeOrigin,
+  PlaylistFieldChange,
+  PlaylistMergeConflict,
+  PlaylistMergeResult,
+  PlaylistConflictChoices,
+  PlaylistConflictState,
+} from '../services/playlistMerge';
+
+// ============================
+// Screen Management Types
+// ============================
+
+export type ScreenStatus = 'online' | 'offline' | 'connecting' | 'error' | 'maintenance';
+
+export type ScreenDeviceType = 'raspberry-pi' | 'android' | 'windows' | 'linux' | 'smart-tv' | 'other';
+
+export interface ScreenLocation {
+  name: string;
+  address?: string;
+  coordinates?: {
+    latitude: number;
+    longitude: number;
+  };
+  timezone?: string;
+}
+
+export interface ScreenDisplay {
+  resolution: {
+    width: number;
+    height: number;
+  };
+  diagonal?: number;
+  orientation?: 'landscape' | 'portrait';
+  brightness?: number;
+}
+
+export interface ScreenNetwork {
+  ipAddress?: string;
+  macAddress?: string;
+  connectionType?: 'wifi' | 'ethernet' | 'cellular' | 'unknown';
+  latency?: number; // Heartbeat round trip in ms, measured by the player
+  downlink?: number; // Estimated bandwidth in Mbps
+  lastMeasured?: string;
+}
+
+export interface ScreenPerformance {
+  cpuUsage?: number;
+  memoryUsage?: number;
+  storageUsage?: number;
+  temperature?: number;
+  lastUpdated?: string;
+}
+
+export interface ScreenSettings {
+  autoRestart?: boolean;
+  maintenanceWindow?: {
+    start?: string;
+    end?: string;
+    timezone?: string;
+  };
+  volume?: number;
+  autoUpdate?: boolean;
+}
+
+// Populated playlist reference returned with screen responses
+export interface ScreenPlaylistRef {
+  id: string;
+  name: string;
+  totalItems?: number;
+  totalDuration?: number;
+  isActive?: boolean;
+}
+
+export interface Screen {
+  id: string;
+  screenId: string; // Human-readable device identifier, e.g. SCR-001
+  name: string;
+  description?: string;
+  owner: string;
+  location: ScreenLocation;
+  display: ScreenDisplay;
+  network?: ScreenNetwork;
+  status: ScreenStatus;
+  lastSeen: string;
+  heartbeatInterval: number;
+  currentPlaylist?: string | ScreenPlaylistRef | null;
+  playlistQueue?: Array<{
+    playlist: string | ScreenPlaylistRef;
+    priority: number;
+    scheduledStart?: string;
+    scheduledEnd?: string;
+  }>;
+  device?: {
+    type?: ScreenDeviceType;
+    model?: string;
+    os?: string;
+    version?: string;
+  };
+  performance?: ScreenPerformance;
+  settings?: ScreenSettings;
+  activity?: {
+    totalUptime: number;
+    playlistChanges: number;
+    lastPlaylistChange?: string;
+    errorCount: number;
+  };
+  pairing?: {
+    expiresAt?: string;
+    pairedAt?: string;
+  };
+  cache?: ScreenCacheStatus;
+  attributes?: Record<string, string>; // Free-form facts matched by custom item conditions
+  tags: string[];
+  isActive: boolean;
+  // Computed by the backend model
+  isOnline?: boolean;
+  isHealthy?: boolean;
+  uptime?: number;
+  resolution?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScreenFilters {
+  search: string;
+  status?: ScreenStatus;
+  tags?: string;
+  group?: string; // Screen group ID, subgroups included
+  location?: string;
+  sortBy: 'name' | 'created' | 'lastSeen' | 'status';
+  sortOrder: 'asc' | 'desc';
+}
+
+export interface ScreenPagination {
+  page: number;
+  limit: number;
+  totalCount: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+export interface ScreenStatistics {
+  totalScreens: number;
+  onlineScreens: number;
+  offlineScreens: number;
+  errorScreens: number;
+  totalUptime: number;
+  avgPlaylistChanges: number;
+  byStatus?: Partial<Record<ScreenStatus, number>>;
+}
+
+// API Request/Response Types
+export interface CreateScreenData {
+  screenId?: string;
+  name: string;
+  description?: string;
+  location: ScreenLocation;
+  display: ScreenDisplay;
+  device?: Screen['device'];
+  heartbeatInterval?: number;
+  settings?: ScreenSettings;
+  attributes?: Record<string, string>;
+  tags?: string[];
+}
+
+export interface UpdateScreenData {
+  name?: string;
+  description?: string;
+  location?: Partial<ScreenLocation>;
+  display?: Partial<ScreenDisplay>;
+  status?: ScreenStatus;
+  heartbeatInterval?: number;
+  settings?: ScreenSettings;
+  attributes?: Record<string, string>;
+  tags?: string[];
+}
+
+export interface GetScreenParams extends Partial<ScreenFilters> {
+  page?: number;
+  limit?: number;
+}
+
+export interface ScreenListResponse {
+  success: boolean;
+  message: string;
+  data: {
+    screens: Screen[];
+    pagination: ScreenPagination;
+    statistics: ScreenStatistics;
+  };
+}
+
+export interface SingleScreenResponse {
+  success: boolean;
+  message: string;
+  data: Screen;
+}
+
+export interface ScreenCredentialsResponse {
+  success: boolean;
+  message: string;
+  data: {
+    screen: Screen;
+    accessKey: string;
+  };
+}
+
+export interface ScreenAccessKeyResponse {
+  success: boolean;
+  message: string;
+  data: {
+    id: string;
+    screenId: string;
+    accessKey: string;
+  };
+}
+
+export interface ScreenPairingCode {
+  code: string;
+  expiresAt: string;
+  serverUrl: string;
+  pairingUrl: string; // Encoded into the setup QR code
+}
+
+export interface ScreenPairingCodeResponse {
+  success: boolean;
+  message: string;
+  data: ScreenPairingCode;
+}
+
+export interface ScreenStatsResponse {
+  success: boolean;
+  message: string;
+  data: ScreenStatistics;
+}
+
+// Playlist a screen plays at a point in time, resolved from schedules and priorities
+export interface ScreenScheduleEntry {
+  id: string;
+  screenId: string;
+  name: string;
+  location?: string;
+  status: ScreenStatus;
+  timezone: string;
+  localTime: string; // YYYY-MM-DD HH:mm in the screen's timezone
+  playlist: { id: string; name: string } | null;
+  priority: number | null;
+  source: 'queue' | 'assignment' | null;
+}
+
+export interface ScreenScheduleSnapshot {
+  at: string;
+  group: string | null;
+  screens: ScreenScheduleEntry[];
+}
+
+export interface ScreenScheduleResponse {
+  success: boolean;
+  message: string;
+  data: ScreenScheduleSnapshot;
+}
+
+// ============================
+// Display Player Types
+// ============================
+
+export interface PlayerCredentials {
+  serverUrl: string; // Backend origin, without the /api suffix
+  accessKey: string;
+  id: string;
+  screenId: string;
+  name: string;
+}
+
+export interface PairScreenData {
+  code: string;
+  device?: {
+    type?: ScreenDeviceType;
+    model?: string;
+    os?: string;
+    version?: string;
+    userAgent?: string;
+  };
+}
+
+export interface PairScreenResponse {
+  success: boolean;
+  message: string;
+  data: {
+    id: string;
+    screenId: string;
+    name: string;
+    accessKey: string;
+    serverUrl: string;
+    heartbeatInterval: number;
+  };
+}
+
+export interface DisplaySession {
+  id: string;
+  screenId: string;
+  name: string;
+  location: ScreenLocation;
+  display: ScreenDisplay;
+  settings?: ScreenSettings;
+  tags?: string[];
+  attributes?: Record<string, string>; // Matched by custom item conditions
+  heartbeatInterval: number;
+  currentPlaylist: string | null;
+  emergency?: EmergencyControlEvent | null; // Emergency in force when the session was fetched
+}
+
+// Latest data feed values for a screen's location, keyed "<source key>.<field>"
+export interface DisplayData {
+  values: Record<string, string | number>;
+  updatedAt: string | null;
+}
+
+export interface DisplayDataResponse {
+  success: boolean;
+  message: string;
+  data: DisplayData;
+}
+
+export interface DisplayMedia {
+  id: string;
+  name: string;
+  type: 'image' | 'video';
+  url: string;
+  format: string;
+  width?: number;
+  height?: number;
+}
+
+export interface DisplayPlaylistItem {
+  id: string;
+  order: number;
+  duration: number; // Effective duration in seconds
+  transitions?: PlaylistTransition;
+  conditions?: PlaylistCondition[];
+  media: DisplayMedia;
+}
+
+export interface DisplayPlaylist {
+  id: string;
+  name: string;
+  version: number;
+  lastModified: string;
+  settings?: Playlist['settings'];
+  items: DisplayPlaylistItem[];
+}
+
+export interface DisplaySessionResponse {
+  success: boolean;
+  message: string;
+  data: DisplaySession;
+}
+
+export interface DisplayPlaylistResponse {
+  success: boolean;
+  message: string;
+  data: {
+    playlist: DisplayPlaylist | null;
+  };
+}
+
+export interface ManifestAsset {
+  mediaId: string;
+  type: 'image' | 'video';
+  url: string;
+  size: number; // Bytes
+  hash: string | null; // SHA-256 hex, null for media uploaded before checksums were recorded
+}
+
+export interface DisplayManifest {
+  playlistId: string;
+  version: number;
+  manifestHash: string;
+  generatedAt: string;
+  totalBytes: number;
+  assets: ManifestAsset[];
+}
+
+export interface DisplayManifestResponse {
+  success: boolean;
+  message: string;
+  data: {
+    manifest: DisplayManifest | null;
+  };
+}
+
+export type CacheSyncStatus = 'synced' | 'syncing' | 'partial' | 'error';
+
+export interface CacheStatusReport {
+  manifestHash: string | null;
+  playlistId: string | null;
+  status: CacheSyncStatus;
+  totalAssets: number;
+  cachedAssets: number;
+  cachedBytes: number;
+  error?: string | null;
+}
+
+export interface ScreenCacheStatus {
+  manifestHash?: string;
+  playlist?: string;
+  status?: CacheSyncStatus;
+  totalAssets?: number;
+  cachedAssets?: number;
+  cachedBytes?: number;
+  lastSyncAt?: string;
+  lastError?: string;
+}
+
+// What a player is showing right now, as reported when each item starts, pauses or resumes
+export interface PlaybackProgressReport {
+  playlistId: string | null;
+  itemId: string;
+  mediaId: string | null;
+  mediaName: string;
+  mediaType: 'image' | 'video';
+  index: number;
+  total: number;
+  duration: number; // Seconds
+  elapsed: number; // Seconds already played when the report was sent
+  paused: boolean;
+}
+
+export interface ScreenPlaybackState extends PlaybackProgressReport {
+  screenId: string; // Screen _id
+  timestamp: string; // When the server received the report
+}
+
+// ============================
+// Remote Command Types
+// ============================
+
+export type ScreenCommandType = 'restart' | 'reload' | 'screenshot' | 'set-volume' | 'set-brightness';
+export type ScreenCommandStatus = 'pending' | 'acked' | 'failed' | 'timeout';
+
+export interface ScreenCommandResult {
+  image?: string; // Screenshot as a data URL
+  width?: number;
+  height?: number;
+  value?: number; // Applied volume or brightness
+}
+
+export interface ScreenCommand {
+  _id: string;
+  id: string;
+  screen: string;
+  owner: string;
+  issuedBy: { _id: string; name: string; email: string } | string;
+  type: ScreenCommandType;
+  params?: { value?: number };
+  status: ScreenCommandStatus;
+  result?: ScreenCommandResult;
+  error?: string;
+  sentAt?: string;
+  respondedAt?: string;
+  timeoutAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScreenCommandResponse {
+  success: boolean;
+  message: string;
+  data: {
+    command: ScreenCommand;
+    screen?: Screen;
+  };
+}
+
+export interface ScreenCommandListResponse {
+  success: boolean;
+  message: string;
+  data: {
+    commands: ScreenCommand[];
+  };
+}
+
+// Command as delivered to the player over the screen socket
+export interface DeviceCommand {
+  commandId: string;
+  type: ScreenCommandType;
+  params: { value?: number };
+  issuedAt: string;
+}
+
+export interface DeviceCommandResult {
+  commandId: string;
+  success: boolean;
+  result?: ScreenCommandResult;
+  error?: string;
+}
+
+export interface BulkScreenCommandResponse {
+  success: boolean;
+  message: string;
+  data: {
+    commands: ScreenCommand[];
+    summary: {
+      total: number;
+      sent: number;
+      notConnected: number;
+    };
+  };
+}
+
+// ============================
+// Screen Group Types
+// ============================
+
+export type ScreenGroupTagMatch = 'any' | 'all';
+
+export interface ScreenGroup {
+  _id: string;
+  id: string;
+  owner: string;
+  name: string;
+  description?: string;
+  color?: string;
+  parent: string | null;
+  screens: string[]; // Static members
+  tags: string[]; // Dynamic members: screens carrying any/all of these tags
+  tagMatch: ScreenGroupTagMatch;
+  screenCount: number; // Members including subgroups
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScreenGroupData {
+  name: string;
+  description?: string;
+  color?: string;
+  parent?: string | null;
+  screens?: string[];
+  tags?: string[];
+  tagMatch?: ScreenGroupTagMatch;
+}
+
+// Screens and/or groups, accepted anywhere screens are targeted
+export interface ScreenTargets {
+  screenIds?: string[];
+  groupIds?: string[];
+}
+
+export interface ScreenGroupResponse {
+  success: boolean;
+  message: string;
+  data: {
+    group: ScreenGroup;
+  };
+}
+
+export interface ScreenGroupListResponse {
+  success: boolean;
+  message: string;
+  data: {
+    groups: ScreenGroup[];
+  };
+}
+
+// ============================
+// Organization Types
+// ============================
+
+export type OrganizationRole =
+  | 'owner'
+  | 'admin'
+  | 'member'
+  | 'content_editor'
+  | 'approver'
+  | 'screen_operator'
+  | 'viewer'
+  | 'billing';
+
+// What a role may do, as resource:action
+export type Permission =
+  | 'media:view'
+  | 'media:upload'
+  | 'media:edit'
+  | 'playlist:view'
+  | 'playlist:edit'
+  | 'playlist:publish'
+  | 'playlist:approve'
+  | 'screen:view'
+  | 'screen:manage'
+  | 'screen:control'
+  | 'emergency:send'
+  | 'dataSource:manage'
+  | 'members:manage'
+  | 'billing:manage';
+
+export interface RolePermissions {
+  role: OrganizationRole;
+  permissions: Permission[];
+  configurable: boolean; // Owner and admin always hold every permission
+}
+
+export interface OrganizationUser {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  isPersonal: boolean;
+  role: OrganizationRole; // The current user's role
+  permissions: Permission[]; // What that role allows
+  memberCount: number;
+  requireApproval: boolean; // Playlists are reviewed before they go on screens
+  createdAt: string;
+}
+
+export interface OrganizationMember {
+  user: OrganizationUser;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  email: string;
+  role: Exclude<OrganizationRole, 'owner'>;
+  invitedBy: OrganizationUser | null;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface OrganizationDetail extends Organization {
+  members: OrganizationMember[];
+  roles: RolePermissions[];
+  invitations: OrganizationInvitation[]; // Only listed for those who manage members
+}
+
+// An invitation addressed to the current user
+export interface PendingInvitation {
+  id: string;
+  organization: { id: string; name: string };
+  role: Exclude<OrganizationRole, 'owner'>;
+  invitedBy: OrganizationUser | null;
+  expiresAt: string;
+}
+
+export interface OrganizationListResponse {
+  success: boolean;
+  message: string;
+  data: {
+    organizations: Organization[];
+    defaultOrganization: string | null;
+  };
+}
+
+export interface OrganizationResponse<T extends Organization = Organization> {
+  success: boolean;
+  message: string;
+  data: {
+    organization: T;
+  };
+}
+
+export interface PendingInvitationListResponse {
+  success: boolean;
+  message: string;
+  data: {
+    invitations: PendingInvitation[];
+  };
+}
+
+export type EmergencyControlAction = 'stop' | 'pause' | 'resume' | 'message' | 'clear' | 'reload';
+
+export type EmergencySeverity = 'info' | 'warning' | 'critical';
+
+export interface EmergencyTemplate {
+  title?: string;
+  backgroundColor?: string; // Hex color
+  textColor?: string; // Hex color
+}
+
+export interface EmergencyControlEvent {
+  action: EmergencyControlAction;
+  broadcastId?: string;
+  message?: string;
+  severity?: EmergencySeverity;
+  template?: EmergencyTemplate & {
+    media?: { type: 'image' | 'video'; url: string };
+  };
+  startsAt?: string;
+  expiresAt?: string | null;
+  timestamp: string;
+}
+
+// ============================
+// Emergency Broadcast Types
+// ============================
+
+export type EmergencyBroadcastAction = 'stop' | 'message';
+export type EmergencyTargetType = 'all' | 'screens' | 'groups';
+export type EmergencyBroadcastStatus = 'active' | 'cleared' | 'expired';
+
+export interface EmergencyUser {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+export interface EmergencyAuditEntry {
+  action: 'issued' | 'cleared' | 'expired' | 'activated';
+  user?: string;
+  at: string;
+  details?: string;
+}
+
+export interface EmergencyBroadcast {
+  _id: string;
+  id: string;
+  owner: string;
+  action: EmergencyBroadcastAction;
+  message?: string;
+  severity: EmergencySeverity;
+  template: EmergencyTemplate & { media?: string };
+  targetType: EmergencyTargetType;
+  screens: string[];
+  groups: Array<Pick<ScreenGroup, '_id' | 'name' | 'color'> | string>; // Populated when returned by the API
+  startsAt: string;
+  expiresAt?: string | null;
+  status: EmergencyBroadcastStatus;
+  announcedAt?: string;
+  isLive: boolean;
+  issuedBy: EmergencyUser | string;
+  clearedBy?: EmergencyUser | string;
+  clearedAt?: string;
+  auditLog: EmergencyAuditEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateEmergencyData {
+  action: EmergencyBroadcastAction;
+  message?: string;
+  severity?: EmergencySeverity;
+  template?: EmergencyTemplate & { mediaId?: string };
+  targetType: EmergencyTargetType;
+  screenIds?: string[];
+  groupIds?: string[];
+  startsAt?: string;
+  expiresAt?: string;
+}
+
+export interface EmergencyResponse {
+  success: boolean;
+  message: string;
+  data: {
+    emergency: EmergencyBroadcast;
+    screensNotified: number;
+  };
+}
+
+export interface EmergencyListResponse {
+  success: boolean;
+  message: string;
+  data: {
+    emergencies: EmergencyBroadcast[];
+  };
+}
+
 // ============================
 // Export all utility functions related to types
 // ============================